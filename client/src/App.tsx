@@ -10,6 +10,9 @@ import Dashboard from "./pages/Dashboard";
 import Discover from "./pages/Discover";
 import Leads from "./pages/Leads";
 import LeadDetail from "./pages/LeadDetail";
+import LeadDuplicates from "./pages/LeadDuplicates";
+import LeadMap from "./pages/LeadMap";
+import ScoringModel from "./pages/ScoringModel";
 import Conversations from "./pages/Conversations";
 import ConversationDetail from "./pages/ConversationDetail";
 import Account from "./pages/Account";
@@ -51,6 +54,10 @@ function Router() {
       <Route path={"/dashboard"} component={Dashboard} />
       <Route path={"/discover"} component={Discover} />
       <Route path={"/leads"} component={Leads} />
+      <Route path={"/leads/duplicates"} component={LeadDuplicates} />
+      <Route path={"/leads/map"} component={LeadMap} />
+      <Route path={"/leads/scoring"} component={ScoringModel} />
+      <Route path="/leads/views/:viewId" component={Leads} />
       <Route path="/leads/:id" component={LeadDetail} />
       <Route path={"/conversations"} component={Conversations} />
       <Route path="/conversation/:id" component={ConversationDetail} />
@@ -0,0 +1,343 @@
+import { useEffect, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { AlertCircle, CheckCircle2, Download, Loader2, MoreHorizontal, Tag, Undo2, X } from "lucide-react";
+import { toast } from "sonner";
+import { TagPicker } from "@/components/LeadTags";
+import type { LeadExportFilters } from "@/components/LeadExportDialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+const BULK_STATUSES = ["new", "contacted", "qualified", "unqualified", "converted"] as const;
+
+// Picked leads, or every lead matching the current filters
+export type BulkLeadTarget = { leadIds: number[] } | { filters: LeadExportFilters };
+
+type BulkLeadAction =
+  | { type: "status"; status: (typeof BULK_STATUSES)[number] }
+  | { type: "delete" }
+  | { type: "tag"; mode: "add" | "remove"; tagIds: number[] }
+  | { type: "enroll"; sequenceId: number }
+  | { type: "assignOwner"; email: string }
+  | { type: "recalculateScore" }
+  | { type: "export"; format: "csv" | "xlsx" | "json" };
+
+const ACTION_LABELS: Record<BulkLeadAction["type"], string> = {
+  status: "Status change",
+  delete: "Delete",
+  tag: "Tagging",
+  enroll: "Sequence enrollment",
+  assignOwner: "Reassignment",
+  recalculateScore: "Score recalculation",
+  export: "Export",
+};
+
+interface BulkLeadActionsProps {
+  target: BulkLeadTarget;
+  count: number;
+  removableTagIds: number[]; // Tags on the selected leads that are loaded
+  onStarted: (operationId: number) => void;
+}
+
+/**
+ * Actions for the selected leads, each run as a tracked bulk operation
+ */
+export function BulkLeadActions({ target, count, removableTagIds, onStarted }: BulkLeadActionsProps) {
+  const [ownerDialogOpen, setOwnerDialogOpen] = useState(false);
+  const [ownerEmail, setOwnerEmail] = useState("");
+
+  const { data: sequences } = trpc.sequences.list.useQuery();
+  const startMutation = trpc.bulkOperations.start.useMutation({
+    onSuccess: ({ id }) => {
+      setOwnerDialogOpen(false);
+      setOwnerEmail("");
+      onStarted(id);
+    },
+    onError: (error) => {
+      toast.error(`Bulk action failed: ${error.message}`);
+    },
+  });
+
+  const start = (action: BulkLeadAction) => startMutation.mutate({ target, action });
+  const leadsLabel = `${count} ${count === 1 ? "lead" : "leads"}`;
+
+  const handleDelete = () => {
+    if (confirm(`Delete ${leadsLabel}? You can undo this for a few minutes afterwards.`)) {
+      start({ type: "delete" });
+    }
+  };
+
+  const handleAssign = () => {
+    if (!ownerEmail.trim()) {
+      toast.error("Please enter the new owner's email");
+      return;
+    }
+    start({ type: "assignOwner", email: ownerEmail.trim() });
+  };
+
+  return (
+    <>
+      <TagPicker selectedIds={[]} onSelect={(tag) => start({ type: "tag", mode: "add", tagIds: [tag.id] })}>
+        <Button variant="outline" size="sm" disabled={startMutation.isPending}>
+          <Tag className="h-4 w-4 mr-1" />
+          Add Tag
+        </Button>
+      </TagPicker>
+      <TagPicker
+        selectedIds={[]}
+        allowCreate={false}
+        onlyIds={"leadIds" in target ? removableTagIds : undefined}
+        onSelect={(tag) => start({ type: "tag", mode: "remove", tagIds: [tag.id] })}
+      >
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={startMutation.isPending || ("leadIds" in target && removableTagIds.length === 0)}
+        >
+          <X className="h-4 w-4 mr-1" />
+          Remove Tag
+        </Button>
+      </TagPicker>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={startMutation.isPending}>
+            {startMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : (
+              <MoreHorizontal className="h-4 w-4 mr-1" />
+            )}
+            More
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuLabel>{leadsLabel}</DropdownMenuLabel>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>Set status</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {BULK_STATUSES.map(status => (
+                <DropdownMenuItem key={status} className="capitalize" onClick={() => start({ type: "status", status })}>
+                  {status}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>Enroll in sequence</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {sequences?.length ? sequences.map(sequence => (
+                <DropdownMenuItem key={sequence.id} onClick={() => start({ type: "enroll", sequenceId: sequence.id })}>
+                  {sequence.name}
+                </DropdownMenuItem>
+              )) : (
+                <DropdownMenuItem disabled>No sequences yet</DropdownMenuItem>
+              )}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuItem onClick={() => setOwnerDialogOpen(true)}>Assign to teammate...</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => start({ type: "recalculateScore" })}>Recalculate scores</DropdownMenuItem>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>Export</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              <DropdownMenuItem onClick={() => start({ type: "export", format: "csv" })}>CSV</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => start({ type: "export", format: "xlsx" })}>Excel</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => start({ type: "export", format: "json" })}>JSON</DropdownMenuItem>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem className="text-destructive" onClick={handleDelete}>Delete</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={ownerDialogOpen} onOpenChange={setOwnerDialogOpen}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>Assign {leadsLabel}</DialogTitle>
+            <DialogDescription>
+              The leads move to the teammate's account; anyone you've shared a view with, or who has shared one
+              with you, counts as a teammate, as do admins. Your tags are removed from them.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="bulk-owner-email">Teammate's email</Label>
+            <Input
+              id="bulk-owner-email"
+              type="email"
+              value={ownerEmail}
+              onChange={(e) => setOwnerEmail(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleAssign()}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOwnerDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleAssign} disabled={startMutation.isPending}>
+              {startMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Assign
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+interface BulkOperationProgressProps {
+  operationId: number;
+  onDismiss: () => void;
+}
+
+/**
+ * Progress of a running bulk operation, then its failures, undo and download
+ */
+export function BulkOperationProgress({ operationId, onDismiss }: BulkOperationProgressProps) {
+  const [showFailures, setShowFailures] = useState(false);
+
+  const utils = trpc.useUtils();
+  const { data: operation } = trpc.bulkOperations.get.useQuery(
+    { id: operationId },
+    {
+      refetchInterval: (query) => {
+        const status = query.state.data?.status;
+        return status === "queued" || status === "running" ? 1000 : false;
+      },
+    }
+  );
+  const { data: failures } = trpc.bulkOperations.failures.useQuery(
+    { id: operationId },
+    { enabled: showFailures }
+  );
+  const finished = operation?.status === "completed" || operation?.status === "failed";
+
+  // Changed leads show up once the operation is done
+  useEffect(() => {
+    if (finished) {
+      utils.leads.invalidate();
+      utils.tags.list.invalidate();
+    }
+  }, [finished]);
+
+  // Hide the undo button when the window closes
+  useEffect(() => {
+    if (!operation?.canUndo || !operation.undoExpiresAt) return;
+    const timer = setTimeout(() => utils.bulkOperations.get.invalidate({ id: operationId }),
+      new Date(operation.undoExpiresAt).getTime() - Date.now());
+    return () => clearTimeout(timer);
+  }, [operation?.canUndo, operation?.undoExpiresAt]);
+
+  const undoMutation = trpc.bulkOperations.undo.useMutation({
+    onSuccess: ({ restored, unchanged }) => {
+      utils.bulkOperations.get.invalidate({ id: operationId });
+      utils.leads.invalidate();
+      utils.tags.list.invalidate();
+      toast.success(`Undid the change on ${restored} ${restored === 1 ? "lead" : "leads"}${
+        unchanged > 0 ? `; ${unchanged} changed since and were left as they are` : ""
+      }`);
+    },
+    onError: (error) => {
+      toast.error(`Undo failed: ${error.message}`);
+    },
+  });
+
+  const downloadMutation = trpc.bulkOperations.download.useMutation({
+    onSuccess: ({ downloadUrl, fileName }) => {
+      // The server streams the file, so hand the download to the browser
+      const link = document.createElement("a");
+      link.href = downloadUrl;
+      link.download = fileName;
+      link.style.visibility = "hidden";
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    },
+    onError: (error) => {
+      toast.error(`Download failed: ${error.message}`);
+    },
+  });
+
+  if (!operation) return null;
+
+  const percent = operation.totalCount > 0 ? Math.round((operation.processedCount / operation.totalCount) * 100) : 100;
+  const succeeded = operation.processedCount - operation.failedCount;
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex flex-wrap items-center gap-3">
+        {operation.status === "completed" ? (
+          <CheckCircle2 className="h-4 w-4 text-green-500" />
+        ) : operation.status === "failed" ? (
+          <AlertCircle className="h-4 w-4 text-destructive" />
+        ) : operation.status === "undone" ? (
+          <Undo2 className="h-4 w-4 text-muted-foreground" />
+        ) : (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        )}
+        <span className="text-sm font-medium">
+          {ACTION_LABELS[operation.params.type]}:{" "}
+          {operation.status === "undone"
+            ? "undone"
+            : `${operation.processedCount} of ${operation.totalCount} processed`}
+        </span>
+        {operation.failedCount > 0 && (
+          <Button variant="link" size="sm" className="h-auto p-0 text-destructive" onClick={() => setShowFailures(!showFailures)}>
+            {operation.failedCount} failed
+          </Button>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          {operation.params.type === "export" && operation.status === "completed" && (
+            <Button size="sm" onClick={() => downloadMutation.mutate({ id: operationId })} disabled={downloadMutation.isPending || succeeded === 0}>
+              <Download className="h-4 w-4 mr-1" />
+              Download
+            </Button>
+          )}
+          {operation.canUndo && (
+            <Button variant="outline" size="sm" onClick={() => undoMutation.mutate({ id: operationId })} disabled={undoMutation.isPending}>
+              {undoMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Undo2 className="h-4 w-4 mr-1" />}
+              Undo
+            </Button>
+          )}
+          {(finished || operation.status === "undone") && (
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onDismiss}>
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {!finished && operation.status !== "undone" && <Progress value={percent} />}
+      {operation.error && <p className="text-sm text-destructive">{operation.error}</p>}
+
+      {showFailures && (
+        <div className="max-h-[200px] overflow-y-auto rounded-md bg-muted/50 p-2 text-sm">
+          {failures ? failures.map(failure => (
+            <div key={failure.leadId} className="flex gap-2">
+              <span className="font-medium">{failure.companyName ?? `Lead #${failure.leadId}`}</span>
+              <span className="text-muted-foreground">{failure.error}</span>
+            </div>
+          )) : (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Check, Loader2, Pencil, Plus, SlidersHorizontal, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  CUSTOM_FIELD_TYPES,
+  CUSTOM_FIELD_TYPE_LABELS,
+  type CustomFieldDefinition,
+  type CustomFieldType,
+} from "@shared/customFields";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface CustomFieldsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const isSelectType = (type: CustomFieldType) => type === "single_select" || type === "multi_select";
+
+const splitOptions = (text: string) => text.split(",").map(option => option.trim()).filter(Boolean);
+
+export function CustomFieldsDialog({ open, onOpenChange }: CustomFieldsDialogProps) {
+  const [label, setLabel] = useState("");
+  const [fieldType, setFieldType] = useState<CustomFieldType>("text");
+  const [options, setOptions] = useState("");
+  const [currency, setCurrency] = useState("USD");
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editLabel, setEditLabel] = useState("");
+  const [editOptions, setEditOptions] = useState("");
+
+  const utils = trpc.useUtils();
+  const { data: fields, isLoading } = trpc.customFields.list.useQuery(undefined, { enabled: open });
+
+  const invalidate = () => {
+    utils.customFields.list.invalidate();
+    utils.leads.invalidate();
+  };
+
+  const createMutation = trpc.customFields.create.useMutation({
+    onSuccess: () => {
+      invalidate();
+      toast.success(`Field "${label.trim()}" created`);
+      setLabel("");
+      setOptions("");
+    },
+    onError: (error) => {
+      toast.error(`Failed to create field: ${error.message}`);
+    },
+  });
+
+  const updateMutation = trpc.customFields.update.useMutation({
+    onSuccess: () => {
+      invalidate();
+      setEditingId(null);
+    },
+    onError: (error) => {
+      toast.error(`Failed to update field: ${error.message}`);
+    },
+  });
+
+  const deleteMutation = trpc.customFields.delete.useMutation({
+    onSuccess: () => {
+      invalidate();
+      toast.success("Field deleted");
+    },
+    onError: (error) => {
+      toast.error(`Failed to delete field: ${error.message}`);
+    },
+  });
+
+  const handleCreate = () => {
+    if (!label.trim()) {
+      toast.error("Please enter a field name");
+      return;
+    }
+    createMutation.mutate({
+      label: label.trim(),
+      fieldType,
+      options: isSelectType(fieldType) ? splitOptions(options) : undefined,
+      currency: fieldType === "currency" ? currency.trim().toUpperCase() : undefined,
+    });
+  };
+
+  const startEditing = (field: CustomFieldDefinition) => {
+    setEditingId(field.id);
+    setEditLabel(field.label);
+    setEditOptions(field.options.join(", "));
+  };
+
+  const handleSave = (field: CustomFieldDefinition) => {
+    updateMutation.mutate({
+      id: field.id,
+      label: editLabel.trim(),
+      options: isSelectType(field.fieldType) ? splitOptions(editOptions) : undefined,
+    });
+  };
+
+  const handleDelete = (field: CustomFieldDefinition) => {
+    if (confirm(`Delete "${field.label}"? Values already saved on leads will be hidden.`)) {
+      deleteMutation.mutate({ id: field.id });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <SlidersHorizontal className="h-5 w-5" />
+            Custom Fields
+          </DialogTitle>
+          <DialogDescription>
+            Add your own fields to every lead. Use them in filters, imports, exports and
+            email templates as {"{{custom.field_key}}"}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : !fields || fields.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No custom fields yet</p>
+          ) : (
+            <div className="space-y-2 max-h-[320px] overflow-y-auto">
+              {fields.map(field => (
+                <div key={field.id} className="flex items-center gap-3 rounded-md border p-3">
+                  {editingId === field.id ? (
+                    <div className="flex-1 space-y-2">
+                      <Input value={editLabel} onChange={(e) => setEditLabel(e.target.value)} />
+                      {isSelectType(field.fieldType) && (
+                        <Input
+                          value={editOptions}
+                          placeholder="Options, comma separated"
+                          onChange={(e) => setEditOptions(e.target.value)}
+                        />
+                      )}
+                    </div>
+                  ) : (
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{field.label}</span>
+                        <Badge variant="outline">{CUSTOM_FIELD_TYPE_LABELS[field.fieldType]}</Badge>
+                        {field.currency && <Badge variant="secondary">{field.currency}</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground font-mono">{`{{custom.${field.fieldKey}}}`}</p>
+                      {field.options.length > 0 && (
+                        <p className="text-xs text-muted-foreground truncate">{field.options.join(", ")}</p>
+                      )}
+                    </div>
+                  )}
+
+                  {editingId === field.id ? (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleSave(field)}
+                        disabled={updateMutation.isPending}
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => setEditingId(null)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <Button variant="ghost" size="icon" onClick={() => startEditing(field)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(field)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-3 border-t pt-4">
+            <h4 className="font-semibold text-sm">Add a field</h4>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="custom-field-label">Name</Label>
+                <Input
+                  id="custom-field-label"
+                  placeholder="e.g. Contract Value"
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={fieldType} onValueChange={(value) => setFieldType(value as CustomFieldType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CUSTOM_FIELD_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {isSelectType(fieldType) && (
+              <div className="space-y-2">
+                <Label htmlFor="custom-field-options">Options</Label>
+                <Input
+                  id="custom-field-options"
+                  placeholder="Bronze, Silver, Gold"
+                  value={options}
+                  onChange={(e) => setOptions(e.target.value)}
+                />
+              </div>
+            )}
+
+            {fieldType === "currency" && (
+              <div className="space-y-2">
+                <Label htmlFor="custom-field-currency">Currency</Label>
+                <Input
+                  id="custom-field-currency"
+                  className="w-[120px]"
+                  maxLength={3}
+                  value={currency}
+                  onChange={(e) => setCurrency(e.target.value)}
+                />
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <Button onClick={handleCreate} disabled={createMutation.isPending}>
+                {createMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Plus className="h-4 w-4 mr-2" />
+                )}
+                Add Field
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
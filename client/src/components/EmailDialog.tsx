@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { trpc } from "@/lib/trpc";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -28,6 +29,7 @@ interface EmailDialogProps {
   defaultTo?: string;
   defaultSubject?: string;
   leadId?: number;
+  contactId?: number;
   conversationId?: number;
 }
 
@@ -37,6 +39,7 @@ export function EmailDialog({
   defaultTo = "",
   defaultSubject = "",
   leadId,
+  contactId,
   conversationId,
 }: EmailDialogProps) {
   const [to, setTo] = useState(defaultTo);
@@ -45,6 +48,7 @@ export function EmailDialog({
   const [selectedTemplate, setSelectedTemplate] = useState<string>("");
 
   const { data: templates } = trpc.email.listTemplates.useQuery();
+  const { data: variables } = trpc.email.templateVariables.useQuery(undefined, { enabled: !!leadId });
 
   const sendEmailMutation = trpc.email.send.useMutation({
     onSuccess: () => {
@@ -89,6 +93,7 @@ export function EmailDialog({
       subject,
       body,
       leadId,
+      contactId,
       conversationId,
       templateId: selectedTemplate ? parseInt(selectedTemplate) : undefined,
     });
@@ -156,6 +161,26 @@ export function EmailDialog({
               onChange={(e) => setBody(e.target.value)}
               rows={10}
             />
+            {leadId && variables && variables.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">
+                  Click a variable to insert it. It is replaced with this lead's value when sent.
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {variables.map((variable) => (
+                    <Badge
+                      key={variable.key}
+                      variant="outline"
+                      className="cursor-pointer font-mono text-xs"
+                      title={variable.label}
+                      onClick={() => setBody((current) => `${current}{{${variable.key}}}`)}
+                    >
+                      {`{{${variable.key}}}`}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         </div>
 
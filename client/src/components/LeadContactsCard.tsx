@@ -0,0 +1,325 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { EmailDialog } from "@/components/EmailDialog";
+import { Ban, Linkedin, Loader2, Mail, Pencil, Phone, Plus, Send, Star, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { CONTACT_ROLES, CONTACT_ROLE_LABELS, type ContactRole } from "@shared/contacts";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface LeadContactsCardProps {
+  leadId: number;
+  companyName: string;
+}
+
+interface ContactDraft {
+  name: string;
+  title: string;
+  role: ContactRole;
+  email: string;
+  phone: string;
+  linkedin: string;
+  doNotContact: boolean;
+}
+
+const emptyDraft: ContactDraft = {
+  name: "",
+  title: "",
+  role: "other",
+  email: "",
+  phone: "",
+  linkedin: "",
+  doNotContact: false,
+};
+
+export function LeadContactsCard({ leadId, companyName }: LeadContactsCardProps) {
+  // null = closed, 0 = adding, otherwise the id of the contact being edited
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<ContactDraft>(emptyDraft);
+  const [emailContact, setEmailContact] = useState<{ id: number; email: string } | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: contacts, isLoading } = trpc.contacts.list.useQuery({ leadId });
+
+  const onChanged = () => {
+    utils.contacts.list.invalidate({ leadId });
+    utils.leads.get.invalidate({ id: leadId });
+    utils.leads.query.invalidate();
+  };
+
+  const createMutation = trpc.contacts.create.useMutation({
+    onSuccess: () => {
+      onChanged();
+      toast.success("Contact added");
+      setEditingId(null);
+    },
+    onError: (error) => {
+      toast.error(`Failed to add contact: ${error.message}`);
+    },
+  });
+
+  const updateMutation = trpc.contacts.update.useMutation({
+    onSuccess: () => {
+      onChanged();
+      toast.success("Contact saved");
+      setEditingId(null);
+    },
+    onError: (error) => {
+      toast.error(`Failed to save contact: ${error.message}`);
+    },
+  });
+
+  const deleteMutation = trpc.contacts.delete.useMutation({
+    onSuccess: () => {
+      onChanged();
+      toast.success("Contact removed");
+    },
+    onError: (error) => {
+      toast.error(`Failed to remove contact: ${error.message}`);
+    },
+  });
+
+  const setPrimaryMutation = trpc.contacts.setPrimary.useMutation({
+    onSuccess: onChanged,
+    onError: (error) => {
+      toast.error(`Failed to set primary contact: ${error.message}`);
+    },
+  });
+
+  const openEditor = (contact?: NonNullable<typeof contacts>[number]) => {
+    setDraft(contact ? {
+      name: contact.name ?? "",
+      title: contact.title ?? "",
+      role: contact.role,
+      email: contact.email ?? "",
+      phone: contact.phone ?? "",
+      linkedin: contact.linkedin ?? "",
+      doNotContact: !!contact.doNotContact,
+    } : emptyDraft);
+    setEditingId(contact?.id ?? 0);
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim() && !draft.email.trim()) {
+      toast.error("Enter a name or an email");
+      return;
+    }
+    if (editingId) {
+      updateMutation.mutate({ id: editingId, ...draft });
+    } else {
+      createMutation.mutate({ leadId, ...draft });
+    }
+  };
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Contacts</CardTitle>
+            <CardDescription>People at {companyName}; the starred contact is the primary contact</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => openEditor()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Contact
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : !contacts || contacts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No contacts yet</p>
+        ) : (
+          <div className="divide-y">
+            {contacts.map(contact => (
+              <div key={contact.id} className="flex items-start justify-between gap-4 py-3">
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{contact.name || contact.email}</span>
+                    {contact.title && <span className="text-sm text-muted-foreground">{contact.title}</span>}
+                    <Badge variant="outline">{CONTACT_ROLE_LABELS[contact.role]}</Badge>
+                    {!!contact.doNotContact && (
+                      <Badge variant="outline" className="bg-red-500/10 text-red-500 border-red-500/20">
+                        <Ban className="h-3 w-3 mr-1" />
+                        Do not contact
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                    {contact.email && (
+                      <span className="flex items-center gap-1">
+                        <Mail className="h-3 w-3" />
+                        {contact.email}
+                      </span>
+                    )}
+                    {contact.phone && (
+                      <span className="flex items-center gap-1">
+                        <Phone className="h-3 w-3" />
+                        {contact.phone}
+                      </span>
+                    )}
+                    {contact.linkedin && (
+                      <a
+                        href={contact.linkedin}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 hover:text-foreground"
+                      >
+                        <Linkedin className="h-3 w-3" />
+                        LinkedIn
+                      </a>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title={contact.isPrimary ? "Primary contact" : "Make primary contact"}
+                    disabled={!!contact.isPrimary || setPrimaryMutation.isPending}
+                    onClick={() => setPrimaryMutation.mutate({ id: contact.id })}
+                  >
+                    <Star className={`h-4 w-4 ${contact.isPrimary ? "fill-yellow-500 text-yellow-500" : ""}`} />
+                  </Button>
+                  {contact.email && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title={contact.doNotContact ? "Marked do not contact" : "Send email"}
+                      disabled={!!contact.doNotContact}
+                      onClick={() => setEmailContact({ id: contact.id, email: contact.email! })}
+                    >
+                      <Send className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="icon" title="Edit contact" onClick={() => openEditor(contact)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Remove contact"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => {
+                      if (confirm(`Remove ${contact.name || contact.email} from this lead?`)) {
+                        deleteMutation.mutate({ id: contact.id });
+                      }
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={editingId !== null} onOpenChange={(open) => !open && setEditingId(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Contact" : "Add Contact"}</DialogTitle>
+            <DialogDescription>A contact needs at least a name or an email</DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="contact-name">Name</Label>
+              <Input id="contact-name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact-title">Job title</Label>
+              <Input id="contact-title" value={draft.title} onChange={(e) => setDraft({ ...draft, title: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact-role">Role</Label>
+              <Select value={draft.role} onValueChange={(role) => setDraft({ ...draft, role: role as ContactRole })}>
+                <SelectTrigger id="contact-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONTACT_ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{CONTACT_ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact-email">Email</Label>
+              <Input
+                id="contact-email"
+                type="email"
+                value={draft.email}
+                onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact-phone">Phone</Label>
+              <Input id="contact-phone" value={draft.phone} onChange={(e) => setDraft({ ...draft, phone: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact-linkedin">LinkedIn</Label>
+              <Input
+                id="contact-linkedin"
+                placeholder="https://linkedin.com/in/..."
+                value={draft.linkedin}
+                onChange={(e) => setDraft({ ...draft, linkedin: e.target.value })}
+              />
+            </div>
+            <label className="col-span-2 flex items-center gap-2 text-sm">
+              <Switch
+                checked={draft.doNotContact}
+                onCheckedChange={(doNotContact) => setDraft({ ...draft, doNotContact })}
+              />
+              Do not contact: block emails and sequence enrollments to this person
+            </label>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingId(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {emailContact && (
+        <EmailDialog
+          key={emailContact.id}
+          open
+          onOpenChange={(open) => !open && setEmailContact(null)}
+          defaultTo={emailContact.email}
+          defaultSubject={`Follow up with ${companyName}`}
+          leadId={leadId}
+          contactId={emailContact.id}
+        />
+      )}
+    </Card>
+  );
+}
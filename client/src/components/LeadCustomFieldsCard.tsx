@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ExternalLink, Loader2, Pencil, Save } from "lucide-react";
+import { toast } from "sonner";
+import {
+  formatCustomFieldValue,
+  parseCustomFieldValues,
+  type CustomFieldDefinition,
+  type CustomFieldValue,
+} from "@shared/customFields";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface LeadCustomFieldsCardProps {
+  leadId: number;
+  customFields: string | null;
+}
+
+type DraftValue = string | string[];
+
+// Form inputs edit text; the server normalizes numbers, dates and URLs on save
+function toDraftValue(field: CustomFieldDefinition, value: CustomFieldValue | undefined): DraftValue {
+  if (field.fieldType === "multi_select") return Array.isArray(value) ? value : [];
+  return value === undefined ? "" : String(value);
+}
+
+function FieldEditor({
+  field,
+  value,
+  onChange,
+}: {
+  field: CustomFieldDefinition;
+  value: DraftValue;
+  onChange: (value: DraftValue) => void;
+}) {
+  switch (field.fieldType) {
+    case "single_select":
+      return (
+        <Select value={(value as string) || "__none"} onValueChange={(v) => onChange(v === "__none" ? "" : v)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="__none">None</SelectItem>
+            {field.options.map(option => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case "multi_select": {
+      const selected = value as string[];
+      return (
+        <div className="flex flex-wrap gap-3">
+          {field.options.map(option => (
+            <label key={option} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={selected.includes(option)}
+                onCheckedChange={(checked) =>
+                  onChange(checked === true ? [...selected, option] : selected.filter(o => o !== option))
+                }
+              />
+              {option}
+            </label>
+          ))}
+        </div>
+      );
+    }
+    default:
+      return (
+        <Input
+          type={field.fieldType === "date" ? "date" : field.fieldType === "text" || field.fieldType === "url" ? "text" : "number"}
+          step={field.fieldType === "currency" ? "0.01" : undefined}
+          placeholder={field.fieldType === "url" ? "https://" : field.currency ?? undefined}
+          value={value as string}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+  }
+}
+
+export function LeadCustomFieldsCard({ leadId, customFields }: LeadCustomFieldsCardProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<Record<string, DraftValue>>({});
+
+  const utils = trpc.useUtils();
+  const { data: fields } = trpc.customFields.list.useQuery();
+  const values = parseCustomFieldValues(customFields);
+
+  const updateLeadMutation = trpc.leads.update.useMutation({
+    onSuccess: () => {
+      utils.leads.invalidate();
+      toast.success("Custom fields saved");
+      setEditing(false);
+    },
+    onError: (error) => {
+      toast.error(`Failed to save custom fields: ${error.message}`);
+    },
+  });
+
+  if (!fields || fields.length === 0) return null;
+
+  const startEditing = () => {
+    setDraft(Object.fromEntries(fields.map(field => [field.fieldKey, toDraftValue(field, values[field.fieldKey])])));
+    setEditing(true);
+  };
+
+  const handleSave = () => {
+    updateLeadMutation.mutate({ id: leadId, customFields: draft });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Custom Fields</CardTitle>
+            <CardDescription>Your own fields for this lead</CardDescription>
+          </div>
+          {editing ? (
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setEditing(false)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={updateLeadMutation.isPending}>
+                {updateLeadMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="h-4 w-4 mr-2" />
+                )}
+                Save
+              </Button>
+            </div>
+          ) : (
+            <Button variant="outline" size="sm" onClick={startEditing}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {fields.map(field => (
+            <div key={field.id} className="space-y-1">
+              <Label className="text-muted-foreground">
+                {field.label}
+                {field.fieldType === "currency" && field.currency ? ` (${field.currency})` : ""}
+              </Label>
+              {editing ? (
+                <FieldEditor
+                  field={field}
+                  value={draft[field.fieldKey] ?? toDraftValue(field, undefined)}
+                  onChange={(value) => setDraft(prev => ({ ...prev, [field.fieldKey]: value }))}
+                />
+              ) : values[field.fieldKey] === undefined ? (
+                <p className="text-sm text-muted-foreground italic">Not set</p>
+              ) : field.fieldType === "url" ? (
+                <a
+                  href={String(values[field.fieldKey])}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-2 text-sm text-primary hover:underline break-all"
+                >
+                  {String(values[field.fieldKey])}
+                  <ExternalLink className="h-3 w-3 shrink-0" />
+                </a>
+              ) : (
+                <p className="text-sm">{formatCustomFieldValue(field, values[field.fieldKey])}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,158 @@
+import { trpc } from "@/lib/trpc";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { AlertTriangle, Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import {
+  ENRICHER_LABELS,
+  ENRICHMENT_DATA_TYPES,
+  ENRICHMENT_DATA_TYPE_LABELS,
+  ENRICHMENT_FACT_LABELS,
+  formatEnrichmentValue,
+  type EnricherId,
+  type EnrichmentValue,
+} from "@shared/enrichment";
+
+interface LeadEnrichmentCardProps {
+  leadId: number;
+}
+
+function sourceLabel(source: string) {
+  return ENRICHER_LABELS[source as EnricherId] ?? source;
+}
+
+function FactValue({ value }: { value: EnrichmentValue }) {
+  const text = formatEnrichmentValue(value);
+  if (typeof value === "string" && /^https?:\/\//i.test(value)) {
+    return (
+      <a href={value} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline break-all">
+        {text}
+      </a>
+    );
+  }
+  return <span className="break-words">{text}</span>;
+}
+
+/**
+ * Every fact enrichment found about a lead, where it came from and how sure each source is
+ */
+export function LeadEnrichmentCard({ leadId }: LeadEnrichmentCardProps) {
+  const utils = trpc.useUtils();
+  const { data: facts, isLoading } = trpc.leads.enrichment.useQuery({ leadId });
+  const { data: enrichers } = trpc.leads.enrichers.useQuery();
+  const available = enrichers?.filter((enricher) => !enricher.unavailableReason) ?? [];
+
+  const enrichMutation = trpc.leads.enrich.useMutation({
+    onSuccess: (run) => {
+      utils.leads.enrichment.invalidate({ leadId });
+      if (run.updatedFields.length > 0) {
+        utils.leads.get.invalidate({ id: leadId });
+        utils.leads.query.invalidate();
+      }
+      const found = run.enrichers.reduce((sum, enricher) => sum + enricher.facts, 0);
+      toast.success(found > 0 ? `Found ${found} ${found === 1 ? "fact" : "facts"}` : "Nothing new found");
+      run.enrichers.forEach(({ enricher, status, error }) => {
+        if (status === "failed") toast.warning(`${ENRICHER_LABELS[enricher]} failed: ${error}`);
+      });
+    },
+    onError: (error) => {
+      toast.error(`Enrichment failed: ${error.message}`);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Enrichment</CardTitle>
+            <CardDescription>
+              What we found about this company, and where it came from
+            </CardDescription>
+          </div>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => enrichMutation.mutate({ leadId, enrichers: available.map((enricher) => enricher.id) })}
+                  disabled={enrichMutation.isPending || available.length === 0}
+                >
+                  {enrichMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                  )}
+                  Enrich Now
+                </Button>
+              </span>
+            </TooltipTrigger>
+            <TooltipContent>
+              {enrichers?.map((enricher) => (
+                <p key={enricher.id}>
+                  {enricher.label}: {enricher.unavailableReason ?? enricher.description}
+                </p>
+              ))}
+            </TooltipContent>
+          </Tooltip>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : !facts || facts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing found yet</p>
+        ) : (
+          <div className="space-y-6">
+            {[...ENRICHMENT_DATA_TYPES, ...Array.from(new Set(facts.map((fact) => fact.dataType)))]
+              .filter((dataType, index, all) => all.indexOf(dataType) === index)
+              .map((dataType) => {
+                const group = facts.filter((fact) => fact.dataType === dataType);
+                if (group.length === 0) return null;
+                return (
+                  <div key={dataType} className="space-y-2">
+                    <h4 className="text-sm font-semibold">
+                      {ENRICHMENT_DATA_TYPE_LABELS[dataType as keyof typeof ENRICHMENT_DATA_TYPE_LABELS] ?? dataType}
+                    </h4>
+                    <div className="divide-y">
+                      {group.map((fact) => (
+                        <div key={fact.dataKey} className="grid grid-cols-[140px_1fr] gap-4 py-2 text-sm">
+                          <span className="text-muted-foreground">
+                            {ENRICHMENT_FACT_LABELS[fact.dataKey] ?? fact.dataKey}
+                          </span>
+                          <div className="space-y-1 min-w-0">
+                            <FactValue value={fact.value} />
+                            <div className="flex flex-wrap items-center gap-1">
+                              {fact.sources.map((source) => (
+                                <Badge key={source} variant="secondary" className="text-xs">{sourceLabel(source)}</Badge>
+                              ))}
+                              <span className="text-xs text-muted-foreground">{fact.confidence}% confident</span>
+                            </div>
+                            {fact.alternatives.map((alternative) => (
+                              <p key={alternative.sources.join()} className="flex items-start gap-1 text-xs text-amber-600">
+                                <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                                <span>
+                                  {alternative.sources.map(sourceLabel).join(", ")} says{" "}
+                                  <span className="font-medium">{formatEnrichmentValue(alternative.value)}</span>{" "}
+                                  ({alternative.confidence}%)
+                                </span>
+                              </p>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
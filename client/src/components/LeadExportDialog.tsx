@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import type { CustomFieldFilter } from "@shared/customFields";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const EXPORT_COLUMN_LABELS = {
+  companyName: "Company Name",
+  website: "Website",
+  industry: "Industry",
+  companySize: "Company Size",
+  location: "Location",
+  description: "Description",
+  contactName: "Contact Name",
+  contactTitle: "Contact Title",
+  contactEmail: "Contact Email",
+  contactLinkedin: "Contact LinkedIn",
+  contactPhone: "Contact Phone",
+  status: "Status",
+  score: "Score",
+  scorePriority: "Priority",
+  emailOpens: "Email Opens",
+  emailClicks: "Email Clicks",
+  notes: "Notes",
+  tags: "Tags",
+  createdAt: "Created At",
+  updatedAt: "Updated At",
+};
+
+type ExportColumn = keyof typeof EXPORT_COLUMN_LABELS | `custom:${string}`;
+type ExportFormat = "csv" | "xlsx" | "json";
+
+const STANDARD_COLUMNS = Object.keys(EXPORT_COLUMN_LABELS) as ExportColumn[];
+
+export interface LeadExportFilters {
+  status?: string;
+  scorePriority?: "high" | "medium" | "low";
+  scoreMin?: number;
+  scoreMax?: number;
+  industry?: string;
+  location?: string;
+  tagIds?: number[];
+  tagMatch?: "any" | "all"; // Leads with any (default) or all of the tags
+  technologies?: string[]; // Leads running any of these
+  createdFrom?: string; // YYYY-MM-DD
+  createdTo?: string;
+  updatedFrom?: string;
+  updatedTo?: string;
+  engagement?: "opened" | "clicked" | "none";
+  customField?: CustomFieldFilter;
+  snapshotViewId?: number; // Leads frozen in a static saved view
+  sortBy: string; // Built-in sort or "custom:<key>[:desc]"
+}
+
+interface LeadExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  filters: LeadExportFilters;
+  matchingCount: number;
+}
+
+export function LeadExportDialog({ open, onOpenChange, filters, matchingCount }: LeadExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  // Tracks unchecked columns so custom fields are included by default once loaded
+  const [excludedColumns, setExcludedColumns] = useState<ExportColumn[]>([]);
+
+  const { data: customFields } = trpc.customFields.list.useQuery();
+  const { data: tags } = trpc.tags.list.useQuery(undefined, { enabled: open && !!filters.tagIds?.length });
+  const customLabels = Object.fromEntries(
+    (customFields || []).map(field => [`custom:${field.fieldKey}`, field.label])
+  ) as Record<ExportColumn, string>;
+  const allColumns = [...STANDARD_COLUMNS, ...(Object.keys(customLabels) as ExportColumn[])];
+  const columns = allColumns.filter(column => !excludedColumns.includes(column));
+  const columnLabel = (column: ExportColumn) =>
+    customLabels[column] ?? EXPORT_COLUMN_LABELS[column as keyof typeof EXPORT_COLUMN_LABELS];
+
+  const exportMutation = trpc.leads.export.useMutation({
+    onSuccess: ({ downloadUrl, fileName }) => {
+      // The server streams the file, so hand the download to the browser
+      const link = document.createElement("a");
+      link.href = downloadUrl;
+      link.download = fileName;
+      link.style.visibility = "hidden";
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+
+      toast.success(`Exporting ${matchingCount} leads to ${format.toUpperCase()}`);
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast.error(`Export failed: ${error.message}`);
+    },
+  });
+
+  const toggleColumn = (column: ExportColumn, checked: boolean) => {
+    setExcludedColumns(prev => checked ? prev.filter(c => c !== column) : [...prev, column]);
+  };
+
+  const activeFilters = [
+    filters.status && `Status: ${filters.status}`,
+    filters.scorePriority && `Priority: ${filters.scorePriority}`,
+    (filters.scoreMin !== undefined || filters.scoreMax !== undefined) &&
+      `Score: ${filters.scoreMin ?? 0}-${filters.scoreMax ?? 100}`,
+    filters.industry && `Industry: ${filters.industry}`,
+    filters.location && `Location: ${filters.location}`,
+    filters.tagIds?.length && `${filters.tagMatch === "all" ? "All tags" : "Tags"}: ${
+      filters.tagIds.map(id => tags?.find(tag => tag.id === id)?.name ?? id).join(", ")
+    }`,
+    filters.technologies?.length && `Technologies: ${filters.technologies.join(", ")}`,
+    (filters.createdFrom || filters.createdTo) &&
+      `Created: ${filters.createdFrom || "any"} to ${filters.createdTo || "any"}`,
+    (filters.updatedFrom || filters.updatedTo) &&
+      `Updated: ${filters.updatedFrom || "any"} to ${filters.updatedTo || "any"}`,
+    filters.engagement && `Engagement: ${filters.engagement}`,
+    filters.customField && `${customLabels[`custom:${filters.customField.key}`] ?? filters.customField.key}: ${
+      filters.customField.value || [filters.customField.min, filters.customField.max].map(v => v || "any").join(" to ")
+    }`,
+  ].filter(Boolean) as string[];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Download className="h-5 w-5" />
+            Export Leads
+          </DialogTitle>
+          <DialogDescription>
+            Exports the {matchingCount} leads matching your current filters and sort order.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {activeFilters.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {activeFilters.map(filter => (
+                <Badge key={filter} variant="outline">{filter}</Badge>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="csv">CSV</SelectItem>
+                <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
+                <SelectItem value="json">JSON</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Columns</Label>
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setExcludedColumns([])}>
+                  Select all
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setExcludedColumns(allColumns)}>
+                  Clear
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {allColumns.map(column => (
+                <div key={column} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`export-${column}`}
+                    checked={columns.includes(column)}
+                    onCheckedChange={(checked) => toggleColumn(column, checked === true)}
+                  />
+                  <Label htmlFor={`export-${column}`} className="font-normal">
+                    {columnLabel(column)}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => exportMutation.mutate({ format, columns, filters })}
+            disabled={columns.length === 0 || matchingCount === 0 || exportMutation.isPending}
+          >
+            {exportMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4 mr-2" />
+            )}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
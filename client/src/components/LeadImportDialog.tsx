@@ -0,0 +1,281 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertCircle, CheckCircle2, Copy, FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export const LEAD_FIELD_LABELS = {
+  companyName: "Company Name",
+  website: "Website",
+  industry: "Industry",
+  companySize: "Company Size",
+  location: "Location",
+  description: "Description",
+  contactName: "Contact Name",
+  contactTitle: "Contact Title",
+  contactEmail: "Contact Email",
+  contactLinkedin: "Contact LinkedIn",
+  contactPhone: "Contact Phone",
+  notes: "Notes",
+  tags: "Tags",
+};
+
+type LeadField = keyof typeof LEAD_FIELD_LABELS;
+
+interface LeadImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = reader.result as string;
+      // Strip the "data:<mime>;base64," prefix
+      resolve(result.substring(result.indexOf(",") + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export function LeadImportDialog({ open, onOpenChange }: LeadImportDialogProps) {
+  const [file, setFile] = useState<{ name: string; base64: string } | null>(null);
+  // Lead field or "custom:<key>" per header
+  const [mapping, setMapping] = useState<Record<string, string | null>>({});
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+
+  const utils = trpc.useUtils();
+  const { data: customFields } = trpc.customFields.list.useQuery(undefined, { enabled: open });
+  const previewMutation = trpc.leads.importPreview.useMutation({
+    onSuccess: (preview) => {
+      setMapping(preview.suggestedMapping);
+    },
+    onError: (error) => {
+      toast.error(`Failed to read file: ${error.message}`);
+    },
+  });
+
+  const importMutation = trpc.leads.import.useMutation({
+    onSuccess: (result) => {
+      if (!result.dryRun) {
+        utils.leads.invalidate();
+        toast.success(`Imported ${result.imported} leads`);
+      }
+    },
+    onError: (error) => {
+      toast.error(`Import failed: ${error.message}`);
+    },
+  });
+
+  const preview = previewMutation.data;
+  const result = importMutation.data;
+
+  const reset = () => {
+    setFile(null);
+    setMapping({});
+    previewMutation.reset();
+    importMutation.reset();
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+
+    importMutation.reset();
+    const base64 = await readFileAsBase64(selected);
+    setFile({ name: selected.name, base64 });
+    previewMutation.mutate({ fileName: selected.name, fileBase64: base64 });
+  };
+
+  const runImport = (dryRun: boolean) => {
+    if (!file) return;
+    importMutation.mutate({
+      fileName: file.name,
+      fileBase64: file.base64,
+      mapping,
+      skipDuplicates,
+      dryRun,
+    });
+  };
+
+  const hasCompanyName = Object.values(mapping).includes("companyName");
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            Import Leads
+          </DialogTitle>
+          <DialogDescription>
+            Upload a CSV or XLSX file, match its columns to lead fields, and import.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="import-file">File</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={handleFileChange}
+              disabled={previewMutation.isPending || importMutation.isPending}
+            />
+          </div>
+
+          {previewMutation.isPending && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Reading file...
+            </div>
+          )}
+
+          {preview && !(result && !result.dryRun) && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="font-semibold text-sm">Column Mapping</h4>
+                <span className="text-xs text-muted-foreground">{preview.totalRows} rows found</span>
+              </div>
+              <ScrollArea className="h-[260px] pr-3">
+                <div className="space-y-2">
+                  {preview.headers.map((header, index) => (
+                    <div key={header} className="grid grid-cols-2 gap-3 items-center">
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium truncate">{header}</div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          {preview.sampleRows[0]?.[index] || "—"}
+                        </div>
+                      </div>
+                      <Select
+                        value={mapping[header] ?? "ignore"}
+                        onValueChange={(value) =>
+                          setMapping(prev => ({ ...prev, [header]: value === "ignore" ? null : value }))
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="ignore">Don't import</SelectItem>
+                          {Object.entries(LEAD_FIELD_LABELS).map(([field, label]) => (
+                            <SelectItem key={field} value={field}>{label}</SelectItem>
+                          ))}
+                          {customFields?.map(field => (
+                            <SelectItem key={field.fieldKey} value={`custom:${field.fieldKey}`}>
+                              {field.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+
+              <div className="flex items-center gap-2">
+                <Switch id="skip-duplicates" checked={skipDuplicates} onCheckedChange={setSkipDuplicates} />
+                <Label htmlFor="skip-duplicates">Skip leads that already exist</Label>
+              </div>
+
+              {!hasCompanyName && (
+                <p className="text-sm text-destructive">Map a column to Company Name to continue.</p>
+              )}
+            </div>
+          )}
+
+          {result && (
+            <div className="space-y-3 pt-2 border-t">
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline" className="bg-green-500/10 text-green-500 border-green-500/20">
+                  <CheckCircle2 className="h-3 w-3 mr-1" />
+                  {result.imported} {result.dryRun ? "ready to import" : "imported"}
+                </Badge>
+                <Badge variant="outline" className="bg-yellow-500/10 text-yellow-500 border-yellow-500/20">
+                  <Copy className="h-3 w-3 mr-1" />
+                  {result.duplicates.length} duplicates
+                </Badge>
+                <Badge variant="outline" className="bg-red-500/10 text-red-500 border-red-500/20">
+                  <AlertCircle className="h-3 w-3 mr-1" />
+                  {result.failed} invalid rows
+                </Badge>
+              </div>
+
+              {(result.errors.length > 0 || result.duplicates.length > 0) && (
+                <ScrollArea className="h-[160px] rounded-md border p-3">
+                  <div className="space-y-1 text-xs">
+                    {result.errors.map((error, i) => (
+                      <div key={`error-${i}`} className="text-destructive">
+                        Row {error.row}{error.field ? ` (${LEAD_FIELD_LABELS[error.field as LeadField] || error.field})` : ""}: {error.message}
+                      </div>
+                    ))}
+                    {result.duplicates.map((duplicate) => (
+                      <div key={`duplicate-${duplicate.row}`} className="text-muted-foreground">
+                        Row {duplicate.row}: {duplicate.companyName} matches {duplicate.existingLeadId ? "an existing lead" : "an earlier row"} by {duplicate.matchedOn === "companyName" ? "company name" : duplicate.matchedOn}
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {result && !result.dryRun ? (
+            <Button onClick={() => handleOpenChange(false)}>Done</Button>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => runImport(true)}
+                disabled={!preview || !hasCompanyName || importMutation.isPending}
+              >
+                Validate
+              </Button>
+              <Button
+                onClick={() => runImport(false)}
+                disabled={!preview || !hasCompanyName || importMutation.isPending}
+              >
+                {importMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="h-4 w-4 mr-2" />
+                )}
+                Import {preview ? `${preview.totalRows} rows` : ""}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,162 @@
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { TagBadge } from "@/components/LeadTags";
+import type { LeadTag } from "@shared/tags";
+import type { ScorePriority } from "@shared/scoring";
+import { useScorePriority } from "@/hooks/useScorePriority";
+import {
+  formatCustomFieldValue,
+  parseCustomFieldValues,
+  type CustomFieldDefinition,
+} from "@shared/customFields";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+// Lead columns a table can show; engagement counts are export-only
+export const LEAD_TABLE_COLUMN_LABELS = {
+  companyName: "Company Name",
+  website: "Website",
+  industry: "Industry",
+  companySize: "Company Size",
+  location: "Location",
+  description: "Description",
+  contactName: "Contact Name",
+  contactTitle: "Contact Title",
+  contactEmail: "Contact Email",
+  contactLinkedin: "Contact LinkedIn",
+  contactPhone: "Contact Phone",
+  status: "Status",
+  score: "Score",
+  scorePriority: "Priority",
+  notes: "Notes",
+  tags: "Tags",
+  createdAt: "Created At",
+  updatedAt: "Updated At",
+};
+
+export type LeadTableColumn = keyof typeof LEAD_TABLE_COLUMN_LABELS | `custom:${string}`;
+
+export const DEFAULT_TABLE_COLUMNS: LeadTableColumn[] = ["companyName", "industry", "location", "contactName", "status", "score"];
+
+export interface LeadTableRow {
+  id: number;
+  companyName: string;
+  status: string;
+  score: number | null;
+  customFields: string | null;
+  tags?: LeadTag[];
+  createdAt: Date | string;
+  updatedAt: Date | string;
+  [key: string]: unknown;
+}
+
+interface LeadTableProps {
+  leads: LeadTableRow[];
+  columns: LeadTableColumn[];
+  customFields: CustomFieldDefinition[];
+  linkToLeads?: boolean; // Off for views shared by another user
+  selectedIds?: number[]; // Shows a selection checkbox per row when set
+  onSelectionChange?: (ids: number[]) => void;
+}
+
+export function leadColumnLabel(column: LeadTableColumn, customFields: CustomFieldDefinition[]) {
+  if (column.startsWith("custom:")) {
+    return customFields.find(field => `custom:${field.fieldKey}` === column)?.label ?? column.slice(7);
+  }
+  return LEAD_TABLE_COLUMN_LABELS[column as keyof typeof LEAD_TABLE_COLUMN_LABELS] ?? column;
+}
+
+const PRIORITY_LABELS: Record<ScorePriority, string> = { high: "High", medium: "Medium", low: "Low" };
+
+function cellText(lead: LeadTableRow, column: LeadTableColumn, customFields: CustomFieldDefinition[], priorityOf: (score: number | null) => ScorePriority) {
+  if (column.startsWith("custom:")) {
+    const field = customFields.find(f => `custom:${f.fieldKey}` === column);
+    const value = field && parseCustomFieldValues(lead.customFields)[field.fieldKey];
+    return field && value !== undefined ? formatCustomFieldValue(field, value) : "";
+  }
+
+  switch (column) {
+    case "scorePriority":
+      return PRIORITY_LABELS[priorityOf(lead.score)];
+    case "tags":
+      return lead.tags?.map(tag => tag.name).join(", ") ?? "";
+    case "createdAt":
+    case "updatedAt":
+      return new Date(lead[column]).toLocaleDateString();
+    default: {
+      const value = lead[column];
+      return value === null || value === undefined ? "" : String(value);
+    }
+  }
+}
+
+export function LeadTable({ leads, columns, customFields, linkToLeads = true, selectedIds, onSelectionChange }: LeadTableProps) {
+  const priorityOf = useScorePriority();
+  const allSelected = !!selectedIds && leads.length > 0 && leads.every(lead => selectedIds.includes(lead.id));
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {selectedIds && (
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) => onSelectionChange?.(checked === true ? leads.map(lead => lead.id) : [])}
+                  aria-label="Select all leads"
+                />
+              </TableHead>
+            )}
+            {columns.map(column => (
+              <TableHead key={column}>{leadColumnLabel(column, customFields)}</TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {leads.map(lead => (
+            <TableRow key={lead.id} data-state={selectedIds?.includes(lead.id) ? "selected" : undefined}>
+              {selectedIds && (
+                <TableCell>
+                  <Checkbox
+                    checked={selectedIds.includes(lead.id)}
+                    onCheckedChange={(checked) => onSelectionChange?.(
+                      checked === true ? [...selectedIds, lead.id] : selectedIds.filter(id => id !== lead.id)
+                    )}
+                    aria-label={`Select ${lead.companyName}`}
+                  />
+                </TableCell>
+              )}
+              {columns.map(column => (
+                <TableCell key={column} className="max-w-[280px] truncate">
+                  {column === "companyName" && linkToLeads ? (
+                    <Link href={`/leads/${lead.id}`} className="font-medium hover:text-primary">
+                      {lead.companyName}
+                    </Link>
+                  ) : column === "status" ? (
+                    <Badge variant="outline">{lead.status}</Badge>
+                  ) : column === "tags" && lead.tags?.length ? (
+                    <div className="flex flex-wrap gap-1">
+                      {lead.tags.map(tag => (
+                        <TagBadge key={tag.id} tag={tag} />
+                      ))}
+                    </div>
+                  ) : (
+                    cellText(lead, column, customFields, priorityOf)
+                  )}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState, type ReactNode } from "react";
+import { trpc } from "@/lib/trpc";
+import { Badge } from "@/components/ui/badge";
+import { Check, Plus, X } from "lucide-react";
+import { toast } from "sonner";
+import { normalizeTagName, type LeadTag } from "@shared/tags";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+
+interface TagBadgeProps {
+  tag: LeadTag;
+  onRemove?: () => void;
+}
+
+export function TagBadge({ tag, onRemove }: TagBadgeProps) {
+  return (
+    <Badge
+      variant="outline"
+      className="gap-1.5"
+      style={{ borderColor: `${tag.color}66`, backgroundColor: `${tag.color}1a`, color: tag.color }}
+    >
+      <span className="h-2 w-2 rounded-full" style={{ backgroundColor: tag.color }} />
+      {tag.name}
+      {onRemove && (
+        <button type="button" onClick={onRemove} className="ml-0.5 opacity-70 hover:opacity-100">
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </Badge>
+  );
+}
+
+interface TagPickerProps {
+  selectedIds: number[];
+  onSelect: (tag: LeadTag, selected: boolean) => void;
+  allowCreate?: boolean; // Offer to create a tag from the typed name
+  onlyIds?: number[]; // Limit the choices, e.g. to tags the leads already have
+  align?: "start" | "end";
+  children: ReactNode; // Trigger
+}
+
+/**
+ * Tag autocomplete: search the user's tags, pick one, or create a new one by name
+ */
+export function TagPicker({ selectedIds, onSelect, allowCreate = true, onlyIds, align = "start", children }: TagPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+
+  const utils = trpc.useUtils();
+  const { data: allTags } = trpc.tags.list.useQuery();
+  const tags = onlyIds ? allTags?.filter(tag => onlyIds.includes(tag.id)) : allTags;
+  const createMutation = trpc.tags.create.useMutation({
+    onSuccess: (tag) => {
+      utils.tags.list.invalidate();
+      setSearch("");
+      onSelect(tag, true);
+    },
+    onError: (error) => {
+      toast.error(`Failed to create tag: ${error.message}`);
+    },
+  });
+
+  const name = normalizeTagName(search);
+  const exactMatch = allTags?.some(tag => tag.name.toLowerCase() === name.toLowerCase());
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-[240px] p-0" align={align}>
+        <Command>
+          <CommandInput placeholder="Search tags..." value={search} onValueChange={setSearch} />
+          <CommandList>
+            <CommandEmpty>{allowCreate ? "Type a name to create a tag" : "No tags found"}</CommandEmpty>
+            {tags && tags.length > 0 && (
+              <CommandGroup>
+                {tags.map(tag => {
+                  const selected = selectedIds.includes(tag.id);
+                  return (
+                    <CommandItem key={tag.id} value={tag.name} onSelect={() => onSelect(tag, !selected)}>
+                      <Check className={`h-4 w-4 ${selected ? "opacity-100" : "opacity-0"}`} />
+                      <span className="h-2 w-2 rounded-full" style={{ backgroundColor: tag.color }} />
+                      <span className="flex-1 truncate">{tag.name}</span>
+                      <span className="text-xs text-muted-foreground">{tag.leadCount}</span>
+                    </CommandItem>
+                  );
+                })}
+              </CommandGroup>
+            )}
+            {allowCreate && name && !exactMatch && (
+              <CommandGroup forceMount>
+                <CommandItem
+                  forceMount
+                  value={`create:${name}`}
+                  onSelect={() => createMutation.mutate({ name })}
+                  disabled={createMutation.isPending}
+                >
+                  <Plus className="h-4 w-4" />
+                  Create "{name}"
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
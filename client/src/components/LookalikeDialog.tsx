@@ -0,0 +1,187 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Check, ExternalLink, Loader2, Save, Sparkles } from "lucide-react";
+import { toast } from "sonner";
+import { LEAD_SOURCE_LABELS } from "@shared/discovery";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface LookalikeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The lead to find lookalikes of; all won leads when left out */
+  leadId?: number;
+  companyName?: string;
+}
+
+export function LookalikeDialog({ open, onOpenChange, leadId, companyName }: LookalikeDialogProps) {
+  const utils = trpc.useUtils();
+  // Results saved from this dialog, by index, with the lead each became
+  const [savedLeads, setSavedLeads] = useState<Record<number, number>>({});
+
+  const findSimilarMutation = trpc.leads.findSimilar.useMutation({
+    onSuccess: (result) => {
+      if (result.sources.some((source) => source.source === "apollo")) {
+        utils.apollo.getCreditBalance.invalidate();
+      }
+      result.sources.forEach(({ source, error }) => {
+        if (error) toast.warning(`${LEAD_SOURCE_LABELS[source]} failed: ${error}`);
+      });
+    },
+    onError: (error) => {
+      toast.error(`Failed to find similar companies: ${error.message}`);
+    },
+  });
+
+  const createLeadMutation = trpc.leads.create.useMutation({
+    onSuccess: () => {
+      utils.leads.list.invalidate();
+      toast.success("Lead saved successfully!");
+    },
+    onError: (error) => {
+      toast.error(`Failed to save lead: ${error.message}`);
+    },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setSavedLeads({});
+    findSimilarMutation.mutate({ leadId });
+  }, [open, leadId]);
+
+  const result = findSimilarMutation.data;
+  const profile = result?.profile;
+  const profileValues = profile
+    ? [
+        ...profile.industries,
+        ...(profile.sizeBand ? [`${profile.sizeBand} employees`] : []),
+        ...profile.locations,
+        ...profile.technologies,
+        ...profile.keywords,
+      ]
+    : [];
+
+  const handleSave = (lead: NonNullable<typeof result>["leads"][number], index: number) => {
+    createLeadMutation.mutate({
+      companyName: lead.companyName,
+      website: lead.website,
+      industry: lead.industry,
+      companySize: lead.companySize,
+      location: lead.location,
+      description: lead.description,
+      contactName: lead.contactName,
+      contactTitle: lead.contactTitle,
+      contactEmail: lead.contactEmail,
+      contactLinkedin: lead.contactLinkedin,
+    }, {
+      onSuccess: (created) => {
+        setSavedLeads((current) => ({ ...current, [index]: Number(created[0].insertId) }));
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[680px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sparkles className="h-5 w-5" />
+            {companyName ? `Companies Like ${companyName}` : "Companies Like Your Won Leads"}
+          </DialogTitle>
+          <DialogDescription>
+            {profile && !companyName
+              ? `Based on ${profile.seedCompanies.length} won ${profile.seedCompanies.length === 1 ? "lead" : "leads"}. `
+              : ""}
+            Ranked by how closely each company matches their industry, size, location, technologies and description.
+          </DialogDescription>
+        </DialogHeader>
+
+        {findSimilarMutation.isPending ? (
+          <div className="flex flex-col items-center gap-2 py-10 text-sm text-muted-foreground">
+            <Loader2 className="h-6 w-6 animate-spin" />
+            Searching for similar companies...
+          </div>
+        ) : !result ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            {findSimilarMutation.error?.message ?? "No results yet."}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {profileValues.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-muted-foreground">Profile</span>
+                {profileValues.map((value) => (
+                  <Badge key={value} variant="secondary">{value}</Badge>
+                ))}
+              </div>
+            )}
+
+            {result.leads.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">No similar companies found.</p>
+            ) : (
+              <div className="space-y-2 max-h-[420px] overflow-y-auto pr-2">
+                {result.leads.map((lead, index) => {
+                  const leadId = lead.knownLead?.id ?? savedLeads[index];
+                  return (
+                    <div key={`${lead.companyName}-${index}`} className="flex items-start justify-between gap-3 p-3 rounded-md border border-border/50">
+                      <div className="min-w-0 space-y-1">
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium truncate">{lead.companyName}</p>
+                          <Badge variant={lead.similarity >= 70 ? "default" : "outline"} className="shrink-0">
+                            {lead.similarity}% match
+                          </Badge>
+                        </div>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {[lead.industry, lead.companySize, lead.location].filter(Boolean).join(" · ")}
+                        </p>
+                        {lead.reasons.length > 0 && (
+                          <ul className="space-y-0.5">
+                            {lead.reasons.map((reason) => (
+                              <li key={reason} className="flex items-center gap-1 text-xs">
+                                <Check className="h-3 w-3 text-green-600 shrink-0" />
+                                {reason}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <Badge variant="secondary" className="text-xs">{LEAD_SOURCE_LABELS[lead.source]}</Badge>
+                        {leadId ? (
+                          <Link href={`/leads/${leadId}`}>
+                            <Button variant="outline" size="sm">
+                              <ExternalLink className="h-4 w-4 mr-1" />
+                              View Lead
+                            </Button>
+                          </Link>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleSave(lead, index)}
+                            disabled={createLeadMutation.isPending}
+                          >
+                            <Save className="h-4 w-4 mr-1" />
+                            Save
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { trpc } from "@/lib/trpc";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, MapPin } from "lucide-react";
+import { DEFAULT_NEARBY_RADIUS_KM, NEARBY_RADII_KM } from "@shared/geo";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface NearbyLeadsCardProps {
+  leadId: number;
+}
+
+function formatDistance(km: number) {
+  return km < 1 ? "under 1 km" : `${Math.round(km)} km`;
+}
+
+/**
+ * The user's other leads close to this one, for planning visits
+ */
+export function NearbyLeadsCard({ leadId }: NearbyLeadsCardProps) {
+  const [radiusKm, setRadiusKm] = useState<number>(DEFAULT_NEARBY_RADIUS_KM);
+  const { data: nearby, isLoading, error } = trpc.leads.nearby.useQuery({ leadId, radiusKm }, { retry: false });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <MapPin className="h-5 w-5" />
+            Nearby Leads
+          </CardTitle>
+          <CardDescription>Other leads to visit on the same trip</CardDescription>
+        </div>
+        <Select value={String(radiusKm)} onValueChange={(value) => setRadiusKm(Number(value))}>
+          <SelectTrigger className="w-[130px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {NEARBY_RADII_KM.map(radius => (
+              <SelectItem key={radius} value={String(radius)}>Within {radius} km</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : error ? (
+          <p className="text-sm text-muted-foreground">{error.message}</p>
+        ) : !nearby?.center ? (
+          <p className="text-sm text-muted-foreground">This lead's location couldn't be found on the map.</p>
+        ) : nearby.leads.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No other leads within {radiusKm} km.</p>
+        ) : (
+          <div className="space-y-1">
+            {nearby.leads.map(other => (
+              <Link key={other.id} href={`/leads/${other.id}`}>
+                <div className="flex items-center justify-between gap-3 rounded-md p-2 hover:bg-muted cursor-pointer">
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{other.companyName}</div>
+                    <div className="text-xs text-muted-foreground truncate">{other.location}</div>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Badge variant="outline" className="capitalize">{other.status}</Badge>
+                    <span className="text-sm text-muted-foreground w-[80px] text-right">{formatDistance(other.distanceKm)}</span>
+                  </div>
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,77 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Search, Sparkles, X } from "lucide-react";
+import {
+  PARSED_FILTER_LABELS,
+  formatEmployeeRange,
+  type ParsedSearchFilters,
+} from "@shared/discovery";
+
+interface ParsedFiltersConfirmationProps {
+  filters: ParsedSearchFilters;
+  onChange: (filters: ParsedSearchFilters) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+  isSearching?: boolean;
+}
+
+/**
+ * The Apollo filters understood from a query, for the user to trim and confirm before searching
+ */
+export function ParsedFiltersConfirmation({ filters, onChange, onConfirm, onCancel, isSearching }: ParsedFiltersConfirmationProps) {
+  const keys = Object.keys(PARSED_FILTER_LABELS) as (keyof ParsedSearchFilters)[];
+  const isEmpty = keys.every((key) => filters[key].length === 0);
+
+  const removeValue = (key: keyof ParsedSearchFilters, value: string) => {
+    onChange({ ...filters, [key]: filters[key].filter((v) => v !== value) });
+  };
+
+  return (
+    <div className="space-y-3 p-4 border border-primary/30 bg-primary/5 rounded-lg">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Sparkles className="h-4 w-4 text-primary" />
+        Here's how we understood your search
+      </div>
+
+      <div className="space-y-2">
+        {keys.filter((key) => filters[key].length > 0).map((key) => (
+          <div key={key} className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="w-28 shrink-0 text-muted-foreground">{PARSED_FILTER_LABELS[key]}</span>
+            {filters[key].map((value) => (
+              <Badge key={value} variant="secondary" className="gap-1 pr-1">
+                {key === "employeeRanges" ? formatEmployeeRange(value) : value}
+                <button
+                  type="button"
+                  className="rounded-sm hover:text-destructive"
+                  onClick={() => removeValue(key, value)}
+                  aria-label={`Remove ${value}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        ))}
+        {isEmpty && (
+          <p className="text-sm text-muted-foreground">
+            No filters left. Apollo will match your query against company names instead.
+          </p>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel} disabled={isSearching}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={onConfirm} disabled={isSearching}>
+          {isSearching ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Search className="mr-2 h-4 w-4" />
+          )}
+          Search with These Filters
+        </Button>
+      </div>
+    </div>
+  );
+}
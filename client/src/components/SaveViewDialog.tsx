@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Bookmark, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import type { LeadExportFilters } from "@/components/LeadExportDialog";
+import type { LeadTableColumn } from "@/components/LeadTable";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface SaveViewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  filters: LeadExportFilters;
+  columns: LeadTableColumn[] | null;
+  matchingCount: number;
+}
+
+export function SaveViewDialog({ open, onOpenChange, filters, columns, matchingCount }: SaveViewDialogProps) {
+  const [name, setName] = useState("");
+  const [viewType, setViewType] = useState<"dynamic" | "static">("dynamic");
+  const [pinned, setPinned] = useState(true);
+  const [, setLocation] = useLocation();
+
+  const utils = trpc.useUtils();
+  const createMutation = trpc.savedViews.create.useMutation({
+    onSuccess: ({ id }) => {
+      utils.savedViews.list.invalidate();
+      toast.success(`View "${name.trim()}" saved`);
+      setName("");
+      onOpenChange(false);
+      setLocation(`/leads/views/${id}`);
+    },
+    onError: (error) => {
+      toast.error(`Failed to save view: ${error.message}`);
+    },
+  });
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      toast.error("Please enter a view name");
+      return;
+    }
+    createMutation.mutate({ name: name.trim(), viewType, filters, columns, pinned });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Bookmark className="h-5 w-5" />
+            Save View
+          </DialogTitle>
+          <DialogDescription>
+            Save the current filters, sort and columns as a view you can reopen and share.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="view-name">Name</Label>
+            <Input
+              id="view-name"
+              placeholder="e.g. Hot SaaS leads"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={viewType} onValueChange={(value) => setViewType(value as "dynamic" | "static")}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="dynamic">Dynamic: re-run the filters each time</SelectItem>
+                <SelectItem value="static">Static: freeze the {matchingCount} current leads</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox id="view-pinned" checked={pinned} onCheckedChange={(checked) => setPinned(checked === true)} />
+            <Label htmlFor="view-pinned" className="font-normal">Pin to sidebar</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={createMutation.isPending}>
+            {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save View
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -12,6 +12,8 @@ import {
   Users,
   RotateCcw,
   Loader2,
+  Bell,
+  BellRing,
   X
 } from "lucide-react";
 import { toast } from "sonner";
@@ -29,24 +31,29 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
+import { SearchMonitorDialog } from "@/components/SearchMonitorDialog";
+import type { ParsedSearchFilters } from "@shared/discovery";
 
 interface SearchHistoryProps {
-  onRerunSearch: (query: string, industry?: string, companySize?: string, location?: string) => void;
+  onRerunSearch: (query: string, industry?: string, companySize?: string, location?: string, parsedFilters?: ParsedSearchFilters) => void;
   isSearching?: boolean;
 }
 
 export default function SearchHistory({ onRerunSearch, isSearching }: SearchHistoryProps) {
   const [activeTab, setActiveTab] = useState<"all" | "favorites">("all");
+  const [monitoredSearch, setMonitoredSearch] = useState<{ id: number; query: string } | null>(null);
   
   const utils = trpc.useUtils();
   
   const { data: allHistory, isLoading: loadingAll } = trpc.searchHistory.list.useQuery({});
   const { data: favorites, isLoading: loadingFavorites } = trpc.searchHistory.favorites.useQuery();
+  const { data: monitors } = trpc.searchMonitors.list.useQuery();
   
   const toggleFavoriteMutation = trpc.searchHistory.toggleFavorite.useMutation({
     onSuccess: (data, variables) => {
       utils.searchHistory.list.invalidate();
       utils.searchHistory.favorites.invalidate();
+      utils.searchMonitors.list.invalidate();
       toast.success(data.isFavorite ? "Added to favorites" : "Removed from favorites");
     },
     onError: (error) => {
@@ -58,6 +65,7 @@ export default function SearchHistory({ onRerunSearch, isSearching }: SearchHist
     onSuccess: () => {
       utils.searchHistory.list.invalidate();
       utils.searchHistory.favorites.invalidate();
+      utils.searchMonitors.list.invalidate();
       toast.success("Search deleted");
     },
     onError: (error) => {
@@ -86,11 +94,19 @@ export default function SearchHistory({ onRerunSearch, isSearching }: SearchHist
       // Ignore parse errors
     }
     
+    let parsedFilters: ParsedSearchFilters | undefined;
+    try {
+      parsedFilters = item.parsedFilters ? JSON.parse(item.parsedFilters) : undefined;
+    } catch (e) {
+      // Ignore parse errors; the query is understood again instead
+    }
+    
     onRerunSearch(
       item.query,
       item.industry || filters.industry,
       item.companySize || filters.companySize,
-      item.location || filters.location
+      item.location || filters.location,
+      parsedFilters
     );
   };
   
@@ -150,7 +166,7 @@ export default function SearchHistory({ onRerunSearch, isSearching }: SearchHist
           )}
         </div>
         <CardDescription>
-          Quickly re-run previous searches or save your favorites
+          Quickly re-run previous searches, or save favorites and monitor them for new companies
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -195,6 +211,7 @@ export default function SearchHistory({ onRerunSearch, isSearching }: SearchHist
                   const industry = item.industry || filters.industry;
                   const companySize = item.companySize || filters.companySize;
                   const location = item.location || filters.location;
+                  const monitor = monitors?.find((m) => m.searchId === item.id);
                   
                   return (
                     <div
@@ -211,6 +228,12 @@ export default function SearchHistory({ onRerunSearch, isSearching }: SearchHist
                             {item.resultsCount !== null && item.resultsCount !== undefined && (
                               <Badge variant="secondary" className="text-xs shrink-0">
                                 {item.resultsCount} results
+                                {item.pagesLoaded > 1 && ` · ${item.pagesLoaded} pages`}
+                              </Badge>
+                            )}
+                            {monitor && monitor.newMatches > 0 && (
+                              <Badge className="text-xs shrink-0">
+                                {monitor.newMatches} new
                               </Badge>
                             )}
                           </div>
@@ -257,6 +280,23 @@ export default function SearchHistory({ onRerunSearch, isSearching }: SearchHist
                             <Star className={cn("h-4 w-4", item.isFavorite === 1 && "fill-current")} />
                           </Button>
                           
+                          {item.isFavorite === 1 && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className={cn(
+                                "h-8 w-8",
+                                monitor?.isActive === 1
+                                  ? "text-primary"
+                                  : "text-muted-foreground hover:text-primary"
+                              )}
+                              title={monitor ? "Monitor settings and new matches" : "Monitor this search"}
+                              onClick={() => setMonitoredSearch({ id: item.id, query: item.query })}
+                            >
+                              {monitor?.isActive === 1 ? <BellRing className="h-4 w-4" /> : <Bell className="h-4 w-4" />}
+                            </Button>
+                          )}
+                          
                           <Button
                             variant="ghost"
                             size="icon"
@@ -290,6 +330,15 @@ export default function SearchHistory({ onRerunSearch, isSearching }: SearchHist
           </TabsContent>
         </Tabs>
       </CardContent>
+      
+      {monitoredSearch && (
+        <SearchMonitorDialog
+          open={!!monitoredSearch}
+          onOpenChange={(open) => !open && setMonitoredSearch(null)}
+          searchId={monitoredSearch.id}
+          query={monitoredSearch.query}
+        />
+      )}
     </Card>
   );
 }
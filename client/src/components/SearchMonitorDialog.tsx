@@ -0,0 +1,270 @@
+import { useEffect, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { BellRing, Check, Loader2, Play, X } from "lucide-react";
+import { toast } from "sonner";
+import { SEARCH_MONITOR_SCHEDULES } from "@shared/discovery";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface SearchMonitorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  searchId: number;
+  query: string;
+}
+
+export function SearchMonitorDialog({ open, onOpenChange, searchId, query }: SearchMonitorDialogProps) {
+  const utils = trpc.useUtils();
+  const { data: monitors } = trpc.searchMonitors.list.useQuery();
+  const monitor = monitors?.find((m) => m.searchId === searchId);
+  const { data: matches, isLoading: loadingMatches } = trpc.searchMonitors.matches.useQuery(
+    { monitorId: monitor?.id },
+    { enabled: open && !!monitor }
+  );
+
+  const [cronExpression, setCronExpression] = useState<string>(SEARCH_MONITOR_SCHEDULES[1].cronExpression);
+  const [isActive, setIsActive] = useState(true);
+  const [autoImport, setAutoImport] = useState(false);
+  const [emailDigest, setEmailDigest] = useState(true);
+
+  useEffect(() => {
+    if (!open) return;
+    setCronExpression(monitor?.cronExpression ?? SEARCH_MONITOR_SCHEDULES[1].cronExpression);
+    setIsActive(monitor ? monitor.isActive === 1 : true);
+    setAutoImport(monitor?.autoImport === 1);
+    setEmailDigest(monitor ? monitor.emailDigest === 1 : true);
+  }, [open, monitor?.id]);
+
+  const invalidate = () => {
+    utils.searchMonitors.list.invalidate();
+    utils.searchMonitors.matches.invalidate();
+  };
+
+  const saveMutation = trpc.searchMonitors.save.useMutation({
+    onSuccess: () => {
+      invalidate();
+      toast.success(monitor ? "Monitor updated" : `Monitoring "${query}"`);
+    },
+    onError: (error) => {
+      toast.error(`Failed to save monitor: ${error.message}`);
+    },
+  });
+
+  const deleteMutation = trpc.searchMonitors.delete.useMutation({
+    onSuccess: () => {
+      invalidate();
+      toast.success("Stopped monitoring this search");
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast.error(`Failed to stop monitor: ${error.message}`);
+    },
+  });
+
+  const runMutation = trpc.searchMonitors.runNow.useMutation({
+    onSuccess: (result) => {
+      invalidate();
+      if (result.imported > 0) utils.leads.list.invalidate();
+      toast.success(
+        result.newMatches > 0
+          ? `Found ${result.newMatches} new ${result.newMatches === 1 ? "company" : "companies"}`
+          : "No new companies since the last run"
+      );
+    },
+    onError: (error) => {
+      invalidate();
+      toast.error(`Monitor run failed: ${error.message}`);
+    },
+  });
+
+  const importMutation = trpc.searchMonitors.importMatches.useMutation({
+    onSuccess: ({ imported }) => {
+      invalidate();
+      utils.leads.list.invalidate();
+      toast.success(`Added ${imported} ${imported === 1 ? "lead" : "leads"}`);
+    },
+    onError: (error) => {
+      toast.error(`Failed to import: ${error.message}`);
+    },
+  });
+
+  const dismissMutation = trpc.searchMonitors.dismissMatches.useMutation({
+    onSuccess: () => {
+      invalidate();
+    },
+    onError: (error) => {
+      toast.error(`Failed to dismiss: ${error.message}`);
+    },
+  });
+
+  const isCustomSchedule = !SEARCH_MONITOR_SCHEDULES.some((s) => s.cronExpression === cronExpression);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BellRing className="h-5 w-5" />
+            Monitor Search
+          </DialogTitle>
+          <DialogDescription>
+            Re-run "{query}" on a schedule and get told about companies it hasn't found before.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Schedule</Label>
+            <Select value={cronExpression} onValueChange={setCronExpression}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SEARCH_MONITOR_SCHEDULES.map((schedule) => (
+                  <SelectItem key={schedule.cronExpression} value={schedule.cronExpression}>
+                    {schedule.label}
+                  </SelectItem>
+                ))}
+                {isCustomSchedule && (
+                  <SelectItem value={cronExpression}>Custom ({cronExpression})</SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Checkbox id="monitor-active" checked={isActive} onCheckedChange={(checked) => setIsActive(checked === true)} />
+              <Label htmlFor="monitor-active" className="font-normal">Run on schedule</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox id="monitor-email" checked={emailDigest} onCheckedChange={(checked) => setEmailDigest(checked === true)} />
+              <Label htmlFor="monitor-email" className="font-normal">Email me a digest of new matches</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox id="monitor-import" checked={autoImport} onCheckedChange={(checked) => setAutoImport(checked === true)} />
+              <Label htmlFor="monitor-import" className="font-normal">Add new matches to my leads automatically</Label>
+            </div>
+          </div>
+
+          {monitor && (
+            <p className="text-xs text-muted-foreground">
+              {monitor.lastRunAt ? `Last run ${new Date(monitor.lastRunAt).toLocaleString()}` : "Not run yet"}
+              {monitor.lastError && <span className="text-destructive"> · {monitor.lastError}</span>}
+            </p>
+          )}
+
+          {monitor && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>New matches</Label>
+                {matches && matches.length > 0 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => importMutation.mutate({ ids: matches.map((m) => m.id) })}
+                    disabled={importMutation.isPending}
+                  >
+                    Import all ({matches.length})
+                  </Button>
+                )}
+              </div>
+              {loadingMatches ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : !matches || matches.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing new to review.</p>
+              ) : (
+                <div className="space-y-2 max-h-[240px] overflow-y-auto pr-2">
+                  {matches.map((match) => (
+                    <div key={match.id} className="flex items-center justify-between gap-2 p-2 rounded-md border border-border/50">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">{match.companyName}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {[match.lead.industry, match.lead.location].filter(Boolean).join(" · ")}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <Badge variant="secondary" className="text-xs">{match.lead.source}</Badge>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-muted-foreground hover:text-primary"
+                          onClick={() => importMutation.mutate({ ids: [match.id] })}
+                          disabled={importMutation.isPending}
+                        >
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                          onClick={() => dismissMutation.mutate({ ids: [match.id] })}
+                          disabled={dismissMutation.isPending}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {monitor && (
+            <>
+              <Button
+                variant="ghost"
+                className="text-destructive hover:text-destructive sm:mr-auto"
+                onClick={() => deleteMutation.mutate({ id: monitor.id })}
+                disabled={deleteMutation.isPending}
+              >
+                Stop Monitoring
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => runMutation.mutate({ id: monitor.id })}
+                disabled={runMutation.isPending}
+              >
+                {runMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Play className="h-4 w-4 mr-2" />
+                )}
+                Run Now
+              </Button>
+            </>
+          )}
+          <Button
+            onClick={() => saveMutation.mutate({ searchId, cronExpression, isActive, autoImport, emailDigest })}
+            disabled={saveMutation.isPending}
+          >
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {monitor ? "Save Changes" : "Start Monitoring"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Share2, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface ShareViewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  viewId: number;
+  viewName: string;
+}
+
+export function ShareViewDialog({ open, onOpenChange, viewId, viewName }: ShareViewDialogProps) {
+  const [email, setEmail] = useState("");
+
+  const utils = trpc.useUtils();
+  const { data: shares, isLoading } = trpc.savedViews.shares.useQuery({ id: viewId }, { enabled: open });
+
+  const shareMutation = trpc.savedViews.share.useMutation({
+    onSuccess: (teammate) => {
+      utils.savedViews.shares.invalidate({ id: viewId });
+      toast.success(`Shared with ${teammate.name || teammate.email}`);
+      setEmail("");
+    },
+    onError: (error) => {
+      toast.error(`Failed to share view: ${error.message}`);
+    },
+  });
+
+  const unshareMutation = trpc.savedViews.unshare.useMutation({
+    onSuccess: () => {
+      utils.savedViews.shares.invalidate({ id: viewId });
+    },
+    onError: (error) => {
+      toast.error(`Failed to unshare view: ${error.message}`);
+    },
+  });
+
+  const handleShare = () => {
+    if (!email.trim()) {
+      toast.error("Please enter an email address");
+      return;
+    }
+    shareMutation.mutate({ id: viewId, email: email.trim() });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Share2 className="h-5 w-5" />
+            Share "{viewName}"
+          </DialogTitle>
+          <DialogDescription>
+            Teammates see this view's leads read-only, with your filters applied.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="share-email">Teammate's email</Label>
+            <div className="flex gap-2">
+              <Input
+                id="share-email"
+                type="email"
+                placeholder="name@company.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleShare()}
+              />
+              <Button onClick={handleShare} disabled={shareMutation.isPending}>
+                {shareMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Share
+              </Button>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : !shares || shares.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-2">Not shared with anyone yet</p>
+          ) : (
+            <div className="space-y-2">
+              {shares.map(share => (
+                <div key={share.userId} className="flex items-center justify-between rounded-md border p-2 pl-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{share.name || share.email}</p>
+                    {share.name && <p className="text-xs text-muted-foreground truncate">{share.email}</p>}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => unshareMutation.mutate({ id: viewId, userId: share.userId })}
+                    disabled={unshareMutation.isPending}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -16,10 +16,12 @@ import {
   DollarSign,
   Tag,
   MessageSquarePlus,
+  Bookmark,
 } from "lucide-react";
 import { useAuth } from "@/_core/hooks/useAuth";
 import { FeedbackDialog } from "./FeedbackDialog";
 import { NotificationBell } from "./NotificationBell";
+import { trpc } from "@/lib/trpc";
 import { cn } from "@/lib/utils";
 
 interface SidebarProps {
@@ -30,6 +32,12 @@ interface SidebarProps {
 export default function Sidebar({ isMobileMenuOpen, setIsMobileMenuOpen }: SidebarProps) {
   const [location] = useLocation();
   const { user } = useAuth();
+  // Counts stay live while the app is open
+  const { data: savedViews } = trpc.savedViews.list.useQuery(undefined, {
+    enabled: !!user,
+    refetchInterval: 60_000,
+  });
+  const pinnedViews = savedViews?.filter(view => view.pinned) ?? [];
 
   const navItems = [
     { href: "/dashboard", label: "Dashboard", icon: LayoutDashboard },
@@ -74,7 +82,7 @@ export default function Sidebar({ isMobileMenuOpen, setIsMobileMenuOpen }: Sideb
           </Button>
         </div>
         <div className="flex flex-col h-full">
-          <nav className="flex flex-col gap-1 p-4 flex-1">
+          <nav className="flex flex-col gap-1 p-4 flex-1 overflow-y-auto">
             {navItems.map((item) => {
               const Icon = item.icon;
               const isActive = location === item.href;
@@ -94,6 +102,28 @@ export default function Sidebar({ isMobileMenuOpen, setIsMobileMenuOpen }: Sideb
                 </Link>
               );
             })}
+
+            {pinnedViews.length > 0 && (
+              <div className="mt-4 space-y-1">
+                <p className="px-3 text-xs font-semibold uppercase tracking-wide text-muted-foreground">Views</p>
+                {pinnedViews.map((view) => {
+                  const href = `/leads/views/${view.id}`;
+                  return (
+                    <Link key={view.id} href={href}>
+                      <Button
+                        variant={location === href ? "secondary" : "ghost"}
+                        className="w-full justify-start gap-3"
+                        onClick={() => setIsMobileMenuOpen(false)}
+                      >
+                        <Bookmark className="h-4 w-4" />
+                        <span className="flex-1 truncate text-left">{view.name}</span>
+                        <span className="text-xs text-muted-foreground">{view.leadCount}</span>
+                      </Button>
+                    </Link>
+                  );
+                })}
+              </div>
+            )}
           </nav>
           
           {/* Footer with Feedback and Notifications */}
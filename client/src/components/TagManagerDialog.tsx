@@ -0,0 +1,212 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Merge, Tags, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { TAG_COLORS } from "@shared/tags";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface TagManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TagManagerDialog({ open, onOpenChange }: TagManagerDialogProps) {
+  const [names, setNames] = useState<Record<number, string>>({}); // Unsaved renames
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [mergeTargetId, setMergeTargetId] = useState<string>("");
+
+  const utils = trpc.useUtils();
+  const { data: tags, isLoading } = trpc.tags.list.useQuery(undefined, { enabled: open });
+
+  // Tag names and colors show on leads, so lead lists refresh too
+  const invalidateTags = () => {
+    utils.tags.list.invalidate();
+    utils.leads.invalidate();
+  };
+
+  const updateMutation = trpc.tags.update.useMutation({
+    onSuccess: (_, { id }) => {
+      invalidateTags();
+      setNames(({ [id]: _saved, ...rest }) => rest);
+    },
+    onError: (error) => {
+      toast.error(`Failed to update tag: ${error.message}`);
+    },
+  });
+
+  const deleteMutation = trpc.tags.delete.useMutation({
+    onSuccess: (_, { id }) => {
+      invalidateTags();
+      setSelectedIds(prev => prev.filter(selected => selected !== id));
+      toast.success("Tag deleted");
+    },
+    onError: (error) => {
+      toast.error(`Failed to delete tag: ${error.message}`);
+    },
+  });
+
+  const mergeMutation = trpc.tags.merge.useMutation({
+    onSuccess: ({ mergedTags }) => {
+      invalidateTags();
+      setSelectedIds([]);
+      setMergeTargetId("");
+      toast.success(`Merged ${mergedTags} ${mergedTags === 1 ? "tag" : "tags"}`);
+    },
+    onError: (error) => {
+      toast.error(`Failed to merge tags: ${error.message}`);
+    },
+  });
+
+  const handleRename = (id: number) => {
+    const name = names[id]?.trim();
+    const tag = tags?.find(t => t.id === id);
+    if (!tag || name === undefined || name === tag.name) return;
+    if (!name) {
+      toast.error("Please enter a tag name");
+      return;
+    }
+    updateMutation.mutate({ id, name });
+  };
+
+  const handleDelete = (id: number, name: string, leadCount: number) => {
+    if (confirm(`Delete the tag "${name}"? It is removed from ${leadCount} ${leadCount === 1 ? "lead" : "leads"}.`)) {
+      deleteMutation.mutate({ id });
+    }
+  };
+
+  const handleMerge = () => {
+    const targetId = Number(mergeTargetId);
+    if (!targetId) {
+      toast.error("Choose the tag to merge into");
+      return;
+    }
+    mergeMutation.mutate({ sourceIds: selectedIds.filter(id => id !== targetId), targetId });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Tags className="h-5 w-5" />
+            Manage Tags
+          </DialogTitle>
+          <DialogDescription>
+            Renaming or recoloring a tag updates every lead that has it. Select tags to merge them into one.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !tags || tags.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No tags yet. Add tags from a lead's page or to several leads at once from the leads list.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="max-h-[360px] overflow-y-auto space-y-2 pr-1">
+              {tags.map(tag => (
+                <div key={tag.id} className="flex items-center gap-2">
+                  <Checkbox
+                    checked={selectedIds.includes(tag.id)}
+                    onCheckedChange={(checked) =>
+                      setSelectedIds(prev => checked === true ? [...prev, tag.id] : prev.filter(id => id !== tag.id))
+                    }
+                  />
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <button
+                        type="button"
+                        className="h-5 w-5 shrink-0 rounded-full border"
+                        style={{ backgroundColor: tag.color }}
+                        aria-label={`Change color of ${tag.name}`}
+                      />
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-2" align="start">
+                      <div className="flex gap-1.5">
+                        {TAG_COLORS.map(color => (
+                          <button
+                            key={color}
+                            type="button"
+                            className={`h-6 w-6 rounded-full border-2 ${color === tag.color ? "border-foreground" : "border-transparent"}`}
+                            style={{ backgroundColor: color }}
+                            onClick={() => updateMutation.mutate({ id: tag.id, color })}
+                            aria-label={color}
+                          />
+                        ))}
+                      </div>
+                    </PopoverContent>
+                  </Popover>
+                  <Input
+                    className="h-8"
+                    value={names[tag.id] ?? tag.name}
+                    onChange={(e) => setNames(prev => ({ ...prev, [tag.id]: e.target.value }))}
+                    onBlur={() => handleRename(tag.id)}
+                    onKeyDown={(e) => e.key === "Enter" && handleRename(tag.id)}
+                  />
+                  <span className="w-16 shrink-0 text-right text-xs text-muted-foreground">
+                    {tag.leadCount} {tag.leadCount === 1 ? "lead" : "leads"}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(tag.id, tag.name, tag.leadCount)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {selectedIds.length >= 2 && (
+              <div className="space-y-2 rounded-md border p-3">
+                <Label>Merge {selectedIds.length} tags into</Label>
+                <div className="flex gap-2">
+                  <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a tag" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {tags.filter(tag => selectedIds.includes(tag.id)).map(tag => (
+                        <SelectItem key={tag.id} value={String(tag.id)}>{tag.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button onClick={handleMerge} disabled={mergeMutation.isPending}>
+                    {mergeMutation.isPending ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Merge className="h-4 w-4 mr-2" />
+                    )}
+                    Merge
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
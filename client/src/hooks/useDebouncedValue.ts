@@ -0,0 +1,15 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Follow a value after it stops changing for `delay` ms, e.g. to query while typing
+ */
+export function useDebouncedValue<T>(value: T, delay = 300) {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
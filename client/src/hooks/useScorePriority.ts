@@ -0,0 +1,13 @@
+import { useCallback } from "react";
+import { trpc } from "@/lib/trpc";
+import { DEFAULT_SCORING_MODEL, priorityForScore } from "@shared/scoring";
+
+/**
+ * Bucket scores into priorities at the user's own thresholds (the defaults until they've loaded)
+ */
+export function useScorePriority() {
+  const { data } = trpc.scoring.get.useQuery();
+  const thresholds = data?.model.thresholds ?? DEFAULT_SCORING_MODEL.thresholds;
+
+  return useCallback((score: number | null | undefined) => priorityForScore(score ?? 0, thresholds), [thresholds]);
+}
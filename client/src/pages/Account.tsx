@@ -15,6 +15,9 @@ import SubscriptionManagement from "@/components/SubscriptionManagement";
 export default function Account() {
   const { data: profile, isLoading: loadingProfile } = trpc.account.getProfile.useQuery();
   const { data: stats, isLoading: loadingStats } = trpc.account.getStats.useQuery();
+  const { data: apolloUsage } = trpc.apollo.getUsageSummary.useQuery(undefined, {
+    enabled: profile?.role === 'admin' && profile?.useRealData === 1,
+  });
   const utils = trpc.useUtils();
 
   const [name, setName] = useState("");
@@ -378,6 +381,13 @@ export default function Account() {
                       <p className="text-sm text-blue-700 dark:text-blue-400">
                         <strong>ℹ️ Real Data Mode:</strong> Lead discovery will use Apollo.io's database of 210M+ contacts. API calls consume credits from your Apollo plan.
                       </p>
+                      {apolloUsage && (
+                        <p className="text-sm text-blue-700 dark:text-blue-400 mt-2">
+                          This month: {apolloUsage.totalCreditsUsed.toLocaleString()} of {apolloUsage.limit.toLocaleString()} credits used.
+                          {" "}Cached searches saved {apolloUsage.cache.creditsSaved.toLocaleString()} credits
+                          ({apolloUsage.cache.hitRate.toFixed(0)}% cache hit rate over {apolloUsage.cache.lookups.toLocaleString()} searches).
+                        </p>
+                      )}
                     </div>
                   )}
                 </>
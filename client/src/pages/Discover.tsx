@@ -1,12 +1,26 @@
 import { useState, useCallback } from "react";
+import { Link } from "wouter";
 import { trpc } from "@/lib/trpc";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Loader2, Search, Building2, MapPin, Users, Globe, Mail, Linkedin, Plus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Loader2, Search, Building2, MapPin, Users, Globe, Mail, Linkedin, Plus, RefreshCw, History } from "lucide-react";
 import { toast } from "sonner";
 import SearchHistory from "@/components/SearchHistory";
+import { ParsedFiltersConfirmation } from "@/components/ParsedFiltersConfirmation";
+import {
+  DEFAULT_DISCOVERY_PAGE_SIZE,
+  DISCOVERY_PAGE_SIZES,
+  LEAD_SOURCE_LABELS,
+  type LeadSourceId,
+  type ParsedSearchFilters,
+} from "@shared/discovery";
+
+// Sources whose results are real companies rather than examples
+const REAL_DATA_SOURCES: LeadSourceId[] = ["apollo", "localDataset"];
 import {
   Select,
   SelectContent,
@@ -15,26 +29,77 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 
+interface DiscoverySearch {
+  query: string;
+  industry?: string;
+  companySize?: string;
+  location?: string;
+  perPage: number;
+  sources: LeadSourceId[];
+  forceRefresh?: boolean;
+  parsedFilters?: ParsedSearchFilters;
+  hideKnown?: boolean;
+}
+
+interface DiscoveryResults {
+  searchId: number;
+  page: number;
+  hasMore: boolean;
+  totalResults: number | null;
+  creditsUsed: number;
+  sources: { source: LeadSourceId; hasMore: boolean; cachedAt: Date | null; error: string | null }[];
+}
+
 export default function Discover() {
   const { data: profile } = trpc.account.getProfile.useQuery();
   const [query, setQuery] = useState("");
   const [industry, setIndustry] = useState("any");
   const [companySize, setCompanySize] = useState("any");
   const [location, setLocation] = useState("");
+  const [perPage, setPerPage] = useState(DEFAULT_DISCOVERY_PAGE_SIZE);
+  const [hideKnown, setHideKnown] = useState(false);
   
   const useRealData = profile?.useRealData === 1;
+  const { data: leadSources } = trpc.leads.discoverySources.useQuery();
+  const { data: apolloCredits } = trpc.apollo.getCreditBalance.useQuery(undefined, { enabled: useRealData });
+  const utils = trpc.useUtils();
+  // null until the user picks: Apollo in real data mode, AI templates otherwise
+  const [pickedSources, setPickedSources] = useState<LeadSourceId[] | null>(null);
+  const sources = pickedSources ?? (useRealData ? ["apollo"] : ["llm"]);
+
   const [discoveredLeads, setDiscoveredLeads] = useState<any[]>([]);
+  // The search the current results belong to, and where "load more" continues from
+  const [currentSearch, setCurrentSearch] = useState<DiscoverySearch | null>(null);
+  const [results, setResults] = useState<DiscoveryResults | null>(null);
+  // An Apollo search waiting on the user to confirm the filters understood from its query
+  const [pendingSearch, setPendingSearch] = useState<{ search: DiscoverySearch; filters: ParsedSearchFilters } | null>(null);
 
   const discoverMutation = trpc.leads.discover.useMutation({
-    onSuccess: (leads) => {
-      setDiscoveredLeads(leads);
-      toast.success(`Discovered ${leads.length} potential leads!`);
+    onSuccess: ({ leads, ...page }) => {
+      // Remember which leads came from the discovery cache so their cards can say so
+      const cachedAt = new Map(page.sources.map(({ source, cachedAt }) => [source, cachedAt]));
+      const pageLeads = leads.map(lead => ({ ...lead, cachedAt: cachedAt.get(lead.source) ?? null }));
+      setDiscoveredLeads(current => page.page === 1 ? pageLeads : [...current, ...pageLeads]);
+      setResults(page);
+      if (page.sources.some(source => source.source === "apollo")) {
+        utils.apollo.getCreditBalance.invalidate();
+      }
+      const fromCache = page.sources.some(source => source.cachedAt) ? " (from cache)" : "";
+      const hidden = page.hiddenKnown > 0 ? ` ${page.hiddenKnown} already in your leads hidden.` : "";
+      toast.success(page.page === 1
+        ? `Discovered ${leads.length} potential leads!${fromCache}${hidden}`
+        : `Loaded ${leads.length} more leads${fromCache}${hidden}`);
+      page.sources.forEach(({ source, error }) => {
+        if (error) toast.warning(`${LEAD_SOURCE_LABELS[source]} failed: ${error}`);
+      });
     },
     onError: (error) => {
       toast.error(`Discovery failed: ${error.message}`);
     },
   });
 
+  const parseQueryMutation = trpc.leads.parseDiscoveryQuery.useMutation();
+
   const createLeadMutation = trpc.leads.create.useMutation({
     onSuccess: () => {
       toast.success("Lead saved successfully!");
@@ -44,37 +109,112 @@ export default function Discover() {
     },
   });
 
+  const toggleSource = (source: LeadSourceId, checked: boolean) => {
+    setPickedSources(checked ? [...sources, source] : sources.filter(s => s !== source));
+  };
+
+  const runSearch = useCallback((search: DiscoverySearch) => {
+    setPendingSearch(null);
+    setCurrentSearch(search);
+    discoverMutation.mutate(search);
+  }, [discoverMutation]);
+
+  // Apollo searches first have their query turned into filters for the user to confirm;
+  // a saved search brings the filters confirmed last time
+  const startSearch = useCallback((search: DiscoverySearch, savedFilters?: ParsedSearchFilters) => {
+    if (!search.sources.includes("apollo")) {
+      runSearch(search);
+      return;
+    }
+    if (savedFilters) {
+      setPendingSearch({ search, filters: savedFilters });
+      return;
+    }
+    parseQueryMutation.mutate(
+      { query: search.query, industry: search.industry, companySize: search.companySize, location: search.location },
+      {
+        onSuccess: (filters) => setPendingSearch({ search, filters }),
+        onError: (error) => {
+          toast.warning(`${error.message}. Searching company names instead.`);
+          runSearch(search);
+        },
+      }
+    );
+  }, [runSearch, parseQueryMutation]);
+
+  const handleConfirmFilters = useCallback(() => {
+    if (!pendingSearch) return;
+    const { search, filters } = pendingSearch;
+    const hasFilters = Object.values(filters).some(values => values.length > 0);
+    runSearch({ ...search, parsedFilters: hasFilters ? filters : undefined });
+  }, [pendingSearch, runSearch]);
+
   const handleDiscover = useCallback(() => {
     if (!query.trim()) {
       toast.error("Please enter a search query");
       return;
     }
+    if (sources.length === 0) {
+      toast.error("Please pick at least one source");
+      return;
+    }
 
-    discoverMutation.mutate({
+    const search: DiscoverySearch = {
       query,
       industry: industry && industry !== 'any' ? industry : undefined,
       companySize: companySize && companySize !== 'any' ? companySize : undefined,
       location: location || undefined,
+      perPage,
+      sources,
+      hideKnown,
+    };
+    startSearch(search);
+  }, [query, industry, companySize, location, perPage, sources, hideKnown, startSearch]);
+
+  const handleLoadMore = useCallback(() => {
+    if (!currentSearch || !results) return;
+
+    // Only sources with results left are searched again
+    const remaining = results.sources.filter(source => source.hasMore).map(source => source.source);
+    discoverMutation.mutate({
+      ...currentSearch,
+      sources: remaining,
+      page: results.page + 1,
+      searchId: results.searchId,
+      excludeCompanies: remaining.includes("llm") ? discoveredLeads.map(lead => lead.companyName) : undefined,
     });
-  }, [query, industry, companySize, location, discoverMutation]);
+  }, [currentSearch, results, discoveredLeads, discoverMutation]);
+
+  // Search again from the first page, skipping the discovery cache
+  const handleRefresh = useCallback(() => {
+    if (!currentSearch) return;
+
+    const search: DiscoverySearch = { ...currentSearch, forceRefresh: true };
+    setCurrentSearch(search);
+    discoverMutation.mutate(search);
+  }, [currentSearch, discoverMutation]);
 
   // Handler for re-running searches from history
-  const handleRerunSearch = useCallback((searchQuery: string, searchIndustry?: string, searchCompanySize?: string, searchLocation?: string) => {
+  const handleRerunSearch = useCallback((searchQuery: string, searchIndustry?: string, searchCompanySize?: string, searchLocation?: string, parsedFilters?: ParsedSearchFilters) => {
     setQuery(searchQuery);
     setIndustry(searchIndustry || "any");
     setCompanySize(searchCompanySize || "any");
     setLocation(searchLocation || "");
     
     // Trigger the search with the new values
-    discoverMutation.mutate({
+    const search: DiscoverySearch = {
       query: searchQuery,
       industry: searchIndustry && searchIndustry !== 'any' ? searchIndustry : undefined,
       companySize: searchCompanySize && searchCompanySize !== 'any' ? searchCompanySize : undefined,
       location: searchLocation || undefined,
-    });
-  }, [discoverMutation]);
+      perPage,
+      sources,
+      hideKnown,
+    };
+    startSearch(search, parsedFilters);
+  }, [perPage, sources, hideKnown, startSearch]);
 
-  const handleSaveLead = (lead: any) => {
+  const handleSaveLead = (lead: any, index: number) => {
     createLeadMutation.mutate({
       companyName: lead.companyName,
       website: lead.website,
@@ -86,6 +226,12 @@ export default function Discover() {
       contactTitle: lead.contactTitle,
       contactEmail: lead.contactEmail,
       contactLinkedin: lead.contactLinkedin,
+    }, {
+      // Flag the result as known now that it's one of the user's leads
+      onSuccess: (result) => {
+        const knownLead = { id: Number(result[0].insertId), status: "new", score: null, lastContactedAt: null };
+        setDiscoveredLeads(current => current.map((item, i) => i === index ? { ...item, knownLead } : item));
+      },
     });
   };
 
@@ -110,7 +256,8 @@ export default function Discover() {
             <div className="p-4 bg-blue-500/10 border border-blue-500/20 rounded-lg">
               <p className="text-sm text-blue-700 dark:text-blue-400">
                 <strong>ℹ️ Free API Tier:</strong> Your current Apollo API key provides company-level data (company name, website, industry, size, location). 
-                Individual contact information (decision maker names, job titles, direct emails, phone numbers) requires a paid Apollo plan. 
+                Individual contact information (decision maker names, job titles, direct emails, phone numbers) requires a paid Apollo plan; 
+                with one, discovery finds the most senior decision maker at each company and fills in their details. 
                 <a href="https://www.apollo.io/pricing" target="_blank" rel="noopener noreferrer" className="underline hover:text-blue-600 dark:hover:text-blue-300">Upgrade your plan</a> to access individual contacts.
               </p>
             </div>
@@ -156,7 +303,7 @@ export default function Discover() {
             />
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <div className="space-y-2">
               <Label htmlFor="industry">Industry (Optional)</Label>
               <Select value={industry} onValueChange={setIndustry}>
@@ -203,15 +350,80 @@ export default function Discover() {
                 onChange={(e) => setLocation(e.target.value)}
               />
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="perPage">Results per Page</Label>
+              <Select value={perPage.toString()} onValueChange={(value) => setPerPage(parseInt(value))}>
+                <SelectTrigger id="perPage">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DISCOVERY_PAGE_SIZES.map(size => (
+                    <SelectItem key={size} value={size.toString()}>{size} results</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
+          {leadSources && (
+            <div className="space-y-2">
+              <Label>Sources</Label>
+              <div className="flex flex-wrap gap-4">
+                {leadSources.map(source => (
+                  <label
+                    key={source.id}
+                    className={`flex items-center gap-2 text-sm ${source.unavailableReason ? "text-muted-foreground" : ""}`}
+                    title={source.unavailableReason ?? source.description}
+                  >
+                    <Checkbox
+                      checked={sources.includes(source.id)}
+                      disabled={!!source.unavailableReason}
+                      onCheckedChange={(checked) => toggleSource(source.id, checked === true)}
+                    />
+                    {source.label}
+                    {source.creditsPerResult > 0 && (
+                      <span className="text-xs text-muted-foreground">({source.creditsPerResult} credit/result)</span>
+                    )}
+                  </label>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={hideKnown} onCheckedChange={(checked) => setHideKnown(checked === true)} />
+                Hide companies already in my leads
+              </label>
+              {apolloCredits && sources.includes("apollo") && (
+                <p className={`text-xs ${apolloCredits.remaining > 0 ? "text-muted-foreground" : "text-destructive"}`}>
+                  {apolloCredits.remaining > 0
+                    ? `${apolloCredits.remaining.toLocaleString()} of ${apolloCredits.budget.toLocaleString()} Apollo credits left this month`
+                    : "Your Apollo credits for this month are used up: Apollo searches only return cached results, with AI templates filling in"}
+                </p>
+              )}
+            </div>
+          )}
+
+          {pendingSearch && (
+            <ParsedFiltersConfirmation
+              filters={pendingSearch.filters}
+              onChange={(filters) => setPendingSearch({ ...pendingSearch, filters })}
+              onConfirm={handleConfirmFilters}
+              onCancel={() => setPendingSearch(null)}
+              isSearching={discoverMutation.isPending}
+            />
+          )}
+
           <Button
             onClick={handleDiscover}
-            disabled={discoverMutation.isPending}
+            disabled={discoverMutation.isPending || parseQueryMutation.isPending}
             className="w-full"
             size="lg"
           >
-            {discoverMutation.isPending ? (
+            {parseQueryMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Understanding Your Search...
+              </>
+            ) : discoverMutation.isPending ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                 Generating Templates...
@@ -230,14 +442,56 @@ export default function Discover() {
 
       {discoveredLeads.length > 0 && (
         <div className="space-y-4">
-          <h2 className="text-2xl font-semibold">Discovered Leads ({discoveredLeads.length})</h2>
+          <h2 className="text-2xl font-semibold">
+            Discovered Leads ({discoveredLeads.length}
+            {results?.totalResults != null && ` of ${results.totalResults.toLocaleString()}`})
+          </h2>
+          {!!results?.creditsUsed && (
+            <p className="text-sm text-muted-foreground">
+              This page used {results.creditsUsed.toLocaleString()} API credits
+            </p>
+          )}
+          {discoveredLeads.some(lead => lead.cachedAt) && (
+            <div className="flex items-center justify-between gap-4 p-3 bg-muted rounded-lg text-sm">
+              <span className="flex items-center gap-2 text-muted-foreground">
+                <History className="h-4 w-4" />
+                Some results are cached from an earlier identical search and used no credits.
+              </span>
+              <Button variant="outline" size="sm" onClick={handleRefresh} disabled={discoverMutation.isPending}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Force Refresh
+              </Button>
+            </div>
+          )}
           <div className="grid grid-cols-1 gap-4">
             {discoveredLeads.map((lead, index) => (
               <Card key={index} className="hover:border-primary/50 transition-colors">
                 <CardHeader>
                   <div className="flex items-start justify-between">
                     <div className="space-y-1">
-                      <CardTitle className="text-xl">{lead.companyName}</CardTitle>
+                      <div className="flex items-center gap-2">
+                        <CardTitle className="text-xl">{lead.companyName}</CardTitle>
+                        <Badge variant="outline">{LEAD_SOURCE_LABELS[lead.source as LeadSourceId]}</Badge>
+                        {lead.cachedAt && (
+                          <Badge variant="secondary" title={`Fetched ${new Date(lead.cachedAt).toLocaleString()}`}>
+                            Cached
+                          </Badge>
+                        )}
+                      </div>
+                      {lead.knownLead && (
+                        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                          <Badge className="bg-amber-500/15 text-amber-700 dark:text-amber-400 hover:bg-amber-500/15">
+                            Already in your leads
+                          </Badge>
+                          <Badge variant="outline">{lead.knownLead.status}</Badge>
+                          {lead.knownLead.score !== null && <span>Score {lead.knownLead.score}</span>}
+                          <span>
+                            {lead.knownLead.lastContactedAt
+                              ? `Last contacted ${new Date(lead.knownLead.lastContactedAt).toLocaleDateString()}`
+                              : "Not contacted yet"}
+                          </span>
+                        </div>
+                      )}
                       <CardDescription className="flex items-center gap-4 text-sm">
                         <span className="flex items-center gap-1">
                           <Building2 className="h-3 w-3" />
@@ -253,14 +507,20 @@ export default function Discover() {
                         </span>
                       </CardDescription>
                     </div>
-                    <Button
-                      size="sm"
-                      onClick={() => handleSaveLead(lead)}
-                      disabled={createLeadMutation.isPending}
-                    >
-                      <Plus className="h-4 w-4 mr-1" />
-                      Save Lead
-                    </Button>
+                    {lead.knownLead ? (
+                      <Button size="sm" variant="outline" asChild>
+                        <Link href={`/leads/${lead.knownLead.id}`}>View Lead</Link>
+                      </Button>
+                    ) : (
+                      <Button
+                        size="sm"
+                        onClick={() => handleSaveLead(lead, index)}
+                        disabled={createLeadMutation.isPending}
+                      >
+                        <Plus className="h-4 w-4 mr-1" />
+                        Save Lead
+                      </Button>
+                    )}
                   </div>
                 </CardHeader>
                 <CardContent className="space-y-4">
@@ -271,7 +531,7 @@ export default function Discover() {
                       <h4 className="font-semibold text-sm">Company Info</h4>
                       <div className="space-y-1 text-sm">
                         {lead.website && (
-                          useRealData ? (
+                          REAL_DATA_SOURCES.includes(lead.source) ? (
                             <a
                               href={lead.website.startsWith('http') ? lead.website : `https://${lead.website}`}
                               target="_blank"
@@ -297,7 +557,7 @@ export default function Discover() {
                         <p className="font-medium">{lead.contactName}</p>
                         <p className="text-muted-foreground">{lead.contactTitle}</p>
                         {lead.contactEmail && (
-                          useRealData ? (
+                          REAL_DATA_SOURCES.includes(lead.source) ? (
                             <a
                               href={`mailto:${lead.contactEmail}`}
                               className="flex items-center gap-2 text-primary hover:underline"
@@ -313,7 +573,7 @@ export default function Discover() {
                           )
                         )}
                         {lead.contactLinkedin && (
-                          useRealData && lead.contactLinkedin.startsWith('http') ? (
+                          REAL_DATA_SOURCES.includes(lead.source) && lead.contactLinkedin.startsWith('http') ? (
                             <a
                               href={lead.contactLinkedin}
                               target="_blank"
@@ -337,6 +597,18 @@ export default function Discover() {
               </Card>
             ))}
           </div>
+          {results?.hasMore && (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={handleLoadMore} disabled={discoverMutation.isPending}>
+                {discoverMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Plus className="mr-2 h-4 w-4" />
+                )}
+                Load {currentSearch?.perPage ?? perPage} More
+              </Button>
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -1,16 +1,24 @@
 import { useState } from "react";
 import { useParams, useLocation } from "wouter";
 import { trpc } from "@/lib/trpc";
+import { useScorePriority } from "@/hooks/useScorePriority";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { 
   Loader2, Building2, MapPin, Users, Globe, Mail, Linkedin, Phone, 
-  ArrowLeft, Send, MessageSquare, TrendingUp, MousePointerClick, Eye 
+  ArrowLeft, Send, MessageSquare, TrendingUp, MousePointerClick, Eye, Plus, Sparkles, MailCheck, Search 
 } from "lucide-react";
 import { EmailDialog } from "@/components/EmailDialog";
+import { TagBadge, TagPicker } from "@/components/LeadTags";
+import { LeadContactsCard } from "@/components/LeadContactsCard";
+import { LeadCustomFieldsCard } from "@/components/LeadCustomFieldsCard";
+import { LeadEnrichmentCard } from "@/components/LeadEnrichmentCard";
+import { LookalikeDialog } from "@/components/LookalikeDialog";
+import { NearbyLeadsCard } from "@/components/NearbyLeadsCard";
 import { toast } from "sonner";
+import { EMAIL_STATUS_LABELS, type EmailStatus } from "@shared/emailDeliverability";
 import {
   Select,
   SelectContent,
@@ -19,6 +27,13 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 
+const emailStatusColors: Record<EmailStatus, string> = {
+  valid: "bg-green-500/10 text-green-500 border-green-500/20",
+  risky: "bg-yellow-500/10 text-yellow-500 border-yellow-500/20",
+  invalid: "bg-red-500/10 text-red-500 border-red-500/20",
+  unknown: "bg-gray-500/10 text-gray-500 border-gray-500/20",
+};
+
 const statusColors: Record<string, string> = {
   new: "bg-blue-500/10 text-blue-500 border-blue-500/20",
   contacted: "bg-yellow-500/10 text-yellow-500 border-yellow-500/20",
@@ -37,12 +52,15 @@ export default function LeadDetail() {
   const leadId = parseInt(params.id || "0");
   
   const [emailDialogOpen, setEmailDialogOpen] = useState(false);
+  const [lookalikeDialogOpen, setLookalikeDialogOpen] = useState(false);
 
   const utils = trpc.useUtils();
+  const priorityOf = useScorePriority();
   const { data: lead, isLoading } = trpc.leads.get.useQuery({ id: leadId });
   const { data: emailClicks } = trpc.clicks.byLead.useQuery({ leadId });
   const { data: sentEmails } = trpc.email.history.useQuery({});
   const { data: timeline } = trpc.leads.engagementTimeline.useQuery({ leadId });
+  const { data: mergeHistory } = trpc.leads.mergeHistory.useQuery({ leadId });
   
   const updateLeadMutation = trpc.leads.update.useMutation({
     onSuccess: () => {
@@ -64,6 +82,53 @@ export default function LeadDetail() {
     },
   });
 
+  const setTagsMutation = trpc.tags.setForLead.useMutation({
+    onSuccess: () => {
+      utils.leads.get.invalidate({ id: leadId });
+      utils.leads.query.invalidate();
+      utils.tags.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error(`Failed to update tags: ${error.message}`);
+    },
+  });
+
+  const verifyEmailMutation = trpc.leads.verifyEmail.useMutation({
+    onSuccess: (result) => {
+      utils.leads.get.invalidate({ id: leadId });
+      toast.success(`${result.email}: ${EMAIL_STATUS_LABELS[result.status]}`, { description: result.reason });
+    },
+    onError: (error) => {
+      toast.error(`Failed to verify email: ${error.message}`);
+    },
+  });
+
+  const findEmailMutation = trpc.leads.findEmail.useMutation({
+    onSuccess: (result) => {
+      utils.leads.get.invalidate({ id: leadId });
+      if (!result.email) {
+        toast.info(`No deliverable address found at ${result.domain}`, {
+          description: `Tried ${result.candidates.map(candidate => candidate.email).join(", ")}`,
+        });
+      } else if (result.applied) {
+        toast.success(`Found ${result.email} (${EMAIL_STATUS_LABELS[result.status!]}) and saved it as the contact email`);
+      } else {
+        toast.success(`Found ${result.email} (${EMAIL_STATUS_LABELS[result.status!]})`);
+      }
+    },
+    onError: (error) => {
+      toast.error(`Failed to find email: ${error.message}`);
+    },
+  });
+
+  const handleTagChange = (tagId: number, selected: boolean) => {
+    const current = lead?.tags.map(tag => tag.id) ?? [];
+    setTagsMutation.mutate({
+      leadId,
+      tagIds: selected ? [...current, tagId] : current.filter(id => id !== tagId),
+    });
+  };
+
   const handleStatusChange = (newStatus: string) => {
     updateLeadMutation.mutate({
       id: leadId,
@@ -107,10 +172,11 @@ export default function LeadDetail() {
 
   const leadEmails = sentEmails?.filter(email => email.leadId === leadId) || [];
   const score = lead.score ?? 0;
-  const priorityLevel = score >= 70 ? "High" : score >= 40 ? "Medium" : "Low";
-  const priorityColor = score >= 70 
+  const priority = priorityOf(score);
+  const priorityLevel = priority === "high" ? "High" : priority === "medium" ? "Medium" : "Low";
+  const priorityColor = priority === "high"
     ? "bg-green-500/10 text-green-500 border-green-500/20" 
-    : score >= 40 
+    : priority === "medium"
     ? "bg-yellow-500/10 text-yellow-500 border-yellow-500/20"
     : "bg-red-500/10 text-red-500 border-red-500/20";
 
@@ -132,6 +198,10 @@ export default function LeadDetail() {
                 Send Email
               </Button>
             )}
+            <Button variant="outline" onClick={() => setLookalikeDialogOpen(true)}>
+              <Sparkles className="h-4 w-4 mr-2" />
+              Find Similar
+            </Button>
             <Button variant="outline" onClick={() => setLocation("/conversations")}>
               <MessageSquare className="h-4 w-4 mr-2" />
               Start Conversation
@@ -190,10 +260,55 @@ export default function LeadDetail() {
                   <span className="text-sm">{lead.website}</span>
                 </div>
               )}
-              {lead.contactEmail && (
+              {(lead.contactEmail || (lead.contactName && lead.website)) && (
                 <div className="flex items-center gap-2">
                   <Mail className="h-4 w-4 text-muted-foreground" />
-                  <span className="text-sm">{lead.contactEmail}</span>
+                  {lead.contactEmail ? (
+                    <span className="text-sm">{lead.contactEmail}</span>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">No email</span>
+                  )}
+                  {lead.emailVerification && (
+                    <Badge
+                      variant="outline"
+                      className={emailStatusColors[lead.emailVerification.status]}
+                      title={lead.emailVerification.reason}
+                    >
+                      {EMAIL_STATUS_LABELS[lead.emailVerification.status]}
+                    </Badge>
+                  )}
+                  {lead.contactEmail && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2"
+                      onClick={() => verifyEmailMutation.mutate({ leadId })}
+                      disabled={verifyEmailMutation.isPending}
+                      title="Verify email"
+                    >
+                      {verifyEmailMutation.isPending ? (
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                      ) : (
+                        <MailCheck className="h-3 w-3" />
+                      )}
+                    </Button>
+                  )}
+                  {lead.contactName && lead.website && (!lead.contactEmail || lead.emailVerification?.status === "invalid") && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2"
+                      onClick={() => findEmailMutation.mutate({ leadId })}
+                      disabled={findEmailMutation.isPending}
+                    >
+                      {findEmailMutation.isPending ? (
+                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                      ) : (
+                        <Search className="h-3 w-3 mr-1" />
+                      )}
+                      Find Email
+                    </Button>
+                  )}
                 </div>
               )}
               {lead.contactPhone && (
@@ -227,9 +342,35 @@ export default function LeadDetail() {
                 </Select>
               </div>
             </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium block">Tags</label>
+              <div className="flex flex-wrap items-center gap-2">
+                {lead.tags.map(tag => (
+                  <TagBadge key={tag.id} tag={tag} onRemove={() => handleTagChange(tag.id, false)} />
+                ))}
+                <TagPicker
+                  selectedIds={lead.tags.map(tag => tag.id)}
+                  onSelect={(tag, selected) => handleTagChange(tag.id, selected)}
+                >
+                  <Button variant="outline" size="sm" className="h-6" disabled={setTagsMutation.isPending}>
+                    <Plus className="h-3 w-3 mr-1" />
+                    Add tag
+                  </Button>
+                </TagPicker>
+              </div>
+            </div>
           </CardContent>
         </Card>
 
+        <LeadContactsCard leadId={lead.id} companyName={lead.companyName} />
+
+        <LeadCustomFieldsCard leadId={lead.id} customFields={lead.customFields} />
+
+        <LeadEnrichmentCard leadId={lead.id} />
+
+        {lead.location && <NearbyLeadsCard leadId={lead.id} />}
+
         {/* Tabs for detailed information */}
         <Tabs defaultValue="score" className="w-full">
           <TabsList className="grid w-full grid-cols-3">
@@ -475,6 +616,36 @@ export default function LeadDetail() {
                 )}
               </CardContent>
             </Card>
+
+            {mergeHistory && mergeHistory.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Merged Leads</CardTitle>
+                  <CardDescription>Duplicate leads merged into this one and the fields taken from them</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {mergeHistory.map((merge) => {
+                    const takenFields = Object.entries(merge.fieldSources as Record<string, { leadIds: number[] }>)
+                      .filter(([, source]) => source.leadIds.includes(merge.mergedLeadId))
+                      .map(([field]) => field);
+
+                    return (
+                      <div key={merge.id} className="pb-4 border-b last:border-0 space-y-1">
+                        <div className="font-medium">{merge.mergedCompanyName}</div>
+                        <div className="text-sm text-muted-foreground">
+                          {takenFields.length > 0
+                            ? `Fields taken: ${takenFields.join(", ")}`
+                            : "No field values taken"}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          Merged {new Date(merge.createdAt).toLocaleString()}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            )}
           </TabsContent>
         </Tabs>
 
@@ -499,6 +670,13 @@ export default function LeadDetail() {
           leadId={lead.id}
         />
       )}
+
+      <LookalikeDialog
+        open={lookalikeDialogOpen}
+        onOpenChange={setLookalikeDialogOpen}
+        leadId={lead.id}
+        companyName={lead.companyName}
+      />
     </>
   );
 }
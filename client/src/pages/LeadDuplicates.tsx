@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ArrowLeft, ArrowLeftRight, CheckCircle2, Copy, GitMerge, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+const MERGE_FIELD_LABELS = {
+  companyName: "Company Name",
+  website: "Website",
+  industry: "Industry",
+  companySize: "Company Size",
+  location: "Location",
+  description: "Description",
+  contactName: "Contact Name",
+  contactTitle: "Contact Title",
+  contactEmail: "Contact Email",
+  contactLinkedin: "Contact LinkedIn",
+  contactPhone: "Contact Phone",
+  status: "Status",
+};
+
+type MergeField = keyof typeof MERGE_FIELD_LABELS;
+type FieldChoice = "surviving" | "merged";
+
+const reasonLabels: Record<string, string> = {
+  domain: "Same website",
+  email: "Same contact email",
+  companyName: "Similar name",
+};
+
+export default function LeadDuplicates() {
+  const [, setLocation] = useLocation();
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [survivingIndex, setSurvivingIndex] = useState<0 | 1>(0);
+  const [fieldChoices, setFieldChoices] = useState<Partial<Record<MergeField, FieldChoice>>>({});
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  const utils = trpc.useUtils();
+  const { data: candidates, isLoading } = trpc.leads.duplicates.useQuery();
+
+  const mergeMutation = trpc.leads.merge.useMutation({
+    onSuccess: (result) => {
+      utils.leads.duplicates.invalidate();
+      utils.leads.invalidate();
+      const moved = Object.values(result.movedRecords).reduce((sum, count) => sum + count, 0);
+      toast.success(`Leads merged. ${moved} related records moved to the surviving lead.`);
+      setSelectedKey(null);
+      setConfirmOpen(false);
+    },
+    onError: (error) => {
+      toast.error(`Failed to merge leads: ${error.message}`);
+      setConfirmOpen(false);
+    },
+  });
+
+  const selected = candidates?.find(candidate => candidate.leadIds.join(":") === selectedKey);
+  const surviving = selected?.leads[survivingIndex];
+  const merged = selected?.leads[survivingIndex === 0 ? 1 : 0];
+
+  const selectCandidate = (key: string) => {
+    setSelectedKey(key);
+    setSurvivingIndex(0);
+    setFieldChoices({});
+  };
+
+  // Mirrors the server default: keep the surviving value unless it is empty
+  const effectiveChoice = (field: MergeField): FieldChoice => {
+    if (fieldChoices[field]) return fieldChoices[field]!;
+    return surviving?.[field] ? "surviving" : "merged";
+  };
+
+  if (isLoading) {
+    return (
+      <div className="container py-8 flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="space-y-2">
+          <Button variant="ghost" className="-ml-4" onClick={() => setLocation("/leads")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Leads
+          </Button>
+          <h1 className="text-4xl font-bold tracking-tight">Duplicate Leads</h1>
+          <p className="text-muted-foreground text-lg">
+            Review leads that look like the same company and merge them into one
+          </p>
+        </div>
+      </div>
+
+      {!candidates || candidates.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <CheckCircle2 className="h-12 w-12 text-green-500 mb-4" />
+            <h3 className="text-lg font-semibold mb-2">No duplicates found</h3>
+            <p className="text-muted-foreground text-center max-w-md">
+              None of your leads share a website, contact email or company name.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">{candidates.length} possible duplicates</p>
+            {candidates.map(candidate => {
+              const key = candidate.leadIds.join(":");
+              return (
+                <Card
+                  key={key}
+                  className={`cursor-pointer transition-colors ${key === selectedKey ? "border-primary" : "hover:border-primary/50"}`}
+                  onClick={() => selectCandidate(key)}
+                >
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base flex items-center gap-2">
+                      <Copy className="h-4 w-4 text-muted-foreground" />
+                      {candidate.leads[0].companyName}
+                    </CardTitle>
+                    <CardDescription>and {candidate.leads[1].companyName}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="flex flex-wrap gap-2">
+                    {candidate.reasons.map(reason => (
+                      <Badge key={reason} variant="outline">{reasonLabels[reason] || reason}</Badge>
+                    ))}
+                    <Badge variant="secondary">{candidate.confidence}% match</Badge>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+
+          <div className="lg:col-span-2">
+            {!selected || !surviving || !merged ? (
+              <Card>
+                <CardContent className="py-12 text-center text-muted-foreground">
+                  Select a pair to review
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle>Review Merge</CardTitle>
+                      <CardDescription>
+                        Pick which value to keep for each field. Notes and tags from both leads are combined.
+                      </CardDescription>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setSurvivingIndex(survivingIndex === 0 ? 1 : 0);
+                        setFieldChoices({});
+                      }}
+                    >
+                      <ArrowLeftRight className="h-4 w-4 mr-2" />
+                      Swap
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-[140px_1fr_1fr] gap-3 text-sm font-semibold border-b pb-2">
+                    <span>Field</span>
+                    <span>Keep: {surviving.companyName}</span>
+                    <span>Merge in: {merged.companyName}</span>
+                  </div>
+
+                  {(Object.keys(MERGE_FIELD_LABELS) as MergeField[]).map(field => (
+                    <RadioGroup
+                      key={field}
+                      value={effectiveChoice(field)}
+                      onValueChange={(value) => setFieldChoices(prev => ({ ...prev, [field]: value as FieldChoice }))}
+                      className="grid grid-cols-[140px_1fr_1fr] gap-3 items-start text-sm"
+                    >
+                      <span className="text-muted-foreground">{MERGE_FIELD_LABELS[field]}</span>
+                      {(["surviving", "merged"] as const).map(side => {
+                        const value = (side === "surviving" ? surviving : merged)[field];
+                        return (
+                          <label key={side} className="flex items-start gap-2 min-w-0">
+                            <RadioGroupItem value={side} disabled={!value} className="mt-0.5" />
+                            <span className={`break-words ${value ? "" : "text-muted-foreground italic"}`}>
+                              {value || "empty"}
+                            </span>
+                          </label>
+                        );
+                      })}
+                    </RadioGroup>
+                  ))}
+
+                  <div className="flex justify-end pt-4 border-t">
+                    <Button onClick={() => setConfirmOpen(true)} disabled={mergeMutation.isPending}>
+                      {mergeMutation.isPending ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <GitMerge className="h-4 w-4 mr-2" />
+                      )}
+                      Merge Leads
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      )}
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Merge these leads?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{merged?.companyName}" will be deleted. Its emails, opens, clicks, conversations,
+              enrichment data and sequence enrollments will move to "{surviving?.companyName}".
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (!surviving || !merged) return;
+                mergeMutation.mutate({
+                  survivingLeadId: surviving.id,
+                  mergedLeadId: merged.id,
+                  fieldChoices: Object.fromEntries(
+                    (Object.keys(MERGE_FIELD_LABELS) as MergeField[]).map(field => [field, effectiveChoice(field)])
+                  ),
+                });
+              }}
+            >
+              Merge
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,329 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link, useLocation } from "wouter";
+import { trpc } from "@/lib/trpc";
+import { MapView } from "@/components/Map";
+import { BulkLeadActions, BulkOperationProgress } from "@/components/BulkLeadActions";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Check, Loader2, MapPin, PenLine, X } from "lucide-react";
+import { toast } from "sonner";
+import { pointInPolygon, type LatLng } from "@shared/geo";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+type ColorBy = "status" | "score";
+
+// Pin colors; the status badges elsewhere use the same hues
+const statusPinColors: Record<string, string> = {
+  new: "#3b82f6",
+  contacted: "#eab308",
+  qualified: "#22c55e",
+  unqualified: "#6b7280",
+  converted: "#a855f7",
+  nurturing: "#06b6d4",
+  won: "#10b981",
+  lost: "#ef4444",
+  unresponsive: "#f97316",
+  negotiating: "#f59e0b",
+};
+
+// Red for cold leads through to green for hot ones
+function scoreColor(score: number) {
+  return `hsl(${Math.round(Math.min(100, Math.max(0, score)) * 1.2)}, 75%, 45%)`;
+}
+
+const US_CENTER = { lat: 39.5, lng: -98.35 };
+
+export default function LeadMap() {
+  const [, setLocation] = useLocation();
+  const [colorBy, setColorBy] = useState<ColorBy>("status");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [drawing, setDrawing] = useState(false);
+  const [region, setRegion] = useState<LatLng[]>([]);
+  const [geocodeError, setGeocodeError] = useState<string | null>(null);
+  const [bulkOperationId, setBulkOperationId] = useState<number | null>(null);
+  const [map, setMap] = useState<google.maps.Map | null>(null);
+
+  const markers = useRef<google.maps.marker.AdvancedMarkerElement[]>([]);
+  const polygon = useRef<google.maps.Polygon | null>(null);
+  const drawingRef = useRef(false);
+  const fitted = useRef(false);
+
+  const utils = trpc.useUtils();
+  const { data: leadMap, isLoading } = trpc.leads.map.useQuery();
+
+  const geocodeMutation = trpc.leads.geocode.useMutation({
+    onSuccess: (run) => {
+      utils.leads.map.invalidate();
+      if (run.error) setGeocodeError(run.error);
+    },
+    onError: (error) => {
+      setGeocodeError(error.message);
+    },
+  });
+
+  // Keep placing leads a batch at a time until none are pending
+  useEffect(() => {
+    if (leadMap && leadMap.pending > 0 && !geocodeMutation.isPending && !geocodeError) {
+      geocodeMutation.mutate();
+    }
+  }, [leadMap?.pending, geocodeError]);
+
+  useEffect(() => {
+    if (geocodeError) toast.error(`Couldn't place some leads on the map: ${geocodeError}`);
+  }, [geocodeError]);
+
+  const visibleLeads = useMemo(
+    () => (leadMap?.leads ?? []).filter(lead => statusFilter === "all" || lead.status === statusFilter),
+    [leadMap, statusFilter]
+  );
+  const statuses = useMemo(
+    () => Array.from(new Set((leadMap?.leads ?? []).map(lead => lead.status))).sort(),
+    [leadMap]
+  );
+  const regionLeads = useMemo(
+    () => (!drawing && region.length >= 3 ? visibleLeads.filter(lead => pointInPolygon(lead, region)) : []),
+    [visibleLeads, region, drawing]
+  );
+
+  const handleMapReady = (readyMap: google.maps.Map) => {
+    readyMap.addListener("click", (event: google.maps.MapMouseEvent) => {
+      if (!drawingRef.current || !event.latLng) return;
+      const point = { lat: event.latLng.lat(), lng: event.latLng.lng() };
+      setRegion(current => [...current, point]);
+    });
+    setMap(readyMap);
+  };
+
+  // Pins for the visible leads, redrawn when the leads or coloring change
+  useEffect(() => {
+    if (!map) return;
+    markers.current.forEach(marker => { marker.map = null; });
+    markers.current = visibleLeads.map(lead => {
+      const color = colorBy === "status" ? statusPinColors[lead.status] ?? "#6b7280" : scoreColor(lead.score);
+      const pin = new google.maps.marker.PinElement({ background: color, borderColor: "#ffffff", glyphColor: "#ffffff" });
+      const marker = new google.maps.marker.AdvancedMarkerElement({
+        map,
+        position: { lat: lead.lat, lng: lead.lng },
+        title: `${lead.companyName} (${lead.status}, score ${lead.score})`,
+        content: pin.element,
+      });
+      marker.addListener("click", () => setLocation(`/leads/${lead.id}`));
+      return marker;
+    });
+
+    // Frame the leads the first time they load
+    if (!fitted.current && visibleLeads.length > 0) {
+      const bounds = new google.maps.LatLngBounds();
+      visibleLeads.forEach(lead => bounds.extend({ lat: lead.lat, lng: lead.lng }));
+      map.fitBounds(bounds);
+      if (visibleLeads.length === 1) map.setZoom(10);
+      fitted.current = true;
+    }
+  }, [map, visibleLeads, colorBy]);
+
+  // The drawn region, open while drawing and closed once finished
+  useEffect(() => {
+    if (!map) return;
+    if (!polygon.current) {
+      polygon.current = new google.maps.Polygon({
+        map,
+        clickable: false,
+        strokeColor: "#2563eb",
+        strokeWeight: 2,
+        fillColor: "#2563eb",
+        fillOpacity: 0.12,
+      });
+    }
+    polygon.current.setPath(region);
+  }, [map, region]);
+
+  const startDrawing = () => {
+    setRegion([]);
+    setDrawing(true);
+    drawingRef.current = true;
+    map?.setOptions({ draggableCursor: "crosshair" });
+  };
+
+  const finishDrawing = () => {
+    if (region.length < 3) {
+      toast.error("Click at least three points on the map to outline a region");
+      return;
+    }
+    setDrawing(false);
+    drawingRef.current = false;
+    map?.setOptions({ draggableCursor: null });
+  };
+
+  const clearRegion = () => {
+    setRegion([]);
+    setDrawing(false);
+    drawingRef.current = false;
+    map?.setOptions({ draggableCursor: null });
+  };
+
+  return (
+    <div className="container py-8 space-y-6">
+      <div className="space-y-2">
+        <Button variant="ghost" className="-ml-4" onClick={() => setLocation("/leads")}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Leads
+        </Button>
+        <h1 className="text-4xl font-bold tracking-tight">Lead Map</h1>
+        <p className="text-muted-foreground text-lg">
+          See where your leads are, and outline a region to work with the leads inside it
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Select value={colorBy} onValueChange={(value) => setColorBy(value as ColorBy)}>
+          <SelectTrigger className="w-[170px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="status">Color by status</SelectItem>
+            <SelectItem value="score">Color by score</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {statuses.map(status => (
+              <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {drawing ? (
+          <>
+            <Button onClick={finishDrawing}>
+              <Check className="h-4 w-4 mr-2" />
+              Finish Region ({region.length} points)
+            </Button>
+            <Button variant="ghost" onClick={clearRegion}>Cancel</Button>
+          </>
+        ) : (
+          <Button variant="outline" onClick={startDrawing} disabled={!map}>
+            <PenLine className="h-4 w-4 mr-2" />
+            {region.length > 0 ? "Redraw Region" : "Draw Region"}
+          </Button>
+        )}
+        {!drawing && region.length > 0 && (
+          <Button variant="ghost" onClick={clearRegion}>
+            <X className="h-4 w-4 mr-2" />
+            Clear Region
+          </Button>
+        )}
+
+        <div className="ml-auto flex items-center gap-2 text-sm text-muted-foreground">
+          {(isLoading || geocodeMutation.isPending) && <Loader2 className="h-4 w-4 animate-spin" />}
+          {leadMap && (
+            <span>
+              {visibleLeads.length} on the map
+              {leadMap.pending > 0 && `, ${leadMap.pending} being located`}
+              {leadMap.unlocated > 0 && `, ${leadMap.unlocated} with a location that couldn't be found`}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {drawing && (
+        <p className="text-sm text-muted-foreground">
+          Click on the map to outline the region, then finish it.
+        </p>
+      )}
+
+      {bulkOperationId !== null && (
+        <BulkOperationProgress operationId={bulkOperationId} onDismiss={() => setBulkOperationId(null)} />
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-2 overflow-hidden">
+          <MapView className="h-[600px]" initialCenter={US_CENTER} initialZoom={4} onMapReady={handleMapReady} />
+        </Card>
+
+        <Card>
+          {!drawing && region.length >= 3 ? (
+            <>
+              <CardHeader>
+                <CardTitle>{regionLeads.length} {regionLeads.length === 1 ? "lead" : "leads"} in region</CardTitle>
+                <CardDescription>Act on them all at once, or open one</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {regionLeads.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    <BulkLeadActions
+                      target={{ leadIds: regionLeads.map(lead => lead.id) }}
+                      count={regionLeads.length}
+                      removableTagIds={[]}
+                      onStarted={setBulkOperationId}
+                    />
+                  </div>
+                )}
+                <div className="max-h-[440px] overflow-y-auto space-y-1">
+                  {regionLeads.map(lead => (
+                    <Link key={lead.id} href={`/leads/${lead.id}`}>
+                      <div className="flex items-center justify-between gap-2 rounded-md p-2 hover:bg-muted cursor-pointer">
+                        <div className="min-w-0">
+                          <div className="font-medium truncate">{lead.companyName}</div>
+                          <div className="text-xs text-muted-foreground truncate">{lead.location}</div>
+                        </div>
+                        <Badge variant="outline" className="capitalize shrink-0">{lead.status}</Badge>
+                      </div>
+                    </Link>
+                  ))}
+                </div>
+              </CardContent>
+            </>
+          ) : (
+            <>
+              <CardHeader>
+                <CardTitle>Legend</CardTitle>
+                <CardDescription>
+                  {colorBy === "status" ? "Pins are colored by lead status" : "Pins are colored by lead score"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {colorBy === "status" ? (
+                  statuses.map(status => (
+                    <div key={status} className="flex items-center gap-2 text-sm capitalize">
+                      <span className="h-3 w-3 rounded-full" style={{ backgroundColor: statusPinColors[status] ?? "#6b7280" }} />
+                      {status}
+                    </div>
+                  ))
+                ) : (
+                  <div className="space-y-1">
+                    <div
+                      className="h-3 rounded-full"
+                      style={{ background: `linear-gradient(to right, ${scoreColor(0)}, ${scoreColor(50)}, ${scoreColor(100)})` }}
+                    />
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>0</span>
+                      <span>50</span>
+                      <span>100</span>
+                    </div>
+                  </div>
+                )}
+                {leadMap && leadMap.leads.length === 0 && !isLoading && (
+                  <div className="flex flex-col items-center py-6 text-center text-sm text-muted-foreground">
+                    <MapPin className="h-8 w-8 mb-2" />
+                    Leads appear here once they have a location.
+                  </div>
+                )}
+              </CardContent>
+            </>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,39 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { trpc } from "@/lib/trpc";
+import { useDebouncedValue } from "@/hooks/useDebouncedValue";
+import { useScorePriority } from "@/hooks/useScorePriority";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
-import { Loader2, Building2, MapPin, Users, Globe, Mail, Linkedin, Trash2, ExternalLink, Send, Download, Eye, Info } from "lucide-react";
-import { Link } from "wouter";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Building2, MapPin, Users, Globe, Mail, Linkedin, Trash2, ExternalLink, Send, Download, Upload, Eye, Info, Copy, SlidersHorizontal, Filter, Bookmark, Share2, Pin, PinOff, RefreshCw, Columns3, Save, Tags, Tag, Sparkles, Map as MapIcon, Gauge } from "lucide-react";
+import { Link, useLocation, useRoute } from "wouter";
 import { EmailDialog } from "@/components/EmailDialog";
+import { LeadImportDialog } from "@/components/LeadImportDialog";
+import { LookalikeDialog } from "@/components/LookalikeDialog";
+import { LeadExportDialog, type LeadExportFilters } from "@/components/LeadExportDialog";
+import { CustomFieldsDialog } from "@/components/CustomFieldsDialog";
+import { SaveViewDialog } from "@/components/SaveViewDialog";
+import { ShareViewDialog } from "@/components/ShareViewDialog";
+import { TagManagerDialog } from "@/components/TagManagerDialog";
+import { TagBadge } from "@/components/LeadTags";
+import { BulkLeadActions, BulkOperationProgress, type BulkLeadTarget } from "@/components/BulkLeadActions";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DEFAULT_TABLE_COLUMNS,
+  LEAD_TABLE_COLUMN_LABELS,
+  LeadTable,
+  leadColumnLabel,
+  type LeadTableColumn,
+} from "@/components/LeadTable";
+import {
+  formatCustomFieldValue,
+  parseCustomFieldSort,
+  parseCustomFieldValues,
+  type CustomFieldFilter,
+} from "@shared/customFields";
 import { toast } from "sonner";
 import {
   Select,
@@ -15,6 +42,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -45,13 +80,210 @@ export default function Leads() {
   const [sortBy, setSortBy] = useState<string>("recent");
   const [emailDialogOpen, setEmailDialogOpen] = useState(false);
   const [emailLead, setEmailLead] = useState<{ email: string; name: string; id: number } | null>(null);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [lookalikeDialogOpen, setLookalikeDialogOpen] = useState(false);
+  const [exportDialogOpen, setExportDialogOpen] = useState(false);
+  const [filterTagIds, setFilterTagIds] = useState<number[]>([]);
+  const [tagMatch, setTagMatch] = useState<"any" | "all">("any");
+  const [tagManagerOpen, setTagManagerOpen] = useState(false);
+  const [selectedLeadIds, setSelectedLeadIds] = useState<number[]>([]);
+  const [selectAllMatching, setSelectAllMatching] = useState(false); // Bulk actions cover every matching lead
+  const [bulkOperationId, setBulkOperationId] = useState<number | null>(null);
+  const [customFieldsDialogOpen, setCustomFieldsDialogOpen] = useState(false);
+  const [customFilter, setCustomFilter] = useState<CustomFieldFilter | null>(null);
+  const [showMoreFilters, setShowMoreFilters] = useState(false);
+  const [filterIndustry, setFilterIndustry] = useState("");
+  const [filterLocation, setFilterLocation] = useState("");
+  const [filterTechnologies, setFilterTechnologies] = useState(""); // Comma-separated
+  const [scoreMin, setScoreMin] = useState("");
+  const [scoreMax, setScoreMax] = useState("");
+  const [createdFrom, setCreatedFrom] = useState("");
+  const [createdTo, setCreatedTo] = useState("");
+  const [updatedFrom, setUpdatedFrom] = useState("");
+  const [updatedTo, setUpdatedTo] = useState("");
+  const [filterEngagement, setFilterEngagement] = useState<string>("all");
+  const [columns, setColumns] = useState<LeadTableColumn[] | null>(null); // null shows lead cards
+  const [saveViewDialogOpen, setSaveViewDialogOpen] = useState(false);
+  const [shareDialogOpen, setShareDialogOpen] = useState(false);
+
+  const [, setLocation] = useLocation();
+  const [isViewRoute, viewParams] = useRoute("/leads/views/:viewId");
+  const viewId = isViewRoute ? Number(viewParams.viewId) : undefined;
 
   const utils = trpc.useUtils();
-  const { data: leads, isLoading } = trpc.leads.list.useQuery();
+  const priorityOf = useScorePriority();
+  const { data: savedViews } = trpc.savedViews.list.useQuery();
+  const { data: view, error: viewError } = trpc.savedViews.get.useQuery(
+    { id: viewId ?? 0 },
+    { enabled: viewId !== undefined, retry: false }
+  );
+  // Views shared by a teammate list the owner's leads read-only
+  const isReadOnly = !!view && !view.isOwner;
+  const { data: ownCustomFields } = trpc.customFields.list.useQuery();
+  const customFields = isReadOnly ? view.customFields : ownCustomFields;
+  const { data: allTags } = trpc.tags.list.useQuery();
+  const customFilterField = customFields?.find(field => field.fieldKey === customFilter?.key);
+  const customSort = parseCustomFieldSort(sortBy);
+  const customSortField = customFields?.find(field => field.fieldKey === customSort?.key);
+
+  const applyFilters = (next: LeadExportFilters) => {
+    setFilterStatus(next.status ?? "all");
+    setFilterScore(next.scorePriority ?? "all");
+    setScoreMin(next.scoreMin?.toString() ?? "");
+    setScoreMax(next.scoreMax?.toString() ?? "");
+    setFilterIndustry(next.industry ?? "");
+    setFilterLocation(next.location ?? "");
+    setFilterTechnologies(next.technologies?.join(", ") ?? "");
+    setFilterTagIds(next.tagIds ?? []);
+    setTagMatch(next.tagMatch ?? "any");
+    setCreatedFrom(next.createdFrom ?? "");
+    setCreatedTo(next.createdTo ?? "");
+    setUpdatedFrom(next.updatedFrom ?? "");
+    setUpdatedTo(next.updatedTo ?? "");
+    setFilterEngagement(next.engagement ?? "all");
+    setCustomFilter(next.customField ?? null);
+    setSortBy(next.sortBy);
+  };
+
+  // Opening a view loads its filters and columns; static views start from their full snapshot
+  useEffect(() => {
+    setSelectedLeadIds([]);
+    setSelectAllMatching(false);
+    if (viewId === undefined) {
+      applyFilters({ sortBy: "recent" });
+      setColumns(null);
+    } else if (view) {
+      applyFilters(view.viewType === "static" ? { sortBy: view.filters.sortBy } : view.filters);
+      const viewColumns = view.columns?.filter(
+        (column): column is LeadTableColumn => column.startsWith("custom:") || column in LEAD_TABLE_COLUMN_LABELS
+      );
+      setColumns(viewColumns?.length ? viewColumns : null);
+    }
+  }, [viewId, view?.id]);
+
+  const parseScore = (value: string) => {
+    const score = parseInt(value);
+    return Number.isNaN(score) ? undefined : Math.min(100, Math.max(0, score));
+  };
+
+  // Filtering and sorting happen on the server; typed filters wait for a pause in typing
+  const debouncedIndustry = useDebouncedValue(filterIndustry);
+  const debouncedLocation = useDebouncedValue(filterLocation);
+  const debouncedTechnologies = useDebouncedValue(filterTechnologies);
+  const technologies = debouncedTechnologies.split(",").map(name => name.trim()).filter(Boolean);
+  const debouncedScoreMin = useDebouncedValue(scoreMin);
+  const debouncedScoreMax = useDebouncedValue(scoreMax);
+  const filters: LeadExportFilters = {
+    status: filterStatus === "all" ? undefined : filterStatus,
+    scorePriority: filterScore === "all" ? undefined : filterScore as LeadExportFilters["scorePriority"],
+    scoreMin: parseScore(debouncedScoreMin),
+    scoreMax: parseScore(debouncedScoreMax),
+    industry: debouncedIndustry.trim() || undefined,
+    location: debouncedLocation.trim() || undefined,
+    tagIds: filterTagIds.length > 0 ? filterTagIds : undefined,
+    tagMatch: filterTagIds.length > 1 && tagMatch === "all" ? "all" : undefined,
+    technologies: technologies.length > 0 ? technologies : undefined,
+    createdFrom: createdFrom || undefined,
+    createdTo: createdTo || undefined,
+    updatedFrom: updatedFrom || undefined,
+    updatedTo: updatedTo || undefined,
+    engagement: filterEngagement === "all" ? undefined : filterEngagement as LeadExportFilters["engagement"],
+    customField: customFilterField && customFilter ? customFilter : undefined,
+    snapshotViewId: view?.viewType === "static" ? view.id : undefined,
+    sortBy: customSort && !customSortField ? "recent" : sortBy,
+  };
+
+  const leadsQuery = trpc.leads.query.useInfiniteQuery(
+    { filters, viewId, limit: 50 },
+    {
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+      placeholderData: (previous) => previous,
+    }
+  );
+  const filteredLeads = leadsQuery.data?.pages.flatMap(page => page.items) ?? [];
+  const totalCount = leadsQuery.data?.pages[0]?.totalCount ?? filteredLeads.length;
+  const isLoading = leadsQuery.isLoading;
+  const hasActiveFilters = Object.entries(filters).some(
+    ([key, value]) => key !== "sortBy" && key !== "snapshotViewId" && value !== undefined
+  );
+  const tableColumns = columns ?? (isReadOnly ? DEFAULT_TABLE_COLUMNS : null);
+  const availableColumns = [
+    ...(Object.keys(LEAD_TABLE_COLUMN_LABELS) as LeadTableColumn[]),
+    ...(customFields ?? []).map(field => `custom:${field.fieldKey}` as LeadTableColumn),
+  ];
+
+  const toggleColumn = (column: LeadTableColumn, checked: boolean) => {
+    const current = columns ?? DEFAULT_TABLE_COLUMNS;
+    const next = checked
+      ? availableColumns.filter(c => c === column || current.includes(c))
+      : current.filter(c => c !== column);
+    setColumns(next.length > 0 ? next : null);
+  };
+
+  const invalidateViews = () => {
+    utils.savedViews.list.invalidate();
+    utils.savedViews.get.invalidate();
+  };
+
+  const updateViewMutation = trpc.savedViews.update.useMutation({
+    onSuccess: () => {
+      invalidateViews();
+      toast.success("View updated");
+    },
+    onError: (error) => {
+      toast.error(`Failed to update view: ${error.message}`);
+    },
+  });
+
+  const pinViewMutation = trpc.savedViews.setPinned.useMutation({
+    onSuccess: invalidateViews,
+    onError: (error) => {
+      toast.error(`Failed to pin view: ${error.message}`);
+    },
+  });
+
+  const refreshSnapshotMutation = trpc.savedViews.refreshSnapshot.useMutation({
+    onSuccess: ({ leadCount }) => {
+      invalidateViews();
+      utils.leads.invalidate();
+      toast.success(`Snapshot refreshed with ${leadCount} leads`);
+    },
+    onError: (error) => {
+      toast.error(`Failed to refresh snapshot: ${error.message}`);
+    },
+  });
+
+  const deleteViewMutation = trpc.savedViews.delete.useMutation({
+    onSuccess: () => {
+      invalidateViews();
+      toast.success("View deleted");
+      setLocation("/leads");
+    },
+    onError: (error) => {
+      toast.error(`Failed to delete view: ${error.message}`);
+    },
+  });
+
+  const handleUpdateView = () => {
+    if (!view) return;
+    // A static view keeps its original filters; only its sort and columns change
+    const { snapshotViewId, ...viewFilters } = filters;
+    updateViewMutation.mutate({
+      id: view.id,
+      filters: view.viewType === "static" ? { ...view.filters, sortBy: filters.sortBy } : viewFilters,
+      columns,
+    });
+  };
+
+  const handleDeleteView = () => {
+    if (view && confirm(`Delete the view "${view.name}"? Teammates it is shared with lose access.`)) {
+      deleteViewMutation.mutate({ id: view.id });
+    }
+  };
 
   const updateLeadMutation = trpc.leads.update.useMutation({
     onSuccess: () => {
-      utils.leads.list.invalidate();
+      utils.leads.invalidate();
       toast.success("Lead updated successfully!");
     },
     onError: (error) => {
@@ -61,7 +293,7 @@ export default function Leads() {
 
   const deleteLeadMutation = trpc.leads.delete.useMutation({
     onSuccess: () => {
-      utils.leads.list.invalidate();
+      utils.leads.invalidate();
       toast.success("Lead deleted successfully!");
       setDeleteDialogOpen(false);
       setLeadToDelete(null);
@@ -71,6 +303,24 @@ export default function Leads() {
     },
   });
 
+  const toggleLeadSelected = (leadId: number, checked: boolean) => {
+    setSelectAllMatching(false);
+    setSelectedLeadIds(prev => checked ? [...prev, leadId] : prev.filter(id => id !== leadId));
+  };
+
+  const clearSelection = () => {
+    setSelectedLeadIds([]);
+    setSelectAllMatching(false);
+  };
+
+  const bulkTarget: BulkLeadTarget = selectAllMatching ? { filters } : { leadIds: selectedLeadIds };
+  const bulkCount = selectAllMatching ? totalCount : selectedLeadIds.length;
+
+  // Tags on the selected leads that are loaded, offered for removal
+  const selectedLeadTagIds = Array.from(new Set(
+    filteredLeads.filter(lead => selectedLeadIds.includes(lead.id)).flatMap(lead => lead.tags.map(tag => tag.id))
+  ));
+
   const handleStatusChange = (leadId: number, newStatus: string) => {
     updateLeadMutation.mutate({
       id: leadId,
@@ -89,102 +339,27 @@ export default function Leads() {
     }
   };
 
-  // Filter and sort leads
-  let filteredLeads = leads?.filter(lead => {
-    // Filter by status
-    const statusMatch = filterStatus === "all" || lead.status === filterStatus;
-    
-    // Filter by score priority
-    let scoreMatch = true;
-    if (filterScore === "high") {
-      scoreMatch = (lead.score ?? 0) >= 70;
-    } else if (filterScore === "medium") {
-      scoreMatch = (lead.score ?? 0) >= 40 && (lead.score ?? 0) < 70;
-    } else if (filterScore === "low") {
-      scoreMatch = (lead.score ?? 0) < 40;
-    }
-    
-    return statusMatch && scoreMatch;
-  }) || [];
-  
-  // Sort leads
-  filteredLeads = [...filteredLeads].sort((a, b) => {
-    if (sortBy === "score-high") {
-      return (b.score ?? 0) - (a.score ?? 0);
-    } else if (sortBy === "score-low") {
-      return (a.score ?? 0) - (b.score ?? 0);
-    } else if (sortBy === "name") {
-      return a.companyName.localeCompare(b.companyName);
-    } else { // recent (default)
-      return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-    }
-  });
-
-  const exportToCSV = () => {
-    if (!leads || leads.length === 0) {
-      toast.error("No leads to export");
-      return;
-    }
+  const isRangeFilter = customFilterField &&
+    ["number", "currency", "date"].includes(customFilterField.fieldType);
 
-    // Define CSV headers
-    const headers = [
-      "Company Name",
-      "Website",
-      "Industry",
-      "Company Size",
-      "Location",
-      "Description",
-      "Contact Name",
-      "Contact Title",
-      "Contact Email",
-      "Contact LinkedIn",
-      "Contact Phone",
-      "Status",
-      "Score",
-      "Notes",
-      "Tags",
-      "Created At"
-    ];
-
-    // Convert leads to CSV rows
-    const rows = filteredLeads.map(lead => [
-      lead.companyName,
-      lead.website || "",
-      lead.industry || "",
-      lead.companySize || "",
-      lead.location || "",
-      lead.description?.replace(/\n/g, " ").replace(/"/g, '""') || "",
-      lead.contactName || "",
-      lead.contactTitle || "",
-      lead.contactEmail || "",
-      lead.contactLinkedin || "",
-      lead.contactPhone || "",
-      lead.status,
-      lead.score?.toString() || "",
-      lead.notes?.replace(/\n/g, " ").replace(/"/g, '""') || "",
-      lead.tags || "",
-      new Date(lead.createdAt).toLocaleDateString()
-    ]);
-
-    // Create CSV content
-    const csvContent = [
-      headers.map(h => `"${h}"`).join(","),
-      ...rows.map(row => row.map(cell => `"${cell}"`).join(","))
-    ].join("\n");
-
-    // Create blob and download
-    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-    const link = document.createElement("a");
-    const url = URL.createObjectURL(blob);
-    link.setAttribute("href", url);
-    link.setAttribute("download", `leads_export_${new Date().toISOString().split('T')[0]}.csv`);
-    link.style.visibility = "hidden";
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-
-    toast.success(`Exported ${filteredLeads.length} leads to CSV`);
-  };
+  if (viewError) {
+    return (
+      <div className="container py-8">
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Bookmark className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">View not available</h3>
+            <p className="text-muted-foreground text-center max-w-md mb-4">
+              This view was deleted or is no longer shared with you.
+            </p>
+            <Link href="/leads">
+              <Button variant="outline">Back to all leads</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
 
   if (isLoading) {
     return (
@@ -194,26 +369,82 @@ export default function Leads() {
     );
   }
 
+  const viewDescription = !view
+    ? "Manage and track your discovered leads"
+    : isReadOnly
+    ? `Shared by ${view.ownerName || "a teammate"} · read-only`
+    : view.viewType === "static"
+    ? `Static view · snapshot taken ${view.snapshotAt ? new Date(view.snapshotAt).toLocaleString() : "when saved"}`
+    : "Dynamic view · filters re-run each time it is opened";
+
   return (
     <>
       <div className="container py-8 space-y-8">
       <div className="flex items-center justify-between">
         <div className="space-y-2">
-          <h1 className="text-4xl font-bold tracking-tight">My Leads</h1>
+          <h1 className="text-4xl font-bold tracking-tight">{view ? view.name : "My Leads"}</h1>
           <p className="text-muted-foreground text-lg">
-            Manage and track your discovered leads
+            {viewDescription}
           </p>
         </div>
         
         <div className="flex items-center gap-3">
+          {!isReadOnly && (
+          <>
+          <Button variant="outline" onClick={() => setCustomFieldsDialogOpen(true)}>
+            <SlidersHorizontal className="h-4 w-4 mr-2" />
+            Fields
+          </Button>
+
+          <Button variant="outline" onClick={() => setTagManagerOpen(true)}>
+            <Tags className="h-4 w-4 mr-2" />
+            Tags
+          </Button>
+
+          <Button variant="outline" onClick={() => setLookalikeDialogOpen(true)}>
+            <Sparkles className="h-4 w-4 mr-2" />
+            Find Similar to Won
+          </Button>
+
+          <Link href="/leads/map">
+            <Button variant="outline">
+              <MapIcon className="h-4 w-4 mr-2" />
+              Map
+            </Button>
+          </Link>
+
+          <Link href="/leads/scoring">
+            <Button variant="outline">
+              <Gauge className="h-4 w-4 mr-2" />
+              Scoring
+            </Button>
+          </Link>
+
+          <Link href="/leads/duplicates">
+            <Button variant="outline">
+              <Copy className="h-4 w-4 mr-2" />
+              Duplicates
+            </Button>
+          </Link>
+
           <Button
-            onClick={exportToCSV}
+            onClick={() => setImportDialogOpen(true)}
             variant="outline"
-            disabled={!leads || leads.length === 0}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+
+          <Button
+            onClick={() => setExportDialogOpen(true)}
+            variant="outline"
+            disabled={totalCount === 0}
           >
             <Download className="h-4 w-4 mr-2" />
-            Export CSV
+            Export
           </Button>
+          </>
+          )}
           
           <Select value={sortBy} onValueChange={setSortBy}>
             <SelectTrigger className="w-[160px]">
@@ -224,9 +455,19 @@ export default function Leads() {
               <SelectItem value="score-high">Score: High to Low</SelectItem>
               <SelectItem value="score-low">Score: Low to High</SelectItem>
               <SelectItem value="name">Name: A-Z</SelectItem>
+              {customFields?.flatMap(field => [
+                <SelectItem key={`${field.fieldKey}-asc`} value={`custom:${field.fieldKey}`}>
+                  {field.label}: Ascending
+                </SelectItem>,
+                <SelectItem key={`${field.fieldKey}-desc`} value={`custom:${field.fieldKey}:desc`}>
+                  {field.label}: Descending
+                </SelectItem>,
+              ])}
             </SelectContent>
           </Select>
           
+          {!isReadOnly && (
+          <>
           <Select value={filterScore} onValueChange={setFilterScore}>
             <SelectTrigger className="w-[160px]">
               <SelectValue placeholder="Filter by score" />
@@ -239,6 +480,49 @@ export default function Leads() {
             </SelectContent>
           </Select>
           
+          {allTags && allTags.length > 0 && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="w-[150px] justify-start">
+                  <Tag className="h-4 w-4 mr-2" />
+                  {filterTagIds.length === 0
+                    ? "All Tags"
+                    : filterTagIds.length === 1
+                    ? allTags.find(tag => tag.id === filterTagIds[0])?.name ?? "1 tag"
+                    : `${filterTagIds.length} tags`}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent className="max-h-[400px] overflow-y-auto">
+                {allTags.map(tag => (
+                  <DropdownMenuCheckboxItem
+                    key={tag.id}
+                    checked={filterTagIds.includes(tag.id)}
+                    onCheckedChange={(checked) =>
+                      setFilterTagIds(prev => checked === true ? [...prev, tag.id] : prev.filter(id => id !== tag.id))
+                    }
+                    onSelect={(e) => e.preventDefault()}
+                  >
+                    <span className="h-2 w-2 rounded-full mr-2" style={{ backgroundColor: tag.color }} />
+                    {tag.name}
+                  </DropdownMenuCheckboxItem>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuCheckboxItem
+                  checked={tagMatch === "all"}
+                  onCheckedChange={(checked) => setTagMatch(checked === true ? "all" : "any")}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  Match all selected tags
+                </DropdownMenuCheckboxItem>
+                {filterTagIds.length > 0 && (
+                  <DropdownMenuCheckboxItem checked={false} onCheckedChange={() => setFilterTagIds([])}>
+                    Clear tag filter
+                  </DropdownMenuCheckboxItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+          
           <Select value={filterStatus} onValueChange={setFilterStatus}>
             <SelectTrigger className="w-[150px]">
               <SelectValue placeholder="Filter by status" />
@@ -252,22 +536,311 @@ export default function Leads() {
               <SelectItem value="converted">Converted</SelectItem>
             </SelectContent>
           </Select>
+
+          <Button variant={showMoreFilters ? "secondary" : "outline"} onClick={() => setShowMoreFilters(!showMoreFilters)}>
+            <Filter className="h-4 w-4 mr-2" />
+            More Filters
+          </Button>
+          </>
+          )}
         </div>
       </div>
 
+      <div className="flex flex-wrap items-center gap-3">
+        <Select
+          value={viewId !== undefined ? String(viewId) : "all"}
+          onValueChange={(value) => setLocation(value === "all" ? "/leads" : `/leads/views/${value}`)}
+        >
+          <SelectTrigger className="w-[260px]">
+            <SelectValue placeholder="Saved views" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All leads</SelectItem>
+            {savedViews?.map(savedView => (
+              <SelectItem key={savedView.id} value={String(savedView.id)}>
+                {savedView.name} ({savedView.leadCount}){savedView.isOwner ? "" : " · shared"}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {!isReadOnly && (
+          <Button variant="outline" onClick={() => setSaveViewDialogOpen(true)}>
+            <Bookmark className="h-4 w-4 mr-2" />
+            Save as View
+          </Button>
+        )}
+
+        {view?.isOwner && (
+          <>
+            <Button variant="outline" onClick={handleUpdateView} disabled={updateViewMutation.isPending}>
+              <Save className="h-4 w-4 mr-2" />
+              Update View
+            </Button>
+            {view.viewType === "static" && (
+              <Button
+                variant="outline"
+                onClick={() => refreshSnapshotMutation.mutate({ id: view.id })}
+                disabled={refreshSnapshotMutation.isPending}
+              >
+                <RefreshCw className={`h-4 w-4 mr-2 ${refreshSnapshotMutation.isPending ? "animate-spin" : ""}`} />
+                Refresh Snapshot
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setShareDialogOpen(true)}>
+              <Share2 className="h-4 w-4 mr-2" />
+              Share
+            </Button>
+          </>
+        )}
+
+        {view && (
+          <Button
+            variant="ghost"
+            onClick={() => pinViewMutation.mutate({ id: view.id, pinned: !view.pinned })}
+            disabled={pinViewMutation.isPending}
+          >
+            {view.pinned ? <PinOff className="h-4 w-4 mr-2" /> : <Pin className="h-4 w-4 mr-2" />}
+            {view.pinned ? "Unpin" : "Pin to Sidebar"}
+          </Button>
+        )}
+
+        {view?.isOwner && (
+          <Button variant="ghost" size="icon" onClick={handleDeleteView} disabled={deleteViewMutation.isPending}>
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        )}
+
+        {!isReadOnly && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="ml-auto">
+                <Columns3 className="h-4 w-4 mr-2" />
+                {columns ? "Table" : "Cards"}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="max-h-[400px] overflow-y-auto">
+              <DropdownMenuCheckboxItem checked={!columns} onCheckedChange={() => setColumns(null)}>
+                Show as cards
+              </DropdownMenuCheckboxItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Table columns</DropdownMenuLabel>
+              {availableColumns.map(column => (
+                <DropdownMenuCheckboxItem
+                  key={column}
+                  checked={!!columns?.includes(column)}
+                  onCheckedChange={(checked) => toggleColumn(column, checked === true)}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  {leadColumnLabel(column, customFields ?? [])}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+
+      {showMoreFilters && (
+        <Card>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 pt-6">
+            <div className="space-y-2">
+              <Label htmlFor="filter-industry">Industry</Label>
+              <Input
+                id="filter-industry"
+                placeholder="Contains..."
+                value={filterIndustry}
+                onChange={(e) => setFilterIndustry(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="filter-location">Location</Label>
+              <Input
+                id="filter-location"
+                placeholder="Contains..."
+                value={filterLocation}
+                onChange={(e) => setFilterLocation(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Score</Label>
+              <div className="flex items-center gap-2">
+                <Input type="number" min={0} max={100} placeholder="Min" value={scoreMin} onChange={(e) => setScoreMin(e.target.value)} />
+                <span className="text-muted-foreground">to</span>
+                <Input type="number" min={0} max={100} placeholder="Max" value={scoreMax} onChange={(e) => setScoreMax(e.target.value)} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Engagement</Label>
+              <Select value={filterEngagement} onValueChange={setFilterEngagement}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any engagement</SelectItem>
+                  <SelectItem value="opened">Opened an email</SelectItem>
+                  <SelectItem value="clicked">Clicked a link</SelectItem>
+                  <SelectItem value="none">No opens or clicks</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="filter-technologies">Technologies</Label>
+              <Input
+                id="filter-technologies"
+                placeholder="Any of, e.g. HubSpot, Shopify"
+                value={filterTechnologies}
+                onChange={(e) => setFilterTechnologies(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label>Created</Label>
+              <div className="flex items-center gap-2">
+                <Input type="date" value={createdFrom} onChange={(e) => setCreatedFrom(e.target.value)} />
+                <span className="text-muted-foreground">to</span>
+                <Input type="date" value={createdTo} onChange={(e) => setCreatedTo(e.target.value)} />
+              </div>
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label>Last updated</Label>
+              <div className="flex items-center gap-2">
+                <Input type="date" value={updatedFrom} onChange={(e) => setUpdatedFrom(e.target.value)} />
+                <span className="text-muted-foreground">to</span>
+                <Input type="date" value={updatedTo} onChange={(e) => setUpdatedTo(e.target.value)} />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {!isReadOnly && customFields && customFields.length > 0 && (
+        <div className="flex items-center gap-3">
+          <Select
+            value={customFilter?.key ?? "none"}
+            onValueChange={(key) => setCustomFilter(key === "none" ? null : { key })}
+          >
+            <SelectTrigger className="w-[200px]">
+              <SelectValue placeholder="Filter by field" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No field filter</SelectItem>
+              {customFields.map(field => (
+                <SelectItem key={field.fieldKey} value={field.fieldKey}>{field.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {customFilterField && customFilter && (
+            isRangeFilter ? (
+              <>
+                <Input
+                  className="w-[160px]"
+                  type={customFilterField.fieldType === "date" ? "date" : "number"}
+                  placeholder="Min"
+                  value={customFilter.min ?? ""}
+                  onChange={(e) => setCustomFilter({ ...customFilter, min: e.target.value })}
+                />
+                <span className="text-muted-foreground">to</span>
+                <Input
+                  className="w-[160px]"
+                  type={customFilterField.fieldType === "date" ? "date" : "number"}
+                  placeholder="Max"
+                  value={customFilter.max ?? ""}
+                  onChange={(e) => setCustomFilter({ ...customFilter, max: e.target.value })}
+                />
+              </>
+            ) : customFilterField.options.length > 0 ? (
+              <Select
+                value={customFilter.value || "any"}
+                onValueChange={(value) => setCustomFilter({ ...customFilter, value: value === "any" ? undefined : value })}
+              >
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any value</SelectItem>
+                  {customFilterField.options.map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                className="w-[240px]"
+                placeholder="Contains..."
+                value={customFilter.value ?? ""}
+                onChange={(e) => setCustomFilter({ ...customFilter, value: e.target.value })}
+              />
+            )
+          )}
+        </div>
+      )}
+
+      {filteredLeads.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3">
+          <p className="text-sm text-muted-foreground">
+            Showing {filteredLeads.length} of {totalCount} leads
+          </p>
+
+          {!isReadOnly && (selectedLeadIds.length === 0 ? (
+            <Button variant="ghost" size="sm" onClick={() => setSelectedLeadIds(filteredLeads.map(lead => lead.id))}>
+              Select all {filteredLeads.length}
+            </Button>
+          ) : (
+            <div className="flex items-center gap-2 rounded-md border bg-muted/50 px-3 py-1">
+              <span className="text-sm font-medium">
+                {selectAllMatching ? `All ${totalCount} matching` : `${selectedLeadIds.length} selected`}
+              </span>
+              {!selectAllMatching && totalCount > filteredLeads.length && selectedLeadIds.length === filteredLeads.length && (
+                <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setSelectAllMatching(true)}>
+                  Select all {totalCount} matching
+                </Button>
+              )}
+              <BulkLeadActions
+                target={bulkTarget}
+                count={bulkCount}
+                removableTagIds={selectedLeadTagIds}
+                onStarted={(id) => {
+                  setBulkOperationId(id);
+                  clearSelection();
+                }}
+              />
+              <Button variant="ghost" size="sm" onClick={clearSelection}>
+                Clear
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {bulkOperationId !== null && (
+        <BulkOperationProgress operationId={bulkOperationId} onDismiss={() => setBulkOperationId(null)} />
+      )}
+
       {filteredLeads.length === 0 ? (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-12">
             <Building2 className="h-12 w-12 text-muted-foreground mb-4" />
             <h3 className="text-lg font-semibold mb-2">No leads found</h3>
             <p className="text-muted-foreground text-center max-w-md">
-              {filterStatus === "all" 
-                ? "Start discovering leads using the AI-powered search"
-                : `No leads with status "${filterStatus}"`
+              {hasActiveFilters
+                ? "No leads match your filters"
+                : "Start discovering leads using the AI-powered search"
               }
             </p>
           </CardContent>
         </Card>
+      ) : tableColumns ? (
+        <LeadTable
+          leads={filteredLeads}
+          columns={tableColumns}
+          customFields={customFields ?? []}
+          linkToLeads={!isReadOnly}
+          selectedIds={isReadOnly ? undefined : selectedLeadIds}
+          onSelectionChange={(ids) => {
+            setSelectAllMatching(false);
+            setSelectedLeadIds(ids);
+          }}
+        />
       ) : (
         <div className="grid grid-cols-1 gap-4">
           {filteredLeads.map((lead) => (
@@ -276,6 +849,13 @@ export default function Leads() {
                 <div className="flex items-start justify-between">
                   <div className="space-y-1 flex-1">
                     <div className="flex items-center gap-3">
+                      {!isReadOnly && (
+                        <Checkbox
+                          checked={selectedLeadIds.includes(lead.id)}
+                          onCheckedChange={(checked) => toggleLeadSelected(lead.id, checked === true)}
+                          aria-label={`Select ${lead.companyName}`}
+                        />
+                      )}
                       <Link href={`/leads/${lead.id}`}>
                         <CardTitle className="text-xl hover:text-primary cursor-pointer transition-colors">
                           {lead.companyName}
@@ -289,15 +869,15 @@ export default function Leads() {
                           <TooltipTrigger asChild>
                             <Badge 
                               className={
-                                (lead.score ?? 0) >= 70 
+                                priorityOf(lead.score) === "high"
                                   ? "bg-green-500/10 text-green-500 border-green-500/20 cursor-help" 
-                                  : (lead.score ?? 0) >= 40 
+                                  : priorityOf(lead.score) === "medium"
                                   ? "bg-yellow-500/10 text-yellow-500 border-yellow-500/20 cursor-help"
                                   : "bg-red-500/10 text-red-500 border-red-500/20 cursor-help"
                               }
                               variant="outline"
                             >
-                              {(lead.score ?? 0) >= 70 ? "🔥 High" : (lead.score ?? 0) >= 40 ? "⚡ Medium" : "📊 Low"} Priority ({lead.score}/100)
+                              {priorityOf(lead.score) === "high" ? "🔥 High" : priorityOf(lead.score) === "medium" ? "⚡ Medium" : "📊 Low"} Priority ({lead.score}/100)
                               <Info className="h-3 w-3 ml-1 inline" />
                             </Badge>
                           </TooltipTrigger>
@@ -452,6 +1032,27 @@ export default function Leads() {
                   )}
                 </div>
 
+                {lead.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {lead.tags.map(tag => (
+                      <TagBadge key={tag.id} tag={tag} />
+                    ))}
+                  </div>
+                )}
+
+                {customFields && lead.customFields && (
+                  <div className="flex flex-wrap gap-2">
+                    {customFields.map(field => {
+                      const value = parseCustomFieldValues(lead.customFields)[field.fieldKey];
+                      return value === undefined ? null : (
+                        <Badge key={field.fieldKey} variant="secondary">
+                          {field.label}: {formatCustomFieldValue(field, value)}
+                        </Badge>
+                      );
+                    })}
+                  </div>
+                )}
+
                 {lead.notes && (
                   <div className="pt-4 border-t">
                     <h4 className="font-semibold text-sm mb-2">Notes</h4>
@@ -464,6 +1065,19 @@ export default function Leads() {
         </div>
       )}
 
+      {leadsQuery.hasNextPage && (
+        <div className="flex justify-center">
+          <Button
+            variant="outline"
+            onClick={() => leadsQuery.fetchNextPage()}
+            disabled={leadsQuery.isFetchingNextPage}
+          >
+            {leadsQuery.isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Load More
+          </Button>
+        </div>
+      )}
+
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -485,6 +1099,37 @@ export default function Leads() {
         </AlertDialogContent>
       </AlertDialog>
 
+      <LeadImportDialog open={importDialogOpen} onOpenChange={setImportDialogOpen} />
+      <LookalikeDialog open={lookalikeDialogOpen} onOpenChange={setLookalikeDialogOpen} />
+
+      <CustomFieldsDialog open={customFieldsDialogOpen} onOpenChange={setCustomFieldsDialogOpen} />
+
+      <LeadExportDialog
+        open={exportDialogOpen}
+        onOpenChange={setExportDialogOpen}
+        filters={filters}
+        matchingCount={totalCount}
+      />
+
+      <SaveViewDialog
+        open={saveViewDialogOpen}
+        onOpenChange={setSaveViewDialogOpen}
+        filters={filters}
+        columns={columns}
+        matchingCount={totalCount}
+      />
+
+      <TagManagerDialog open={tagManagerOpen} onOpenChange={setTagManagerOpen} />
+
+      {view?.isOwner && (
+        <ShareViewDialog
+          open={shareDialogOpen}
+          onOpenChange={setShareDialogOpen}
+          viewId={view.id}
+          viewName={view.name}
+        />
+      )}
+
       {emailLead && (
         <EmailDialog
           open={emailDialogOpen}
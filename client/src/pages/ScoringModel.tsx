@@ -0,0 +1,322 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useLocation } from "wouter";
+import { trpc } from "@/lib/trpc";
+import { useDebouncedValue } from "@/hooks/useDebouncedValue";
+import { BulkOperationProgress } from "@/components/BulkLeadActions";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowDown, ArrowLeft, ArrowUp, Loader2, RotateCcw, Save } from "lucide-react";
+import { toast } from "sonner";
+import {
+  COMPANY_SIZE_BANDS,
+  SCORE_PRIORITIES,
+  SCORING_FACTOR_LABELS,
+  SCORING_FACTORS,
+  type ScoringModel as ScoringModelSettings,
+} from "@shared/scoring";
+
+type KeywordList = "targetIndustries" | "secondaryIndustries" | "targetTechnologies";
+
+const KEYWORD_LISTS: { key: KeywordList; label: string; description: string }[] = [
+  { key: "targetIndustries", label: "Target industries", description: "Leads in these industries score best for industry fit" },
+  { key: "secondaryIndustries", label: "Secondary industries", description: "Leads in these industries still fit, less well" },
+  { key: "targetTechnologies", label: "Target technologies", description: "Leads whose website runs one of these score best for technology fit" },
+];
+
+const PRIORITY_LABELS = { high: "🔥 High", medium: "⚡ Medium", low: "📊 Low" };
+
+// One keyword per line or comma separated
+function parseKeywords(text: string) {
+  return Array.from(new Set(text.split(/[\n,]/).map(keyword => keyword.trim()).filter(Boolean)));
+}
+
+function validationError(model: ScoringModelSettings) {
+  if (!SCORING_FACTORS.some(factor => factor !== "technologyFit" && model.weights[factor] > 0)) {
+    return "At least one factor other than technology fit needs a weight";
+  }
+  if (model.thresholds.medium >= model.thresholds.high) {
+    return "Medium priority has to start below high priority";
+  }
+  return null;
+}
+
+function clampScore(value: string) {
+  const score = Math.round(Number(value));
+  return Number.isFinite(score) ? Math.min(100, Math.max(0, score)) : 0;
+}
+
+export default function ScoringModel() {
+  const [, setLocation] = useLocation();
+  const [draft, setDraft] = useState<ScoringModelSettings | null>(null);
+  const [keywords, setKeywords] = useState<Record<KeywordList, string>>({ targetIndustries: "", secondaryIndustries: "", targetTechnologies: "" });
+  const [bulkOperationId, setBulkOperationId] = useState<number | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data, isLoading } = trpc.scoring.get.useQuery();
+
+  const edit = (model: ScoringModelSettings) => {
+    setDraft(model);
+    setKeywords({
+      targetIndustries: model.targetIndustries.join("\n"),
+      secondaryIndustries: model.secondaryIndustries.join("\n"),
+      targetTechnologies: model.targetTechnologies.join("\n"),
+    });
+  };
+
+  useEffect(() => {
+    if (data && !draft) edit(data.model);
+  }, [data, draft]);
+
+  const proposed = useMemo(() => draft && {
+    ...draft,
+    targetIndustries: parseKeywords(keywords.targetIndustries),
+    secondaryIndustries: parseKeywords(keywords.secondaryIndustries),
+    targetTechnologies: parseKeywords(keywords.targetTechnologies),
+  }, [draft, keywords]);
+  const error = proposed && validationError(proposed);
+
+  const previewInput = useDebouncedValue(proposed, 500);
+  const { data: preview, isFetching: previewLoading } = trpc.scoring.preview.useQuery(previewInput!, {
+    enabled: !!previewInput && !validationError(previewInput),
+    placeholderData: (previous) => previous,
+  });
+
+  const saveMutation = trpc.scoring.save.useMutation({
+    onSuccess: ({ operationId }) => {
+      utils.scoring.get.invalidate();
+      utils.scoring.preview.invalidate();
+      utils.leads.invalidate();
+      if (operationId !== null) {
+        setBulkOperationId(operationId);
+        toast.success("Scoring model saved. Rescoring your leads...");
+      } else {
+        toast.success("Scoring model saved");
+      }
+    },
+    onError: (error) => {
+      toast.error(`Failed to save scoring model: ${error.message}`);
+    },
+  });
+
+  if (isLoading || !data || !draft || !proposed) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const totalWeight = SCORING_FACTORS.filter(factor => factor !== "technologyFit")
+    .reduce((sum, factor) => sum + draft.weights[factor], 0);
+
+  return (
+    <div className="container py-8 space-y-6">
+      <div className="space-y-2">
+        <Button variant="ghost" className="-ml-4" onClick={() => setLocation("/leads")}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Leads
+        </Button>
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold tracking-tight">Lead Scoring</h1>
+            <p className="text-muted-foreground text-lg">
+              Decide what makes a lead a good fit, and preview how scores shift before applying it to your leads
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => edit(data.defaults)}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Restore Defaults
+            </Button>
+            <Button onClick={() => saveMutation.mutate(proposed)} disabled={!!error || saveMutation.isPending}>
+              {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save & Apply
+            </Button>
+          </div>
+        </div>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+
+      {bulkOperationId !== null && (
+        <BulkOperationProgress operationId={bulkOperationId} onDismiss={() => setBulkOperationId(null)} />
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Factor Weights</CardTitle>
+              <CardDescription>
+                How much each factor counts toward the score, relative to the others. Technology fit takes its
+                percentage of the score once a lead's technologies are known
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-5">
+              {SCORING_FACTORS.map(factor => (
+                <div key={factor} className="space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <Label>{SCORING_FACTOR_LABELS[factor]}</Label>
+                    <span className="text-muted-foreground">
+                      {factor === "technologyFit"
+                        ? `${draft.weights[factor]}%`
+                        : totalWeight > 0 ? `${Math.round((draft.weights[factor] / totalWeight) * 100)}%` : "0%"}
+                    </span>
+                  </div>
+                  <Slider
+                    value={[draft.weights[factor]]}
+                    max={100}
+                    step={1}
+                    onValueChange={([weight]) => setDraft({ ...draft, weights: { ...draft.weights, [factor]: weight } })}
+                  />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Industries & Technologies</CardTitle>
+              <CardDescription>One keyword per line; a lead matches when its industry or technology contains one</CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {KEYWORD_LISTS.map(list => (
+                <div key={list.key} className="space-y-2">
+                  <Label htmlFor={list.key}>{list.label}</Label>
+                  <Textarea
+                    id={list.key}
+                    rows={8}
+                    value={keywords[list.key]}
+                    onChange={(e) => setKeywords({ ...keywords, [list.key]: e.target.value })}
+                  />
+                  <p className="text-xs text-muted-foreground">{list.description}</p>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Company Size</CardTitle>
+              <CardDescription>The company size score (0-100) for each employee count. Leads of unknown size score 30</CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {COMPANY_SIZE_BANDS.map(band => (
+                <div key={band.id} className="space-y-2">
+                  <Label htmlFor={`size-${band.id}`}>{band.id} employees</Label>
+                  <Input
+                    id={`size-${band.id}`}
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={draft.companySizeScores[band.id]}
+                    onChange={(e) => setDraft({
+                      ...draft,
+                      companySizeScores: { ...draft.companySizeScores, [band.id]: clampScore(e.target.value) },
+                    })}
+                  />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Priority Thresholds</CardTitle>
+              <CardDescription>The lowest score of a high and a medium priority lead; everything below is low priority</CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-2 gap-4 max-w-md">
+              <div className="space-y-2">
+                <Label htmlFor="threshold-high">High priority from</Label>
+                <Input
+                  id="threshold-high"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={draft.thresholds.high}
+                  onChange={(e) => setDraft({ ...draft, thresholds: { ...draft.thresholds, high: clampScore(e.target.value) } })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="threshold-medium">Medium priority from</Label>
+                <Input
+                  id="threshold-medium"
+                  type="number"
+                  min={0}
+                  max={99}
+                  value={draft.thresholds.medium}
+                  onChange={(e) => setDraft({ ...draft, thresholds: { ...draft.thresholds, medium: clampScore(e.target.value) } })}
+                />
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="h-fit lg:sticky lg:top-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              Preview
+              {previewLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            </CardTitle>
+            <CardDescription>How your leads' scores would change with these settings</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-5">
+            {!preview ? (
+              <p className="text-sm text-muted-foreground">{error ? "Fix the settings above to see a preview" : "Loading preview..."}</p>
+            ) : preview.total === 0 ? (
+              <p className="text-sm text-muted-foreground">You don't have any leads to score yet</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Scores changed</p>
+                    <p className="text-2xl font-bold">{preview.changed} / {preview.total}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Average score</p>
+                    <p className="text-2xl font-bold">{preview.averageBefore} → {preview.averageAfter}</p>
+                  </div>
+                </div>
+
+                <div className="space-y-1 text-sm">
+                  <p className="font-medium">Leads by priority</p>
+                  {SCORE_PRIORITIES.map(priority => (
+                    <div key={priority} className="flex justify-between">
+                      <span>{PRIORITY_LABELS[priority]}</span>
+                      <span className="font-medium">
+                        {preview.priorities[priority].before} → {preview.priorities[priority].after}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+
+                {[
+                  { title: "Biggest rises", changes: preview.biggestRises, Icon: ArrowUp, color: "text-green-500" },
+                  { title: "Biggest drops", changes: preview.biggestDrops, Icon: ArrowDown, color: "text-red-500" },
+                ].map(({ title, changes, Icon, color }) => changes.length > 0 && (
+                  <div key={title} className="space-y-1 text-sm">
+                    <p className="font-medium">{title}</p>
+                    {changes.map(change => (
+                      <div key={change.leadId} className="flex items-center justify-between gap-2">
+                        <Link href={`/leads/${change.leadId}`} className="truncate hover:text-primary">
+                          {change.companyName}
+                        </Link>
+                        <span className={`flex items-center shrink-0 ${color}`}>
+                          <Icon className="h-3 w-3 mr-1" />
+                          {change.before} → {change.after}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -28,7 +28,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
-import { Users, Search, Filter } from "lucide-react";
+import { Users, Search, Filter, Coins } from "lucide-react";
 import { toast } from "sonner";
 
 export default function UserManagement() {
@@ -43,6 +43,9 @@ export default function UserManagement() {
   const [editTier, setEditTier] = useState<"free" | "basic" | "pro" | "enterprise">("free");
   const [editBillingCycle, setEditBillingCycle] = useState<"monthly" | "yearly" | "none">("none");
   const [editNextBillingDate, setEditNextBillingDate] = useState("");
+  const [editCreditLimit, setEditCreditLimit] = useState("");
+  const [topUpCredits, setTopUpCredits] = useState("");
+  const [topUpReason, setTopUpReason] = useState("");
 
   const { data: users, isLoading, refetch } = trpc.admin.listUsers.useQuery({
     status: statusFilter,
@@ -71,12 +74,43 @@ export default function UserManagement() {
     },
   });
 
+  const { data: creditBalance, refetch: refetchCreditBalance } = trpc.admin.getApolloCreditBalance.useQuery(
+    { userId: selectedUser?.id ?? 0 },
+    { enabled: isEditDialogOpen && !!selectedUser }
+  );
+
+  const setCreditLimitMutation = trpc.admin.setApolloCreditLimit.useMutation({
+    onSuccess: () => {
+      toast.success("Apollo credit budget updated");
+      refetch();
+      refetchCreditBalance();
+    },
+    onError: (error) => {
+      toast.error(`Failed to update credit budget: ${error.message}`);
+    },
+  });
+
+  const grantCreditsMutation = trpc.admin.grantApolloCredits.useMutation({
+    onSuccess: (balance) => {
+      toast.success(`Credits granted: ${balance.remaining.toLocaleString()} left this month`);
+      setTopUpCredits("");
+      setTopUpReason("");
+      refetchCreditBalance();
+    },
+    onError: (error) => {
+      toast.error(`Failed to grant credits: ${error.message}`);
+    },
+  });
+
   const handleEditUser = (user: any) => {
     setSelectedUser(user);
     setEditStatus(user.accountStatus);
     setEditTier(user.subscriptionTier);
     setEditBillingCycle(user.billingCycle);
     setEditNextBillingDate(user.nextBillingDate ? new Date(user.nextBillingDate).toISOString().split('T')[0] : "");
+    setEditCreditLimit(user.apolloCreditLimit != null ? String(user.apolloCreditLimit) : "");
+    setTopUpCredits("");
+    setTopUpReason("");
     setIsEditDialogOpen(true);
   };
 
@@ -348,6 +382,79 @@ export default function UserManagement() {
               </div>
             </div>
 
+            {/* Apollo Credits */}
+            <div className="border-t pt-4 space-y-4">
+              <div>
+                <h4 className="font-semibold flex items-center gap-2">
+                  <Coins className="h-4 w-4" />
+                  Apollo Credits
+                </h4>
+                {creditBalance && (
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {creditBalance.used.toLocaleString()} of {creditBalance.budget.toLocaleString()} used this month
+                    {" "}({creditBalance.planBudget.toLocaleString()} from the plan
+                    {creditBalance.userLimit != null && `, replaced by a ${creditBalance.userLimit.toLocaleString()} user budget`}
+                    {creditBalance.topUps > 0 && `, plus ${creditBalance.topUps.toLocaleString()} top-up`})
+                  </p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Monthly Budget</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="Plan default"
+                      value={editCreditLimit}
+                      onChange={(e) => setEditCreditLimit(e.target.value)}
+                    />
+                    <Button
+                      variant="outline"
+                      disabled={!selectedUser || setCreditLimitMutation.isPending}
+                      onClick={() => setCreditLimitMutation.mutate({
+                        userId: selectedUser.id,
+                        limit: editCreditLimit.trim() === "" ? null : Number(editCreditLimit),
+                      })}
+                    >
+                      Set
+                    </Button>
+                  </div>
+                </div>
+
+                <div>
+                  <Label>Top-up This Month</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      type="number"
+                      min={1}
+                      placeholder="Credits"
+                      value={topUpCredits}
+                      onChange={(e) => setTopUpCredits(e.target.value)}
+                    />
+                    <Button
+                      variant="outline"
+                      disabled={!selectedUser || !(Number(topUpCredits) > 0) || grantCreditsMutation.isPending}
+                      onClick={() => grantCreditsMutation.mutate({
+                        userId: selectedUser.id,
+                        credits: Number(topUpCredits),
+                        reason: topUpReason || undefined,
+                      })}
+                    >
+                      Grant
+                    </Button>
+                  </div>
+                  <Input
+                    className="mt-2"
+                    placeholder="Reason (optional)"
+                    value={topUpReason}
+                    onChange={(e) => setTopUpReason(e.target.value)}
+                  />
+                </div>
+              </div>
+            </div>
+
             {/* User Info Display */}
             <div className="border-t pt-4">
               <h4 className="font-semibold mb-2">User Information</h4>
@@ -0,0 +1,12 @@
+CREATE TABLE `leadMerges` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`survivingLeadId` int NOT NULL,
+	`mergedLeadId` int NOT NULL,
+	`mergedCompanyName` varchar(255) NOT NULL,
+	`fieldSources` text NOT NULL,
+	`mergedLeadSnapshot` text NOT NULL,
+	`movedRecords` text NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `leadMerges_id` PRIMARY KEY(`id`)
+);
@@ -0,0 +1,15 @@
+CREATE TABLE `customFieldDefinitions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`fieldKey` varchar(64) NOT NULL,
+	`label` varchar(255) NOT NULL,
+	`fieldType` enum('text','number','date','single_select','multi_select','url','currency') NOT NULL,
+	`options` text,
+	`currency` varchar(3),
+	`position` int NOT NULL DEFAULT 0,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `customFieldDefinitions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `leads` ADD `customFields` text;
\ No newline at end of file
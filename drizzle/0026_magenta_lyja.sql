@@ -0,0 +1,2 @@
+CREATE INDEX `leads_user_created_idx` ON `leads` (`userId`,`createdAt`,`id`);--> statement-breakpoint
+CREATE INDEX `leads_user_company_idx` ON `leads` (`userId`,`companyName`,`id`);
\ No newline at end of file
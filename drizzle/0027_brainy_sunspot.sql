@@ -0,0 +1,31 @@
+CREATE TABLE `savedViewLeads` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`viewId` int NOT NULL,
+	`leadId` int NOT NULL,
+	CONSTRAINT `savedViewLeads_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `savedViewShares` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`viewId` int NOT NULL,
+	`userId` int NOT NULL,
+	`pinned` int NOT NULL DEFAULT 0,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `savedViewShares_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `savedViews` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`viewType` enum('dynamic','static') NOT NULL DEFAULT 'dynamic',
+	`filters` text NOT NULL,
+	`columns` text,
+	`pinned` int NOT NULL DEFAULT 0,
+	`snapshotAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `savedViews_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `savedViewLeads_view_lead_idx` ON `savedViewLeads` (`viewId`,`leadId`);
\ No newline at end of file
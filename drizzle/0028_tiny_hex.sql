@@ -0,0 +1,60 @@
+CREATE TABLE `leadTags` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`leadId` int NOT NULL,
+	`tagId` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `leadTags_id` PRIMARY KEY(`id`),
+	CONSTRAINT `leadTags_lead_tag_idx` UNIQUE(`leadId`,`tagId`)
+);
+--> statement-breakpoint
+CREATE TABLE `tags` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`name` varchar(64) NOT NULL,
+	`color` varchar(7) NOT NULL DEFAULT '#6b7280',
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `tags_id` PRIMARY KEY(`id`),
+	CONSTRAINT `tags_user_name_idx` UNIQUE(`userId`,`name`)
+);
+--> statement-breakpoint
+CREATE INDEX `leadTags_tag_idx` ON `leadTags` (`tagId`);--> statement-breakpoint
+-- Move the old free-text tags (a JSON array or a comma-separated list) into tags and leadTags.
+-- TiDB has no JSON_TABLE, so each lead's tags are picked out one position at a time; the old
+-- column is dropped by a later migration, once this has run
+CREATE TEMPORARY TABLE `legacyTagPositions` (`n` int NOT NULL PRIMARY KEY);--> statement-breakpoint
+INSERT INTO `legacyTagPositions` (`n`)
+SELECT ones.`d` + tens.`d` * 10 + hundreds.`d` * 100
+FROM (SELECT 0 AS `d` UNION ALL SELECT 1 UNION ALL SELECT 2 UNION ALL SELECT 3 UNION ALL SELECT 4 UNION ALL SELECT 5 UNION ALL SELECT 6 UNION ALL SELECT 7 UNION ALL SELECT 8 UNION ALL SELECT 9) ones,
+  (SELECT 0 AS `d` UNION ALL SELECT 1 UNION ALL SELECT 2 UNION ALL SELECT 3 UNION ALL SELECT 4 UNION ALL SELECT 5 UNION ALL SELECT 6 UNION ALL SELECT 7 UNION ALL SELECT 8 UNION ALL SELECT 9) tens,
+  (SELECT 0 AS `d` UNION ALL SELECT 1 UNION ALL SELECT 2 UNION ALL SELECT 3 UNION ALL SELECT 4 UNION ALL SELECT 5 UNION ALL SELECT 6 UNION ALL SELECT 7 UNION ALL SELECT 8 UNION ALL SELECT 9) hundreds;--> statement-breakpoint
+CREATE TEMPORARY TABLE `legacyLeadTags` (`leadId` int NOT NULL, `userId` int NOT NULL, `name` varchar(64) NOT NULL);--> statement-breakpoint
+INSERT INTO `legacyLeadTags` (`leadId`, `userId`, `name`)
+SELECT t.`leadId`, t.`userId`, LEFT(t.`name`, 64)
+FROM (
+  SELECT l.`id` AS `leadId`, l.`userId`, TRIM(JSON_UNQUOTE(JSON_EXTRACT(l.`tags`, CONCAT('$[', p.`n`, ']')))) AS `name`
+  FROM `leads` l
+  JOIN `legacyTagPositions` p ON p.`n` < JSON_LENGTH(l.`tags`)
+  WHERE l.`tags` IS NOT NULL AND JSON_VALID(l.`tags`) AND JSON_TYPE(l.`tags`) = 'ARRAY'
+) t
+WHERE t.`name` IS NOT NULL AND t.`name` <> '';--> statement-breakpoint
+INSERT INTO `legacyLeadTags` (`leadId`, `userId`, `name`)
+SELECT t.`leadId`, t.`userId`, LEFT(t.`name`, 64)
+FROM (
+  SELECT l.`id` AS `leadId`, l.`userId`, TRIM(SUBSTRING_INDEX(SUBSTRING_INDEX(l.`list`, ',', p.`n` + 1), ',', -1)) AS `name`
+  FROM (
+    SELECT `id`, `userId`, REPLACE(REPLACE(REPLACE(`tags`, ';', ','), '\r', ''), '\n', ',') AS `list`
+    FROM `leads`
+    WHERE `tags` IS NOT NULL AND NOT JSON_VALID(`tags`)
+  ) l
+  JOIN `legacyTagPositions` p ON p.`n` <= LENGTH(l.`list`) - LENGTH(REPLACE(l.`list`, ',', ''))
+) t
+WHERE t.`name` <> '';--> statement-breakpoint
+INSERT IGNORE INTO `tags` (`userId`, `name`)
+SELECT DISTINCT `userId`, `name` FROM `legacyLeadTags`;--> statement-breakpoint
+INSERT IGNORE INTO `leadTags` (`leadId`, `tagId`)
+SELECT DISTINCT lt.`leadId`, t.`id`
+FROM `legacyLeadTags` lt
+JOIN `tags` t ON t.`userId` = lt.`userId` AND t.`name` = lt.`name`;--> statement-breakpoint
+DROP TEMPORARY TABLE `legacyLeadTags`;--> statement-breakpoint
+DROP TEMPORARY TABLE `legacyTagPositions`;
\ No newline at end of file
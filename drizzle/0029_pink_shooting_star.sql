@@ -0,0 +1,38 @@
+-- leadStatusHistory was first created by hand, with free-text change reasons and nullable columns;
+-- create it in that shape where it's missing so every database converts from the same table
+CREATE TABLE IF NOT EXISTS `leadStatusHistory` (
+	`id` int AUTO_INCREMENT PRIMARY KEY,
+	`leadId` int NOT NULL,
+	`userId` int NOT NULL,
+	`previousStatus` enum('new','contacted','qualified','nurturing','won','lost','unresponsive') NOT NULL,
+	`newStatus` enum('new','contacted','qualified','nurturing','won','lost','unresponsive') NOT NULL,
+	`changeReason` varchar(255),
+	`triggeredBy` enum('user','workflow','system') DEFAULT 'user',
+	`metadata` text,
+	`notes` text,
+	`changedAt` timestamp DEFAULT CURRENT_TIMESTAMP,
+	INDEX `idx_leadId` (`leadId`),
+	INDEX `idx_userId` (`userId`),
+	INDEX `idx_changedAt` (`changedAt`),
+	FOREIGN KEY (`leadId`) REFERENCES `leads`(`id`) ON DELETE CASCADE,
+	FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE
+);
+--> statement-breakpoint
+ALTER TABLE `leadStatusHistory` MODIFY COLUMN `previousStatus` enum('new','contacted','qualified','unqualified','converted','nurturing','won','lost','unresponsive') NOT NULL;--> statement-breakpoint
+ALTER TABLE `leadStatusHistory` MODIFY COLUMN `newStatus` enum('new','contacted','qualified','unqualified','converted','nurturing','won','lost','unresponsive') NOT NULL;--> statement-breakpoint
+-- Workflow triggers and manual updates were already written under their enum names; anything else was a manual change
+UPDATE `leadStatusHistory` SET `changeReason` = LOWER(TRIM(`changeReason`)) WHERE `changeReason` IS NOT NULL;--> statement-breakpoint
+UPDATE `leadStatusHistory` SET `changeReason` = 'manual_update'
+	WHERE `changeReason` IS NULL
+	OR `changeReason` NOT IN ('email_sent','email_opened','email_clicked','conversation_started','conversation_replied','qualified_manually','won_manually','lost_manually','no_response_timeout','manual_update','lead_merged');--> statement-breakpoint
+ALTER TABLE `leadStatusHistory` MODIFY COLUMN `changeReason` enum('email_sent','email_opened','email_clicked','conversation_started','conversation_replied','qualified_manually','won_manually','lost_manually','no_response_timeout','manual_update','lead_merged') NOT NULL;--> statement-breakpoint
+UPDATE `leadStatusHistory` SET `triggeredBy` = 'user' WHERE `triggeredBy` IS NULL;--> statement-breakpoint
+ALTER TABLE `leadStatusHistory` MODIFY COLUMN `triggeredBy` enum('user','workflow','system') NOT NULL;--> statement-breakpoint
+UPDATE `leadStatusHistory` SET `changedAt` = now() WHERE `changedAt` IS NULL;--> statement-breakpoint
+ALTER TABLE `leadStatusHistory` MODIFY COLUMN `changedAt` timestamp NOT NULL DEFAULT (now());--> statement-breakpoint
+CREATE INDEX `leadStatusHistory_lead_idx` ON `leadStatusHistory` (`leadId`,`changedAt`);--> statement-breakpoint
+CREATE INDEX `leadStatusHistory_user_idx` ON `leadStatusHistory` (`userId`,`changedAt`);--> statement-breakpoint
+-- The new indexes lead with leadId and userId, so they also back the foreign keys
+DROP INDEX `idx_leadId` ON `leadStatusHistory`;--> statement-breakpoint
+DROP INDEX `idx_userId` ON `leadStatusHistory`;--> statement-breakpoint
+DROP INDEX `idx_changedAt` ON `leadStatusHistory`;
@@ -0,0 +1,29 @@
+CREATE TABLE `bulkOperationLeads` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`operationId` int NOT NULL,
+	`leadId` int NOT NULL,
+	`outcome` enum('succeeded','skipped','failed') NOT NULL,
+	`error` varchar(500),
+	`undoData` text,
+	CONSTRAINT `bulkOperationLeads_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `bulkOperations` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`action` enum('status','delete','tag','enroll','assignOwner','recalculateScore','export') NOT NULL,
+	`params` text NOT NULL,
+	`status` enum('queued','running','completed','failed','undone') NOT NULL DEFAULT 'queued',
+	`totalCount` int NOT NULL,
+	`processedCount` int NOT NULL DEFAULT 0,
+	`failedCount` int NOT NULL DEFAULT 0,
+	`error` text,
+	`undoExpiresAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`completedAt` timestamp,
+	`undoneAt` timestamp,
+	CONSTRAINT `bulkOperations_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `bulkOperationLeads_operation_lead_idx` ON `bulkOperationLeads` (`operationId`,`leadId`);--> statement-breakpoint
+CREATE INDEX `bulkOperations_user_idx` ON `bulkOperations` (`userId`,`createdAt`);
\ No newline at end of file
@@ -0,0 +1,38 @@
+CREATE TABLE `leadContacts` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`leadId` int NOT NULL,
+	`name` varchar(255),
+	`title` varchar(255),
+	`role` enum('decision_maker','champion','influencer','technical','end_user','other') NOT NULL DEFAULT 'other',
+	`email` varchar(320),
+	`phone` varchar(50),
+	`linkedin` varchar(500),
+	`isPrimary` int NOT NULL DEFAULT 0,
+	`doNotContact` int NOT NULL DEFAULT 0,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `leadContacts_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `emailClicks` ADD `contactId` int;--> statement-breakpoint
+ALTER TABLE `emailOpens` ADD `contactId` int;--> statement-breakpoint
+ALTER TABLE `sentEmails` ADD `contactId` int;--> statement-breakpoint
+ALTER TABLE `sequenceEnrollments` ADD `contactId` int;--> statement-breakpoint
+CREATE INDEX `leadContacts_lead_idx` ON `leadContacts` (`leadId`);--> statement-breakpoint
+CREATE INDEX `leadContacts_email_idx` ON `leadContacts` (`email`);--> statement-breakpoint
+INSERT INTO `leadContacts` (`leadId`, `name`, `title`, `email`, `phone`, `linkedin`, `isPrimary`, `createdAt`)
+SELECT `id`, `contactName`, `contactTitle`, `contactEmail`, `contactPhone`, `contactLinkedin`, 1, `createdAt`
+FROM `leads`
+WHERE COALESCE(`contactName`, `contactTitle`, `contactEmail`, `contactPhone`, `contactLinkedin`) IS NOT NULL;--> statement-breakpoint
+UPDATE `sentEmails` se
+JOIN `leadContacts` c ON c.`leadId` = se.`leadId` AND c.`isPrimary` = 1
+SET se.`contactId` = c.`id`;--> statement-breakpoint
+UPDATE `emailOpens` eo
+JOIN `leadContacts` c ON c.`leadId` = eo.`leadId` AND c.`isPrimary` = 1
+SET eo.`contactId` = c.`id`;--> statement-breakpoint
+UPDATE `emailClicks` ec
+JOIN `leadContacts` c ON c.`leadId` = ec.`leadId` AND c.`isPrimary` = 1
+SET ec.`contactId` = c.`id`;--> statement-breakpoint
+UPDATE `sequenceEnrollments` e
+JOIN `leadContacts` c ON c.`leadId` = e.`leadId` AND c.`isPrimary` = 1
+SET e.`contactId` = c.`id`;
@@ -0,0 +1 @@
+ALTER TABLE `searchHistory` ADD `pagesLoaded` int DEFAULT 1 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE `discoveryCache` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`cacheKey` varchar(64) NOT NULL,
+	`source` varchar(32) NOT NULL,
+	`results` text NOT NULL,
+	`creditsUsed` int NOT NULL DEFAULT 0,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`expiresAt` timestamp NOT NULL,
+	CONSTRAINT `discoveryCache_id` PRIMARY KEY(`id`),
+	CONSTRAINT `discoveryCache_cacheKey_unique` UNIQUE(`cacheKey`)
+);
+--> statement-breakpoint
+CREATE TABLE `discoveryCacheLookups` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`source` varchar(32) NOT NULL,
+	`hit` int NOT NULL DEFAULT 0,
+	`creditsSaved` int NOT NULL DEFAULT 0,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `discoveryCacheLookups_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `discoveryCacheLookups_user_idx` ON `discoveryCacheLookups` (`userId`,`createdAt`);
\ No newline at end of file
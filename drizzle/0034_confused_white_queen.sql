@@ -0,0 +1,13 @@
+CREATE TABLE `apolloCreditGrants` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`credits` int NOT NULL,
+	`reason` varchar(255),
+	`grantedBy` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `apolloCreditGrants_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `subscriptionPlans` ADD `monthlyApolloCredits` int;--> statement-breakpoint
+ALTER TABLE `users` ADD `apolloCreditLimit` int;--> statement-breakpoint
+CREATE INDEX `apolloCreditGrants_user_idx` ON `apolloCreditGrants` (`userId`,`createdAt`);
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TABLE `searchMonitorMatches` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`monitorId` int NOT NULL,
+	`userId` int NOT NULL,
+	`companyKey` varchar(255) NOT NULL,
+	`companyName` varchar(255) NOT NULL,
+	`lead` text NOT NULL,
+	`status` enum('new','existingLead','imported','dismissed') NOT NULL DEFAULT 'new',
+	`leadId` int,
+	`foundAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `searchMonitorMatches_id` PRIMARY KEY(`id`),
+	CONSTRAINT `searchMonitorMatches_monitor_company_idx` UNIQUE(`monitorId`,`companyKey`)
+);
+--> statement-breakpoint
+CREATE TABLE `searchMonitors` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`searchId` int NOT NULL,
+	`cronExpression` varchar(100) NOT NULL,
+	`isActive` int NOT NULL DEFAULT 1,
+	`autoImport` int NOT NULL DEFAULT 0,
+	`emailDigest` int NOT NULL DEFAULT 1,
+	`lastRunAt` timestamp,
+	`lastError` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `searchMonitors_id` PRIMARY KEY(`id`),
+	CONSTRAINT `searchMonitors_searchId_unique` UNIQUE(`searchId`)
+);
+--> statement-breakpoint
+CREATE INDEX `searchMonitorMatches_user_status_idx` ON `searchMonitorMatches` (`userId`,`status`);
\ No newline at end of file
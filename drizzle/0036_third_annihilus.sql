@@ -0,0 +1 @@
+ALTER TABLE `searchHistory` ADD `parsedFilters` text;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE `emailDeliverabilityChecks` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`email` varchar(320) NOT NULL,
+	`resolver` varchar(32) NOT NULL,
+	`status` enum('valid','risky','invalid','unknown') NOT NULL,
+	`reason` varchar(255) NOT NULL,
+	`mxHost` varchar(255),
+	`checkedAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `emailDeliverabilityChecks_id` PRIMARY KEY(`id`),
+	CONSTRAINT `emailDeliverabilityChecks_email_resolver_idx` UNIQUE(`email`,`resolver`)
+);
@@ -0,0 +1,5 @@
+ALTER TABLE `leads` ADD `latitude` double;--> statement-breakpoint
+ALTER TABLE `leads` ADD `longitude` double;--> statement-breakpoint
+ALTER TABLE `leads` ADD `geocodedLocation` varchar(255);--> statement-breakpoint
+ALTER TABLE `leads` ADD `geocodedAt` timestamp;--> statement-breakpoint
+CREATE INDEX `leads_user_latitude_idx` ON `leads` (`userId`,`latitude`);
\ No newline at end of file
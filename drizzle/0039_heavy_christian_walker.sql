@@ -0,0 +1,11 @@
+CREATE TABLE `scoringModels` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`highPriorityMin` int NOT NULL,
+	`mediumPriorityMin` int NOT NULL,
+	`settings` text NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `scoringModels_id` PRIMARY KEY(`id`),
+	CONSTRAINT `scoringModels_user_idx` UNIQUE(`userId`)
+);
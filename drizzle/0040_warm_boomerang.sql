@@ -0,0 +1,4 @@
+DROP INDEX `bulkOperationLeads_operation_lead_idx` ON `bulkOperationLeads`;--> statement-breakpoint
+DROP INDEX `savedViewLeads_view_lead_idx` ON `savedViewLeads`;--> statement-breakpoint
+ALTER TABLE `bulkOperationLeads` ADD CONSTRAINT `bulkOperationLeads_operation_lead_idx` UNIQUE(`operationId`,`leadId`);--> statement-breakpoint
+ALTER TABLE `savedViewLeads` ADD CONSTRAINT `savedViewLeads_view_lead_idx` UNIQUE(`viewId`,`leadId`);
\ No newline at end of file
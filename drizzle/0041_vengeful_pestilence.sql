@@ -0,0 +1,2 @@
+-- Migration 0028 has moved the old free-text tags into tags and leadTags by now
+ALTER TABLE `leads` DROP COLUMN `tags`;
\ No newline at end of file
@@ -1,4 +1,7 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar } from "drizzle-orm/mysql-core";
+import { double, index, int, mysqlEnum, mysqlTable, text, timestamp, uniqueIndex, varchar } from "drizzle-orm/mysql-core";
+import { CONTACT_ROLES } from "../shared/contacts";
+import { MONITOR_MATCH_STATUSES } from "../shared/discovery";
+import { EMAIL_STATUSES } from "../shared/emailDeliverability";
 
 /**
  * Core user table backing auth flow.
@@ -39,6 +42,7 @@ export const users = mysqlTable("users", {
   batchNotifications: int("batchNotifications").default(0), // Send batch notifications instead of individual
   timezone: varchar("timezone", { length: 100 }).default("UTC"),
   useRealData: int("useRealData").default(0).notNull(), // 0 = test/template data, 1 = real Apollo.io data
+  apolloCreditLimit: int("apolloCreditLimit"), // Monthly Apollo credit budget for this user, NULL = their plan's budget
   // Account management
   accountStatus: mysqlEnum("accountStatus", ["active", "inactive", "suspended", "trial"]).default("trial").notNull(),
   subscriptionTier: mysqlEnum("subscriptionTier", ["free", "basic", "pro", "enterprise"]).default("free").notNull(),
@@ -58,6 +62,8 @@ export const users = mysqlTable("users", {
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 
+const leadStatusValues = ["new", "contacted", "qualified", "unqualified", "converted", "nurturing", "won", "lost", "unresponsive"] as const;
+
 /**
  * Leads table - stores discovered leads and their information
  */
@@ -70,23 +76,246 @@ export const leads = mysqlTable("leads", {
   companySize: varchar("companySize", { length: 100 }),
   location: varchar("location", { length: 255 }),
   description: text("description"),
+  // Primary contact, mirrored from leadContacts for lists, search and export
   contactName: varchar("contactName", { length: 255 }),
   contactTitle: varchar("contactTitle", { length: 255 }),
   contactEmail: varchar("contactEmail", { length: 320 }),
   contactLinkedin: varchar("contactLinkedin", { length: 500 }),
   contactPhone: varchar("contactPhone", { length: 50 }),
-  status: mysqlEnum("status", ["new", "contacted", "qualified", "unqualified", "converted", "nurturing", "won", "lost", "unresponsive"]).default("new").notNull(),
+  status: mysqlEnum("status", leadStatusValues).default("new").notNull(),
   score: int("score").default(0), // Lead scoring 0-100
   notes: text("notes"),
-  tags: text("tags"), // JSON array of tags
+  customFields: text("customFields"), // JSON object: custom field key -> value
   welcomeEmailSent: int("welcomeEmailSent").default(0).notNull(), // 0 = not sent, 1 = sent
+  // Where the location was geocoded to; only current while geocodedLocation still matches location
+  latitude: double("latitude"),
+  longitude: double("longitude"),
+  geocodedLocation: varchar("geocodedLocation", { length: 255 }), // The location text geocoded; set without coordinates when it wasn't found
+  geocodedAt: timestamp("geocodedAt"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
-});
+}, (table) => [
+  // Keyset pagination of the Leads page by recency and by name
+  index("leads_user_created_idx").on(table.userId, table.createdAt, table.id),
+  index("leads_user_company_idx").on(table.userId, table.companyName, table.id),
+  // Nearby leads, narrowed by latitude first
+  index("leads_user_latitude_idx").on(table.userId, table.latitude),
+]);
 
 export type Lead = typeof leads.$inferSelect;
 export type InsertLead = typeof leads.$inferInsert;
 
+/**
+ * Lead contacts table - the people at a lead's company; one per lead is the primary contact
+ */
+export const leadContacts = mysqlTable("leadContacts", {
+  id: int("id").autoincrement().primaryKey(),
+  leadId: int("leadId").notNull(),
+  name: varchar("name", { length: 255 }),
+  title: varchar("title", { length: 255 }), // Job title, e.g. VP Sales
+  role: mysqlEnum("role", CONTACT_ROLES).default("other").notNull(), // Part in the buying decision
+  email: varchar("email", { length: 320 }),
+  phone: varchar("phone", { length: 50 }),
+  linkedin: varchar("linkedin", { length: 500 }),
+  isPrimary: int("isPrimary").default(0).notNull(), // 1 = the lead's primary contact
+  doNotContact: int("doNotContact").default(0).notNull(), // 1 = never email or enroll this contact
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  index("leadContacts_lead_idx").on(table.leadId),
+  index("leadContacts_email_idx").on(table.email),
+]);
+
+export type LeadContact = typeof leadContacts.$inferSelect;
+export type InsertLeadContact = typeof leadContacts.$inferInsert;
+
+/**
+ * Tags table - a user's lead tags; names are unique per user (ignoring case)
+ */
+export const tags = mysqlTable("tags", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  name: varchar("name", { length: 64 }).notNull(),
+  color: varchar("color", { length: 7 }).default("#6b7280").notNull(), // Hex color, e.g. #3b82f6
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("tags_user_name_idx").on(table.userId, table.name),
+]);
+
+export type TagRow = typeof tags.$inferSelect;
+export type InsertTag = typeof tags.$inferInsert;
+
+/**
+ * Lead tags table - links leads to tags
+ */
+export const leadTags = mysqlTable("leadTags", {
+  id: int("id").autoincrement().primaryKey(),
+  leadId: int("leadId").notNull(),
+  tagId: int("tagId").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("leadTags_lead_tag_idx").on(table.leadId, table.tagId),
+  index("leadTags_tag_idx").on(table.tagId),
+]);
+
+/**
+ * Custom field definitions table - user-defined typed fields stored on leads.customFields
+ */
+export const customFieldDefinitions = mysqlTable("customFieldDefinitions", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  fieldKey: varchar("fieldKey", { length: 64 }).notNull(), // Key in leads.customFields, unique per user
+  label: varchar("label", { length: 255 }).notNull(),
+  fieldType: mysqlEnum("fieldType", ["text", "number", "date", "single_select", "multi_select", "url", "currency"]).notNull(),
+  options: text("options"), // JSON array of choices for single/multi select
+  currency: varchar("currency", { length: 3 }), // ISO 4217 code for currency fields
+  position: int("position").default(0).notNull(), // Display order
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type CustomFieldDefinitionRow = typeof customFieldDefinitions.$inferSelect;
+export type InsertCustomFieldDefinition = typeof customFieldDefinitions.$inferInsert;
+
+/**
+ * Lead merges table - audit trail of duplicate leads merged into a surviving lead
+ */
+export const leadMerges = mysqlTable("leadMerges", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  survivingLeadId: int("survivingLeadId").notNull(), // Lead that was kept
+  mergedLeadId: int("mergedLeadId").notNull(), // Lead that was merged in and deleted
+  mergedCompanyName: varchar("mergedCompanyName", { length: 255 }).notNull(),
+  fieldSources: text("fieldSources").notNull(), // JSON: field -> { leadIds, value } the merged value came from
+  mergedLeadSnapshot: text("mergedLeadSnapshot").notNull(), // JSON copy of the deleted lead row
+  movedRecords: text("movedRecords").notNull(), // JSON: table -> number of rows re-pointed to the surviving lead
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type LeadMerge = typeof leadMerges.$inferSelect;
+export type InsertLeadMerge = typeof leadMerges.$inferInsert;
+
+/**
+ * Lead status history table - every change to a lead's status, what caused it and who
+ */
+export const leadStatusHistory = mysqlTable("leadStatusHistory", {
+  id: int("id").autoincrement().primaryKey(),
+  leadId: int("leadId").notNull(),
+  userId: int("userId").notNull(), // Owner of the lead
+  previousStatus: mysqlEnum("previousStatus", leadStatusValues).notNull(),
+  newStatus: mysqlEnum("newStatus", leadStatusValues).notNull(),
+  changeReason: mysqlEnum("changeReason", [
+    "email_sent",
+    "email_opened",
+    "email_clicked",
+    "conversation_started",
+    "conversation_replied",
+    "qualified_manually",
+    "won_manually",
+    "lost_manually",
+    "no_response_timeout",
+    "manual_update",
+    "lead_merged",
+  ]).notNull(), // Workflow trigger, or how a person changed it
+  triggeredBy: mysqlEnum("triggeredBy", ["user", "workflow", "system"]).notNull(),
+  metadata: text("metadata"), // JSON details of the triggering event
+  notes: text("notes"),
+  changedAt: timestamp("changedAt").defaultNow().notNull(),
+}, (table) => [
+  index("leadStatusHistory_lead_idx").on(table.leadId, table.changedAt),
+  // Pipeline analytics over a user's changes in a date range
+  index("leadStatusHistory_user_idx").on(table.userId, table.changedAt),
+]);
+
+export type LeadStatusChange = typeof leadStatusHistory.$inferSelect;
+export type InsertLeadStatusChange = typeof leadStatusHistory.$inferInsert;
+
+/**
+ * Saved views table - named lead filters, sort and columns (smart lists)
+ * Dynamic views re-run their filters on open; static views list the leads frozen in savedViewLeads
+ */
+export const savedViews = mysqlTable("savedViews", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(), // Owner
+  name: varchar("name", { length: 255 }).notNull(),
+  viewType: mysqlEnum("viewType", ["dynamic", "static"]).default("dynamic").notNull(),
+  filters: text("filters").notNull(), // JSON lead list filters, including sortBy
+  columns: text("columns"), // JSON array of visible table columns; null shows lead cards
+  pinned: int("pinned").default(0).notNull(), // 1 = shown in the owner's sidebar
+  snapshotAt: timestamp("snapshotAt"), // When a static view's leads were frozen
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type SavedView = typeof savedViews.$inferSelect;
+export type InsertSavedView = typeof savedViews.$inferInsert;
+
+/**
+ * Saved view leads table - the lead IDs frozen in a static view
+ */
+export const savedViewLeads = mysqlTable("savedViewLeads", {
+  id: int("id").autoincrement().primaryKey(),
+  viewId: int("viewId").notNull(),
+  leadId: int("leadId").notNull(),
+}, (table) => [
+  uniqueIndex("savedViewLeads_view_lead_idx").on(table.viewId, table.leadId),
+]);
+
+/**
+ * Saved view shares table - teammates a view is shared with (read-only)
+ */
+export const savedViewShares = mysqlTable("savedViewShares", {
+  id: int("id").autoincrement().primaryKey(),
+  viewId: int("viewId").notNull(),
+  userId: int("userId").notNull(), // Teammate the view is shared with
+  pinned: int("pinned").default(0).notNull(), // 1 = shown in the teammate's sidebar
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type SavedViewShare = typeof savedViewShares.$inferSelect;
+
+/**
+ * Bulk operations table - a background action over many leads, with progress and an undo window
+ */
+export const bulkOperations = mysqlTable("bulkOperations", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  action: mysqlEnum("action", ["status", "delete", "tag", "enroll", "assignOwner", "recalculateScore", "export"]).notNull(),
+  params: text("params").notNull(), // JSON action input, e.g. { status: "qualified" }
+  status: mysqlEnum("status", ["queued", "running", "completed", "failed", "undone"]).default("queued").notNull(),
+  totalCount: int("totalCount").notNull(),
+  processedCount: int("processedCount").default(0).notNull(),
+  failedCount: int("failedCount").default(0).notNull(),
+  error: text("error"), // Why the whole operation failed
+  undoExpiresAt: timestamp("undoExpiresAt"), // Null when the action can't be undone
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  completedAt: timestamp("completedAt"),
+  undoneAt: timestamp("undoneAt"),
+}, (table) => [
+  index("bulkOperations_user_idx").on(table.userId, table.createdAt),
+]);
+
+export type BulkOperation = typeof bulkOperations.$inferSelect;
+export type InsertBulkOperation = typeof bulkOperations.$inferInsert;
+
+/**
+ * Bulk operation leads table - what a bulk operation did to each lead
+ */
+export const bulkOperationLeads = mysqlTable("bulkOperationLeads", {
+  id: int("id").autoincrement().primaryKey(),
+  operationId: int("operationId").notNull(),
+  leadId: int("leadId").notNull(),
+  outcome: mysqlEnum("outcome", ["succeeded", "skipped", "failed"]).notNull(),
+  error: varchar("error", { length: 500 }),
+  undoData: text("undoData"), // JSON: the lead's state before the change
+}, (table) => [
+  uniqueIndex("bulkOperationLeads_operation_lead_idx").on(table.operationId, table.leadId),
+]);
+
+export type BulkOperationLead = typeof bulkOperationLeads.$inferSelect;
+export type InsertBulkOperationLead = typeof bulkOperationLeads.$inferInsert;
+
 /**
  * Search history table - tracks user's lead discovery searches
  */
@@ -98,7 +327,9 @@ export const searchHistory = mysqlTable("searchHistory", {
   companySize: varchar("companySize", { length: 100 }), // Selected company size filter
   location: varchar("location", { length: 255 }), // Location filter
   filters: text("filters"), // JSON object with all applied filters
+  parsedFilters: text("parsedFilters"), // JSON ParsedSearchFilters the user confirmed for the query, if any
   resultsCount: int("resultsCount").default(0),
+  pagesLoaded: int("pagesLoaded").default(1).notNull(), // Result pages pulled, counting each "load more"
   isFavorite: int("isFavorite").default(0).notNull(), // 0 = not favorite, 1 = favorite
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
@@ -106,6 +337,98 @@ export const searchHistory = mysqlTable("searchHistory", {
 export type SearchHistory = typeof searchHistory.$inferSelect;
 export type InsertSearchHistory = typeof searchHistory.$inferInsert;
 
+/**
+ * Search monitors table - a saved search re-run on a cron schedule to find new matching companies
+ */
+export const searchMonitors = mysqlTable("searchMonitors", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  searchId: int("searchId").notNull().unique(), // The searchHistory entry it re-runs
+  cronExpression: varchar("cronExpression", { length: 100 }).notNull(),
+  isActive: int("isActive").default(1).notNull(), // 1 = running on schedule, 0 = paused
+  autoImport: int("autoImport").default(0).notNull(), // 1 = add new matches as leads straight away
+  emailDigest: int("emailDigest").default(1).notNull(), // 1 = email a digest when a run finds new matches
+  lastRunAt: timestamp("lastRunAt"),
+  lastError: text("lastError"), // Why the last run failed, cleared by a successful run
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type SearchMonitor = typeof searchMonitors.$inferSelect;
+export type InsertSearchMonitor = typeof searchMonitors.$inferInsert;
+
+/**
+ * Search monitor matches table - every company a monitor has found, so later runs only surface new ones
+ */
+export const searchMonitorMatches = mysqlTable("searchMonitorMatches", {
+  id: int("id").autoincrement().primaryKey(),
+  monitorId: int("monitorId").notNull(),
+  userId: int("userId").notNull(),
+  companyKey: varchar("companyKey", { length: 255 }).notNull(), // Normalized domain, or company name without one
+  companyName: varchar("companyName", { length: 255 }).notNull(),
+  lead: text("lead").notNull(), // JSON DiscoveredLead as the search returned it
+  status: mysqlEnum("status", MONITOR_MATCH_STATUSES).default("new").notNull(),
+  leadId: int("leadId"), // The lead it was imported as
+  foundAt: timestamp("foundAt").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("searchMonitorMatches_monitor_company_idx").on(table.monitorId, table.companyKey),
+  index("searchMonitorMatches_user_status_idx").on(table.userId, table.status),
+]);
+
+export type SearchMonitorMatch = typeof searchMonitorMatches.$inferSelect;
+export type InsertSearchMonitorMatch = typeof searchMonitorMatches.$inferInsert;
+
+/**
+ * Apollo credit grants table - admin top-ups added to a user's budget for the month they're granted in
+ */
+export const apolloCreditGrants = mysqlTable("apolloCreditGrants", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  credits: int("credits").notNull(),
+  reason: varchar("reason", { length: 255 }),
+  grantedBy: int("grantedBy").notNull(), // Admin user id
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("apolloCreditGrants_user_idx").on(table.userId, table.createdAt),
+]);
+
+export type ApolloCreditGrant = typeof apolloCreditGrants.$inferSelect;
+export type InsertApolloCreditGrant = typeof apolloCreditGrants.$inferInsert;
+
+/**
+ * Discovery cache table - one lead source's page of results for a normalized search,
+ * shared between users so repeated searches don't spend credits again
+ */
+export const discoveryCache = mysqlTable("discoveryCache", {
+  id: int("id").autoincrement().primaryKey(),
+  cacheKey: varchar("cacheKey", { length: 64 }).notNull().unique(), // SHA-256 of source, user + normalized query, filters and page
+  source: varchar("source", { length: 32 }).notNull(),
+  results: text("results").notNull(), // JSON LeadSourcePage as the source returned it
+  creditsUsed: int("creditsUsed").default(0).notNull(), // What fetching it cost, i.e. what each hit saves
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  expiresAt: timestamp("expiresAt").notNull(),
+});
+
+export type DiscoveryCacheEntry = typeof discoveryCache.$inferSelect;
+export type InsertDiscoveryCacheEntry = typeof discoveryCache.$inferInsert;
+
+/**
+ * Discovery cache lookups table - every cache check made for a user's search, for hit rate reporting
+ */
+export const discoveryCacheLookups = mysqlTable("discoveryCacheLookups", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  source: varchar("source", { length: 32 }).notNull(),
+  hit: int("hit").default(0).notNull(), // 1 = served from the cache
+  creditsSaved: int("creditsSaved").default(0).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("discoveryCacheLookups_user_idx").on(table.userId, table.createdAt),
+]);
+
+export type DiscoveryCacheLookup = typeof discoveryCacheLookups.$inferSelect;
+export type InsertDiscoveryCacheLookup = typeof discoveryCacheLookups.$inferInsert;
+
 /**
  * Enrichment data table - stores additional enriched information about leads
  */
@@ -124,6 +447,44 @@ export const enrichmentData = mysqlTable("enrichmentData", {
 export type EnrichmentData = typeof enrichmentData.$inferSelect;
 export type InsertEnrichmentData = typeof enrichmentData.$inferInsert;
 
+/**
+ * Email deliverability checks table - the latest verification of each address by each mail
+ * resolver, shared between users so an address isn't probed again for every lead it's on
+ */
+export const emailDeliverabilityChecks = mysqlTable("emailDeliverabilityChecks", {
+  id: int("id").autoincrement().primaryKey(),
+  email: varchar("email", { length: 320 }).notNull(), // Lowercased
+  resolver: varchar("resolver", { length: 32 }).notNull(), // Which mail resolver checked it, see services/mailResolvers
+  status: mysqlEnum("status", EMAIL_STATUSES).notNull(),
+  reason: varchar("reason", { length: 255 }).notNull(),
+  mxHost: varchar("mxHost", { length: 255 }), // The mail server that was asked
+  checkedAt: timestamp("checkedAt").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("emailDeliverabilityChecks_email_resolver_idx").on(table.email, table.resolver),
+]);
+
+export type EmailDeliverabilityCheck = typeof emailDeliverabilityChecks.$inferSelect;
+export type InsertEmailDeliverabilityCheck = typeof emailDeliverabilityChecks.$inferInsert;
+
+/**
+ * Scoring models table - how each user's leads are scored; users without one get the default model
+ */
+export const scoringModels = mysqlTable("scoringModels", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  // Priority buckets are columns so the Leads page's priority filter can read them in SQL
+  highPriorityMin: int("highPriorityMin").notNull(),
+  mediumPriorityMin: int("mediumPriorityMin").notNull(),
+  settings: text("settings").notNull(), // JSON: weights, industries, technologies and company size scores
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("scoringModels_user_idx").on(table.userId),
+]);
+
+export type ScoringModelRow = typeof scoringModels.$inferSelect;
+export type InsertScoringModelRow = typeof scoringModels.$inferInsert;
+
 /**
  * Conversations table - stores sales conversations with leads
  */
@@ -202,6 +563,7 @@ export const sentEmails = mysqlTable("sentEmails", {
   id: int("id").autoincrement().primaryKey(),
   userId: int("userId").notNull(),
   leadId: int("leadId"), // Optional link to lead
+  contactId: int("contactId"), // The lead contact it was sent to
   conversationId: int("conversationId"), // Optional link to conversation
   templateId: int("templateId"), // Optional link to template used
   sequenceId: int("sequenceId"), // Optional link to email sequence
@@ -225,6 +587,7 @@ export const emailClicks = mysqlTable("emailClicks", {
   id: int("id").autoincrement().primaryKey(),
   sentEmailId: int("sentEmailId").notNull(),
   leadId: int("leadId"),
+  contactId: int("contactId"),
   originalUrl: text("originalUrl").notNull(),
   clickedAt: timestamp("clickedAt").defaultNow().notNull(),
   ipAddress: varchar("ipAddress", { length: 45 }),
@@ -242,6 +605,7 @@ export const emailOpens = mysqlTable("emailOpens", {
   id: int("id").autoincrement().primaryKey(),
   sentEmailId: int("sentEmailId").notNull(),
   leadId: int("leadId"),
+  contactId: int("contactId"),
   openedAt: timestamp("openedAt").defaultNow().notNull(),
   ipAddress: varchar("ipAddress", { length: 45 }),
   userAgent: text("userAgent"),
@@ -285,6 +649,7 @@ export const sequenceEnrollments = mysqlTable("sequenceEnrollments", {
   id: int("id").autoincrement().primaryKey(),
   sequenceId: int("sequenceId").notNull(),
   leadId: int("leadId").notNull(),
+  contactId: int("contactId"), // The lead contact the sequence emails
   currentStep: int("currentStep").default(0), // 0 = not started, 1+ = step number
   status: mysqlEnum("status", ["active", "completed", "paused", "failed"]).default("active"),
   enrolledAt: timestamp("enrolledAt").defaultNow().notNull(),
@@ -416,6 +781,7 @@ export const subscriptionPlans = mysqlTable("subscriptionPlans", {
   maxLeads: int("maxLeads"), // Maximum leads allowed, NULL = unlimited
   maxEmails: int("maxEmails"), // Maximum emails per month, NULL = unlimited
   maxSequences: int("maxSequences"), // Maximum sequences, NULL = unlimited
+  monthlyApolloCredits: int("monthlyApolloCredits"), // Apollo credits each user gets per month, NULL = APOLLO_CONFIG default for the tier
   isActive: int("isActive").default(1).notNull(), // 1 = active, 0 = archived
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../db", () => ({
+  getUserById: vi.fn(),
+  getSubscriptionPlanByTier: vi.fn(),
+  getApolloCreditGrantTotal: vi.fn(),
+  createApolloCreditGrant: vi.fn(),
+}));
+
+vi.mock("../services/apolloUsageTracker", () => ({
+  getMonthlyUsage: vi.fn(),
+}));
+
+import { createApolloCreditGrant, getApolloCreditGrantTotal, getSubscriptionPlanByTier, getUserById } from "../db";
+import { getMonthlyUsage } from "../services/apolloUsageTracker";
+import {
+  APOLLO_BUDGET_EXHAUSTED_MESSAGE,
+  assertApolloCreditsAvailable,
+  getApolloCreditBalance,
+  grantApolloCredits,
+} from "../services/apolloCreditQuota";
+import type { User } from "../../drizzle/schema";
+
+const proUser = { id: 7, subscriptionTier: "pro", apolloCreditLimit: null } as User;
+
+function usage(totalCreditsUsed: number) {
+  return { totalCalls: 0, totalCreditsUsed, successRate: 100, avgResponseTime: 0, callsByEndpoint: {} };
+}
+
+describe("Apollo credit quotas", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getSubscriptionPlanByTier).mockResolvedValue(undefined);
+    vi.mocked(getApolloCreditGrantTotal).mockResolvedValue(0);
+    vi.mocked(getMonthlyUsage).mockResolvedValue(usage(1200));
+  });
+
+  describe("getApolloCreditBalance", () => {
+    it("should give users their tier's default budget", async () => {
+      expect(await getApolloCreditBalance(proUser)).toEqual({
+        budget: 5000,
+        planBudget: 5000,
+        userLimit: null,
+        topUps: 0,
+        used: 1200,
+        remaining: 3800,
+      });
+    });
+
+    it("should prefer the plan's budget, then the user's own, and add top-ups", async () => {
+      vi.mocked(getSubscriptionPlanByTier).mockResolvedValue({ monthlyApolloCredits: 2000 } as never);
+      expect(await getApolloCreditBalance(proUser)).toMatchObject({ budget: 2000, remaining: 800 });
+
+      vi.mocked(getApolloCreditGrantTotal).mockResolvedValue(500);
+      expect(await getApolloCreditBalance({ ...proUser, apolloCreditLimit: 1000 })).toMatchObject({
+        budget: 1500,
+        planBudget: 2000,
+        userLimit: 1000,
+        topUps: 500,
+        remaining: 300,
+      });
+    });
+
+    it("should not report negative remaining credits after an overshoot", async () => {
+      vi.mocked(getMonthlyUsage).mockResolvedValue(usage(5010));
+
+      expect((await getApolloCreditBalance(proUser)).remaining).toBe(0);
+    });
+  });
+
+  describe("assertApolloCreditsAvailable", () => {
+    it("should refuse calls once the budget is spent", async () => {
+      vi.mocked(getUserById).mockResolvedValue(proUser);
+      await expect(assertApolloCreditsAvailable(7)).resolves.toBeUndefined();
+
+      vi.mocked(getMonthlyUsage).mockResolvedValue(usage(5000));
+      await expect(assertApolloCreditsAvailable(7)).rejects.toThrow(APOLLO_BUDGET_EXHAUSTED_MESSAGE);
+    });
+
+    it("should let calls through when spending can't be checked", async () => {
+      vi.mocked(getUserById).mockResolvedValue(proUser);
+      vi.mocked(getMonthlyUsage).mockRejectedValue(new Error("Database not available"));
+
+      await expect(assertApolloCreditsAvailable(7)).resolves.toBeUndefined();
+    });
+  });
+
+  describe("grantApolloCredits", () => {
+    it("should record the top-up and return the new balance", async () => {
+      vi.mocked(getUserById).mockResolvedValue(proUser);
+      vi.mocked(getApolloCreditGrantTotal).mockResolvedValue(250);
+
+      const balance = await grantApolloCredits(1, 7, 250, "Launch campaign");
+
+      expect(createApolloCreditGrant).toHaveBeenCalledWith({ userId: 7, credits: 250, reason: "Launch campaign", grantedBy: 1 });
+      expect(balance.remaining).toBe(4050);
+    });
+
+    it("should refuse unknown users", async () => {
+      vi.mocked(getUserById).mockResolvedValue(undefined);
+
+      await expect(grantApolloCredits(1, 99, 100)).rejects.toThrow("User not found");
+      expect(createApolloCreditGrant).not.toHaveBeenCalled();
+    });
+  });
+});
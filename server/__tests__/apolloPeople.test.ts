@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.hoisted(() => {
+  process.env.APOLLO_API_KEY = "test-key";
+});
+
+vi.mock("../services/apolloUsageTracker", () => ({
+  logApolloUsage: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock("../services/apolloCreditQuota", () => ({
+  assertApolloCreditsAvailable: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { logApolloUsage } from "../services/apolloUsageTracker";
+import { convertApolloOrgToLead, findDecisionMakers } from "../apollo";
+
+const fetchMock = vi.fn();
+vi.stubGlobal("fetch", fetchMock);
+
+function respond(data: unknown) {
+  return { ok: true, json: async () => data, text: async () => JSON.stringify(data) };
+}
+
+const acme = { id: "org-1", name: "Acme" };
+const globex = { id: "org-2", name: "Globex" };
+
+describe("Apollo decision makers", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should pick the most senior person at each organization and enrich them", async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond({
+        people: [
+          { id: "p1", name: "Dana Director", title: "Director of Sales", seniority: "director", organization_id: "org-1", email: "email_not_unlocked@acme.com" },
+          { id: "p2", name: "Carla Chief", title: "CEO", seniority: "c_suite", organization_id: "org-1", email: "email_not_unlocked@acme.com" },
+          { id: "p3", name: "Vic Vee", title: "VP Sales", seniority: "vp", organization_id: "org-2", email: "vic@globex.com" },
+        ],
+        pagination: { page: 1, per_page: 6, total_entries: 3, total_pages: 1 },
+      }))
+      .mockResolvedValueOnce(respond({ person: { id: "p2", email: "carla@acme.com" } }));
+
+    const { decisionMakers, creditsUsed } = await findDecisionMakers([acme, globex], 1);
+
+    const [searchUrl, searchInit] = fetchMock.mock.calls[0];
+    expect(searchUrl).toContain("/mixed_people/search");
+    expect(JSON.parse(searchInit.body)).toMatchObject({ organization_ids: ["org-1", "org-2"], per_page: 6 });
+
+    // Globex's VP already has an email, so only Acme's CEO is enriched
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1][0]).toContain("/people/match");
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toMatchObject({ id: "p2" });
+
+    expect(decisionMakers.get("org-1")).toMatchObject({ name: "Carla Chief", email: "carla@acme.com" });
+    expect(decisionMakers.get("org-2")).toMatchObject({ name: "Vic Vee" });
+    expect(creditsUsed).toBe(4);
+  });
+
+  it("should log people search and enrichment under their own endpoint and credit type", async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond({
+        people: [{ id: "p1", name: "Carla Chief", seniority: "c_suite", organization_id: "org-1" }],
+        pagination: { page: 1, per_page: 3, total_entries: 1, total_pages: 1 },
+      }))
+      .mockResolvedValueOnce(respond({ person: { id: "p1", email: "carla@acme.com" } }));
+
+    await findDecisionMakers([acme], 1);
+
+    expect(logApolloUsage).toHaveBeenCalledWith(expect.objectContaining({
+      endpoint: "/mixed_people/search",
+      requestType: "people_search",
+      resultsCount: 1,
+    }));
+    expect(logApolloUsage).toHaveBeenCalledWith(expect.objectContaining({
+      endpoint: "/people/match",
+      requestType: "enrichment",
+      creditsUsed: 1,
+    }));
+  });
+
+  it("should keep the searched person when enrichment fails", async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond({
+        people: [{ id: "p1", name: "Carla Chief", title: "CEO", seniority: "c_suite", organization_id: "org-1" }],
+        pagination: { page: 1, per_page: 3, total_entries: 1, total_pages: 1 },
+      }))
+      .mockResolvedValueOnce({ ok: false, status: 402, text: async () => "Insufficient credits" });
+
+    const { decisionMakers } = await findDecisionMakers([acme], 1);
+
+    expect(decisionMakers.get("org-1")).toMatchObject({ name: "Carla Chief", title: "CEO" });
+  });
+
+  it("should fill the lead's contact fields from the decision maker", () => {
+    const lead = convertApolloOrgToLead(acme, {
+      id: "p1",
+      first_name: "Carla",
+      last_name: "Chief",
+      title: "CEO",
+      email: "email_not_unlocked@acme.com",
+      linkedin_url: "https://linkedin.com/in/carla",
+      phone_numbers: [{ sanitized_number: "+15550100" }],
+    });
+
+    expect(lead).toMatchObject({
+      contactName: "Carla Chief",
+      contactTitle: "CEO",
+      contactEmail: "",
+      contactLinkedin: "https://linkedin.com/in/carla",
+      contactPhone: "+15550100",
+    });
+  });
+});
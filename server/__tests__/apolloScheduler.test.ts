@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from "vitest";
+import http from "http";
+import type { AddressInfo } from "net";
+
+vi.hoisted(() => {
+  process.env.APOLLO_API_KEY = "test-key";
+});
+
+vi.mock("../services/apolloUsageTracker", () => ({
+  logApolloUsage: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock("../services/apolloCreditQuota", () => ({
+  assertApolloCreditsAvailable: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { ApolloRequestScheduler, parseRetryAfter } from "../services/apolloScheduler";
+import { searchOrganizations } from "../apollo";
+
+/**
+ * A local stand-in for Apollo: each request gets the next scripted reply (200 once the script runs out)
+ */
+interface FakeReply {
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+let replies: FakeReply[] = [];
+let arrivals: number[] = [];
+let sentAt: number[] = []; // When the scheduler let each request go, free of network jitter
+let baseUrl = "";
+const server = http.createServer((req, res) => {
+  arrivals.push(Date.now());
+  req.resume();
+  req.on("end", () => {
+    const reply = replies.shift() ?? { status: 200, body: { organizations: [], pagination: {} } };
+    res.writeHead(reply.status, { "Content-Type": "application/json", ...reply.headers });
+    res.end(JSON.stringify(reply.body ?? {}));
+  });
+});
+
+const noLimits = { requestsPerSecond: 1000, requestsPerMinute: 1000, requestsPerHour: 1000, delayBetweenRequests: 0 };
+const quickRetries = { maxRetries: 2, baseDelayMs: 20, maxDelayMs: 50 };
+
+function request(scheduler: ApolloRequestScheduler) {
+  return scheduler.schedule(() => {
+    sentAt.push(Date.now());
+    return fetch(`${baseUrl}/organizations/search`, { method: "POST", body: "{}" });
+  });
+}
+
+describe("Apollo request scheduler", () => {
+  beforeAll(async () => {
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    delete process.env.APOLLO_API_BASE_URL;
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    replies = [];
+    arrivals = [];
+    sentAt = [];
+  });
+
+  it("should queue requests beyond the per-second limit instead of failing them", async () => {
+    const scheduler = new ApolloRequestScheduler({ ...noLimits, requestsPerSecond: 2 }, quickRetries);
+
+    const responses = await Promise.all(Array.from({ length: 3 }, () => request(scheduler)));
+
+    expect(responses.map(response => response.status)).toEqual([200, 200, 200]);
+    expect(sentAt[2] - sentAt[0]).toBeGreaterThanOrEqual(990);
+  });
+
+  it("should space requests by the configured delay", async () => {
+    const scheduler = new ApolloRequestScheduler({ ...noLimits, delayBetweenRequests: 150 }, quickRetries);
+
+    await Promise.all([request(scheduler), request(scheduler), request(scheduler)]);
+
+    expect(sentAt[1] - sentAt[0]).toBeGreaterThanOrEqual(145);
+    expect(sentAt[2] - sentAt[1]).toBeGreaterThanOrEqual(145);
+  });
+
+  it("should wait out Retry-After on a 429 before anything else is sent", async () => {
+    replies = [{ status: 429, headers: { "Retry-After": "1" } }];
+    const scheduler = new ApolloRequestScheduler(noLimits, quickRetries);
+
+    const first = request(scheduler);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    const second = request(scheduler);
+    const responses = await Promise.all([first, second]);
+
+    expect(responses.map(response => response.status)).toEqual([200, 200]);
+    expect(arrivals).toHaveLength(3);
+    expect(sentAt[1] - sentAt[0]).toBeGreaterThanOrEqual(990);
+    expect(sentAt[2] - sentAt[0]).toBeGreaterThanOrEqual(990);
+  });
+
+  it("should retry server errors with backoff and return the last response once retries run out", async () => {
+    replies = [{ status: 503 }, { status: 502 }, { status: 500 }, { status: 200 }];
+    const scheduler = new ApolloRequestScheduler(noLimits, quickRetries);
+
+    const response = await request(scheduler);
+
+    expect(response.status).toBe(500);
+    expect(arrivals).toHaveLength(3);
+    // Backoff is at least half of 20ms, then half of 40ms
+    expect(sentAt[1] - sentAt[0]).toBeGreaterThanOrEqual(8);
+    expect(sentAt[2] - sentAt[1]).toBeGreaterThanOrEqual(18);
+  });
+
+  it("should not retry client errors", async () => {
+    replies = [{ status: 402, body: { error: "Insufficient credits" } }];
+    const scheduler = new ApolloRequestScheduler(noLimits, quickRetries);
+
+    const response = await request(scheduler);
+
+    expect(response.status).toBe(402);
+    expect(arrivals).toHaveLength(1);
+  });
+
+  it("should read Retry-After as seconds or an HTTP date", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    expect(parseRetryAfter("2", now)).toBe(2000);
+    expect(parseRetryAfter("Thu, 01 Jan 2026 00:00:05 GMT", now)).toBe(5000);
+    expect(parseRetryAfter("soon", now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+  });
+
+  it("should carry an Apollo search through a rate limit", async () => {
+    process.env.APOLLO_API_BASE_URL = baseUrl;
+    replies = [
+      { status: 429, headers: { "Retry-After": "0" } },
+      { status: 200, body: { organizations: [{ id: "org-1", name: "Acme" }], pagination: { page: 1, total_pages: 1 } } },
+    ];
+
+    const result = await searchOrganizations({ query: "fintech" }, 1);
+
+    expect(result.organizations.map(org => org.name)).toEqual(["Acme"]);
+    expect(arrivals).toHaveLength(2);
+  });
+});
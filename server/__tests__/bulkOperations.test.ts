@@ -0,0 +1,312 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../db", () => ({
+  addBulkOperationLeads: vi.fn(),
+  addLeadTags: vi.fn(),
+  claimBulkOperationUndo: vi.fn(),
+  createBulkOperation: vi.fn(),
+  createLeadStatusChange: vi.fn(),
+  deleteLead: vi.fn(),
+  deleteSequenceEnrollments: vi.fn(),
+  getBulkOperationById: vi.fn(),
+  getBulkOperationLeads: vi.fn(),
+  getDb: vi.fn(),
+  getFilteredLeadIds: vi.fn(),
+  getLeadById: vi.fn(),
+  getLeadContacts: vi.fn(),
+  getLeadEngagementCounts: vi.fn(),
+  getLeadStatusHistory: vi.fn(),
+  getLeadTechnologies: vi.fn().mockResolvedValue([]),
+  getOwnedLeadIds: vi.fn(),
+  getOwnedLeads: vi.fn(),
+  getScoringModelRow: vi.fn(),
+  getSequenceEnrolledLeadIds: vi.fn(),
+  getSequencesByUser: vi.fn(),
+  getTagsForLeads: vi.fn(),
+  getUserBulkOperations: vi.fn(),
+  getUserByEmail: vi.fn(),
+  getUserTags: vi.fn(),
+  isTeammate: vi.fn(),
+  removeLeadTags: vi.fn(),
+  restoreDeletedLead: vi.fn(),
+  setLeadsOwner: vi.fn(),
+  updateBulkOperation: vi.fn(),
+  updateLead: vi.fn(),
+  updateLeadScore: vi.fn(),
+}));
+
+vi.mock("../services/sequenceEnrollment", () => ({
+  enrollLeadInSequence: vi.fn(),
+}));
+
+vi.mock("../services/customFields", () => ({
+  getUserCustomFields: vi.fn().mockResolvedValue([]),
+}));
+
+import {
+  addBulkOperationLeads,
+  addLeadTags,
+  claimBulkOperationUndo,
+  createBulkOperation,
+  createLeadStatusChange,
+  getBulkOperationById,
+  getBulkOperationLeads,
+  getFilteredLeadIds,
+  getLeadById,
+  getOwnedLeadIds,
+  getOwnedLeads,
+  getTagsForLeads,
+  getUserByEmail,
+  getUserTags,
+  isTeammate,
+  restoreDeletedLead,
+  setLeadsOwner,
+  updateBulkOperation,
+  updateLead,
+} from "../db";
+import {
+  BULK_UNDO_WINDOW_MS,
+  getBulkExportDownload,
+  runBulkOperation,
+  startBulkOperation,
+  undoBulkOperation,
+} from "../services/bulkOperations";
+import type { BulkOperation, Lead } from "../../drizzle/schema";
+
+function lead(id: number, overrides: Partial<Lead> = {}) {
+  return { id, userId: 1, companyName: `Company ${id}`, status: "new", score: 50, ...overrides } as Lead;
+}
+
+function operation(overrides: Partial<BulkOperation> = {}): BulkOperation {
+  return {
+    id: 7,
+    userId: 1,
+    action: "status",
+    params: JSON.stringify({ type: "status", status: "qualified" }),
+    status: "completed",
+    totalCount: 2,
+    processedCount: 2,
+    failedCount: 0,
+    error: null,
+    undoExpiresAt: new Date(Date.now() + 60_000),
+    createdAt: new Date(),
+    completedAt: new Date(),
+    undoneAt: null,
+    ...overrides,
+  };
+}
+
+describe("Bulk operations", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getOwnedLeadIds).mockImplementation(async (_userId, ids) => ids);
+    vi.mocked(createBulkOperation).mockResolvedValue(7);
+    vi.mocked(claimBulkOperationUndo).mockResolvedValue(true);
+    vi.mocked(getOwnedLeads).mockResolvedValue([]);
+  });
+
+  describe("startBulkOperation", () => {
+    it("should refuse picked leads the user does not own", async () => {
+      vi.mocked(getOwnedLeadIds).mockResolvedValue([10]);
+
+      await expect(startBulkOperation(1, { leadIds: [10, 11] }, { type: "delete" })).rejects.toThrow("access denied");
+      expect(createBulkOperation).not.toHaveBeenCalled();
+    });
+
+    it("should target every lead matching the filters", async () => {
+      vi.mocked(getFilteredLeadIds).mockResolvedValue([10, 11, 12]);
+
+      const result = await startBulkOperation(1, { filters: { status: "new", sortBy: "recent" } }, { type: "recalculateScore" });
+
+      expect(result).toEqual({ id: 7, totalCount: 3 });
+      expect(createBulkOperation).toHaveBeenCalledWith({
+        userId: 1,
+        action: "recalculateScore",
+        params: JSON.stringify({ type: "recalculateScore" }),
+        totalCount: 3,
+      });
+    });
+
+    it("should check the action before creating the operation", async () => {
+      vi.mocked(getUserTags).mockResolvedValue([{ id: 1, name: "SaaS", color: "#3b82f6", leadCount: 0 }]);
+      await expect(startBulkOperation(1, { leadIds: [10] }, { type: "tag", mode: "add", tagIds: [2] })).rejects.toThrow("Tag not found");
+
+      vi.mocked(getUserByEmail).mockResolvedValue({ id: 1 } as never);
+      await expect(startBulkOperation(1, { leadIds: [10] }, { type: "assignOwner", email: "me@example.com" })).rejects.toThrow("already yours");
+
+      expect(createBulkOperation).not.toHaveBeenCalled();
+    });
+
+    it("should only assign leads to teammates or admins", async () => {
+      vi.mocked(getUserByEmail).mockResolvedValue({ id: 2, role: "user" } as never);
+      vi.mocked(isTeammate).mockResolvedValue(false);
+      await expect(startBulkOperation(1, { leadIds: [10] }, { type: "assignOwner", email: "stranger@example.com" })).rejects.toThrow("teammate");
+      expect(createBulkOperation).not.toHaveBeenCalled();
+
+      vi.mocked(isTeammate).mockResolvedValue(true);
+      await startBulkOperation(1, { leadIds: [10] }, { type: "assignOwner", email: "dana@example.com" });
+      expect(isTeammate).toHaveBeenCalledWith(1, 2);
+      expect(createBulkOperation).toHaveBeenLastCalledWith(expect.objectContaining({
+        params: JSON.stringify({ type: "assignOwner", email: "dana@example.com", ownerId: 2 }),
+      }));
+
+      vi.mocked(isTeammate).mockClear();
+      vi.mocked(getUserByEmail).mockResolvedValue({ id: 3, role: "admin" } as never);
+      await startBulkOperation(1, { leadIds: [10] }, { type: "assignOwner", email: "admin@example.com" });
+      expect(isTeammate).not.toHaveBeenCalled();
+      expect(createBulkOperation).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("runBulkOperation", () => {
+    it("should record each lead's outcome and open the undo window", async () => {
+      vi.mocked(getOwnedLeads).mockResolvedValue([lead(10), lead(11, { status: "qualified" })]);
+
+      await runBulkOperation(7, 1, { type: "status", status: "qualified" }, [10, 11, 12]);
+
+      expect(updateLead).toHaveBeenCalledTimes(1);
+      expect(updateLead).toHaveBeenCalledWith(10, 1, { status: "qualified" });
+      expect(createLeadStatusChange).toHaveBeenCalledWith(expect.objectContaining({
+        leadId: 10,
+        previousStatus: "new",
+        newStatus: "qualified",
+        metadata: JSON.stringify({ bulkOperationId: 7 }),
+      }));
+      expect(addBulkOperationLeads).toHaveBeenCalledWith(7, [
+        { leadId: 10, outcome: "succeeded", undoData: JSON.stringify({ status: "new" }) },
+        { leadId: 11, outcome: "skipped", error: "Already qualified" },
+        { leadId: 12, outcome: "failed", error: "Lead not found or access denied" },
+      ]);
+
+      const [, finished] = vi.mocked(updateBulkOperation).mock.calls.at(-1)!;
+      expect(finished.status).toBe("completed");
+      expect(finished.undoExpiresAt!.getTime() - finished.completedAt!.getTime()).toBe(BULK_UNDO_WINDOW_MS);
+    });
+
+    it("should report leads whose change throws as failed and carry on", async () => {
+      vi.mocked(getOwnedLeads).mockResolvedValue([lead(10), lead(11)]);
+      vi.mocked(updateLead).mockRejectedValueOnce(new Error("Deadlock"));
+
+      await runBulkOperation(7, 1, { type: "status", status: "contacted" }, [10, 11]);
+
+      expect(addBulkOperationLeads).toHaveBeenCalledWith(7, [
+        { leadId: 10, outcome: "failed", error: "Deadlock" },
+        { leadId: 11, outcome: "succeeded", undoData: JSON.stringify({ status: "new" }) },
+      ]);
+    });
+
+    it("should only remember the tags a lead didn't already have", async () => {
+      vi.mocked(getOwnedLeads).mockResolvedValue([lead(10)]);
+      vi.mocked(getTagsForLeads).mockResolvedValue(new Map([[10, [{ id: 1, name: "SaaS", color: "#3b82f6" }]]]));
+
+      await runBulkOperation(7, 1, { type: "tag", mode: "add", tagIds: [1, 2] }, [10]);
+
+      expect(addLeadTags).toHaveBeenCalledWith([{ leadId: 10, tagId: 2 }]);
+      expect(addBulkOperationLeads).toHaveBeenCalledWith(7, [
+        { leadId: 10, outcome: "succeeded", undoData: JSON.stringify({ tagIds: [2] }) },
+      ]);
+    });
+
+    it("should hand leads over without the previous owner's tags", async () => {
+      vi.mocked(getOwnedLeads).mockResolvedValue([lead(10)]);
+      vi.mocked(getTagsForLeads).mockResolvedValue(new Map([[10, [{ id: 1, name: "SaaS", color: "#3b82f6" }]]]));
+
+      await runBulkOperation(7, 1, { type: "assignOwner", email: "dana@example.com", ownerId: 2 }, [10]);
+
+      expect(setLeadsOwner).toHaveBeenCalledWith([10], 1, 2);
+      expect(addBulkOperationLeads).toHaveBeenCalledWith(7, [
+        { leadId: 10, outcome: "succeeded", undoData: JSON.stringify({ tagIds: [1] }) },
+      ]);
+    });
+
+    it("should leave exports without an undo window", async () => {
+      vi.mocked(getOwnedLeads).mockResolvedValue([lead(10)]);
+
+      await runBulkOperation(7, 1, { type: "export", format: "csv" }, [10]);
+
+      expect(updateBulkOperation).toHaveBeenLastCalledWith(7, expect.objectContaining({ status: "completed", undoExpiresAt: null }));
+    });
+
+    it("should mark the operation failed when it can't continue", async () => {
+      vi.mocked(getOwnedLeads).mockRejectedValue(new Error("Connection lost"));
+
+      await runBulkOperation(7, 1, { type: "delete" }, [10]);
+
+      expect(updateBulkOperation).toHaveBeenLastCalledWith(7, expect.objectContaining({ status: "failed", error: "Connection lost" }));
+    });
+  });
+
+  describe("undoBulkOperation", () => {
+    it("should restore leads that haven't changed since", async () => {
+      vi.mocked(getBulkOperationById).mockResolvedValue(operation());
+      vi.mocked(getBulkOperationLeads).mockResolvedValue([
+        { id: 1, operationId: 7, leadId: 10, outcome: "succeeded", error: null, undoData: JSON.stringify({ status: "new" }) },
+        { id: 2, operationId: 7, leadId: 11, outcome: "succeeded", error: null, undoData: JSON.stringify({ status: "contacted" }) },
+      ]);
+      vi.mocked(getLeadById).mockImplementation(async (id) =>
+        id === 10 ? lead(10, { status: "qualified" }) : lead(11, { status: "won" })
+      );
+
+      const result = await undoBulkOperation(1, 7);
+
+      expect(result).toEqual({ restored: 1, unchanged: 1 });
+      expect(updateLead).toHaveBeenCalledTimes(1);
+      expect(updateLead).toHaveBeenCalledWith(10, 1, { status: "new" });
+      expect(claimBulkOperationUndo).toHaveBeenCalledWith(7, expect.any(Date));
+    });
+
+    it("should bring back deleted leads", async () => {
+      const snapshot = { lead: lead(10), tagIds: [1], statusHistory: [] };
+      vi.mocked(getBulkOperationById).mockResolvedValue(operation({ action: "delete", params: JSON.stringify({ type: "delete" }) }));
+      vi.mocked(getBulkOperationLeads).mockResolvedValue([
+        { id: 1, operationId: 7, leadId: 10, outcome: "succeeded", error: null, undoData: JSON.stringify(snapshot) },
+      ]);
+      vi.mocked(getOwnedLeadIds).mockResolvedValue([]);
+
+      await undoBulkOperation(1, 7);
+
+      expect(restoreDeletedLead).toHaveBeenCalledWith(JSON.parse(JSON.stringify(snapshot)));
+    });
+
+    it("should refuse once the undo window has closed", async () => {
+      vi.mocked(getBulkOperationById).mockResolvedValue(operation({ undoExpiresAt: new Date(Date.now() - 1000) }));
+
+      await expect(undoBulkOperation(1, 7)).rejects.toThrow("can no longer be undone");
+      expect(claimBulkOperationUndo).not.toHaveBeenCalled();
+    });
+
+    it("should only undo once when two undos race", async () => {
+      vi.mocked(getBulkOperationById).mockResolvedValue(operation());
+      vi.mocked(claimBulkOperationUndo).mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+      vi.mocked(getBulkOperationLeads).mockResolvedValue([
+        { id: 1, operationId: 7, leadId: 10, outcome: "succeeded", error: null, undoData: JSON.stringify({ status: "new" }) },
+      ]);
+      vi.mocked(getLeadById).mockResolvedValue(lead(10, { status: "qualified" }));
+
+      const results = await Promise.allSettled([undoBulkOperation(1, 7), undoBulkOperation(1, 7)]);
+
+      expect(results.map(result => result.status)).toEqual(["fulfilled", "rejected"]);
+      expect(updateLead).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not reveal other users' operations", async () => {
+      vi.mocked(getBulkOperationById).mockResolvedValue(operation({ userId: 2 }));
+
+      await expect(undoBulkOperation(1, 7)).rejects.toThrow("Bulk operation not found");
+    });
+  });
+
+  describe("getBulkExportDownload", () => {
+    it("should only offer a download for finished exports", async () => {
+      vi.mocked(getBulkOperationById).mockResolvedValue(operation());
+      await expect(getBulkExportDownload(1, 7)).rejects.toThrow("Only export operations");
+
+      vi.mocked(getBulkOperationById).mockResolvedValue(operation({
+        action: "export",
+        params: JSON.stringify({ type: "export", format: "xlsx" }),
+        status: "running",
+      }));
+      await expect(getBulkExportDownload(1, 7)).rejects.toThrow("hasn't finished");
+    });
+  });
+});
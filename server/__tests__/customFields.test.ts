@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../db", () => ({
+  createCustomFieldDefinition: vi.fn(),
+  getCustomFieldDefinitions: vi.fn(),
+  updateCustomFieldDefinition: vi.fn(),
+}));
+
+import { createCustomFieldDefinition, getCustomFieldDefinitions } from "../db";
+import {
+  compareCustomFieldValues,
+  matchesCustomFieldFilter,
+  normalizeCustomFieldValue,
+  toFieldKey,
+  type CustomFieldDefinition,
+} from "../../shared/customFields";
+import { createCustomField, resolveCustomFieldValues } from "../services/customFields";
+import { buildTemplateVariables, renderTemplate } from "../services/templateVariables";
+
+function makeField(overrides: Partial<CustomFieldDefinition>): CustomFieldDefinition {
+  return {
+    id: 1,
+    fieldKey: "field",
+    label: "Field",
+    fieldType: "text",
+    options: [],
+    currency: null,
+    position: 0,
+    ...overrides,
+  };
+}
+
+const dealSize = makeField({ id: 1, fieldKey: "deal_size", label: "Deal Size", fieldType: "currency", currency: "USD" });
+const tier = makeField({ id: 2, fieldKey: "tier", label: "Tier", fieldType: "single_select", options: ["Bronze", "Gold"] });
+const regions = makeField({ id: 3, fieldKey: "regions", label: "Regions", fieldType: "multi_select", options: ["EMEA", "APAC", "NA"] });
+const renewal = makeField({ id: 4, fieldKey: "renewal", label: "Renewal", fieldType: "date" });
+
+describe("Custom Fields", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("toFieldKey", () => {
+    it("should derive snake_case keys that start with a letter", () => {
+      expect(toFieldKey("Contract Value ($)")).toBe("contract_value");
+      expect(toFieldKey("2026 Budget")).toBe("field_2026_budget");
+    });
+  });
+
+  describe("normalizeCustomFieldValue", () => {
+    it("should parse formatted numbers and round currency to cents", () => {
+      expect(normalizeCustomFieldValue(dealSize, "$1,200.505")).toEqual({ ok: true, value: 1200.51 });
+      expect(normalizeCustomFieldValue(dealSize, "lots").ok).toBe(false);
+    });
+
+    it("should match select options case-insensitively", () => {
+      expect(normalizeCustomFieldValue(tier, "gold")).toEqual({ ok: true, value: "Gold" });
+      expect(normalizeCustomFieldValue(tier, "Silver").ok).toBe(false);
+      expect(normalizeCustomFieldValue(regions, "emea; NA, emea")).toEqual({ ok: true, value: ["EMEA", "NA"] });
+    });
+
+    it("should store dates as YYYY-MM-DD and reject impossible dates", () => {
+      expect(normalizeCustomFieldValue(renewal, "2026-03-01")).toEqual({ ok: true, value: "2026-03-01" });
+      expect(normalizeCustomFieldValue(renewal, "2026-02-30").ok).toBe(false);
+    });
+
+    it("should add a protocol to bare URLs", () => {
+      const url = makeField({ fieldType: "url" });
+      expect(normalizeCustomFieldValue(url, "acme.com/pricing")).toEqual({ ok: true, value: "https://acme.com/pricing" });
+      expect(normalizeCustomFieldValue(url, "not a url").ok).toBe(false);
+    });
+
+    it("should treat blank values as clearing the field", () => {
+      expect(normalizeCustomFieldValue(dealSize, "  ")).toEqual({ ok: true, value: null });
+      expect(normalizeCustomFieldValue(regions, [])).toEqual({ ok: true, value: null });
+    });
+  });
+
+  describe("filtering and sorting", () => {
+    it("should filter by option, range and emptiness", () => {
+      expect(matchesCustomFieldFilter(regions, ["EMEA", "NA"], { key: "regions", value: "na" })).toBe(true);
+      expect(matchesCustomFieldFilter(dealSize, 5000, { key: "deal_size", min: "1000", max: "4000" })).toBe(false);
+      expect(matchesCustomFieldFilter(renewal, "2026-03-01", { key: "renewal", min: "2026-01-01" })).toBe(true);
+      expect(matchesCustomFieldFilter(tier, undefined, { key: "tier", value: "Gold" })).toBe(false);
+      expect(matchesCustomFieldFilter(tier, undefined, { key: "tier" })).toBe(true);
+    });
+
+    it("should sort numbers numerically with empty values last", () => {
+      const values = [undefined, 900, 10000, 50];
+      expect([...values].sort((a, b) => compareCustomFieldValues(dealSize, a, b, "desc"))).toEqual([10000, 900, 50, undefined]);
+      expect([...values].sort((a, b) => compareCustomFieldValues(dealSize, a, b))).toEqual([50, 900, 10000, undefined]);
+    });
+  });
+
+  describe("resolveCustomFieldValues", () => {
+    it("should merge new values into existing ones and clear blanks", () => {
+      const json = resolveCustomFieldValues(
+        [dealSize, tier],
+        { deal_size: "2500", tier: null },
+        '{"tier":"Gold","retired_field":"kept"}'
+      );
+      expect(JSON.parse(json!)).toEqual({ deal_size: 2500, retired_field: "kept" });
+    });
+
+    it("should reject unknown fields and invalid values", () => {
+      expect(() => resolveCustomFieldValues([tier], { tier: "Silver", other: "x" }))
+        .toThrow(/Tier: .*Silver.*; Unknown custom field "other"/);
+    });
+  });
+
+  describe("createCustomField", () => {
+    it("should give a new field a unique key after existing ones", async () => {
+      vi.mocked(getCustomFieldDefinitions).mockResolvedValue([
+        { id: 1, userId: 1, fieldKey: "tier", label: "Old Tier", fieldType: "text", options: null, currency: null, position: 3 },
+      ] as any);
+
+      await createCustomField(1, { label: "Tier", fieldType: "single_select", options: ["Gold", " Gold ", "Bronze"] });
+
+      expect(createCustomFieldDefinition).toHaveBeenCalledWith(expect.objectContaining({
+        fieldKey: "tier_2",
+        options: '["Gold","Bronze"]',
+        position: 4,
+      }));
+    });
+
+    it("should reject duplicate names and select fields without options", async () => {
+      vi.mocked(getCustomFieldDefinitions).mockResolvedValue([
+        { id: 1, userId: 1, fieldKey: "tier", label: "Tier", fieldType: "text", options: null, currency: null, position: 0 },
+      ] as any);
+
+      await expect(createCustomField(1, { label: "tier", fieldType: "text" })).rejects.toThrow("already exists");
+      await expect(createCustomField(1, { label: "Plan", fieldType: "single_select" })).rejects.toThrow("at least one option");
+      expect(createCustomFieldDefinition).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("template variables", () => {
+    it("should fill lead and custom field placeholders and keep unknown ones", () => {
+      const variables = buildTemplateVariables({
+        companyName: "Acme",
+        website: null,
+        industry: null,
+        location: null,
+        contactName: "Jane van Dyke",
+        contactTitle: null,
+        contactEmail: null,
+        customFields: '{"deal_size":1200,"regions":["EMEA","NA"]}',
+      }, [dealSize, regions, tier]);
+
+      expect(renderTemplate(
+        "Hi {{firstName}} {{ lastName }}, {{companyName}} at {{custom.deal_size}} in {{custom.regions}}{{custom.tier}} {{unknown}}",
+        variables
+      )).toBe("Hi Jane van Dyke, Acme at $1,200.00 in EMEA, NA {{unknown}}");
+    });
+  });
+});
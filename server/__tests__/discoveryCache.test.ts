@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("../db", () => ({
+  getDiscoveryCacheEntry: vi.fn(),
+  saveDiscoveryCacheEntry: vi.fn(),
+  recordDiscoveryCacheLookup: vi.fn(),
+}));
+
+import { getDiscoveryCacheEntry, recordDiscoveryCacheLookup, saveDiscoveryCacheEntry } from "../db";
+import { discoveryCacheKey, searchWithCache } from "../services/discoveryCache";
+import type { LeadSource, LeadSourcePage, LeadSourceQuery } from "../services/leadSources";
+
+const source = { id: "apollo", cacheable: true } as LeadSource;
+const query: LeadSourceQuery = { query: "SaaS companies, Austin", industry: "Technology", page: 1, perPage: 10 };
+const fresh: LeadSourcePage = {
+  leads: [{ source: "apollo", companyName: "Acme" } as LeadSourcePage["leads"][number]],
+  hasMore: true,
+  totalResults: 40,
+  creditsUsed: 3,
+};
+
+describe("Discovery cache", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.DISCOVERY_CACHE_TTL_HOURS;
+  });
+
+  afterEach(() => {
+    delete process.env.DISCOVERY_CACHE_TTL_HOURS;
+  });
+
+  it("should key near identical searches the same and different filters apart", () => {
+    const key = discoveryCacheKey("apollo", 1, query);
+
+    expect(discoveryCacheKey("apollo", 1, { ...query, query: "  saas companies austin ", industry: "technology" })).toBe(key);
+    expect(discoveryCacheKey("apollo", 1, { ...query, location: "Boston" })).not.toBe(key);
+    expect(discoveryCacheKey("apollo", 1, { ...query, page: 2 })).not.toBe(key);
+    expect(discoveryCacheKey("llm", 1, query)).not.toBe(key);
+  });
+
+  it("should keep each user's results to themselves", () => {
+    expect(discoveryCacheKey("apollo", 2, query)).not.toBe(discoveryCacheKey("apollo", 1, query));
+  });
+
+  it("should serve a hit without searching and record the credits it saved", async () => {
+    const cachedAt = new Date("2026-01-01T00:00:00Z");
+    vi.mocked(getDiscoveryCacheEntry).mockResolvedValue({ results: JSON.stringify(fresh), creditsUsed: 3, createdAt: cachedAt } as never);
+    const search = vi.fn();
+
+    const page = await searchWithCache(source, 1, query, false, search);
+
+    expect(search).not.toHaveBeenCalled();
+    expect(page).toMatchObject({ totalResults: 40, creditsUsed: 0, cachedAt });
+    expect(recordDiscoveryCacheLookup).toHaveBeenCalledWith({ userId: 1, source: "apollo", hit: 1, creditsSaved: 3 });
+  });
+
+  it("should search and store the results on a miss", async () => {
+    vi.mocked(getDiscoveryCacheEntry).mockResolvedValue(undefined);
+    process.env.DISCOVERY_CACHE_TTL_HOURS = "2";
+
+    const page = await searchWithCache(source, 1, query, false, async () => fresh);
+
+    expect(page).toMatchObject({ creditsUsed: 3, cachedAt: null });
+    expect(recordDiscoveryCacheLookup).toHaveBeenCalledWith({ userId: 1, source: "apollo", hit: 0, creditsSaved: 0 });
+    const [entry] = vi.mocked(saveDiscoveryCacheEntry).mock.calls[0];
+    expect(entry).toMatchObject({ cacheKey: discoveryCacheKey("apollo", 1, query), source: "apollo", creditsUsed: 3 });
+    expect(entry.expiresAt.getTime() - Date.now()).toBeGreaterThan(60 * 60 * 1000);
+    expect(entry.expiresAt.getTime() - Date.now()).toBeLessThanOrEqual(2 * 60 * 60 * 1000);
+  });
+
+  it("should skip the lookup but refresh the entry when forced", async () => {
+    const page = await searchWithCache(source, 1, query, true, async () => fresh);
+
+    expect(getDiscoveryCacheEntry).not.toHaveBeenCalled();
+    expect(recordDiscoveryCacheLookup).not.toHaveBeenCalled();
+    expect(saveDiscoveryCacheEntry).toHaveBeenCalled();
+    expect(page.cachedAt).toBeNull();
+  });
+
+  it("should bypass the cache for free sources or when the TTL is zero", async () => {
+    await searchWithCache({ ...source, cacheable: false }, 1, query, false, async () => fresh);
+    process.env.DISCOVERY_CACHE_TTL_HOURS = "0";
+    await searchWithCache(source, 1, query, false, async () => fresh);
+
+    expect(getDiscoveryCacheEntry).not.toHaveBeenCalled();
+    expect(saveDiscoveryCacheEntry).not.toHaveBeenCalled();
+  });
+
+  it("should still search when the cache is unavailable", async () => {
+    vi.mocked(getDiscoveryCacheEntry).mockRejectedValue(new Error("Database not available"));
+    vi.mocked(saveDiscoveryCacheEntry).mockRejectedValue(new Error("Database not available"));
+
+    const page = await searchWithCache(source, 1, query, false, async () => fresh);
+
+    expect(page.leads).toHaveLength(1);
+  });
+});
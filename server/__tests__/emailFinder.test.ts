@@ -0,0 +1,261 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../db", () => ({
+  getEmailDeliverabilityChecks: vi.fn(),
+  saveEmailDeliverabilityChecks: vi.fn(),
+  getLeadById: vi.fn(),
+  updateLead: vi.fn(),
+}));
+
+import { getEmailDeliverabilityChecks, getLeadById, saveEmailDeliverabilityChecks, updateLead } from "../db";
+import {
+  assertDeliverable,
+  checkEmails,
+  emailCandidates,
+  findContactEmail,
+  isValidEmailSyntax,
+  verifyEmails,
+} from "../services/emailFinder";
+import type { MailResolver, SmtpReply } from "../services/mailResolvers";
+import type { EmailDeliverabilityCheck, Lead, User } from "../../drizzle/schema";
+
+const user = { id: 7, name: "Dana", email: "dana@example.com", useRealData: 0 } as User;
+
+/**
+ * A mail server that knows some mailboxes; everything else gets the default reply
+ */
+function fakeResolver(options: {
+  mx?: Record<string, string[]>;
+  mailboxes?: Record<string, SmtpReply>;
+  otherwise?: SmtpReply;
+  failLookup?: boolean;
+} = {}) {
+  const resolver = {
+    id: "fake",
+    resolveMx: vi.fn(async (domain: string) => {
+      if (options.failLookup) throw new Error("SERVFAIL");
+      return (options.mx?.[domain] ?? [`mx.${domain}`]).map((exchange, index) => ({ exchange, priority: index * 10 }));
+    }),
+    probeMailboxes: vi.fn(async (_host: string, addresses: string[]) =>
+      addresses.map(address => options.mailboxes?.[address] ?? options.otherwise ?? { code: 550, message: "5.1.1 User unknown" })),
+  } satisfies MailResolver;
+  return resolver;
+}
+
+function lead(overrides: Partial<Lead> = {}) {
+  return {
+    id: 1,
+    userId: 7,
+    companyName: "Acme",
+    website: "https://www.acme.com/about",
+    contactName: "Jane Doe",
+    contactEmail: null,
+    ...overrides,
+  } as Lead;
+}
+
+function cached(email: string, status: EmailDeliverabilityCheck["status"], ageDays: number) {
+  return {
+    id: 1,
+    email,
+    resolver: "sample",
+    status,
+    reason: "Checked earlier",
+    mxHost: null,
+    checkedAt: new Date(Date.now() - ageDays * 24 * 60 * 60 * 1000),
+  } as EmailDeliverabilityCheck;
+}
+
+describe("Email Finder", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getEmailDeliverabilityChecks).mockResolvedValue([]);
+    vi.mocked(saveEmailDeliverabilityChecks).mockResolvedValue(undefined);
+  });
+
+  describe("Candidates", () => {
+    it("should build addresses from common patterns, most likely first", () => {
+      expect(emailCandidates("Jane Doe", "acme.com")).toEqual([
+        { email: "jane.doe@acme.com", pattern: "first.last" },
+        { email: "jane@acme.com", pattern: "first" },
+        { email: "janedoe@acme.com", pattern: "firstlast" },
+        { email: "jdoe@acme.com", pattern: "flast" },
+        { email: "j.doe@acme.com", pattern: "f.last" },
+        { email: "jane_doe@acme.com", pattern: "first_last" },
+        { email: "janed@acme.com", pattern: "firstl" },
+        { email: "doe.jane@acme.com", pattern: "last.first" },
+        { email: "doe@acme.com", pattern: "last" },
+      ]);
+    });
+
+    it("should spell names the way addresses do", () => {
+      const emails = emailCandidates("Dr. José O'Brien-Smith Jr.", "acme.com").map(candidate => candidate.email);
+      expect(emails[0]).toBe("jose.obriensmith@acme.com");
+      expect(emails).toContain("jobriensmith@acme.com");
+    });
+
+    it("should only use a first name when that's all there is", () => {
+      expect(emailCandidates("Cher", "acme.com")).toEqual([{ email: "cher@acme.com", pattern: "first" }]);
+      expect(emailCandidates("  ", "acme.com")).toEqual([]);
+    });
+
+    it("should check address syntax", () => {
+      expect(isValidEmailSyntax("jane.doe@acme.com")).toBe(true);
+      expect(isValidEmailSyntax("jane doe@acme.com")).toBe(false);
+      expect(isValidEmailSyntax("jane@acme")).toBe(false);
+      expect(isValidEmailSyntax(`${"a".repeat(65)}@acme.com`)).toBe(false);
+    });
+  });
+
+  describe("Checks", () => {
+    it("should mark mailboxes the server accepts as valid and ones it rejects as invalid", async () => {
+      const resolver = fakeResolver({ mailboxes: { "jane@acme.com": { code: 250, message: "2.1.5 OK" } } });
+      const [jane, nobody] = await checkEmails(["jane@acme.com", "nobody@acme.com"], resolver);
+
+      expect(jane).toMatchObject({ status: "valid", mxHost: "mx.acme.com" });
+      expect(nobody).toMatchObject({ status: "invalid" });
+      expect(nobody.reason).toContain("550 5.1.1 User unknown");
+    });
+
+    it("should ask each domain's preferred mail server once for all its addresses", async () => {
+      const resolver = fakeResolver({ mx: { "acme.com": ["mx1.acme.com", "mx2.acme.com"] } });
+      await checkEmails(["a@acme.com", "b@acme.com", "c@other.com"], resolver);
+
+      expect(resolver.resolveMx).toHaveBeenCalledTimes(2);
+      expect(resolver.probeMailboxes).toHaveBeenCalledTimes(2);
+      const [host, addresses] = resolver.probeMailboxes.mock.calls[0];
+      expect(host).toBe("mx1.acme.com");
+      // Plus one made-up address to tell whether the domain takes everything
+      expect(addresses.slice(0, 2)).toEqual(["a@acme.com", "b@acme.com"]);
+      expect(addresses).toHaveLength(3);
+    });
+
+    it("should mark addresses at a catch-all domain as risky", async () => {
+      const resolver = fakeResolver({ otherwise: { code: 250, message: "OK" } });
+      const [check] = await checkEmails(["jane@acme.com"], resolver);
+
+      expect(check.status).toBe("risky");
+      expect(check.reason).toContain("any address");
+    });
+
+    it("should mark shared inboxes as risky", async () => {
+      const resolver = fakeResolver({ mailboxes: { "sales@acme.com": { code: 250, message: "OK" } } });
+      const [check] = await checkEmails(["sales@acme.com"], resolver);
+      expect(check.status).toBe("risky");
+    });
+
+    it("should mark domains without mail servers and malformed addresses as invalid", async () => {
+      const resolver = fakeResolver({ mx: { "parked.com": [] } });
+      const [parked, malformed] = await checkEmails(["jane@parked.com", "jane@@acme.com"], resolver);
+
+      expect(parked).toMatchObject({ status: "invalid", reason: "parked.com doesn't accept email" });
+      expect(malformed).toMatchObject({ status: "invalid", reason: "Not a valid email address" });
+      expect(resolver.probeMailboxes).not.toHaveBeenCalled();
+    });
+
+    it("should leave addresses unknown when the server won't say", async () => {
+      const resolver = fakeResolver({
+        mailboxes: {
+          "greylisted@acme.com": { code: 451, message: "4.7.1 Try again later" },
+          "blocked@acme.com": { code: 550, message: "5.7.1 Client host rejected" },
+          "silent@acme.com": { code: null, message: "The mail server didn't answer in time" },
+        },
+      });
+      const checks = await checkEmails(["greylisted@acme.com", "blocked@acme.com", "silent@acme.com"], resolver);
+
+      expect(checks.map(check => check.status)).toEqual(["unknown", "unknown", "unknown"]);
+      expect(checks[2].reason).toBe("The mail server didn't answer in time");
+    });
+
+    it("should leave addresses unknown when the mail server lookup fails", async () => {
+      const resolver = fakeResolver({ failLookup: true });
+      const [check] = await checkEmails(["jane@acme.com"], resolver);
+      expect(check).toMatchObject({ status: "unknown", reason: "Couldn't look up the domain's mail servers" });
+    });
+  });
+
+  describe("Verification", () => {
+    it("should reuse recent checks and redo stale or unknown ones", async () => {
+      vi.mocked(getEmailDeliverabilityChecks).mockResolvedValue([
+        cached("recent@acme.com", "invalid", 2),
+        cached("stale.one@acme.com", "invalid", 45),
+        cached("unknown.one@acme.com", "unknown", 1),
+      ]);
+
+      const results = await verifyEmails(user, ["Recent@acme.com", "stale.one@acme.com", "unknown.one@acme.com"]);
+
+      expect(getEmailDeliverabilityChecks).toHaveBeenCalledWith(
+        ["recent@acme.com", "stale.one@acme.com", "unknown.one@acme.com"],
+        "sample"
+      );
+      expect(results.map(result => result.status)).toEqual(["invalid", "valid", "valid"]);
+      const saved = vi.mocked(saveEmailDeliverabilityChecks).mock.calls[0][0];
+      expect(saved.map(check => check.email)).toEqual(["stale.one@acme.com", "unknown.one@acme.com"]);
+      expect(saved[0]).toMatchObject({ resolver: "sample", status: "valid", mxHost: "mx.acme.com" });
+    });
+
+    it("should check everything again when asked to refresh", async () => {
+      vi.mocked(getEmailDeliverabilityChecks).mockResolvedValue([cached("jane.doe@acme.com", "invalid", 1)]);
+
+      const [result] = await verifyEmails(user, ["jane.doe@acme.com"], { refresh: true });
+
+      expect(result.status).toBe("valid");
+      expect(getEmailDeliverabilityChecks).not.toHaveBeenCalled();
+    });
+
+    it("should still answer when checks can't be stored", async () => {
+      vi.mocked(saveEmailDeliverabilityChecks).mockRejectedValue(new Error("Database not available"));
+      const [result] = await verifyEmails(user, ["jane.doe@acme.com"]);
+      expect(result.status).toBe("valid");
+    });
+
+    it("should refuse to send to addresses that can't receive email", async () => {
+      await expect(assertDeliverable(user, "nobody@acme.com")).rejects.toThrow("can't receive email");
+      await expect(assertDeliverable(user, "jane@acme.test")).rejects.toThrow("acme.test doesn't accept email");
+      await expect(assertDeliverable(user, "jane.doe@acme.com")).resolves.toMatchObject({ status: "valid" });
+    });
+  });
+
+  describe("Finding a contact's email", () => {
+    it("should find the contact's address and save it to a lead without one", async () => {
+      vi.mocked(getLeadById).mockResolvedValue(lead());
+
+      const result = await findContactEmail(user, 1);
+
+      expect(result).toMatchObject({ domain: "acme.com", email: "jane.doe@acme.com", status: "valid", applied: true });
+      expect(result.candidates.find(candidate => candidate.pattern === "first")?.status).toBe("invalid");
+      expect(updateLead).toHaveBeenCalledWith(1, 7, { contactEmail: "jane.doe@acme.com" });
+    });
+
+    it("should replace a contact email known to bounce, but keep a deliverable one", async () => {
+      vi.mocked(getLeadById).mockResolvedValue(lead({ contactEmail: "jd@acme.com" }));
+      expect((await findContactEmail(user, 1)).applied).toBe(true);
+
+      vi.mocked(updateLead).mockClear();
+      vi.mocked(getLeadById).mockResolvedValue(lead({ contactEmail: "jane.d@acme.com" }));
+      expect((await findContactEmail(user, 1)).applied).toBe(false);
+      expect(updateLead).not.toHaveBeenCalled();
+    });
+
+    it("should look up someone else by name without touching the lead", async () => {
+      vi.mocked(getLeadById).mockResolvedValue(lead());
+
+      const result = await findContactEmail(user, 1, "Sam Lee");
+
+      expect(result.email).toBe("sam.lee@acme.com");
+      expect(result.applied).toBe(false);
+      expect(updateLead).not.toHaveBeenCalled();
+    });
+
+    it("should explain what's missing", async () => {
+      vi.mocked(getLeadById).mockResolvedValue(undefined);
+      await expect(findContactEmail(user, 1)).rejects.toThrow("Lead not found");
+
+      vi.mocked(getLeadById).mockResolvedValue(lead({ contactName: null }));
+      await expect(findContactEmail(user, 1)).rejects.toThrow("Add the contact's name");
+
+      vi.mocked(getLeadById).mockResolvedValue(lead({ website: null }));
+      await expect(findContactEmail(user, 1)).rejects.toThrow("Add the company's website");
+    });
+  });
+});
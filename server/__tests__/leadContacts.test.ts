@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../db", () => ({
+  createLeadContact: vi.fn(),
+  deleteLeadContact: vi.fn(),
+  getLeadById: vi.fn(),
+  getLeadContactById: vi.fn(),
+  getLeadContacts: vi.fn(),
+  getLeadEngagementCounts: vi.fn(),
+  getLeadTechnologies: vi.fn().mockResolvedValue([]),
+  getScoringModelRow: vi.fn(),
+  setPrimaryLeadContact: vi.fn(),
+  updateLeadContact: vi.fn(),
+  updateLeadScore: vi.fn(),
+}));
+
+import {
+  createLeadContact,
+  deleteLeadContact,
+  getLeadById,
+  getLeadContactById,
+  getLeadContacts,
+  getLeadEngagementCounts,
+  setPrimaryLeadContact,
+  updateLeadScore,
+} from "../db";
+import {
+  addContact,
+  deleteContact,
+  resolveEmailContact,
+  resolveEnrollmentContact,
+} from "../services/leadContacts";
+import { calculateLeadScore } from "../leadScoring";
+import type { Lead, LeadContact } from "../../drizzle/schema";
+
+function contact(id: number, overrides: Partial<LeadContact> = {}): LeadContact {
+  return {
+    id,
+    leadId: 10,
+    name: `Contact ${id}`,
+    title: null,
+    role: "other",
+    email: `contact${id}@example.com`,
+    phone: null,
+    linkedin: null,
+    isPrimary: 0,
+    doNotContact: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("Lead contacts", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getLeadById).mockResolvedValue({ id: 10, userId: 1, companyName: "Acme", score: 0 } as Lead);
+    vi.mocked(getLeadEngagementCounts).mockResolvedValue(new Map([[10, { opens: 0, clicks: 0 }]]));
+    vi.mocked(getLeadContacts).mockResolvedValue([]);
+  });
+
+  describe("addContact", () => {
+    it("should make a lead's first contact its primary contact", async () => {
+      vi.mocked(createLeadContact).mockResolvedValue(5);
+
+      await addContact(1, 10, { name: "Jane Doe", email: "Jane@Example.com" });
+
+      expect(createLeadContact).toHaveBeenCalledWith(expect.objectContaining({ leadId: 10, email: "jane@example.com" }));
+      expect(setPrimaryLeadContact).toHaveBeenCalledWith(10, 5);
+    });
+
+    it("should keep the existing primary contact", async () => {
+      vi.mocked(getLeadContacts).mockResolvedValue([contact(1, { isPrimary: 1 })]);
+      vi.mocked(createLeadContact).mockResolvedValue(6);
+
+      await addContact(1, 10, { name: "John Roe" });
+
+      expect(setPrimaryLeadContact).not.toHaveBeenCalled();
+    });
+
+    it("should need a name or an email", async () => {
+      await expect(addContact(1, 10, { title: "CTO" })).rejects.toThrow("needs a name or an email");
+      expect(createLeadContact).not.toHaveBeenCalled();
+    });
+
+    it("should not add contacts to other users' leads", async () => {
+      vi.mocked(getLeadById).mockResolvedValue(undefined);
+
+      await expect(addContact(2, 10, { name: "Jane Doe" })).rejects.toThrow("access denied");
+    });
+  });
+
+  describe("deleteContact", () => {
+    it("should promote the next contact when the primary contact is removed", async () => {
+      vi.mocked(getLeadContactById).mockResolvedValue(contact(1, { isPrimary: 1 }));
+      vi.mocked(getLeadContacts).mockResolvedValue([contact(2), contact(3)]);
+
+      await deleteContact(1, 1);
+
+      expect(deleteLeadContact).toHaveBeenCalledWith(1);
+      expect(setPrimaryLeadContact).toHaveBeenCalledWith(10, 2);
+    });
+
+    it("should rescore the lead on its remaining contacts", async () => {
+      vi.mocked(getLeadContactById).mockResolvedValue(contact(1));
+      vi.mocked(getLeadContacts).mockResolvedValue([contact(2, { phone: "555-0100" })]);
+
+      await deleteContact(1, 1);
+
+      expect(setPrimaryLeadContact).not.toHaveBeenCalled();
+      expect(updateLeadScore).toHaveBeenCalledWith(10, expect.any(Number));
+    });
+  });
+
+  describe("resolveEmailContact", () => {
+    it("should attribute an email to the contact with the recipient's address", async () => {
+      vi.mocked(getLeadContacts).mockResolvedValue([contact(1), contact(2)]);
+
+      await expect(resolveEmailContact(1, 10, { email: "CONTACT2@example.com" })).resolves.toBe(2);
+      await expect(resolveEmailContact(1, 10, { email: "someone@else.com" })).resolves.toBeNull();
+    });
+
+    it("should refuse contacts marked do not contact", async () => {
+      vi.mocked(getLeadContactById).mockResolvedValue(contact(1, { name: "Jane Doe", doNotContact: 1 }));
+
+      await expect(resolveEmailContact(1, 10, { contactId: 1, email: "contact1@example.com" }))
+        .rejects.toThrow("Jane Doe is marked do not contact");
+    });
+
+    it("should refuse a contact from another lead", async () => {
+      vi.mocked(getLeadContactById).mockResolvedValue(contact(1, { leadId: 11 }));
+
+      await expect(resolveEmailContact(1, 10, { contactId: 1, email: "contact1@example.com" }))
+        .rejects.toThrow("Contact not found");
+    });
+  });
+
+  describe("resolveEnrollmentContact", () => {
+    it("should default to the primary contact", async () => {
+      vi.mocked(getLeadContacts).mockResolvedValue([contact(1, { isPrimary: 1 }), contact(2)]);
+
+      await expect(resolveEnrollmentContact(10)).resolves.toBe(1);
+      await expect(resolveEnrollmentContact(10, 2)).resolves.toBe(2);
+    });
+
+    it("should refuse to enroll a do-not-contact primary contact", async () => {
+      vi.mocked(getLeadContacts).mockResolvedValue([contact(1, { isPrimary: 1, doNotContact: 1 })]);
+
+      await expect(resolveEnrollmentContact(10)).rejects.toThrow("do not contact");
+    });
+  });
+
+  describe("scoring", () => {
+    const lead = { id: 10, companyName: "Acme" } as Lead;
+
+    it("should score contact details on the best contact", () => {
+      const sparse = calculateLeadScore(lead, 0, 0, [contact(1)]);
+      const rich = calculateLeadScore(lead, 0, 0, [
+        contact(1),
+        contact(2, { title: "CEO", phone: "555-0100", linkedin: "https://linkedin.com/in/ceo" }),
+      ]);
+
+      expect(rich.factors.contactCompleteness).toBeGreaterThan(sparse.factors.contactCompleteness);
+    });
+
+    it("should ignore contacts marked do not contact", () => {
+      const result = calculateLeadScore(lead, 0, 0, [
+        contact(1, { title: "CEO", phone: "555-0100", linkedin: "https://linkedin.com/in/ceo", doNotContact: 1 }),
+      ]);
+
+      expect(result.factors.contactCompleteness).toBe(0);
+    });
+  });
+});
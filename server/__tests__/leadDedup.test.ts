@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../db", () => ({
+  getLeadById: vi.fn(),
+  getLeadContacts: vi.fn(),
+  getLeadEmailClicks: vi.fn(),
+  getLeadEmailOpens: vi.fn(),
+  getLeadTechnologies: vi.fn().mockResolvedValue([]),
+  getScoringModelRow: vi.fn(),
+  getTagsForLeads: vi.fn(),
+  mergeLeadRecords: vi.fn(),
+  updateLeadScore: vi.fn(),
+}));
+
+import { getLeadById, getLeadEmailClicks, getLeadEmailOpens, getTagsForLeads, mergeLeadRecords, updateLeadScore } from "../db";
+import { companyNameSimilarity } from "../leadMatching";
+import { findDuplicateCandidates, mergeLeads, planLeadMerge } from "../services/leadDedup";
+import type { Lead } from "../../drizzle/schema";
+
+function makeLead(overrides: Partial<Lead>): Lead {
+  return {
+    id: 1,
+    userId: 1,
+    companyName: "Acme",
+    website: null,
+    industry: null,
+    companySize: null,
+    location: null,
+    description: null,
+    contactName: null,
+    contactTitle: null,
+    contactEmail: null,
+    contactLinkedin: null,
+    contactPhone: null,
+    status: "new",
+    score: 0,
+    notes: null,
+    customFields: null,
+    welcomeEmailSent: 0,
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+    updatedAt: new Date("2026-01-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+describe("Lead Deduplication", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("companyNameSimilarity", () => {
+    it("should treat names differing only by suffix or punctuation as identical", () => {
+      expect(companyNameSimilarity("Acme, Inc.", "ACME")).toBe(1);
+    });
+
+    it("should score small spelling differences highly", () => {
+      expect(companyNameSimilarity("Acme Software", "Acme Softwares")).toBeGreaterThan(0.85);
+    });
+
+    it("should score different companies with a shared word low", () => {
+      expect(companyNameSimilarity("Acme", "Acme Labs")).toBeLessThan(0.85);
+      expect(companyNameSimilarity("Globex", "Initech")).toBe(0);
+    });
+  });
+
+  describe("findDuplicateCandidates", () => {
+    it("should pair leads sharing a domain, email or similar name", () => {
+      const candidates = findDuplicateCandidates([
+        { id: 1, companyName: "Acme Inc", website: "https://www.acme.com", contactEmail: null },
+        { id: 2, companyName: "Acme Corporation", website: "acme.com/about", contactEmail: null },
+        { id: 3, companyName: "Globex", website: null, contactEmail: "hank@globex.com" },
+        { id: 4, companyName: "Globex Intl", website: null, contactEmail: "HANK@globex.com " },
+        { id: 5, companyName: "Initech Systems", website: null, contactEmail: null },
+        { id: 6, companyName: "Initech Sytems", website: null, contactEmail: null },
+        { id: 7, companyName: "Umbrella", website: null, contactEmail: null },
+      ]);
+
+      expect(candidates.map(c => c.leadIds)).toEqual([[3, 4], [1, 2], [5, 6]]);
+      expect(candidates[0].reasons).toEqual(["email"]);
+      expect(candidates[1].reasons.sort()).toEqual(["companyName", "domain"]);
+      expect(candidates[2].reasons).toEqual(["companyName"]);
+    });
+
+    it("should not pair leads without matching identifiers", () => {
+      expect(findDuplicateCandidates([
+        { id: 1, companyName: "Acme", website: "N/A", contactEmail: "" },
+        { id: 2, companyName: "Acme Labs", website: "n/a", contactEmail: null },
+      ])).toEqual([]);
+    });
+  });
+
+  describe("planLeadMerge", () => {
+    const surviving = makeLead({ id: 1, companyName: "Acme", website: "acme.com", notes: "Met at expo" });
+    const merged = makeLead({
+      id: 2,
+      companyName: "Acme Inc",
+      website: "https://acme.com",
+      contactEmail: "jane@acme.com",
+      notes: "Imported from Apollo",
+    });
+    const tags = {
+      surviving: [{ id: 10, name: "SaaS", color: "#3b82f6" }],
+      merged: [{ id: 10, name: "SaaS", color: "#3b82f6" }, { id: 11, name: "enterprise", color: "#22c55e" }],
+    };
+
+    it("should keep surviving values and fill gaps from the merged lead", () => {
+      const plan = planLeadMerge(surviving, merged);
+
+      expect(plan.updates.companyName).toBeUndefined();
+      expect(plan.updates.contactEmail).toBe("jane@acme.com");
+      expect(plan.fieldSources.companyName).toEqual({ leadIds: [1], value: "Acme" });
+      expect(plan.fieldSources.contactEmail).toEqual({ leadIds: [2], value: "jane@acme.com" });
+    });
+
+    it("should honor explicit field choices", () => {
+      const plan = planLeadMerge(surviving, merged, { companyName: "merged" });
+      expect(plan.updates.companyName).toBe("Acme Inc");
+      expect(plan.fieldSources.companyName.leadIds).toEqual([2]);
+    });
+
+    it("should combine notes and tags from both leads", () => {
+      const plan = planLeadMerge(surviving, merged, {}, tags);
+
+      expect(plan.updates.notes).toBe("Met at expo\n\nImported from Apollo");
+      expect(plan.fieldSources.tags.value).toBe("SaaS, enterprise");
+      expect(plan.fieldSources.notes.leadIds).toEqual([1, 2]);
+      expect(plan.fieldSources.tags.leadIds).toEqual([1, 2]);
+    });
+
+    it("should fill missing custom field values from the merged lead", () => {
+      const plan = planLeadMerge(
+        { ...surviving, customFields: '{"tier":"Gold"}' },
+        { ...merged, customFields: '{"tier":"Silver","deal_size":5000}' }
+      );
+
+      expect(JSON.parse(plan.updates.customFields!)).toEqual({ tier: "Gold", deal_size: 5000 });
+      expect(plan.fieldSources.customFields.leadIds).toEqual([1, 2]);
+    });
+  });
+
+  describe("mergeLeads", () => {
+    it("should merge records, record provenance and rescore", async () => {
+      vi.mocked(getLeadById).mockImplementation(async (id: number) =>
+        id === 1 ? makeLead({ id: 1 }) : makeLead({ id: 2, contactEmail: "jane@acme.com" })
+      );
+      vi.mocked(mergeLeadRecords).mockResolvedValue({ sentEmails: 2, emailOpens: 3 } as any);
+      vi.mocked(getLeadEmailOpens).mockResolvedValue([{}, {}, {}] as any);
+      vi.mocked(getLeadEmailClicks).mockResolvedValue([] as any);
+      vi.mocked(getTagsForLeads).mockResolvedValue(new Map([[2, [{ id: 11, name: "enterprise", color: "#22c55e" }]]]));
+
+      const result = await mergeLeads(1, 1, 2);
+
+      const call = vi.mocked(mergeLeadRecords).mock.calls[0][0];
+      expect(call.survivingLeadId).toBe(1);
+      expect(call.mergedLeadId).toBe(2);
+      expect(call.updates).toEqual({ contactEmail: "jane@acme.com" });
+      expect(JSON.parse(call.audit.fieldSources).contactEmail.leadIds).toEqual([2]);
+      expect(JSON.parse(call.audit.mergedLeadSnapshot)).toMatchObject({ id: 2, tags: ["enterprise"] });
+      expect(JSON.parse(call.audit.fieldSources).tags.leadIds).toEqual([2]);
+      expect(updateLeadScore).toHaveBeenCalledWith(1, result.score);
+      expect(result.movedRecords).toEqual({ sentEmails: 2, emailOpens: 3 });
+    });
+
+    it("should record a status change when the merged lead's status is kept", async () => {
+      vi.mocked(getLeadById).mockImplementation(async (id: number) =>
+        id === 1 ? makeLead({ id: 1, status: "new" }) : makeLead({ id: 2, companyName: "Acme Inc", status: "qualified" })
+      );
+      vi.mocked(mergeLeadRecords).mockResolvedValue({} as any);
+      vi.mocked(getLeadEmailOpens).mockResolvedValue([]);
+      vi.mocked(getLeadEmailClicks).mockResolvedValue([]);
+      vi.mocked(getTagsForLeads).mockResolvedValue(new Map());
+
+      await mergeLeads(1, 1, 2, { status: "merged" });
+
+      expect(vi.mocked(mergeLeadRecords).mock.calls[0][0].statusChange).toMatchObject({
+        leadId: 1,
+        userId: 1,
+        previousStatus: "new",
+        newStatus: "qualified",
+        changeReason: "lead_merged",
+        triggeredBy: "user",
+      });
+    });
+
+    it("should refuse to merge a lead into itself", async () => {
+      await expect(mergeLeads(1, 5, 5)).rejects.toThrow("itself");
+    });
+
+    it("should refuse leads the user does not own", async () => {
+      vi.mocked(getLeadById).mockResolvedValue(undefined);
+      await expect(mergeLeads(1, 1, 2)).rejects.toThrow("Lead not found");
+      expect(mergeLeadRecords).not.toHaveBeenCalled();
+    });
+  });
+});
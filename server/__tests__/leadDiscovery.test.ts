@@ -0,0 +1,310 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../db", () => ({
+  createSearchHistory: vi.fn(),
+  recordSearchHistoryPage: vi.fn(),
+  getDiscoveryCacheEntry: vi.fn(),
+  saveDiscoveryCacheEntry: vi.fn(),
+  recordDiscoveryCacheLookup: vi.fn(),
+  getUserLeadSummaries: vi.fn(),
+  getLeadLastContactDates: vi.fn(),
+}));
+
+vi.mock("../apollo", () => ({
+  searchOrganizations: vi.fn(),
+  findDecisionMakers: vi.fn(),
+  convertApolloOrgToLead: vi.fn((org: { name: string }) => ({
+    companyName: org.name,
+    website: "",
+    contactName: "",
+    source: "apollo",
+    status: "new",
+    score: null,
+  })),
+  convertApolloPersonToContact: vi.fn((person: { name: string }) => ({ contactName: person.name })),
+}));
+
+vi.mock("../services/apolloCreditQuota", () => ({
+  APOLLO_BUDGET_EXHAUSTED_MESSAGE: "Your monthly Apollo credit budget is used up.",
+  getApolloCreditBalance: vi.fn(),
+}));
+
+vi.mock("../_core/llm", () => ({
+  invokeLLM: vi.fn(),
+}));
+
+import { createSearchHistory, getDiscoveryCacheEntry, getLeadLastContactDates, getUserLeadSummaries, recordSearchHistoryPage } from "../db";
+import { getApolloCreditBalance } from "../services/apolloCreditQuota";
+import { findDecisionMakers, searchOrganizations } from "../apollo";
+import { invokeLLM } from "../_core/llm";
+import { discoverLeads } from "../services/leadDiscovery";
+import { MAX_TEMPLATE_PAGES } from "../services/leadSources/llm";
+import { discoverLeadsInputSchema } from "../leadValidation";
+import type { User } from "../../drizzle/schema";
+
+const realDataUser = { id: 1, useRealData: 1, emailNotifications: 0 } as User;
+const templateUser = { id: 1, useRealData: 0, emailNotifications: 0 } as User;
+
+function templateResponse(count: number, names: string[] = []) {
+  const leads = Array.from({ length: count }, (_, i) => ({ companyName: names[i] ?? `Template ${i}`, website: "" }));
+  return { choices: [{ message: { content: JSON.stringify({ leads }) } }] } as never;
+}
+
+function apolloPage(names: string[], page = 1, totalPages = 1) {
+  return {
+    organizations: names.map((name, i) => ({ id: `org-${i}`, name })),
+    pagination: { page, per_page: names.length, total_entries: names.length * totalPages, total_pages: totalPages },
+  };
+}
+
+describe("Lead discovery", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.APOLLO_API_KEY = "test-key";
+    vi.mocked(createSearchHistory).mockResolvedValue(42);
+    vi.mocked(findDecisionMakers).mockResolvedValue({ decisionMakers: new Map(), creditsUsed: 0 });
+    vi.mocked(getApolloCreditBalance).mockResolvedValue({ remaining: 100 } as never);
+    vi.mocked(getDiscoveryCacheEntry).mockResolvedValue(undefined);
+    vi.mocked(getUserLeadSummaries).mockResolvedValue([]);
+    vi.mocked(getLeadLastContactDates).mockResolvedValue(new Map());
+  });
+
+  it("should default to a page of ten results", () => {
+    expect(discoverLeadsInputSchema.parse({ query: "fintech" })).toMatchObject({ perPage: 10, page: 1 });
+    expect(() => discoverLeadsInputSchema.parse({ query: "fintech", perPage: 500 })).toThrow();
+  });
+
+  it("should page through Apollo results in real data mode", async () => {
+    vi.mocked(searchOrganizations).mockResolvedValue(apolloPage(["Acme", "Globex"], 2, 4));
+
+    const result = await discoverLeads(realDataUser, discoverLeadsInputSchema.parse({
+      query: "fintech",
+      perPage: 2,
+      page: 2,
+      searchId: 42,
+    }));
+
+    expect(searchOrganizations).toHaveBeenCalledWith(expect.objectContaining({ page: 2, perPage: 2 }), 1);
+    expect(result).toMatchObject({
+      searchId: 42,
+      page: 2,
+      hasMore: true,
+      totalResults: 8,
+      creditsUsed: 2,
+      sources: [{ source: "apollo", hasMore: true, totalResults: 8, creditsUsed: 2, error: null }],
+    });
+    expect(result.leads.map(lead => [lead.companyName, lead.source])).toEqual([["Acme", "apollo"], ["Globex", "apollo"]]);
+  });
+
+  it("should stop offering more on Apollo's last page", async () => {
+    vi.mocked(searchOrganizations).mockResolvedValue(apolloPage(["Acme"], 3, 3));
+
+    const result = await discoverLeads(realDataUser, discoverLeadsInputSchema.parse({ query: "fintech", page: 3, searchId: 42 }));
+
+    expect(result.hasMore).toBe(false);
+  });
+
+  it("should fill in decision makers, or return companies alone when people search fails", async () => {
+    vi.mocked(searchOrganizations).mockResolvedValue(apolloPage(["Acme", "Globex"]));
+    vi.mocked(findDecisionMakers).mockResolvedValueOnce({
+      decisionMakers: new Map([["org-0", { id: "p1", name: "Carla Chief" }]]),
+      creditsUsed: 3,
+    });
+
+    const withContacts = await discoverLeads(realDataUser, discoverLeadsInputSchema.parse({ query: "fintech" }));
+    expect(findDecisionMakers).toHaveBeenCalledWith([{ id: "org-0" }, { id: "org-1" }], 1);
+    expect(withContacts.leads.map(lead => lead.contactName)).toEqual(["Carla Chief", ""]);
+    expect(withContacts.creditsUsed).toBe(5);
+
+    vi.mocked(findDecisionMakers).mockRejectedValueOnce(new Error("Apollo API error: 403"));
+    const companiesOnly = await discoverLeads(realDataUser, discoverLeadsInputSchema.parse({ query: "fintech" }));
+    expect(companiesOnly.leads.map(lead => lead.contactName)).toEqual(["", ""]);
+  });
+
+  it("should start a search history entry on the first page and count later pages", async () => {
+    vi.mocked(invokeLLM).mockResolvedValue(templateResponse(5));
+
+    const first = await discoverLeads(templateUser, discoverLeadsInputSchema.parse({ query: "fintech", perPage: 5 }));
+    expect(first.searchId).toBe(42);
+    expect(createSearchHistory).toHaveBeenCalledWith(expect.objectContaining({ resultsCount: 5, pagesLoaded: 1 }));
+
+    await discoverLeads(templateUser, discoverLeadsInputSchema.parse({ query: "fintech", perPage: 5, page: 2, searchId: 42 }));
+    expect(createSearchHistory).toHaveBeenCalledTimes(1);
+    expect(recordSearchHistoryPage).toHaveBeenCalledWith(42, 1, 5);
+  });
+
+  it("should ask for the page size and skip companies already shown", async () => {
+    vi.mocked(invokeLLM).mockResolvedValue(templateResponse(30));
+
+    const result = await discoverLeads(templateUser, discoverLeadsInputSchema.parse({
+      query: "fintech",
+      perPage: 25,
+      page: 2,
+      searchId: 42,
+      excludeCompanies: ["Acme", "Globex"],
+    }));
+
+    const [system, user] = vi.mocked(invokeLLM).mock.calls[0][0].messages;
+    expect(system.content).toContain("Return exactly 25 leads");
+    expect(user.content).toContain("Do not include these companies: Acme, Globex");
+    expect(result.leads).toHaveLength(25);
+    expect(result.totalResults).toBeNull();
+  });
+
+  it("should cap generated templates at a fixed number of pages", async () => {
+    vi.mocked(invokeLLM).mockResolvedValue(templateResponse(5));
+
+    const result = await discoverLeads(templateUser, discoverLeadsInputSchema.parse({
+      query: "fintech",
+      page: MAX_TEMPLATE_PAGES,
+      searchId: 42,
+    }));
+
+    expect(result.hasMore).toBe(false);
+  });
+
+  describe("combining sources", () => {
+    it("should share the page between sources and drop companies found twice", async () => {
+      vi.mocked(searchOrganizations).mockResolvedValue(apolloPage(["Acme", "Globex"]));
+      vi.mocked(invokeLLM).mockResolvedValue(templateResponse(2, ["Acme Inc", "Initech"]));
+
+      const result = await discoverLeads(realDataUser, discoverLeadsInputSchema.parse({
+        query: "fintech",
+        perPage: 4,
+        sources: ["apollo", "llm"],
+      }));
+
+      expect(searchOrganizations).toHaveBeenCalledWith(expect.objectContaining({ perPage: 2 }), 1);
+      expect(result.leads.map(lead => [lead.companyName, lead.source])).toEqual([
+        ["Acme", "apollo"],
+        ["Globex", "apollo"],
+        ["Initech", "llm"],
+      ]);
+      expect(result.totalResults).toBeNull();
+    });
+
+    it("should report a failing source and keep the others' results", async () => {
+      vi.mocked(searchOrganizations).mockRejectedValue(new Error("Apollo API error: 500"));
+      vi.mocked(invokeLLM).mockResolvedValue(templateResponse(2));
+
+      const result = await discoverLeads(realDataUser, discoverLeadsInputSchema.parse({
+        query: "fintech",
+        sources: ["apollo", "llm"],
+      }));
+
+      expect(result.leads).toHaveLength(2);
+      expect(result.sources[0]).toMatchObject({ source: "apollo", hasMore: false, error: expect.stringContaining("Apollo.io") });
+    });
+
+    it("should fail when every source fails", async () => {
+      vi.mocked(searchOrganizations).mockRejectedValue(new Error("Apollo API error: 500"));
+
+      await expect(discoverLeads(realDataUser, discoverLeadsInputSchema.parse({ query: "fintech" })))
+        .rejects.toThrow("Failed to fetch real lead data from Apollo.io");
+      expect(createSearchHistory).not.toHaveBeenCalled();
+    });
+
+    it("should refuse sources the user can't search", async () => {
+      await expect(discoverLeads(templateUser, discoverLeadsInputSchema.parse({ query: "fintech", sources: ["apollo"] })))
+        .rejects.toThrow("Use Real Data");
+      delete process.env.COMPANY_DATASET_PATH;
+      await expect(discoverLeads(templateUser, discoverLeadsInputSchema.parse({ query: "fintech", sources: ["localDataset"] })))
+        .rejects.toThrow("not configured");
+      expect(searchOrganizations).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("with the Apollo credit budget spent", () => {
+    beforeEach(() => {
+      vi.mocked(getApolloCreditBalance).mockResolvedValue({ remaining: 0 } as never);
+    });
+
+    it("should serve cached Apollo results without calling Apollo, even when refreshing", async () => {
+      const cached = { leads: [{ source: "apollo", companyName: "Acme" }], hasMore: true, totalResults: 30, creditsUsed: 10 };
+      vi.mocked(getDiscoveryCacheEntry).mockResolvedValue({ results: JSON.stringify(cached), creditsUsed: 10, createdAt: new Date() } as never);
+
+      const result = await discoverLeads(realDataUser, discoverLeadsInputSchema.parse({ query: "fintech", forceRefresh: true }));
+
+      expect(searchOrganizations).not.toHaveBeenCalled();
+      expect(result.leads.map(lead => lead.companyName)).toEqual(["Acme"]);
+      expect(result.creditsUsed).toBe(0);
+    });
+
+    it("should fall back to AI templates when nothing is cached", async () => {
+      vi.mocked(invokeLLM).mockResolvedValue(templateResponse(3));
+
+      const result = await discoverLeads(realDataUser, discoverLeadsInputSchema.parse({ query: "fintech" }));
+
+      expect(searchOrganizations).not.toHaveBeenCalled();
+      expect(result.leads.map(lead => lead.source)).toEqual(["llm", "llm", "llm"]);
+      expect(result.sources).toMatchObject([
+        { source: "apollo", error: "Your monthly Apollo credit budget is used up." },
+        { source: "llm", error: null },
+      ]);
+    });
+  });
+
+  it("should fall back to AI templates when the Apollo budget runs out during the search", async () => {
+    vi.mocked(getApolloCreditBalance).mockResolvedValue({ remaining: 5 } as never);
+    vi.mocked(searchOrganizations).mockRejectedValue(new Error("Your monthly Apollo credit budget is used up."));
+    vi.mocked(invokeLLM).mockResolvedValue(templateResponse(2));
+
+    const result = await discoverLeads(realDataUser, discoverLeadsInputSchema.parse({ query: "fintech" }));
+
+    expect(searchOrganizations).toHaveBeenCalled();
+    expect(result.leads.map(lead => lead.source)).toEqual(["llm", "llm"]);
+    expect(result.sources).toMatchObject([
+      { source: "apollo", error: "Your monthly Apollo credit budget is used up." },
+      { source: "llm", error: null },
+    ]);
+  });
+
+  describe("with companies already in the user's leads", () => {
+    const contactedAt = new Date("2026-07-01T00:00:00Z");
+
+    beforeEach(() => {
+      vi.mocked(searchOrganizations).mockResolvedValue({
+        organizations: [
+          { id: "org-1", name: "Acme", website_url: "https://www.acme.com" },
+          { id: "org-2", name: "Globex Inc." },
+          { id: "org-3", name: "Initech" },
+        ],
+        pagination: { page: 1, per_page: 3, total_entries: 3, total_pages: 1 },
+      });
+      vi.mocked(getUserLeadSummaries).mockResolvedValue([
+        { id: 5, companyName: "Acme Corporation", website: "acme.com", status: "lost", score: 40 },
+        { id: 6, companyName: "Globex", website: null, status: "contacted", score: 72 },
+      ]);
+      vi.mocked(getLeadLastContactDates).mockResolvedValue(new Map([[6, contactedAt]]));
+    });
+
+    it("should flag them by domain or company name with their status, score and last contact", async () => {
+      const result = await discoverLeads(realDataUser, discoverLeadsInputSchema.parse({ query: "fintech" }));
+
+      expect(result.leads.map(lead => lead.knownLead)).toEqual([
+        { id: 5, status: "lost", score: 40, lastContactedAt: null },
+        { id: 6, status: "contacted", score: 72, lastContactedAt: contactedAt },
+        null,
+      ]);
+      expect(getLeadLastContactDates).toHaveBeenCalledWith(1, [5, 6]);
+      expect(result.hiddenKnown).toBe(0);
+    });
+
+    it("should leave them out when asked to", async () => {
+      const result = await discoverLeads(realDataUser, discoverLeadsInputSchema.parse({ query: "fintech", hideKnown: true }));
+
+      expect(result.leads.map(lead => lead.companyName)).toEqual(["Initech"]);
+      expect(result.hiddenKnown).toBe(2);
+      expect(createSearchHistory).toHaveBeenCalledWith(expect.objectContaining({ resultsCount: 1 }));
+    });
+
+    it("should still return results when matching fails", async () => {
+      vi.mocked(getUserLeadSummaries).mockRejectedValue(new Error("Database not available"));
+
+      const result = await discoverLeads(realDataUser, discoverLeadsInputSchema.parse({ query: "fintech" }));
+
+      expect(result.leads).toHaveLength(3);
+      expect(result.leads.every(lead => lead.knownLead === null)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../db", () => ({
+  getLeadById: vi.fn(),
+  getLeadContacts: vi.fn().mockResolvedValue([]),
+  getLeadEmailClicks: vi.fn().mockResolvedValue([]),
+  getLeadEmailOpens: vi.fn().mockResolvedValue([]),
+  getLeadEnrichmentData: vi.fn(),
+  getLeadTechnologies: vi.fn().mockResolvedValue([]),
+  getScoringModelRow: vi.fn(),
+  getUserById: vi.fn(),
+  replaceEnrichmentData: vi.fn(),
+  updateLead: vi.fn(),
+  updateLeadScore: vi.fn(),
+}));
+
+vi.mock("../apollo", () => ({
+  enrichOrganization: vi.fn(),
+}));
+
+import { getLeadById, getLeadEnrichmentData, getUserById, replaceEnrichmentData, updateLead, updateLeadScore } from "../db";
+import { enrichOrganization } from "../apollo";
+import { extractWebsiteFacts } from "../services/enrichers/website";
+import { enrichLead, enrichNewLeads, reconcileFacts } from "../services/leadEnrichment";
+import type { EnrichmentData, Lead, User } from "../../drizzle/schema";
+
+const user = { id: 7, useRealData: 1 } as User;
+const lead = { id: 42, userId: 7, companyName: "Acme", website: "acme.com", industry: "", companySize: "Unknown", location: "Austin, TX", description: null } as unknown as Lead;
+
+const fetchMock = vi.fn();
+vi.stubGlobal("fetch", fetchMock);
+
+const homepage = `<!doctype html><html><head>
+  <title>Acme &amp; Co | Payroll</title>
+  <meta property="og:site_name" content="Acme">
+  <meta content="Payroll software for small teams" name="description">
+</head><body>
+  <a href="https://www.linkedin.com/company/acme/">LinkedIn</a>
+  <a href='https://twitter.com/share?url=x'>Share</a>
+  <a href="https://x.com/acmehq">X</a>
+  <a href="mailto:press@agency.com">Press</a>
+  <a href="mailto:Hello@acme.com?subject=Hi">Email</a>
+  <a href="tel:+1%20555%200100">Call</a>
+</body></html>`;
+
+// Rows as the database would hold them after replaceEnrichmentData
+let stored: EnrichmentData[] = [];
+
+function row(source: string, dataType: string, dataKey: string, value: unknown, confidence: number, updatedAt = new Date("2026-01-01")) {
+  return { id: 0, leadId: 42, source, dataType, dataKey, dataValue: JSON.stringify(value), confidence, createdAt: updatedAt, updatedAt } as EnrichmentData;
+}
+
+describe("Lead enrichment", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    stored = [];
+    process.env.APOLLO_API_KEY = "test-key";
+    vi.mocked(getLeadById).mockResolvedValue(lead);
+    vi.mocked(getUserById).mockResolvedValue(user);
+    vi.mocked(getLeadEnrichmentData).mockImplementation(async () => stored);
+    vi.mocked(replaceEnrichmentData).mockImplementation(async (leadId, source, facts) => {
+      stored = [...stored.filter(r => r.source !== source), ...facts.map(fact => ({ ...fact, leadId, source, updatedAt: new Date() }) as EnrichmentData)];
+    });
+    fetchMock.mockImplementation(async () => new Response(homepage, { status: 200, headers: { "Content-Type": "text/html" } }));
+  });
+
+  it("should read a homepage's name, description, social profiles and contact details", () => {
+    const facts = extractWebsiteFacts({ url: "https://www.acme.com/", status: 200, headers: {}, html: homepage });
+
+    expect(facts).toEqual([
+      { dataType: "firmographic", dataKey: "name", value: "Acme", confidence: 55 },
+      { dataType: "firmographic", dataKey: "site_title", value: "Acme & Co | Payroll", confidence: 50 },
+      { dataType: "firmographic", dataKey: "description", value: "Payroll software for small teams", confidence: 60 },
+      { dataType: "social", dataKey: "linkedin_url", value: "https://www.linkedin.com/company/acme", confidence: 80 },
+      { dataType: "social", dataKey: "twitter_url", value: "https://x.com/acmehq", confidence: 80 },
+      { dataType: "contact", dataKey: "phone", value: "+1 555 0100", confidence: 50 },
+      { dataType: "contact", dataKey: "email", value: "hello@acme.com", confidence: 60 },
+    ]);
+  });
+
+  it("should reconcile conflicting sources, boosting values they agree on", () => {
+    const facts = reconcileFacts([
+      row("website", "firmographic", "industry", "Software", 60),
+      row("apollo", "firmographic", "industry", "Computer Software", 85),
+      row("localDataset", "firmographic", "industry", "software", 50),
+      row("techStack", "technology", "HubSpot", "Marketing Automation", 80),
+      row("apollo", "technology", "Hubspot", "Other", 70),
+    ]);
+
+    expect(facts[0]).toMatchObject({
+      dataKey: "industry",
+      value: "Computer Software",
+      confidence: 85,
+      sources: ["apollo"],
+      alternatives: [{ value: "Software", confidence: 80, sources: ["website", "localDataset"] }],
+    });
+    // Sources agree a technology is there even when they file it under different categories
+    expect(facts[1]).toMatchObject({ dataKey: "HubSpot", value: "Marketing Automation", confidence: 94, sources: ["techStack", "apollo"], alternatives: [] });
+
+    // Enough sources agreeing outweighs a single more confident one
+    const [agreed] = reconcileFacts([
+      row("website", "firmographic", "location", "Austin, TX", 60),
+      row("localDataset", "firmographic", "location", "austin tx", 60),
+      row("apollo", "firmographic", "location", "Dallas, TX", 80),
+    ]);
+    expect(agreed).toMatchObject({ value: "Austin, TX", confidence: 84, sources: ["website", "localDataset"] });
+  });
+
+  it("should store each enricher's facts under its own source and fill in blank lead fields", async () => {
+    vi.mocked(enrichOrganization).mockResolvedValue({
+      id: "org-1",
+      name: "Acme",
+      industry: "Computer Software",
+      estimated_num_employees: 120,
+      city: "Austin",
+      state: "Texas",
+      technology_names: ["HubSpot"],
+    });
+
+    const run = await enrichLead(user, 42);
+
+    expect(run.enrichers).toEqual([
+      { enricher: "website", status: "ok", facts: 7, error: null },
+      { enricher: "techStack", status: "ok", facts: 0, error: null },
+      { enricher: "apollo", status: "ok", facts: 5, error: null },
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(enrichOrganization).toHaveBeenCalledWith("acme.com", 7);
+    expect(replaceEnrichmentData).toHaveBeenCalledWith(42, "apollo", expect.arrayContaining([
+      { dataType: "technology", dataKey: "HubSpot", dataValue: '"Other"', confidence: 70 },
+    ]));
+
+    // Location was already set, and the website's phone number isn't confident enough to use
+    expect(run.updatedFields).toEqual(["industry", "companySize", "description"]);
+    expect(updateLead).toHaveBeenCalledWith(42, 7, {
+      industry: "Computer Software",
+      companySize: "120 employees",
+      description: "Payroll software for small teams",
+    });
+    expect(updateLeadScore).toHaveBeenCalledWith(42, expect.any(Number));
+  });
+
+  it("should keep going when an enricher fails or can't run", async () => {
+    vi.mocked(enrichOrganization).mockRejectedValue(new Error("Apollo is down"));
+
+    const run = await enrichLead(user, 42);
+    expect(run.enrichers[2]).toEqual({ enricher: "apollo", status: "failed", facts: 0, error: "Apollo is down" });
+    expect(replaceEnrichmentData).toHaveBeenCalledTimes(1);
+
+    const sampleUser = { id: 7, useRealData: 0 } as User;
+    expect((await enrichLead(sampleUser, 42)).enrichers[2]).toMatchObject({ enricher: "apollo", status: "skipped" });
+    await expect(enrichLead(sampleUser, 42, ["apollo"])).rejects.toThrow("Use Real Data");
+  });
+
+  it("should only run automatic enrichers on new leads", async () => {
+    await enrichNewLeads(7, [42]);
+
+    expect(fetchMock).toHaveBeenCalled();
+    expect(enrichOrganization).not.toHaveBeenCalled();
+    expect(replaceEnrichmentData).toHaveBeenCalledWith(42, "website", expect.any(Array));
+
+    vi.mocked(getLeadById).mockRejectedValueOnce(new Error("Database not available"));
+    await expect(enrichNewLeads(7, [42])).resolves.toBeUndefined();
+  });
+});
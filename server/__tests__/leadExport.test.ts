@@ -0,0 +1,237 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PassThrough } from "stream";
+import ExcelJS from "exceljs";
+
+vi.mock("../db", () => ({
+  getFilteredLeadsPage: vi.fn(),
+  getLeadEngagementCounts: vi.fn(),
+  getTagsForLeads: vi.fn(),
+  getUserById: vi.fn(),
+}));
+
+vi.mock("../_core/env", () => ({
+  ENV: { jwtSecret: "test-secret" },
+}));
+
+import { getFilteredLeadsPage, getLeadEngagementCounts, getTagsForLeads, getUserById } from "../db";
+import { handleLeadExport } from "../leadExporter";
+import {
+  createLeadExportToken,
+  fetchLeadExportBatches,
+  verifyLeadExportToken,
+  writeLeadExport,
+  type LeadExportRow,
+} from "../services/leadExport";
+import type { CustomFieldDefinition } from "../../shared/customFields";
+import type { Request, Response } from "express";
+
+function makeLead(overrides: Partial<LeadExportRow>): LeadExportRow {
+  return {
+    id: 1,
+    companyName: "Acme",
+    website: null,
+    industry: null,
+    companySize: null,
+    location: null,
+    description: null,
+    contactName: null,
+    contactTitle: null,
+    contactEmail: null,
+    contactLinkedin: null,
+    contactPhone: null,
+    status: "new",
+    score: 50,
+    notes: null,
+    tags: [],
+    customFields: null,
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+    updatedAt: new Date("2026-01-01T00:00:00Z"),
+    emailOpens: 0,
+    emailClicks: 0,
+    ...overrides,
+  };
+}
+
+async function* batchesOf(...batches: LeadExportRow[][]) {
+  yield* batches;
+}
+
+const dealSize: CustomFieldDefinition = {
+  id: 1,
+  fieldKey: "deal_size",
+  label: "Deal Size",
+  fieldType: "currency",
+  options: [],
+  currency: "USD",
+  position: 0,
+};
+const regions: CustomFieldDefinition = {
+  id: 2,
+  fieldKey: "regions",
+  label: "Regions",
+  fieldType: "multi_select",
+  options: ["EMEA", "NA"],
+  currency: null,
+  position: 1,
+};
+
+async function exportToBuffer(
+  format: "csv" | "xlsx" | "json",
+  columns: any[],
+  rows: LeadExportRow[][],
+  customFields: CustomFieldDefinition[] = []
+) {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on("data", chunk => chunks.push(Buffer.from(chunk)));
+  const finished = new Promise(resolve => output.on("end", resolve));
+
+  const count = await writeLeadExport(output, format, columns, batchesOf(...rows), customFields);
+  await finished;
+  return { count, data: Buffer.concat(chunks) };
+}
+
+describe("Lead Export", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getTagsForLeads).mockResolvedValue(new Map());
+  });
+
+  describe("writeLeadExport", () => {
+    it("should write CSV with the chosen columns and escape values", async () => {
+      const { count, data } = await exportToBuffer("csv", ["companyName", "notes", "scorePriority"], [
+        [makeLead({ companyName: "Acme, Inc.", notes: 'Said "hi"', score: 82 })],
+        [makeLead({ id: 2, companyName: "Globex", score: 10 })],
+      ]);
+
+      expect(count).toBe(2);
+      expect(data.toString("utf8")).toBe(
+        '\uFEFFCompany Name,Notes,Priority\r\n"Acme, Inc.","Said ""hi""",high\r\nGlobex,,low\r\n'
+      );
+    });
+
+    it("should write JSON including computed engagement counts", async () => {
+      const { data } = await exportToBuffer("json", ["companyName", "emailOpens", "emailClicks"], [
+        [makeLead({ emailOpens: 3, emailClicks: 1 }), makeLead({ id: 2, companyName: "Globex" })],
+      ]);
+
+      expect(JSON.parse(data.toString("utf8"))).toEqual([
+        { companyName: "Acme", emailOpens: 3, emailClicks: 1 },
+        { companyName: "Globex", emailOpens: 0, emailClicks: 0 },
+      ]);
+    });
+
+    it("should export custom field columns with their labels and stored types", async () => {
+      const lead = makeLead({ customFields: '{"deal_size":1200.5,"regions":["EMEA","NA"]}' });
+      const columns = ["companyName", "custom:deal_size", "custom:regions"];
+
+      const csv = await exportToBuffer("csv", columns, [[lead]], [dealSize, regions]);
+      expect(csv.data.toString("utf8")).toBe(
+        '\uFEFFCompany Name,Deal Size (USD),Regions\r\nAcme,1200.5,"EMEA, NA"\r\n'
+      );
+
+      const json = await exportToBuffer("json", columns, [[lead]], [dealSize, regions]);
+      expect(JSON.parse(json.data.toString("utf8"))).toEqual([
+        { companyName: "Acme", "custom:deal_size": 1200.5, "custom:regions": ["EMEA", "NA"] },
+      ]);
+    });
+
+    it("should export tag names", async () => {
+      const lead = makeLead({
+        tags: [{ id: 1, name: "SaaS", color: "#3b82f6" }, { id: 2, name: "Enterprise", color: "#22c55e" }],
+      });
+
+      const csv = await exportToBuffer("csv", ["companyName", "tags"], [[lead]]);
+      expect(csv.data.toString("utf8")).toBe('\uFEFFCompany Name,Tags\r\nAcme,"SaaS, Enterprise"\r\n');
+
+      const json = await exportToBuffer("json", ["tags"], [[lead]]);
+      expect(JSON.parse(json.data.toString("utf8"))).toEqual([{ tags: ["SaaS", "Enterprise"] }]);
+    });
+
+    it("should write valid JSON when nothing matches", async () => {
+      const { count, data } = await exportToBuffer("json", ["companyName"], []);
+      expect(count).toBe(0);
+      expect(JSON.parse(data.toString("utf8"))).toEqual([]);
+    });
+
+    it("should write an XLSX workbook", async () => {
+      const { data } = await exportToBuffer("xlsx", ["companyName", "score"], [
+        [makeLead({ score: 75 })],
+      ]);
+
+      const workbook = new ExcelJS.Workbook();
+      await workbook.xlsx.load(data as any);
+      const sheet = workbook.getWorksheet("Leads")!;
+      expect(sheet.getRow(1).values).toEqual([undefined, "Company Name", "Score"]);
+      expect(sheet.getRow(2).values).toEqual([undefined, "Acme", 75]);
+    });
+  });
+
+  describe("fetchLeadExportBatches", () => {
+    it("should attach tags and open and click counts to each page", async () => {
+      vi.mocked(getFilteredLeadsPage).mockResolvedValueOnce([makeLead({ id: 7 })] as any);
+      vi.mocked(getLeadEngagementCounts).mockResolvedValueOnce(new Map([[7, { opens: 4, clicks: 2 }]]));
+      vi.mocked(getTagsForLeads).mockResolvedValueOnce(new Map([[7, [{ id: 1, name: "SaaS", color: "#3b82f6" }]]]));
+
+      const batches: LeadExportRow[][] = [];
+      for await (const batch of fetchLeadExportBatches(1, { sortBy: "recent" })) {
+        batches.push(batch);
+      }
+
+      expect(batches).toHaveLength(1);
+      expect(batches[0][0]).toMatchObject({ id: 7, emailOpens: 4, emailClicks: 2, tags: [{ id: 1, name: "SaaS" }] });
+      expect(getFilteredLeadsPage).toHaveBeenCalledWith(1, { sortBy: "recent" }, null, 500, []);
+    });
+
+    it("should continue from the last lead of each full page", async () => {
+      const fullPage = Array.from({ length: 500 }, (_, i) => ({ ...makeLead({ id: 1000 - i }), sortValue: 90 - (i % 3) }));
+      vi.mocked(getFilteredLeadsPage)
+        .mockResolvedValueOnce(fullPage as any)
+        .mockResolvedValueOnce([{ ...makeLead({ id: 3 }), sortValue: 10 }] as any);
+      vi.mocked(getLeadEngagementCounts).mockImplementation(async ids => new Map(ids.map(id => [id, { opens: 0, clicks: 0 }])));
+
+      let count = 0;
+      for await (const batch of fetchLeadExportBatches(1, { sortBy: "score-high" })) {
+        count += batch.length;
+      }
+
+      expect(count).toBe(501);
+      expect(vi.mocked(getFilteredLeadsPage).mock.calls[1][2]).toEqual({ value: fullPage[499].sortValue, id: 501 });
+    });
+  });
+
+  describe("export tokens", () => {
+    it("should round-trip the user and export options", () => {
+      const options = { format: "csv" as const, columns: ["companyName" as const], filters: { status: "new", sortBy: "name" as const } };
+      const token = createLeadExportToken(5, options);
+
+      expect(verifyLeadExportToken(token)).toEqual({ userId: 5, options });
+    });
+
+    it("should reject tampered tokens", () => {
+      const token = createLeadExportToken(5, { format: "json", filters: { sortBy: "recent" } });
+      expect(verifyLeadExportToken(token.slice(0, -2) + "xx")).toBeNull();
+      expect(verifyLeadExportToken("")).toBeNull();
+    });
+  });
+
+  describe("download endpoint", () => {
+    it("should answer with a 500 when loading the export fails", async () => {
+      vi.mocked(getUserById).mockRejectedValue(new Error("Connection lost"));
+      const token = createLeadExportToken(5, { format: "csv", filters: { sortBy: "recent" } });
+      const res = {
+        headersSent: false,
+        setHeader: vi.fn(),
+        removeHeader: vi.fn(),
+        status: vi.fn(() => res),
+        type: vi.fn(() => res),
+        send: vi.fn(() => res),
+      };
+
+      await handleLeadExport({ query: { token } } as unknown as Request, res as unknown as Response);
+
+      expect(res.status).toHaveBeenCalledWith(500);
+      expect(res.send).toHaveBeenCalledWith("Export failed");
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../db", () => ({
+  getGeocodedLocations: vi.fn(),
+  getLeadById: vi.fn(),
+  getLeadLocations: vi.fn(),
+  getLeadsInBox: vi.fn(),
+  saveLeadLocation: vi.fn(),
+}));
+
+import { getGeocodedLocations, getLeadById, getLeadLocations, getLeadsInBox, saveLeadLocation } from "../db";
+import { findNearbyLeads, geocodePendingLeads, getLeadMap, getSampleLeadMap } from "../services/leadGeocoding";
+import type { Geocoder } from "../services/geocoders";
+import { distanceKm, pointInPolygon } from "../../shared/geo";
+import type { Lead } from "../../drizzle/schema";
+
+const AUSTIN = { lat: 30.2672, lng: -97.7431 };
+const ROUND_ROCK = { lat: 30.5083, lng: -97.6789 };
+const DALLAS = { lat: 32.7767, lng: -96.797 };
+
+/**
+ * A geocoder that knows a few places, and counts how often it's asked
+ */
+function fakeGeocoder(places: Record<string, { lat: number; lng: number }>, options: { fail?: boolean } = {}) {
+  return {
+    id: "fake",
+    geocode: vi.fn(async (address: string) => {
+      if (options.fail) throw new Error("Google Maps proxy credentials missing");
+      const place = places[address];
+      return place ? { ...place, formattedAddress: address } : null;
+    }),
+  } satisfies Geocoder;
+}
+
+function lead(id: number, location: string | null, geocoded: { lat: number; lng: number } | null = null, geocodedLocation: string | null = geocoded ? location : null) {
+  return {
+    id,
+    userId: 7,
+    companyName: `Company ${id}`,
+    status: "new",
+    score: 40,
+    location,
+    latitude: geocoded?.lat ?? null,
+    longitude: geocoded?.lng ?? null,
+    geocodedLocation,
+  } as Lead;
+}
+
+describe("Lead geocoding", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getGeocodedLocations).mockResolvedValue([]);
+    vi.mocked(saveLeadLocation).mockResolvedValue(undefined);
+  });
+
+  describe("Geometry", () => {
+    it("should measure distances along the earth's surface", () => {
+      expect(distanceKm(AUSTIN, AUSTIN)).toBe(0);
+      expect(distanceKm(AUSTIN, DALLAS)).toBeGreaterThan(290);
+      expect(distanceKm(AUSTIN, DALLAS)).toBeLessThan(300);
+    });
+
+    it("should tell whether a point is inside a drawn region", () => {
+      const centralTexas = [
+        { lat: 31, lng: -98.5 },
+        { lat: 31, lng: -97 },
+        { lat: 29.5, lng: -97 },
+        { lat: 29.5, lng: -98.5 },
+      ];
+      expect(pointInPolygon(AUSTIN, centralTexas)).toBe(true);
+      expect(pointInPolygon(DALLAS, centralTexas)).toBe(false);
+      expect(pointInPolygon(AUSTIN, centralTexas.slice(0, 2))).toBe(false);
+    });
+  });
+
+  describe("Geocoding", () => {
+    it("should look up each new location once and save it to every lead there", async () => {
+      vi.mocked(getLeadLocations).mockResolvedValue([
+        lead(1, "Austin, TX"),
+        lead(2, "austin, tx"),
+        lead(3, "Atlantis"),
+        lead(4, "Dallas, TX", DALLAS),
+      ]);
+      const geocoder = fakeGeocoder({ "Austin, TX": AUSTIN });
+
+      const run = await geocodePendingLeads(7, geocoder);
+
+      expect(run).toEqual({ located: 2, notFound: 1, remaining: 0, error: null });
+      expect(geocoder.geocode).toHaveBeenCalledTimes(2);
+      expect(saveLeadLocation).toHaveBeenCalledWith(7, "Austin, TX", AUSTIN);
+      expect(saveLeadLocation).toHaveBeenCalledWith(7, "Atlantis", null);
+    });
+
+    it("should look a lead up again once its location changes", async () => {
+      vi.mocked(getLeadLocations).mockResolvedValue([lead(1, "Dallas, TX", AUSTIN, "Austin, TX")]);
+      const geocoder = fakeGeocoder({ "Dallas, TX": DALLAS });
+
+      await geocodePendingLeads(7, geocoder);
+
+      expect(saveLeadLocation).toHaveBeenCalledWith(7, "Dallas, TX", DALLAS);
+    });
+
+    it("should reuse where another lead at the same location was placed", async () => {
+      vi.mocked(getLeadLocations).mockResolvedValue([lead(1, "Austin, TX")]);
+      vi.mocked(getGeocodedLocations).mockResolvedValue([{ location: "Austin, TX", latitude: AUSTIN.lat, longitude: AUSTIN.lng }]);
+      const geocoder = fakeGeocoder({});
+
+      const run = await geocodePendingLeads(7, geocoder);
+
+      expect(run.located).toBe(1);
+      expect(geocoder.geocode).not.toHaveBeenCalled();
+    });
+
+    it("should stop and leave leads pending when the geocoder fails", async () => {
+      vi.mocked(getLeadLocations).mockResolvedValue([lead(1, "Austin, TX"), lead(2, "Dallas, TX")]);
+
+      const run = await geocodePendingLeads(7, fakeGeocoder({}, { fail: true }));
+
+      expect(run).toEqual({ located: 0, notFound: 0, remaining: 2, error: "Google Maps proxy credentials missing" });
+      expect(saveLeadLocation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Map", () => {
+    it("should plot located leads and count the rest", async () => {
+      vi.mocked(getLeadLocations).mockResolvedValue([
+        lead(1, "Austin, TX", AUSTIN),
+        lead(2, "Dallas, TX"),
+        lead(3, "Atlantis", null, "Atlantis"),
+        lead(4, "Round Rock, TX", AUSTIN, "Austin, TX"),
+      ]);
+
+      const map = await getLeadMap(7);
+
+      expect(map.leads).toEqual([{ id: 1, companyName: "Company 1", status: "new", score: 40, location: "Austin, TX", ...AUSTIN }]);
+      expect(map.pending).toBe(2);
+      expect(map.unlocated).toBe(1);
+    });
+
+    it("should place sample leads with the stand-in geocoder", async () => {
+      const map = await getSampleLeadMap([lead(1, "Austin, TX"), lead(2, "Atlantis")]);
+
+      expect(map.leads).toHaveLength(1);
+      expect(map.leads[0]).toMatchObject({ id: 1, lat: AUSTIN.lat, lng: AUSTIN.lng });
+      expect(map).toMatchObject({ pending: 0, unlocated: 1 });
+    });
+  });
+
+  describe("Nearby leads", () => {
+    it("should list other leads within the radius, closest first", async () => {
+      vi.mocked(getLeadById).mockResolvedValue(lead(1, "Austin, TX", AUSTIN));
+      vi.mocked(getLeadsInBox).mockResolvedValue([
+        lead(1, "Austin, TX", AUSTIN),
+        lead(2, "Dallas, TX", DALLAS),
+        lead(3, "Round Rock, TX", ROUND_ROCK),
+        lead(4, "Austin, TX", AUSTIN),
+      ]);
+
+      const nearby = await findNearbyLeads(7, 1, 50, fakeGeocoder({}));
+
+      expect(nearby.center).toEqual(AUSTIN);
+      expect(nearby.leads.map(other => other.id)).toEqual([4, 3]);
+      expect(nearby.leads[1].distanceKm).toBeGreaterThan(25);
+      expect(nearby.leads[1].distanceKm).toBeLessThan(30);
+      const box = vi.mocked(getLeadsInBox).mock.calls[0][1];
+      expect(box.minLat).toBeLessThan(AUSTIN.lat);
+      expect(box.maxLng).toBeGreaterThan(AUSTIN.lng);
+    });
+
+    it("should place the lead first when it hasn't been yet", async () => {
+      vi.mocked(getLeadById).mockResolvedValue(lead(1, "Austin, TX"));
+      vi.mocked(getLeadsInBox).mockResolvedValue([]);
+
+      const nearby = await findNearbyLeads(7, 1, 50, fakeGeocoder({ "Austin, TX": AUSTIN }));
+
+      expect(nearby.center).toEqual(AUSTIN);
+      expect(saveLeadLocation).toHaveBeenCalledWith(7, "Austin, TX", AUSTIN);
+    });
+
+    it("should say when the lead can't be placed", async () => {
+      vi.mocked(getLeadById).mockResolvedValue(lead(1, "Atlantis"));
+      expect(await findNearbyLeads(7, 1, 50, fakeGeocoder({}))).toEqual({ center: null, leads: [] });
+      expect(getLeadsInBox).not.toHaveBeenCalled();
+
+      vi.mocked(getLeadById).mockResolvedValue(lead(1, null));
+      await expect(findNearbyLeads(7, 1, 50, fakeGeocoder({}))).rejects.toThrow("Add the lead's location");
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import ExcelJS from "exceljs";
+
+vi.mock("../db", () => ({
+  createLeads: vi.fn(),
+  getCustomFieldDefinitions: vi.fn(),
+  getScoringModelRow: vi.fn(),
+  getUserLeadIdentities: vi.fn(),
+}));
+
+vi.mock("../services/tags", () => ({
+  tagLeadsByName: vi.fn(),
+}));
+
+vi.mock("../services/leadEnrichment", () => ({
+  enrichNewLeads: vi.fn(),
+}));
+
+import { tagLeadsByName } from "../services/tags";
+import { createLeads, getCustomFieldDefinitions, getUserLeadIdentities } from "../db";
+import {
+  parseCsv,
+  parseImportFile,
+  suggestColumnMapping,
+  mapRowToLeadInput,
+  importLeads,
+} from "../services/leadImport";
+
+describe("Lead Import", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getUserLeadIdentities).mockResolvedValue([]);
+    vi.mocked(getCustomFieldDefinitions).mockResolvedValue([]);
+    vi.mocked(createLeads).mockImplementation(async (values) => values.map((_, i) => 100 + i));
+  });
+
+  describe("parseCsv", () => {
+    it("should split simple rows and columns", () => {
+      expect(parseCsv("a,b\n1,2")).toEqual([["a", "b"], ["1", "2"]]);
+    });
+
+    it("should handle quoted fields with commas, quotes and newlines", () => {
+      const rows = parseCsv('name,notes\r\n"Acme, Inc.","Said ""hi""\nthen left"\r\n');
+      expect(rows).toEqual([
+        ["name", "notes"],
+        ["Acme, Inc.", 'Said "hi"\nthen left'],
+      ]);
+    });
+
+    it("should strip a UTF-8 BOM", () => {
+      expect(parseCsv("\uFEFFcompany\nAcme")[0]).toEqual(["company"]);
+    });
+  });
+
+  describe("parseImportFile", () => {
+    it("should parse CSV files and drop blank rows", async () => {
+      const file = await parseImportFile("leads.csv", Buffer.from("Company,Email\nAcme,a@acme.com\n,\n"));
+      expect(file.headers).toEqual(["Company", "Email"]);
+      expect(file.rows).toHaveLength(1);
+    });
+
+    it("should parse XLSX files", async () => {
+      const workbook = new ExcelJS.Workbook();
+      const sheet = workbook.addWorksheet("Leads");
+      sheet.addRow(["Company", "Website"]);
+      sheet.addRow(["Globex", "https://globex.com"]);
+      const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+
+      const file = await parseImportFile("leads.xlsx", buffer);
+      expect(file.headers).toEqual(["Company", "Website"]);
+      expect(file.rows).toEqual([["Globex", "https://globex.com"]]);
+    });
+
+    it("should make duplicate headers unique", async () => {
+      const file = await parseImportFile("leads.csv", Buffer.from("Email,Email\na@x.com,b@x.com"));
+      expect(file.headers).toEqual(["Email", "Email (2)"]);
+    });
+
+    it("should reject unsupported file types", async () => {
+      await expect(parseImportFile("leads.txt", Buffer.from("x"))).rejects.toThrow("Unsupported file type");
+    });
+  });
+
+  describe("suggestColumnMapping", () => {
+    it("should map common header spellings onto lead fields", () => {
+      const mapping = suggestColumnMapping(["Company Name", "E-mail", "LinkedIn URL", "Job Title", "Favorite Color"]);
+      expect(mapping).toEqual({
+        "Company Name": "companyName",
+        "E-mail": "contactEmail",
+        "LinkedIn URL": "contactLinkedin",
+        "Job Title": "contactTitle",
+        "Favorite Color": null,
+      });
+    });
+
+    it("should match camelCase field names and assign each field once", () => {
+      const mapping = suggestColumnMapping(["contactEmail", "Email"]);
+      expect(mapping.contactEmail).toBe("contactEmail");
+      expect(mapping.Email).toBeNull();
+    });
+  });
+
+  describe("mapRowToLeadInput", () => {
+    it("should trim values and leave out blank cells", () => {
+      const input = mapRowToLeadInput(
+        ["Company", "Email", "Ignored"],
+        ["  Acme ", "", "x"],
+        { Company: "companyName", Email: "contactEmail", Ignored: null }
+      );
+      expect(input).toEqual({ companyName: "Acme" });
+    });
+  });
+
+  describe("importLeads", () => {
+    const headers = ["Company", "Website", "Email"];
+    const mapping = { Company: "companyName", Website: "website", Email: "contactEmail" } as const;
+
+    it("should insert valid rows with a calculated score", async () => {
+      const result = await importLeads(1, {
+        headers,
+        rows: [["Acme", "https://acme.com", "jane@acme.com"]],
+      }, { ...mapping });
+
+      expect(result.imported).toBe(1);
+      expect(result.failed).toBe(0);
+      const inserted = vi.mocked(createLeads).mock.calls[0][0];
+      expect(inserted[0]).toMatchObject({ userId: 1, companyName: "Acme", contactEmail: "jane@acme.com" });
+      expect(inserted[0].score).toBeGreaterThan(0);
+    });
+
+    it("should report per-row validation errors", async () => {
+      const result = await importLeads(1, {
+        headers,
+        rows: [["", "acme.com", "jane@acme.com"], ["Globex", "globex.com", "not-an-email"]],
+      }, { ...mapping });
+
+      expect(result.imported).toBe(0);
+      expect(result.failed).toBe(2);
+      expect(result.errors.map(e => [e.row, e.field])).toEqual([[2, "companyName"], [3, "contactEmail"]]);
+    });
+
+    it("should skip duplicates of existing leads and earlier rows", async () => {
+      vi.mocked(getUserLeadIdentities).mockResolvedValue([
+        { id: 42, companyName: "Acme Inc.", website: "https://www.acme.com", contactEmail: null },
+      ]);
+
+      const result = await importLeads(1, {
+        headers,
+        rows: [
+          ["Acme", "http://acme.com/about", ""],
+          ["Initech", "initech.com", "bill@initech.com"],
+          ["Initech LLC", "", ""],
+        ],
+      }, { ...mapping });
+
+      expect(result.imported).toBe(1);
+      expect(result.skippedDuplicates).toBe(2);
+      expect(result.duplicates).toEqual([
+        { row: 2, companyName: "Acme", matchedOn: "domain", existingLeadId: 42 },
+        { row: 4, companyName: "Initech LLC", matchedOn: "companyName", existingLeadId: null },
+      ]);
+    });
+
+    it("should import duplicates when skipping is disabled", async () => {
+      vi.mocked(getUserLeadIdentities).mockResolvedValue([
+        { id: 42, companyName: "Acme", website: null, contactEmail: null },
+      ]);
+
+      const result = await importLeads(1, { headers, rows: [["Acme", "", ""]] }, { ...mapping }, { skipDuplicates: false });
+      expect(result.imported).toBe(1);
+      expect(result.duplicates).toHaveLength(1);
+    });
+
+    it("should not write anything on a dry run", async () => {
+      const result = await importLeads(1, { headers, rows: [["Acme", "", ""]] }, { ...mapping }, { dryRun: true });
+      expect(result.imported).toBe(1);
+      expect(createLeads).not.toHaveBeenCalled();
+    });
+
+    it("should validate and store mapped custom field values", async () => {
+      vi.mocked(getCustomFieldDefinitions).mockResolvedValue([
+        { id: 1, userId: 1, fieldKey: "deal_size", label: "Deal Size", fieldType: "currency", options: null, currency: "USD", position: 0 },
+      ] as any);
+
+      const result = await importLeads(1, {
+        headers: ["Company", "Deal"],
+        rows: [["Acme", "$1,200.50"], ["Globex", "lots"]],
+      }, { Company: "companyName", Deal: "custom:deal_size" });
+
+      expect(result.imported).toBe(1);
+      expect(result.errors).toEqual([{ row: 3, field: "Deal Size", message: "Must be a number" }]);
+      const inserted = vi.mocked(createLeads).mock.calls[0][0];
+      expect(JSON.parse(inserted[0].customFields!)).toEqual({ deal_size: 1200.5 });
+    });
+
+    it("should link tags from the tags column to the new leads", async () => {
+      await importLeads(1, {
+        headers: ["Company", "Tags"],
+        rows: [["Acme", "SaaS, enterprise"], ["Globex", ""]],
+      }, { Company: "companyName", Tags: "tags" });
+
+      const inserted = vi.mocked(createLeads).mock.calls[0][0];
+      expect(inserted[0]).not.toHaveProperty("tags");
+      expect(tagLeadsByName).toHaveBeenCalledWith(1, [
+        { leadId: 100, names: ["SaaS", "enterprise"] },
+        { leadId: 101, names: [] },
+      ]);
+    });
+
+    it("should require a company name column", async () => {
+      await expect(importLeads(1, { headers, rows: [] }, { Company: null })).rejects.toThrow("Company Name");
+    });
+  });
+});
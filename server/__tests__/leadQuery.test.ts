@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../db", () => ({
+  countFilteredLeads: vi.fn(),
+  getFilteredLeadsPage: vi.fn(),
+  getTagsForLeads: vi.fn(),
+}));
+
+import { countFilteredLeads, getFilteredLeadsPage, getTagsForLeads } from "../db";
+import {
+  decodeLeadCursor,
+  encodeLeadCursor,
+  filterAndSortLeads,
+  queryLeads,
+  queryLeadsInMemory,
+  type QueryableLead,
+} from "../services/leadQuery";
+import type { CustomFieldDefinition } from "../../shared/customFields";
+
+function makeLead(overrides: Partial<QueryableLead>): QueryableLead {
+  return {
+    id: 1,
+    companyName: "Acme",
+    industry: null,
+    location: null,
+    status: "new",
+    score: 50,
+    tags: [],
+    customFields: null,
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+    updatedAt: new Date("2026-01-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+const dealSize: CustomFieldDefinition = {
+  id: 1,
+  fieldKey: "deal_size",
+  label: "Deal Size",
+  fieldType: "currency",
+  options: [],
+  currency: "USD",
+  position: 0,
+};
+
+describe("Lead Query", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getTagsForLeads).mockResolvedValue(new Map());
+  });
+
+  describe("lead cursors", () => {
+    it("should round-trip sort values and ids", () => {
+      const cursor = { value: "2026-01-01 10:00:00", id: 42 };
+      expect(decodeLeadCursor(encodeLeadCursor(cursor))).toEqual(cursor);
+      expect(decodeLeadCursor(encodeLeadCursor({ value: null, id: 7 }))).toEqual({ value: null, id: 7 });
+    });
+
+    it("should reject tampered cursors", () => {
+      expect(() => decodeLeadCursor("not-a-cursor")).toThrow("Invalid cursor");
+      expect(() => decodeLeadCursor(Buffer.from('[{"a":1},2]').toString("base64url"))).toThrow("Invalid cursor");
+    });
+  });
+
+  describe("filterAndSortLeads", () => {
+    const saas = { id: 10, name: "SaaS", color: "#3b82f6" };
+    const enterprise = { id: 11, name: "Enterprise", color: "#22c55e" };
+    const leads = [
+      makeLead({ id: 1, companyName: "Charlie", score: 80, status: "new", tags: [saas, enterprise], industry: "Software", location: "Austin, TX", technologies: ["HubSpot", "Stripe"] }),
+      makeLead({ id: 2, companyName: "Alpha", score: 45, status: "contacted", tags: [saas], industry: "Healthcare", emailOpens: 2, technologies: ["Shopify"] }),
+      makeLead({ id: 3, companyName: "Bravo", score: 20, status: "new", createdAt: new Date("2026-02-10T12:00:00Z"), emailClicks: 1 }),
+    ];
+
+    it("should filter by status, score priority and tag", () => {
+      expect(filterAndSortLeads(leads, { status: "new", sortBy: "recent" }).map(l => l.id)).toEqual([3, 1]);
+      expect(filterAndSortLeads(leads, { scorePriority: "medium", sortBy: "recent" }).map(l => l.id)).toEqual([2]);
+      expect(filterAndSortLeads(leads, { tagIds: [10], sortBy: "name" }).map(l => l.id)).toEqual([2, 1]);
+      expect(filterAndSortLeads(leads, { tagIds: [10, 11], sortBy: "name" }).map(l => l.id)).toEqual([2, 1]);
+      expect(filterAndSortLeads(leads, { tagIds: [10, 11], tagMatch: "all", sortBy: "name" }).map(l => l.id)).toEqual([1]);
+    });
+
+    it("should filter by score range, industry and location", () => {
+      expect(filterAndSortLeads(leads, { scoreMin: 40, scoreMax: 79, sortBy: "recent" }).map(l => l.id)).toEqual([2]);
+      expect(filterAndSortLeads(leads, { industry: "soft", sortBy: "recent" }).map(l => l.id)).toEqual([1]);
+      expect(filterAndSortLeads(leads, { location: "austin", sortBy: "recent" }).map(l => l.id)).toEqual([1]);
+    });
+
+    it("should filter by any of the detected technologies", () => {
+      expect(filterAndSortLeads(leads, { technologies: ["hubspot"], sortBy: "recent" }).map(l => l.id)).toEqual([1]);
+      expect(filterAndSortLeads(leads, { technologies: ["Shopify", "Stripe"], sortBy: "name" }).map(l => l.id)).toEqual([2, 1]);
+      expect(filterAndSortLeads(leads, { technologies: ["Marketo"], sortBy: "recent" })).toHaveLength(0);
+    });
+
+    it("should filter by inclusive created dates", () => {
+      expect(filterAndSortLeads(leads, { createdFrom: "2026-02-10", sortBy: "recent" }).map(l => l.id)).toEqual([3]);
+      expect(filterAndSortLeads(leads, { createdTo: "2026-02-10", sortBy: "recent" })).toHaveLength(3);
+      expect(filterAndSortLeads(leads, { createdTo: "2026-02-09", sortBy: "recent" }).map(l => l.id)).toEqual([2, 1]);
+    });
+
+    it("should filter by engagement", () => {
+      expect(filterAndSortLeads(leads, { engagement: "opened", sortBy: "recent" }).map(l => l.id)).toEqual([2]);
+      expect(filterAndSortLeads(leads, { engagement: "clicked", sortBy: "recent" }).map(l => l.id)).toEqual([3]);
+      expect(filterAndSortLeads(leads, { engagement: "none", sortBy: "recent" }).map(l => l.id)).toEqual([1]);
+    });
+
+    it("should sort by score and name", () => {
+      expect(filterAndSortLeads(leads, { sortBy: "score-high" }).map(l => l.id)).toEqual([1, 2, 3]);
+      expect(filterAndSortLeads(leads, { sortBy: "name" }).map(l => l.companyName)).toEqual(["Alpha", "Bravo", "Charlie"]);
+    });
+
+    it("should filter and sort by custom field values", () => {
+      const withDeals = [
+        makeLead({ id: 1, customFields: '{"deal_size":500}' }),
+        makeLead({ id: 2, customFields: '{"deal_size":5000}' }),
+        makeLead({ id: 3 }),
+      ];
+
+      expect(filterAndSortLeads(withDeals, { sortBy: "custom:deal_size:desc" }, [dealSize]).map(l => l.id)).toEqual([2, 1, 3]);
+      expect(filterAndSortLeads(
+        withDeals,
+        { customField: { key: "deal_size", min: "1000" }, sortBy: "recent" },
+        [dealSize]
+      ).map(l => l.id)).toEqual([2]);
+    });
+  });
+
+  describe("queryLeads", () => {
+    const rows = [
+      { ...makeLead({ id: 9 }), sortValue: "2026-01-03 00:00:00" },
+      { ...makeLead({ id: 8 }), sortValue: "2026-01-02 00:00:00" },
+      { ...makeLead({ id: 7 }), sortValue: "2026-01-01 00:00:00" },
+    ];
+
+    it("should return a page, the cursor after it and the total count", async () => {
+      vi.mocked(getFilteredLeadsPage).mockResolvedValue(rows as any);
+      vi.mocked(countFilteredLeads).mockResolvedValue(25);
+
+      const page = await queryLeads(1, { sortBy: "recent" }, null, 2);
+
+      expect(getFilteredLeadsPage).toHaveBeenCalledWith(1, { sortBy: "recent" }, null, 3, []);
+      expect(page.items.map(lead => lead.id)).toEqual([9, 8]);
+      expect(page.items[0]).not.toHaveProperty("sortValue");
+      expect(page.items[0].tags).toEqual([]);
+      expect(decodeLeadCursor(page.nextCursor!)).toEqual({ value: "2026-01-02 00:00:00", id: 8 });
+      expect(page.totalCount).toBe(25);
+    });
+
+    it("should pass the decoded cursor through and skip counting later pages", async () => {
+      vi.mocked(getFilteredLeadsPage).mockResolvedValue(rows.slice(2) as any);
+      const cursor = encodeLeadCursor({ value: "2026-01-02 00:00:00", id: 8 });
+
+      const page = await queryLeads(1, { sortBy: "recent" }, cursor, 2);
+
+      expect(vi.mocked(getFilteredLeadsPage).mock.calls[0][2]).toEqual({ value: "2026-01-02 00:00:00", id: 8 });
+      expect(page.nextCursor).toBeNull();
+      expect(page.totalCount).toBeNull();
+      expect(countFilteredLeads).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("queryLeadsInMemory", () => {
+    it("should page through every matching lead exactly once", () => {
+      const leads = Array.from({ length: 7 }, (_, i) => makeLead({ id: i + 1, score: i % 2 === 0 ? 60 : 30 }));
+      const seen: number[] = [];
+      let cursor: string | null = null;
+
+      do {
+        const page = queryLeadsInMemory(leads, { sortBy: "score-high" }, cursor, 3);
+        if (!cursor) expect(page.totalCount).toBe(7);
+        seen.push(...page.items.map(lead => lead.id));
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      expect(seen).toEqual([7, 5, 3, 1, 6, 4, 2]);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { parseCompanyDataset } from "../services/leadSources/localDataset";
+import { filterCompanies } from "../services/leadSources/companyFilter";
+import type { LeadSourceQuery } from "../services/leadSources";
+
+const DATASET = [
+  "Company,Website,Industry,Employees,City,About,Contact Name,Email",
+  "Acme Payments,acme.com,Finance,120,\"Austin, TX\",Payment processing for SaaS,Carla Chief,carla@acme.com",
+  "Globex,globex.com,Manufacturing,4000,\"Chicago, IL\",Industrial automation,,",
+  ",missing.com,Finance,10,Boston,No company name,,",
+  "Initech,initech.com,Finance,35,\"Austin, TX\",Banking software,,",
+].join("\n");
+
+function query(overrides: Partial<LeadSourceQuery> = {}): LeadSourceQuery {
+  return { query: "", page: 1, perPage: 10, ...overrides };
+}
+
+describe("Lead sources", () => {
+  describe("parseCompanyDataset", () => {
+    it("should recognise import-style headers and skip rows without a company", () => {
+      const companies = parseCompanyDataset(DATASET);
+
+      expect(companies).toHaveLength(3);
+      expect(companies[0]).toMatchObject({
+        source: "localDataset",
+        externalId: "2",
+        companyName: "Acme Payments",
+        website: "acme.com",
+        companySize: "120",
+        location: "Austin, TX",
+        description: "Payment processing for SaaS",
+        contactName: "Carla Chief",
+        contactEmail: "carla@acme.com",
+        contactTitle: "",
+      });
+    });
+  });
+
+  describe("filterCompanies", () => {
+    const companies = parseCompanyDataset(DATASET);
+
+    it("should rank companies by the query's keywords", () => {
+      const result = filterCompanies(companies, query({ query: "companies that need payment software" }));
+
+      expect(result.leads.map(lead => lead.companyName)).toEqual(["Acme Payments", "Initech"]);
+    });
+
+    it("should filter by industry, location and company size range", () => {
+      expect(filterCompanies(companies, query({ industry: "finance", location: "austin" })).totalResults).toBe(2);
+      expect(filterCompanies(companies, query({ companySize: "51-200" })).leads.map(lead => lead.companyName))
+        .toEqual(["Acme Payments"]);
+      expect(filterCompanies(companies, query({ companySize: "500+" })).leads.map(lead => lead.companyName))
+        .toEqual(["Globex"]);
+    });
+
+    it("should page through the matches", () => {
+      const first = filterCompanies(companies, query({ perPage: 2 }));
+      const second = filterCompanies(companies, query({ perPage: 2, page: 2 }));
+
+      expect(first).toMatchObject({ hasMore: true, totalResults: 3 });
+      expect(second.leads.map(lead => lead.companyName)).toEqual(["Initech"]);
+      expect(second.hasMore).toBe(false);
+    });
+  });
+});
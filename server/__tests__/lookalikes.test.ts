@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../db", () => ({
+  getEnrichmentDataForLeads: vi.fn(),
+  getLeadById: vi.fn(),
+  getUserLeadsByStatus: vi.fn(),
+}));
+
+vi.mock("../services/leadDiscovery", () => ({
+  searchLeadSources: vi.fn(),
+  annotateKnownCompanies: vi.fn(async (_userId: number, leads: unknown[]) => leads.map(lead => ({ ...(lead as object), knownLead: null }))),
+}));
+
+import { getEnrichmentDataForLeads, getLeadById, getUserLeadsByStatus } from "../db";
+import { searchLeadSources, type DiscoveredLead } from "../services/leadDiscovery";
+import { buildLookalikeProfile, findSimilarLeads } from "../services/lookalikes";
+import type { EnrichmentData, Lead, User } from "../../drizzle/schema";
+
+const user = { id: 7, name: "Dana", email: "dana@example.com" } as User;
+
+function seed(id: number, overrides: Partial<Lead> = {}) {
+  return {
+    id,
+    userId: 7,
+    companyName: `Seed ${id}`,
+    website: `seed${id}.com`,
+    industry: "Fintech",
+    companySize: "120 employees",
+    location: "Austin, TX",
+    description: "Payments platform for lending teams",
+    status: "won",
+    ...overrides,
+  } as Lead;
+}
+
+function result(companyName: string, overrides: Partial<DiscoveredLead> = {}) {
+  return {
+    source: "apollo",
+    companyName,
+    website: `${companyName.toLowerCase().replace(/\s+/g, "")}.com`,
+    industry: "Fintech",
+    companySize: "150 employees",
+    location: "Austin, TX",
+    description: "",
+    contactName: "",
+    contactTitle: "",
+    contactEmail: "",
+    contactLinkedin: "",
+    ...overrides,
+  } as DiscoveredLead;
+}
+
+describe("Lookalike discovery", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getEnrichmentDataForLeads).mockResolvedValue([]);
+    vi.mocked(searchLeadSources).mockResolvedValue({ leads: [], hasMore: false, totalResults: 0, creditsUsed: 0, sources: [] });
+  });
+
+  it("should profile what the seed leads have in common", () => {
+    const profile = buildLookalikeProfile(
+      [
+        seed(1),
+        seed(2, { industry: "fintech", companySize: "51-200", description: "Lending software for credit unions" }),
+        seed(3, { industry: "Insurance", companySize: "2,000 employees", location: "Denver, CO" }),
+      ],
+      new Map([[1, ["Stripe", "Segment"]], [2, ["stripe"]]])
+    );
+
+    expect(profile).toMatchObject({
+      seedLeadIds: [1, 2, 3],
+      industries: ["Fintech", "Insurance"],
+      sizeBand: "51-200",
+      locations: ["Austin, TX", "Denver, CO"],
+      technologies: ["Stripe", "Segment"],
+    });
+    expect(profile.keywords.slice(0, 2)).toEqual(["lending", "payments"]);
+    expect(profile.keywords).not.toContain("for");
+  });
+
+  it("should search by the profile and rank results by similarity with reasons", async () => {
+    vi.mocked(getLeadById).mockResolvedValue(seed(1));
+    vi.mocked(getEnrichmentDataForLeads).mockResolvedValue([
+      { leadId: 1, dataType: "technology", dataKey: "Stripe", dataValue: '"Payments"', source: "techStack", confidence: 80 } as EnrichmentData,
+      { leadId: 1, dataType: "technology", dataKey: "stripe", dataValue: '"Other"', source: "apollo", confidence: 70 } as EnrichmentData,
+      // Too unsure to describe the seed by
+      { leadId: 1, dataType: "technology", dataKey: "React", dataValue: '"JavaScript Framework"', source: "techStack", confidence: 40 } as EnrichmentData,
+    ]);
+    vi.mocked(searchLeadSources).mockResolvedValue({
+      leads: [
+        result("Far Off", { industry: "Retail", companySize: "5 employees", location: "Paris, France" }),
+        result("Seed 1", { website: "https://www.seed1.com" }),
+        result("Close Match", { description: "Payments for lending teams, built on Stripe" }),
+        result("Nearby", { location: "Dallas, TX", companySize: "300 employees" }),
+      ],
+      hasMore: false,
+      totalResults: 4,
+      creditsUsed: 4,
+      sources: [],
+    });
+
+    const search = await findSimilarLeads(user, { leadId: 1, perPage: 25 });
+
+    expect(getLeadById).toHaveBeenCalledWith(1, 7);
+    expect(searchLeadSources).toHaveBeenCalledWith(user, expect.objectContaining({
+      query: "Fintech payments platform lending teams",
+      excludeCompanies: ["Seed 1"],
+      parsedFilters: {
+        industries: ["Fintech"],
+        keywords: ["payments", "platform", "lending", "teams"],
+        employeeRanges: ["51,200"],
+        locations: ["Austin, TX"],
+        technologies: ["Stripe"],
+      },
+    }));
+    expect(search.leads.map(lead => [lead.companyName, lead.similarity])).toEqual([
+      ["Close Match", 100],
+      ["Nearby", 48],
+      ["Far Off", 0],
+    ]);
+    expect(search.leads[0].reasons).toEqual([
+      "Same industry: Fintech",
+      "Same size: 51-200 employees",
+      "Same location: Austin, TX",
+      "Uses Stripe",
+      "Also about payments, lending, teams",
+    ]);
+    expect(search.leads[1].reasons).toContain("Same region: TX");
+    expect(search.leads[2].reasons).toEqual([]);
+  });
+
+  it("should build the profile from won leads when no lead is given", async () => {
+    vi.mocked(getUserLeadsByStatus).mockResolvedValue([seed(1), seed(2)]);
+
+    const search = await findSimilarLeads(user, { perPage: 25 });
+
+    expect(getUserLeadsByStatus).toHaveBeenCalledWith(7, "won");
+    expect(getEnrichmentDataForLeads).toHaveBeenCalledWith([1, 2], "technology");
+    expect(search.profile.seedCompanies).toEqual(["Seed 1", "Seed 2"]);
+
+    vi.mocked(getUserLeadsByStatus).mockResolvedValue([]);
+    await expect(findSimilarLeads(user, { perPage: 25 })).rejects.toThrow("won leads");
+
+    vi.mocked(getLeadById).mockResolvedValue(undefined);
+    await expect(findSimilarLeads(user, { leadId: 99, perPage: 25 })).rejects.toThrow("Lead not found");
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.hoisted(() => {
+  process.env.APOLLO_API_KEY = "test-key";
+});
+
+vi.mock("../_core/llm", () => ({
+  invokeLLM: vi.fn(),
+}));
+
+vi.mock("../services/apolloUsageTracker", () => ({
+  logApolloUsage: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock("../services/apolloCreditQuota", () => ({
+  assertApolloCreditsAvailable: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { invokeLLM } from "../_core/llm";
+import { searchOrganizations } from "../apollo";
+import { parseSearchQuery } from "../services/queryUnderstanding";
+import { discoveryCacheKey } from "../services/discoveryCache";
+import { formatEmployeeRange, type ParsedSearchFilters } from "../../shared/discovery";
+
+const fetchMock = vi.fn();
+vi.stubGlobal("fetch", fetchMock);
+
+function llmResponse(content: unknown) {
+  return { choices: [{ message: { content: typeof content === "string" ? content : JSON.stringify(content) } }] } as never;
+}
+
+const dentalFilters: ParsedSearchFilters = {
+  industries: ["Medical Practice"],
+  keywords: ["dental clinic"],
+  employeeRanges: ["50,999999"],
+  locations: ["Ohio, US"],
+  technologies: [],
+};
+
+describe("Query understanding", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should turn a natural-language query into Apollo filters", async () => {
+    vi.mocked(invokeLLM).mockResolvedValue(llmResponse({
+      industries: ["Medical Practice", "medical practice"],
+      keywords: [" dental clinic ", ""],
+      employeeRanges: ["999999,50"],
+      locations: ["Ohio, US"],
+      technologies: [],
+    }));
+
+    const filters = await parseSearchQuery({ query: "dental clinics in Ohio with 50+ staff" });
+
+    expect(filters).toEqual(dentalFilters);
+    const request = vi.mocked(invokeLLM).mock.calls[0][0];
+    expect(request.response_format).toMatchObject({ type: "json_schema", json_schema: { name: "apollo_search_filters" } });
+    expect(JSON.stringify(request.messages)).toContain("dental clinics in Ohio with 50+ staff");
+  });
+
+  it("should fail when the LLM returns nothing usable", async () => {
+    vi.mocked(invokeLLM).mockResolvedValueOnce(llmResponse("not json"));
+    await expect(parseSearchQuery({ query: "anything" })).rejects.toThrow("Could not understand");
+
+    vi.mocked(invokeLLM).mockResolvedValueOnce(llmResponse({ industries: "Dental", keywords: [] }));
+    await expect(parseSearchQuery({ query: "anything" })).rejects.toThrow("Could not understand");
+
+    vi.mocked(invokeLLM).mockResolvedValueOnce(llmResponse({ industries: [" "], keywords: [], employeeRanges: ["fifty"], locations: [], technologies: [] }));
+    await expect(parseSearchQuery({ query: "anything" })).rejects.toThrow("Could not find any filters");
+  });
+
+  it("should search Apollo by the parsed filters instead of company name", async () => {
+    fetchMock.mockResolvedValue({
+      ok: true,
+      json: async () => ({ organizations: [], pagination: { page: 1, per_page: 10, total_entries: 0, total_pages: 0 } }),
+    });
+
+    await searchOrganizations({
+      query: "dental clinics in Ohio with 50+ staff",
+      location: "Columbus, OH",
+      parsedFilters: { ...dentalFilters, technologies: ["Google Analytics"] },
+    }, 1);
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.q_organization_name).toBeUndefined();
+    expect(body).toMatchObject({
+      q_organization_keyword_tags: ["dental clinic", "Medical Practice"],
+      organization_num_employees_ranges: ["50,999999"],
+      organization_locations: ["Ohio, US", "Columbus, OH"],
+      currently_using_any_of_technology_uids: ["google_analytics"],
+    });
+  });
+
+  it("should cache parsed and unparsed searches separately", () => {
+    const query = { query: "dental clinics", page: 1, perPage: 10 };
+    const reordered = { ...dentalFilters, industries: ["medical practice"], keywords: ["Dental Clinic"] };
+
+    expect(discoveryCacheKey("apollo", 1, { ...query, parsedFilters: dentalFilters }))
+      .not.toBe(discoveryCacheKey("apollo", 1, query));
+    expect(discoveryCacheKey("apollo", 1, { ...query, parsedFilters: dentalFilters }))
+      .toBe(discoveryCacheKey("apollo", 1, { ...query, parsedFilters: reordered }));
+  });
+
+  it("should format employee ranges for display", () => {
+    expect(formatEmployeeRange("51,200")).toBe("51-200");
+    expect(formatEmployeeRange("50,999999")).toBe("50+");
+  });
+});
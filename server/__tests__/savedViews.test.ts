@@ -0,0 +1,271 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../db", () => ({
+  countFilteredLeads: vi.fn(),
+  createSavedView: vi.fn(),
+  createSavedViewShare: vi.fn(),
+  deleteSavedViewShare: vi.fn(),
+  getFilteredLeadIds: vi.fn(),
+  getFilteredLeadsPage: vi.fn(),
+  getCustomFieldDefinitions: vi.fn().mockResolvedValue([]),
+  getSavedViewById: vi.fn(),
+  getSavedViewLeadIds: vi.fn(),
+  getSavedViewShare: vi.fn(),
+  getSavedViewsSharedWith: vi.fn(),
+  getUserByEmail: vi.fn(),
+  getUserById: vi.fn(),
+  getUserSavedViews: vi.fn(),
+  replaceSavedViewLeads: vi.fn(),
+  updateSavedView: vi.fn(),
+  updateSavedViewSharePin: vi.fn(),
+}));
+
+import {
+  createSavedView,
+  createSavedViewShare,
+  getSavedViewById,
+  getSavedViewLeadIds,
+  getSavedViewShare,
+  getSavedViewsSharedWith,
+  getUserByEmail,
+  getUserSavedViews,
+  replaceSavedViewLeads,
+  updateSavedView,
+  updateSavedViewSharePin,
+} from "../db";
+import {
+  SNAPSHOT_LIMIT,
+  createView,
+  getSavedViewForUser,
+  listSavedViews,
+  refreshSnapshot,
+  restrictToSnapshot,
+  setViewPinned,
+  shareView,
+  toSavedViewDetails,
+  viewQueryFilters,
+  type SavedViewDetails,
+  type ViewLeadSource,
+} from "../services/savedViews";
+import type { SavedView } from "../../drizzle/schema";
+
+function makeRow(overrides: Partial<SavedView> = {}): SavedView {
+  return {
+    id: 5,
+    userId: 1,
+    name: "Hot SaaS",
+    viewType: "dynamic",
+    filters: JSON.stringify({ status: "new", tagIds: [3], sortBy: "score-high" }),
+    columns: null,
+    pinned: 0,
+    snapshotAt: null,
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+    updatedAt: new Date("2026-01-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+function makeSource(ids: number[] = []): ViewLeadSource {
+  return {
+    count: vi.fn().mockResolvedValue(ids.length),
+    ids: vi.fn().mockResolvedValue(ids),
+  };
+}
+
+const owned = (row: SavedView) => toSavedViewDetails(row, { isOwner: true, pinned: false, ownerName: null });
+const shared = (row: SavedView) => toSavedViewDetails(row, { isOwner: false, pinned: false, ownerName: "Sam" });
+
+describe("Saved Views", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("toSavedViewDetails", () => {
+    it("should parse stored filters and columns", () => {
+      const view = owned(makeRow({ columns: '["companyName","score","custom:deal_size"]', pinned: 1 }));
+
+      expect(view.filters).toEqual({ status: "new", tagIds: [3], sortBy: "score-high" });
+      expect(view.columns).toEqual(["companyName", "score", "custom:deal_size"]);
+      expect(view.ownerId).toBe(1);
+    });
+
+    it("should fall back to defaults when stored JSON no longer validates", () => {
+      const view = owned(makeRow({ filters: "{not json", columns: '["password"]' }));
+
+      expect(view.filters).toEqual({ sortBy: "recent" });
+      expect(view.columns).toBeNull();
+    });
+  });
+
+  describe("viewQueryFilters", () => {
+    it("should let owners replace a dynamic view's filters", () => {
+      const view = owned(makeRow());
+      expect(viewQueryFilters(view)).toEqual(view.filters);
+      expect(viewQueryFilters(view, { status: "contacted", sortBy: "name" })).toEqual({ status: "contacted", sortBy: "name" });
+    });
+
+    it("should enforce stored filters for teammates and only take their sort", () => {
+      const view = shared(makeRow());
+      expect(viewQueryFilters(view, { sortBy: "name" })).toEqual({ status: "new", tagIds: [3], sortBy: "name" });
+    });
+
+    it("should limit static views to their snapshot instead of re-running filters", () => {
+      expect(viewQueryFilters(shared(makeRow({ viewType: "static" })))).toEqual({ sortBy: "score-high", snapshotViewId: 5 });
+      expect(viewQueryFilters(owned(makeRow({ viewType: "static" })), { tagIds: [3], sortBy: "recent", snapshotViewId: 99 }))
+        .toEqual({ tagIds: [3], sortBy: "recent", snapshotViewId: 5 });
+    });
+  });
+
+  describe("getSavedViewForUser", () => {
+    it("should return owned views", async () => {
+      vi.mocked(getSavedViewById).mockResolvedValue(makeRow({ pinned: 1 }));
+
+      const view = await getSavedViewForUser(5, 1);
+
+      expect(view.isOwner).toBe(true);
+      expect(view.pinned).toBe(true);
+      expect(getSavedViewShare).not.toHaveBeenCalled();
+    });
+
+    it("should only return other users' views when shared", async () => {
+      vi.mocked(getSavedViewById).mockResolvedValue(makeRow());
+      vi.mocked(getSavedViewShare).mockResolvedValue(undefined);
+
+      await expect(getSavedViewForUser(5, 2)).rejects.toThrow("Saved view not found");
+
+      vi.mocked(getSavedViewShare).mockResolvedValue({ id: 1, viewId: 5, userId: 2, pinned: 1, createdAt: new Date() });
+      const view = await getSavedViewForUser(5, 2);
+      expect(view.isOwner).toBe(false);
+      expect(view.pinned).toBe(true);
+    });
+  });
+
+  describe("listSavedViews", () => {
+    it("should count each view's leads against its owner", async () => {
+      vi.mocked(getUserSavedViews).mockResolvedValue([makeRow()]);
+      vi.mocked(getSavedViewsSharedWith).mockResolvedValue([
+        { view: makeRow({ id: 6, userId: 3, viewType: "static" }), pinned: 1, ownerName: null, ownerEmail: "sam@example.com" },
+      ]);
+      const source = makeSource([1, 2, 3]);
+
+      const views = await listSavedViews(1, source);
+
+      expect(views.map(view => [view.id, view.isOwner, view.leadCount])).toEqual([[5, true, 3], [6, false, 3]]);
+      expect(views[1].ownerName).toBe("sam@example.com");
+      expect(source.count).toHaveBeenCalledWith(3, { sortBy: "score-high", snapshotViewId: 6 });
+    });
+  });
+
+  describe("createView", () => {
+    it("should save dynamic views without a snapshot", async () => {
+      vi.mocked(createSavedView).mockResolvedValue(11);
+      const source = makeSource();
+
+      const result = await createView(1, {
+        name: "Hot SaaS",
+        viewType: "dynamic",
+        filters: { tagIds: [3], sortBy: "recent" },
+        columns: ["companyName", "score"],
+        pinned: true,
+      }, source);
+
+      expect(result).toEqual({ id: 11 });
+      expect(createSavedView).toHaveBeenCalledWith(expect.objectContaining({
+        filters: '{"tagIds":[3],"sortBy":"recent"}',
+        columns: '["companyName","score"]',
+        pinned: 1,
+      }));
+      expect(source.ids).not.toHaveBeenCalled();
+      expect(replaceSavedViewLeads).not.toHaveBeenCalled();
+    });
+
+    it("should freeze the matching lead IDs for static views", async () => {
+      vi.mocked(createSavedView).mockResolvedValue(12);
+      const source = makeSource([4, 8, 15]);
+
+      await createView(1, { name: "Q1 list", viewType: "static", filters: { status: "new", sortBy: "recent", snapshotViewId: 3 }, pinned: false }, source);
+
+      expect(source.ids).toHaveBeenCalledWith(1, { status: "new", sortBy: "recent", snapshotViewId: 3 }, SNAPSHOT_LIMIT + 1);
+      expect(vi.mocked(createSavedView).mock.calls[0][0].filters).toBe('{"status":"new","sortBy":"recent"}');
+      expect(replaceSavedViewLeads).toHaveBeenCalledWith(12, [4, 8, 15]);
+    });
+
+    it("should refuse static views over the snapshot limit", async () => {
+      const source = makeSource(Array.from({ length: SNAPSHOT_LIMIT + 1 }, (_, i) => i + 1));
+
+      await expect(createView(1, { name: "Everything", viewType: "static", filters: { sortBy: "recent" }, pinned: false }, source))
+        .rejects.toThrow("Static views can hold at most");
+      expect(createSavedView).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("refreshSnapshot", () => {
+    it("should re-freeze a static view from its stored filters", async () => {
+      vi.mocked(getSavedViewById).mockResolvedValue(makeRow({ viewType: "static" }));
+      const source = makeSource([2, 3]);
+
+      expect(await refreshSnapshot(1, 5, source)).toEqual({ leadCount: 2 });
+      expect(source.ids).toHaveBeenCalledWith(1, { status: "new", tagIds: [3], sortBy: "score-high" }, SNAPSHOT_LIMIT + 1);
+      expect(replaceSavedViewLeads).toHaveBeenCalledWith(5, [2, 3]);
+    });
+
+    it("should reject dynamic views", async () => {
+      vi.mocked(getSavedViewById).mockResolvedValue(makeRow());
+      await expect(refreshSnapshot(1, 5, makeSource())).rejects.toThrow("Only static views have a snapshot");
+    });
+  });
+
+  describe("shareView", () => {
+    beforeEach(() => {
+      vi.mocked(getSavedViewById).mockResolvedValue(makeRow());
+    });
+
+    it("should share with another user once", async () => {
+      vi.mocked(getUserByEmail).mockResolvedValue({ id: 2, name: "Sam", email: "sam@example.com" } as any);
+      vi.mocked(getSavedViewShare).mockResolvedValueOnce(undefined);
+
+      expect(await shareView(1, 5, " sam@example.com ")).toEqual({ userId: 2, name: "Sam", email: "sam@example.com" });
+      expect(getUserByEmail).toHaveBeenCalledWith("sam@example.com");
+      expect(createSavedViewShare).toHaveBeenCalledWith(5, 2);
+
+      vi.mocked(getSavedViewShare).mockResolvedValueOnce({ id: 1, viewId: 5, userId: 2, pinned: 0, createdAt: new Date() });
+      await shareView(1, 5, "sam@example.com");
+      expect(createSavedViewShare).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reject unknown emails and the owner", async () => {
+      vi.mocked(getUserByEmail).mockResolvedValueOnce(undefined);
+      await expect(shareView(1, 5, "nobody@example.com")).rejects.toThrow("No user found");
+
+      vi.mocked(getUserByEmail).mockResolvedValueOnce({ id: 1, name: "Me", email: "me@example.com" } as any);
+      await expect(shareView(1, 5, "me@example.com")).rejects.toThrow("You already own this view");
+    });
+
+    it("should only let the owner share", async () => {
+      vi.mocked(getSavedViewShare).mockResolvedValue({ id: 1, viewId: 5, userId: 2, pinned: 0, createdAt: new Date() });
+      await expect(shareView(2, 5, "other@example.com")).rejects.toThrow("Only the owner can change this view");
+    });
+  });
+
+  describe("setViewPinned", () => {
+    it("should pin on the view for owners and on the share for teammates", async () => {
+      vi.mocked(getSavedViewById).mockResolvedValue(makeRow());
+      await setViewPinned(1, 5, true);
+      expect(updateSavedView).toHaveBeenCalledWith(5, 1, { pinned: 1 });
+
+      vi.mocked(getSavedViewShare).mockResolvedValue({ id: 1, viewId: 5, userId: 2, pinned: 0, createdAt: new Date() });
+      await setViewPinned(2, 5, true);
+      expect(updateSavedViewSharePin).toHaveBeenCalledWith(5, 2, true);
+    });
+  });
+
+  describe("restrictToSnapshot", () => {
+    it("should keep only frozen leads when a snapshot is named", async () => {
+      vi.mocked(getSavedViewLeadIds).mockResolvedValue([2, 3]);
+      const leads = [{ id: 1 }, { id: 2 }, { id: 3 }];
+
+      expect(await restrictToSnapshot(leads, { sortBy: "recent" })).toEqual(leads);
+      expect(await restrictToSnapshot(leads, { sortBy: "recent", snapshotViewId: 5 })).toEqual([{ id: 2 }, { id: 3 }]);
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../db", () => ({
+  getContactsForLeads: vi.fn(),
+  getEnrichmentDataForLeads: vi.fn(),
+  getFilteredLeadsPage: vi.fn(),
+  getLeadEngagementCounts: vi.fn(),
+  getScoringModelRow: vi.fn(),
+  getUserLeads: vi.fn(),
+  saveScoringModelRow: vi.fn(),
+}));
+
+vi.mock("../services/bulkOperations", () => ({
+  startBulkOperationOnLeads: vi.fn(),
+}));
+
+import { getFilteredLeadsPage, getScoringModelRow, saveScoringModelRow } from "../db";
+import { startBulkOperationOnLeads } from "../services/bulkOperations";
+import { applyScoringModel, getScoringModel, previewScoreChanges } from "../services/scoringModel";
+import { calculateLeadScore } from "../leadScoring";
+import { companySizeBand, DEFAULT_SCORING_MODEL, type ScoringModel } from "../../shared/scoring";
+import type { Lead } from "../../drizzle/schema";
+
+function lead(id: number, fields: Partial<Lead> = {}) {
+  return {
+    id,
+    userId: 7,
+    companyName: `Company ${id}`,
+    website: "https://example.com",
+    industry: "Software",
+    companySize: "51-200",
+    location: "Austin, TX",
+    description: "A company",
+    contactName: "Jane Doe",
+    contactTitle: "CEO",
+    contactEmail: "jane@example.com",
+    contactPhone: null,
+    contactLinkedin: null,
+    status: "new",
+    score: 50,
+    ...fields,
+  } as Lead;
+}
+
+function model(changes: Partial<ScoringModel>): ScoringModel {
+  return { ...DEFAULT_SCORING_MODEL, ...changes };
+}
+
+describe("Scoring models", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("Company size bands", () => {
+    it("should read sizes written in different ways", () => {
+      expect(companySizeBand("1-10")).toBe("1-10");
+      expect(companySizeBand("50-200")).toBe("51-200");
+      expect(companySizeBand("1,200 employees")).toBe("1001-5000");
+      expect(companySizeBand("10000+")).toBe("10001+");
+      expect(companySizeBand("Enterprise")).toBe("10001+");
+      expect(companySizeBand("Startup")).toBe("1-10");
+      expect(companySizeBand("Unknown")).toBeNull();
+      expect(companySizeBand(null)).toBeNull();
+    });
+  });
+
+  describe("Scoring with a model", () => {
+    it("should score the same as before with the default model", () => {
+      const result = calculateLeadScore(lead(1), 0, 0);
+      expect(calculateLeadScore(lead(1), 0, 0, undefined, [], DEFAULT_SCORING_MODEL)).toEqual(result);
+      expect(result.factors.companySize).toBe(60);
+      expect(result.factors.industryFit).toBe(90);
+    });
+
+    it("should score sizes written as employee counts by their band under the default model", () => {
+      // These used to get the neutral 30 for company size
+      expect(calculateLeadScore(lead(1, { companySize: "500 employees" }), 0, 0).factors.companySize).toBe(70);
+      expect(calculateLeadScore(lead(1, { companySize: "51-200" }), 0, 0).factors.companySize).toBe(60);
+      expect(calculateLeadScore(lead(1, { companySize: "Unknown" }), 0, 0).factors.companySize).toBe(30);
+    });
+
+    it("should use the model's industries and company size scores", () => {
+      const healthcare = model({
+        targetIndustries: ["hospital"],
+        secondaryIndustries: ["software"],
+        companySizeScores: { ...DEFAULT_SCORING_MODEL.companySizeScores, "51-200": 100 },
+      });
+
+      const { factors } = calculateLeadScore(lead(1), 0, 0, undefined, [], healthcare);
+
+      expect(factors.industryFit).toBe(70);
+      expect(factors.companySize).toBe(100);
+      expect(calculateLeadScore(lead(1, { industry: "Hospital network" }), 0, 0, undefined, [], healthcare).factors.industryFit).toBe(90);
+    });
+
+    it("should weigh factors relative to each other", () => {
+      const sizeOnly = model({
+        weights: { companySize: 1, industryFit: 0, contactCompleteness: 0, engagement: 0, dataQuality: 0, technologyFit: 0 },
+      });
+
+      expect(calculateLeadScore(lead(1, { companySize: "10000+" }), 0, 0, undefined, [], sizeOnly).score).toBe(100);
+      expect(calculateLeadScore(lead(1, { companySize: "1-10" }), 0, 0, undefined, [], sizeOnly).score).toBe(40);
+    });
+
+    it("should give technology fit its percentage once technologies are known", () => {
+      const sizeAndTech = model({
+        weights: { companySize: 1, industryFit: 0, contactCompleteness: 0, engagement: 0, dataQuality: 0, technologyFit: 50 },
+        targetTechnologies: ["Stripe"],
+      });
+
+      expect(calculateLeadScore(lead(1, { companySize: "1-10" }), 0, 0, undefined, ["stripe"], sizeAndTech).score).toBe(70);
+      expect(calculateLeadScore(lead(1, { companySize: "1-10" }), 0, 0, undefined, ["HubSpot"], sizeAndTech).score).toBe(45);
+      expect(calculateLeadScore(lead(1, { companySize: "1-10" }), 0, 0, undefined, [], sizeAndTech).score).toBe(40);
+    });
+
+    it("should bucket priorities at the model's thresholds", () => {
+      expect(calculateLeadScore(lead(1), 0, 0)).toMatchObject({ score: 59, priority: "medium" });
+      expect(calculateLeadScore(lead(1), 0, 0, undefined, [], model({ thresholds: { high: 90, medium: 60 } })).priority).toBe("low");
+      expect(calculateLeadScore(lead(1), 0, 0, undefined, [], model({ thresholds: { high: 55, medium: 30 } })).priority).toBe("high");
+    });
+  });
+
+  describe("Stored models", () => {
+    it("should use the default model until the user saves one", async () => {
+      vi.mocked(getScoringModelRow).mockResolvedValue(undefined);
+      expect(await getScoringModel(7)).toEqual(DEFAULT_SCORING_MODEL);
+    });
+
+    it("should fill in settings a saved model doesn't have", async () => {
+      vi.mocked(getScoringModelRow).mockResolvedValue({
+        id: 1,
+        userId: 7,
+        highPriorityMin: 80,
+        mediumPriorityMin: 50,
+        settings: JSON.stringify({ weights: { companySize: 40 }, targetIndustries: ["biotech"] }),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      const saved = await getScoringModel(7);
+
+      expect(saved.weights).toEqual({ ...DEFAULT_SCORING_MODEL.weights, companySize: 40 });
+      expect(saved.targetIndustries).toEqual(["biotech"]);
+      expect(saved.secondaryIndustries).toEqual(DEFAULT_SCORING_MODEL.secondaryIndustries);
+      expect(saved.companySizeScores).toEqual(DEFAULT_SCORING_MODEL.companySizeScores);
+      expect(saved.thresholds).toEqual({ high: 80, medium: 50 });
+    });
+
+    it("should save the model and rescore every one of the user's leads", async () => {
+      const firstPage = Array.from({ length: 1000 }, (_, index) => ({ ...lead(index + 1), sortValue: "2026-01-02 00:00:00" }));
+      vi.mocked(getFilteredLeadsPage)
+        .mockResolvedValueOnce(firstPage)
+        .mockResolvedValueOnce([{ ...lead(1001), sortValue: "2026-01-01 00:00:00" }]);
+      vi.mocked(startBulkOperationOnLeads).mockResolvedValue({ id: 3, totalCount: 1001 });
+      const strict = model({ thresholds: { high: 90, medium: 60 } });
+
+      expect(await applyScoringModel(7, strict, true)).toEqual({ operationId: 3 });
+
+      const row = vi.mocked(saveScoringModelRow).mock.calls[0][0];
+      expect(row).toMatchObject({ userId: 7, highPriorityMin: 90, mediumPriorityMin: 60 });
+      expect(JSON.parse(row.settings)).not.toHaveProperty("thresholds");
+      expect(getFilteredLeadsPage).toHaveBeenLastCalledWith(7, { sortBy: "recent" }, { value: "2026-01-02 00:00:00", id: 1000 }, 1000);
+      const [, leadIds, action] = vi.mocked(startBulkOperationOnLeads).mock.calls[0];
+      expect(leadIds).toHaveLength(1001);
+      expect(action).toEqual({ type: "recalculateScore" });
+    });
+
+    it("should only save when there are no leads to rescore", async () => {
+      vi.mocked(getFilteredLeadsPage).mockResolvedValue([]);
+
+      expect(await applyScoringModel(7, DEFAULT_SCORING_MODEL, true)).toEqual({ operationId: null });
+      expect(await applyScoringModel(7, DEFAULT_SCORING_MODEL, false)).toEqual({ operationId: null });
+      expect(saveScoringModelRow).toHaveBeenCalledTimes(2);
+      expect(startBulkOperationOnLeads).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Preview", () => {
+    const sizeOnly = model({
+      weights: { companySize: 1, industryFit: 0, contactCompleteness: 0, engagement: 0, dataQuality: 0, technologyFit: 0 },
+    });
+
+    it("should show how scores and priorities would move", () => {
+      const leads = [
+        lead(1, { companySize: "10000+" }),
+        lead(2, { companySize: "1-10" }),
+        lead(3, { companySize: "Unknown" }),
+      ];
+      const smallFirst = model({
+        weights: sizeOnly.weights,
+        companySizeScores: { ...DEFAULT_SCORING_MODEL.companySizeScores, "1-10": 80, "10001+": 60 },
+      });
+
+      const preview = previewScoreChanges(leads, new Map(), sizeOnly, smallFirst);
+
+      expect(preview).toMatchObject({ total: 3, changed: 2, averageBefore: 57, averageAfter: 57 });
+      expect(preview.priorities).toEqual({
+        high: { before: 1, after: 1 },
+        medium: { before: 1, after: 1 },
+        low: { before: 1, after: 1 },
+      });
+      expect(preview.biggestRises).toEqual([{ leadId: 2, companyName: "Company 2", before: 40, after: 80 }]);
+      expect(preview.biggestDrops).toEqual([{ leadId: 1, companyName: "Company 1", before: 100, after: 60 }]);
+    });
+
+    it("should score before with the current model rather than trust stored scores", () => {
+      const stale = [lead(1, { companySize: "10000+", score: 12 }), lead(2, { companySize: "1-10", score: 95 })];
+
+      const preview = previewScoreChanges(stale, new Map(), sizeOnly, sizeOnly);
+
+      expect(preview).toMatchObject({ total: 2, changed: 0, averageBefore: 70, averageAfter: 70 });
+    });
+
+    it("should score leads on their engagement, contacts and technologies", () => {
+      const engagementOnly = model({
+        weights: { companySize: 0, industryFit: 0, contactCompleteness: 0, engagement: 1, dataQuality: 0, technologyFit: 0 },
+      });
+      const signals = new Map([[1, { opens: 2, clicks: 1, technologies: [] }]]);
+
+      const preview = previewScoreChanges([lead(1, { companySize: "1-10" })], signals, sizeOnly, engagementOnly);
+
+      expect(preview.biggestRises).toEqual([{ leadId: 1, companyName: "Company 1", before: 40, after: 45 }]);
+    });
+  });
+});
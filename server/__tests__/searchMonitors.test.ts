@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../db", () => ({
+  createLeads: vi.fn(),
+  createSearchMonitor: vi.fn(),
+  createSearchMonitorMatches: vi.fn(),
+  deleteSearchMonitor: vi.fn(),
+  getScoringModelRow: vi.fn(),
+  getSearchHistoryById: vi.fn(),
+  getSearchMonitorById: vi.fn(),
+  getSearchMonitorBySearchId: vi.fn(),
+  getSearchMonitorMatchCompanies: vi.fn(),
+  getUserById: vi.fn(),
+  getUserLeadIdentities: vi.fn(),
+  getUserSearchMonitorMatches: vi.fn(),
+  getUserSearchMonitors: vi.fn(),
+  updateSearchMonitor: vi.fn(),
+  updateSearchMonitorMatch: vi.fn(),
+  updateSearchMonitorMatchStatus: vi.fn(),
+}));
+
+vi.mock("../scheduler", () => ({
+  scheduleSearchMonitor: vi.fn(),
+  unscheduleSearchMonitor: vi.fn(),
+}));
+
+vi.mock("../services/leadDiscovery", () => ({
+  searchLeadSources: vi.fn(),
+}));
+
+vi.mock("../services/leadEnrichment", () => ({
+  enrichNewLeads: vi.fn(),
+}));
+
+vi.mock("../services/email", () => ({
+  sendSearchMonitorDigestEmail: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+import {
+  createLeads,
+  createSearchMonitor,
+  createSearchMonitorMatches,
+  getSearchHistoryById,
+  getSearchMonitorById,
+  getSearchMonitorBySearchId,
+  getSearchMonitorMatchCompanies,
+  getUserById,
+  getUserLeadIdentities,
+  updateSearchMonitor,
+  updateSearchMonitorMatch,
+} from "../db";
+import { scheduleSearchMonitor, unscheduleSearchMonitor } from "../scheduler";
+import { searchLeadSources, type DiscoveredLead } from "../services/leadDiscovery";
+import { sendSearchMonitorDigestEmail } from "../services/email";
+import { enrichNewLeads } from "../services/leadEnrichment";
+import { runSearchMonitor, saveSearchMonitor } from "../services/searchMonitors";
+import type { InsertSearchMonitorMatch, SearchHistory, SearchMonitor, SearchMonitorMatch, User } from "../../drizzle/schema";
+
+const user = { id: 7, name: "Dana", email: "dana@example.com" } as User;
+const savedSearch = {
+  id: 3,
+  userId: 7,
+  query: "fintech",
+  industry: "Financial Services",
+  companySize: null,
+  location: null,
+  filters: JSON.stringify({ perPage: 20, sources: ["apollo", "llm"] }),
+  isFavorite: 1,
+} as SearchHistory;
+
+function monitor(overrides: Partial<SearchMonitor> = {}) {
+  return { id: 11, userId: 7, searchId: 3, cronExpression: "0 7 * * *", isActive: 1, autoImport: 0, emailDigest: 1, ...overrides } as SearchMonitor;
+}
+
+function lead(companyName: string, website: string, source: DiscoveredLead["source"] = "apollo") {
+  return { source, companyName, website, industry: "Fintech", location: "Austin", contactName: "" } as DiscoveredLead;
+}
+
+describe("Search monitors", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getSearchMonitorById).mockResolvedValue(monitor());
+    vi.mocked(getSearchHistoryById).mockResolvedValue(savedSearch);
+    vi.mocked(getUserById).mockResolvedValue(user);
+    vi.mocked(getSearchMonitorMatchCompanies).mockResolvedValue([]);
+    vi.mocked(getUserLeadIdentities).mockResolvedValue([]);
+    // Store what it's given, as the database would
+    vi.mocked(createSearchMonitorMatches).mockImplementation(async (_monitorId, matches: InsertSearchMonitorMatch[]) =>
+      matches.map((match, index) => ({ id: 100 + index, status: "new", leadId: null, foundAt: new Date(), ...match }) as SearchMonitorMatch));
+  });
+
+  it("should only monitor saved searches with a valid schedule", async () => {
+    await expect(saveSearchMonitor(7, 3, { cronExpression: "every day", isActive: true, autoImport: false, emailDigest: true }))
+      .rejects.toThrow("Invalid cron expression");
+
+    vi.mocked(getSearchHistoryById).mockResolvedValueOnce({ ...savedSearch, isFavorite: 0 });
+    await expect(saveSearchMonitor(7, 3, { cronExpression: "0 7 * * *", isActive: true, autoImport: false, emailDigest: true }))
+      .rejects.toThrow("favorites");
+    expect(createSearchMonitor).not.toHaveBeenCalled();
+  });
+
+  it("should create and schedule a monitor, or unschedule it when paused", async () => {
+    vi.mocked(getSearchMonitorBySearchId).mockResolvedValueOnce(undefined);
+    vi.mocked(createSearchMonitor).mockResolvedValueOnce(11);
+
+    await saveSearchMonitor(7, 3, { cronExpression: "0 */6 * * *", isActive: true, autoImport: true, emailDigest: false });
+
+    expect(createSearchMonitor).toHaveBeenCalledWith({ userId: 7, searchId: 3, cronExpression: "0 */6 * * *", isActive: 1, autoImport: 1, emailDigest: 0 });
+    expect(scheduleSearchMonitor).toHaveBeenCalledWith(11, "0 */6 * * *");
+
+    vi.mocked(getSearchMonitorBySearchId).mockResolvedValueOnce(monitor());
+    await saveSearchMonitor(7, 3, { cronExpression: "0 7 * * *", isActive: false, autoImport: false, emailDigest: true });
+
+    expect(updateSearchMonitor).toHaveBeenCalledWith(11, expect.objectContaining({ isActive: 0 }));
+    expect(unscheduleSearchMonitor).toHaveBeenCalledWith(11);
+  });
+
+  it("should re-run the saved search and surface only companies it hasn't seen", async () => {
+    vi.mocked(searchLeadSources).mockResolvedValue({
+      leads: [lead("Acme", "https://www.acme.com"), lead("Globex", "globex.io"), lead("Initech", "initech.com"), lead("Template Co", "", "llm")],
+    } as never);
+    vi.mocked(getSearchMonitorMatchCompanies).mockResolvedValue([{ companyKey: "acme.com", companyName: "Acme" }]);
+    vi.mocked(getUserLeadIdentities).mockResolvedValue([{ id: 1, companyName: "Initech", website: "http://initech.com", contactEmail: null }]);
+
+    const result = await runSearchMonitor(11);
+
+    expect(searchLeadSources).toHaveBeenCalledWith(user, expect.objectContaining({
+      query: "fintech",
+      industry: "Financial Services",
+      perPage: 20,
+      page: 1,
+      sources: ["apollo", "llm"],
+      forceRefresh: true,
+    }));
+    const stored = vi.mocked(createSearchMonitorMatches).mock.calls[0][1];
+    expect(stored.map(match => [match.companyKey, match.status])).toEqual([["globex.io", "new"], ["initech.com", "existingLead"]]);
+    expect(result).toEqual({ found: 3, newMatches: 1, imported: 0 });
+    expect(sendSearchMonitorDigestEmail).toHaveBeenCalledWith("dana@example.com", "Dana", "fintech", [expect.objectContaining({ companyName: "Globex" })], false);
+    expect(createLeads).not.toHaveBeenCalled();
+    expect(updateSearchMonitor).toHaveBeenCalledWith(11, expect.objectContaining({ lastError: null }));
+  });
+
+  it("should recognize companies by name as well as by domain", async () => {
+    vi.mocked(searchLeadSources).mockResolvedValue({
+      leads: [lead("Acme", ""), lead("Globex", "globex.io"), lead("Initech", "initech.io"), lead("Initech", "initech.com")],
+    } as never);
+    vi.mocked(getSearchMonitorMatchCompanies).mockResolvedValue([{ companyKey: "acme.com", companyName: "Acme" }]);
+    vi.mocked(getUserLeadIdentities).mockResolvedValue([{ id: 1, companyName: "Globex", website: null, contactEmail: null }]);
+
+    await runSearchMonitor(11);
+
+    const stored = vi.mocked(createSearchMonitorMatches).mock.calls[0][1];
+    expect(stored.map(match => [match.companyKey, match.status])).toEqual([["globex.io", "existingLead"], ["initech.io", "new"]]);
+  });
+
+  it("should auto-import new matches as new leads", async () => {
+    vi.mocked(getSearchMonitorById).mockResolvedValue(monitor({ autoImport: 1, emailDigest: 0 }));
+    vi.mocked(searchLeadSources).mockResolvedValue({ leads: [lead("Globex", "globex.io")] } as never);
+    vi.mocked(createLeads).mockResolvedValue([501]);
+
+    const result = await runSearchMonitor(11);
+
+    expect(result.imported).toBe(1);
+    expect(createLeads).toHaveBeenCalledWith([expect.objectContaining({ userId: 7, companyName: "Globex", status: "new" })]);
+    expect(updateSearchMonitorMatch).toHaveBeenCalledWith(100, 7, { status: "imported", leadId: 501 });
+    expect(enrichNewLeads).toHaveBeenCalledWith(7, [501]);
+    expect(sendSearchMonitorDigestEmail).not.toHaveBeenCalled();
+  });
+
+  it("should not email when nothing new turned up", async () => {
+    vi.mocked(searchLeadSources).mockResolvedValue({ leads: [lead("Acme", "acme.com")] } as never);
+    vi.mocked(getSearchMonitorMatchCompanies).mockResolvedValue([{ companyKey: "acme.com", companyName: "Acme" }]);
+
+    const result = await runSearchMonitor(11);
+
+    expect(result.newMatches).toBe(0);
+    expect(createSearchMonitorMatches).toHaveBeenCalledWith(11, []);
+    expect(sendSearchMonitorDigestEmail).not.toHaveBeenCalled();
+  });
+
+  it("should record a failed run and deactivate monitors whose search is gone", async () => {
+    vi.mocked(searchLeadSources).mockRejectedValueOnce(new Error("Apollo is down"));
+    await expect(runSearchMonitor(11)).rejects.toThrow("Apollo is down");
+    expect(updateSearchMonitor).toHaveBeenCalledWith(11, expect.objectContaining({ lastError: "Apollo is down" }));
+
+    vi.mocked(getSearchHistoryById).mockResolvedValueOnce(undefined);
+    await expect(runSearchMonitor(11)).rejects.toThrow("no longer exists");
+    expect(updateSearchMonitor).toHaveBeenCalledWith(11, expect.objectContaining({ isActive: 0 }));
+    expect(unscheduleSearchMonitor).toHaveBeenCalledWith(11);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../db", () => ({
+  addLeadTags: vi.fn(),
+  createTag: vi.fn(),
+  deleteTags: vi.fn(),
+  getOwnedLeadIds: vi.fn(),
+  getTagsForLeads: vi.fn(),
+  getUserTags: vi.fn(),
+  mergeTagRecords: vi.fn(),
+  removeLeadTags: vi.fn(),
+  updateTag: vi.fn(),
+}));
+
+import {
+  addLeadTags,
+  createTag as insertTag,
+  getOwnedLeadIds,
+  getTagsForLeads,
+  getUserTags,
+  mergeTagRecords,
+  removeLeadTags,
+  updateTag as updateTagRow,
+} from "../db";
+import {
+  MAX_BULK_TAG_LEADS,
+  addTagsToLeads,
+  createTag,
+  mergeTags,
+  setLeadTags,
+  tagLeadsByName,
+  updateTag,
+  withLeadTags,
+} from "../services/tags";
+import { defaultTagColor, parseTagList } from "../../shared/tags";
+
+const userTags = [
+  { id: 1, name: "SaaS", color: "#3b82f6", leadCount: 4 },
+  { id: 2, name: "Enterprise", color: "#22c55e", leadCount: 1 },
+  { id: 3, name: "saas-old", color: "#6b7280", leadCount: 2 },
+];
+
+describe("Tags", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getUserTags).mockResolvedValue(userTags);
+    vi.mocked(getOwnedLeadIds).mockImplementation(async (_userId, ids) => ids);
+    vi.mocked(addLeadTags).mockImplementation(async links => links.length);
+  });
+
+  describe("parseTagList", () => {
+    it("should split lists and JSON arrays, dropping repeats", () => {
+      expect(parseTagList("saas, Enterprise; SaaS\nhot  lead")).toEqual(["saas", "Enterprise", "hot lead"]);
+      expect(parseTagList('["SaaS","enterprise"]')).toEqual(["SaaS", "enterprise"]);
+      expect(parseTagList("  ")).toEqual([]);
+      expect(parseTagList(null)).toEqual([]);
+    });
+  });
+
+  describe("createTag", () => {
+    it("should give new tags a palette color from their name", async () => {
+      vi.mocked(insertTag).mockResolvedValue(9);
+
+      const tag = await createTag(1, { name: "  Hot   lead " });
+
+      expect(tag).toEqual({ id: 9, name: "Hot lead", color: defaultTagColor("Hot lead") });
+      expect(insertTag).toHaveBeenCalledWith({ userId: 1, name: "Hot lead", color: tag.color });
+    });
+
+    it("should refuse a name the user already has in any casing", async () => {
+      await expect(createTag(1, { name: "saas" })).rejects.toThrow("already exists");
+    });
+  });
+
+  describe("updateTag", () => {
+    it("should rename and recolor a tag", async () => {
+      await updateTag(1, 3, { name: "Legacy SaaS", color: "#EF4444" });
+      expect(updateTagRow).toHaveBeenCalledWith(3, 1, { name: "Legacy SaaS", color: "#ef4444" });
+    });
+
+    it("should point renames onto another tag's name toward merging", async () => {
+      await expect(updateTag(1, 3, { name: "SAAS" })).rejects.toThrow("merge the tags instead");
+      expect(updateTagRow).not.toHaveBeenCalled();
+    });
+
+    it("should reject tags the user does not own", async () => {
+      await expect(updateTag(1, 42, { color: "#ef4444" })).rejects.toThrow("Tag not found");
+    });
+  });
+
+  describe("mergeTags", () => {
+    it("should merge the other tags into the target", async () => {
+      vi.mocked(mergeTagRecords).mockResolvedValue(2);
+
+      const result = await mergeTags(1, [3, 1], 1);
+
+      expect(mergeTagRecords).toHaveBeenCalledWith(1, [3], 1);
+      expect(result).toEqual({ mergedTags: 1, addedLeads: 2 });
+    });
+
+    it("should need a source other than the target", async () => {
+      await expect(mergeTags(1, [1], 1)).rejects.toThrow("at least one other tag");
+    });
+  });
+
+  describe("bulk tagging", () => {
+    it("should link every lead to every tag", async () => {
+      const result = await addTagsToLeads(1, [10, 11, 10], [1, 2]);
+
+      expect(addLeadTags).toHaveBeenCalledWith([
+        { leadId: 10, tagId: 1 },
+        { leadId: 10, tagId: 2 },
+        { leadId: 11, tagId: 1 },
+        { leadId: 11, tagId: 2 },
+      ]);
+      expect(result).toEqual({ added: 4 });
+    });
+
+    it("should refuse leads the user does not own", async () => {
+      vi.mocked(getOwnedLeadIds).mockResolvedValue([10]);
+      await expect(addTagsToLeads(1, [10, 11], [1])).rejects.toThrow("access denied");
+      expect(addLeadTags).not.toHaveBeenCalled();
+    });
+
+    it("should cap how many leads one operation touches", async () => {
+      const leadIds = Array.from({ length: MAX_BULK_TAG_LEADS + 1 }, (_, i) => i + 1);
+      await expect(addTagsToLeads(1, leadIds, [1])).rejects.toThrow(`at most ${MAX_BULK_TAG_LEADS}`);
+    });
+  });
+
+  describe("setLeadTags", () => {
+    it("should add and remove only what changed", async () => {
+      vi.mocked(getTagsForLeads).mockResolvedValue(new Map([[10, [userTags[0], userTags[2]]]]));
+
+      await setLeadTags(1, 10, [1, 2]);
+
+      expect(removeLeadTags).toHaveBeenCalledWith([10], [3]);
+      expect(addLeadTags).toHaveBeenCalledWith([{ leadId: 10, tagId: 2 }]);
+    });
+  });
+
+  describe("tagLeadsByName", () => {
+    it("should reuse existing tags and create missing ones", async () => {
+      vi.mocked(insertTag).mockResolvedValue(7);
+
+      await tagLeadsByName(1, [
+        { leadId: 10, names: ["saas", "Partner"] },
+        { leadId: 11, names: ["partner"] },
+      ]);
+
+      expect(insertTag).toHaveBeenCalledTimes(1);
+      expect(insertTag).toHaveBeenCalledWith({ userId: 1, name: "Partner", color: defaultTagColor("Partner") });
+      expect(addLeadTags).toHaveBeenCalledWith([
+        { leadId: 10, tagId: 1 },
+        { leadId: 10, tagId: 7 },
+        { leadId: 11, tagId: 7 },
+      ]);
+    });
+
+    it("should do nothing without tag names", async () => {
+      await tagLeadsByName(1, [{ leadId: 10, names: [] }]);
+      expect(getUserTags).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("withLeadTags", () => {
+    it("should attach each lead's tags", async () => {
+      vi.mocked(getTagsForLeads).mockResolvedValue(new Map([[10, [userTags[0]]]]));
+
+      const leads = await withLeadTags([{ id: 10 }, { id: 11 }]);
+
+      expect(leads).toEqual([{ id: 10, tags: [userTags[0]] }, { id: 11, tags: [] }]);
+    });
+  });
+});
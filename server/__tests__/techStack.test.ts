@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import { calculateLeadScore } from "../leadScoring";
+import { TECH_FINGERPRINTS } from "../services/enrichers/techFingerprints";
+import { detectTechnologies, techStackEnricher } from "../services/enrichers/techStack";
+import type { WebPage } from "../services/enrichers";
+import type { Lead, User } from "../../drizzle/schema";
+
+// Saved homepages, with the response headers each site sends
+function fixture(name: string, headers: Record<string, string> = {}): WebPage {
+  const html = readFileSync(new URL(`./fixtures/websites/${name}.html`, import.meta.url), "utf8");
+  return { url: `https://www.${name}.com/`, status: 200, headers, html };
+}
+
+const shopifyStore = fixture("shopify-store", {
+  server: "cloudflare",
+  "cf-ray": "8a1b2c3d4e5f-DFW",
+  "x-shopid": "5512345",
+  "set-cookie": "_shopify_y=3f9c; path=/; expires=Wed, 21 Oct 2026 07:28:00 GMT, localization=US; path=/",
+});
+
+const hubspotSaas = fixture("hubspot-saas", {
+  server: "Vercel",
+  "x-vercel-id": "iad1::x7k2p-1729",
+  "x-powered-by": "Next.js",
+  "set-cookie": "__hstc=20123456.a1b2; Path=/, hubspotutk=a1b2; Path=/",
+});
+
+const wordpressStore = fixture("wordpress-woocommerce", {
+  server: "nginx/1.24.0",
+  link: "<https://copperkettle.coffee/wp-json/>; rel=\"https://api.w.org/\"",
+});
+
+function names(page: WebPage) {
+  return detectTechnologies(page).map(technology => technology.name).sort();
+}
+
+describe("Tech stack detection", () => {
+  it("should recognize a Shopify store from its headers, cookies, scripts and meta tags", () => {
+    expect(names(shopifyStore)).toEqual(["Cloudflare", "Facebook Pixel", "Google Analytics", "Klaviyo", "Shopify"]);
+
+    const shopify = detectTechnologies(shopifyStore).find(technology => technology.name === "Shopify")!;
+    expect(shopify).toMatchObject({ category: "Ecommerce", confidence: 100 });
+    expect(shopify.evidence).toEqual(expect.arrayContaining([
+      "header x-shopid",
+      "meta shopify-digital-wallet",
+      "cookie _shopify_y",
+      "inline script",
+    ]));
+  });
+
+  it("should not match technologies only mentioned in page copy", () => {
+    // The Shopify store's copy mentions WordPress and Salesforce; the SaaS site's mentions Shopify
+    expect(names(shopifyStore)).not.toContain("WordPress");
+    expect(names(shopifyStore)).not.toContain("Salesforce");
+    expect(names(hubspotSaas)).not.toContain("Shopify");
+  });
+
+  it("should recognize a HubSpot site, and technologies implied by others", () => {
+    expect(names(hubspotSaas)).toEqual([
+      "HubSpot", "Intercom", "LinkedIn Insight Tag", "Next.js", "React", "Segment", "Stripe", "Vercel",
+    ]);
+
+    const detected = detectTechnologies(hubspotSaas);
+    expect(detected.find(technology => technology.name === "HubSpot")!.evidence).toEqual([
+      "script src //js.hs-scripts.com/20123456.js",
+      "cookie hubspotutk",
+      "cookie __hstc",
+      "inline script",
+      "page markup",
+    ]);
+    const nextJs = detected.find(technology => technology.name === "Next.js")!;
+    expect(detected.find(technology => technology.name === "React")).toEqual({
+      name: "React",
+      category: "JavaScript Framework",
+      confidence: nextJs.confidence - 10,
+      evidence: ["implied by Next.js"],
+    });
+  });
+
+  it("should add an implied technology's evidence to what was found for it directly", () => {
+    const detected = detectTechnologies(wordpressStore);
+    expect(detected.map(technology => technology.name).sort()).toEqual([
+      "Google Tag Manager", "Hotjar", "Mailchimp", "Nginx", "WooCommerce", "WordPress",
+    ]);
+    expect(detected.find(technology => technology.name === "WordPress")!.evidence).toEqual(expect.arrayContaining([
+      "header link",
+      "meta generator",
+      "implied by WooCommerce",
+    ]));
+  });
+
+  it("should be unsure of a technology only the page markup points to", () => {
+    const page: WebPage = { url: "https://example.com/", status: 200, headers: {}, html: "<!-- Start of HubSpot Embed Code -->" };
+    expect(detectTechnologies(page)).toEqual([
+      { name: "HubSpot", category: "Marketing Automation", confidence: 50, evidence: ["page markup"] },
+    ]);
+  });
+
+  it("should keep the ruleset well-formed", () => {
+    const ruleNames = TECH_FINGERPRINTS.map(rule => rule.name);
+    expect(new Set(ruleNames).size).toBe(ruleNames.length);
+    for (const rule of TECH_FINGERPRINTS) {
+      for (const implied of rule.implies ?? []) expect(ruleNames).toContain(implied);
+      for (const header of Object.keys(rule.headers ?? {})) expect(header).toBe(header.toLowerCase());
+    }
+  });
+
+  it("should store each technology as its own fact, with its category as the value", async () => {
+    const facts = await techStackEnricher.enrich({ id: 1, website: "trailhead-outfitters.com" } as Lead, {
+      user: { id: 7 } as User,
+      fetchWebsite: async () => shopifyStore,
+    });
+
+    expect(facts[0]).toEqual({ dataType: "technology", dataKey: "Shopify", value: "Ecommerce", confidence: 100 });
+    expect(facts).toHaveLength(5);
+    expect(await techStackEnricher.enrich({ id: 1 } as Lead, { user: { id: 7 } as User, fetchWebsite: async () => null })).toEqual([]);
+  });
+
+  it("should score leads running target technologies higher once technologies are known", () => {
+    const lead = { companyName: "Trailhead", industry: "Retail", companySize: "50-200 employees" } as Lead;
+
+    const unknown = calculateLeadScore(lead);
+    const untargeted = calculateLeadScore(lead, 0, 0, undefined, ["Nginx"]);
+    const targeted = calculateLeadScore(lead, 0, 0, undefined, ["Shopify", "Klaviyo"]);
+
+    expect(unknown.factors.technologyFit).toBeUndefined();
+    expect(untargeted.factors.technologyFit).toBe(50);
+    expect(targeted.factors.technologyFit).toBe(100);
+    expect(targeted.score).toBeGreaterThan(untargeted.score);
+    expect(targeted.score).toBeGreaterThan(unknown.score);
+    expect(targeted.explanation).toContain("uses target technologies");
+  });
+});
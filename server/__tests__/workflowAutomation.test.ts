@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../db", () => ({
+  createLeadStatusChange: vi.fn(),
+  getDb: vi.fn(),
+  getLeadStatusHistory: vi.fn(),
+}));
+
+import { createLeadStatusChange, getLeadStatusHistory as getStatusHistoryRows } from "../db";
+import { getLeadStatusHistory, recordStatusChange, toStatusChangeRow } from "../services/workflowAutomation";
+
+describe("Workflow Automation", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("recordStatusChange", () => {
+    it("should store the trigger, who caused it and its metadata", async () => {
+      await recordStatusChange({
+        leadId: 5,
+        userId: 1,
+        previousStatus: "new",
+        newStatus: "contacted",
+        changeReason: "email_sent",
+        triggeredBy: "workflow",
+        metadata: { emailId: 9 },
+        notes: "First email sent to lead",
+      });
+
+      expect(createLeadStatusChange).toHaveBeenCalledWith({
+        leadId: 5,
+        userId: 1,
+        previousStatus: "new",
+        newStatus: "contacted",
+        changeReason: "email_sent",
+        triggeredBy: "workflow",
+        metadata: '{"emailId":9}',
+        notes: "First email sent to lead",
+      });
+    });
+
+    it("should skip changes that leave the status as it was", async () => {
+      await recordStatusChange({
+        leadId: 5,
+        userId: 1,
+        previousStatus: "qualified",
+        newStatus: "qualified",
+        changeReason: "manual_update",
+        triggeredBy: "user",
+      });
+
+      expect(createLeadStatusChange).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("toStatusChangeRow", () => {
+    it("should store missing metadata and notes as null", () => {
+      expect(toStatusChangeRow({
+        leadId: 5,
+        userId: 1,
+        previousStatus: "contacted",
+        newStatus: "won",
+        changeReason: "lead_merged",
+        triggeredBy: "user",
+      })).toMatchObject({ metadata: null, notes: null });
+    });
+  });
+
+  describe("getLeadStatusHistory", () => {
+    it("should parse stored metadata", async () => {
+      vi.mocked(getStatusHistoryRows).mockResolvedValue([
+        { id: 1, metadata: '{"emailId":9}' },
+        { id: 2, metadata: "not json" },
+        { id: 3, metadata: null },
+      ] as any);
+
+      const history = await getLeadStatusHistory(5);
+
+      expect(history.map(change => change.metadata)).toEqual([{ emailId: 9 }, null, null]);
+    });
+  });
+});
@@ -79,6 +79,12 @@ async function startServer() {
     await handleOpenTracking(req, res);
   });
   
+  // Lead export download (authorized by a signed token from leads.export)
+  app.get("/api/leads/export", async (req, res) => {
+    const { handleLeadExport } = await import("../leadExporter");
+    await handleLeadExport(req, res);
+  });
+  
   // tRPC API
   app.use(
     "/api/trpc",
@@ -27,6 +27,16 @@ export const APOLLO_CONFIG = {
     delayBetweenRequests: 500,
   },
 
+  /**
+   * Retries for rate limited (429) and server (5xx) errors
+   * Delays double each attempt, with jitter, unless Apollo sends Retry-After
+   */
+  retry: {
+    maxRetries: 4,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+  },
+
   /**
    * Monthly Credits/Limits
    * Update these based on your Apollo plan tier
@@ -45,6 +55,18 @@ export const APOLLO_CONFIG = {
     emailCredits: 1000,
   },
 
+  /**
+   * Per-user Monthly Credit Budgets by subscription tier
+   * A plan's monthlyApolloCredits overrides these, and a user's apolloCreditLimit overrides both;
+   * admin top-ups are added on for the month they're granted in
+   */
+  tierCreditBudgets: {
+    free: 100,
+    basic: 1000,
+    pro: 5000,
+    enterprise: 10000,
+  },
+
   /**
    * Alert Thresholds
    * Trigger warnings when usage approaches limits
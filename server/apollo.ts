@@ -1,24 +1,52 @@
 /**
  * Apollo.io API Client
  * Provides functions to search for organizations using Apollo's B2B database
- * Note: Using /organizations/search endpoint which works with free API keys
+ * Note: Using /organizations/search endpoint which works with free API keys;
+ * people search and enrichment (decision makers at those organizations) need a paid plan
  */
 
+import { assertApolloCreditsAvailable } from './services/apolloCreditQuota';
+import { apolloScheduler } from './services/apolloScheduler';
 import { logApolloUsage } from './services/apolloUsageTracker';
+import type { ParsedSearchFilters } from '../shared/discovery';
 
 const APOLLO_API_KEY = process.env.APOLLO_API_KEY;
 const APOLLO_API_BASE = "https://api.apollo.io/api/v1";
 
+// APOLLO_API_BASE_URL points the client elsewhere, e.g. at a local fake Apollo server in tests
+function apolloApiBase() {
+  return process.env.APOLLO_API_BASE_URL || APOLLO_API_BASE;
+}
+
+// Titles and seniorities (most senior first) that count as decision makers
+export const DECISION_MAKER_TITLES = ["CEO", "Founder", "Owner", "President", "CTO", "COO", "VP Sales", "Head of Sales", "Director"];
+export const DECISION_MAKER_SENIORITIES = ["owner", "founder", "c_suite", "partner", "vp", "head", "director"] as const;
+
+// Company size options (e.g., "1-10", "51-200") as Apollo employee ranges
+const COMPANY_SIZE_RANGES: Record<string, string> = {
+  "1-10": "1,10",
+  "11-50": "11,50",
+  "51-200": "51,200",
+  "201-500": "201,500",
+  "501-1000": "501,1000",
+  "1001-5000": "1001,5000",
+  "5001+": "5001,999999",
+};
+
+// People requested per organization in a decision maker search
+const PEOPLE_PER_ORGANIZATION = 3;
+
 interface ApolloOrganizationSearchParams {
   query?: string;
   industry?: string;
   companySize?: string;
   location?: string;
+  parsedFilters?: ParsedSearchFilters; // Confirmed filters from query understanding
   page?: number;
   perPage?: number;
 }
 
-interface ApolloOrganization {
+export interface ApolloOrganization {
   id: string;
   name: string;
   website_url?: string;
@@ -31,6 +59,43 @@ interface ApolloOrganization {
   linkedin_url?: string;
   phone?: string;
   short_description?: string;
+  founded_year?: number;
+  twitter_url?: string;
+  facebook_url?: string;
+  // Only returned by organization enrichment
+  technology_names?: string[];
+  current_technologies?: { uid: string; name: string; category?: string }[];
+}
+
+interface ApolloPeopleSearchParams {
+  organizationIds?: string[];
+  titles?: string[];
+  seniorities?: string[];
+  page?: number;
+  perPage?: number;
+}
+
+export interface ApolloPerson {
+  id: string;
+  first_name?: string;
+  last_name?: string;
+  name?: string;
+  title?: string;
+  seniority?: string;
+  email?: string | null;
+  linkedin_url?: string;
+  phone_numbers?: { sanitized_number?: string; raw_number?: string }[];
+  organization_id?: string;
+}
+
+interface ApolloPeopleSearchResponse {
+  people: ApolloPerson[];
+  pagination: {
+    page: number;
+    per_page: number;
+    total_entries: number;
+    total_pages: number;
+  };
 }
 
 interface ApolloOrganizationSearchResponse {
@@ -75,92 +140,55 @@ function extractSearchKeywords(query: string): string {
 }
 
 /**
- * Search for organizations using Apollo.io API
- * This endpoint works with free API keys
+ * POST to an Apollo endpoint, logging the call (and its credits) for the user
+ * Requests wait in the shared scheduler for a free rate limit slot; 429 and 5xx responses
+ * are retried there, so an error reaching here has used up its retries.
+ * Calls for a user who has spent their monthly credit budget are refused before they're sent
  */
-export async function searchOrganizations(params: ApolloOrganizationSearchParams, userId?: number): Promise<ApolloOrganizationSearchResponse> {
+async function callApollo<T>(
+  endpoint: string,
+  requestType: string,
+  body: Record<string, unknown>,
+  userId: number | undefined,
+  usage: (data: T) => { resultsCount: number; creditsUsed: number }
+): Promise<T> {
   if (!APOLLO_API_KEY) {
     throw new Error("APOLLO_API_KEY is not configured");
   }
-
-  const requestBody: any = {
-    page: params.page || 1,
-    per_page: params.perPage || 10,
-  };
-
-  // Map our parameters to Apollo's format
-  if (params.query) {
-    // Extract keywords from natural language query
-    // Apollo's q_organization_name does name matching, not semantic search
-    // So we need to extract industry/business keywords
-    const keywords = extractSearchKeywords(params.query);
-    if (keywords) {
-      requestBody.q_organization_name = keywords;
-    }
-  }
-
-  if (params.industry) {
-    // For industry, we can add it to the organization name search
-    // or use organization_industry_tag_ids if we have the specific IDs
-    if (requestBody.q_organization_name) {
-      requestBody.q_organization_name = `${requestBody.q_organization_name} ${params.industry}`;
-    } else {
-      requestBody.q_organization_name = params.industry;
-    }
-  }
-
-  if (params.companySize) {
-    // Parse company size range (e.g., "1-10", "51-200")
-    const sizeMap: Record<string, string> = {
-      "1-10": "1,10",
-      "11-50": "11,50",
-      "51-200": "51,200",
-      "201-500": "201,500",
-      "501-1000": "501,1000",
-      "1001-5000": "1001,5000",
-      "5001+": "5001,999999",
-    };
-    
-    if (sizeMap[params.companySize]) {
-      requestBody.organization_num_employees_ranges = [sizeMap[params.companySize]];
-    }
-  }
-
-  if (params.location) {
-    requestBody.organization_locations = [params.location];
+  if (userId) {
+    await assertApolloCreditsAvailable(userId);
   }
 
   const startTime = Date.now();
   
   try {
-    const response = await fetch(`${APOLLO_API_BASE}/organizations/search`, {
+    const response = await apolloScheduler.schedule(() => fetch(`${apolloApiBase()}${endpoint}`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         "Cache-Control": "no-cache",
         "X-Api-Key": APOLLO_API_KEY,
       },
-      body: JSON.stringify(requestBody),
-    });
+      body: JSON.stringify(body),
+    }));
 
     if (!response.ok) {
       const errorText = await response.text();
       throw new Error(`Apollo API error: ${response.status} - ${errorText}`);
     }
 
-    const data = await response.json();
+    const data = await response.json() as T;
     const responseTime = Date.now() - startTime;
     
     // Log successful usage
     if (userId) {
       await logApolloUsage({
         userId,
-        endpoint: '/organizations/search',
-        requestType: 'search',
-        resultsCount: data.organizations?.length || 0,
+        endpoint,
+        requestType,
         responseTime,
         success: true,
-        creditsUsed: data.organizations?.length || 1,
+        ...usage(data),
       }).catch(err => console.error('[Apollo] Failed to log usage:', err));
     }
     
@@ -172,8 +200,8 @@ export async function searchOrganizations(params: ApolloOrganizationSearchParams
     if (userId) {
       await logApolloUsage({
         userId,
-        endpoint: '/organizations/search',
-        requestType: 'search',
+        endpoint,
+        requestType,
         resultsCount: 0,
         responseTime,
         success: false,
@@ -182,15 +210,239 @@ export async function searchOrganizations(params: ApolloOrganizationSearchParams
       }).catch(err => console.error('[Apollo] Failed to log usage:', err));
     }
     
-    console.error("[Apollo API] Search failed:", error);
+    console.error(`[Apollo API] ${endpoint} failed:`, error);
     throw error;
   }
 }
 
+/**
+ * Search for organizations using Apollo.io API
+ * This endpoint works with free API keys
+ */
+export async function searchOrganizations(params: ApolloOrganizationSearchParams, userId?: number): Promise<ApolloOrganizationSearchResponse> {
+  const requestBody: any = {
+    page: params.page || 1,
+    per_page: params.perPage || 10,
+  };
+
+  // Map our parameters to Apollo's format
+  if (params.parsedFilters) {
+    return searchOrganizationsByFilters(params, params.parsedFilters, requestBody, userId);
+  }
+
+  if (params.query) {
+    // Extract keywords from natural language query
+    // Apollo's q_organization_name does name matching, not semantic search
+    // So we need to extract industry/business keywords
+    const keywords = extractSearchKeywords(params.query);
+    if (keywords) {
+      requestBody.q_organization_name = keywords;
+    }
+  }
+
+  if (params.industry) {
+    // For industry, we can add it to the organization name search
+    // or use organization_industry_tag_ids if we have the specific IDs
+    if (requestBody.q_organization_name) {
+      requestBody.q_organization_name = `${requestBody.q_organization_name} ${params.industry}`;
+    } else {
+      requestBody.q_organization_name = params.industry;
+    }
+  }
+
+  if (params.companySize) {
+    if (COMPANY_SIZE_RANGES[params.companySize]) {
+      requestBody.organization_num_employees_ranges = [COMPANY_SIZE_RANGES[params.companySize]];
+    }
+  }
+
+  if (params.location) {
+    requestBody.organization_locations = [params.location];
+  }
+
+  return callOrganizationSearch(requestBody, userId);
+}
+
+/**
+ * Search by filters understood from the query: keyword tags instead of company name matching
+ * The form's own industry, size and location still apply alongside them
+ */
+function searchOrganizationsByFilters(
+  params: ApolloOrganizationSearchParams,
+  filters: ParsedSearchFilters,
+  requestBody: Record<string, unknown>,
+  userId?: number
+) {
+  const tags = [...filters.keywords, ...filters.industries, ...(params.industry ? [params.industry] : [])];
+  if (tags.length > 0) requestBody.q_organization_keyword_tags = tags;
+
+  const sizeRange = params.companySize ? COMPANY_SIZE_RANGES[params.companySize] : undefined;
+  const ranges = sizeRange ? [sizeRange] : filters.employeeRanges;
+  if (ranges.length > 0) requestBody.organization_num_employees_ranges = ranges;
+
+  const locations = [...filters.locations, ...(params.location ? [params.location] : [])];
+  if (locations.length > 0) requestBody.organization_locations = locations;
+
+  if (filters.technologies.length > 0) {
+    // Apollo identifies technologies by lowercase, underscored uids, e.g. "google_analytics"
+    requestBody.currently_using_any_of_technology_uids = filters.technologies
+      .map(tech => tech.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, ''));
+  }
+
+  return callOrganizationSearch(requestBody, userId);
+}
+
+function callOrganizationSearch(requestBody: Record<string, unknown>, userId?: number) {
+  return callApollo<ApolloOrganizationSearchResponse>(
+    '/organizations/search',
+    'search',
+    requestBody,
+    userId,
+    data => ({
+      resultsCount: data.organizations?.length || 0,
+      creditsUsed: data.organizations?.length || 1,
+    })
+  );
+}
+
+/**
+ * Search for people using Apollo.io API (requires a paid plan)
+ * Results carry names, titles and LinkedIn profiles; emails stay locked until enriched
+ */
+export async function searchPeople(params: ApolloPeopleSearchParams, userId?: number): Promise<ApolloPeopleSearchResponse> {
+  const requestBody: Record<string, unknown> = {
+    page: params.page || 1,
+    per_page: params.perPage || 10,
+  };
+  if (params.organizationIds?.length) requestBody.organization_ids = params.organizationIds;
+  if (params.titles?.length) requestBody.person_titles = params.titles;
+  if (params.seniorities?.length) requestBody.person_seniorities = params.seniorities;
+
+  return callApollo<ApolloPeopleSearchResponse>(
+    '/mixed_people/search',
+    'people_search',
+    requestBody,
+    userId,
+    data => ({
+      resultsCount: data.people?.length || 0,
+      creditsUsed: data.people?.length || 1,
+    })
+  );
+}
+
+/**
+ * Enrich a person found by people search, revealing their work email and phone
+ * Costs one enrichment credit when Apollo finds a match
+ */
+export async function enrichPerson(personId: string, userId?: number): Promise<ApolloPerson | null> {
+  const data = await callApollo<{ person?: ApolloPerson | null }>(
+    '/people/match',
+    'enrichment',
+    { id: personId, reveal_personal_emails: false },
+    userId,
+    data => ({
+      resultsCount: data.person ? 1 : 0,
+      creditsUsed: data.person ? 1 : 0,
+    })
+  );
+  return data.person ?? null;
+}
+
+/**
+ * Look up a company by its domain, with its firmographics and the technologies it uses
+ * Costs one enrichment credit when Apollo finds a match
+ */
+export async function enrichOrganization(domain: string, userId?: number): Promise<ApolloOrganization | null> {
+  const data = await callApollo<{ organization?: ApolloOrganization | null }>(
+    '/organizations/enrich',
+    'enrichment',
+    { domain },
+    userId,
+    data => ({
+      resultsCount: data.organization ? 1 : 0,
+      creditsUsed: data.organization ? 1 : 0,
+    })
+  );
+  return data.organization ?? null;
+}
+
+// Apollo returns placeholder addresses like email_not_unlocked@domain.com for locked emails
+function hasUsableEmail(person: ApolloPerson) {
+  return !!person.email && !person.email.startsWith("email_not_unlocked");
+}
+
+function seniorityRank(person: ApolloPerson) {
+  const rank = DECISION_MAKER_SENIORITIES.indexOf(person.seniority as typeof DECISION_MAKER_SENIORITIES[number]);
+  return rank === -1 ? DECISION_MAKER_SENIORITIES.length : rank;
+}
+
+/**
+ * Find the most senior decision maker at each organization, enriched with their email
+ * One people search covers every organization; only the chosen person per organization is enriched.
+ * Returns people keyed by organization id (organizations without a match are left out)
+ * and the credits the searches spent
+ */
+export async function findDecisionMakers(
+  organizations: Pick<ApolloOrganization, "id">[],
+  userId?: number,
+  titles: string[] = DECISION_MAKER_TITLES
+): Promise<{ decisionMakers: Map<string, ApolloPerson>; creditsUsed: number }> {
+  const decisionMakers = new Map<string, ApolloPerson>();
+  if (organizations.length === 0) return { decisionMakers, creditsUsed: 0 };
+
+  const { people } = await searchPeople({
+    organizationIds: organizations.map(org => org.id),
+    titles,
+    seniorities: [...DECISION_MAKER_SENIORITIES],
+    perPage: Math.min(100, organizations.length * PEOPLE_PER_ORGANIZATION),
+  }, userId);
+  let creditsUsed = people?.length || 1;
+
+  for (const person of people ?? []) {
+    const orgId = person.organization_id;
+    if (!orgId) continue;
+    const current = decisionMakers.get(orgId);
+    if (!current || seniorityRank(person) < seniorityRank(current)) {
+      decisionMakers.set(orgId, person);
+    }
+  }
+
+  for (const [orgId, person] of Array.from(decisionMakers)) {
+    if (hasUsableEmail(person)) continue;
+    try {
+      const enriched = await enrichPerson(person.id, userId);
+      if (enriched) {
+        decisionMakers.set(orgId, { ...person, ...enriched });
+        creditsUsed++;
+      }
+    } catch (error) {
+      // Keep the name and title from the search; the email just stays empty
+      console.warn(`[Apollo API] Could not enrich ${person.id}:`, error);
+    }
+  }
+
+  return { decisionMakers, creditsUsed };
+}
+
+/**
+ * Convert an Apollo person to our lead contact fields (empty where Apollo has nothing)
+ */
+export function convertApolloPersonToContact(person: ApolloPerson) {
+  return {
+    contactName: person.name || [person.first_name, person.last_name].filter(Boolean).join(" "),
+    contactTitle: person.title || "",
+    contactEmail: hasUsableEmail(person) ? person.email! : "",
+    contactLinkedin: person.linkedin_url || "",
+    contactPhone: person.phone_numbers?.[0]?.sanitized_number || "",
+  };
+}
+
 /**
  * Convert Apollo organization data to our lead format
+ * With a decision maker from findDecisionMakers, the contact fields are filled from them
  */
-export function convertApolloOrgToLead(org: ApolloOrganization) {
+export function convertApolloOrgToLead(org: ApolloOrganization, person?: ApolloPerson) {
+  const contact = person ? convertApolloPersonToContact(person) : undefined;
   return {
     companyName: org.name || "Unknown Company",
     website: org.website_url || org.primary_domain || "",
@@ -200,11 +452,11 @@ export function convertApolloOrgToLead(org: ApolloOrganization) {
       : "Unknown",
     location: [org.city, org.state, org.country].filter(Boolean).join(", ") || "Unknown",
     description: org.short_description || `${org.name} is a company in the ${org.industry || "business"} industry.`,
-    contactName: "",
-    contactTitle: "",
-    contactEmail: "",
-    contactLinkedin: org.linkedin_url || "",
-    contactPhone: org.phone || "",
+    contactName: contact?.contactName || "",
+    contactTitle: contact?.contactTitle || "",
+    contactEmail: contact?.contactEmail || "",
+    contactLinkedin: contact?.contactLinkedin || org.linkedin_url || "",
+    contactPhone: contact?.contactPhone || org.phone || "",
     status: "new" as const,
     source: "apollo" as const,
     score: null,
@@ -4,7 +4,7 @@
  */
 
 import { Request, Response } from "express";
-import { createEmailClick, getLeadById, getLeadEmailClicks, getLeadEmailOpens, updateLeadScore } from "./db";
+import { createEmailClick, getLeadById, getSentEmailContactId, getLeadEmailClicks, getLeadEmailOpens, updateLeadScore } from "./db";
 import { calculateLeadScore } from "./leadScoring";
 
 export async function handleClickTracking(req: Request, res: Response) {
@@ -19,10 +19,11 @@ export async function handleClickTracking(req: Request, res: Response) {
     const sentEmailId = parseInt(eid as string, 10);
     const leadId = lid ? parseInt(lid as string, 10) : undefined;
     
-    // Log the click
+    // Log the click, attributed to the contact the email went to
     await createEmailClick({
       sentEmailId,
       leadId,
+      contactId: await getSentEmailContactId(sentEmailId),
       originalUrl,
       ipAddress: req.ip || req.headers['x-forwarded-for'] as string || undefined,
       userAgent: req.headers['user-agent'] || undefined,
@@ -1,7 +1,11 @@
-import { eq, desc, and, gte, lte, sql } from "drizzle-orm";
+import { eq, desc, asc, and, or, gt, gte, lt, lte, like, inArray, getTableColumns, sql, type SQL, type SQLWrapper } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
-import { InsertUser, users, leads, InsertLead, searchHistory, InsertSearchHistory, enrichmentData, InsertEnrichmentData, conversations, InsertConversation, messages, InsertMessage, conversationTemplates, InsertConversationTemplate, emailTemplates, InsertEmailTemplate, sentEmails, InsertSentEmail, emailSequences, InsertEmailSequence, sequenceSteps, InsertSequenceStep, sequenceEnrollments, InsertSequenceEnrollment, emailClicks, InsertEmailClick, emailOpens, InsertEmailOpen, reengagementWorkflows, InsertReengagementWorkflow, reengagementExecutions, invoices, Invoice, InsertInvoice, payments, Payment, InsertPayment, subscriptionPlans, SubscriptionPlan, InsertSubscriptionPlan, feedback, Feedback, InsertFeedback } from "../drizzle/schema";
+import { InsertUser, users, leads, Lead, InsertLead, leadContacts, LeadContact, InsertLeadContact, leadMerges, InsertLeadMerge, leadStatusHistory, InsertLeadStatusChange, savedViews, InsertSavedView, savedViewLeads, savedViewShares, bulkOperations, InsertBulkOperation, bulkOperationLeads, BulkOperationLead, InsertBulkOperationLead, LeadStatusChange, tags, InsertTag, leadTags, customFieldDefinitions, InsertCustomFieldDefinition, searchHistory, InsertSearchHistory, searchMonitors, InsertSearchMonitor, searchMonitorMatches, InsertSearchMonitorMatch, apolloCreditGrants, InsertApolloCreditGrant, discoveryCache, InsertDiscoveryCacheEntry, discoveryCacheLookups, InsertDiscoveryCacheLookup, enrichmentData, InsertEnrichmentData, emailDeliverabilityChecks, InsertEmailDeliverabilityCheck, conversations, InsertConversation, messages, InsertMessage, conversationTemplates, InsertConversationTemplate, emailTemplates, InsertEmailTemplate, sentEmails, InsertSentEmail, emailSequences, InsertEmailSequence, sequenceSteps, InsertSequenceStep, sequenceEnrollments, InsertSequenceEnrollment, emailClicks, InsertEmailClick, emailOpens, InsertEmailOpen, reengagementWorkflows, InsertReengagementWorkflow, reengagementExecutions, invoices, Invoice, InsertInvoice, payments, Payment, InsertPayment, subscriptionPlans, SubscriptionPlan, InsertSubscriptionPlan, feedback, Feedback, InsertFeedback, scoringModels, InsertScoringModelRow } from "../drizzle/schema";
 import { ENV } from './_core/env';
+import type { LeadListFilters } from './leadValidation';
+import { normalizeCustomFieldValue, parseCustomFieldSort, type CustomFieldDefinition, type CustomFieldFilter } from '../shared/customFields';
+import { TECHNOLOGY_MIN_CONFIDENCE } from '../shared/enrichment';
+import { DEFAULT_SCORING_MODEL } from '../shared/scoring';
 
 let _db: ReturnType<typeof drizzle> | null = null;
 
@@ -102,76 +106,1489 @@ export async function getUserByEmail(email: string) {
 }
 
 // Lead management queries
+
+// Lead columns that mirror the primary contact, and the contact field each comes from
+const PRIMARY_CONTACT_COLUMNS = {
+  contactName: "name",
+  contactTitle: "title",
+  contactEmail: "email",
+  contactPhone: "phone",
+  contactLinkedin: "linkedin",
+} as const;
+
+type PrimaryContactColumn = keyof typeof PRIMARY_CONTACT_COLUMNS;
+
+function hasPrimaryContactColumns(lead: Partial<InsertLead>) {
+  return (Object.keys(PRIMARY_CONTACT_COLUMNS) as PrimaryContactColumn[]).some(column => column in lead);
+}
+
+/**
+ * The contact fields set by a lead write that uses the single-contact columns
+ */
+function contactFieldsFromLead(lead: Partial<InsertLead>) {
+  const fields: Partial<InsertLeadContact> = {};
+  for (const [column, field] of Object.entries(PRIMARY_CONTACT_COLUMNS)) {
+    const value = lead[column as PrimaryContactColumn];
+    if (value !== undefined) fields[field] = value || null;
+  }
+  return fields;
+}
+
+/**
+ * The lead columns mirroring a primary contact; all null without one
+ */
+function leadFieldsFromContact(contact: LeadContact | undefined) {
+  const fields = {} as Record<PrimaryContactColumn, string | null>;
+  for (const [column, field] of Object.entries(PRIMARY_CONTACT_COLUMNS)) {
+    fields[column as PrimaryContactColumn] = contact?.[field] ?? null;
+  }
+  return fields;
+}
+
+function hasContactDetails(fields: Partial<InsertLeadContact>) {
+  return Object.values(fields).some(value => !!value);
+}
+
 export async function createLead(lead: InsertLead) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  const result = await db.insert(leads).values(lead);
-  return result;
+  const result = await db.insert(leads).values(lead);
+  
+  // Leads created with single-contact details get them as their primary contact
+  const contact = contactFieldsFromLead(lead);
+  if (hasContactDetails(contact)) {
+    await db.insert(leadContacts).values({ ...contact, leadId: Number(result[0].insertId), isPrimary: 1 });
+  }
+  return result;
+}
+
+/**
+ * Insert leads in bulk, returning their IDs in input order
+ */
+export async function createLeads(values: InsertLead[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  // Insert in chunks to keep individual statements a reasonable size
+  const ids: number[] = [];
+  const chunkSize = 500;
+  for (let i = 0; i < values.length; i += chunkSize) {
+    const chunk = values.slice(i, i + chunkSize);
+    const inserted = await db.insert(leads).values(chunk).$returningId();
+    ids.push(...inserted.map(row => row.id));
+
+    const contacts = chunk
+      .map((lead, index) => ({ contact: contactFieldsFromLead(lead), leadId: inserted[index].id }))
+      .filter(({ contact }) => hasContactDetails(contact))
+      .map(({ contact, leadId }) => ({ ...contact, leadId, isPrimary: 1 }));
+    if (contacts.length > 0) await db.insert(leadContacts).values(contacts);
+  }
+  return ids;
+}
+
+/**
+ * Get the identifying fields of every lead a user owns (for duplicate detection)
+ */
+export async function getUserLeadIdentities(userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db.select({
+    id: leads.id,
+    companyName: leads.companyName,
+    website: leads.website,
+    contactEmail: leads.contactEmail,
+  }).from(leads).where(eq(leads.userId, userId));
+}
+
+/**
+ * Get the fields discovery matches a user's leads on, with the status and score it shows for a match
+ */
+export async function getUserLeadSummaries(userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db.select({
+    id: leads.id,
+    companyName: leads.companyName,
+    website: leads.website,
+    status: leads.status,
+    score: leads.score,
+  }).from(leads).where(eq(leads.userId, userId));
+}
+
+/**
+ * When each lead was last contacted: the latest email sent to it or message the user sent in its conversations
+ */
+export async function getLeadLastContactDates(userId: number, leadIds: number[]) {
+  const db = await getDb();
+  const lastContact = new Map<number, Date>();
+  if (!db || leadIds.length === 0) return lastContact;
+
+  const toDate = (value: unknown) => new Date(value as string | Date);
+  const [emailRows, messageRows] = await Promise.all([
+    db.select({
+      leadId: sentEmails.leadId,
+      lastAt: sql<Date>`MAX(${sentEmails.sentAt})`.mapWith(toDate),
+    }).from(sentEmails)
+      .where(and(eq(sentEmails.userId, userId), inArray(sentEmails.leadId, leadIds)))
+      .groupBy(sentEmails.leadId),
+    db.select({
+      leadId: conversations.leadId,
+      lastAt: sql<Date>`MAX(${messages.createdAt})`.mapWith(toDate),
+    }).from(messages)
+      .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+      .where(and(eq(conversations.userId, userId), inArray(conversations.leadId, leadIds), eq(messages.role, "user")))
+      .groupBy(conversations.leadId),
+  ]);
+
+  for (const row of [...emailRows, ...messageRows]) {
+    if (row.leadId === null) continue;
+    const current = lastContact.get(row.leadId);
+    if (!current || row.lastAt > current) lastContact.set(row.leadId, row.lastAt);
+  }
+  return lastContact;
+}
+
+/**
+ * SQL expression reading one custom field from leads.customFields
+ * Numbers and currency are cast so they compare and sort numerically
+ */
+function customFieldExpression(definition: CustomFieldDefinition) {
+  const path = `$."${definition.fieldKey}"`;
+  if (definition.fieldType === "number" || definition.fieldType === "currency") {
+    return sql`CAST(JSON_EXTRACT(${leads.customFields}, ${path}) AS DECIMAL(20,4))`;
+  }
+  return sql`JSON_UNQUOTE(JSON_EXTRACT(${leads.customFields}, ${path}))`;
+}
+
+function customFieldConditions(definition: CustomFieldDefinition, filter: CustomFieldFilter): SQL[] {
+  const conditions: SQL[] = [];
+  const value = filter.value?.trim();
+  const expression = customFieldExpression(definition);
+
+  if (value) {
+    if (definition.fieldType === "multi_select" || definition.fieldType === "single_select") {
+      // Stored values use the option's canonical spelling
+      const option = definition.options.find(o => o.toLowerCase() === value.toLowerCase()) ?? value;
+      conditions.push(definition.fieldType === "multi_select"
+        ? sql`JSON_CONTAINS(JSON_EXTRACT(${leads.customFields}, ${`$."${definition.fieldKey}"`}), JSON_QUOTE(${option}))`
+        : sql`${expression} = ${option}`);
+    } else {
+      conditions.push(sql`LOWER(${expression}) LIKE ${`%${value.toLowerCase()}%`}`);
+    }
+  }
+
+  const isRangeType = ["number", "currency", "date"].includes(definition.fieldType);
+  if (isRangeType && filter.min?.trim()) {
+    const min = normalizeCustomFieldValue(definition, filter.min);
+    if (min.ok && min.value !== null) conditions.push(sql`${expression} >= ${min.value}`);
+  }
+  if (isRangeType && filter.max?.trim()) {
+    const max = normalizeCustomFieldValue(definition, filter.max);
+    if (max.ok && max.value !== null) conditions.push(sql`${expression} <= ${max.value}`);
+  }
+
+  return conditions;
+}
+
+/** Position after the last lead of a page: its sort value and id */
+export interface LeadCursor {
+  value: string | number | null;
+  id: number;
+}
+
+function startOfDay(day: string) {
+  return new Date(`${day}T00:00:00Z`);
+}
+
+function startOfNextDay(day: string) {
+  const date = startOfDay(day);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date;
+}
+
+/**
+ * WHERE conditions for the Leads page filters
+ * Custom field filters need the user's field definitions to know each field's type
+ */
+function leadFilterConditions(userId: number, filters: LeadListFilters, customFields: CustomFieldDefinition[]): SQL[] {
+  const score = sql`COALESCE(${leads.score}, 0)`;
+  const conditions: SQL[] = [eq(leads.userId, userId)];
+
+  if (filters.status) {
+    conditions.push(eq(leads.status, filters.status as Lead["status"]));
+  }
+  // Priority buckets start where the user's scoring model says
+  const highMin = sql`COALESCE((SELECT ${scoringModels.highPriorityMin} FROM ${scoringModels} WHERE ${scoringModels.userId} = ${userId}), ${DEFAULT_SCORING_MODEL.thresholds.high})`;
+  const mediumMin = sql`COALESCE((SELECT ${scoringModels.mediumPriorityMin} FROM ${scoringModels} WHERE ${scoringModels.userId} = ${userId}), ${DEFAULT_SCORING_MODEL.thresholds.medium})`;
+  if (filters.scorePriority === "high") {
+    conditions.push(gte(score, highMin));
+  } else if (filters.scorePriority === "medium") {
+    conditions.push(and(gte(score, mediumMin), lt(score, highMin))!);
+  } else if (filters.scorePriority === "low") {
+    conditions.push(lt(score, mediumMin));
+  }
+  if (filters.scoreMin !== undefined) conditions.push(gte(score, filters.scoreMin));
+  if (filters.scoreMax !== undefined) conditions.push(lte(score, filters.scoreMax));
+  if (filters.industry?.trim()) conditions.push(like(leads.industry, `%${filters.industry.trim()}%`));
+  if (filters.location?.trim()) conditions.push(like(leads.location, `%${filters.location.trim()}%`));
+  if (filters.tagIds?.length) {
+    const hasTag = (tagIds: number[]) =>
+      sql`EXISTS (SELECT 1 FROM ${leadTags} WHERE ${leadTags.leadId} = ${leads.id} AND ${inArray(leadTags.tagId, tagIds)})`;
+    if (filters.tagMatch === "all") {
+      conditions.push(...filters.tagIds.map(tagId => hasTag([tagId])));
+    } else {
+      conditions.push(hasTag(filters.tagIds));
+    }
+  }
+  if (filters.technologies?.length) {
+    conditions.push(sql`EXISTS (SELECT 1 FROM ${enrichmentData} WHERE ${enrichmentData.leadId} = ${leads.id} AND ${enrichmentData.dataType} = 'technology' AND ${inArray(enrichmentData.dataKey, filters.technologies)} AND ${enrichmentData.confidence} >= ${TECHNOLOGY_MIN_CONFIDENCE})`);
+  }
+  if (filters.createdFrom) conditions.push(gte(leads.createdAt, startOfDay(filters.createdFrom)));
+  if (filters.createdTo) conditions.push(lt(leads.createdAt, startOfNextDay(filters.createdTo)));
+  if (filters.updatedFrom) conditions.push(gte(leads.updatedAt, startOfDay(filters.updatedFrom)));
+  if (filters.updatedTo) conditions.push(lt(leads.updatedAt, startOfNextDay(filters.updatedTo)));
+
+  const hasOpens = sql`EXISTS (SELECT 1 FROM ${emailOpens} WHERE ${emailOpens.leadId} = ${leads.id})`;
+  const hasClicks = sql`EXISTS (SELECT 1 FROM ${emailClicks} WHERE ${emailClicks.leadId} = ${leads.id})`;
+  if (filters.engagement === "opened") {
+    conditions.push(hasOpens);
+  } else if (filters.engagement === "clicked") {
+    conditions.push(hasClicks);
+  } else if (filters.engagement === "none") {
+    conditions.push(sql`NOT ${hasOpens}`, sql`NOT ${hasClicks}`);
+  }
+
+  const filterField = customFields.find(f => f.fieldKey === filters.customField?.key);
+  if (filterField && filters.customField) {
+    conditions.push(...customFieldConditions(filterField, filters.customField));
+  }
+  if (filters.snapshotViewId !== undefined) {
+    conditions.push(sql`EXISTS (SELECT 1 FROM ${savedViewLeads} WHERE ${savedViewLeads.viewId} = ${filters.snapshotViewId} AND ${savedViewLeads.leadId} = ${leads.id})`);
+  }
+  if (filters.bulkOperationId !== undefined) {
+    conditions.push(sql`EXISTS (SELECT 1 FROM ${bulkOperationLeads} WHERE ${bulkOperationLeads.operationId} = ${filters.bulkOperationId} AND ${bulkOperationLeads.leadId} = ${leads.id} AND ${bulkOperationLeads.outcome} = 'succeeded')`);
+  }
+
+  return conditions;
+}
+
+interface LeadSortSpec {
+  expression: SQLWrapper;
+  direction: "asc" | "desc";
+  nullable: boolean; // Nullable sorts place leads without a value last
+}
+
+function leadSortSpec(sortBy: string, customFields: CustomFieldDefinition[]): LeadSortSpec {
+  const customSort = parseCustomFieldSort(sortBy);
+  const sortField = customSort && customFields.find(f => f.fieldKey === customSort.key);
+  if (customSort && sortField) {
+    return { expression: customFieldExpression(sortField), direction: customSort.direction, nullable: true };
+  }
+
+  const score = sql`COALESCE(${leads.score}, 0)`;
+  switch (sortBy) {
+    case "score-high":
+      return { expression: score, direction: "desc", nullable: false };
+    case "score-low":
+      return { expression: score, direction: "asc", nullable: false };
+    case "name":
+      return { expression: leads.companyName, direction: "asc", nullable: false };
+    default:
+      // Raw SQL so the cursor's driver string ("YYYY-MM-DD HH:MM:SS") is compared as-is
+      return { expression: sql`${leads.createdAt}`, direction: "desc", nullable: false };
+  }
+}
+
+/**
+ * Keyset condition selecting the rows that sort after the cursor
+ * Ties on the sort value are broken by id in the same direction
+ */
+function afterCursor(sort: LeadSortSpec, cursor: LeadCursor): SQL {
+  const after = sort.direction === "asc" ? gt : lt;
+  if (cursor.value === null) {
+    // Only leads without a value remain
+    return and(sql`${sort.expression} IS NULL`, after(leads.id, cursor.id))!;
+  }
+
+  const next = or(
+    after(sort.expression, cursor.value),
+    and(eq(sort.expression, cursor.value), after(leads.id, cursor.id))
+  )!;
+  return sort.nullable ? or(next, sql`${sort.expression} IS NULL`)! : next;
+}
+
+/**
+ * Get the page of a user's leads that follows a cursor, matching the Leads page filters
+ * in the chosen sort order. Each row carries the sortValue to build the next cursor from
+ */
+export async function getFilteredLeadsPage(
+  userId: number,
+  filters: LeadListFilters,
+  cursor: LeadCursor | null,
+  limit: number,
+  customFields: CustomFieldDefinition[] = []
+) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const conditions = leadFilterConditions(userId, filters, customFields);
+  const sort = leadSortSpec(filters.sortBy, customFields);
+  if (cursor) conditions.push(afterCursor(sort, cursor));
+
+  const order = sort.direction === "asc" ? asc : desc;
+  const orderBy = sort.nullable ? [sql`(${sort.expression} IS NULL)`] : [];
+
+  return await db.select({ ...getTableColumns(leads), sortValue: sql<string | number | null>`${sort.expression}` })
+    .from(leads)
+    .where(and(...conditions))
+    .orderBy(...orderBy, order(sort.expression), order(leads.id))
+    .limit(limit);
+}
+
+/**
+ * Count a user's leads matching the Leads page filters
+ */
+export async function countFilteredLeads(
+  userId: number,
+  filters: LeadListFilters,
+  customFields: CustomFieldDefinition[] = []
+) {
+  const db = await getDb();
+  if (!db) return 0;
+
+  const [row] = await db.select({ count: sql<number>`count(*)` })
+    .from(leads)
+    .where(and(...leadFilterConditions(userId, filters, customFields)));
+  return Number(row?.count ?? 0);
+}
+
+/**
+ * IDs of a user's leads matching the Leads page filters, in sort order (for static view snapshots)
+ */
+export async function getFilteredLeadIds(
+  userId: number,
+  filters: LeadListFilters,
+  limit: number,
+  customFields: CustomFieldDefinition[] = []
+) {
+  const rows = await getFilteredLeadsPage(userId, filters, null, limit, customFields);
+  return rows.map(row => row.id);
+}
+
+/**
+ * Of the given lead IDs, the ones a user owns
+ */
+export async function getOwnedLeadIds(userId: number, leadIds: number[]) {
+  const db = await getDb();
+  if (!db || leadIds.length === 0) return [];
+
+  const rows = await db.select({ id: leads.id })
+    .from(leads)
+    .where(and(eq(leads.userId, userId), inArray(leads.id, leadIds)));
+  return rows.map(row => row.id);
+}
+
+/**
+ * Of the given lead IDs, the lead rows a user owns
+ */
+export async function getOwnedLeads(userId: number, leadIds: number[]) {
+  const db = await getDb();
+  if (!db || leadIds.length === 0) return [];
+
+  return await db.select().from(leads)
+    .where(and(eq(leads.userId, userId), inArray(leads.id, leadIds)));
+}
+
+/**
+ * Count email opens and clicks per lead
+ */
+export async function getLeadEngagementCounts(leadIds: number[]) {
+  const counts = new Map<number, { opens: number; clicks: number }>();
+  leadIds.forEach(id => counts.set(id, { opens: 0, clicks: 0 }));
+
+  const db = await getDb();
+  if (!db || leadIds.length === 0) return counts;
+
+  const opens = await db.select({ leadId: emailOpens.leadId, count: sql<number>`count(*)` })
+    .from(emailOpens)
+    .where(inArray(emailOpens.leadId, leadIds))
+    .groupBy(emailOpens.leadId);
+  const clicks = await db.select({ leadId: emailClicks.leadId, count: sql<number>`count(*)` })
+    .from(emailClicks)
+    .where(inArray(emailClicks.leadId, leadIds))
+    .groupBy(emailClicks.leadId);
+
+  opens.forEach(row => { if (row.leadId) counts.get(row.leadId)!.opens = Number(row.count); });
+  clicks.forEach(row => { if (row.leadId) counts.get(row.leadId)!.clicks = Number(row.count); });
+
+  return counts;
+}
+
+export async function getUserLeads(userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db.select().from(leads).where(eq(leads.userId, userId)).orderBy(leads.createdAt);
+}
+
+export async function getUserLeadsByStatus(userId: number, status: Lead["status"]) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db.select().from(leads)
+    .where(and(eq(leads.userId, userId), eq(leads.status, status)))
+    .orderBy(desc(leads.updatedAt));
+}
+
+export async function getLeadById(id: number, userId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(leads)
+    .where(eq(leads.id, id))
+    .limit(1);
+  
+  // Verify ownership
+  if (result.length > 0 && result[0].userId === userId) {
+    return result[0];
+  }
+  return undefined;
+}
+
+export async function updateLead(id: number, userId: number, updates: Partial<InsertLead>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  // Verify ownership before updating
+  const lead = await getLeadById(id, userId);
+  if (!lead) throw new Error("Lead not found or access denied");
+  
+  const result = await db.update(leads)
+    .set(updates)
+    .where(eq(leads.id, id));
+  
+  // Edits to the single-contact columns are edits to the primary contact
+  if (hasPrimaryContactColumns(updates)) {
+    const contact = contactFieldsFromLead(updates);
+    const [primary] = await db.select({ id: leadContacts.id }).from(leadContacts)
+      .where(and(eq(leadContacts.leadId, id), eq(leadContacts.isPrimary, 1)))
+      .limit(1);
+    if (primary) {
+      await db.update(leadContacts).set(contact).where(eq(leadContacts.id, primary.id));
+    } else if (hasContactDetails(contact)) {
+      await db.insert(leadContacts).values({ ...contact, leadId: id, isPrimary: 1 });
+    }
+  }
+  return result;
+}
+
+export async function deleteLead(id: number, userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  // Verify ownership before deleting
+  const lead = await getLeadById(id, userId);
+  if (!lead) throw new Error("Lead not found or access denied");
+  
+  await db.delete(leadTags).where(eq(leadTags.leadId, id));
+  await db.delete(leadStatusHistory).where(eq(leadStatusHistory.leadId, id));
+  await db.delete(leadContacts).where(eq(leadContacts.leadId, id));
+  return await db.delete(leads).where(eq(leads.id, id));
+}
+
+/**
+ * Merge a duplicate lead into a surviving lead in one transaction:
+ * re-point every record linked to the duplicate, apply the merged field values,
+ * record the audit row and delete the duplicate
+ * Returns the number of rows re-pointed per table
+ */
+export async function mergeLeadRecords(params: {
+  survivingLeadId: number;
+  mergedLeadId: number;
+  updates: Partial<InsertLead>;
+  audit: Omit<InsertLeadMerge, "movedRecords">;
+  statusChange?: InsertLeadStatusChange; // When the merge changes the surviving lead's status
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { survivingLeadId, mergedLeadId } = params;
+  const updates = { ...params.updates };
+
+  return await db.transaction(async (tx) => {
+    const moved: Record<string, number> = {};
+
+    // Enrollments in a sequence the surviving lead is already in would email the company twice
+    const survivingEnrollments = await tx.select({ sequenceId: sequenceEnrollments.sequenceId })
+      .from(sequenceEnrollments)
+      .where(eq(sequenceEnrollments.leadId, survivingLeadId));
+    const survivingSequenceIds = survivingEnrollments.map(e => e.sequenceId);
+    if (survivingSequenceIds.length > 0) {
+      await tx.update(sequenceEnrollments)
+        .set({ status: "paused" })
+        .where(and(
+          eq(sequenceEnrollments.leadId, mergedLeadId),
+          eq(sequenceEnrollments.status, "active"),
+          inArray(sequenceEnrollments.sequenceId, survivingSequenceIds)
+        ));
+    }
+
+    const [sentResult] = await tx.update(sentEmails).set({ leadId: survivingLeadId }).where(eq(sentEmails.leadId, mergedLeadId));
+    moved.sentEmails = sentResult.affectedRows;
+    const [opensResult] = await tx.update(emailOpens).set({ leadId: survivingLeadId }).where(eq(emailOpens.leadId, mergedLeadId));
+    moved.emailOpens = opensResult.affectedRows;
+    const [clicksResult] = await tx.update(emailClicks).set({ leadId: survivingLeadId }).where(eq(emailClicks.leadId, mergedLeadId));
+    moved.emailClicks = clicksResult.affectedRows;
+    const [conversationsResult] = await tx.update(conversations).set({ leadId: survivingLeadId }).where(eq(conversations.leadId, mergedLeadId));
+    moved.conversations = conversationsResult.affectedRows;
+    const [enrichmentResult] = await tx.update(enrichmentData).set({ leadId: survivingLeadId }).where(eq(enrichmentData.leadId, mergedLeadId));
+    moved.enrichmentData = enrichmentResult.affectedRows;
+    const [enrollmentsResult] = await tx.update(sequenceEnrollments).set({ leadId: survivingLeadId }).where(eq(sequenceEnrollments.leadId, mergedLeadId));
+    moved.sequenceEnrollments = enrollmentsResult.affectedRows;
+
+    // Tags the surviving lead already has would break the unique (leadId, tagId) index
+    const [tagsResult] = await tx.insert(leadTags).ignore().select(qb =>
+      qb.select({ leadId: sql<number>`${survivingLeadId}`.as("leadId"), tagId: leadTags.tagId })
+        .from(leadTags)
+        .where(eq(leadTags.leadId, mergedLeadId))
+    );
+    moved.leadTags = tagsResult.affectedRows;
+    await tx.delete(leadTags).where(eq(leadTags.leadId, mergedLeadId));
+
+    // Static views and bulk operations that already hold the surviving lead keep their own row
+    const [viewsResult] = await tx.insert(savedViewLeads).ignore().select(qb =>
+      qb.select({ viewId: savedViewLeads.viewId, leadId: sql<number>`${survivingLeadId}`.as("leadId") })
+        .from(savedViewLeads)
+        .where(eq(savedViewLeads.leadId, mergedLeadId))
+    );
+    moved.savedViewLeads = viewsResult.affectedRows;
+    await tx.delete(savedViewLeads).where(eq(savedViewLeads.leadId, mergedLeadId));
+    const [operationsResult] = await tx.insert(bulkOperationLeads).ignore().select(qb =>
+      qb.select({
+        operationId: bulkOperationLeads.operationId,
+        leadId: sql<number>`${survivingLeadId}`.as("leadId"),
+        outcome: bulkOperationLeads.outcome,
+        error: bulkOperationLeads.error,
+        undoData: bulkOperationLeads.undoData,
+      })
+        .from(bulkOperationLeads)
+        .where(eq(bulkOperationLeads.leadId, mergedLeadId))
+    );
+    moved.bulkOperationLeads = operationsResult.affectedRows;
+    await tx.delete(bulkOperationLeads).where(eq(bulkOperationLeads.leadId, mergedLeadId));
+    const [matchesResult] = await tx.update(searchMonitorMatches).set({ leadId: survivingLeadId }).where(eq(searchMonitorMatches.leadId, mergedLeadId));
+    moved.searchMonitorMatches = matchesResult.affectedRows;
+
+    const [historyResult] = await tx.update(leadStatusHistory).set({ leadId: survivingLeadId }).where(eq(leadStatusHistory.leadId, mergedLeadId));
+    moved.leadStatusHistory = historyResult.affectedRows;
+
+    // Everyone at both companies stays on; the merged lead's primary contact takes over
+    // when its contact details were chosen or the surviving lead has none
+    const [survivingPrimary] = await tx.select({ id: leadContacts.id }).from(leadContacts)
+      .where(and(eq(leadContacts.leadId, survivingLeadId), eq(leadContacts.isPrimary, 1)))
+      .limit(1);
+    const [mergedPrimary] = await tx.select({ id: leadContacts.id }).from(leadContacts)
+      .where(and(eq(leadContacts.leadId, mergedLeadId), eq(leadContacts.isPrimary, 1)))
+      .limit(1);
+    const primaryId = mergedPrimary && (!survivingPrimary || hasPrimaryContactColumns(updates))
+      ? mergedPrimary.id
+      : survivingPrimary?.id;
+    const [contactsResult] = await tx.update(leadContacts).set({ leadId: survivingLeadId }).where(eq(leadContacts.leadId, mergedLeadId));
+    moved.leadContacts = contactsResult.affectedRows;
+    if (primaryId !== undefined) {
+      await tx.update(leadContacts)
+        .set({ isPrimary: sql`${leadContacts.id} = ${primaryId}` })
+        .where(eq(leadContacts.leadId, survivingLeadId));
+      const [primary] = await tx.select().from(leadContacts).where(eq(leadContacts.id, primaryId));
+      Object.assign(updates, leadFieldsFromContact(primary));
+    }
+
+    if (Object.keys(updates).length > 0) {
+      await tx.update(leads).set(updates).where(eq(leads.id, survivingLeadId));
+    }
+    if (params.statusChange) {
+      await tx.insert(leadStatusHistory).values(params.statusChange);
+    }
+
+    await tx.insert(leadMerges).values({ ...params.audit, movedRecords: JSON.stringify(moved) });
+    await tx.delete(leads).where(eq(leads.id, mergedLeadId));
+
+    return moved;
+  });
+}
+
+/**
+ * Get the merge audit trail for a surviving lead, newest first
+ */
+export async function getLeadMerges(leadId: number, userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db.select().from(leadMerges)
+    .where(and(eq(leadMerges.survivingLeadId, leadId), eq(leadMerges.userId, userId)))
+    .orderBy(desc(leadMerges.createdAt));
+}
+
+// Lead contacts
+export async function getLeadContacts(leadId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db.select().from(leadContacts)
+    .where(eq(leadContacts.leadId, leadId))
+    .orderBy(desc(leadContacts.isPrimary), asc(leadContacts.id));
+}
+
+/**
+ * Contacts of several leads, primary contact first
+ */
+export async function getContactsForLeads(leadIds: number[]) {
+  const contactsByLead = new Map<number, LeadContact[]>();
+  const db = await getDb();
+  if (!db || leadIds.length === 0) return contactsByLead;
+
+  const rows = await db.select().from(leadContacts)
+    .where(inArray(leadContacts.leadId, leadIds))
+    .orderBy(desc(leadContacts.isPrimary), asc(leadContacts.id));
+  for (const row of rows) {
+    const contacts = contactsByLead.get(row.leadId) ?? [];
+    contacts.push(row);
+    contactsByLead.set(row.leadId, contacts);
+  }
+  return contactsByLead;
+}
+
+export async function getLeadContactById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [contact] = await db.select().from(leadContacts).where(eq(leadContacts.id, id)).limit(1);
+  return contact;
+}
+
+export async function createLeadContact(contact: InsertLeadContact) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [result] = await db.insert(leadContacts).values(contact);
+  return Number(result.insertId);
+}
+
+export async function updateLeadContact(id: number, updates: Partial<InsertLeadContact>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(leadContacts).set(updates).where(eq(leadContacts.id, id));
+}
+
+export async function deleteLeadContact(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(leadContacts).where(eq(leadContacts.id, id));
+}
+
+/**
+ * Make a contact the lead's primary contact (or leave it without one) and copy
+ * its details onto the lead's single-contact columns
+ */
+export async function setPrimaryLeadContact(leadId: number, contactId: number | null) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.transaction(async (tx) => {
+    await tx.update(leadContacts)
+      .set({ isPrimary: contactId === null ? 0 : sql`${leadContacts.id} = ${contactId}` })
+      .where(eq(leadContacts.leadId, leadId));
+    const [primary] = contactId === null
+      ? []
+      : await tx.select().from(leadContacts).where(and(eq(leadContacts.id, contactId), eq(leadContacts.leadId, leadId)));
+    await tx.update(leads).set(leadFieldsFromContact(primary)).where(eq(leads.id, leadId));
+  });
+}
+
+/**
+ * The contact an email was sent to, for attributing its opens and clicks
+ */
+export async function getSentEmailContactId(sentEmailId: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const [email] = await db.select({ contactId: sentEmails.contactId }).from(sentEmails)
+    .where(eq(sentEmails.id, sentEmailId))
+    .limit(1);
+  return email?.contactId ?? null;
+}
+
+// Lead status history
+export async function createLeadStatusChange(change: InsertLeadStatusChange) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.insert(leadStatusHistory).values(change);
+}
+
+/**
+ * Get a lead's status changes, oldest first
+ */
+export async function getLeadStatusHistory(leadId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db.select().from(leadStatusHistory)
+    .where(eq(leadStatusHistory.leadId, leadId))
+    .orderBy(asc(leadStatusHistory.changedAt), asc(leadStatusHistory.id));
+}
+
+/**
+ * Count a user's status transitions (from -> to) in a date range, for pipeline analytics
+ */
+export async function getLeadStatusTransitions(userId: number, range: { from?: Date; to?: Date } = {}) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const conditions = [eq(leadStatusHistory.userId, userId)];
+  if (range.from) conditions.push(gte(leadStatusHistory.changedAt, range.from));
+  if (range.to) conditions.push(lt(leadStatusHistory.changedAt, range.to));
+
+  return await db.select({
+    previousStatus: leadStatusHistory.previousStatus,
+    newStatus: leadStatusHistory.newStatus,
+    triggeredBy: leadStatusHistory.triggeredBy,
+    count: sql<number>`COUNT(*)`.mapWith(Number),
+    leadCount: sql<number>`COUNT(DISTINCT ${leadStatusHistory.leadId})`.mapWith(Number),
+  })
+    .from(leadStatusHistory)
+    .where(and(...conditions))
+    .groupBy(leadStatusHistory.previousStatus, leadStatusHistory.newStatus, leadStatusHistory.triggeredBy);
+}
+
+/**
+ * Move leads from one user to another, returning how many moved
+ */
+export async function setLeadsOwner(leadIds: number[], fromUserId: number, toUserId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (leadIds.length === 0) return 0;
+
+  const [result] = await db.update(leads)
+    .set({ userId: toUserId })
+    .where(and(eq(leads.userId, fromUserId), inArray(leads.id, leadIds)));
+  return result.affectedRows;
+}
+
+/**
+ * Turn a row's timestamp columns back into Dates after a JSON round trip
+ */
+function reviveDates<T extends Record<string, unknown>>(
+  table: typeof leads | typeof leadStatusHistory | typeof leadContacts,
+  row: T
+): T {
+  const revived: Record<string, unknown> = { ...row };
+  for (const [key, column] of Object.entries(getTableColumns(table))) {
+    if (column.dataType === "date" && typeof revived[key] === "string") {
+      revived[key] = new Date(revived[key] as string);
+    }
+  }
+  return revived as T;
+}
+
+/**
+ * Put back a deleted lead with its original ID, tags and status history
+ * The snapshot may have been stored as JSON, so timestamps can arrive as strings
+ */
+export async function restoreDeletedLead(snapshot: {
+  lead: Lead;
+  tagIds: number[];
+  statusHistory: LeadStatusChange[];
+  contacts?: LeadContact[]; // Absent from snapshots taken before leads had contacts
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.transaction(async (tx) => {
+    await tx.insert(leads).values(reviveDates(leads, snapshot.lead));
+    if (snapshot.tagIds.length > 0) {
+      // Tags deleted since are left off
+      await tx.insert(leadTags).ignore().select(qb =>
+        qb.select({ leadId: sql<number>`${snapshot.lead.id}`.as("leadId"), tagId: tags.id })
+          .from(tags)
+          .where(and(eq(tags.userId, snapshot.lead.userId), inArray(tags.id, snapshot.tagIds)))
+      );
+    }
+    if (snapshot.statusHistory.length > 0) {
+      await tx.insert(leadStatusHistory).values(snapshot.statusHistory.map(row => reviveDates(leadStatusHistory, row)));
+    }
+    if (snapshot.contacts && snapshot.contacts.length > 0) {
+      await tx.insert(leadContacts).values(snapshot.contacts.map(row => reviveDates(leadContacts, row)));
+    }
+  });
+}
+
+// Bulk lead operations
+export async function createBulkOperation(operation: InsertBulkOperation) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [result] = await db.insert(bulkOperations).values(operation);
+  return Number(result.insertId);
+}
+
+export async function getBulkOperationById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [operation] = await db.select().from(bulkOperations).where(eq(bulkOperations.id, id)).limit(1);
+  return operation;
+}
+
+export async function getUserBulkOperations(userId: number, limit: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db.select().from(bulkOperations)
+    .where(eq(bulkOperations.userId, userId))
+    .orderBy(desc(bulkOperations.createdAt), desc(bulkOperations.id))
+    .limit(limit);
+}
+
+export async function updateBulkOperation(id: number, updates: Partial<InsertBulkOperation>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(bulkOperations).set(updates).where(eq(bulkOperations.id, id));
+}
+
+/**
+ * Mark a completed operation undone while its undo window is open, returning false
+ * when it has already been undone or can't be any more
+ */
+export async function claimBulkOperationUndo(id: number, now: Date) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [result] = await db.update(bulkOperations)
+    .set({ status: "undone", undoneAt: now, undoExpiresAt: null })
+    .where(and(eq(bulkOperations.id, id), eq(bulkOperations.status, "completed"), gt(bulkOperations.undoExpiresAt, now)));
+  return result.affectedRows > 0;
+}
+
+/**
+ * Record per-lead outcomes and add them to the operation's progress counts
+ */
+export async function addBulkOperationLeads(operationId: number, rows: Omit<InsertBulkOperationLead, "operationId">[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (rows.length === 0) return;
+
+  const failed = rows.filter(row => row.outcome === "failed").length;
+  await db.transaction(async (tx) => {
+    await tx.insert(bulkOperationLeads).values(rows.map(row => ({ ...row, operationId })));
+    await tx.update(bulkOperations)
+      .set({
+        processedCount: sql`${bulkOperations.processedCount} + ${rows.length}`,
+        failedCount: sql`${bulkOperations.failedCount} + ${failed}`,
+      })
+      .where(eq(bulkOperations.id, operationId));
+  });
+}
+
+export async function getBulkOperationLeads(operationId: number, outcome?: BulkOperationLead["outcome"]) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const conditions = [eq(bulkOperationLeads.operationId, operationId)];
+  if (outcome) conditions.push(eq(bulkOperationLeads.outcome, outcome));
+  return await db.select().from(bulkOperationLeads)
+    .where(and(...conditions))
+    .orderBy(asc(bulkOperationLeads.id));
+}
+
+// Saved lead views
+export async function createSavedView(view: InsertSavedView) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [result] = await db.insert(savedViews).values(view);
+  return Number(result.insertId);
+}
+
+export async function getSavedViewById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [view] = await db.select().from(savedViews).where(eq(savedViews.id, id)).limit(1);
+  return view;
+}
+
+export async function getUserSavedViews(userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db.select().from(savedViews)
+    .where(eq(savedViews.userId, userId))
+    .orderBy(asc(savedViews.name));
+}
+
+/**
+ * Views other users have shared with a user, with the owner's name and the user's pin
+ */
+export async function getSavedViewsSharedWith(userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db.select({ view: savedViews, pinned: savedViewShares.pinned, ownerName: users.name, ownerEmail: users.email })
+    .from(savedViewShares)
+    .innerJoin(savedViews, eq(savedViews.id, savedViewShares.viewId))
+    .leftJoin(users, eq(users.id, savedViews.userId))
+    .where(eq(savedViewShares.userId, userId))
+    .orderBy(asc(savedViews.name));
+}
+
+export async function updateSavedView(id: number, userId: number, updates: Partial<InsertSavedView>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.update(savedViews)
+    .set(updates)
+    .where(and(eq(savedViews.id, id), eq(savedViews.userId, userId)));
+}
+
+/**
+ * Delete a view along with its snapshot and shares
+ */
+export async function deleteSavedView(id: number, userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.transaction(async (tx) => {
+    const [result] = await tx.delete(savedViews).where(and(eq(savedViews.id, id), eq(savedViews.userId, userId)));
+    if (result.affectedRows === 0) return;
+    await tx.delete(savedViewLeads).where(eq(savedViewLeads.viewId, id));
+    await tx.delete(savedViewShares).where(eq(savedViewShares.viewId, id));
+  });
+}
+
+/**
+ * Replace the leads frozen in a static view and stamp the snapshot time
+ */
+export async function replaceSavedViewLeads(viewId: number, leadIds: number[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.transaction(async (tx) => {
+    await tx.delete(savedViewLeads).where(eq(savedViewLeads.viewId, viewId));
+    const chunkSize = 500;
+    for (let i = 0; i < leadIds.length; i += chunkSize) {
+      await tx.insert(savedViewLeads).values(leadIds.slice(i, i + chunkSize).map(leadId => ({ viewId, leadId })));
+    }
+    await tx.update(savedViews).set({ snapshotAt: new Date() }).where(eq(savedViews.id, viewId));
+  });
+}
+
+export async function getSavedViewLeadIds(viewId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db.select({ leadId: savedViewLeads.leadId }).from(savedViewLeads).where(eq(savedViewLeads.viewId, viewId));
+  return rows.map(row => row.leadId);
+}
+
+export async function getSavedViewShare(viewId: number, userId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [share] = await db.select().from(savedViewShares)
+    .where(and(eq(savedViewShares.viewId, viewId), eq(savedViewShares.userId, userId)))
+    .limit(1);
+  return share;
+}
+
+/**
+ * Teammates a view is shared with
+ */
+export async function getSavedViewShares(viewId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db.select({ userId: savedViewShares.userId, name: users.name, email: users.email, sharedAt: savedViewShares.createdAt })
+    .from(savedViewShares)
+    .innerJoin(users, eq(users.id, savedViewShares.userId))
+    .where(eq(savedViewShares.viewId, viewId))
+    .orderBy(asc(savedViewShares.createdAt));
+}
+
+/**
+ * Whether two users are teammates: one has shared a saved view with the other
+ */
+export async function isTeammate(userId: number, otherUserId: number) {
+  const db = await getDb();
+  if (!db) return false;
+
+  const [share] = await db.select({ id: savedViewShares.id })
+    .from(savedViewShares)
+    .innerJoin(savedViews, eq(savedViews.id, savedViewShares.viewId))
+    .where(or(
+      and(eq(savedViews.userId, userId), eq(savedViewShares.userId, otherUserId)),
+      and(eq(savedViews.userId, otherUserId), eq(savedViewShares.userId, userId))
+    ))
+    .limit(1);
+  return !!share;
+}
+
+export async function createSavedViewShare(viewId: number, userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.insert(savedViewShares).values({ viewId, userId });
+}
+
+export async function deleteSavedViewShare(viewId: number, userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.delete(savedViewShares)
+    .where(and(eq(savedViewShares.viewId, viewId), eq(savedViewShares.userId, userId)));
+}
+
+export async function updateSavedViewSharePin(viewId: number, userId: number, pinned: boolean) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.update(savedViewShares)
+    .set({ pinned: pinned ? 1 : 0 })
+    .where(and(eq(savedViewShares.viewId, viewId), eq(savedViewShares.userId, userId)));
+}
+
+// Tags
+/**
+ * A user's tags with the number of leads carrying each
+ */
+export async function getUserTags(userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db.select({
+    id: tags.id,
+    name: tags.name,
+    color: tags.color,
+    leadCount: sql<number>`COUNT(${leadTags.id})`.mapWith(Number),
+  })
+    .from(tags)
+    .leftJoin(leadTags, eq(leadTags.tagId, tags.id))
+    .where(eq(tags.userId, userId))
+    .groupBy(tags.id)
+    .orderBy(asc(tags.name));
+}
+
+export async function createTag(tag: InsertTag) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [created] = await db.insert(tags).values(tag).$returningId();
+  return created.id;
+}
+
+export async function updateTag(id: number, userId: number, updates: Partial<InsertTag>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.update(tags)
+    .set(updates)
+    .where(and(eq(tags.id, id), eq(tags.userId, userId)));
+}
+
+/**
+ * Delete tags and unlink them from every lead
+ */
+export async function deleteTags(ids: number[], userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (ids.length === 0) return;
+
+  await db.transaction(async (tx) => {
+    const owned = await tx.select({ id: tags.id }).from(tags).where(and(eq(tags.userId, userId), inArray(tags.id, ids)));
+    const ownedIds = owned.map(tag => tag.id);
+    if (ownedIds.length === 0) return;
+    await tx.delete(leadTags).where(inArray(leadTags.tagId, ownedIds));
+    await tx.delete(tags).where(inArray(tags.id, ownedIds));
+  });
+}
+
+/**
+ * Move every lead from the source tags onto the target tag, then delete the sources
+ * Returns the number of leads newly given the target tag
+ */
+export async function mergeTagRecords(userId: number, sourceIds: number[], targetId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.transaction(async (tx) => {
+    const [result] = await tx.insert(leadTags).ignore().select(qb =>
+      qb.select({ leadId: leadTags.leadId, tagId: sql<number>`${targetId}`.as("tagId") })
+        .from(leadTags)
+        .where(inArray(leadTags.tagId, sourceIds))
+    );
+    await tx.delete(leadTags).where(inArray(leadTags.tagId, sourceIds));
+    await tx.delete(tags).where(and(eq(tags.userId, userId), inArray(tags.id, sourceIds)));
+    return result.affectedRows;
+  });
+}
+
+/**
+ * Link tags to leads, skipping links that already exist
+ */
+export async function addLeadTags(links: { leadId: number; tagId: number }[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (links.length === 0) return 0;
+
+  let added = 0;
+  const chunkSize = 500;
+  for (let i = 0; i < links.length; i += chunkSize) {
+    const [result] = await db.insert(leadTags).ignore().values(links.slice(i, i + chunkSize));
+    added += result.affectedRows;
+  }
+  return added;
+}
+
+export async function removeLeadTags(leadIds: number[], tagIds: number[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (leadIds.length === 0 || tagIds.length === 0) return 0;
+
+  const [result] = await db.delete(leadTags)
+    .where(and(inArray(leadTags.leadId, leadIds), inArray(leadTags.tagId, tagIds)));
+  return result.affectedRows;
+}
+
+/**
+ * The tags on each of the given leads, by lead ID
+ */
+export async function getTagsForLeads(leadIds: number[]) {
+  const tagsByLead = new Map<number, { id: number; name: string; color: string }[]>();
+  const db = await getDb();
+  if (!db || leadIds.length === 0) return tagsByLead;
+
+  const rows = await db.select({ leadId: leadTags.leadId, id: tags.id, name: tags.name, color: tags.color })
+    .from(leadTags)
+    .innerJoin(tags, eq(tags.id, leadTags.tagId))
+    .where(inArray(leadTags.leadId, leadIds))
+    .orderBy(asc(tags.name));
+
+  for (const { leadId, ...tag } of rows) {
+    if (!tagsByLead.has(leadId)) tagsByLead.set(leadId, []);
+    tagsByLead.get(leadId)!.push(tag);
+  }
+  return tagsByLead;
+}
+
+// Custom field definitions
+export async function getCustomFieldDefinitions(userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db.select().from(customFieldDefinitions)
+    .where(eq(customFieldDefinitions.userId, userId))
+    .orderBy(asc(customFieldDefinitions.position), asc(customFieldDefinitions.id));
+}
+
+export async function createCustomFieldDefinition(definition: InsertCustomFieldDefinition) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.insert(customFieldDefinitions).values(definition);
+}
+
+export async function updateCustomFieldDefinition(id: number, userId: number, updates: Partial<InsertCustomFieldDefinition>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.update(customFieldDefinitions)
+    .set(updates)
+    .where(and(eq(customFieldDefinitions.id, id), eq(customFieldDefinitions.userId, userId)));
+}
+
+export async function deleteCustomFieldDefinition(id: number, userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.delete(customFieldDefinitions)
+    .where(and(eq(customFieldDefinitions.id, id), eq(customFieldDefinitions.userId, userId)));
+}
+
+export async function updateLeadScore(id: number, score: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.update(leads)
+    .set({ score, updatedAt: new Date() })
+    .where(eq(leads.id, id));
 }
 
-export async function getUserLeads(userId: number) {
+// Search history queries
+export async function createSearchHistory(search: InsertSearchHistory) {
   const db = await getDb();
-  if (!db) return [];
+  if (!db) throw new Error("Database not available");
   
-  return await db.select().from(leads).where(eq(leads.userId, userId)).orderBy(leads.createdAt);
+  const [result] = await db.insert(searchHistory).values(search);
+  return Number(result.insertId);
 }
 
-export async function getLeadById(id: number, userId: number) {
+/**
+ * Count another page of results pulled for a search
+ */
+export async function recordSearchHistoryPage(id: number, userId: number, resultsCount: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(searchHistory)
+    .set({
+      pagesLoaded: sql`${searchHistory.pagesLoaded} + 1`,
+      resultsCount: sql`COALESCE(${searchHistory.resultsCount}, 0) + ${resultsCount}`,
+    })
+    .where(and(eq(searchHistory.id, id), eq(searchHistory.userId, userId)));
+}
+
+/**
+ * Get one search history entry, if the user owns it
+ */
+export async function getSearchHistoryById(id: number, userId: number) {
   const db = await getDb();
   if (!db) return undefined;
-  
-  const result = await db.select().from(leads)
-    .where(eq(leads.id, id))
+
+  const result = await db.select().from(searchHistory)
+    .where(and(eq(searchHistory.id, id), eq(searchHistory.userId, userId)))
     .limit(1);
-  
-  // Verify ownership
-  if (result.length > 0 && result[0].userId === userId) {
-    return result[0];
+  return result[0];
+}
+
+// Search monitor queries
+export async function createSearchMonitor(monitor: InsertSearchMonitor) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [result] = await db.insert(searchMonitors).values(monitor);
+  return Number(result.insertId);
+}
+
+export async function getSearchMonitorById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(searchMonitors).where(eq(searchMonitors.id, id)).limit(1);
+  return result[0];
+}
+
+export async function getSearchMonitorBySearchId(searchId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(searchMonitors).where(eq(searchMonitors.searchId, searchId)).limit(1);
+  return result[0];
+}
+
+export async function getUserSearchMonitors(userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db.select().from(searchMonitors)
+    .where(eq(searchMonitors.userId, userId))
+    .orderBy(desc(searchMonitors.createdAt));
+}
+
+export async function getActiveSearchMonitors() {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db.select().from(searchMonitors).where(eq(searchMonitors.isActive, 1));
+}
+
+export async function updateSearchMonitor(id: number, updates: Partial<InsertSearchMonitor>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(searchMonitors).set(updates).where(eq(searchMonitors.id, id));
+}
+
+/**
+ * Delete a monitor along with the matches it found
+ */
+export async function deleteSearchMonitor(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.transaction(async (tx) => {
+    await tx.delete(searchMonitorMatches).where(eq(searchMonitorMatches.monitorId, id));
+    await tx.delete(searchMonitors).where(eq(searchMonitors.id, id));
+  });
+}
+
+/**
+ * Companies a monitor has already found, in any status
+ */
+export async function getSearchMonitorMatchCompanies(monitorId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db.select({ companyKey: searchMonitorMatches.companyKey, companyName: searchMonitorMatches.companyName })
+    .from(searchMonitorMatches)
+    .where(eq(searchMonitorMatches.monitorId, monitorId));
+}
+
+/**
+ * Record a monitor's matches and return the stored rows
+ * A company the monitor already has (say, from an overlapping run) keeps its existing row
+ */
+export async function createSearchMonitorMatches(monitorId: number, matches: InsertSearchMonitorMatch[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (matches.length === 0) return [];
+
+  await db.insert(searchMonitorMatches).values(matches)
+    .onDuplicateKeyUpdate({ set: { companyKey: sql`${searchMonitorMatches.companyKey}` } });
+  return await db.select().from(searchMonitorMatches)
+    .where(and(
+      eq(searchMonitorMatches.monitorId, monitorId),
+      inArray(searchMonitorMatches.companyKey, matches.map(match => match.companyKey))
+    ));
+}
+
+export async function getUserSearchMonitorMatches(
+  userId: number,
+  filters: { status?: InsertSearchMonitorMatch["status"]; monitorId?: number; ids?: number[] } = {}
+) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const conditions: SQL[] = [eq(searchMonitorMatches.userId, userId)];
+  if (filters.status) conditions.push(eq(searchMonitorMatches.status, filters.status));
+  if (filters.monitorId !== undefined) conditions.push(eq(searchMonitorMatches.monitorId, filters.monitorId));
+  if (filters.ids) {
+    if (filters.ids.length === 0) return [];
+    conditions.push(inArray(searchMonitorMatches.id, filters.ids));
   }
-  return undefined;
+  return await db.select().from(searchMonitorMatches)
+    .where(and(...conditions))
+    .orderBy(desc(searchMonitorMatches.foundAt), desc(searchMonitorMatches.id));
 }
 
-export async function updateLead(id: number, userId: number, updates: Partial<InsertLead>) {
+export async function updateSearchMonitorMatch(
+  id: number,
+  userId: number,
+  updates: Pick<Partial<InsertSearchMonitorMatch>, "status" | "leadId">
+) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
-  
-  // Verify ownership before updating
-  const lead = await getLeadById(id, userId);
-  if (!lead) throw new Error("Lead not found or access denied");
-  
-  return await db.update(leads)
+
+  await db.update(searchMonitorMatches)
     .set(updates)
-    .where(eq(leads.id, id));
+    .where(and(eq(searchMonitorMatches.id, id), eq(searchMonitorMatches.userId, userId)));
 }
 
-export async function deleteLead(id: number, userId: number) {
+export async function updateSearchMonitorMatchStatus(
+  ids: number[],
+  userId: number,
+  status: InsertSearchMonitorMatch["status"]
+) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
-  
-  // Verify ownership before deleting
-  const lead = await getLeadById(id, userId);
-  if (!lead) throw new Error("Lead not found or access denied");
-  
-  return await db.delete(leads).where(eq(leads.id, id));
+  if (ids.length === 0) return;
+
+  await db.update(searchMonitorMatches)
+    .set({ status })
+    .where(and(eq(searchMonitorMatches.userId, userId), inArray(searchMonitorMatches.id, ids)));
 }
 
-export async function updateLeadScore(id: number, score: number) {
+// Apollo credit grant queries
+export async function createApolloCreditGrant(grant: InsertApolloCreditGrant) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
-  
-  return await db.update(leads)
-    .set({ score, updatedAt: new Date() })
-    .where(eq(leads.id, id));
+
+  const [result] = await db.insert(apolloCreditGrants).values(grant);
+  return Number(result.insertId);
 }
 
-// Search history queries
-export async function createSearchHistory(search: InsertSearchHistory) {
+/**
+ * Total credits granted to a user since a date (the start of the month, for their budget)
+ */
+export async function getApolloCreditGrantTotal(userId: number, since: Date) {
+  const db = await getDb();
+  if (!db) return 0;
+
+  const [row] = await db.select({ total: sql<number>`COALESCE(SUM(${apolloCreditGrants.credits}), 0)` })
+    .from(apolloCreditGrants)
+    .where(and(eq(apolloCreditGrants.userId, userId), gte(apolloCreditGrants.createdAt, since)));
+  return Number(row?.total) || 0;
+}
+
+export async function updateUserApolloCreditLimit(userId: number, apolloCreditLimit: number | null) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
-  
-  const result = await db.insert(searchHistory).values(search);
-  return result;
+
+  await db.update(users).set({ apolloCreditLimit }).where(eq(users.id, userId));
+}
+
+// Discovery cache queries
+export async function getDiscoveryCacheEntry(cacheKey: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [entry] = await db.select().from(discoveryCache)
+    .where(and(eq(discoveryCache.cacheKey, cacheKey), gt(discoveryCache.expiresAt, new Date())))
+    .limit(1);
+  return entry;
+}
+
+/**
+ * Store a source's results, replacing whatever was cached under the same key
+ */
+export async function saveDiscoveryCacheEntry(entry: InsertDiscoveryCacheEntry) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.insert(discoveryCache).values(entry).onDuplicateKeyUpdate({
+    set: {
+      results: entry.results,
+      creditsUsed: entry.creditsUsed,
+      createdAt: new Date(),
+      expiresAt: entry.expiresAt,
+    },
+  });
+}
+
+export async function recordDiscoveryCacheLookup(lookup: InsertDiscoveryCacheLookup) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.insert(discoveryCacheLookups).values(lookup);
+}
+
+/**
+ * Cache lookups, hits and credits saved for one user's searches of a source since a date
+ */
+export async function getDiscoveryCacheStats(userId: number, source: string, since: Date) {
+  const db = await getDb();
+  if (!db) return { lookups: 0, hits: 0, creditsSaved: 0 };
+
+  const [stats] = await db.select({
+    lookups: sql<number>`COUNT(*)`,
+    hits: sql<number>`COALESCE(SUM(${discoveryCacheLookups.hit}), 0)`,
+    creditsSaved: sql<number>`COALESCE(SUM(${discoveryCacheLookups.creditsSaved}), 0)`,
+  }).from(discoveryCacheLookups)
+    .where(and(
+      eq(discoveryCacheLookups.userId, userId),
+      eq(discoveryCacheLookups.source, source),
+      gte(discoveryCacheLookups.createdAt, since)
+    ));
+  return {
+    lookups: Number(stats?.lookups) || 0,
+    hits: Number(stats?.hits) || 0,
+    creditsSaved: Number(stats?.creditsSaved) || 0,
+  };
 }
 
 export async function getUserSearchHistory(userId: number, limit: number = 50) {
@@ -272,6 +1689,187 @@ export async function getLeadEnrichmentData(leadId: number) {
     .orderBy(enrichmentData.createdAt);
 }
 
+/**
+ * One type of enrichment data (e.g. "technology") for several leads at once
+ */
+export async function getEnrichmentDataForLeads(leadIds: number[], dataType: string) {
+  const db = await getDb();
+  if (!db || leadIds.length === 0) return [];
+
+  return await db.select().from(enrichmentData)
+    .where(and(inArray(enrichmentData.leadId, leadIds), eq(enrichmentData.dataType, dataType)))
+    .orderBy(enrichmentData.createdAt);
+}
+
+/**
+ * Technologies enrichment found on a lead's website, by any source confident enough to act on
+ */
+export async function getLeadTechnologies(leadId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db.selectDistinct({ name: enrichmentData.dataKey }).from(enrichmentData)
+    .where(and(
+      eq(enrichmentData.leadId, leadId),
+      eq(enrichmentData.dataType, "technology"),
+      gte(enrichmentData.confidence, TECHNOLOGY_MIN_CONFIDENCE)
+    ));
+  return rows.map(row => row.name);
+}
+
+/**
+ * Swap the facts one source has stored about a lead for the ones it just found
+ */
+export async function replaceEnrichmentData(leadId: number, source: string, facts: Omit<InsertEnrichmentData, "leadId" | "source">[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.transaction(async (tx) => {
+    await tx.delete(enrichmentData).where(and(eq(enrichmentData.leadId, leadId), eq(enrichmentData.source, source)));
+    if (facts.length > 0) {
+      await tx.insert(enrichmentData).values(facts.map(fact => ({ ...fact, leadId, source })));
+    }
+  });
+}
+
+// Email deliverability queries
+
+/**
+ * The latest checks one mail resolver made of these addresses (lowercased)
+ */
+export async function getEmailDeliverabilityChecks(emails: string[], resolver: string) {
+  const db = await getDb();
+  if (!db || emails.length === 0) return [];
+
+  return await db.select().from(emailDeliverabilityChecks)
+    .where(and(inArray(emailDeliverabilityChecks.email, emails), eq(emailDeliverabilityChecks.resolver, resolver)));
+}
+
+/**
+ * Record checks, replacing earlier ones of the same addresses by the same resolver
+ */
+export async function saveEmailDeliverabilityChecks(checks: InsertEmailDeliverabilityCheck[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (checks.length === 0) return;
+
+  await db.insert(emailDeliverabilityChecks).values(checks).onDuplicateKeyUpdate({
+    set: {
+      status: sql`VALUES(${sql.identifier("status")})`,
+      reason: sql`VALUES(${sql.identifier("reason")})`,
+      mxHost: sql`VALUES(${sql.identifier("mxHost")})`,
+      checkedAt: sql`VALUES(${sql.identifier("checkedAt")})`,
+    },
+  });
+}
+
+// Lead location queries
+
+// Coordinates are current only while they were geocoded from the lead's present location
+const hasCurrentGeocode = sql`${leads.geocodedLocation} <=> ${leads.location}`;
+
+const leadLocationColumns = {
+  id: leads.id,
+  companyName: leads.companyName,
+  status: leads.status,
+  score: leads.score,
+  location: leads.location,
+  latitude: leads.latitude,
+  longitude: leads.longitude,
+  geocodedLocation: leads.geocodedLocation,
+};
+
+/**
+ * Every lead of a user that has a location, with where it was geocoded to
+ */
+export async function getLeadLocations(userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db.select(leadLocationColumns).from(leads)
+    .where(and(eq(leads.userId, userId), sql`TRIM(${leads.location}) <> ''`))
+    .orderBy(leads.id);
+}
+
+/**
+ * What these locations were geocoded to on any of the user's leads, so a location is only looked up once
+ */
+export async function getGeocodedLocations(userId: number, locations: string[]) {
+  const db = await getDb();
+  if (!db || locations.length === 0) return [];
+
+  return await db.selectDistinct({
+    location: leads.geocodedLocation,
+    latitude: leads.latitude,
+    longitude: leads.longitude,
+  }).from(leads)
+    .where(and(eq(leads.userId, userId), inArray(leads.geocodedLocation, locations)));
+}
+
+/**
+ * Record where a location is on every lead of the user at it; null coordinates mean it wasn't found
+ */
+export async function saveLeadLocation(userId: number, location: string, coordinates: { lat: number; lng: number } | null) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(leads)
+    .set({
+      latitude: coordinates?.lat ?? null,
+      longitude: coordinates?.lng ?? null,
+      geocodedLocation: location,
+      geocodedAt: new Date(),
+      updatedAt: sql`${leads.updatedAt}`, // Placing a lead on the map isn't an edit to it
+    })
+    .where(and(eq(leads.userId, userId), eq(leads.location, location)));
+}
+
+/**
+ * The user's located leads inside a latitude and longitude range
+ */
+export async function getLeadsInBox(userId: number, box: { minLat: number; maxLat: number; minLng: number; maxLng: number }) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const conditions = [
+    eq(leads.userId, userId),
+    hasCurrentGeocode,
+    gte(leads.latitude, box.minLat),
+    lte(leads.latitude, box.maxLat),
+  ];
+  // A range across the antimeridian can't be a single BETWEEN, so leave longitude to the distance check
+  if (box.minLng >= -180 && box.maxLng <= 180) {
+    conditions.push(gte(leads.longitude, box.minLng), lte(leads.longitude, box.maxLng));
+  }
+  return await db.select(leadLocationColumns).from(leads).where(and(...conditions));
+}
+
+// Scoring model queries
+
+export async function getScoringModelRow(userId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [row] = await db.select().from(scoringModels).where(eq(scoringModels.userId, userId)).limit(1);
+  return row;
+}
+
+/**
+ * Create or replace a user's scoring model
+ */
+export async function saveScoringModelRow(row: InsertScoringModelRow) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.insert(scoringModels).values(row).onDuplicateKeyUpdate({
+    set: {
+      highPriorityMin: row.highPriorityMin,
+      mediumPriorityMin: row.mediumPriorityMin,
+      settings: row.settings,
+    },
+  });
+}
+
 // Conversation management queries
 export async function createConversation(conversation: InsertConversation) {
   const db = await getDb();
@@ -450,6 +2048,27 @@ export async function getSequenceEnrollments(sequenceId: number) {
     .where(eq(sequenceEnrollments.sequenceId, sequenceId));
 }
 
+/**
+ * Of the given leads, the ones already enrolled in a sequence
+ */
+export async function getSequenceEnrolledLeadIds(sequenceId: number, leadIds: number[]) {
+  const db = await getDb();
+  if (!db || leadIds.length === 0) return [];
+
+  const rows = await db.select({ leadId: sequenceEnrollments.leadId }).from(sequenceEnrollments)
+    .where(and(eq(sequenceEnrollments.sequenceId, sequenceId), inArray(sequenceEnrollments.leadId, leadIds)));
+  return rows.map(row => row.leadId);
+}
+
+export async function deleteSequenceEnrollments(ids: number[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (ids.length === 0) return 0;
+
+  const [result] = await db.delete(sequenceEnrollments).where(inArray(sequenceEnrollments.id, ids));
+  return result.affectedRows;
+}
+
 export async function getLeadEnrollments(leadId: number) {
   const db = await getDb();
   if (!db) return [];
@@ -63,6 +63,20 @@ describe("Engagement Timeline", () => {
       });
     });
 
+    it("should include status_changed events with correct structure", async () => {
+      const timeline = await getLeadEngagementTimeline(30001);
+      const statusEvents = timeline.filter((e) => e.type === "status_changed");
+      
+      statusEvents.forEach((event) => {
+        expect(event.id).toMatch(/^status-/);
+        expect(event.description).toContain("Status changed:");
+        expect(event.metadata).toHaveProperty("previousStatus");
+        expect(event.metadata).toHaveProperty("newStatus");
+        expect(event.metadata).toHaveProperty("changeReason");
+        expect(event.metadata).toHaveProperty("triggeredBy");
+      });
+    });
+
     it("should return empty array for non-existent lead", async () => {
       const timeline = await getLeadEngagementTimeline(999999);
       expect(Array.isArray(timeline)).toBe(true);
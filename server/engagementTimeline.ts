@@ -1,5 +1,5 @@
 import { getDb } from "./db";
-import { sentEmails, emailOpens, emailClicks, leads } from "../drizzle/schema";
+import { sentEmails, emailOpens, emailClicks, leadContacts, leadStatusHistory } from "../drizzle/schema";
 import { eq, desc } from "drizzle-orm";
 
 export type TimelineEvent = {
@@ -20,8 +20,16 @@ export async function getLeadEngagementTimeline(leadId: number): Promise<Timelin
 
   // Fetch sent emails
   const emails = await db
-    .select()
+    .select({
+      id: sentEmails.id,
+      sentAt: sentEmails.sentAt,
+      subject: sentEmails.subject,
+      templateId: sentEmails.templateId,
+      contactId: sentEmails.contactId,
+      contactName: leadContacts.name,
+    })
     .from(sentEmails)
+    .leftJoin(leadContacts, eq(sentEmails.contactId, leadContacts.id))
     .where(eq(sentEmails.leadId, leadId))
     .orderBy(desc(sentEmails.sentAt));
 
@@ -30,11 +38,12 @@ export async function getLeadEngagementTimeline(leadId: number): Promise<Timelin
       id: `email-${email.id}`,
       type: "email_sent",
       timestamp: email.sentAt,
-      description: `Email sent: ${email.subject}`,
+      description: `Email sent: ${email.subject}${email.contactName ? ` (to ${email.contactName})` : ""}`,
       metadata: {
         emailId: email.id,
         subject: email.subject,
         templateId: email.templateId,
+        contactId: email.contactId,
       },
     });
   }
@@ -46,9 +55,12 @@ export async function getLeadEngagementTimeline(leadId: number): Promise<Timelin
       openedAt: emailOpens.openedAt,
       sentEmailId: emailOpens.sentEmailId,
       subject: sentEmails.subject,
+      contactId: emailOpens.contactId,
+      contactName: leadContacts.name,
     })
     .from(emailOpens)
     .leftJoin(sentEmails, eq(emailOpens.sentEmailId, sentEmails.id))
+    .leftJoin(leadContacts, eq(emailOpens.contactId, leadContacts.id))
     .where(eq(emailOpens.leadId, leadId))
     .orderBy(desc(emailOpens.openedAt));
 
@@ -57,9 +69,10 @@ export async function getLeadEngagementTimeline(leadId: number): Promise<Timelin
       id: `open-${open.id}`,
       type: "email_opened",
       timestamp: open.openedAt,
-      description: `Email opened: ${open.subject || "Unknown"}`,
+      description: `Email opened: ${open.subject || "Unknown"}${open.contactName ? ` (by ${open.contactName})` : ""}`,
       metadata: {
         emailId: open.sentEmailId,
+        contactId: open.contactId,
       },
     });
   }
@@ -72,9 +85,12 @@ export async function getLeadEngagementTimeline(leadId: number): Promise<Timelin
       originalUrl: emailClicks.originalUrl,
       sentEmailId: emailClicks.sentEmailId,
       subject: sentEmails.subject,
+      contactId: emailClicks.contactId,
+      contactName: leadContacts.name,
     })
     .from(emailClicks)
     .leftJoin(sentEmails, eq(emailClicks.sentEmailId, sentEmails.id))
+    .leftJoin(leadContacts, eq(emailClicks.contactId, leadContacts.id))
     .where(eq(emailClicks.leadId, leadId))
     .orderBy(desc(emailClicks.clickedAt));
 
@@ -83,10 +99,36 @@ export async function getLeadEngagementTimeline(leadId: number): Promise<Timelin
       id: `click-${click.id}`,
       type: "email_clicked",
       timestamp: click.clickedAt,
-      description: `Link clicked in: ${click.subject || "Unknown"}`,
+      description: `Link clicked in: ${click.subject || "Unknown"}${click.contactName ? ` (by ${click.contactName})` : ""}`,
       metadata: {
         url: click.originalUrl,
         emailId: click.sentEmailId,
+        contactId: click.contactId,
+      },
+    });
+  }
+
+  // Fetch status changes
+  const statusChanges = await db
+    .select()
+    .from(leadStatusHistory)
+    .where(eq(leadStatusHistory.leadId, leadId))
+    .orderBy(desc(leadStatusHistory.changedAt));
+
+  for (const change of statusChanges) {
+    events.push({
+      id: `status-${change.id}`,
+      type: "status_changed",
+      timestamp: change.changedAt,
+      description: `Status changed: ${change.previousStatus} → ${change.newStatus}${
+        change.triggeredBy === "user" ? "" : ` (${change.triggeredBy})`
+      }`,
+      metadata: {
+        previousStatus: change.previousStatus,
+        newStatus: change.newStatus,
+        changeReason: change.changeReason,
+        triggeredBy: change.triggeredBy,
+        notes: change.notes,
       },
     });
   }
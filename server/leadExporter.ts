@@ -0,0 +1,80 @@
+/**
+ * Lead export download endpoint
+ * This handles /api/leads/export requests, streaming the file described by a
+ * signed token issued by the leads.export procedure
+ */
+
+import { Request, Response } from "express";
+import { getUserById } from "./db";
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  fetchLeadExportBatches,
+  getLeadExportContentType,
+  getLeadExportFileName,
+  resolveExportColumns,
+  verifyLeadExportToken,
+  writeLeadExport,
+  type LeadExportRow,
+} from "./services/leadExport";
+import { getUserCustomFields } from "./services/customFields";
+import { filterAndSortLeads } from "./services/leadQuery";
+import { getScoringModel } from "./services/scoringModel";
+import { getTestLeadRecords } from "./services/testData";
+import type { LeadListFilters } from "./leadValidation";
+import type { CustomFieldDefinition } from "../shared/customFields";
+import type { ScoringModel } from "../shared/scoring";
+
+export async function handleLeadExport(req: Request, res: Response) {
+  const token = typeof req.query.token === "string" ? req.query.token : "";
+  const grant = verifyLeadExportToken(token);
+  if (!grant) {
+    return res.status(401).send("Export link is invalid or has expired");
+  }
+
+  try {
+    const user = await getUserById(grant.userId);
+    if (!user) {
+      return res.status(404).send("User not found");
+    }
+
+    const { format, filters } = grant.options;
+    const customFields = await getUserCustomFields(user.id);
+    const columns = resolveExportColumns(
+      grant.options.columns ?? [...DEFAULT_EXPORT_COLUMNS, ...customFields.map(field => `custom:${field.fieldKey}` as const)],
+      customFields
+    );
+
+    const { thresholds } = await getScoringModel(user.id);
+
+    // Test mode exports the same sample leads the Leads page shows
+    const batches = user.useRealData !== 1
+      ? testLeadBatches(user.id, filters, customFields, thresholds)
+      : fetchLeadExportBatches(user.id, filters, customFields);
+
+    res.setHeader("Content-Type", getLeadExportContentType(format));
+    res.setHeader("Content-Disposition", `attachment; filename="${getLeadExportFileName(format)}"`);
+    res.setHeader("Cache-Control", "no-store");
+
+    const count = await writeLeadExport(res, format, columns, batches, customFields, thresholds);
+    console.log(`[Lead Export] User ${user.id}: exported ${count} leads as ${format}`);
+  } catch (error) {
+    console.error("[Lead Export] Error:", error);
+    // Headers are already sent once streaming starts, so the only option is to cut the response
+    if (!res.headersSent) {
+      res.removeHeader("Content-Disposition");
+      res.status(500).type("text/plain").send("Export failed");
+    } else {
+      res.destroy(error as Error);
+    }
+  }
+}
+
+async function* testLeadBatches(
+  userId: number,
+  filters: LeadListFilters,
+  customFields: CustomFieldDefinition[],
+  thresholds: ScoringModel["thresholds"]
+): AsyncGenerator<LeadExportRow[]> {
+  const leads = getTestLeadRecords(userId).map(lead => ({ ...lead, emailOpens: 0, emailClicks: 0 }));
+  yield filterAndSortLeads(leads, filters, customFields, thresholds);
+}
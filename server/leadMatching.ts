@@ -0,0 +1,109 @@
+/**
+ * Lead Matching Helpers
+ * Normalizes the identifying fields of a lead (website, email, company name)
+ * so leads from different sources can be compared for duplicates
+ */
+
+// Legal suffixes that don't distinguish one company from another
+const COMPANY_SUFFIXES = [
+  "inc", "incorporated", "llc", "ltd", "limited", "corp", "corporation",
+  "co", "company", "gmbh", "plc", "sa", "ag", "bv", "pty", "lp", "llp",
+];
+
+/**
+ * Reduce a website URL or bare domain to its registrable host
+ * e.g. "https://www.Acme.com/about" -> "acme.com"
+ */
+export function normalizeDomain(website: string | null | undefined): string | null {
+  if (!website) return null;
+
+  let value = website.trim().toLowerCase();
+  if (!value) return null;
+
+  value = value.replace(/^[a-z]+:\/\//, "");
+  value = value.split(/[/?#]/)[0];
+  value = value.split("@").pop() || value;
+  value = value.replace(/:\d+$/, "");
+  value = value.replace(/^www\d*\./, "");
+
+  // Require at least one dot so placeholders like "N/A" don't match each other
+  if (!value.includes(".")) return null;
+
+  return value;
+}
+
+/**
+ * Lowercase and trim an email address, returning null for blanks
+ */
+export function normalizeEmail(email: string | null | undefined): string | null {
+  if (!email) return null;
+
+  const value = email.trim().toLowerCase();
+  if (!value || !value.includes("@")) return null;
+
+  return value;
+}
+
+/**
+ * Normalize a company name for comparison
+ * Strips punctuation and legal suffixes: "Acme, Inc." -> "acme"
+ */
+export function normalizeCompanyName(name: string | null | undefined): string | null {
+  if (!name) return null;
+
+  const words = name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+
+  while (words.length > 1 && COMPANY_SUFFIXES.includes(words[words.length - 1])) {
+    words.pop();
+  }
+
+  const normalized = words.join(" ");
+  return normalized || null;
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/\s+/g, "");
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2));
+  }
+  return result;
+}
+
+/**
+ * Fuzzy similarity (0-1) between two company names
+ * Dice coefficient over character bigrams of the normalized names, so
+ * "Acme Software, Inc." vs "ACME Softwares" scores high but "Acme" vs "Acme Labs" does not
+ */
+export function companyNameSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const left = normalizeCompanyName(a);
+  const right = normalizeCompanyName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  if (leftBigrams.length === 0 || rightBigrams.length === 0) return 0;
+
+  const remaining = new Map<string, number>();
+  leftBigrams.forEach(gram => remaining.set(gram, (remaining.get(gram) || 0) + 1));
+
+  let overlap = 0;
+  for (const gram of rightBigrams) {
+    const count = remaining.get(gram) || 0;
+    if (count > 0) {
+      overlap++;
+      remaining.set(gram, count - 1);
+    }
+  }
+
+  return (2 * overlap) / (leftBigrams.length + rightBigrams.length);
+}
+
+/** Minimum companyNameSimilarity for two names to be treated as the same company */
+export const FUZZY_NAME_THRESHOLD = 0.85;
@@ -3,7 +3,17 @@
  * Automatically evaluates and prioritizes leads based on multiple factors
  */
 
-import { Lead } from "../drizzle/schema";
+import { InsertLead, Lead, LeadContact } from "../drizzle/schema";
+import { companySizeBand, DEFAULT_SCORING_MODEL, priorityForScore, type ScorePriority, type ScoringModel } from "../shared/scoring";
+
+export type ScoringContact = Pick<LeadContact, "name" | "title" | "email" | "phone" | "linkedin" | "doNotContact">;
+
+/** The lead fields a score is calculated from; saved leads and leads about to be inserted both have them */
+export type ScoringLead = Pick<
+  InsertLead,
+  "companyName" | "website" | "industry" | "companySize" | "location" | "description" |
+  "contactName" | "contactTitle" | "contactEmail" | "contactPhone" | "contactLinkedin"
+>;
 
 export interface ScoringFactors {
   companySize: number;
@@ -11,49 +21,67 @@ export interface ScoringFactors {
   contactCompleteness: number;
   engagement: number;
   dataQuality: number;
+  technologyFit?: number; // Only scored when the lead's technologies are known
 }
 
 export interface ScoringResult {
   score: number; // 0-100
-  priority: "high" | "medium" | "low";
+  priority: ScorePriority;
   factors: ScoringFactors;
   explanation: string;
 }
 
 /**
- * Calculate lead score based on multiple weighted factors
+ * Calculate lead score based on multiple weighted factors, using the user's scoring model
+ * With the lead's contacts, contact completeness is that of the best contact who may be
+ * contacted; without them it falls back to the lead's primary contact columns.
+ * Technologies detected on the lead's website take their weight's share once any are known
  */
 export function calculateLeadScore(
-  lead: Lead,
+  lead: ScoringLead,
   emailOpens: number = 0,
-  emailClicks: number = 0
+  emailClicks: number = 0,
+  contacts?: ScoringContact[],
+  technologies: string[] = [],
+  model: ScoringModel = DEFAULT_SCORING_MODEL
 ): ScoringResult {
   const factors: ScoringFactors = {
-    companySize: scoreCompanySize(lead.companySize),
-    industryFit: scoreIndustryFit(lead.industry),
-    contactCompleteness: scoreContactCompleteness(lead),
+    companySize: scoreCompanySize(lead.companySize, model),
+    industryFit: scoreIndustryFit(lead.industry, model),
+    contactCompleteness: contacts
+      ? Math.max(0, ...contacts.filter(contact => !contact.doNotContact).map(scoreContactCompleteness))
+      : scoreContactCompleteness({
+          name: lead.contactName ?? null,
+          title: lead.contactTitle ?? null,
+          email: lead.contactEmail ?? null,
+          phone: lead.contactPhone ?? null,
+          linkedin: lead.contactLinkedin ?? null,
+        }),
     engagement: scoreEngagement(emailOpens, emailClicks),
     dataQuality: scoreDataQuality(lead),
+    technologyFit: technologies.length > 0 ? scoreTechnologyFit(technologies, model) : undefined,
   };
 
-  // Weighted scoring (total = 100)
-  const weights = {
-    companySize: 0.25,      // 25% - Larger companies = higher value
-    industryFit: 0.20,      // 20% - Target industries score higher
-    contactCompleteness: 0.25, // 25% - Complete contact info is crucial
-    engagement: 0.20,       // 20% - Email engagement shows interest
-    dataQuality: 0.10,      // 10% - Overall data completeness
-  };
-
-  const score = Math.round(
+  // The other factors' weights are relative to each other, so they needn't add up to 100
+  const { weights } = model;
+  const baseWeight = weights.companySize + weights.industryFit + weights.contactCompleteness + weights.engagement + weights.dataQuality;
+  const baseScore = baseWeight === 0 ? 0 : (
     factors.companySize * weights.companySize +
     factors.industryFit * weights.industryFit +
     factors.contactCompleteness * weights.contactCompleteness +
     factors.engagement * weights.engagement +
     factors.dataQuality * weights.dataQuality
+  ) / baseWeight;
+
+  // Known technologies take their share of the score, scaling the other factors down to make room
+  const technologyShare = Math.min(100, weights.technologyFit) / 100;
+  const score = Math.round(
+    factors.technologyFit === undefined
+      ? baseScore
+      : baseScore * (1 - technologyShare) + factors.technologyFit * technologyShare
   );
 
-  const priority = score >= 70 ? "high" : score >= 40 ? "medium" : "low";
+  const priority = getScorePriority(score, model.thresholds);
 
   const explanation = generateExplanation(factors, score, priority);
 
@@ -66,85 +94,82 @@ export function calculateLeadScore(
 }
 
 /**
- * Score based on company size (0-100)
+ * Map a 0-100 score onto its priority bucket
+ */
+export function getScorePriority(score: number, thresholds: ScoringModel["thresholds"] = DEFAULT_SCORING_MODEL.thresholds): ScorePriority {
+  return priorityForScore(score, thresholds);
+}
+
+/**
+ * Score based on company size (0-100), as the model scores the size's band
+ * Sizes are read as employee counts now, not matched against a few exact ranges, so sizes that
+ * used to get the neutral score, like Apollo's "500 employees" or "51-200", score their band
+ * even under the default model and move once leads are rescored
  */
-function scoreCompanySize(companySize: string | null): number {
-  if (!companySize) return 30; // Unknown size gets neutral score
-
-  const size = companySize.toLowerCase();
-  
-  // Enterprise and large companies score highest
-  if (size.includes("10000+") || size.includes("enterprise")) return 100;
-  if (size.includes("1000-5000") || size.includes("5000-10000")) return 90;
-  if (size.includes("500-1000")) return 80;
-  if (size.includes("200-500")) return 70;
-  if (size.includes("50-200")) return 60;
-  if (size.includes("10-50")) return 50;
-  if (size.includes("1-10") || size.includes("startup")) return 40;
-
-  return 30; // Default for unknown patterns
+function scoreCompanySize(companySize: string | null | undefined, model: ScoringModel): number {
+  const band = companySizeBand(companySize);
+  if (!band) return 30; // Unknown size gets neutral score
+
+  return model.companySizeScores[band];
 }
 
 /**
  * Score based on industry fit (0-100)
- * Higher scores for target industries
+ * Higher scores for the model's target industries
  */
-function scoreIndustryFit(industry: string | null): number {
+function scoreIndustryFit(industry: string | null | undefined, model: ScoringModel): number {
   if (!industry) return 40; // Unknown industry gets neutral score
 
   const ind = industry.toLowerCase();
 
-  // High-value industries
-  const highValue = [
-    "technology", "software", "saas", "fintech", "healthcare",
-    "finance", "consulting", "enterprise", "b2b"
-  ];
-  
-  // Medium-value industries
-  const mediumValue = [
-    "manufacturing", "retail", "e-commerce", "education",
-    "marketing", "advertising", "real estate"
-  ];
-
-  // Check for high-value industries
-  for (const keyword of highValue) {
-    if (ind.includes(keyword)) return 90;
+  // Check for target industries
+  for (const keyword of model.targetIndustries) {
+    if (ind.includes(keyword.toLowerCase())) return 90;
   }
 
-  // Check for medium-value industries
-  for (const keyword of mediumValue) {
-    if (ind.includes(keyword)) return 70;
+  // Check for secondary industries
+  for (const keyword of model.secondaryIndustries) {
+    if (ind.includes(keyword.toLowerCase())) return 70;
   }
 
   return 50; // Other industries get moderate score
 }
 
+/**
+ * Score based on the technologies the lead's website runs (0-100)
+ * Reps qualify on whether a prospect already runs the tools they integrate with
+ */
+function scoreTechnologyFit(technologies: string[], model: ScoringModel): number {
+  const names = technologies.map(name => name.toLowerCase());
+  return model.targetTechnologies.some(target => names.includes(target.toLowerCase())) ? 100 : 50;
+}
+
 /**
  * Score based on contact information completeness (0-100)
  */
-function scoreContactCompleteness(lead: Lead): number {
+function scoreContactCompleteness(contact: Omit<ScoringContact, "doNotContact">): number {
   let score = 0;
   let maxScore = 0;
 
   // Contact name (20 points)
   maxScore += 20;
-  if (lead.contactName) score += 20;
+  if (contact.name) score += 20;
 
   // Contact email (30 points - most important)
   maxScore += 30;
-  if (lead.contactEmail) score += 30;
+  if (contact.email) score += 30;
 
   // Contact title (15 points)
   maxScore += 15;
-  if (lead.contactTitle) score += 15;
+  if (contact.title) score += 15;
 
   // Contact LinkedIn (20 points)
   maxScore += 20;
-  if (lead.contactLinkedin) score += 20;
+  if (contact.linkedin) score += 20;
 
   // Contact phone (15 points)
   maxScore += 15;
-  if (lead.contactPhone) score += 15;
+  if (contact.phone) score += 15;
 
   return Math.round((score / maxScore) * 100);
 }
@@ -169,7 +194,7 @@ function scoreEngagement(emailOpens: number, emailClicks: number): number {
 /**
  * Score based on overall data quality (0-100)
  */
-function scoreDataQuality(lead: Lead): number {
+function scoreDataQuality(lead: ScoringLead): number {
   let score = 0;
   let fields = 0;
 
@@ -206,9 +231,9 @@ function generateExplanation(
 
   // Analyze each factor
   if (factors.companySize >= 70) {
-    strengths.push("large company size");
+    strengths.push("target company size");
   } else if (factors.companySize < 50) {
-    weaknesses.push("small company size");
+    weaknesses.push("company size outside target");
   }
 
   if (factors.industryFit >= 70) {
@@ -227,6 +252,10 @@ function generateExplanation(
     strengths.push("active engagement");
   }
 
+  if (factors.technologyFit !== undefined && factors.technologyFit >= 70) {
+    strengths.push("uses target technologies");
+  }
+
   if (factors.dataQuality >= 80) {
     strengths.push("high data quality");
   } else if (factors.dataQuality < 60) {
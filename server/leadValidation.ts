@@ -0,0 +1,283 @@
+/**
+ * Lead input validation
+ * Shared zod schemas for every path that writes user-supplied lead data
+ * (manual creation, file import), so all of them enforce the same rules.
+ */
+
+import { z } from "zod";
+import { FIELD_KEY_PATTERN } from "../shared/customFields";
+import { TAG_COLOR_PATTERN, TAG_NAME_MAX_LENGTH } from "../shared/tags";
+import { CONTACT_ROLES } from "../shared/contacts";
+import { DEFAULT_DISCOVERY_PAGE_SIZE, LEAD_SOURCE_IDS, MAX_DISCOVERY_PAGE_SIZE } from "../shared/discovery";
+import { COMPANY_SIZE_BANDS, SCORING_FACTORS, type CompanySizeBand, type ScoringFactor } from "../shared/scoring";
+
+export const leadInputSchema = z.object({
+  companyName: z.string().min(1),
+  website: z.string().optional(),
+  industry: z.string().optional(),
+  companySize: z.string().optional(),
+  location: z.string().optional(),
+  description: z.string().optional(),
+  contactName: z.string().optional(),
+  contactTitle: z.string().optional(),
+  contactEmail: z.string().email().optional(),
+  contactLinkedin: z.string().url().optional(),
+  contactPhone: z.string().optional(),
+  notes: z.string().optional(),
+  tags: z.string().optional(), // Tag names as a comma-separated list or JSON array
+});
+
+export type LeadInput = z.infer<typeof leadInputSchema>;
+
+const parsedFilterValues = z.array(z.string().trim().min(1).max(100)).max(10);
+
+/**
+ * Apollo filters understood from a discovery query, as the user confirmed them
+ */
+export const parsedSearchFiltersSchema = z.object({
+  industries: parsedFilterValues,
+  keywords: parsedFilterValues,
+  employeeRanges: z.array(z.string().regex(/^\d+,\d+$/)).max(10),
+  locations: parsedFilterValues,
+  technologies: parsedFilterValues,
+});
+
+/**
+ * A discovery query to turn into Apollo filters, with the form's own filters for context
+ */
+export const parseDiscoveryQueryInputSchema = z.object({
+  query: z.string().trim().min(1).max(500),
+  industry: z.string().optional(),
+  companySize: z.string().optional(),
+  location: z.string().optional(),
+});
+
+export type ParseDiscoveryQueryInput = z.infer<typeof parseDiscoveryQueryInputSchema>;
+
+/**
+ * A lead discovery search; later pages continue the search history entry of the first.
+ * Without sources, the user's default sources are searched
+ */
+export const discoverLeadsInputSchema = z.object({
+  query: z.string().min(1),
+  industry: z.string().optional(),
+  companySize: z.string().optional(),
+  location: z.string().optional(),
+  perPage: z.number().int().min(1).max(MAX_DISCOVERY_PAGE_SIZE).default(DEFAULT_DISCOVERY_PAGE_SIZE),
+  page: z.number().int().min(1).default(1),
+  searchId: z.number().optional(),
+  sources: z.array(z.enum(LEAD_SOURCE_IDS)).min(1).optional(),
+  // Companies already shown, so generated templates don't repeat them on later pages
+  excludeCompanies: z.array(z.string()).max(500).optional(),
+  // Skip the discovery cache and fetch fresh results (which then replace the cached ones)
+  forceRefresh: z.boolean().default(false),
+  // Confirmed filters from query understanding; Apollo searches by these instead of company name
+  parsedFilters: parsedSearchFiltersSchema.optional(),
+  // Leave out companies that match one of the user's leads
+  hideKnown: z.boolean().default(false),
+});
+
+export type DiscoverLeadsInput = z.infer<typeof discoverLeadsInputSchema>;
+
+/**
+ * A lookalike search: companies like one lead, or like all of the user's won leads when no lead is given
+ */
+export const findSimilarLeadsInputSchema = z.object({
+  leadId: z.number().int().optional(),
+  perPage: z.number().int().min(1).max(MAX_DISCOVERY_PAGE_SIZE).default(25),
+  sources: z.array(z.enum(LEAD_SOURCE_IDS)).min(1).optional(),
+});
+
+export type FindSimilarLeadsInput = z.infer<typeof findSimilarLeadsInputSchema>;
+
+/**
+ * A person at a lead's company
+ */
+export const leadContactInputSchema = z.object({
+  name: z.string().trim().max(255).optional(),
+  title: z.string().trim().max(255).optional(),
+  role: z.enum(CONTACT_ROLES).optional(),
+  email: z.string().trim().email().max(320).optional().or(z.literal("")),
+  phone: z.string().trim().max(50).optional(),
+  linkedin: z.string().trim().url().max(500).optional().or(z.literal("")),
+  doNotContact: z.boolean().optional(),
+  isPrimary: z.boolean().optional(),
+});
+
+export type LeadContactInput = z.infer<typeof leadContactInputSchema>;
+
+/**
+ * Custom field values keyed by field key; each is checked against the user's
+ * field definitions by the customFields service
+ */
+export const customFieldValuesInputSchema = z.record(
+  z.string(),
+  z.union([z.string(), z.number(), z.array(z.string()), z.null()])
+);
+
+/**
+ * Lead fields that can be populated from user input, in display order
+ */
+export const LEAD_INPUT_FIELDS = Object.keys(leadInputSchema.shape) as (keyof LeadInput)[];
+
+/**
+ * Filters and sort order applied by the Leads page
+ */
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+
+export const leadListFiltersSchema = z.object({
+  status: z.string().optional(),
+  scorePriority: z.enum(["high", "medium", "low"]).optional(),
+  scoreMin: z.number().int().min(0).max(100).optional(),
+  scoreMax: z.number().int().min(0).max(100).optional(),
+  industry: z.string().optional(), // Substring match
+  location: z.string().optional(), // Substring match
+  tagIds: z.array(z.number().int()).max(50).optional(),
+  tagMatch: z.enum(["any", "all"]).optional(), // Leads with any (default) or all of tagIds
+  technologies: z.array(z.string().trim().min(1).max(100)).max(20).optional(), // Leads running any of these, see enrichers/techStack
+  // Inclusive calendar days (UTC)
+  createdFrom: isoDateSchema.optional(),
+  createdTo: isoDateSchema.optional(),
+  updatedFrom: isoDateSchema.optional(),
+  updatedTo: isoDateSchema.optional(),
+  engagement: z.enum(["opened", "clicked", "none"]).optional(),
+  customField: z.object({
+    key: z.string().regex(FIELD_KEY_PATTERN),
+    value: z.string().optional(),
+    min: z.string().optional(),
+    max: z.string().optional(),
+  }).optional(),
+  // Restricts to the leads frozen in a static saved view; set by the server when a view is opened
+  snapshotViewId: z.number().int().optional(),
+  // Restricts to the leads a bulk operation processed; set by the server for bulk exports
+  bulkOperationId: z.number().int().optional(),
+  // Built-in sorts, or "custom:<key>" / "custom:<key>:desc"
+  sortBy: z.union([
+    z.enum(["recent", "score-high", "score-low", "name"]),
+    z.string().regex(/^custom:[a-z][a-z0-9_]*(:desc)?$/),
+  ]).default("recent"),
+});
+
+export type LeadListFilters = z.infer<typeof leadListFiltersSchema>;
+
+/**
+ * One page of the Leads page query; cursor is the opaque nextCursor of the previous page
+ */
+export const leadQueryInputSchema = z.object({
+  filters: leadListFiltersSchema.default({ sortBy: "recent" }),
+  viewId: z.number().int().optional(), // Saved view to apply, see services/savedViews
+  cursor: z.string().nullish(),
+  limit: z.number().int().min(1).max(200).default(50),
+});
+
+/**
+ * Columns available to lead exports, in default order
+ * scorePriority, emailOpens and emailClicks are computed at export time
+ */
+export const LEAD_EXPORT_COLUMNS = [
+  ...LEAD_INPUT_FIELDS.filter(field => field !== "notes" && field !== "tags"),
+  "status",
+  "score",
+  "scorePriority",
+  "emailOpens",
+  "emailClicks",
+  "notes",
+  "tags",
+  "createdAt",
+  "updatedAt",
+] as const;
+
+/**
+ * Lead columns by key; custom fields are "custom:<key>"
+ */
+export const leadColumnsSchema = z.array(z.union([
+  z.enum(LEAD_EXPORT_COLUMNS),
+  z.custom<`custom:${string}`>(value => typeof value === "string" && /^custom:[a-z][a-z0-9_]*$/.test(value)),
+])).min(1);
+
+export const leadExportOptionsSchema = z.object({
+  format: z.enum(["csv", "xlsx", "json"]),
+  columns: leadColumnsSchema.optional(),
+  filters: leadListFiltersSchema.default({ sortBy: "recent" }),
+});
+
+export type LeadExportOptions = z.infer<typeof leadExportOptionsSchema>;
+
+/**
+ * A saved lead view: filters and sort, plus table columns (null shows lead cards)
+ */
+export const savedViewInputSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  viewType: z.enum(["dynamic", "static"]).default("dynamic"),
+  filters: leadListFiltersSchema,
+  columns: leadColumnsSchema.nullish(),
+  pinned: z.boolean().default(false),
+});
+
+export type SavedViewInput = z.infer<typeof savedViewInputSchema>;
+
+/**
+ * A lead tag's name and color (a palette color is picked when omitted)
+ */
+export const tagInputSchema = z.object({
+  name: z.string().trim().min(1).max(TAG_NAME_MAX_LENGTH),
+  color: z.string().regex(TAG_COLOR_PATTERN).optional(),
+});
+
+/**
+ * Tags to add to or remove from a set of leads
+ */
+export const bulkLeadTagsSchema = z.object({
+  leadIds: z.array(z.number().int()).min(1),
+  tagIds: z.array(z.number().int()).min(1),
+});
+
+/** Most leads one bulk operation may act on */
+export const MAX_BULK_OPERATION_LEADS = 10000;
+
+/**
+ * Leads a bulk operation acts on: picked by ID, or every lead matching the Leads page filters
+ */
+export const bulkLeadTargetSchema = z.union([
+  z.object({ leadIds: z.array(z.number().int()).min(1).max(MAX_BULK_OPERATION_LEADS) }),
+  z.object({ filters: leadListFiltersSchema }),
+]);
+
+export type BulkLeadTarget = z.infer<typeof bulkLeadTargetSchema>;
+
+/**
+ * What a bulk operation does to each lead
+ */
+export const bulkLeadActionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("status"), status: z.enum(["new", "contacted", "qualified", "unqualified", "converted"]) }),
+  z.object({ type: z.literal("delete") }),
+  z.object({ type: z.literal("tag"), mode: z.enum(["add", "remove"]), tagIds: z.array(z.number().int()).min(1).max(50) }),
+  z.object({ type: z.literal("enroll"), sequenceId: z.number().int() }),
+  z.object({ type: z.literal("assignOwner"), email: z.string().email() }),
+  z.object({ type: z.literal("recalculateScore") }),
+  z.object({ type: z.literal("export"), format: z.enum(["csv", "xlsx", "json"]), columns: leadColumnsSchema.optional() }),
+]);
+
+export type BulkLeadAction = z.infer<typeof bulkLeadActionSchema>;
+
+const scoreSchema = z.number().int().min(0).max(100);
+
+// Keywords match case-insensitively anywhere in the value, so repeats add nothing
+const keywordListSchema = z.array(z.string().trim().min(1).max(100)).max(100)
+  .transform(keywords => Array.from(new Set(keywords)));
+
+/**
+ * A user's lead scoring model, as edited on the scoring settings page
+ */
+export const scoringModelSchema = z.object({
+  weights: z.object(Object.fromEntries(SCORING_FACTORS.map(factor => [factor, scoreSchema])) as Record<ScoringFactor, typeof scoreSchema>)
+    .refine(weights => SCORING_FACTORS.some(factor => factor !== "technologyFit" && weights[factor] > 0), {
+      message: "At least one factor other than technology fit needs a weight",
+    }),
+  targetIndustries: keywordListSchema,
+  secondaryIndustries: keywordListSchema,
+  targetTechnologies: keywordListSchema,
+  companySizeScores: z.object(Object.fromEntries(COMPANY_SIZE_BANDS.map(band => [band.id, scoreSchema])) as Record<CompanySizeBand, typeof scoreSchema>),
+  thresholds: z.object({ high: z.number().int().min(1).max(100), medium: z.number().int().min(0).max(99) })
+    .refine(thresholds => thresholds.medium < thresholds.high, { message: "Medium priority has to start below high priority" }),
+});
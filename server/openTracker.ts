@@ -1,5 +1,5 @@
 import { Request, Response } from "express";
-import { createEmailOpen, getLeadById, getLeadEmailClicks, getLeadEmailOpens, updateLeadScore } from "./db";
+import { createEmailOpen, getLeadById, getSentEmailContactId, getLeadEmailClicks, getLeadEmailOpens, updateLeadScore } from "./db";
 import { calculateLeadScore } from "./leadScoring";
 
 /**
@@ -24,10 +24,11 @@ export async function handleOpenTracking(req: Request, res: Response) {
       return res.status(400).send("Missing sentEmailId");
     }
 
-    // Log the email open event
+    // Log the email open event, attributed to the contact the email went to
     await createEmailOpen({
       sentEmailId: parseInt(sentEmailId as string),
       leadId: leadId ? parseInt(leadId as string) : null,
+      contactId: await getSentEmailContactId(parseInt(sentEmailId as string)),
       ipAddress: req.ip || req.headers["x-forwarded-for"] as string || null,
       userAgent: req.headers["user-agent"] || null,
     });
@@ -3,6 +3,29 @@ import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
 import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
 import { billingRouter } from "./routers/billing";
+import {
+  bulkLeadActionSchema,
+  bulkLeadTagsSchema,
+  bulkLeadTargetSchema,
+  customFieldValuesInputSchema,
+  discoverLeadsInputSchema,
+  findSimilarLeadsInputSchema,
+  leadContactInputSchema,
+  leadExportOptionsSchema,
+  leadInputSchema,
+  leadQueryInputSchema,
+  parseDiscoveryQueryInputSchema,
+  savedViewInputSchema,
+  scoringModelSchema,
+  tagInputSchema,
+} from "./leadValidation";
+import { CUSTOM_FIELD_TYPES } from "@shared/customFields";
+import { ENRICHER_IDS } from "@shared/enrichment";
+import { DEFAULT_NEARBY_RADIUS_KM } from "@shared/geo";
+import { DEFAULT_SCORING_MODEL } from "@shared/scoring";
+import type { LeadTag } from "@shared/tags";
+import type { Lead } from "../drizzle/schema";
+import type { DiscoveredLead } from "./services/leadDiscovery";
 
 import { z } from "zod";
 
@@ -358,6 +381,314 @@ export const appRouter = router({
     }),
   }),
 
+  // User-defined lead fields
+  customFields: router({
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const { getUserCustomFields } = await import("./services/customFields");
+      return await getUserCustomFields(ctx.user.id);
+    }),
+
+    create: protectedProcedure
+      .input(z.object({
+        label: z.string().min(1).max(255),
+        fieldType: z.enum(CUSTOM_FIELD_TYPES),
+        options: z.array(z.string().max(255)).max(100).optional(),
+        currency: z.string().length(3).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { createCustomField } = await import("./services/customFields");
+        return await createCustomField(ctx.user.id, input);
+      }),
+
+    update: protectedProcedure
+      .input(z.object({
+        id: z.number(),
+        label: z.string().min(1).max(255).optional(),
+        options: z.array(z.string().max(255)).max(100).optional(),
+        currency: z.string().length(3).optional(),
+        position: z.number().int().min(0).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { updateCustomField } = await import("./services/customFields");
+        const { id, ...updates } = input;
+        await updateCustomField(ctx.user.id, id, updates);
+        return { success: true };
+      }),
+
+    // Values already stored on leads are kept but no longer shown
+    delete: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const { deleteCustomFieldDefinition } = await import("./db");
+        await deleteCustomFieldDefinition(input.id, ctx.user.id);
+        return { success: true };
+      }),
+  }),
+
+  // The user's lead scoring model
+  scoring: router({
+    get: protectedProcedure.query(async ({ ctx }) => {
+      const { getScoringModel } = await import("./services/scoringModel");
+      return { model: await getScoringModel(ctx.user.id), defaults: DEFAULT_SCORING_MODEL };
+    }),
+
+    // How leads' scores and priorities would shift under a model that hasn't been saved
+    preview: protectedProcedure
+      .input(scoringModelSchema)
+      .query(async ({ ctx, input }) => {
+        if (ctx.user.useRealData !== 1) {
+          const { getTestLeadRecords } = await import("./services/testData");
+          const { previewSampleScoringModel } = await import("./services/scoringModel");
+          return await previewSampleScoringModel(ctx.user.id, getTestLeadRecords(ctx.user.id), input);
+        }
+
+        const { previewScoringModel } = await import("./services/scoringModel");
+        return await previewScoringModel(ctx.user.id, input);
+      }),
+
+    // Saved leads are rescored as a bulk operation; sample leads keep their scores
+    save: protectedProcedure
+      .input(scoringModelSchema)
+      .mutation(async ({ ctx, input }) => {
+        const { applyScoringModel } = await import("./services/scoringModel");
+        return await applyScoringModel(ctx.user.id, input, ctx.user.useRealData === 1);
+      }),
+  }),
+
+  // Saved lead views (smart lists)
+  savedViews: router({
+    // Own and shared views with live lead counts
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const { listSavedViews, databaseLeadSource, sampleLeadSource } = await import("./services/savedViews");
+      return await listSavedViews(ctx.user.id, ctx.user.useRealData === 1 ? databaseLeadSource : sampleLeadSource);
+    }),
+
+    // A view with its owner's custom fields, so shared columns can be labelled
+    get: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const { getSavedViewForUser } = await import("./services/savedViews");
+        const { getUserCustomFields } = await import("./services/customFields");
+        const view = await getSavedViewForUser(input.id, ctx.user.id);
+        return { ...view, customFields: await getUserCustomFields(view.ownerId) };
+      }),
+
+    create: protectedProcedure
+      .input(savedViewInputSchema)
+      .mutation(async ({ ctx, input }) => {
+        const { createView, databaseLeadSource, sampleLeadSource } = await import("./services/savedViews");
+        return await createView(ctx.user.id, input, ctx.user.useRealData === 1 ? databaseLeadSource : sampleLeadSource);
+      }),
+
+    update: protectedProcedure
+      .input(savedViewInputSchema.pick({ name: true, filters: true, columns: true }).partial().extend({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const { updateView } = await import("./services/savedViews");
+        const { id, ...updates } = input;
+        await updateView(ctx.user.id, id, updates);
+        return { success: true };
+      }),
+
+    delete: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const { deleteSavedView } = await import("./db");
+        await deleteSavedView(input.id, ctx.user.id);
+        return { success: true };
+      }),
+
+    // Re-freeze a static view from its filters
+    refreshSnapshot: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const { refreshSnapshot, databaseLeadSource, sampleLeadSource } = await import("./services/savedViews");
+        return await refreshSnapshot(ctx.user.id, input.id, ctx.user.useRealData === 1 ? databaseLeadSource : sampleLeadSource);
+      }),
+
+    setPinned: protectedProcedure
+      .input(z.object({ id: z.number(), pinned: z.boolean() }))
+      .mutation(async ({ ctx, input }) => {
+        const { setViewPinned } = await import("./services/savedViews");
+        await setViewPinned(ctx.user.id, input.id, input.pinned);
+        return { success: true };
+      }),
+
+    shares: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const { getOwnedView } = await import("./services/savedViews");
+        const { getSavedViewShares } = await import("./db");
+        await getOwnedView(input.id, ctx.user.id);
+        return await getSavedViewShares(input.id);
+      }),
+
+    share: protectedProcedure
+      .input(z.object({ id: z.number(), email: z.string().email() }))
+      .mutation(async ({ ctx, input }) => {
+        const { shareView } = await import("./services/savedViews");
+        return await shareView(ctx.user.id, input.id, input.email);
+      }),
+
+    // Owners unshare a teammate; teammates remove a view shared with them
+    unshare: protectedProcedure
+      .input(z.object({ id: z.number(), userId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const { removeViewShare } = await import("./services/savedViews");
+        await removeViewShare(ctx.user.id, input.id, input.userId);
+        return { success: true };
+      }),
+  }),
+
+  // Colored lead tags, shared by every lead of the user
+  tags: router({
+    // Tags with how many leads carry each, for pickers and the tag filter
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const { getUserTags } = await import("./db");
+      return await getUserTags(ctx.user.id);
+    }),
+
+    create: protectedProcedure
+      .input(tagInputSchema)
+      .mutation(async ({ ctx, input }) => {
+        const { createTag } = await import("./services/tags");
+        return await createTag(ctx.user.id, input);
+      }),
+
+    // Rename or recolor; every lead with the tag shows the change
+    update: protectedProcedure
+      .input(tagInputSchema.partial().extend({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const { updateTag } = await import("./services/tags");
+        const { id, ...updates } = input;
+        await updateTag(ctx.user.id, id, updates);
+        return { success: true };
+      }),
+
+    delete: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const { deleteTag } = await import("./services/tags");
+        await deleteTag(ctx.user.id, input.id);
+        return { success: true };
+      }),
+
+    merge: protectedProcedure
+      .input(z.object({ sourceIds: z.array(z.number()).min(1), targetId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const { mergeTags } = await import("./services/tags");
+        return await mergeTags(ctx.user.id, input.sourceIds, input.targetId);
+      }),
+
+    addToLeads: protectedProcedure
+      .input(bulkLeadTagsSchema)
+      .mutation(async ({ ctx, input }) => {
+        const { addTagsToLeads } = await import("./services/tags");
+        return await addTagsToLeads(ctx.user.id, input.leadIds, input.tagIds);
+      }),
+
+    removeFromLeads: protectedProcedure
+      .input(bulkLeadTagsSchema)
+      .mutation(async ({ ctx, input }) => {
+        const { removeTagsFromLeads } = await import("./services/tags");
+        return await removeTagsFromLeads(ctx.user.id, input.leadIds, input.tagIds);
+      }),
+
+    // Replace one lead's tags
+    setForLead: protectedProcedure
+      .input(z.object({ leadId: z.number(), tagIds: z.array(z.number()) }))
+      .mutation(async ({ ctx, input }) => {
+        const { setLeadTags } = await import("./services/tags");
+        await setLeadTags(ctx.user.id, input.leadId, input.tagIds);
+        return { success: true };
+      }),
+  }),
+
+  // The people at each lead's company; the primary contact's details also show on the lead
+  contacts: router({
+    list: protectedProcedure
+      .input(z.object({ leadId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const { listContacts } = await import("./services/leadContacts");
+        return await listContacts(ctx.user.id, input.leadId);
+      }),
+
+    create: protectedProcedure
+      .input(leadContactInputSchema.extend({ leadId: z.number() }))
+      .mutation(async ({ ctx, input: { leadId, ...contact } }) => {
+        const { addContact } = await import("./services/leadContacts");
+        return await addContact(ctx.user.id, leadId, contact);
+      }),
+
+    update: protectedProcedure
+      .input(leadContactInputSchema.extend({ id: z.number() }))
+      .mutation(async ({ ctx, input: { id, ...contact } }) => {
+        const { updateContact } = await import("./services/leadContacts");
+        await updateContact(ctx.user.id, id, contact);
+        return { success: true };
+      }),
+
+    delete: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const { deleteContact } = await import("./services/leadContacts");
+        await deleteContact(ctx.user.id, input.id);
+        return { success: true };
+      }),
+
+    setPrimary: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const { setPrimaryContact } = await import("./services/leadContacts");
+        await setPrimaryContact(ctx.user.id, input.id);
+        return { success: true };
+      }),
+  }),
+
+  // Background actions over many leads, with progress, a failure report and an undo window
+  bulkOperations: router({
+    start: protectedProcedure
+      .input(z.object({ target: bulkLeadTargetSchema, action: bulkLeadActionSchema }))
+      .mutation(async ({ ctx, input }) => {
+        const { startBulkOperation } = await import("./services/bulkOperations");
+        return await startBulkOperation(ctx.user.id, input.target, input.action);
+      }),
+
+    // Polled for progress while the operation runs
+    get: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const { getBulkOperation } = await import("./services/bulkOperations");
+        return await getBulkOperation(ctx.user.id, input.id);
+      }),
+
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const { listBulkOperations } = await import("./services/bulkOperations");
+      return await listBulkOperations(ctx.user.id);
+    }),
+
+    failures: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const { getBulkOperationFailures } = await import("./services/bulkOperations");
+        return await getBulkOperationFailures(ctx.user.id, input.id);
+      }),
+
+    undo: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const { undoBulkOperation } = await import("./services/bulkOperations");
+        return await undoBulkOperation(ctx.user.id, input.id);
+      }),
+
+    // Short-lived link to the file for a finished export operation
+    download: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const { getBulkExportDownload } = await import("./services/bulkOperations");
+        return await getBulkExportDownload(ctx.user.id, input.id);
+      }),
+  }),
+
   // Lead discovery and management
   leads: router({
     list: protectedProcedure.query(async ({ ctx }) => {
@@ -365,55 +696,55 @@ export const appRouter = router({
       const useTestData = ctx.user.useRealData !== 1;
       
       if (useTestData) {
-        const { getTestData } = await import("./services/testData");
-        const testData = getTestData();
-        // Transform test leads to match expected format
-        return testData.leads.map(lead => ({
-          id: lead.id,
-          userId: ctx.user.id,
-          companyName: lead.companyName,
-          website: lead.website,
-          industry: lead.industry,
-          companySize: `${lead.employeeCount} employees`,
-          location: lead.location,
-          description: `${lead.industry} company with ${lead.revenue} revenue`,
-          contactName: lead.contactName,
-          contactTitle: lead.contactTitle,
-          contactEmail: lead.contactEmail,
-          contactLinkedin: lead.linkedinUrl,
-          contactPhone: lead.contactPhone,
-          status: lead.status,
-          score: lead.score,
-          notes: lead.notes,
-          tags: lead.industry,
-          createdAt: lead.createdAt,
-          updatedAt: lead.createdAt,
-        }));
+        const { getTestLeadRecords } = await import("./services/testData");
+        return getTestLeadRecords(ctx.user.id);
       }
       
       const { getUserLeads } = await import("./db");
       return await getUserLeads(ctx.user.id);
     }),
+
+    // One page of leads with filtering and sorting done server-side
+    query: protectedProcedure
+      .input(leadQueryInputSchema)
+      .query(async ({ ctx, input }) => {
+        const { getUserCustomFields } = await import("./services/customFields");
+        const { getSavedViewForUser, restrictToSnapshot, viewQueryFilters } = await import("./services/savedViews");
+        // A shared view lists its owner's leads with the owner's filters
+        const view = input.viewId ? await getSavedViewForUser(input.viewId, ctx.user.id) : null;
+        const ownerId = view?.ownerId ?? ctx.user.id;
+        const filters = view ? viewQueryFilters(view, input.filters) : input.filters;
+        const customFields = await getUserCustomFields(ownerId);
+        
+        if (ctx.user.useRealData !== 1) {
+          const { getTestLeadRecords } = await import("./services/testData");
+          const { queryLeadsInMemory } = await import("./services/leadQuery");
+          // Sample leads share the table's shape so both modes return the same page type
+          const sampleLeads = getTestLeadRecords(ownerId) as Omit<Lead, "welcomeEmailSent">[] as (Lead & { tags: LeadTag[] })[];
+          const viewLeads = await restrictToSnapshot(sampleLeads, filters);
+          const { getScoringModel } = await import("./services/scoringModel");
+          const { thresholds } = await getScoringModel(ownerId);
+          return queryLeadsInMemory(viewLeads, filters, input.cursor, input.limit, customFields, thresholds);
+        }
+        
+        const { queryLeads } = await import("./services/leadQuery");
+        return await queryLeads(ownerId, filters, input.cursor, input.limit, customFields);
+      }),
     
     create: protectedProcedure
-      .input(z.object({
-        companyName: z.string().min(1),
-        website: z.string().optional(),
-        industry: z.string().optional(),
-        companySize: z.string().optional(),
-        location: z.string().optional(),
-        description: z.string().optional(),
-        contactName: z.string().optional(),
-        contactTitle: z.string().optional(),
-        contactEmail: z.string().email().optional(),
-        contactLinkedin: z.string().url().optional(),
-        contactPhone: z.string().optional(),
-        notes: z.string().optional(),
-        tags: z.string().optional(),
+      .input(leadInputSchema.extend({
+        customFields: customFieldValuesInputSchema.optional(),
       }))
-      .mutation(async ({ ctx, input }) => {
+      .mutation(async ({ ctx, input: { customFields: customFieldInput, tags, ...input } }) => {
         const { createLead } = await import("./db");
         const { calculateLeadScore } = await import("./leadScoring");
+        const { getScoringModel } = await import("./services/scoringModel");
+        
+        let customFields: string | null = null;
+        if (customFieldInput) {
+          const { getUserCustomFields, resolveCustomFieldValues } = await import("./services/customFields");
+          customFields = resolveCustomFieldValues(await getUserCustomFields(ctx.user.id), customFieldInput);
+        }
         
         // Calculate initial lead score
         const tempLead = {
@@ -425,14 +756,26 @@ export const appRouter = router({
           updatedAt: new Date(),
         } as any;
         
-        const scoringResult = calculateLeadScore(tempLead, 0, 0);
+        const scoringResult = calculateLeadScore(tempLead, 0, 0, undefined, [], await getScoringModel(ctx.user.id));
         
         const result = await createLead({
           ...input,
+          customFields,
           userId: ctx.user.id,
           score: scoringResult.score,
         });
         
+        const { parseTagList } = await import("@shared/tags");
+        const tagNames = parseTagList(tags);
+        if (tagNames.length > 0) {
+          const { tagLeadsByName } = await import("./services/tags");
+          await tagLeadsByName(ctx.user.id, [{ leadId: result[0].insertId, names: tagNames }]);
+        }
+        
+        // Enrich in the background; the lead is usable without it
+        const { enrichNewLeads } = await import("./services/leadEnrichment");
+        void enrichNewLeads(ctx.user.id, [Number(result[0].insertId)]);
+        
         // Send welcome email if contact email is provided and welcome email automation is enabled
         if (input.contactEmail && input.contactName) {
           const { sendWelcomeEmail } = await import("./services/welcomeEmail");
@@ -480,7 +823,10 @@ export const appRouter = router({
       .input(z.object({ id: z.number() }))
       .query(async ({ ctx, input }) => {
         const { getLeadById } = await import("./db");
-        return await getLeadById(input.id, ctx.user.id);
+        const { withLeadTags } = await import("./services/tags");
+        const { withEmailVerifications } = await import("./services/emailFinder");
+        const lead = await getLeadById(input.id, ctx.user.id);
+        return lead ? (await withEmailVerifications(ctx.user, await withLeadTags([lead])))[0] : lead;
       }),
     
     update: protectedProcedure
@@ -500,16 +846,44 @@ export const appRouter = router({
         status: z.enum(["new", "contacted", "qualified", "unqualified", "converted"]).optional(),
         score: z.number().min(0).max(100).optional(),
         notes: z.string().optional(),
-        tags: z.string().optional(),
+        customFields: customFieldValuesInputSchema.optional(),
       }))
       .mutation(async ({ ctx, input }) => {
-        const { id, ...updates } = input;
-        const { updateLead, getLeadById, getLeadEmailClicks, getLeadEmailOpens, updateLeadScore } = await import("./db");
+        const { id, customFields: customFieldInput, ...fieldUpdates } = input;
+        const { updateLead, getLeadById, getLeadContacts, getLeadEmailClicks, getLeadEmailOpens, getLeadTechnologies, updateLeadScore } = await import("./db");
         const { calculateLeadScore } = await import("./leadScoring");
         
+        // The current lead is needed to merge custom field values and record a status change
+        const existing = customFieldInput || fieldUpdates.status ? await getLeadById(id, ctx.user.id) : undefined;
+        
+        // Custom field values are merged into the lead's existing ones
+        const updates: typeof fieldUpdates & { customFields?: string | null } = fieldUpdates;
+        if (customFieldInput) {
+          if (!existing) throw new Error("Lead not found or access denied");
+          
+          const { getUserCustomFields, resolveCustomFieldValues } = await import("./services/customFields");
+          updates.customFields = resolveCustomFieldValues(
+            await getUserCustomFields(ctx.user.id),
+            customFieldInput,
+            existing.customFields
+          );
+        }
+        
         // Update the lead
         const result = await updateLead(id, ctx.user.id, updates);
         
+        if (existing && updates.status && updates.status !== existing.status) {
+          const { recordStatusChange } = await import("./services/workflowAutomation");
+          await recordStatusChange({
+            leadId: id,
+            userId: ctx.user.id,
+            previousStatus: existing.status,
+            newStatus: updates.status,
+            changeReason: "manual_update",
+            triggeredBy: "user",
+          });
+        }
+        
         // Automatically recalculate score if status or contact info changed
         const shouldRecalculateScore = updates.status || updates.contactEmail || 
           updates.contactPhone || updates.contactLinkedin || updates.contactName || updates.contactTitle;
@@ -523,7 +897,8 @@ export const appRouter = router({
               const emailClicks = clicks.length;
               const emailOpens = opens.length;
               
-              const scoringResult = calculateLeadScore(lead, emailOpens, emailClicks);
+              const { getScoringModel } = await import("./services/scoringModel");
+              const scoringResult = calculateLeadScore(lead, emailOpens, emailClicks, await getLeadContacts(id), await getLeadTechnologies(id), await getScoringModel(ctx.user.id));
               await updateLeadScore(id, scoringResult.score);
               console.log(`[Score Update] Lead ${id} score updated to ${scoringResult.score} after update`);
             }
@@ -542,7 +917,108 @@ export const appRouter = router({
         const { deleteLead } = await import("./db");
         return await deleteLead(input.id, ctx.user.id);
       }),
-    
+
+    // Parse an uploaded CSV/XLSX file and suggest how its columns map onto lead fields
+    importPreview: protectedProcedure
+      .input(z.object({
+        fileName: z.string().min(1),
+        fileBase64: z.string().min(1).max(15_000_000),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { parseImportFile, suggestColumnMapping, mapRowToLeadInput } = await import("./services/leadImport");
+        const { getUserCustomFields } = await import("./services/customFields");
+
+        const file = await parseImportFile(input.fileName, Buffer.from(input.fileBase64, "base64"));
+        const suggestedMapping = suggestColumnMapping(file.headers, await getUserCustomFields(ctx.user.id));
+
+        return {
+          headers: file.headers,
+          totalRows: file.rows.length,
+          sampleRows: file.rows.slice(0, 5),
+          suggestedMapping,
+          samplePreview: file.rows.slice(0, 5).map(row => mapRowToLeadInput(file.headers, row, suggestedMapping)),
+        };
+      }),
+
+    // Import leads from a CSV/XLSX file using a confirmed column mapping
+    import: protectedProcedure
+      .input(z.object({
+        fileName: z.string().min(1),
+        fileBase64: z.string().min(1).max(15_000_000),
+        mapping: z.record(z.string(), z.string().nullable()), // Lead field or "custom:<key>"
+        skipDuplicates: z.boolean().default(true),
+        dryRun: z.boolean().default(false),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { parseImportFile, importLeads } = await import("./services/leadImport");
+
+        const file = await parseImportFile(input.fileName, Buffer.from(input.fileBase64, "base64"));
+        return await importLeads(ctx.user.id, file, input.mapping, {
+          skipDuplicates: input.skipDuplicates,
+          dryRun: input.dryRun,
+        });
+      }),
+
+    // Export filtered leads; returns a short-lived link the browser downloads the streamed file from
+    export: protectedProcedure
+      .input(leadExportOptionsSchema)
+      .mutation(async ({ ctx, input }) => {
+        const { createLeadExportToken, getLeadExportFileName } = await import("./services/leadExport");
+
+        const token = createLeadExportToken(ctx.user.id, input);
+        return {
+          downloadUrl: `/api/leads/export?token=${encodeURIComponent(token)}`,
+          fileName: getLeadExportFileName(input.format),
+        };
+      }),
+
+    // Find likely duplicate leads (same domain, same contact email or near-identical company name)
+    duplicates: protectedProcedure.query(async ({ ctx }) => {
+      const { findDuplicateCandidates } = await import("./services/leadDedup");
+
+      let userLeads;
+      if (ctx.user.useRealData !== 1) {
+        const { getTestLeadRecords } = await import("./services/testData");
+        userLeads = getTestLeadRecords(ctx.user.id);
+      } else {
+        const { getUserLeads } = await import("./db");
+        userLeads = await getUserLeads(ctx.user.id);
+      }
+
+      const leadsById = new Map(userLeads.map(lead => [lead.id, lead]));
+      return findDuplicateCandidates(userLeads).map(candidate => ({
+        ...candidate,
+        leads: candidate.leadIds.map(id => leadsById.get(id)!),
+      }));
+    }),
+
+    // Merge a duplicate lead into a surviving lead, moving all of its history
+    merge: protectedProcedure
+      .input(z.object({
+        survivingLeadId: z.number(),
+        mergedLeadId: z.number(),
+        fieldChoices: z.record(z.string(), z.enum(["surviving", "merged"])).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { mergeLeads } = await import("./services/leadDedup");
+        return await mergeLeads(ctx.user.id, input.survivingLeadId, input.mergedLeadId, input.fieldChoices);
+      }),
+
+    mergeHistory: protectedProcedure
+      .input(z.object({ leadId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const { getLeadMerges } = await import("./db");
+        const merges = await getLeadMerges(input.leadId, ctx.user.id);
+        return merges.map(merge => ({
+          id: merge.id,
+          mergedLeadId: merge.mergedLeadId,
+          mergedCompanyName: merge.mergedCompanyName,
+          fieldSources: JSON.parse(merge.fieldSources),
+          movedRecords: JSON.parse(merge.movedRecords),
+          createdAt: merge.createdAt,
+        }));
+      }),
+
     engagementTimeline: protectedProcedure
       .input(z.object({ leadId: z.number() }))
       .query(async ({ input }) => {
@@ -550,12 +1026,31 @@ export const appRouter = router({
         return await getLeadEngagementTimeline(input.leadId);
       }),
     
+    statusHistory: protectedProcedure
+      .input(z.object({ leadId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const { getLeadById } = await import("./db");
+        const { getLeadStatusHistory } = await import("./services/workflowAutomation");
+        const lead = await getLeadById(input.leadId, ctx.user.id);
+        if (!lead) throw new Error("Lead not found or access denied");
+        return await getLeadStatusHistory(input.leadId);
+      }),
+    
+    // Status transition counts across the pipeline, for analytics
+    statusTransitions: protectedProcedure
+      .input(z.object({ from: z.date().optional(), to: z.date().optional() }).optional())
+      .query(async ({ ctx, input }) => {
+        const { getLeadStatusTransitions } = await import("./db");
+        return await getLeadStatusTransitions(ctx.user.id, input ?? {});
+      }),
+    
     recalculateScore: protectedProcedure
       .input(z.object({ id: z.number() }))
       .mutation(async ({ ctx, input }) => {
-        const { getLeadById, updateLead } = await import("./db");
+        const { getLeadById, getLeadContacts, getLeadTechnologies, updateLead } = await import("./db");
         const { calculateLeadScore } = await import("./leadScoring");
         const { getLeadEmailClicks } = await import("./db");
+        const { getScoringModel } = await import("./services/scoringModel");
         
         // Get the lead
         const lead = await getLeadById(input.id, ctx.user.id);
@@ -571,7 +1066,7 @@ export const appRouter = router({
         const emailOpens = 0;
         
         // Calculate new score
-        const scoringResult = calculateLeadScore(lead, emailOpens, emailClicks);
+        const scoringResult = calculateLeadScore(lead, emailOpens, emailClicks, await getLeadContacts(input.id), await getLeadTechnologies(input.id), await getScoringModel(ctx.user.id));
         
         // Update lead with new score
         await updateLead(input.id, ctx.user.id, { score: scoringResult.score });
@@ -579,173 +1074,99 @@ export const appRouter = router({
         return scoringResult;
       }),
     
+    discoverySources: protectedProcedure.query(async ({ ctx }) => {
+      const { listLeadSources } = await import("./services/leadSources");
+      return listLeadSources(ctx.user);
+    }),
+
+    // Turn a natural-language query into Apollo filters for the user to confirm
+    parseDiscoveryQuery: protectedProcedure
+      .input(parseDiscoveryQueryInputSchema)
+      .mutation(async ({ input }) => {
+        const { parseSearchQuery } = await import("./services/queryUnderstanding");
+        return await parseSearchQuery(input);
+      }),
+
     discover: protectedProcedure
+      .input(discoverLeadsInputSchema)
+      .mutation(async ({ ctx, input }) => {
+        const { discoverLeads } = await import("./services/leadDiscovery");
+        return await discoverLeads(ctx.user, input);
+      }),
+
+    // Enrichers the user can run, for the lead detail page
+    enrichers: protectedProcedure.query(async ({ ctx }) => {
+      const { listEnrichers } = await import("./services/enrichers");
+      return listEnrichers(ctx.user);
+    }),
+
+    // Every fact enrichment found about a lead, reconciled across sources
+    enrichment: protectedProcedure
+      .input(z.object({ leadId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const { getLeadEnrichment } = await import("./services/leadEnrichment");
+        return await getLeadEnrichment(input.leadId, ctx.user.id);
+      }),
+
+    // Run enrichers against a lead now: the ones picked, or every one available
+    enrich: protectedProcedure
       .input(z.object({
-        query: z.string().min(1),
-        industry: z.string().optional(),
-        companySize: z.string().optional(),
-        location: z.string().optional(),
+        leadId: z.number(),
+        enrichers: z.array(z.enum(ENRICHER_IDS)).min(1).optional(),
       }))
       .mutation(async ({ ctx, input }) => {
-        const { invokeLLM } = await import("./_core/llm");
-        const { createSearchHistory } = await import("./db");
-        const { searchOrganizations, convertApolloOrgToLead } = await import("./apollo");
-        
-        // Check if user wants real data from Apollo.io
-        const useRealData = ctx.user.useRealData === 1;
-        
-        if (useRealData) {
-          // Use Apollo.io API for real data
-          try {
-            const apolloResult = await searchOrganizations({
-              query: input.query,
-              industry: input.industry,
-              companySize: input.companySize,
-              location: input.location,
-              perPage: 5,
-            });
-            
-            const leads = apolloResult.organizations.map(convertApolloOrgToLead);
-            
-            // Save search history
-            await createSearchHistory({
-              userId: ctx.user.id,
-              query: input.query,
-              industry: input.industry || null,
-              companySize: input.companySize || null,
-              location: input.location || null,
-              filters: JSON.stringify({ industry: input.industry, companySize: input.companySize, location: input.location }),
-              resultsCount: leads.length,
-            });
-            
-            // Send lead notification email if enabled and leads were found
-            if (ctx.user.emailNotifications === 1 && leads.length > 0 && ctx.user.email) {
-              try {
-                const { sendLeadNotificationEmail } = await import("./services/email");
-                const firstLead = leads[0];
-                await sendLeadNotificationEmail(
-                  ctx.user.email,
-                  ctx.user.name || "there",
-                  firstLead.contactName,
-                  firstLead.companyName,
-                  firstLead.contactEmail || undefined
-                );
-                console.log("[Lead Discovery] Notification email sent to", ctx.user.email);
-              } catch (emailError) {
-                console.error("[Lead Discovery] Failed to send notification email:", emailError);
-              }
-            }
-            
-            return leads;
-          } catch (error) {
-            console.error("[Apollo API] Error:", error);
-            throw new Error("Failed to fetch real lead data from Apollo.io. Please check your API key and try again.");
-          }
-        }
-        
-        // Fall back to AI-generated template data
-        
-        // Build the AI prompt for lead discovery
-        const systemPrompt = `You are an expert lead generation assistant. Your task is to generate realistic potential leads based on the user's search criteria. 
-        
-For each lead, provide:
-- Company name
-- Website URL
-- Industry
-- Company size (e.g., "1-10", "11-50", "51-200", "201-500", "500+")
-- Location
-- Brief company description
-- Contact person name (decision maker like CEO, CTO, VP Sales)
-- Contact title
-- Estimated email (use common patterns like firstname.lastname@company.com)
-- LinkedIn profile URL (use realistic format: https://www.linkedin.com/in/firstname-lastname or leave as placeholder text 'LinkedIn Profile' if uncertain)
-
-Return exactly 5 leads in valid JSON format as an array of objects.`;
-        
-        const userPrompt = `Find leads matching: ${input.query}${
-          input.industry ? `\nIndustry: ${input.industry}` : ''
-        }${
-          input.companySize ? `\nCompany Size: ${input.companySize}` : ''
-        }${
-          input.location ? `\nLocation: ${input.location}` : ''
-        }`;
-        
-        // Call LLM for lead discovery
-        const response = await invokeLLM({
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: userPrompt },
-          ],
-          response_format: {
-            type: "json_schema",
-            json_schema: {
-              name: "lead_discovery",
-              strict: true,
-              schema: {
-                type: "object",
-                properties: {
-                  leads: {
-                    type: "array",
-                    items: {
-                      type: "object",
-                      properties: {
-                        companyName: { type: "string" },
-                        website: { type: "string" },
-                        industry: { type: "string" },
-                        companySize: { type: "string" },
-                        location: { type: "string" },
-                        description: { type: "string" },
-                        contactName: { type: "string" },
-                        contactTitle: { type: "string" },
-                        contactEmail: { type: "string" },
-                        contactLinkedin: { type: "string" },
-                      },
-                      required: ["companyName", "website", "industry", "companySize", "location", "description", "contactName", "contactTitle", "contactEmail", "contactLinkedin"],
-                      additionalProperties: false,
-                    },
-                  },
-                },
-                required: ["leads"],
-                additionalProperties: false,
-              },
-            },
-          },
-        });
-        
-        const content = response.choices[0].message.content;
-        const result = JSON.parse(typeof content === 'string' ? content : "{}");
-        
-        // Save search history
-        await createSearchHistory({
-          userId: ctx.user.id,
-          query: input.query,
-          industry: input.industry || null,
-          companySize: input.companySize || null,
-          location: input.location || null,
-          filters: JSON.stringify({ industry: input.industry, companySize: input.companySize, location: input.location }),
-          resultsCount: result.leads?.length || 0,
-        });
-        
-        // Send lead notification email if enabled and leads were found
-        const leads = result.leads || [];
-        if (ctx.user.emailNotifications === 1 && leads.length > 0 && ctx.user.email) {
-          try {
-            const { sendLeadNotificationEmail } = await import("./services/email");
-            const firstLead = leads[0];
-            await sendLeadNotificationEmail(
-              ctx.user.email,
-              ctx.user.name || "there",
-              firstLead.contactName,
-              firstLead.companyName,
-              firstLead.contactEmail || undefined
-            );
-            console.log("[Lead Discovery] Notification email sent to", ctx.user.email);
-          } catch (emailError) {
-            console.error("[Lead Discovery] Failed to send notification email:", emailError);
-          }
-        }
-        
-        return leads;
+        const { enrichLead } = await import("./services/leadEnrichment");
+        return await enrichLead(ctx.user, input.leadId, input.enrichers);
+      }),
+
+    // Companies like a lead, or like all won leads when no lead is given, most similar first
+    findSimilar: protectedProcedure
+      .input(findSimilarLeadsInputSchema)
+      .mutation(async ({ ctx, input }) => {
+        const { findSimilarLeads } = await import("./services/lookalikes");
+        return await findSimilarLeads(ctx.user, input);
+      }),
+
+    // Leads placed on the map, and how many are still waiting to be geocoded
+    map: protectedProcedure.query(async ({ ctx }) => {
+      if (ctx.user.useRealData !== 1) {
+        const { getTestLeadRecords } = await import("./services/testData");
+        const { getSampleLeadMap } = await import("./services/leadGeocoding");
+        return await getSampleLeadMap(getTestLeadRecords(ctx.user.id) as Omit<Lead, "welcomeEmailSent">[]);
+      }
+
+      const { getLeadMap } = await import("./services/leadGeocoding");
+      return await getLeadMap(ctx.user.id);
+    }),
+
+    // Geocode the next batch of leads whose location is new or has changed
+    geocode: protectedProcedure.mutation(async ({ ctx }) => {
+      const { geocodePendingLeads } = await import("./services/leadGeocoding");
+      return await geocodePendingLeads(ctx.user.id);
+    }),
+
+    // Other leads within a radius of a lead, closest first
+    nearby: protectedProcedure
+      .input(z.object({ leadId: z.number(), radiusKm: z.number().positive().max(1000).default(DEFAULT_NEARBY_RADIUS_KM) }))
+      .query(async ({ ctx, input }) => {
+        const { findNearbyLeads } = await import("./services/leadGeocoding");
+        return await findNearbyLeads(ctx.user.id, input.leadId, input.radiusKm);
+      }),
+
+    // Check the lead's contact email again: its domain's mail servers, then the mailbox itself
+    verifyEmail: protectedProcedure
+      .input(z.object({ leadId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const { verifyLeadEmail } = await import("./services/emailFinder");
+        return await verifyLeadEmail(ctx.user, input.leadId);
+      }),
+
+    // Guess and check addresses for the lead's contact, or someone else there by name
+    findEmail: protectedProcedure
+      .input(z.object({ leadId: z.number(), name: z.string().max(255).optional() }))
+      .mutation(async ({ ctx, input }) => {
+        const { findContactEmail } = await import("./services/emailFinder");
+        return await findContactEmail(ctx.user, input.leadId, input.name);
       }),
   }),
   
@@ -769,6 +1190,11 @@ Return exactly 5 leads in valid JSON format as an array of objects.`;
       .mutation(async ({ ctx, input }) => {
         const { toggleSearchFavorite } = await import("./db");
         const isFavorite = await toggleSearchFavorite(input.id, ctx.user.id);
+        if (!isFavorite) {
+          // Only saved searches are monitored
+          const { removeMonitorForSearch } = await import("./services/searchMonitors");
+          await removeMonitorForSearch(input.id);
+        }
         return { isFavorite };
       }),
     
@@ -777,7 +1203,9 @@ Return exactly 5 leads in valid JSON format as an array of objects.`;
       .input(z.object({ id: z.number() }))
       .mutation(async ({ ctx, input }) => {
         const { deleteSearchHistory } = await import("./db");
+        const { removeMonitorForSearch } = await import("./services/searchMonitors");
         await deleteSearchHistory(input.id, ctx.user.id);
+        await removeMonitorForSearch(input.id);
         return { success: true };
       }),
     
@@ -785,11 +1213,82 @@ Return exactly 5 leads in valid JSON format as an array of objects.`;
     clear: protectedProcedure
       .input(z.object({ keepFavorites: z.boolean().default(true) }))
       .mutation(async ({ ctx, input }) => {
-        const { clearUserSearchHistory } = await import("./db");
+        const { clearUserSearchHistory, getUserSearchMonitors } = await import("./db");
         await clearUserSearchHistory(ctx.user.id, input.keepFavorites);
+        if (!input.keepFavorites) {
+          const { deleteUserSearchMonitor } = await import("./services/searchMonitors");
+          for (const monitor of await getUserSearchMonitors(ctx.user.id)) {
+            await deleteUserSearchMonitor(ctx.user.id, monitor.id);
+          }
+        }
         return { success: true };
       }),
   }),
+
+  // Saved searches re-run on a schedule, surfacing companies they haven't found before
+  searchMonitors: router({
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const { listSearchMonitors } = await import("./services/searchMonitors");
+      return await listSearchMonitors(ctx.user.id);
+    }),
+
+    // Create or update the monitor on a saved search
+    save: protectedProcedure
+      .input(z.object({
+        searchId: z.number(),
+        cronExpression: z.string().min(1).max(100),
+        isActive: z.boolean().default(true),
+        autoImport: z.boolean().default(false),
+        emailDigest: z.boolean().default(true),
+      }))
+      .mutation(async ({ ctx, input: { searchId, ...settings } }) => {
+        const { saveSearchMonitor } = await import("./services/searchMonitors");
+        return await saveSearchMonitor(ctx.user.id, searchId, settings);
+      }),
+
+    delete: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const { deleteUserSearchMonitor } = await import("./services/searchMonitors");
+        await deleteUserSearchMonitor(ctx.user.id, input.id);
+        return { success: true };
+      }),
+
+    runNow: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const { runUserSearchMonitor } = await import("./services/searchMonitors");
+        return await runUserSearchMonitor(ctx.user.id, input.id);
+      }),
+
+    // New matches awaiting review, optionally for one monitor
+    matches: protectedProcedure
+      .input(z.object({ monitorId: z.number().optional() }))
+      .query(async ({ ctx, input }) => {
+        const { getUserSearchMonitorMatches } = await import("./db");
+        const matches = await getUserSearchMonitorMatches(ctx.user.id, { status: "new", monitorId: input.monitorId });
+        return matches.map(({ lead, ...match }) => ({
+          ...match,
+          lead: JSON.parse(lead) as DiscoveredLead,
+        }));
+      }),
+
+    importMatches: protectedProcedure
+      .input(z.object({ ids: z.array(z.number()).min(1).max(500) }))
+      .mutation(async ({ ctx, input }) => {
+        const { importSearchMonitorMatches } = await import("./services/searchMonitors");
+        const imported = await importSearchMonitorMatches(ctx.user.id, input.ids);
+        return { imported };
+      }),
+
+    dismissMatches: protectedProcedure
+      .input(z.object({ ids: z.array(z.number()).min(1).max(500) }))
+      .mutation(async ({ ctx, input }) => {
+        const { dismissSearchMonitorMatches } = await import("./services/searchMonitors");
+        const dismissed = await dismissSearchMonitorMatches(ctx.user.id, input.ids);
+        return { dismissed };
+      }),
+  }),
   
   // Sales conversations
   conversations: router({
@@ -983,25 +1482,53 @@ Be professional, empathetic, and focused on building trust.`;
         subject: z.string().min(1),
         body: z.string().min(1),
         leadId: z.number().optional(),
+        contactId: z.number().optional(), // Lead contact being emailed; matched by address when omitted
         conversationId: z.number().optional(),
         templateId: z.number().optional(),
       }))
       .mutation(async ({ ctx, input }) => {
         const { createSentEmail } = await import("./db");
+        const { assertDeliverable } = await import("./services/emailFinder");
         const { exec } = await import("child_process");
         const { promisify } = await import("util");
         const execAsync = promisify(exec);
         
+        // Addresses known to bounce aren't sent to; ones never checked are checked now
+        await assertDeliverable(ctx.user, input.to);
+        
+        // Fill {{variables}} from the lead the email is about and the contact it goes to
+        let { subject, body } = input;
+        let contactId: number | null = null;
+        if (input.leadId) {
+          const { getLeadById, getLeadContactById } = await import("./db");
+          const lead = await getLeadById(input.leadId, ctx.user.id);
+          if (lead) {
+            const { resolveEmailContact } = await import("./services/leadContacts");
+            contactId = await resolveEmailContact(ctx.user.id, lead.id, { contactId: input.contactId, email: input.to });
+            const contact = contactId !== null ? await getLeadContactById(contactId) : undefined;
+            
+            const { getUserCustomFields } = await import("./services/customFields");
+            const { buildTemplateVariables, renderTemplate } = await import("./services/templateVariables");
+            const recipient = contact
+              ? { ...lead, contactName: contact.name, contactTitle: contact.title, contactEmail: contact.email, contactPhone: contact.phone, contactLinkedin: contact.linkedin }
+              : lead;
+            const variables = buildTemplateVariables(recipient, await getUserCustomFields(ctx.user.id));
+            subject = renderTemplate(subject, variables);
+            body = renderTemplate(body, variables);
+          }
+        }
+        
         try {
           // First, save the email to get the sentEmailId
           const sentEmailResult = await createSentEmail({
             userId: ctx.user.id,
             leadId: input.leadId,
+            contactId,
             conversationId: input.conversationId,
             templateId: input.templateId,
             recipientEmail: input.to,
-            subject: input.subject,
-            body: input.body,
+            subject,
+            body,
             status: "sent",
           });
           
@@ -1010,7 +1537,7 @@ Be professional, empathetic, and focused on building trust.`;
           
           // Wrap links with tracking URLs
           const { wrapLinksWithTracking } = await import("./linkTracker");
-          let trackedBody = wrapLinksWithTracking(input.body, sentEmailId, input.leadId);
+          let trackedBody = wrapLinksWithTracking(body, sentEmailId, input.leadId);
           
           // Embed tracking pixel for open tracking
           const { embedTrackingPixel, generateTrackingPixelUrl } = await import("./openTracker");
@@ -1026,7 +1553,7 @@ Be professional, empathetic, and focused on building trust.`;
             messages: [
               {
                 to: [input.to],
-                subject: input.subject,
+                subject,
                 content: trackedBody,
               }
             ]
@@ -1070,11 +1597,12 @@ Be professional, empathetic, and focused on building trust.`;
           await createSentEmail({
             userId: ctx.user.id,
             leadId: input.leadId,
+            contactId,
             conversationId: input.conversationId,
             templateId: input.templateId,
             recipientEmail: input.to,
-            subject: input.subject,
-            body: input.body,
+            subject,
+            body,
             status: "failed",
           });
           
@@ -1082,6 +1610,13 @@ Be professional, empathetic, and focused on building trust.`;
         }
       }),
     
+    // Placeholders templates can use, including the user's custom fields
+    templateVariables: protectedProcedure.query(async ({ ctx }) => {
+      const { getUserCustomFields } = await import("./services/customFields");
+      const { listTemplateVariables } = await import("./services/templateVariables");
+      return listTemplateVariables(await getUserCustomFields(ctx.user.id));
+    }),
+    
     // Get sent email history
     history: protectedProcedure
       .input(z.object({ 
@@ -1468,30 +2003,11 @@ Be professional, empathetic, and focused on building trust.`;
       .input(z.object({
         sequenceId: z.number(),
         leadId: z.number(),
+        contactId: z.number().optional(), // Defaults to the lead's primary contact
       }))
       .mutation(async ({ input }) => {
-        const { getDb, getSequenceSteps } = await import("./db");
-        const { sequenceEnrollments } = await import("../drizzle/schema");
-        
-        const db = await getDb();
-        if (!db) throw new Error("Database not available");
-        
-        // Get first step to calculate next email time
-        const steps = await getSequenceSteps(input.sequenceId);
-        const firstStep = steps[0];
-        
-        const now = new Date();
-        const nextEmailTime = firstStep 
-          ? new Date(now.getTime() + ((firstStep.delayDays || 0) * 24 * 60 * 60 * 1000) + ((firstStep.delayHours || 0) * 60 * 60 * 1000))
-          : now;
-        
-        await db.insert(sequenceEnrollments).values({
-          sequenceId: input.sequenceId,
-          leadId: input.leadId,
-          currentStep: 0,
-          status: "active",
-          nextEmailScheduledAt: nextEmailTime,
-        });
+        const { enrollLeadInSequence } = await import("./services/sequenceEnrollment");
+        await enrollLeadInSequence(input.sequenceId, input.leadId, input.contactId);
         
         return { success: true };
       }),
@@ -1867,6 +2383,55 @@ Be professional, empathetic, and focused on building trust.`;
         
         return { success: true, message: 'User billing updated successfully' };
       }),
+    
+    // Get a user's Apollo credit budget and spending this month (admin only)
+    getApolloCreditBalance: protectedProcedure
+      .input(z.object({ userId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        if (ctx.user.role !== "admin") {
+          throw new Error("Unauthorized: Admin access required");
+        }
+        
+        const { getUserById } = await import("./db");
+        const user = await getUserById(input.userId);
+        if (!user) {
+          throw new Error("User not found");
+        }
+        const { getApolloCreditBalance } = await import("./services/apolloCreditQuota");
+        return await getApolloCreditBalance(user);
+      }),
+    
+    // Top up a user's Apollo credits for this month (admin only)
+    grantApolloCredits: protectedProcedure
+      .input(z.object({
+        userId: z.number(),
+        credits: z.number().int().min(1).max(100000),
+        reason: z.string().max(255).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        if (ctx.user.role !== "admin") {
+          throw new Error("Unauthorized: Admin access required");
+        }
+        
+        const { grantApolloCredits } = await import("./services/apolloCreditQuota");
+        return await grantApolloCredits(ctx.user.id, input.userId, input.credits, input.reason);
+      }),
+    
+    // Set a user's own monthly Apollo credit budget; null goes back to their plan's (admin only)
+    setApolloCreditLimit: protectedProcedure
+      .input(z.object({
+        userId: z.number(),
+        limit: z.number().int().min(0).nullable(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        if (ctx.user.role !== "admin") {
+          throw new Error("Unauthorized: Admin access required");
+        }
+        
+        const { updateUserApolloCreditLimit } = await import("./db");
+        await updateUserApolloCreditLimit(input.userId, input.limit);
+        return { success: true, message: 'Apollo credit budget updated successfully' };
+      }),
    }),
   
   // Billing
@@ -1879,6 +2444,12 @@ Be professional, empathetic, and focused on building trust.`;
       return await getUsageSummary(ctx.user.id);
     }),
     
+    // The user's own monthly credit budget, for the Discover page
+    getCreditBalance: protectedProcedure.query(async ({ ctx }) => {
+      const { getApolloCreditBalance } = await import('./services/apolloCreditQuota');
+      return await getApolloCreditBalance(ctx.user);
+    }),
+    
     getUsageStats: protectedProcedure
       .input(z.object({
         startDate: z.string().optional(),
@@ -41,6 +41,23 @@ export function startScheduler() {
   scheduledJobs.set("trial-expiration", trialExpirationJob);
   console.log("[Scheduler] Started daily re-engagement workflow scheduler (9:00 AM)");
   console.log("[Scheduler] Started trial expiration checks scheduler (8:00 AM)");
+
+  void scheduleActiveSearchMonitors();
+}
+
+/**
+ * Pick the active saved search monitors back up after a restart
+ */
+async function scheduleActiveSearchMonitors() {
+  try {
+    const { getActiveSearchMonitors } = await import("./db");
+    const monitors = await getActiveSearchMonitors();
+    for (const monitor of monitors) {
+      scheduleSearchMonitor(monitor.id, monitor.cronExpression);
+    }
+  } catch (error) {
+    console.error("[Scheduler] Error scheduling search monitors:", error);
+  }
 }
 
 /**
@@ -219,3 +236,41 @@ export function unscheduleUserWorkflows(userId: number) {
     console.log(`[Scheduler] Unscheduled workflows for user ${userId}`);
   }
 }
+
+
+/**
+ * Re-run a saved search monitor on its cron schedule
+ */
+export function scheduleSearchMonitor(monitorId: number, cronExpression: string) {
+  const jobKey = `search-monitor-${monitorId}`;
+
+  // Stop existing job if any
+  if (scheduledJobs.has(jobKey)) {
+    scheduledJobs.get(jobKey)?.stop();
+    scheduledJobs.delete(jobKey);
+  }
+
+  const job = cron.schedule(cronExpression, async () => {
+    try {
+      const { runSearchMonitor } = await import("./services/searchMonitors");
+      await runSearchMonitor(monitorId);
+    } catch (error) {
+      console.error(`[Scheduler] Error running search monitor ${monitorId}:`, error);
+    }
+  });
+
+  scheduledJobs.set(jobKey, job);
+  console.log(`[Scheduler] Scheduled search monitor ${monitorId} with cron: ${cronExpression}`);
+}
+
+/**
+ * Stop a saved search monitor's schedule
+ */
+export function unscheduleSearchMonitor(monitorId: number) {
+  const jobKey = `search-monitor-${monitorId}`;
+  if (scheduledJobs.has(jobKey)) {
+    scheduledJobs.get(jobKey)?.stop();
+    scheduledJobs.delete(jobKey);
+    console.log(`[Scheduler] Unscheduled search monitor ${monitorId}`);
+  }
+}
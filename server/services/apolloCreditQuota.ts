@@ -0,0 +1,86 @@
+/**
+ * Apollo Credit Quota Service
+ *
+ * Works out each user's monthly Apollo credit budget (their own limit, or their plan's)
+ * plus any admin top-ups, and stops Apollo calls once it's spent
+ */
+
+import { APOLLO_CONFIG } from '../apollo-config';
+import { createApolloCreditGrant, getApolloCreditGrantTotal, getSubscriptionPlanByTier, getUserById } from '../db';
+import { getMonthlyUsage } from './apolloUsageTracker';
+import type { User } from '../../drizzle/schema';
+
+export const APOLLO_BUDGET_EXHAUSTED_MESSAGE =
+  'Your monthly Apollo credit budget is used up. Ask an admin for a top-up, or use cached and AI results until next month.';
+
+export interface ApolloCreditBalance {
+  budget: number; // This month's total: the base budget plus top-ups
+  planBudget: number; // What the user's subscription tier gets
+  userLimit: number | null; // Per-user budget replacing the plan's, if set
+  topUps: number;
+  used: number;
+  remaining: number;
+}
+
+function startOfMonth(now: Date = new Date()) {
+  return new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+/**
+ * Get a user's Apollo credit budget and spending for the current month
+ */
+export async function getApolloCreditBalance(
+  user: Pick<User, 'id' | 'subscriptionTier' | 'apolloCreditLimit'>
+): Promise<ApolloCreditBalance> {
+  const [plan, topUps, usage] = await Promise.all([
+    getSubscriptionPlanByTier(user.subscriptionTier),
+    getApolloCreditGrantTotal(user.id, startOfMonth()),
+    getMonthlyUsage(user.id),
+  ]);
+
+  const planBudget = plan?.monthlyApolloCredits ?? APOLLO_CONFIG.tierCreditBudgets[user.subscriptionTier];
+  const budget = (user.apolloCreditLimit ?? planBudget) + topUps;
+  return {
+    budget,
+    planBudget,
+    userLimit: user.apolloCreditLimit,
+    topUps,
+    used: usage.totalCreditsUsed,
+    remaining: Math.max(0, budget - usage.totalCreditsUsed),
+  };
+}
+
+/**
+ * Throw before an Apollo call when the user has no credits left
+ * A call can overshoot the budget by what it costs; the next one is refused
+ */
+export async function assertApolloCreditsAvailable(userId: number): Promise<void> {
+  let balance: ApolloCreditBalance;
+  try {
+    const user = await getUserById(userId);
+    if (!user) return;
+    balance = await getApolloCreditBalance(user);
+  } catch (error) {
+    // Without usage records we can't tell what's been spent, so don't block on it
+    console.warn('[Apollo Quota] Could not check credit budget:', error);
+    return;
+  }
+
+  if (balance.remaining <= 0) {
+    throw new Error(APOLLO_BUDGET_EXHAUSTED_MESSAGE);
+  }
+}
+
+/**
+ * Top up a user's budget for the current month
+ */
+export async function grantApolloCredits(adminId: number, userId: number, credits: number, reason?: string) {
+  const user = await getUserById(userId);
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  await createApolloCreditGrant({ userId, credits, reason: reason || null, grantedBy: adminId });
+  console.log(`[Apollo Quota] Admin ${adminId} granted ${credits} credits to user ${userId}`);
+  return getApolloCreditBalance(user);
+}
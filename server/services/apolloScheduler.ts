@@ -0,0 +1,157 @@
+/**
+ * Apollo.io Request Scheduler
+ *
+ * Every Apollo call goes through one shared queue so the plan's per-second, per-minute and
+ * per-hour limits hold across all users. Rate limited (429) and server (5xx) errors are retried
+ * with exponential backoff and jitter, honoring Retry-After; excess requests wait their turn
+ * instead of failing.
+ */
+
+import { APOLLO_CONFIG } from '../apollo-config';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+export type ApolloRateLimits = typeof APOLLO_CONFIG.rateLimits;
+export type ApolloRetryPolicy = typeof APOLLO_CONFIG.retry;
+
+interface QueuedRequest {
+  send: () => Promise<Response>;
+  resolve: (response: Response) => void;
+  reject: (error: unknown) => void;
+  attempt: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function isRetryable(status: number) {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Milliseconds a Retry-After header asks us to wait (delta seconds or an HTTP date), if it's usable
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (header.trim() !== '' && Number.isFinite(seconds)) return Math.max(0, seconds * SECOND);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+export class ApolloRequestScheduler {
+  private queue: QueuedRequest[] = [];
+  private sentAt: number[] = []; // Start times of requests in the last hour, oldest first
+  private pausedUntil = 0; // Set by a 429 so no request goes out before Apollo's Retry-After
+  private draining = false;
+
+  constructor(
+    private readonly limits: ApolloRateLimits = APOLLO_CONFIG.rateLimits,
+    private readonly retry: ApolloRetryPolicy = APOLLO_CONFIG.retry
+  ) {}
+
+  /** Requests waiting for a free slot */
+  get queued() {
+    return this.queue.length;
+  }
+
+  /**
+   * Queue a request; resolves with the final response once any retries are used up.
+   * Non-retryable error responses are returned as they are, for the caller to handle
+   */
+  schedule(send: () => Promise<Response>): Promise<Response> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ send, resolve, reject, attempt: 0 });
+      void this.drain();
+    });
+  }
+
+  /**
+   * How long until the next request may start without breaking any limit
+   */
+  private waitTime(now: number) {
+    this.sentAt = this.sentAt.filter(time => time > now - HOUR);
+
+    let wait = Math.max(0, this.pausedUntil - now);
+    const last = this.sentAt[this.sentAt.length - 1];
+    if (last !== undefined) {
+      wait = Math.max(wait, last + this.limits.delayBetweenRequests - now);
+    }
+
+    const windows: [number, number][] = [
+      [SECOND, this.limits.requestsPerSecond],
+      [MINUTE, this.limits.requestsPerMinute],
+      [HOUR, this.limits.requestsPerHour],
+    ];
+    for (const [windowMs, limit] of windows) {
+      const inWindow = this.sentAt.filter(time => time > now - windowMs);
+      if (inWindow.length >= limit) {
+        // A slot frees up when the limit-th most recent request leaves the window
+        wait = Math.max(wait, inWindow[inWindow.length - limit] + windowMs - now);
+      }
+    }
+    return wait;
+  }
+
+  private async drain() {
+    if (this.draining) return;
+    this.draining = true;
+
+    try {
+      while (this.queue.length > 0) {
+        const wait = this.waitTime(Date.now());
+        if (wait > 0) {
+          await sleep(wait);
+          continue;
+        }
+        const request = this.queue.shift()!;
+        this.sentAt.push(Date.now());
+        void this.dispatch(request);
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private retryDelay(response: Response, attempt: number) {
+    const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+    if (retryAfter !== null) return retryAfter;
+
+    // Exponential backoff with "equal jitter": half the delay fixed, half random
+    const backoff = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** attempt);
+    return backoff / 2 + Math.random() * (backoff / 2);
+  }
+
+  private async dispatch(request: QueuedRequest) {
+    let response: Response;
+    try {
+      response = await request.send();
+    } catch (error) {
+      request.reject(error);
+      return;
+    }
+
+    if (!isRetryable(response.status) || request.attempt >= this.retry.maxRetries) {
+      request.resolve(response);
+      return;
+    }
+
+    const delay = this.retryDelay(response, request.attempt);
+    if (response.status === 429) {
+      // The limit is per API key, so everyone waits, not just this request
+      this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+    }
+    console.warn(`[Apollo Scheduler] Got ${response.status}, retrying in ${Math.round(delay)}ms (attempt ${request.attempt + 1} of ${this.retry.maxRetries})`);
+    await response.body?.cancel().catch(() => undefined);
+
+    request.attempt++;
+    await sleep(delay);
+    // Retries go to the front so they aren't starved by requests queued meanwhile
+    this.queue.unshift(request);
+    void this.drain();
+  }
+}
+
+/** The scheduler all Apollo calls share */
+export const apolloScheduler = new ApolloRequestScheduler();
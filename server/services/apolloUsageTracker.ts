@@ -4,7 +4,7 @@
  * Tracks API usage, monitors credits, and sends alerts when approaching limits
  */
 
-import { getDb } from '../db';
+import { getDb, getDiscoveryCacheStats } from '../db';
 import { APOLLO_CONFIG, calculateUsagePercentage, getAlertLevel } from '../apollo-config';
 import { sendEmail } from './email';
 import { sql } from 'drizzle-orm';
@@ -277,10 +277,12 @@ async function sendUsageAlert(
 }
 
 /**
- * Get usage summary for dashboard
+ * Get usage summary for dashboard, including how much the discovery cache saved this month
  */
 export async function getUsageSummary(userId: number) {
   const monthlyUsage = await getMonthlyUsage(userId);
+  const now = new Date();
+  const cacheStats = await getDiscoveryCacheStats(userId, 'apollo', new Date(now.getFullYear(), now.getMonth(), 1));
   const usagePercent = calculateUsagePercentage(
     monthlyUsage.totalCreditsUsed,
     APOLLO_CONFIG.monthlyLimits.totalCredits
@@ -293,5 +295,9 @@ export async function getUsageSummary(userId: number) {
     alertLevel,
     remainingCredits: APOLLO_CONFIG.monthlyLimits.totalCredits - monthlyUsage.totalCreditsUsed,
     limit: APOLLO_CONFIG.monthlyLimits.totalCredits,
+    cache: {
+      ...cacheStats,
+      hitRate: cacheStats.lookups > 0 ? (cacheStats.hits / cacheStats.lookups) * 100 : 0,
+    },
   };
 }
@@ -0,0 +1,446 @@
+/**
+ * Bulk Operations Service
+ * Runs one action over many leads in the background: changing status, deleting, tagging,
+ * enrolling in a sequence, reassigning, rescoring or exporting. Each operation records
+ * what it did to every lead, so progress and failures can be shown and the whole
+ * operation undone for a short while after it finishes
+ */
+
+import {
+  addBulkOperationLeads,
+  addLeadTags,
+  claimBulkOperationUndo,
+  createBulkOperation,
+  deleteLead,
+  deleteSequenceEnrollments,
+  getBulkOperationById,
+  getBulkOperationLeads,
+  getFilteredLeadIds,
+  getLeadById,
+  getLeadContacts,
+  getLeadEngagementCounts,
+  getLeadStatusHistory,
+  getLeadTechnologies,
+  getOwnedLeadIds,
+  getOwnedLeads,
+  getSequenceEnrolledLeadIds,
+  getSequencesByUser,
+  getTagsForLeads,
+  getUserBulkOperations,
+  getUserByEmail,
+  getUserTags,
+  isTeammate,
+  removeLeadTags,
+  restoreDeletedLead,
+  setLeadsOwner,
+  updateBulkOperation,
+  updateLead,
+  updateLeadScore,
+} from "../db";
+import type { BulkOperation, BulkOperationLead, Lead, LeadContact, LeadStatusChange } from "../../drizzle/schema";
+import { MAX_BULK_OPERATION_LEADS, type BulkLeadAction, type BulkLeadTarget } from "../leadValidation";
+import { calculateLeadScore } from "../leadScoring";
+import { getScoringModel } from "./scoringModel";
+import { recordStatusChange } from "./workflowAutomation";
+import { enrollLeadInSequence } from "./sequenceEnrollment";
+import { createLeadExportToken, getLeadExportFileName } from "./leadExport";
+import { getUserCustomFields } from "./customFields";
+
+/** Leads processed between progress updates */
+export const BULK_CHUNK_SIZE = 100;
+
+/** How long after finishing an operation can be undone */
+export const BULK_UNDO_WINDOW_MS = 10 * 60 * 1000;
+
+/** What each action saves per lead to reverse its change */
+interface BulkUndoData {
+  status: { status: Lead["status"] };
+  delete: { lead: Lead; tagIds: number[]; statusHistory: LeadStatusChange[]; contacts?: LeadContact[] };
+  tag: { tagIds: number[] };
+  enroll: { enrollmentId: number };
+  assignOwner: { tagIds: number[] };
+  recalculateScore: { score: number; newScore: number };
+  export: never;
+}
+
+/**
+ * The action as stored on the operation; reassignments keep the resolved owner
+ * so undo doesn't depend on the email still pointing at the same user
+ */
+type StoredAction = BulkLeadAction & { ownerId?: number };
+
+type LeadOutcome<UndoData> =
+  | { outcome: "succeeded"; undoData?: UndoData }
+  | { outcome: "skipped"; error: string };
+
+interface BulkActionHandler<UndoData> {
+  apply(lead: Lead): Promise<LeadOutcome<UndoData>>;
+  /** Reverse one lead's change; false when the lead has changed since and is left alone */
+  undo?(leadId: number, undoData: UndoData): Promise<boolean>;
+}
+
+type AnyBulkActionHandler = { [Type in keyof BulkUndoData]: BulkActionHandler<BulkUndoData[Type]> }[keyof BulkUndoData];
+
+/**
+ * Check the action's inputs before anything runs, so mistakes fail the request
+ * instead of every lead
+ */
+async function resolveAction(userId: number, action: BulkLeadAction): Promise<StoredAction> {
+  switch (action.type) {
+    case "tag": {
+      const userTags = await getUserTags(userId);
+      const tagIds = Array.from(new Set(action.tagIds));
+      if (tagIds.some(id => !userTags.some(tag => tag.id === id))) throw new Error("Tag not found");
+      return { ...action, tagIds };
+    }
+    case "enroll": {
+      const sequences = await getSequencesByUser(userId);
+      if (!sequences.some(sequence => sequence.id === action.sequenceId)) throw new Error("Sequence not found");
+      return action;
+    }
+    case "assignOwner": {
+      const owner = await getUserByEmail(action.email.trim());
+      if (!owner) throw new Error(`No user with the email ${action.email}`);
+      if (owner.id === userId) throw new Error("These leads are already yours");
+      // Leads only go to people the user already works with, never to any address typed in
+      if (owner.role !== "admin" && !(await isTeammate(userId, owner.id))) {
+        throw new Error("Leads can only be assigned to a teammate you share a view with, or to an admin");
+      }
+      return { ...action, ownerId: owner.id };
+    }
+    default:
+      return action;
+  }
+}
+
+function createHandler(userId: number, operationId: number, action: StoredAction): AnyBulkActionHandler {
+  switch (action.type) {
+    case "status":
+      return {
+        async apply(lead) {
+          if (lead.status === action.status) return { outcome: "skipped", error: `Already ${action.status}` };
+          await updateLead(lead.id, userId, { status: action.status });
+          await recordStatusChange({
+            leadId: lead.id,
+            userId,
+            previousStatus: lead.status,
+            newStatus: action.status,
+            changeReason: "manual_update",
+            triggeredBy: "user",
+            metadata: { bulkOperationId: operationId },
+          });
+          return { outcome: "succeeded", undoData: { status: lead.status } };
+        },
+        async undo(leadId, undoData) {
+          const lead = await getLeadById(leadId, userId);
+          if (!lead || lead.status !== action.status) return false;
+          await updateLead(leadId, userId, { status: undoData.status });
+          await recordStatusChange({
+            leadId,
+            userId,
+            previousStatus: lead.status,
+            newStatus: undoData.status,
+            changeReason: "manual_update",
+            triggeredBy: "user",
+            metadata: { bulkOperationId: operationId, undo: true },
+          });
+          return true;
+        },
+      } satisfies BulkActionHandler<BulkUndoData["status"]>;
+
+    case "delete":
+      return {
+        async apply(lead) {
+          const tagIds = ((await getTagsForLeads([lead.id])).get(lead.id) ?? []).map(tag => tag.id);
+          const statusHistory = await getLeadStatusHistory(lead.id);
+          const contacts = await getLeadContacts(lead.id);
+          await deleteLead(lead.id, userId);
+          return { outcome: "succeeded", undoData: { lead, tagIds, statusHistory, contacts } };
+        },
+        async undo(leadId, undoData) {
+          if ((await getOwnedLeadIds(userId, [leadId])).length > 0) return false;
+          await restoreDeletedLead(undoData);
+          return true;
+        },
+      } satisfies BulkActionHandler<BulkUndoData["delete"]>;
+
+    case "tag":
+      return {
+        async apply(lead) {
+          const current = ((await getTagsForLeads([lead.id])).get(lead.id) ?? []).map(tag => tag.id);
+          const changed = action.mode === "add"
+            ? action.tagIds.filter(id => !current.includes(id))
+            : action.tagIds.filter(id => current.includes(id));
+          if (changed.length === 0) {
+            return { outcome: "skipped", error: action.mode === "add" ? "Already has these tags" : "Has none of these tags" };
+          }
+
+          if (action.mode === "add") {
+            await addLeadTags(changed.map(tagId => ({ leadId: lead.id, tagId })));
+          } else {
+            await removeLeadTags([lead.id], changed);
+          }
+          return { outcome: "succeeded", undoData: { tagIds: changed } };
+        },
+        async undo(leadId, undoData) {
+          if (action.mode === "add") {
+            await removeLeadTags([leadId], undoData.tagIds);
+          } else {
+            // Tags deleted since stay gone
+            const userTags = await getUserTags(userId);
+            const tagIds = undoData.tagIds.filter(id => userTags.some(tag => tag.id === id));
+            await addLeadTags(tagIds.map(tagId => ({ leadId, tagId })));
+          }
+          return true;
+        },
+      } satisfies BulkActionHandler<BulkUndoData["tag"]>;
+
+    case "enroll":
+      return {
+        async apply(lead) {
+          const enrolled = await getSequenceEnrolledLeadIds(action.sequenceId, [lead.id]);
+          if (enrolled.length > 0) return { outcome: "skipped", error: "Already enrolled in this sequence" };
+          const enrollmentId = await enrollLeadInSequence(action.sequenceId, lead.id);
+          return { outcome: "succeeded", undoData: { enrollmentId } };
+        },
+        async undo(_leadId, undoData) {
+          return (await deleteSequenceEnrollments([undoData.enrollmentId])) > 0;
+        },
+      } satisfies BulkActionHandler<BulkUndoData["enroll"]>;
+
+    case "assignOwner": {
+      const ownerId = action.ownerId!;
+      return {
+        async apply(lead) {
+          // Tags belong to the previous owner, so their links go with the handover
+          const tagIds = ((await getTagsForLeads([lead.id])).get(lead.id) ?? []).map(tag => tag.id);
+          await removeLeadTags([lead.id], tagIds);
+          await setLeadsOwner([lead.id], userId, ownerId);
+          return { outcome: "succeeded", undoData: { tagIds } };
+        },
+        async undo(leadId, undoData) {
+          if ((await setLeadsOwner([leadId], ownerId, userId)) === 0) return false;
+          const userTags = await getUserTags(userId);
+          const tagIds = undoData.tagIds.filter(id => userTags.some(tag => tag.id === id));
+          await addLeadTags(tagIds.map(tagId => ({ leadId, tagId })));
+          return true;
+        },
+      } satisfies BulkActionHandler<BulkUndoData["assignOwner"]>;
+    }
+
+    case "recalculateScore": {
+      // Loaded once per operation, so every lead is scored with the same model
+      const model = getScoringModel(userId);
+      return {
+        async apply(lead) {
+          const { opens, clicks } = (await getLeadEngagementCounts([lead.id])).get(lead.id)!;
+          const { score } = calculateLeadScore(lead, opens, clicks, await getLeadContacts(lead.id), await getLeadTechnologies(lead.id), await model);
+          if (score === lead.score) return { outcome: "skipped", error: "Score unchanged" };
+          await updateLeadScore(lead.id, score);
+          return { outcome: "succeeded", undoData: { score: lead.score ?? 0, newScore: score } };
+        },
+        async undo(leadId, undoData) {
+          const lead = await getLeadById(leadId, userId);
+          if (!lead || lead.score !== undoData.newScore) return false;
+          await updateLeadScore(leadId, undoData.score);
+          return true;
+        },
+      } satisfies BulkActionHandler<BulkUndoData["recalculateScore"]>;
+    }
+
+    case "export":
+      // Nothing changes; the processed leads make up the download
+      return {
+        async apply() {
+          return { outcome: "succeeded" };
+        },
+      } satisfies BulkActionHandler<BulkUndoData["export"]>;
+  }
+}
+
+function parseAction(operation: BulkOperation): StoredAction {
+  return JSON.parse(operation.params);
+}
+
+function errorMessage(error: unknown) {
+  return (error instanceof Error ? error.message : String(error)).slice(0, 500);
+}
+
+/**
+ * Resolve the leads a target covers, checking every picked lead is the user's
+ */
+async function resolveTarget(userId: number, target: BulkLeadTarget): Promise<number[]> {
+  if ("leadIds" in target) {
+    const leadIds = Array.from(new Set(target.leadIds));
+    const owned = await getOwnedLeadIds(userId, leadIds);
+    if (owned.length !== leadIds.length) throw new Error("Lead not found or access denied");
+    return leadIds;
+  }
+  return await getFilteredLeadIds(userId, target.filters, MAX_BULK_OPERATION_LEADS, await getUserCustomFields(userId));
+}
+
+/**
+ * Start a bulk operation; it runs in the background while the caller polls its progress
+ */
+export async function startBulkOperation(userId: number, target: BulkLeadTarget, action: BulkLeadAction) {
+  const leadIds = await resolveTarget(userId, target);
+  if (leadIds.length === 0) throw new Error("No leads match");
+  return await startBulkOperationOnLeads(userId, leadIds, action);
+}
+
+/**
+ * Start a bulk operation over leads already known to be the user's, without the cap on
+ * how many a target can cover; for callers that page through the leads themselves
+ */
+export async function startBulkOperationOnLeads(userId: number, leadIds: number[], action: BulkLeadAction) {
+  const stored = await resolveAction(userId, action);
+
+  const id = await createBulkOperation({
+    userId,
+    action: action.type,
+    params: JSON.stringify(stored),
+    totalCount: leadIds.length,
+  });
+
+  void runBulkOperation(id, userId, stored, leadIds);
+  return { id, totalCount: leadIds.length };
+}
+
+/**
+ * Apply the action lead by lead, saving outcomes and progress after each chunk
+ */
+export async function runBulkOperation(id: number, userId: number, action: StoredAction, leadIds: number[]) {
+  const handler = createHandler(userId, id, action);
+  let succeeded = 0;
+
+  try {
+    await updateBulkOperation(id, { status: "running" });
+
+    for (let start = 0; start < leadIds.length; start += BULK_CHUNK_SIZE) {
+      const chunk = leadIds.slice(start, start + BULK_CHUNK_SIZE);
+      const leadsById = new Map((await getOwnedLeads(userId, chunk)).map(lead => [lead.id, lead]));
+      const rows = [];
+
+      for (const leadId of chunk) {
+        const lead = leadsById.get(leadId);
+        if (!lead) {
+          // Deleted or handed over since the operation started
+          rows.push({ leadId, outcome: "failed" as const, error: "Lead not found or access denied" });
+          continue;
+        }
+        try {
+          const result = await handler.apply(lead);
+          if (result.outcome === "succeeded") {
+            succeeded++;
+            rows.push({ leadId, outcome: result.outcome, undoData: result.undoData === undefined ? null : JSON.stringify(result.undoData) });
+          } else {
+            rows.push({ leadId, outcome: result.outcome, error: result.error });
+          }
+        } catch (error) {
+          rows.push({ leadId, outcome: "failed" as const, error: errorMessage(error) });
+        }
+      }
+
+      await addBulkOperationLeads(id, rows);
+    }
+
+    const completedAt = new Date();
+    await updateBulkOperation(id, {
+      status: "completed",
+      completedAt,
+      undoExpiresAt: handler.undo && succeeded > 0 ? new Date(completedAt.getTime() + BULK_UNDO_WINDOW_MS) : null,
+    });
+  } catch (error) {
+    console.error(`[BulkOperations] Operation ${id} failed:`, error);
+    try {
+      await updateBulkOperation(id, { status: "failed", error: errorMessage(error), completedAt: new Date() });
+    } catch (updateError) {
+      console.error(`[BulkOperations] Could not record failure of operation ${id}:`, updateError);
+    }
+  }
+}
+
+export function canUndo(operation: BulkOperation, now: Date = new Date()) {
+  return operation.status === "completed" && !!operation.undoExpiresAt && operation.undoExpiresAt > now;
+}
+
+function toSummary(operation: BulkOperation) {
+  return { ...operation, params: parseAction(operation), canUndo: canUndo(operation) };
+}
+
+export type BulkOperationSummary = ReturnType<typeof toSummary>;
+
+async function requireOperation(userId: number, id: number) {
+  const operation = await getBulkOperationById(id);
+  if (!operation || operation.userId !== userId) throw new Error("Bulk operation not found");
+  return operation;
+}
+
+export async function getBulkOperation(userId: number, id: number) {
+  return toSummary(await requireOperation(userId, id));
+}
+
+export async function listBulkOperations(userId: number, limit = 20) {
+  return (await getUserBulkOperations(userId, limit)).map(toSummary);
+}
+
+/**
+ * Leads the operation couldn't process, with why
+ */
+export async function getBulkOperationFailures(userId: number, id: number) {
+  await requireOperation(userId, id);
+  const failed = await getBulkOperationLeads(id, "failed");
+  const companies = new Map((await getOwnedLeads(userId, failed.map(row => row.leadId))).map(lead => [lead.id, lead.companyName]));
+  return failed.map(row => ({ leadId: row.leadId, companyName: companies.get(row.leadId) ?? null, error: row.error }));
+}
+
+/**
+ * Reverse a finished operation within its undo window
+ * Leads changed again since are left as they are
+ */
+export async function undoBulkOperation(userId: number, id: number) {
+  const operation = await requireOperation(userId, id);
+  if (!canUndo(operation)) throw new Error("This operation can no longer be undone");
+
+  // Undo data was saved by this same action's handler, so it has the shape the handler expects
+  const handler: BulkActionHandler<unknown> = createHandler(userId, id, parseAction(operation));
+  if (!handler.undo) throw new Error("This operation can't be undone");
+
+  // Claim the undo first so a second click, or a concurrent request, can't run it twice
+  if (!(await claimBulkOperationUndo(id, new Date()))) throw new Error("This operation can no longer be undone");
+
+  const rows: BulkOperationLead[] = await getBulkOperationLeads(id, "succeeded");
+  let restored = 0;
+  let unchanged = 0;
+  for (const row of rows) {
+    try {
+      const undone = await handler.undo(row.leadId, row.undoData ? JSON.parse(row.undoData) : null);
+      if (undone) restored++;
+      else unchanged++;
+    } catch (error) {
+      console.error(`[BulkOperations] Could not undo operation ${id} for lead ${row.leadId}:`, error);
+      unchanged++;
+    }
+  }
+  return { restored, unchanged };
+}
+
+/**
+ * Download link for the leads a finished export operation covered
+ */
+export async function getBulkExportDownload(userId: number, id: number) {
+  const operation = await requireOperation(userId, id);
+  const action = parseAction(operation);
+  if (action.type !== "export") throw new Error("Only export operations have a download");
+  if (operation.status !== "completed") throw new Error("The export hasn't finished yet");
+
+  const token = createLeadExportToken(userId, {
+    format: action.format,
+    columns: action.columns,
+    filters: { sortBy: "recent", bulkOperationId: id },
+  });
+  return {
+    downloadUrl: `/api/leads/export?token=${encodeURIComponent(token)}`,
+    fileName: getLeadExportFileName(action.format),
+  };
+}
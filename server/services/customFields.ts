@@ -0,0 +1,191 @@
+/**
+ * Custom Fields Service
+ * Manages user-defined lead field definitions and validates the values
+ * written to leads.customFields against them
+ */
+
+import {
+  createCustomFieldDefinition,
+  getCustomFieldDefinitions,
+  updateCustomFieldDefinition,
+} from "../db";
+import {
+  FIELD_KEY_PATTERN,
+  normalizeCustomFieldValue,
+  parseCustomFieldValues,
+  toFieldKey,
+  type CustomFieldDefinition,
+  type CustomFieldType,
+  type CustomFieldValues,
+} from "../../shared/customFields";
+import type { CustomFieldDefinitionRow } from "../../drizzle/schema";
+
+export interface CustomFieldDefinitionInput {
+  label: string;
+  fieldType: CustomFieldType;
+  options?: string[];
+  currency?: string;
+}
+
+/**
+ * Convert a stored definition row to the shape used by the app
+ */
+export function toCustomFieldDefinition(row: CustomFieldDefinitionRow): CustomFieldDefinition {
+  let options: string[] = [];
+  if (row.options) {
+    try {
+      const parsed = JSON.parse(row.options);
+      if (Array.isArray(parsed)) options = parsed.map(String);
+    } catch {
+      // Treat malformed options as none
+    }
+  }
+
+  return {
+    id: row.id,
+    fieldKey: row.fieldKey,
+    label: row.label,
+    fieldType: row.fieldType,
+    options,
+    currency: row.currency,
+    position: row.position,
+  };
+}
+
+export async function getUserCustomFields(userId: number): Promise<CustomFieldDefinition[]> {
+  const rows = await getCustomFieldDefinitions(userId);
+  return rows.map(toCustomFieldDefinition);
+}
+
+/**
+ * Check a definition's options and currency for its type
+ */
+function validateDefinitionSettings(fieldType: CustomFieldType, options: string[] | undefined, currency: string | undefined) {
+  const cleanedOptions = Array.from(new Set((options || []).map(o => o.trim()).filter(Boolean)));
+  const isSelect = fieldType === "single_select" || fieldType === "multi_select";
+
+  if (isSelect && cleanedOptions.length === 0) {
+    throw new Error("Select fields need at least one option");
+  }
+  if (isSelect && cleanedOptions.some(option => option.includes(",") || option.includes(";"))) {
+    throw new Error("Options cannot contain commas or semicolons");
+  }
+
+  const currencyCode = fieldType === "currency" ? (currency || "USD").trim().toUpperCase() : null;
+  if (currencyCode && !/^[A-Z]{3}$/.test(currencyCode)) {
+    throw new Error("Currency must be a 3-letter code such as USD");
+  }
+
+  return {
+    options: isSelect ? JSON.stringify(cleanedOptions) : null,
+    currency: currencyCode,
+  };
+}
+
+/**
+ * Create a custom field with a key derived from its label
+ */
+export async function createCustomField(userId: number, input: CustomFieldDefinitionInput) {
+  const label = input.label.trim();
+  if (!label) throw new Error("Field name is required");
+
+  const existing = await getCustomFieldDefinitions(userId);
+  if (existing.some(field => field.label.toLowerCase() === label.toLowerCase())) {
+    throw new Error(`A field named "${label}" already exists`);
+  }
+
+  // Keys must stay unique even if a field was renamed to free up a label
+  const baseKey = toFieldKey(label);
+  let fieldKey = baseKey;
+  for (let i = 2; existing.some(field => field.fieldKey === fieldKey); i++) {
+    fieldKey = `${baseKey.slice(0, 60)}_${i}`;
+  }
+  if (!FIELD_KEY_PATTERN.test(fieldKey)) {
+    throw new Error("Field name must contain letters or numbers");
+  }
+
+  const settings = validateDefinitionSettings(input.fieldType, input.options, input.currency);
+  const position = existing.reduce((max, field) => Math.max(max, field.position + 1), 0);
+
+  await createCustomFieldDefinition({
+    userId,
+    fieldKey,
+    label,
+    fieldType: input.fieldType,
+    position,
+    ...settings,
+  });
+
+  return { fieldKey };
+}
+
+/**
+ * Rename a field or change its options; the type and key are fixed once values exist
+ */
+export async function updateCustomField(
+  userId: number,
+  id: number,
+  input: { label?: string; options?: string[]; currency?: string; position?: number }
+) {
+  const existing = await getCustomFieldDefinitions(userId);
+  const field = existing.find(f => f.id === id);
+  if (!field) throw new Error("Custom field not found");
+
+  const label = input.label?.trim();
+  if (label !== undefined) {
+    if (!label) throw new Error("Field name is required");
+    if (existing.some(f => f.id !== id && f.label.toLowerCase() === label.toLowerCase())) {
+      throw new Error(`A field named "${label}" already exists`);
+    }
+  }
+
+  const current = toCustomFieldDefinition(field);
+  const settings = validateDefinitionSettings(
+    field.fieldType,
+    input.options ?? current.options,
+    input.currency ?? current.currency ?? undefined
+  );
+
+  await updateCustomFieldDefinition(id, userId, {
+    ...(label !== undefined ? { label } : {}),
+    ...(input.position !== undefined ? { position: input.position } : {}),
+    ...settings,
+  });
+}
+
+/**
+ * Validate custom field values from a create/update request and merge them into
+ * the lead's existing values. Null or blank values clear a field.
+ * Returns the JSON to store in leads.customFields
+ */
+export function resolveCustomFieldValues(
+  definitions: CustomFieldDefinition[],
+  input: Record<string, unknown>,
+  existingJson?: string | null
+): string | null {
+  const values: CustomFieldValues = { ...parseCustomFieldValues(existingJson) };
+  const errors: string[] = [];
+
+  for (const [key, raw] of Object.entries(input)) {
+    const definition = definitions.find(d => d.fieldKey === key);
+    if (!definition) {
+      errors.push(`Unknown custom field "${key}"`);
+      continue;
+    }
+
+    const result = normalizeCustomFieldValue(definition, raw);
+    if (!result.ok) {
+      errors.push(`${definition.label}: ${result.error}`);
+    } else if (result.value === null) {
+      delete values[key];
+    } else {
+      values[key] = result.value;
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(errors.join("; "));
+  }
+
+  return Object.keys(values).length > 0 ? JSON.stringify(values) : null;
+}
@@ -0,0 +1,112 @@
+/**
+ * Discovery Cache Service
+ * Keeps each lead source's page of results for a search so the same (or a near identical)
+ * search doesn't spend Apollo credits again until the cached copy expires. Entries are kept
+ * per user: results paid for out of one user's credit budget, with the decision makers'
+ * emails found for them, are never served to another user
+ */
+
+import crypto from "crypto";
+import { getDiscoveryCacheEntry, recordDiscoveryCacheLookup, saveDiscoveryCacheEntry } from "../db";
+import type { LeadSource, LeadSourcePage, LeadSourceQuery } from "./leadSources";
+import type { ParsedSearchFilters } from "../../shared/discovery";
+
+export const DEFAULT_DISCOVERY_CACHE_TTL_HOURS = 24;
+
+/**
+ * How long cached results stay fresh, from DISCOVERY_CACHE_TTL_HOURS (0 turns the cache off)
+ */
+export function getDiscoveryCacheTtlMs() {
+  const hours = Number(process.env.DISCOVERY_CACHE_TTL_HOURS ?? DEFAULT_DISCOVERY_CACHE_TTL_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 * 1000 : 0;
+}
+
+/**
+ * Lowercase, drop punctuation and collapse whitespace, so "SaaS companies, Austin"
+ * and "saas companies austin" share a cache entry
+ */
+export function normalizeDiscoveryText(value: string | undefined) {
+  return (value ?? "").toLowerCase().replace(/[^a-z0-9+]+/g, " ").trim();
+}
+
+function normalizeParsedFilters(filters: ParsedSearchFilters) {
+  const normalize = (values: string[]) => values.map(normalizeDiscoveryText).sort();
+  return {
+    industries: normalize(filters.industries),
+    keywords: normalize(filters.keywords),
+    employeeRanges: [...filters.employeeRanges].sort(),
+    locations: normalize(filters.locations),
+    technologies: normalize(filters.technologies),
+  };
+}
+
+export function discoveryCacheKey(sourceId: string, userId: number, query: LeadSourceQuery) {
+  const normalized = {
+    source: sourceId,
+    userId,
+    query: normalizeDiscoveryText(query.query),
+    industry: normalizeDiscoveryText(query.industry),
+    companySize: normalizeDiscoveryText(query.companySize),
+    location: normalizeDiscoveryText(query.location),
+    page: query.page,
+    perPage: query.perPage,
+    excludeCompanies: (query.excludeCompanies ?? []).map(normalizeDiscoveryText).sort(),
+    ...(query.parsedFilters && { parsedFilters: normalizeParsedFilters(query.parsedFilters) }),
+  };
+  return crypto.createHash("sha256").update(JSON.stringify(normalized)).digest("hex");
+}
+
+export interface CachedSourcePage extends LeadSourcePage {
+  cachedAt: Date | null; // When the results were fetched, for pages served from the cache
+}
+
+/**
+ * Search a source through the cache
+ * A hit costs nothing and is recorded with the credits it saved. forceRefresh skips the
+ * lookup but still stores the fresh results. Cache failures never fail the search
+ */
+export async function searchWithCache(
+  source: LeadSource,
+  userId: number,
+  query: LeadSourceQuery,
+  forceRefresh: boolean,
+  search: () => Promise<LeadSourcePage>
+): Promise<CachedSourcePage> {
+  const ttl = getDiscoveryCacheTtlMs();
+  if (!source.cacheable || ttl === 0) {
+    return { ...await search(), cachedAt: null };
+  }
+
+  const cacheKey = discoveryCacheKey(source.id, userId, query);
+  if (!forceRefresh) {
+    try {
+      const entry = await getDiscoveryCacheEntry(cacheKey);
+      await recordDiscoveryCacheLookup({
+        userId,
+        source: source.id,
+        hit: entry ? 1 : 0,
+        creditsSaved: entry?.creditsUsed ?? 0,
+      });
+      if (entry) {
+        const page = JSON.parse(entry.results) as LeadSourcePage;
+        return { ...page, creditsUsed: 0, cachedAt: entry.createdAt };
+      }
+    } catch (error) {
+      console.warn(`[Discovery Cache] Lookup for ${source.id} failed, searching instead:`, error);
+    }
+  }
+
+  const page = await search();
+  try {
+    await saveDiscoveryCacheEntry({
+      cacheKey,
+      source: source.id,
+      results: JSON.stringify(page),
+      creditsUsed: page.creditsUsed,
+      expiresAt: new Date(Date.now() + ttl),
+    });
+  } catch (error) {
+    console.warn(`[Discovery Cache] Failed to store ${source.id} results:`, error);
+  }
+  return { ...page, cachedAt: null };
+}
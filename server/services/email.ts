@@ -286,6 +286,71 @@ export async function sendLeadNotificationEmail(
   });
 }
 
+/**
+ * Send a saved search monitor's digest of newly found companies
+ */
+export async function sendSearchMonitorDigestEmail(
+  to: string,
+  userName: string,
+  searchQuery: string,
+  companies: { companyName: string; industry: string; location: string; website: string }[],
+  imported: boolean
+) {
+  const shown = companies.slice(0, 10);
+  const rows = shown.map(company => `
+              <div class="lead-box">
+                <h3>${company.companyName}</h3>
+                ${company.industry ? `<p><strong>Industry:</strong> ${company.industry}</p>` : ""}
+                ${company.location ? `<p><strong>Location:</strong> ${company.location}</p>` : ""}
+                ${company.website ? `<p><strong>Website:</strong> ${company.website}</p>` : ""}
+              </div>`).join("");
+  const more = companies.length - shown.length;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #8b5cf6; color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+          .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+          .lead-box { background: white; padding: 20px; border-radius: 5px; margin: 20px 0; }
+          .button { display: inline-block; padding: 12px 30px; background: #8b5cf6; color: white; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+          .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>🔔 New Matches for Your Saved Search</h1>
+          </div>
+          <div class="content">
+            <p>Hi ${userName},</p>
+            <p>Your saved search "<strong>${searchQuery}</strong>" found ${companies.length} new ${companies.length === 1 ? "company" : "companies"}${imported ? ", already added to your leads" : ""}.</p>
+            ${rows}
+            ${more > 0 ? `<p>...and ${more} more.</p>` : ""}
+            <p style="text-align: center;">
+              <a href="https://lead-discovery-agent.manus.space/${imported ? "leads" : "discover"}" class="button">${imported ? "View Leads" : "Review Matches"}</a>
+            </p>
+            <p>Happy prospecting!<br>The Lead Discovery Team</p>
+          </div>
+          <div class="footer">
+            <p>© 2026 Lead Discovery & Prospecting AI Agent. All rights reserved.</p>
+          </div>
+        </div>
+      </body>
+    </html>
+  `;
+
+  return sendEmail({
+    to,
+    subject: `${companies.length} new ${companies.length === 1 ? "match" : "matches"} for "${searchQuery}"`,
+    html,
+  });
+}
+
 /**
  * Verify Resend API key is valid
  */
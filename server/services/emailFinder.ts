@@ -0,0 +1,279 @@
+/**
+ * Email Finder
+ * Guesses a contact's address from their name and the company's domain, and checks addresses
+ * before mail goes to them: syntax, the domain's mail servers, then asking the mail server about
+ * the mailbox. Checks are kept per address, so one isn't probed again for every lead it's on
+ */
+
+import crypto from "crypto";
+import { getEmailDeliverabilityChecks, getLeadById, saveEmailDeliverabilityChecks, updateLead } from "../db";
+import { normalizeDomain } from "../leadMatching";
+import { getMailResolver, type MailResolver, type SmtpReply } from "./mailResolvers";
+import type { User } from "../../drizzle/schema";
+import type { EmailStatus, EmailVerification } from "../../shared/emailDeliverability";
+
+// Checks are reused for this long; unknown results are always checked again
+const CHECK_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Shared inboxes take mail, but rarely reach the person a rep is writing to
+const ROLE_ACCOUNTS = ["admin", "billing", "careers", "contact", "hello", "help", "info", "jobs", "marketing", "office", "sales", "support", "team"];
+
+// Titles and suffixes left out of a name before building addresses from it
+const NAME_AFFIXES = ["mr", "mrs", "ms", "dr", "prof", "jr", "sr", "ii", "iii", "phd", "md"];
+
+const EMAIL_PATTERN = /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*@([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/i;
+
+// Ways companies build addresses from a name, most common first
+const ADDRESS_PATTERNS: { pattern: string; build: (first: string, last: string) => string | null }[] = [
+  { pattern: "first.last", build: (first, last) => last && `${first}.${last}` },
+  { pattern: "first", build: first => first },
+  { pattern: "firstlast", build: (first, last) => last && `${first}${last}` },
+  { pattern: "flast", build: (first, last) => last && `${first[0]}${last}` },
+  { pattern: "f.last", build: (first, last) => last && `${first[0]}.${last}` },
+  { pattern: "first_last", build: (first, last) => last && `${first}_${last}` },
+  { pattern: "firstl", build: (first, last) => last && `${first}${last[0]}` },
+  { pattern: "last.first", build: (first, last) => last && `${last}.${first}` },
+  { pattern: "last", build: (_first, last) => last || null },
+];
+
+export interface EmailCandidate {
+  email: string;
+  pattern: string; // e.g. "first.last"
+}
+
+export interface EmailCheck extends EmailVerification {
+  mxHost: string | null;
+}
+
+export interface EmailFinderResult {
+  domain: string;
+  candidates: (EmailCandidate & EmailVerification)[];
+  email: string | null; // The best candidate: the first valid one, or the likeliest at a domain that can't be checked
+  status: EmailStatus | null;
+  applied: boolean; // Saved as the lead's contact email
+}
+
+export function isValidEmailSyntax(address: string) {
+  const [local] = address.split("@");
+  return address.length <= 254 && local.length <= 64 && EMAIL_PATTERN.test(address);
+}
+
+function normalizeEmail(address: string) {
+  return address.trim().toLowerCase();
+}
+
+/**
+ * First and last name as addresses spell them: lowercase ASCII letters, without titles or suffixes
+ */
+function nameParts(name: string) {
+  const words = name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, " ")
+    .split(/[\s,]+/)
+    .map(word => word.replace(/[^a-z]/g, ""))
+    .filter(word => word && !NAME_AFFIXES.includes(word));
+  return { first: words[0] ?? "", last: words.length > 1 ? words[words.length - 1] : "" };
+}
+
+/**
+ * Addresses a person might have at a domain, most likely first
+ */
+export function emailCandidates(name: string, domain: string): EmailCandidate[] {
+  const { first, last } = nameParts(name);
+  if (!first) return [];
+
+  const candidates: EmailCandidate[] = [];
+  for (const { pattern, build } of ADDRESS_PATTERNS) {
+    const local = build(first, last);
+    const email = local ? `${local}@${domain.toLowerCase()}` : null;
+    if (email && isValidEmailSyntax(email) && !candidates.some(candidate => candidate.email === email)) {
+      candidates.push({ email, pattern });
+    }
+  }
+  return candidates;
+}
+
+function classifyReply(email: string, reply: SmtpReply, catchAll: boolean): { status: EmailStatus; reason: string } {
+  const answer = `${reply.code} ${reply.message}`.trim();
+  if (reply.code === null) return { status: "unknown", reason: reply.message };
+
+  // 5.7.x is the server refusing us (policy, reputation), which says nothing about the mailbox
+  const mailboxRejected = !/\b5\.7\.\d+\b/.test(reply.message) &&
+    ([550, 551, 553].includes(reply.code) || /\b5\.1\.\d+\b/.test(reply.message));
+  if (reply.code >= 500 && mailboxRejected) return { status: "invalid", reason: `The mail server rejected this mailbox (${answer})` };
+  if (reply.code >= 400) return { status: "unknown", reason: `The mail server wouldn't say (${answer})` };
+
+  if (catchAll) return { status: "risky", reason: "The domain accepts mail for any address, so this mailbox can't be confirmed" };
+  if (ROLE_ACCOUNTS.includes(email.split("@")[0])) return { status: "risky", reason: "A shared inbox rather than a person's" };
+  return { status: "valid", reason: "The mail server accepts this mailbox" };
+}
+
+async function checkDomain(domain: string, emails: string[], resolver: MailResolver, checkedAt: Date): Promise<EmailCheck[]> {
+  const every = (status: EmailStatus, reason: string): EmailCheck[] =>
+    emails.map(email => ({ email, status, reason, mxHost: null, checkedAt }));
+
+  let host: string;
+  try {
+    const records = await resolver.resolveMx(domain);
+    if (records.length === 0) return every("invalid", `${domain} doesn't accept email`);
+    host = records[0].exchange;
+  } catch (error) {
+    console.warn(`[Email Finder] MX lookup for ${domain} failed:`, error instanceof Error ? error.message : error);
+    return every("unknown", "Couldn't look up the domain's mail servers");
+  }
+
+  // An address nobody has: a server that takes it takes everything, and can't vouch for any mailbox
+  const nobody = `verify-${crypto.randomBytes(6).toString("hex")}@${domain}`;
+  const replies = await resolver.probeMailboxes(host, [...emails, nobody]);
+  const nobodyCode = replies[emails.length]?.code ?? null;
+  const catchAll = nobodyCode !== null && nobodyCode >= 200 && nobodyCode < 300;
+
+  return emails.map((email, index) => ({
+    email,
+    ...classifyReply(email, replies[index] ?? { code: null, message: "No answer" }, catchAll),
+    mxHost: host,
+    checkedAt,
+  }));
+}
+
+/**
+ * Check addresses against a mail resolver, one MX lookup and SMTP session per domain
+ */
+export async function checkEmails(addresses: string[], resolver: MailResolver): Promise<EmailCheck[]> {
+  const checkedAt = new Date();
+  const results = new Map<string, EmailCheck>();
+  const byDomain = new Map<string, string[]>();
+
+  for (const email of Array.from(new Set(addresses.map(normalizeEmail)))) {
+    if (!isValidEmailSyntax(email)) {
+      results.set(email, { email, status: "invalid", reason: "Not a valid email address", mxHost: null, checkedAt });
+      continue;
+    }
+    const domain = email.split("@")[1];
+    byDomain.set(domain, [...(byDomain.get(domain) ?? []), email]);
+  }
+
+  for (const domain of Array.from(byDomain.keys())) {
+    for (const check of await checkDomain(domain, byDomain.get(domain)!, resolver, checkedAt)) {
+      results.set(check.email, check);
+    }
+  }
+  return addresses.map(address => results.get(normalizeEmail(address))!);
+}
+
+/**
+ * Verify addresses for a user, reusing recent checks unless asked to refresh them
+ */
+export async function verifyEmails(user: User, addresses: string[], options: { refresh?: boolean } = {}): Promise<EmailVerification[]> {
+  const resolver = getMailResolver(user);
+  const emails = Array.from(new Set(addresses.map(normalizeEmail)));
+
+  const known = new Map<string, EmailVerification>();
+  if (!options.refresh) {
+    try {
+      for (const check of await getEmailDeliverabilityChecks(emails, resolver.id)) {
+        const fresh = Date.now() - new Date(check.checkedAt).getTime() < CHECK_MAX_AGE_MS;
+        if (fresh && check.status !== "unknown") known.set(check.email, check);
+      }
+    } catch (error) {
+      console.warn("[Email Finder] Couldn't read earlier checks, checking again:", error);
+    }
+  }
+
+  const checks = await checkEmails(emails.filter(email => !known.has(email)), resolver);
+  for (const check of checks) known.set(check.email, check);
+  try {
+    await saveEmailDeliverabilityChecks(checks.map(({ email, status, reason, mxHost, checkedAt }) => ({
+      email,
+      resolver: resolver.id,
+      status,
+      reason: reason.slice(0, 255),
+      mxHost,
+      checkedAt,
+    })));
+  } catch (error) {
+    console.warn("[Email Finder] Failed to store checks:", error);
+  }
+
+  return addresses.map(address => {
+    const { email, status, reason, checkedAt } = known.get(normalizeEmail(address))!;
+    return { email, status, reason, checkedAt };
+  });
+}
+
+/**
+ * Attach each lead's last contact email check, without checking anything new
+ */
+export async function withEmailVerifications<T extends { contactEmail: string | null }>(
+  user: User,
+  leads: T[]
+): Promise<(T & { emailVerification: EmailVerification | null })[]> {
+  const emails = leads.map(lead => lead.contactEmail && normalizeEmail(lead.contactEmail)).filter((email): email is string => !!email);
+  const checks = await getEmailDeliverabilityChecks(Array.from(new Set(emails)), getMailResolver(user).id);
+  return leads.map(lead => {
+    const check = lead.contactEmail ? checks.find(c => c.email === normalizeEmail(lead.contactEmail!)) : undefined;
+    return {
+      ...lead,
+      emailVerification: check ? { email: check.email, status: check.status, reason: check.reason, checkedAt: check.checkedAt } : null,
+    };
+  });
+}
+
+/**
+ * Check a lead's contact email again
+ */
+export async function verifyLeadEmail(user: User, leadId: number): Promise<EmailVerification> {
+  const lead = await getLeadById(leadId, user.id);
+  if (!lead) throw new Error("Lead not found");
+  if (!lead.contactEmail?.trim()) throw new Error("This lead has no contact email to verify");
+
+  const [verification] = await verifyEmails(user, [lead.contactEmail], { refresh: true });
+  return verification;
+}
+
+/**
+ * Find a contact's address at the lead's domain: the lead's primary contact, or someone else by name
+ * When the primary contact has no usable address yet, the best one found becomes theirs
+ */
+export async function findContactEmail(user: User, leadId: number, name?: string): Promise<EmailFinderResult> {
+  const lead = await getLeadById(leadId, user.id);
+  if (!lead) throw new Error("Lead not found");
+
+  const personName = name?.trim() || lead.contactName?.trim();
+  if (!personName) throw new Error("Add the contact's name to find their email");
+  const domain = normalizeDomain(lead.website) ?? normalizeDomain(lead.contactEmail);
+  if (!domain) throw new Error("Add the company's website to find emails at its domain");
+
+  const candidates = emailCandidates(personName, domain);
+  if (candidates.length === 0) throw new Error("Couldn't make any addresses from that name");
+
+  const verifications = await verifyEmails(user, candidates.map(candidate => candidate.email));
+  const checked = candidates.map((candidate, index) => ({ ...candidate, ...verifications[index] }));
+  const best = checked.find(candidate => candidate.status === "valid") ?? checked.find(candidate => candidate.status === "risky");
+
+  // Only the primary contact's address is filled in, and only when it's missing or known to bounce
+  let applied = false;
+  const forPrimaryContact = !name?.trim() || name.trim().toLowerCase() === lead.contactName?.trim().toLowerCase();
+  if (best && forPrimaryContact && best.email !== lead.contactEmail?.toLowerCase()) {
+    const [current] = lead.contactEmail ? await verifyEmails(user, [lead.contactEmail]) : [];
+    if (!current || current.status === "invalid") {
+      await updateLead(lead.id, user.id, { contactEmail: best.email });
+      applied = true;
+    }
+  }
+
+  return { domain, candidates: checked, email: best?.email ?? null, status: best?.status ?? null, applied };
+}
+
+/**
+ * Refuse to send to an address known not to receive mail, checking it first if it never has been
+ */
+export async function assertDeliverable(user: User, address: string): Promise<EmailVerification> {
+  const [verification] = await verifyEmails(user, [address]);
+  if (verification.status === "invalid") {
+    throw new Error(`Not sent: ${address} can't receive email. ${verification.reason}`);
+  }
+  return verification;
+}
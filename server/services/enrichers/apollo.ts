@@ -0,0 +1,54 @@
+/**
+ * Apollo.io enricher
+ * Organization enrichment by the lead's domain: firmographics, social profiles and technologies.
+ * Spends an Apollo credit per company found, so it only runs on demand
+ */
+
+import { enrichOrganization } from "../../apollo";
+import { normalizeDomain } from "../../leadMatching";
+import type { Enricher, EnrichmentFact } from "./types";
+
+export const apolloEnricher: Enricher = {
+  id: "apollo",
+  label: "Apollo.io",
+  description: "Industry, headcount, location, social profiles and technologies from Apollo's company database",
+  automatic: false,
+
+  unavailableReason(user) {
+    if (!process.env.APOLLO_API_KEY) return "Apollo.io is not configured";
+    if (user.useRealData !== 1) return "Enable \"Use Real Data\" in Account Settings to enrich from Apollo.io";
+    return null;
+  },
+
+  async enrich(lead, context) {
+    const domain = normalizeDomain(lead.website);
+    if (!domain) return [];
+
+    const org = await enrichOrganization(domain, context.user.id);
+    if (!org) return [];
+
+    const facts: EnrichmentFact[] = [];
+    const add = (dataType: EnrichmentFact["dataType"], dataKey: string, value: EnrichmentFact["value"] | null | undefined, confidence: number) => {
+      if (value === null || value === undefined || value === "" || (Array.isArray(value) && value.length === 0)) return;
+      facts.push({ dataType, dataKey, value, confidence });
+    };
+
+    add("firmographic", "name", org.name, 90);
+    add("firmographic", "industry", org.industry, 85);
+    add("firmographic", "employee_count", org.estimated_num_employees, 80);
+    add("firmographic", "location", [org.city, org.state, org.country].filter(Boolean).join(", "), 80);
+    add("firmographic", "description", org.short_description, 75);
+    add("firmographic", "founded_year", org.founded_year, 85);
+    add("social", "linkedin_url", org.linkedin_url, 90);
+    add("social", "twitter_url", org.twitter_url, 85);
+    add("social", "facebook_url", org.facebook_url, 85);
+    add("contact", "phone", org.phone, 75);
+
+    // One fact per technology, like the tech stack detector's
+    const technologies = org.current_technologies ?? (org.technology_names ?? []).map(name => ({ name, category: undefined }));
+    for (const technology of technologies) {
+      add("technology", technology.name, technology.category || "Other", 70);
+    }
+    return facts;
+  },
+};
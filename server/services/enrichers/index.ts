@@ -0,0 +1,32 @@
+/**
+ * Enricher registry
+ */
+
+import type { User } from "../../../drizzle/schema";
+import type { EnricherId } from "../../../shared/enrichment";
+import { apolloEnricher } from "./apollo";
+import { techStackEnricher } from "./techStack";
+import type { Enricher } from "./types";
+import { websiteEnricher } from "./website";
+
+export type { Enricher, EnrichmentContext, EnrichmentFact, WebPage } from "./types";
+export { fetchWebsite } from "./website";
+
+export const ENRICHERS: Record<EnricherId, Enricher> = {
+  website: websiteEnricher,
+  techStack: techStackEnricher,
+  apollo: apolloEnricher,
+};
+
+/**
+ * Every enricher, with whether this user can run it, for the lead detail page
+ */
+export function listEnrichers(user: User) {
+  return Object.values(ENRICHERS).map(enricher => ({
+    id: enricher.id,
+    label: enricher.label,
+    description: enricher.description,
+    automatic: enricher.automatic,
+    unavailableReason: enricher.unavailableReason(user),
+  }));
+}
@@ -0,0 +1,242 @@
+/**
+ * Technology fingerprints
+ * How the tech stack enricher recognizes a technology on a website. Each rule lists the signals
+ * that give it away: response headers, cookies, script URLs, inline script, page markup and meta tags.
+ * Keep patterns specific enough that a mention in page copy doesn't match, and check new rules
+ * against the saved pages in server/__tests__/fixtures/websites
+ */
+
+export interface TechFingerprint {
+  name: string;
+  category: string;
+  /** Lowercased response header name to a pattern its value must match */
+  headers?: Record<string, RegExp>;
+  /** Patterns for the names of cookies the site sets */
+  cookies?: RegExp[];
+  /** Patterns for the src of <script> tags */
+  scriptSrc?: RegExp[];
+  /** Patterns for the contents of inline <script> tags */
+  scripts?: RegExp[];
+  /** Patterns anywhere in the page markup */
+  html?: RegExp[];
+  /** Lowercased meta tag name (or property) to a pattern its content must match */
+  meta?: Record<string, RegExp>;
+  /** Technologies this one runs on, detected alongside it */
+  implies?: string[];
+}
+
+export const TECH_FINGERPRINTS: TechFingerprint[] = [
+  // CRM and marketing automation
+  {
+    name: "HubSpot",
+    category: "Marketing Automation",
+    cookies: [/^hubspotutk$/, /^__hs(tc|sc)$/],
+    scriptSrc: [/js\.hs-scripts\.com\//, /js\.hs-analytics\.net\//, /js\.hsforms\.net\//, /js\.hubspot\.com\//],
+    scripts: [/_hsq\s*=/, /hbspt\.forms\.create/],
+    html: [/<!-- Start of HubSpot Embed Code -->/i],
+  },
+  {
+    name: "Salesforce",
+    category: "CRM",
+    html: [/action=["']https:\/\/webto\.salesforce\.com\//i, /\.my\.salesforce\.com\//i],
+    scriptSrc: [/\.force\.com\//, /service\.force\.com\/embeddedservice\//],
+  },
+  {
+    name: "Pardot",
+    category: "Marketing Automation",
+    scriptSrc: [/pi\.pardot\.com\//, /cdn\.pardot\.com\//],
+    scripts: [/piAId\s*=/, /pi\.pardot\.com/],
+    implies: ["Salesforce"],
+  },
+  {
+    name: "Marketo",
+    category: "Marketing Automation",
+    cookies: [/^_mkto_trk$/],
+    scriptSrc: [/munchkin\.marketo\.net\//, /\/js\/forms2\/js\/forms2(\.min)?\.js/],
+    scripts: [/Munchkin\.init\(/],
+  },
+  {
+    name: "Mailchimp",
+    category: "Email Marketing",
+    scriptSrc: [/chimpstatic\.com\//, /list-manage\.com\//],
+    html: [/action=["'][^"']*\.list-manage\.com\/subscribe/i],
+  },
+  {
+    name: "Klaviyo",
+    category: "Email Marketing",
+    scriptSrc: [/static\.klaviyo\.com\//],
+    scripts: [/_learnq/],
+  },
+
+  // Ecommerce
+  {
+    name: "Shopify",
+    category: "Ecommerce",
+    headers: { "x-shopid": /./, "x-shopify-stage": /./, "powered-by": /Shopify/i },
+    cookies: [/^_shopify_(y|s|sa_t)$/],
+    scriptSrc: [/cdn\.shopify\.com\//],
+    scripts: [/Shopify\.shop\s*=/],
+    meta: { "shopify-digital-wallet": /./ },
+  },
+  {
+    name: "WooCommerce",
+    category: "Ecommerce",
+    scriptSrc: [/\/wp-content\/plugins\/woocommerce\//],
+    html: [/<body[^>]*class=["'][^"']*\bwoocommerce\b/i],
+    meta: { generator: /WooCommerce/i },
+    implies: ["WordPress"],
+  },
+  {
+    name: "Magento",
+    category: "Ecommerce",
+    cookies: [/^mage-cache-(storage|sessid)$/],
+    scriptSrc: [/\/static\/version\d+\/frontend\//, /\/mage\/requirejs\//],
+    scripts: [/Magento_Ui\/js\//],
+  },
+  {
+    name: "BigCommerce",
+    category: "Ecommerce",
+    scriptSrc: [/cdn\d*\.bigcommerce\.com\//],
+    scripts: [/\bBCData\s*=/],
+  },
+
+  // Content management and site builders
+  {
+    name: "WordPress",
+    category: "CMS",
+    headers: { link: /rel=["']?https:\/\/api\.w\.org\//i },
+    scriptSrc: [/\/wp-(includes|content)\//],
+    html: [/<link[^>]+\/wp-content\//i],
+    meta: { generator: /^WordPress/i },
+  },
+  {
+    name: "Drupal",
+    category: "CMS",
+    headers: { "x-generator": /Drupal/i, "x-drupal-cache": /./ },
+    scriptSrc: [/\/sites\/(all|default)\/(modules|themes)\//, /\/core\/misc\/drupal\.js/],
+    scripts: [/drupalSettings/],
+    meta: { generator: /^Drupal/i },
+  },
+  {
+    name: "Wix",
+    category: "Site Builder",
+    headers: { "x-wix-request-id": /./ },
+    scriptSrc: [/static\.parastorage\.com\//],
+    meta: { generator: /Wix\.com/i },
+  },
+  {
+    name: "Squarespace",
+    category: "Site Builder",
+    cookies: [/^SS_MID$/],
+    scriptSrc: [/static\d*\.squarespace\.com\//, /assets\.squarespace\.com\//],
+    html: [/<!-- This is Squarespace\. -->/i],
+  },
+  {
+    name: "Webflow",
+    category: "Site Builder",
+    scriptSrc: [/\.website-files\.com\//, /assets\.website-files\.com\//],
+    html: [/<html[^>]+data-wf-(page|site)=/i],
+    meta: { generator: /^Webflow/i },
+  },
+
+  // Analytics and tag management
+  {
+    name: "Google Analytics",
+    category: "Analytics",
+    cookies: [/^_ga$/, /^_gid$/],
+    scriptSrc: [/google-analytics\.com\/(analytics|ga)\.js/, /googletagmanager\.com\/gtag\/js\?id=(G|UA)-/],
+    scripts: [/gtag\(\s*["']config["']\s*,\s*["'](G|UA)-/, /GoogleAnalyticsObject/],
+  },
+  {
+    name: "Google Tag Manager",
+    category: "Tag Manager",
+    scriptSrc: [/googletagmanager\.com\/gtm\.js/],
+    scripts: [/googletagmanager\.com\/gtm\.js/],
+    html: [/googletagmanager\.com\/ns\.html\?id=GTM-/i],
+  },
+  {
+    name: "Segment",
+    category: "Analytics",
+    scriptSrc: [/cdn\.segment\.(com|io)\/analytics\.js/],
+    scripts: [/cdn\.segment\.(com|io)\/analytics\.js/, /analytics\.load\(["']\w+["']\)/],
+  },
+  {
+    name: "Hotjar",
+    category: "Analytics",
+    scriptSrc: [/static\.hotjar\.com\//],
+    scripts: [/static\.hotjar\.com\//, /_hjSettings\s*=/],
+  },
+  {
+    name: "Facebook Pixel",
+    category: "Advertising",
+    scriptSrc: [/connect\.facebook\.net\/[^/]+\/fbevents\.js/],
+    scripts: [/connect\.facebook\.net\/[^/]+\/fbevents\.js/, /fbq\(\s*["']init["']/],
+  },
+  {
+    name: "LinkedIn Insight Tag",
+    category: "Advertising",
+    scriptSrc: [/snap\.licdn\.com\/li\.lms-analytics\/insight\.min\.js/],
+    scripts: [/_linkedin_partner_id\s*=/, /snap\.licdn\.com\/li\.lms-analytics/],
+  },
+
+  // Customer support and chat
+  {
+    name: "Intercom",
+    category: "Live Chat",
+    scriptSrc: [/widget\.intercom\.io\//, /js\.intercomcdn\.com\//],
+    scripts: [/widget\.intercom\.io\/widget\//, /window\.intercomSettings\s*=/],
+  },
+  {
+    name: "Drift",
+    category: "Live Chat",
+    scriptSrc: [/js\.driftt\.com\//],
+    scripts: [/js\.driftt\.com\//, /drift\.load\(/],
+  },
+  {
+    name: "Zendesk",
+    category: "Customer Support",
+    scriptSrc: [/static\.zdassets\.com\//],
+    html: [/\.zendesk\.com\/hc\//i],
+  },
+
+  // Payments
+  {
+    name: "Stripe",
+    category: "Payments",
+    scriptSrc: [/js\.stripe\.com\//],
+  },
+
+  // JavaScript frameworks
+  {
+    name: "React",
+    category: "JavaScript Framework",
+    html: [/<[^>]+data-reactroot/i],
+    scripts: [/__REACT_DEVTOOLS_GLOBAL_HOOK__/],
+  },
+  {
+    name: "Next.js",
+    category: "JavaScript Framework",
+    headers: { "x-powered-by": /Next\.js/i },
+    scriptSrc: [/\/_next\/static\//],
+    html: [/<script[^>]+id=["']__NEXT_DATA__["']/i],
+    implies: ["React"],
+  },
+
+  // Hosting, CDN and web servers
+  {
+    name: "Cloudflare",
+    category: "CDN",
+    headers: { server: /^cloudflare$/i, "cf-ray": /./ },
+    cookies: [/^__cf_bm$/, /^__cfruid$/],
+  },
+  {
+    name: "Vercel",
+    category: "Hosting",
+    headers: { server: /^Vercel$/i, "x-vercel-id": /./ },
+  },
+  {
+    name: "Nginx",
+    category: "Web Server",
+    headers: { server: /^nginx/i },
+  },
+];
@@ -0,0 +1,132 @@
+/**
+ * Tech stack enricher
+ * Recognizes the technologies a lead's website runs on from its response headers, cookies, script
+ * tags and markup, using the fingerprint ruleset. Each technology found is stored as its own fact
+ */
+
+import { combinedConfidence } from "../../../shared/enrichment";
+import { TECH_FINGERPRINTS, type TechFingerprint } from "./techFingerprints";
+import type { Enricher, EnrichmentFact, WebPage } from "./types";
+import { tagAttributes } from "./website";
+
+// How sure a single matching signal makes a detection; markup is the easiest to match by accident
+const SIGNAL_CONFIDENCE = { header: 90, meta: 90, scriptSrc: 80, cookie: 75, script: 70, html: 50 };
+
+// A technology implied by another (WordPress under WooCommerce) is a little less certain than it
+const IMPLIED_CONFIDENCE_PENALTY = 10;
+
+export interface DetectedTechnology {
+  name: string;
+  category: string;
+  confidence: number; // 0-100
+  evidence: string[]; // The signals that matched, e.g. "header server", "script src cdn.shopify.com/s/..."
+}
+
+// Names of the cookies the page sets; fetch joins multiple set-cookie headers with commas
+function cookieNames(setCookie: string | undefined) {
+  const names: string[] = [];
+  const cookiePattern = /(?:^|,)\s*([^=;,\s]+)=/g;
+  let match: RegExpExecArray | null;
+  while ((match = cookiePattern.exec(setCookie ?? ""))) {
+    names.push(match[1]);
+  }
+  return names;
+}
+
+function inlineScripts(html: string) {
+  const scripts: string[] = [];
+  const scriptPattern = /<script\b([^>]*)>([\s\S]*?)<\/script>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = scriptPattern.exec(html))) {
+    if (!/\bsrc\s*=/i.test(match[1]) && match[2].trim()) scripts.push(match[2]);
+  }
+  return scripts;
+}
+
+/**
+ * Technologies a page's fingerprints match, most confident first
+ */
+export function detectTechnologies(page: WebPage, rules: TechFingerprint[] = TECH_FINGERPRINTS): DetectedTechnology[] {
+  const cookies = cookieNames(page.headers["set-cookie"]);
+  const scriptSrcs = tagAttributes(page.html, "script").map(attributes => attributes.src ?? "").filter(Boolean);
+  const scripts = inlineScripts(page.html);
+  const meta = tagAttributes(page.html, "meta")
+    .map(attributes => ({ name: (attributes.name ?? attributes.property ?? "").toLowerCase(), content: attributes.content ?? "" }))
+    .filter(tag => tag.name);
+
+  const detected = new Map<string, DetectedTechnology>();
+  for (const rule of rules) {
+    const signals: { evidence: string; confidence: number }[] = [];
+
+    for (const [header, pattern] of Object.entries(rule.headers ?? {})) {
+      const value = page.headers[header];
+      if (value !== undefined && pattern.test(value)) signals.push({ evidence: `header ${header}`, confidence: SIGNAL_CONFIDENCE.header });
+    }
+    for (const [name, pattern] of Object.entries(rule.meta ?? {})) {
+      if (meta.some(tag => tag.name === name && pattern.test(tag.content))) signals.push({ evidence: `meta ${name}`, confidence: SIGNAL_CONFIDENCE.meta });
+    }
+    for (const pattern of rule.scriptSrc ?? []) {
+      const src = scriptSrcs.find(candidate => pattern.test(candidate));
+      if (src) signals.push({ evidence: `script src ${src}`, confidence: SIGNAL_CONFIDENCE.scriptSrc });
+    }
+    for (const pattern of rule.cookies ?? []) {
+      const cookie = cookies.find(name => pattern.test(name));
+      if (cookie) signals.push({ evidence: `cookie ${cookie}`, confidence: SIGNAL_CONFIDENCE.cookie });
+    }
+    for (const pattern of rule.scripts ?? []) {
+      if (scripts.some(script => pattern.test(script))) signals.push({ evidence: "inline script", confidence: SIGNAL_CONFIDENCE.script });
+    }
+    for (const pattern of rule.html ?? []) {
+      if (pattern.test(page.html)) signals.push({ evidence: "page markup", confidence: SIGNAL_CONFIDENCE.html });
+    }
+
+    if (signals.length === 0) continue;
+    detected.set(rule.name, {
+      name: rule.name,
+      category: rule.category,
+      confidence: combinedConfidence(signals.map(signal => signal.confidence)),
+      evidence: Array.from(new Set(signals.map(signal => signal.evidence))),
+    });
+  }
+
+  // Implied technologies are added once every rule has been checked, adding to any direct evidence
+  for (const technology of Array.from(detected.values())) {
+    const rule = rules.find(candidate => candidate.name === technology.name);
+    for (const impliedName of rule?.implies ?? []) {
+      const implied = rules.find(candidate => candidate.name === impliedName);
+      if (!implied) continue;
+      const existing = detected.get(impliedName);
+      const confidence = technology.confidence - IMPLIED_CONFIDENCE_PENALTY;
+      detected.set(impliedName, {
+        name: impliedName,
+        category: implied.category,
+        confidence: existing ? combinedConfidence([existing.confidence, confidence]) : confidence,
+        evidence: [...(existing?.evidence ?? []), `implied by ${technology.name}`],
+      });
+    }
+  }
+
+  return Array.from(detected.values()).sort((a, b) => b.confidence - a.confidence || a.name.localeCompare(b.name));
+}
+
+export const techStackEnricher: Enricher = {
+  id: "techStack",
+  label: "Tech Stack Detection",
+  description: "Technologies the lead's website runs on, recognized from its headers, scripts and markup",
+  automatic: true,
+
+  unavailableReason() {
+    return null;
+  },
+
+  async enrich(_lead, context) {
+    const page = await context.fetchWebsite();
+    if (!page) return [];
+    return detectTechnologies(page).map((technology): EnrichmentFact => ({
+      dataType: "technology",
+      dataKey: technology.name,
+      value: technology.category,
+      confidence: technology.confidence,
+    }));
+  },
+};
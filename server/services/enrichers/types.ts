@@ -0,0 +1,40 @@
+/**
+ * Enrichers
+ * Where lead enrichment gets its facts. Each enricher looks a lead up somewhere and returns
+ * typed facts with how confident it is in each; the pipeline stores them under its id as the source
+ */
+
+import type { Lead, User } from "../../../drizzle/schema";
+import type { EnricherId, EnrichmentDataType, EnrichmentValue } from "../../../shared/enrichment";
+
+export interface EnrichmentFact {
+  dataType: EnrichmentDataType;
+  dataKey: string;
+  value: EnrichmentValue;
+  confidence: number; // 0-100
+}
+
+export interface WebPage {
+  url: string; // After redirects
+  status: number;
+  headers: Record<string, string>; // Lowercased names
+  html: string;
+}
+
+export interface EnrichmentContext {
+  user: User;
+  /** The lead's homepage, fetched once per run however many enrichers read it; null when unreachable */
+  fetchWebsite(): Promise<WebPage | null>;
+}
+
+export interface Enricher {
+  id: EnricherId;
+  label: string;
+  description: string;
+  /** Whether it runs by itself on new leads; enrichers that spend credits only run on demand */
+  automatic: boolean;
+  /** Why the user can't use this enricher right now, or null when they can */
+  unavailableReason(user: User): string | null;
+  /** Facts about the lead, or none when there's nothing to look it up by */
+  enrich(lead: Lead, context: EnrichmentContext): Promise<EnrichmentFact[]>;
+}
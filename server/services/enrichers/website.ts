@@ -0,0 +1,150 @@
+/**
+ * Company website enricher
+ * Reads the lead's homepage for its name, description, social profiles and contact details
+ */
+
+import type { Enricher, EnrichmentFact, WebPage } from "./types";
+
+const FETCH_TIMEOUT_MS = 10_000;
+
+// Pages are cut off here; everything read is in the head or the first screens of the body
+const MAX_HTML_LENGTH = 2_000_000;
+
+const SOCIAL_PROFILES = [
+  { dataKey: "linkedin_url", pattern: /^https?:\/\/([a-z]+\.)?linkedin\.com\/(company|school)\/[^/?#]+/i },
+  { dataKey: "twitter_url", pattern: /^https?:\/\/(www\.)?(twitter|x)\.com\/(?!intent|share|home)[A-Za-z0-9_]+/i },
+  { dataKey: "facebook_url", pattern: /^https?:\/\/([a-z]+\.)?facebook\.com\/(?!sharer|share|dialog)[^/?#]+/i },
+];
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " " };
+
+function decodeEntities(text: string) {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&([a-z]+);/gi, (entity, name) => ENTITIES[name.toLowerCase()] ?? entity)
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Attributes of every tag with the given name, lowercased attribute names
+ */
+export function tagAttributes(html: string, tagName: string): Record<string, string>[] {
+  const tags = html.match(new RegExp(`<${tagName}\\b[^>]*>`, "gi")) ?? [];
+  return tags.map(tag => {
+    const attributes: Record<string, string> = {};
+    const attributePattern = /([a-z_:][-a-z0-9_:.]*)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+    let match: RegExpExecArray | null;
+    while ((match = attributePattern.exec(tag))) {
+      attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+    }
+    return attributes;
+  });
+}
+
+function metaContent(html: string, names: string[]) {
+  const meta = tagAttributes(html, "meta").find(attributes =>
+    names.includes((attributes.name ?? attributes.property ?? "").toLowerCase()) && attributes.content);
+  return meta?.content ?? null;
+}
+
+// Hosts a lead's website must not point the server at
+function isPrivateHost(hostname: string) {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  if (host === "localhost" || host.endsWith(".localhost") || host.endsWith(".internal") || host === "::1") return true;
+  const ipv4 = host.match(/^(\d+)\.(\d+)\.\d+\.\d+$/);
+  if (!ipv4) return false;
+  const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+  return a === 0 || a === 10 || a === 127 || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168);
+}
+
+/**
+ * Fetch a company's homepage, or null when it has no usable website or it can't be reached
+ */
+export async function fetchWebsite(website: string | null): Promise<WebPage | null> {
+  if (!website?.trim()) return null;
+
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(website.trim()) ? website.trim() : `https://${website.trim()}`);
+  } catch {
+    return null;
+  }
+  if (isPrivateHost(url.hostname)) return null;
+
+  try {
+    const response = await fetch(url, {
+      headers: { "User-Agent": "Mozilla/5.0 (compatible; LeadAgentBot/1.0)", Accept: "text/html" },
+      redirect: "follow",
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    if (!response.ok) return null;
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name.toLowerCase()] = value;
+    });
+    const html = (await response.text()).slice(0, MAX_HTML_LENGTH);
+    return { url: response.url || url.toString(), status: response.status, headers, html };
+  } catch (error) {
+    console.warn(`[Enrichment] Could not fetch ${url.toString()}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Facts a homepage states about its company
+ */
+export function extractWebsiteFacts(page: WebPage): EnrichmentFact[] {
+  const facts: EnrichmentFact[] = [];
+  const { html } = page;
+
+  const siteName = metaContent(html, ["og:site_name", "application-name"]);
+  if (siteName) facts.push({ dataType: "firmographic", dataKey: "name", value: siteName, confidence: 55 });
+
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  if (title && decodeEntities(title[1])) {
+    facts.push({ dataType: "firmographic", dataKey: "site_title", value: decodeEntities(title[1]), confidence: 50 });
+  }
+
+  const description = metaContent(html, ["description", "og:description", "twitter:description"]);
+  if (description) facts.push({ dataType: "firmographic", dataKey: "description", value: description, confidence: 60 });
+
+  const hrefs = tagAttributes(html, "a").map(attributes => attributes.href ?? "").filter(Boolean);
+  for (const profile of SOCIAL_PROFILES) {
+    const match = hrefs.map(href => profile.pattern.exec(href)).find(Boolean);
+    if (match) facts.push({ dataType: "social", dataKey: profile.dataKey, value: match[0], confidence: 80 });
+  }
+
+  const phone = hrefs.find(href => /^tel:/i.test(href));
+  if (phone) {
+    facts.push({ dataType: "contact", dataKey: "phone", value: phone.slice(4).replace(/%20/g, " ").trim(), confidence: 50 });
+  }
+
+  // Prefer an address at the company's own domain over, say, its agency's
+  const host = new URL(page.url).hostname.replace(/^www\./, "");
+  const emails = hrefs.filter(href => /^mailto:/i.test(href)).map(href => href.slice(7).split("?")[0].trim().toLowerCase());
+  const email = emails.find(address => address.endsWith(`@${host}`)) ?? emails[0];
+  if (email && /^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email)) {
+    facts.push({ dataType: "contact", dataKey: "email", value: email, confidence: email.endsWith(`@${host}`) ? 60 : 40 });
+  }
+
+  return facts;
+}
+
+export const websiteEnricher: Enricher = {
+  id: "website",
+  label: "Company Website",
+  description: "Name, description, social profiles and contact details from the lead's homepage",
+  automatic: true,
+
+  unavailableReason() {
+    return null;
+  },
+
+  async enrich(_lead, context) {
+    const page = await context.fetchWebsite();
+    return page ? extractWebsiteFacts(page) : [];
+  },
+};
@@ -0,0 +1,25 @@
+/**
+ * Google geocoder
+ * Geocodes through the maps proxy in server/_core/map.ts
+ */
+
+import { makeRequest, type GeocodingResult } from "../../_core/map";
+import type { Geocoder } from "./types";
+
+export const googleGeocoder: Geocoder = {
+  id: "google",
+
+  async geocode(address) {
+    const response = await makeRequest<GeocodingResult>("/maps/api/geocode/json", { address });
+    if (response.status === "ZERO_RESULTS") return null;
+    if (response.status !== "OK") throw new Error(`Geocoding failed: ${response.status}`);
+
+    const [result] = response.results;
+    if (!result) return null;
+    return {
+      lat: result.geometry.location.lat,
+      lng: result.geometry.location.lng,
+      formattedAddress: result.formatted_address,
+    };
+  },
+};
@@ -0,0 +1,18 @@
+/**
+ * Geocoder registry
+ */
+
+import { googleGeocoder } from "./google";
+import { sampleGeocoder } from "./sample";
+import type { Geocoder } from "./types";
+
+export type { Geocoder, GeocodeResult } from "./types";
+export { googleGeocoder, sampleGeocoder };
+
+/**
+ * Saved leads are real places, so they always go through the maps proxy; sample leads are
+ * placed by the stand-in, in memory, since they aren't saved
+ */
+export function getGeocoder(): Geocoder {
+  return googleGeocoder;
+}
@@ -0,0 +1,35 @@
+/**
+ * Sample geocoder
+ * A local stand-in for the maps proxy, for sample leads and tests. It knows the cities sample
+ * leads are in, matched by the city before the first comma, and nothing else
+ */
+
+import type { Geocoder } from "./types";
+
+const CITIES: Record<string, { lat: number; lng: number; state: string }> = {
+  "san francisco": { lat: 37.7749, lng: -122.4194, state: "CA" },
+  "new york": { lat: 40.7128, lng: -74.006, state: "NY" },
+  "austin": { lat: 30.2672, lng: -97.7431, state: "TX" },
+  "seattle": { lat: 47.6062, lng: -122.3321, state: "WA" },
+  "boston": { lat: 42.3601, lng: -71.0589, state: "MA" },
+  "chicago": { lat: 41.8781, lng: -87.6298, state: "IL" },
+  "denver": { lat: 39.7392, lng: -104.9903, state: "CO" },
+  "los angeles": { lat: 34.0522, lng: -118.2437, state: "CA" },
+  "miami": { lat: 25.7617, lng: -80.1918, state: "FL" },
+  "atlanta": { lat: 33.749, lng: -84.388, state: "GA" },
+  "oakland": { lat: 37.8044, lng: -122.2712, state: "CA" },
+  "san jose": { lat: 37.3382, lng: -121.8863, state: "CA" },
+  "cambridge": { lat: 42.3736, lng: -71.1097, state: "MA" },
+};
+
+export const sampleGeocoder: Geocoder = {
+  id: "sample",
+
+  async geocode(address) {
+    const [cityName] = address.split(",");
+    const key = cityName.trim().toLowerCase();
+    const city = CITIES[key];
+    if (!city) return null;
+    return { lat: city.lat, lng: city.lng, formattedAddress: `${cityName.trim()}, ${city.state}, USA` };
+  },
+};
@@ -0,0 +1,17 @@
+/**
+ * Geocoders
+ * Turn a lead's location text into coordinates. The real geocoder goes through the maps proxy;
+ * a local stand-in knows the sample data's cities, for sample leads and tests
+ */
+
+import type { LatLng } from "../../../shared/geo";
+
+export interface GeocodeResult extends LatLng {
+  formattedAddress: string;
+}
+
+export interface Geocoder {
+  id: string;
+  /** Where an address is; null when it can't be found. Throws when the lookup itself fails */
+  geocode(address: string): Promise<GeocodeResult | null>;
+}
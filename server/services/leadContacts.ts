@@ -0,0 +1,155 @@
+/**
+ * Lead Contacts Service
+ * The people at a lead's company: adding, editing and removing them, choosing the
+ * primary contact, and working out which contact an email or enrollment goes to
+ * (refusing contacts marked do not contact)
+ */
+
+import {
+  createLeadContact,
+  deleteLeadContact,
+  getLeadById,
+  getLeadContactById,
+  getLeadContacts,
+  getLeadEngagementCounts,
+  getLeadTechnologies,
+  setPrimaryLeadContact,
+  updateLeadContact,
+  updateLeadScore,
+} from "../db";
+import type { InsertLeadContact, LeadContact } from "../../drizzle/schema";
+import type { LeadContactInput } from "../leadValidation";
+import { calculateLeadScore } from "../leadScoring";
+import { getScoringModel } from "./scoringModel";
+
+async function requireLead(userId: number, leadId: number) {
+  const lead = await getLeadById(leadId, userId);
+  if (!lead) throw new Error("Lead not found or access denied");
+  return lead;
+}
+
+async function requireContact(userId: number, contactId: number) {
+  const contact = await getLeadContactById(contactId);
+  if (!contact) throw new Error("Contact not found");
+  await requireLead(userId, contact.leadId);
+  return contact;
+}
+
+function toContactRow(input: LeadContactInput): Partial<InsertLeadContact> {
+  const row: Partial<InsertLeadContact> = {};
+  if (input.name !== undefined) row.name = input.name || null;
+  if (input.title !== undefined) row.title = input.title || null;
+  if (input.role !== undefined) row.role = input.role;
+  if (input.email !== undefined) row.email = input.email ? input.email.toLowerCase() : null;
+  if (input.phone !== undefined) row.phone = input.phone || null;
+  if (input.linkedin !== undefined) row.linkedin = input.linkedin || null;
+  if (input.doNotContact !== undefined) row.doNotContact = input.doNotContact ? 1 : 0;
+  return row;
+}
+
+function contactLabel(contact: LeadContact) {
+  return contact.name || contact.email || "This contact";
+}
+
+/**
+ * Rescore a lead on its best contact after its contacts change
+ */
+async function rescoreLead(userId: number, leadId: number) {
+  const lead = await requireLead(userId, leadId);
+  const { opens, clicks } = (await getLeadEngagementCounts([leadId])).get(leadId)!;
+  const { score } = calculateLeadScore(lead, opens, clicks, await getLeadContacts(leadId), await getLeadTechnologies(leadId), await getScoringModel(userId));
+  if (score !== lead.score) await updateLeadScore(leadId, score);
+}
+
+export async function listContacts(userId: number, leadId: number) {
+  await requireLead(userId, leadId);
+  return await getLeadContacts(leadId);
+}
+
+/**
+ * Add a contact; a lead's first contact becomes its primary contact
+ */
+export async function addContact(userId: number, leadId: number, input: LeadContactInput) {
+  await requireLead(userId, leadId);
+  const row = toContactRow(input);
+  if (!row.name && !row.email) throw new Error("A contact needs a name or an email");
+
+  const existing = await getLeadContacts(leadId);
+  const id = await createLeadContact({ ...row, leadId });
+  if (existing.length === 0 || input.isPrimary) {
+    await setPrimaryLeadContact(leadId, id);
+  }
+  await rescoreLead(userId, leadId);
+  return { id };
+}
+
+export async function updateContact(userId: number, contactId: number, input: LeadContactInput) {
+  const contact = await requireContact(userId, contactId);
+  const row = toContactRow(input);
+  const name = row.name !== undefined ? row.name : contact.name;
+  const email = row.email !== undefined ? row.email : contact.email;
+  if (!name && !email) throw new Error("A contact needs a name or an email");
+
+  await updateLeadContact(contactId, row);
+  // Re-setting the primary contact also refreshes the details mirrored on the lead
+  if (input.isPrimary || contact.isPrimary) {
+    await setPrimaryLeadContact(contact.leadId, contactId);
+  }
+  await rescoreLead(userId, contact.leadId);
+}
+
+/**
+ * Remove a contact; when it was the primary contact, the next contact takes over
+ */
+export async function deleteContact(userId: number, contactId: number) {
+  const contact = await requireContact(userId, contactId);
+  await deleteLeadContact(contactId);
+
+  if (contact.isPrimary) {
+    const [next] = await getLeadContacts(contact.leadId);
+    await setPrimaryLeadContact(contact.leadId, next?.id ?? null);
+  }
+  await rescoreLead(userId, contact.leadId);
+}
+
+export async function setPrimaryContact(userId: number, contactId: number) {
+  const contact = await requireContact(userId, contactId);
+  await setPrimaryLeadContact(contact.leadId, contactId);
+}
+
+/**
+ * The contact an email to a lead goes to: the one picked, or the one with the recipient's address
+ * Throws when that contact is marked do not contact
+ */
+export async function resolveEmailContact(
+  userId: number,
+  leadId: number,
+  recipient: { contactId?: number; email: string }
+): Promise<number | null> {
+  let contact: LeadContact | undefined;
+  if (recipient.contactId !== undefined) {
+    contact = await requireContact(userId, recipient.contactId);
+    if (contact.leadId !== leadId) throw new Error("Contact not found");
+  } else {
+    const contacts = await getLeadContacts(leadId);
+    contact = contacts.find(c => c.email?.toLowerCase() === recipient.email.toLowerCase());
+  }
+
+  if (contact?.doNotContact) throw new Error(`${contactLabel(contact)} is marked do not contact`);
+  return contact?.id ?? null;
+}
+
+/**
+ * The contact a sequence enrollment emails: the one picked, or the lead's primary contact
+ * Throws when that contact is marked do not contact
+ */
+export async function resolveEnrollmentContact(leadId: number, contactId?: number): Promise<number | null> {
+  const contacts = await getLeadContacts(leadId);
+  const contact = contactId !== undefined
+    ? contacts.find(c => c.id === contactId)
+    : contacts.find(c => c.isPrimary);
+  if (contactId !== undefined && !contact) throw new Error("Contact not found");
+
+  if (contact?.doNotContact) throw new Error(`${contactLabel(contact)} is marked do not contact`);
+  return contact?.id ?? null;
+}
@@ -0,0 +1,329 @@
+/**
+ * Lead Deduplication Service
+ * Finds leads that describe the same company (same website domain, same contact
+ * email or a near-identical company name) and merges a duplicate into a surviving
+ * lead, keeping an audit of which lead each merged field came from
+ */
+
+import {
+  getLeadById,
+  getLeadContacts,
+  getLeadEmailClicks,
+  getLeadEmailOpens,
+  getLeadTechnologies,
+  getTagsForLeads,
+  mergeLeadRecords,
+  updateLeadScore,
+} from "../db";
+import { calculateLeadScore } from "../leadScoring";
+import { getScoringModel } from "./scoringModel";
+import { toStatusChangeRow } from "./workflowAutomation";
+import {
+  FUZZY_NAME_THRESHOLD,
+  companyNameSimilarity,
+  normalizeCompanyName,
+  normalizeDomain,
+  normalizeEmail,
+} from "../leadMatching";
+import { parseCustomFieldValues } from "../../shared/customFields";
+import type { LeadTag } from "../../shared/tags";
+import type { InsertLead, Lead } from "../../drizzle/schema";
+
+export type DuplicateReason = "domain" | "email" | "companyName";
+
+/** Lead fields used to detect duplicates */
+export interface DedupLead {
+  id: number;
+  companyName: string;
+  website: string | null;
+  contactEmail: string | null;
+}
+
+export interface DuplicateCandidate {
+  leadIds: [number, number];
+  reasons: DuplicateReason[];
+  nameSimilarity: number; // 0-1
+  confidence: number; // 0-100
+}
+
+/** Fields the user picks a value for when merging; notes and tags are combined instead */
+export const MERGEABLE_FIELDS = [
+  "companyName",
+  "website",
+  "industry",
+  "companySize",
+  "location",
+  "description",
+  "contactName",
+  "contactTitle",
+  "contactEmail",
+  "contactLinkedin",
+  "contactPhone",
+  "status",
+] as const;
+
+export type MergeableField = (typeof MERGEABLE_FIELDS)[number];
+export type MergeFieldChoices = Partial<Record<MergeableField, "surviving" | "merged">>;
+
+/** Where a merged field's value came from */
+export interface MergeFieldSource {
+  leadIds: number[];
+  value: string | null;
+}
+
+/** Each lead's tags; the surviving lead ends up with both sets */
+export interface LeadMergeTags {
+  surviving: LeadTag[];
+  merged: LeadTag[];
+}
+
+export interface LeadMergePlan {
+  updates: Partial<InsertLead>;
+  fieldSources: Record<string, MergeFieldSource>;
+}
+
+// Pairs matched only by these strengths still need a person to confirm
+const REASON_CONFIDENCE: Record<DuplicateReason, number> = {
+  email: 100,
+  domain: 90,
+  companyName: 80,
+};
+
+/**
+ * Keys used to limit fuzzy name comparisons to plausible pairs
+ * Leads are only compared if they share a word or the start of their name
+ */
+function blockingKeys(lead: DedupLead): string[] {
+  const name = normalizeCompanyName(lead.companyName);
+  if (!name) return [];
+
+  const keys = name.split(" ").filter(word => word.length >= 3).map(word => `w:${word}`);
+  keys.push(`p:${name.replace(/\s+/g, "").slice(0, 4)}`);
+  return keys;
+}
+
+/**
+ * Find pairs of leads that are likely the same company, most certain first
+ */
+export function findDuplicateCandidates(leads: DedupLead[]): DuplicateCandidate[] {
+  const pairs = new Map<string, DuplicateCandidate>();
+
+  const addReason = (a: DedupLead, b: DedupLead, reason: DuplicateReason) => {
+    const [first, second] = a.id < b.id ? [a, b] : [b, a];
+    const key = `${first.id}:${second.id}`;
+    let pair = pairs.get(key);
+    if (!pair) {
+      pair = {
+        leadIds: [first.id, second.id],
+        reasons: [],
+        nameSimilarity: companyNameSimilarity(first.companyName, second.companyName),
+        confidence: 0,
+      };
+      pairs.set(key, pair);
+    }
+    if (!pair.reasons.includes(reason)) {
+      pair.reasons.push(reason);
+      pair.confidence = Math.max(pair.confidence, REASON_CONFIDENCE[reason]);
+    }
+  };
+
+  // Exact matches on normalized domain and email
+  const groupBy = (keyOf: (lead: DedupLead) => string | null, reason: DuplicateReason) => {
+    const groups = new Map<string, DedupLead[]>();
+    for (const lead of leads) {
+      const key = keyOf(lead);
+      if (!key) continue;
+      const group = groups.get(key) || [];
+      group.push(lead);
+      groups.set(key, group);
+    }
+    groups.forEach(group => {
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) {
+          addReason(group[i], group[j], reason);
+        }
+      }
+    });
+  };
+
+  groupBy(lead => normalizeDomain(lead.website), "domain");
+  groupBy(lead => normalizeEmail(lead.contactEmail), "email");
+
+  // Fuzzy company name matches within each block
+  const blocks = new Map<string, DedupLead[]>();
+  for (const lead of leads) {
+    for (const key of blockingKeys(lead)) {
+      const block = blocks.get(key) || [];
+      block.push(lead);
+      blocks.set(key, block);
+    }
+  }
+
+  const compared = new Set<string>();
+  blocks.forEach(block => {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const a = block[i];
+        const b = block[j];
+        const key = a.id < b.id ? `${a.id}:${b.id}` : `${b.id}:${a.id}`;
+        if (compared.has(key)) continue;
+        compared.add(key);
+
+        if (companyNameSimilarity(a.companyName, b.companyName) >= FUZZY_NAME_THRESHOLD) {
+          addReason(a, b, "companyName");
+        }
+      }
+    }
+  });
+
+  return Array.from(pairs.values()).sort((a, b) =>
+    b.confidence - a.confidence ||
+    b.reasons.length - a.reasons.length ||
+    b.nameSimilarity - a.nameSimilarity
+  );
+}
+
+/**
+ * Decide the surviving lead's field values after merging
+ * Each field keeps the surviving lead's value unless the user chose the merged
+ * lead's value or the surviving lead has none; notes are concatenated, tags combined
+ * and custom field values filled in where the surviving lead has none
+ */
+export function planLeadMerge(
+  surviving: Lead,
+  merged: Lead,
+  choices: MergeFieldChoices = {},
+  tags: LeadMergeTags = { surviving: [], merged: [] }
+): LeadMergePlan {
+  const updates: Partial<InsertLead> = {};
+  const fieldSources: Record<string, MergeFieldSource> = {};
+
+  for (const field of MERGEABLE_FIELDS) {
+    const survivingValue = surviving[field];
+    const mergedValue = merged[field];
+    const choice = choices[field] ?? (survivingValue ? "surviving" : "merged");
+    const useMerged = choice === "merged" && !!mergedValue;
+
+    if (useMerged && mergedValue !== survivingValue) {
+      (updates as Record<string, unknown>)[field] = mergedValue;
+    }
+    fieldSources[field] = {
+      leadIds: [useMerged ? merged.id : surviving.id],
+      value: (useMerged ? mergedValue : survivingValue) ?? null,
+    };
+  }
+
+  const notes = [surviving.notes, merged.notes].filter((note): note is string => !!note?.trim());
+  const noteSources = [surviving.notes?.trim() ? surviving.id : null, merged.notes?.trim() ? merged.id : null]
+    .filter((id): id is number => id !== null);
+  if (notes.length > 1) {
+    updates.notes = notes.join("\n\n");
+  } else if (notes.length === 1 && !surviving.notes?.trim()) {
+    updates.notes = notes[0];
+  }
+  fieldSources.notes = { leadIds: noteSources, value: updates.notes ?? surviving.notes ?? null };
+
+  // Tag links are moved with the lead's other records; this only records where they came from
+  const combinedTags = [...tags.surviving];
+  const tagSources = tags.surviving.length > 0 ? [surviving.id] : [];
+  for (const tag of tags.merged) {
+    if (!combinedTags.some(existing => existing.id === tag.id)) {
+      combinedTags.push(tag);
+      if (!tagSources.includes(merged.id)) tagSources.push(merged.id);
+    }
+  }
+  fieldSources.tags = {
+    leadIds: tagSources,
+    value: combinedTags.length > 0 ? combinedTags.map(tag => tag.name).join(", ") : null,
+  };
+
+  // Custom fields keep the surviving lead's values and take any it is missing
+  const survivingCustom = parseCustomFieldValues(surviving.customFields);
+  const combinedCustom = { ...survivingCustom };
+  for (const [key, value] of Object.entries(parseCustomFieldValues(merged.customFields))) {
+    if (!(key in combinedCustom)) combinedCustom[key] = value;
+  }
+  const addedCustom = Object.keys(combinedCustom).length > Object.keys(survivingCustom).length;
+  if (addedCustom) {
+    updates.customFields = JSON.stringify(combinedCustom);
+  }
+  fieldSources.customFields = {
+    leadIds: [
+      ...(Object.keys(survivingCustom).length > 0 ? [surviving.id] : []),
+      ...(addedCustom ? [merged.id] : []),
+    ],
+    value: updates.customFields ?? surviving.customFields ?? null,
+  };
+
+  return { updates, fieldSources };
+}
+
+/**
+ * Merge one of a user's leads into another and rescore the surviving lead
+ */
+export async function mergeLeads(
+  userId: number,
+  survivingLeadId: number,
+  mergedLeadId: number,
+  choices: MergeFieldChoices = {}
+) {
+  if (survivingLeadId === mergedLeadId) {
+    throw new Error("Cannot merge a lead into itself");
+  }
+
+  const surviving = await getLeadById(survivingLeadId, userId);
+  const merged = await getLeadById(mergedLeadId, userId);
+  if (!surviving || !merged) {
+    throw new Error("Lead not found");
+  }
+
+  const tagsByLead = await getTagsForLeads([survivingLeadId, mergedLeadId]);
+  const mergedTags = tagsByLead.get(mergedLeadId) ?? [];
+  const plan = planLeadMerge(surviving, merged, choices, {
+    surviving: tagsByLead.get(survivingLeadId) ?? [],
+    merged: mergedTags,
+  });
+  const movedRecords = await mergeLeadRecords({
+    survivingLeadId,
+    mergedLeadId,
+    updates: plan.updates,
+    audit: {
+      userId,
+      survivingLeadId,
+      mergedLeadId,
+      mergedCompanyName: merged.companyName,
+      fieldSources: JSON.stringify(plan.fieldSources),
+      mergedLeadSnapshot: JSON.stringify({ ...merged, tags: mergedTags.map(tag => tag.name) }),
+    },
+    // Taking the duplicate's status is a status change like any other
+    statusChange: plan.updates.status && plan.updates.status !== surviving.status
+      ? toStatusChangeRow({
+        leadId: survivingLeadId,
+        userId,
+        previousStatus: surviving.status,
+        newStatus: plan.updates.status,
+        changeReason: "lead_merged",
+        triggeredBy: "user",
+        metadata: { mergedLeadId, mergedCompanyName: merged.companyName },
+      })
+      : undefined,
+  });
+
+  // Engagement, contacts and technologies from the merged lead now count toward the surviving lead's score
+  const opens = await getLeadEmailOpens(survivingLeadId);
+  const clicks = await getLeadEmailClicks(survivingLeadId);
+  const contacts = await getLeadContacts(survivingLeadId);
+  const technologies = await getLeadTechnologies(survivingLeadId);
+  const scoringResult = calculateLeadScore({ ...surviving, ...plan.updates } as Lead, opens.length, clicks.length, contacts, technologies, await getScoringModel(userId));
+  await updateLeadScore(survivingLeadId, scoringResult.score);
+
+  console.log(`[Lead Dedup] User ${userId}: merged lead ${mergedLeadId} into ${survivingLeadId}`, movedRecords);
+
+  return {
+    survivingLeadId,
+    mergedLeadId,
+    score: scoringResult.score,
+    fieldSources: plan.fieldSources,
+    movedRecords,
+  };
+}
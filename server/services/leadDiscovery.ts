@@ -0,0 +1,275 @@
+/**
+ * Lead Discovery Service
+ * Searches the lead sources the user picked (Apollo.io, our company database, AI templates,
+ * sample data), one page at a time so the Discover page can load more, and merges their results
+ */
+
+import { createSearchHistory, getLeadLastContactDates, getUserLeadSummaries, recordSearchHistoryPage } from "../db";
+import { normalizeCompanyName, normalizeDomain } from "../leadMatching";
+import { APOLLO_BUDGET_EXHAUSTED_MESSAGE, getApolloCreditBalance } from "./apolloCreditQuota";
+import { searchWithCache } from "./discoveryCache";
+import { defaultLeadSources, LEAD_SOURCES, type DiscoveredLead, type LeadSource, type LeadSourceQuery } from "./leadSources";
+import type { Lead, User } from "../../drizzle/schema";
+import type { DiscoverLeadsInput } from "../leadValidation";
+import type { LeadSourceId } from "../../shared/discovery";
+
+export type { DiscoveredLead } from "./leadSources";
+
+export interface DiscoverySourceResult {
+  source: LeadSourceId;
+  hasMore: boolean;
+  totalResults: number | null;
+  creditsUsed: number;
+  cachedAt: Date | null; // Set when this source's results came from the discovery cache
+  error: string | null;
+}
+
+export interface SourceSearchResult {
+  leads: DiscoveredLead[];
+  hasMore: boolean;
+  totalResults: number | null; // Unknown when any source can't tell
+  creditsUsed: number;
+  sources: DiscoverySourceResult[];
+}
+
+/**
+ * The user's lead for a company discovery found again
+ */
+export interface KnownLead {
+  id: number;
+  status: Lead["status"];
+  score: number | null;
+  lastContactedAt: Date | null;
+}
+
+export type AnnotatedDiscoveredLead = DiscoveredLead & { knownLead: KnownLead | null };
+
+export interface DiscoveryPage extends Omit<SourceSearchResult, "leads"> {
+  leads: AnnotatedDiscoveredLead[];
+  searchId: number;
+  page: number;
+  hiddenKnown: number; // Results left out for matching existing leads
+}
+
+/**
+ * Search one source, through the discovery cache, and let it enrich what it found
+ * Enrichment is best effort: a failure (e.g. a plan without people search) keeps the plain results.
+ * cacheOnly (for a spent credit budget) serves cached results and fails on a miss
+ */
+async function searchSource(
+  source: LeadSource,
+  userId: number,
+  input: DiscoverLeadsInput,
+  perPage: number,
+  cacheOnly = false
+) {
+  const query: LeadSourceQuery = {
+    query: input.query,
+    industry: input.industry,
+    companySize: input.companySize,
+    location: input.location,
+    page: input.page,
+    perPage,
+    excludeCompanies: input.excludeCompanies,
+    parsedFilters: input.parsedFilters,
+  };
+
+  return searchWithCache(source, userId, query, input.forceRefresh && !cacheOnly, async () => {
+    if (cacheOnly) throw new Error(APOLLO_BUDGET_EXHAUSTED_MESSAGE);
+    const page = await source.search(userId, query);
+    if (source.enrich && page.leads.length > 0) {
+      try {
+        const enriched = await source.enrich(userId, page.leads);
+        return { ...page, leads: enriched.leads, creditsUsed: page.creditsUsed + enriched.creditsUsed };
+      } catch (error) {
+        console.warn(`[Lead Discovery] Enriching ${source.id} results failed, returning them as found:`, error);
+      }
+    }
+    return page;
+  });
+}
+
+/**
+ * Interleave the sources' results, dropping companies an earlier source already returned
+ */
+function mergeResults(pages: DiscoveredLead[][]) {
+  const seen = new Set<string>();
+  const merged: DiscoveredLead[] = [];
+
+  for (let i = 0; i < Math.max(0, ...pages.map(leads => leads.length)); i++) {
+    for (const leads of pages) {
+      const lead = leads[i];
+      if (!lead) continue;
+      const keys = [normalizeDomain(lead.website), normalizeCompanyName(lead.companyName)]
+        .filter((key): key is string => !!key);
+      if (keys.some(key => seen.has(key))) continue;
+      keys.forEach(key => seen.add(key));
+      merged.push(lead);
+    }
+  }
+  return merged;
+}
+
+async function sendDiscoveryNotification(user: User, leads: DiscoveredLead[]) {
+  if (user.emailNotifications !== 1 || leads.length === 0 || !user.email) return;
+
+  try {
+    const { sendLeadNotificationEmail } = await import("./email");
+    const firstLead = leads[0];
+    await sendLeadNotificationEmail(
+      user.email,
+      user.name || "there",
+      firstLead.contactName,
+      firstLead.companyName,
+      firstLead.contactEmail || undefined
+    );
+    console.log("[Lead Discovery] Notification email sent to", user.email);
+  } catch (emailError) {
+    console.error("[Lead Discovery] Failed to send notification email:", emailError);
+  }
+}
+
+/**
+ * Search the chosen sources for one page and merge what they found
+ * The page size is shared between the sources searched. A source that fails is reported
+ * alongside the others' results; the search only fails when every source does.
+ * Paid sources are served from the discovery cache unless the search forces a refresh.
+ * Once the user's Apollo credit budget is spent, Apollo only serves cached results, and
+ * AI templates stand in for it when the cache has nothing or the budget runs out mid-search
+ */
+export async function searchLeadSources(user: User, input: DiscoverLeadsInput): Promise<SourceSearchResult> {
+  const sourceIds = Array.from(new Set(input.sources ?? defaultLeadSources(user)));
+  const sources = sourceIds.map(id => LEAD_SOURCES[id]);
+  for (const source of sources) {
+    const reason = source.unavailableReason(user);
+    if (reason) throw new Error(reason);
+  }
+
+  let apolloBudgetSpent = false;
+  if (sourceIds.includes("apollo")) {
+    const balance = await getApolloCreditBalance(user).catch(() => null);
+    apolloBudgetSpent = balance !== null && balance.remaining <= 0;
+  }
+
+  const perSource = Math.ceil(input.perPage / sources.length);
+  const settled = await Promise.allSettled(sources.map(source =>
+    searchSource(source, user.id, input, perSource, apolloBudgetSpent && source.id === "apollo")));
+
+  // The budget can also run out during the search, after the balance was checked
+  const apolloResult = settled[sourceIds.indexOf("apollo")];
+  const apolloOutOfBudget = apolloResult?.status === "rejected"
+    && apolloResult.reason instanceof Error
+    && apolloResult.reason.message === APOLLO_BUDGET_EXHAUSTED_MESSAGE;
+  if (apolloOutOfBudget && !sourceIds.includes("llm")) {
+    sourceIds.push("llm");
+    settled.push(...await Promise.allSettled([searchSource(LEAD_SOURCES.llm, user.id, input, perSource)]));
+  }
+  if (settled.every(result => result.status === "rejected")) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+
+  const results: DiscoverySourceResult[] = settled.map((result, index) => result.status === "fulfilled"
+    ? {
+        source: sourceIds[index],
+        hasMore: result.value.hasMore,
+        totalResults: result.value.totalResults,
+        creditsUsed: result.value.creditsUsed,
+        cachedAt: result.value.cachedAt,
+        error: null,
+      }
+    : {
+        source: sourceIds[index],
+        hasMore: false,
+        totalResults: null,
+        creditsUsed: 0,
+        cachedAt: null,
+        error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+      });
+  const leads = mergeResults(settled.map(result => result.status === "fulfilled" ? result.value.leads : []));
+  const totals = results.filter(result => !result.error).map(result => result.totalResults);
+
+  return {
+    leads,
+    hasMore: results.some(result => result.hasMore),
+    totalResults: totals.every(total => total !== null) ? totals.reduce<number>((sum, total) => sum + (total ?? 0), 0) : null,
+    creditsUsed: results.reduce((sum, result) => sum + result.creditsUsed, 0),
+    sources: results,
+  };
+}
+
+/**
+ * Match results against the user's leads by domain or company name, so results they already
+ * have show its status, score and when it was last contacted
+ */
+export async function annotateKnownCompanies(userId: number, leads: DiscoveredLead[]): Promise<AnnotatedDiscoveredLead[]> {
+  if (leads.length === 0) return [];
+
+  const byDomain = new Map<string, { id: number; status: Lead["status"]; score: number | null }>();
+  const byName = new Map<string, { id: number; status: Lead["status"]; score: number | null }>();
+  for (const lead of await getUserLeadSummaries(userId)) {
+    const domain = normalizeDomain(lead.website);
+    const name = normalizeCompanyName(lead.companyName);
+    if (domain && !byDomain.has(domain)) byDomain.set(domain, lead);
+    if (name && !byName.has(name)) byName.set(name, lead);
+  }
+
+  const matches = leads.map(lead => {
+    const domain = normalizeDomain(lead.website);
+    const name = normalizeCompanyName(lead.companyName);
+    return (domain && byDomain.get(domain)) || (name && byName.get(name)) || null;
+  });
+  const matchedIds = matches.flatMap(match => match ? [match.id] : []);
+  const lastContact = await getLeadLastContactDates(userId, Array.from(new Set(matchedIds)));
+
+  return leads.map((lead, index) => {
+    const match = matches[index];
+    return {
+      ...lead,
+      knownLead: match
+        ? { id: match.id, status: match.status, score: match.score, lastContactedAt: lastContact.get(match.id) ?? null }
+        : null,
+    };
+  });
+}
+
+/**
+ * Fetch one page of a discovery search
+ * Results are flagged when they match one of the user's leads, or left out with hideKnown.
+ * The first page starts a search history entry; later pages (with its searchId) add to it
+ */
+export async function discoverLeads(user: User, input: DiscoverLeadsInput): Promise<DiscoveryPage> {
+  const result = await searchLeadSources(user, input);
+  const annotated = await annotateKnownCompanies(user.id, result.leads).catch(error => {
+    // Flagging known companies is a convenience; don't lose the results over it
+    console.warn("[Lead Discovery] Failed to match results against existing leads:", error);
+    return result.leads.map(lead => ({ ...lead, knownLead: null }));
+  });
+  const leads = input.hideKnown ? annotated.filter(lead => !lead.knownLead) : annotated;
+
+  let searchId = input.searchId;
+  if (searchId !== undefined) {
+    await recordSearchHistoryPage(searchId, user.id, leads.length);
+  } else {
+    searchId = await createSearchHistory({
+      userId: user.id,
+      query: input.query,
+      industry: input.industry || null,
+      companySize: input.companySize || null,
+      location: input.location || null,
+      filters: JSON.stringify({
+        industry: input.industry,
+        companySize: input.companySize,
+        location: input.location,
+        perPage: input.perPage,
+        sources: result.sources.map(source => source.source),
+      }),
+      parsedFilters: input.parsedFilters ? JSON.stringify(input.parsedFilters) : null,
+      resultsCount: leads.length,
+      pagesLoaded: 1,
+    });
+    // Only the first page of a search sends a notification
+    await sendDiscoveryNotification(user, leads);
+  }
+
+  return { ...result, leads, searchId, page: input.page, hiddenKnown: annotated.length - leads.length };
+}
@@ -0,0 +1,245 @@
+/**
+ * Lead Enrichment Service
+ * Runs enrichers against a lead (by themselves for new leads, or when the user asks), stores the
+ * facts each one finds under its own name, and reconciles them when sources disagree.
+ * Reconciled facts fill in lead fields the user left empty; they never overwrite what's there
+ */
+
+import {
+  getLeadById,
+  getLeadContacts,
+  getLeadEmailClicks,
+  getLeadEmailOpens,
+  getLeadEnrichmentData,
+  getLeadTechnologies,
+  getUserById,
+  replaceEnrichmentData,
+  updateLead,
+  updateLeadScore,
+} from "../db";
+import { calculateLeadScore } from "../leadScoring";
+import { getScoringModel } from "./scoringModel";
+import { ENRICHERS, fetchWebsite, type EnrichmentContext, type WebPage } from "./enrichers";
+import type { EnrichmentData, InsertLead, Lead, User } from "../../drizzle/schema";
+import { combinedConfidence, type EnricherId, type EnrichmentValue, type ReconciledFact } from "../../shared/enrichment";
+
+// Reconciled facts must be at least this sure before they fill in a lead field
+const MIN_APPLY_CONFIDENCE = 60;
+
+// Lead fields enrichment may fill in, and the fact each comes from
+const LEAD_FIELD_FACTS: { field: keyof InsertLead & keyof Lead; dataType: string; dataKey: string; format?: (value: EnrichmentValue) => string }[] = [
+  { field: "industry", dataType: "firmographic", dataKey: "industry" },
+  { field: "companySize", dataType: "firmographic", dataKey: "employee_count", format: value => `${value} employees` },
+  { field: "location", dataType: "firmographic", dataKey: "location" },
+  { field: "description", dataType: "firmographic", dataKey: "description" },
+  { field: "contactPhone", dataType: "contact", dataKey: "phone" },
+];
+
+export interface EnricherRun {
+  enricher: EnricherId;
+  status: "ok" | "skipped" | "failed";
+  facts: number;
+  error: string | null; // Why it was skipped or failed
+}
+
+export interface EnrichmentRun {
+  leadId: number;
+  enrichers: EnricherRun[];
+  updatedFields: string[]; // Lead fields filled in from reconciled facts
+}
+
+function parseValue(dataValue: string): EnrichmentValue {
+  try {
+    const parsed: unknown = JSON.parse(dataValue);
+    if (typeof parsed === "string" || typeof parsed === "number") return parsed;
+    if (Array.isArray(parsed)) return parsed.map(String);
+  } catch {
+    // Stored as plain text
+  }
+  return dataValue;
+}
+
+// How values are compared across sources: "Acme, Inc." from one and "acme, inc" from another agree
+function comparable(value: string | number) {
+  return String(value).toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+/**
+ * Weigh up every source's value for each fact
+ * Scalar values from different sources are grouped when they agree, and the group with the highest
+ * combined confidence wins (the latest on a tie). Lists are merged instead
+ */
+export function reconcileFacts(rows: EnrichmentData[]): ReconciledFact[] {
+  const groups = new Map<string, EnrichmentData[]>();
+  for (const row of rows) {
+    // Keys are matched regardless of case, so "HubSpot" from one source and "Hubspot" from another are one technology
+    const key = `${row.dataType}\u0000${row.dataKey.toLowerCase()}`;
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  }
+
+  return Array.from(groups.values()).map((group): ReconciledFact => {
+    const { dataType, dataKey } = group[0];
+    const updatedAt = new Date(Math.max(...group.map(row => new Date(row.updatedAt).getTime())));
+    const values = group.map(row => ({ value: parseValue(row.dataValue), confidence: row.confidence ?? 0, source: row.source ?? "unknown", at: new Date(row.updatedAt).getTime() }));
+
+    if (values.every(entry => Array.isArray(entry.value))) {
+      const items = new Map<string, string>();
+      for (const entry of values.slice().sort((a, b) => b.confidence - a.confidence)) {
+        for (const item of entry.value as string[]) {
+          if (!items.has(comparable(item))) items.set(comparable(item), item);
+        }
+      }
+      return {
+        dataType,
+        dataKey,
+        value: Array.from(items.values()),
+        confidence: Math.max(...values.map(entry => entry.confidence)),
+        sources: Array.from(new Set(values.map(entry => entry.source))),
+        alternatives: [],
+        updatedAt,
+      };
+    }
+
+    // A technology fact says the technology is there; sources filing it under different categories still agree on that
+    const clusters = new Map<string, typeof values>();
+    for (const entry of values) {
+      const key = dataType === "technology" ? "" : Array.isArray(entry.value) ? comparable(entry.value.join(" ")) : comparable(entry.value);
+      clusters.set(key, [...(clusters.get(key) ?? []), entry]);
+    }
+    const ranked = Array.from(clusters.values())
+      .map(cluster => {
+        const best = cluster.slice().sort((a, b) => b.confidence - a.confidence || b.at - a.at)[0];
+        return {
+          value: best.value,
+          confidence: combinedConfidence(cluster.map(entry => entry.confidence)),
+          sources: Array.from(new Set(cluster.map(entry => entry.source))),
+          at: Math.max(...cluster.map(entry => entry.at)),
+        };
+      })
+      .sort((a, b) => b.confidence - a.confidence || b.at - a.at);
+
+    const [winner, ...alternatives] = ranked;
+    return {
+      dataType,
+      dataKey,
+      value: winner.value,
+      confidence: winner.confidence,
+      sources: winner.sources,
+      alternatives: alternatives.map(({ value, confidence, sources }) => ({ value, confidence, sources })),
+      updatedAt,
+    };
+  });
+}
+
+/**
+ * A lead's reconciled facts
+ */
+export async function getLeadEnrichment(leadId: number, userId: number): Promise<ReconciledFact[]> {
+  const lead = await getLeadById(leadId, userId);
+  if (!lead) throw new Error("Lead not found");
+  return reconcileFacts(await getLeadEnrichmentData(leadId));
+}
+
+function isBlank(value: unknown) {
+  return value === null || value === undefined || (typeof value === "string" && (!value.trim() || value.trim().toLowerCase() === "unknown"));
+}
+
+/**
+ * Fill in the lead's empty fields from confident facts, and rescore it when anything was found
+ * (new technologies change the score even when no field does)
+ */
+async function applyFacts(lead: Lead, userId: number, facts: ReconciledFact[], found: boolean) {
+  const updates: Partial<InsertLead> = {};
+  for (const { field, dataType, dataKey, format } of LEAD_FIELD_FACTS) {
+    const fact = facts.find(f => f.dataType === dataType && f.dataKey === dataKey);
+    if (!fact || fact.confidence < MIN_APPLY_CONFIDENCE || Array.isArray(fact.value) || !isBlank(lead[field])) continue;
+    (updates as Record<string, unknown>)[field] = format ? format(fact.value) : String(fact.value);
+  }
+
+  const updatedFields = Object.keys(updates);
+  if (updatedFields.length > 0) await updateLead(lead.id, userId, updates);
+  if (updatedFields.length === 0 && !found) return updatedFields;
+
+  const [opens, clicks, contacts, technologies, model] = await Promise.all([
+    getLeadEmailOpens(lead.id),
+    getLeadEmailClicks(lead.id),
+    getLeadContacts(lead.id),
+    getLeadTechnologies(lead.id),
+    getScoringModel(userId),
+  ]);
+  const { score } = calculateLeadScore({ ...lead, ...updates } as Lead, opens.length, clicks.length, contacts, technologies, model);
+  if (score !== lead.score) await updateLeadScore(lead.id, score);
+  return updatedFields;
+}
+
+/**
+ * Run enrichers against a lead: the ones asked for, or every one the user can use
+ * An enricher that finds nothing keeps the facts it stored before; one that fails doesn't stop the others
+ */
+export async function enrichLead(user: User, leadId: number, enricherIds?: EnricherId[]): Promise<EnrichmentRun> {
+  const lead = await getLeadById(leadId, user.id);
+  if (!lead) throw new Error("Lead not found");
+
+  const enrichers = Array.from(new Set(enricherIds ?? (Object.keys(ENRICHERS) as EnricherId[]))).map(id => ENRICHERS[id]);
+  if (enricherIds) {
+    for (const enricher of enrichers) {
+      const reason = enricher.unavailableReason(user);
+      if (reason) throw new Error(reason);
+    }
+  }
+
+  let website: Promise<WebPage | null> | undefined;
+  const context: EnrichmentContext = {
+    user,
+    fetchWebsite: () => (website ??= fetchWebsite(lead.website)),
+  };
+
+  const runs = await Promise.all(enrichers.map(async (enricher): Promise<EnricherRun> => {
+    const reason = enricher.unavailableReason(user);
+    if (reason) return { enricher: enricher.id, status: "skipped", facts: 0, error: reason };
+
+    try {
+      const facts = await enricher.enrich(lead, context);
+      if (facts.length > 0) {
+        await replaceEnrichmentData(lead.id, enricher.id, facts.map(fact => ({
+          dataType: fact.dataType,
+          dataKey: fact.dataKey,
+          dataValue: JSON.stringify(fact.value),
+          confidence: Math.max(0, Math.min(100, Math.round(fact.confidence))),
+        })));
+      }
+      return { enricher: enricher.id, status: "ok", facts: facts.length, error: null };
+    } catch (error) {
+      console.error(`[Enrichment] ${enricher.id} failed for lead ${lead.id}:`, error);
+      return { enricher: enricher.id, status: "failed", facts: 0, error: error instanceof Error ? error.message : String(error) };
+    }
+  }));
+
+  const facts = reconcileFacts(await getLeadEnrichmentData(lead.id));
+  const updatedFields = await applyFacts(lead, user.id, facts, runs.some(run => run.facts > 0));
+
+  return { leadId: lead.id, enrichers: runs, updatedFields };
+}
+
+/**
+ * Enrich newly created leads with the automatic enrichers, one lead at a time
+ * Called without awaiting when leads are created, so it never rejects; failures are only logged
+ */
+export async function enrichNewLeads(userId: number, leadIds: number[]) {
+  try {
+    const user = await getUserById(userId);
+    if (!user || leadIds.length === 0) return;
+
+    const automatic = (Object.keys(ENRICHERS) as EnricherId[]).filter(id =>
+      ENRICHERS[id].automatic && !ENRICHERS[id].unavailableReason(user));
+    if (automatic.length === 0) return;
+
+    for (const leadId of leadIds) {
+      await enrichLead(user, leadId, automatic).catch(error => {
+        console.error(`[Enrichment] Failed to enrich new lead ${leadId}:`, error);
+      });
+    }
+  } catch (error) {
+    console.error(`[Enrichment] Failed to enrich new leads for user ${userId}:`, error);
+  }
+}
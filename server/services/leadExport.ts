@@ -0,0 +1,293 @@
+/**
+ * Lead Export Service
+ * Streams a user's filtered leads to CSV, XLSX or JSON in batches so large
+ * exports never have to be held in memory
+ */
+
+import { once } from "events";
+import type { Writable } from "stream";
+import ExcelJS from "exceljs";
+import jwt from "jsonwebtoken";
+import { getFilteredLeadsPage, getLeadEngagementCounts, getTagsForLeads, type LeadCursor } from "../db";
+import { getScorePriority } from "../leadScoring";
+import { ENV } from "../_core/env";
+import {
+  CUSTOM_FIELD_PREFIX,
+  parseCustomFieldValues,
+  type CustomFieldDefinition,
+} from "../../shared/customFields";
+import type { LeadTag } from "../../shared/tags";
+import type { ScoringModel } from "../../shared/scoring";
+import {
+  LEAD_EXPORT_COLUMNS,
+  leadExportOptionsSchema,
+  type LeadExportOptions,
+  type LeadListFilters,
+} from "../leadValidation";
+
+export type StandardExportColumn = (typeof LEAD_EXPORT_COLUMNS)[number];
+/** A built-in column, or "custom:<key>" for a custom field */
+export type LeadExportColumn = StandardExportColumn | `${typeof CUSTOM_FIELD_PREFIX}${string}`;
+export type LeadExportFormat = LeadExportOptions["format"];
+
+/** Lead fields read by exports (a lead row or a test-mode lead record) */
+export interface ExportableLead {
+  id: number;
+  companyName: string;
+  website: string | null;
+  industry: string | null;
+  companySize: string | null;
+  location: string | null;
+  description: string | null;
+  contactName: string | null;
+  contactTitle: string | null;
+  contactEmail: string | null;
+  contactLinkedin: string | null;
+  contactPhone: string | null;
+  status: string;
+  score: number | null;
+  notes: string | null;
+  tags: LeadTag[];
+  customFields: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface LeadExportRow extends ExportableLead {
+  emailOpens: number;
+  emailClicks: number;
+}
+
+type ExportValue = string | number | string[] | null;
+
+export const LEAD_EXPORT_COLUMN_LABELS: Record<StandardExportColumn, string> = {
+  companyName: "Company Name",
+  website: "Website",
+  industry: "Industry",
+  companySize: "Company Size",
+  location: "Location",
+  description: "Description",
+  contactName: "Contact Name",
+  contactTitle: "Contact Title",
+  contactEmail: "Contact Email",
+  contactLinkedin: "Contact LinkedIn",
+  contactPhone: "Contact Phone",
+  status: "Status",
+  score: "Score",
+  scorePriority: "Priority",
+  emailOpens: "Email Opens",
+  emailClicks: "Email Clicks",
+  notes: "Notes",
+  tags: "Tags",
+  createdAt: "Created At",
+  updatedAt: "Updated At",
+};
+
+export const DEFAULT_EXPORT_COLUMNS: StandardExportColumn[] = [...LEAD_EXPORT_COLUMNS];
+
+const CONTENT_TYPES: Record<LeadExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json; charset=utf-8",
+};
+
+const EXPORT_BATCH_SIZE = 500;
+const EXPORT_TOKEN_TTL = "5m";
+const EXPORT_TOKEN_PURPOSE = "lead_export";
+
+function findCustomField(column: string, customFields: CustomFieldDefinition[]) {
+  if (!column.startsWith(CUSTOM_FIELD_PREFIX)) return undefined;
+  const key = column.slice(CUSTOM_FIELD_PREFIX.length);
+  return customFields.find(field => field.fieldKey === key);
+}
+
+/**
+ * Header for a column; currency fields name their currency
+ */
+export function getExportColumnLabel(column: LeadExportColumn, customFields: CustomFieldDefinition[] = []): string {
+  const custom = findCustomField(column, customFields);
+  if (custom) {
+    return custom.fieldType === "currency" && custom.currency ? `${custom.label} (${custom.currency})` : custom.label;
+  }
+  return LEAD_EXPORT_COLUMN_LABELS[column as StandardExportColumn] ?? column;
+}
+
+/**
+ * Drop custom columns whose field no longer exists
+ */
+export function resolveExportColumns(columns: LeadExportColumn[], customFields: CustomFieldDefinition[]): LeadExportColumn[] {
+  return columns.filter(column => !column.startsWith(CUSTOM_FIELD_PREFIX) || !!findCustomField(column, customFields));
+}
+
+/**
+ * Read one column's value from an export row
+ * Custom fields keep their stored type (numbers, dates as YYYY-MM-DD, lists for multi-select)
+ */
+export function getExportValue(
+  row: LeadExportRow,
+  column: LeadExportColumn,
+  customFields: CustomFieldDefinition[] = [],
+  thresholds?: ScoringModel["thresholds"]
+): ExportValue {
+  const custom = findCustomField(column, customFields);
+  if (custom) {
+    return parseCustomFieldValues(row.customFields)[custom.fieldKey] ?? null;
+  }
+
+  switch (column) {
+    case "scorePriority":
+      return getScorePriority(row.score ?? 0, thresholds);
+    case "tags":
+      return row.tags.map(tag => tag.name);
+    case "createdAt":
+    case "updatedAt":
+      return new Date(row[column]).toISOString();
+    default:
+      return row[column as Exclude<StandardExportColumn, "scorePriority" | "tags" | "createdAt" | "updatedAt">] ?? null;
+  }
+}
+
+/**
+ * Page through a user's matching leads, attaching tags and open/click counts to each batch
+ */
+export async function* fetchLeadExportBatches(
+  userId: number,
+  filters: LeadListFilters,
+  customFields: CustomFieldDefinition[] = []
+): AsyncGenerator<LeadExportRow[]> {
+  for (let cursor: LeadCursor | null = null; ;) {
+    const page = await getFilteredLeadsPage(userId, filters, cursor, EXPORT_BATCH_SIZE, customFields);
+    if (page.length === 0) return;
+
+    const leadIds = page.map(lead => lead.id);
+    const counts = await getLeadEngagementCounts(leadIds);
+    const tagsByLead = await getTagsForLeads(leadIds);
+    yield page.map(lead => ({
+      ...lead,
+      tags: tagsByLead.get(lead.id) ?? [],
+      emailOpens: counts.get(lead.id)?.opens ?? 0,
+      emailClicks: counts.get(lead.id)?.clicks ?? 0,
+    }));
+
+    if (page.length < EXPORT_BATCH_SIZE) return;
+    const last = page[page.length - 1];
+    cursor = { value: last.sortValue, id: last.id };
+  }
+}
+
+// Spreadsheet formats hold one scalar per cell
+function toCellValue(value: ExportValue): string | number | null {
+  return Array.isArray(value) ? value.join(", ") : value;
+}
+
+function escapeCsvValue(value: ExportValue): string {
+  const cell = toCellValue(value);
+  if (cell === null) return "";
+  const text = String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function writeChunk(output: Writable, chunk: string) {
+  if (!output.write(chunk)) {
+    await once(output, "drain");
+  }
+}
+
+/**
+ * Write export rows to a stream in the requested format
+ * Returns the number of leads written
+ */
+export async function writeLeadExport(
+  output: Writable,
+  format: LeadExportFormat,
+  columns: LeadExportColumn[],
+  batches: AsyncIterable<LeadExportRow[]>,
+  customFields: CustomFieldDefinition[] = [],
+  thresholds?: ScoringModel["thresholds"]
+): Promise<number> {
+  const label = (column: LeadExportColumn) => getExportColumnLabel(column, customFields);
+  const value = (row: LeadExportRow, column: LeadExportColumn) => getExportValue(row, column, customFields, thresholds);
+
+  let count = 0;
+
+  if (format === "xlsx") {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useSharedStrings: false });
+    const worksheet = workbook.addWorksheet("Leads");
+    worksheet.columns = columns.map(column => ({ header: label(column), key: column }));
+
+    for await (const batch of batches) {
+      for (const row of batch) {
+        worksheet.addRow(columns.map(column => toCellValue(value(row, column)))).commit();
+        count++;
+      }
+    }
+
+    worksheet.commit();
+    await workbook.commit();
+    return count;
+  }
+
+  if (format === "csv") {
+    // BOM so Excel detects UTF-8
+    await writeChunk(output, "\uFEFF" + columns.map(c => escapeCsvValue(label(c))).join(",") + "\r\n");
+  } else {
+    await writeChunk(output, "[");
+  }
+
+  for await (const batch of batches) {
+    const lines = batch.map(row => {
+      const entry = format === "csv"
+        ? columns.map(column => escapeCsvValue(value(row, column))).join(",")
+        : (count > 0 ? "," : "") + "\n  " + JSON.stringify(Object.fromEntries(columns.map(column => [column, value(row, column)])));
+      count++;
+      return entry;
+    });
+    if (lines.length > 0) {
+      await writeChunk(output, format === "csv" ? lines.join("\r\n") + "\r\n" : lines.join(""));
+    }
+  }
+
+  if (format === "json") {
+    await writeChunk(output, count > 0 ? "\n]\n" : "]\n");
+  }
+  output.end();
+
+  return count;
+}
+
+export function getLeadExportFileName(format: LeadExportFormat, date: Date = new Date()): string {
+  return `leads_export_${date.toISOString().split("T")[0]}.${format}`;
+}
+
+export function getLeadExportContentType(format: LeadExportFormat): string {
+  return CONTENT_TYPES[format];
+}
+
+/**
+ * Sign a short-lived token authorizing downloads of an export for 5 minutes; it isn't single-use
+ * The browser follows the download URL directly, so the export options travel in the token
+ */
+export function createLeadExportToken(userId: number, options: LeadExportOptions): string {
+  return jwt.sign(
+    { purpose: EXPORT_TOKEN_PURPOSE, userId, options },
+    ENV.jwtSecret,
+    { expiresIn: EXPORT_TOKEN_TTL }
+  );
+}
+
+/**
+ * Verify an export token, returning null if it is invalid or expired
+ */
+export function verifyLeadExportToken(token: string): { userId: number; options: LeadExportOptions } | null {
+  try {
+    const payload = jwt.verify(token, ENV.jwtSecret) as { purpose?: string; userId?: number; options?: unknown };
+    if (payload.purpose !== EXPORT_TOKEN_PURPOSE || typeof payload.userId !== "number") {
+      return null;
+    }
+
+    const options = leadExportOptionsSchema.safeParse(payload.options);
+    return options.success ? { userId: payload.userId, options: options.data } : null;
+  } catch {
+    return null;
+  }
+}
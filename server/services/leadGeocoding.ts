@@ -0,0 +1,167 @@
+/**
+ * Lead Geocoding
+ * Places leads on the map from their location text. Coordinates are kept on the lead along with
+ * the text they came from, so a lead is only looked up again once its location changes, and a
+ * location shared by many leads is only looked up once
+ */
+
+import { getGeocodedLocations, getLeadById, getLeadLocations, getLeadsInBox, saveLeadLocation } from "../db";
+import { getGeocoder, sampleGeocoder, type Geocoder } from "./geocoders";
+import { boundingBox, distanceKm, type LatLng } from "../../shared/geo";
+import type { Lead } from "../../drizzle/schema";
+
+// Lookups per run, so the map answers quickly; it asks again while leads are still pending
+const MAX_LOCATIONS_PER_RUN = 25;
+
+const NEARBY_LIMIT = 10;
+
+type LeadLocation = Pick<Lead, "id" | "companyName" | "status" | "score" | "location" | "latitude" | "longitude" | "geocodedLocation">;
+
+export interface MapLead extends LatLng {
+  id: number;
+  companyName: string;
+  status: Lead["status"];
+  score: number;
+  location: string;
+}
+
+export interface LeadMap {
+  leads: MapLead[];
+  pending: number; // Leads whose location hasn't been looked up yet
+  unlocated: number; // Leads whose location couldn't be found
+}
+
+export interface GeocodeRun {
+  located: number;
+  notFound: number;
+  remaining: number; // Leads still pending, for the next run
+  error: string | null; // Why the run stopped early
+}
+
+export interface NearbyLeads {
+  center: LatLng | null; // Null when the lead's location couldn't be found
+  leads: (MapLead & { distanceKm: number })[];
+}
+
+function sameLocation(a: string | null, b: string | null) {
+  // Matches how MySQL compares them: case-insensitively, ignoring trailing spaces
+  return a !== null && b !== null && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function needsGeocoding(lead: LeadLocation) {
+  return !!lead.location?.trim() && !sameLocation(lead.geocodedLocation, lead.location);
+}
+
+function toMapLead(lead: LeadLocation): MapLead | null {
+  if (needsGeocoding(lead) || lead.latitude === null || lead.longitude === null) return null;
+  return {
+    id: lead.id,
+    companyName: lead.companyName,
+    status: lead.status,
+    score: lead.score ?? 0,
+    location: lead.location!,
+    lat: lead.latitude,
+    lng: lead.longitude,
+  };
+}
+
+/**
+ * The user's leads that are on the map, and how many aren't yet
+ */
+export async function getLeadMap(userId: number): Promise<LeadMap> {
+  const located = await getLeadLocations(userId);
+  const leads = located.map(toMapLead).filter((lead): lead is MapLead => lead !== null);
+  const pending = located.filter(needsGeocoding).length;
+  return { leads, pending, unlocated: located.length - leads.length - pending };
+}
+
+/**
+ * Sample leads aren't saved, so they're placed by the stand-in geocoder each time
+ */
+export async function getSampleLeadMap(sampleLeads: Pick<Lead, "id" | "companyName" | "status" | "score" | "location">[]): Promise<LeadMap> {
+  const leads: MapLead[] = [];
+  let unlocated = 0;
+  for (const lead of sampleLeads) {
+    const result = lead.location ? await sampleGeocoder.geocode(lead.location) : null;
+    if (!result) {
+      if (lead.location) unlocated++;
+      continue;
+    }
+    leads.push({ id: lead.id, companyName: lead.companyName, status: lead.status, score: lead.score ?? 0, location: lead.location!, lat: result.lat, lng: result.lng });
+  }
+  return { leads, pending: 0, unlocated };
+}
+
+async function locate(userId: number, location: string, geocoder: Geocoder): Promise<LatLng | null> {
+  const [known] = (await getGeocodedLocations(userId, [location])).filter(row => sameLocation(row.location, location));
+  if (known) return known.latitude !== null && known.longitude !== null ? { lat: known.latitude, lng: known.longitude } : null;
+
+  const result = await geocoder.geocode(location);
+  return result && { lat: result.lat, lng: result.lng };
+}
+
+/**
+ * Geocode leads whose location is new or has changed, a batch of distinct locations at a time
+ */
+export async function geocodePendingLeads(userId: number, geocoder: Geocoder = getGeocoder()): Promise<GeocodeRun> {
+  const pending = (await getLeadLocations(userId)).filter(needsGeocoding);
+
+  // One lookup per distinct location, however many leads share it
+  const byLocation = new Map<string, { location: string; count: number }>();
+  for (const lead of pending) {
+    const key = lead.location!.trim().toLowerCase();
+    const entry = byLocation.get(key) ?? { location: lead.location!, count: 0 };
+    entry.count++;
+    byLocation.set(key, entry);
+  }
+
+  const run: GeocodeRun = { located: 0, notFound: 0, remaining: pending.length, error: null };
+  for (const { location, count } of Array.from(byLocation.values()).slice(0, MAX_LOCATIONS_PER_RUN)) {
+    let coordinates: LatLng | null;
+    try {
+      coordinates = await locate(userId, location, geocoder);
+    } catch (error) {
+      // A failed lookup is the geocoder's trouble, not the location's, so the rest would fail too
+      console.warn(`[Geocoding] Couldn't geocode "${location}":`, error instanceof Error ? error.message : error);
+      run.error = error instanceof Error ? error.message : "Geocoding failed";
+      break;
+    }
+    await saveLeadLocation(userId, location, coordinates);
+    if (coordinates) run.located += count;
+    else run.notFound += count;
+    run.remaining -= count;
+  }
+  return run;
+}
+
+/**
+ * The user's other leads within a radius of a lead, closest first; the lead is geocoded first if it needs to be
+ */
+export async function findNearbyLeads(
+  userId: number,
+  leadId: number,
+  radiusKm: number,
+  geocoder: Geocoder = getGeocoder()
+): Promise<NearbyLeads> {
+  const lead = await getLeadById(leadId, userId);
+  if (!lead) throw new Error("Lead not found");
+  if (!lead.location?.trim()) throw new Error("Add the lead's location to find leads near it");
+
+  let center: LatLng | null = lead.latitude !== null && lead.longitude !== null ? { lat: lead.latitude, lng: lead.longitude } : null;
+  if (needsGeocoding(lead)) {
+    center = await locate(userId, lead.location, geocoder);
+    await saveLeadLocation(userId, lead.location, center);
+  }
+  if (!center) return { center: null, leads: [] };
+
+  const nearby = (await getLeadsInBox(userId, boundingBox(center, radiusKm)))
+    .filter(other => other.id !== lead.id)
+    .map(other => {
+      const mapLead = toMapLead(other);
+      return mapLead && { ...mapLead, distanceKm: distanceKm(center!, mapLead) };
+    })
+    .filter((other): other is MapLead & { distanceKm: number } => other !== null && other.distanceKm <= radiusKm)
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+
+  return { center, leads: nearby.slice(0, NEARBY_LIMIT) };
+}
@@ -0,0 +1,431 @@
+/**
+ * Lead Import Service
+ * Parses CSV/XLSX files, maps their columns onto lead fields, validates each row
+ * with the same rules as manual lead creation, and detects duplicates
+ */
+
+import ExcelJS from "exceljs";
+import { createLeads, getUserLeadIdentities } from "../db";
+import { getUserCustomFields } from "./customFields";
+import { tagLeadsByName } from "./tags";
+import { calculateLeadScore } from "../leadScoring";
+import { getScoringModel } from "./scoringModel";
+import { normalizeCompanyName, normalizeDomain, normalizeEmail } from "../leadMatching";
+import { LEAD_INPUT_FIELDS, leadInputSchema, type LeadInput } from "../leadValidation";
+import {
+  CUSTOM_FIELD_PREFIX,
+  normalizeCustomFieldValue,
+  type CustomFieldDefinition,
+  type CustomFieldValues,
+} from "../../shared/customFields";
+import { parseTagList } from "../../shared/tags";
+import type { InsertLead } from "../../drizzle/schema";
+
+/** A built-in lead field, or "custom:<key>" for a user-defined field */
+export type LeadImportField = keyof LeadInput | `${typeof CUSTOM_FIELD_PREFIX}${string}`;
+
+/**
+ * Spreadsheet header -> lead field it should populate (null = ignore column)
+ * Mappings arrive from the client, so importLeads checks every field is known
+ */
+export type ColumnMapping = Record<string, LeadImportField | string | null>;
+
+export interface ParsedImportFile {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface LeadImportRowError {
+  row: number; // Spreadsheet row number (header is row 1)
+  field?: string;
+  message: string;
+}
+
+export interface LeadImportDuplicate {
+  row: number;
+  companyName: string;
+  matchedOn: "email" | "domain" | "companyName";
+  existingLeadId: number | null; // null = duplicate of an earlier row in the same file
+}
+
+export interface LeadImportOptions {
+  skipDuplicates?: boolean;
+  dryRun?: boolean;
+}
+
+export interface LeadImportResult {
+  totalRows: number;
+  imported: number;
+  skippedDuplicates: number;
+  failed: number;
+  dryRun: boolean;
+  errors: LeadImportRowError[];
+  duplicates: LeadImportDuplicate[];
+}
+
+export const MAX_IMPORT_ROWS = 10000;
+
+// Header spellings commonly exported by CRMs and spreadsheets
+const HEADER_ALIASES: Record<LeadImportField, string[]> = {
+  companyName: ["company", "company name", "organization", "organisation", "account", "account name", "business"],
+  website: ["website", "url", "domain", "web", "site", "company website", "company url"],
+  industry: ["industry", "sector", "vertical"],
+  companySize: ["company size", "size", "employees", "headcount", "employee count", "number of employees"],
+  location: ["location", "city", "address", "hq", "headquarters", "region", "country"],
+  description: ["description", "about", "summary", "company description"],
+  contactName: ["contact", "contact name", "name", "full name", "person"],
+  contactTitle: ["title", "job title", "contact title", "position", "role"],
+  contactEmail: ["email", "contact email", "email address"],
+  contactLinkedin: ["linkedin", "linkedin url", "contact linkedin", "linkedin profile"],
+  contactPhone: ["phone", "phone number", "contact phone", "mobile", "telephone"],
+  notes: ["notes", "note", "comments"],
+  tags: ["tags", "labels"],
+};
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped quotes, embedded newlines)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Strip UTF-8 BOM written by Excel
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Read the first worksheet of an XLSX workbook as rows of display text
+ */
+export async function parseXlsx(data: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(new Uint8Array(data).buffer);
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return [];
+
+  const rows: string[][] = [];
+  const columnCount = worksheet.columnCount;
+
+  worksheet.eachRow({ includeEmpty: false }, (row) => {
+    const values: string[] = [];
+    for (let col = 1; col <= columnCount; col++) {
+      values.push(row.getCell(col).text ?? "");
+    }
+    rows.push(values);
+  });
+
+  return rows;
+}
+
+/**
+ * Parse an uploaded CSV or XLSX file into a header row and data rows
+ */
+export async function parseImportFile(fileName: string, data: Buffer): Promise<ParsedImportFile> {
+  const extension = fileName.toLowerCase().split(".").pop();
+
+  let rawRows: string[][];
+  if (extension === "csv") {
+    rawRows = parseCsv(data.toString("utf8"));
+  } else if (extension === "xlsx") {
+    rawRows = await parseXlsx(data);
+  } else {
+    throw new Error("Unsupported file type. Please upload a .csv or .xlsx file");
+  }
+
+  // Drop rows where every cell is blank
+  const nonEmptyRows = rawRows.filter(row => row.some(cell => cell.trim() !== ""));
+  if (nonEmptyRows.length === 0) {
+    throw new Error("The file is empty");
+  }
+
+  const [headerRow, ...rows] = nonEmptyRows;
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Files can contain at most ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  return { headers: uniqueHeaders(headerRow), rows };
+}
+
+/**
+ * Make header names unique and non-empty so they can key a column mapping
+ */
+function uniqueHeaders(headerRow: string[]): string[] {
+  const seen = new Map<string, number>();
+
+  return headerRow.map((raw, index) => {
+    const base = raw.trim() || `Column ${index + 1}`;
+    const count = seen.get(base) || 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base} (${count + 1})`;
+  });
+}
+
+// Compare headers ignoring case, spacing and punctuation ("E-mail" == "email", "LinkedIn URL" == "linkedin url")
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]+/g, "");
+}
+
+/**
+ * Guess which lead field each column holds based on its header
+ */
+export function suggestColumnMapping(headers: string[], customFields: CustomFieldDefinition[] = []): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const assigned = new Set<LeadImportField>();
+
+  for (const header of headers) {
+    const normalized = normalizeHeader(header);
+    let field: LeadImportField | undefined = LEAD_INPUT_FIELDS.find(candidate =>
+      !assigned.has(candidate) &&
+      (normalizeHeader(candidate) === normalized || HEADER_ALIASES[candidate].some(alias => normalizeHeader(alias) === normalized))
+    );
+
+    if (!field) {
+      const custom = customFields.find(definition =>
+        !assigned.has(`${CUSTOM_FIELD_PREFIX}${definition.fieldKey}`) &&
+        (normalizeHeader(definition.label) === normalized || normalizeHeader(definition.fieldKey) === normalized)
+      );
+      if (custom) field = `${CUSTOM_FIELD_PREFIX}${custom.fieldKey}`;
+    }
+
+    mapping[header] = field ?? null;
+    if (field) assigned.add(field);
+  }
+
+  return mapping;
+}
+
+/**
+ * Build a lead input object from one data row using the column mapping
+ * Blank cells are left out so optional fields stay optional
+ */
+export function mapRowToLeadInput(
+  headers: string[],
+  row: string[],
+  mapping: ColumnMapping
+): Record<string, string> {
+  const input: Record<string, string> = {};
+
+  headers.forEach((header, index) => {
+    const field = mapping[header];
+    const value = (row[index] ?? "").trim();
+    if (field && value) {
+      input[field] = value;
+    }
+  });
+
+  return input;
+}
+
+/**
+ * Separate "custom:<key>" entries from built-in lead fields
+ */
+function splitCustomFields(input: Record<string, string>) {
+  const standard: Record<string, string> = {};
+  const custom: Record<string, string> = {};
+
+  for (const [field, value] of Object.entries(input)) {
+    if (field.startsWith(CUSTOM_FIELD_PREFIX)) {
+      custom[field.slice(CUSTOM_FIELD_PREFIX.length)] = value;
+    } else {
+      standard[field] = value;
+    }
+  }
+
+  return { standard, custom };
+}
+
+/**
+ * Index existing leads by their identifying fields for duplicate lookups
+ */
+class DuplicateIndex {
+  private byEmail = new Map<string, number | null>();
+  private byDomain = new Map<string, number | null>();
+  private byCompanyName = new Map<string, number | null>();
+
+  add(lead: { companyName: string; website?: string | null; contactEmail?: string | null }, leadId: number | null) {
+    const email = normalizeEmail(lead.contactEmail);
+    const domain = normalizeDomain(lead.website);
+    const companyName = normalizeCompanyName(lead.companyName);
+
+    if (email && !this.byEmail.has(email)) this.byEmail.set(email, leadId);
+    if (domain && !this.byDomain.has(domain)) this.byDomain.set(domain, leadId);
+    if (companyName && !this.byCompanyName.has(companyName)) this.byCompanyName.set(companyName, leadId);
+  }
+
+  find(lead: LeadInput): Pick<LeadImportDuplicate, "matchedOn" | "existingLeadId"> | null {
+    const email = normalizeEmail(lead.contactEmail);
+    if (email && this.byEmail.has(email)) {
+      return { matchedOn: "email", existingLeadId: this.byEmail.get(email)! };
+    }
+
+    const domain = normalizeDomain(lead.website);
+    if (domain && this.byDomain.has(domain)) {
+      return { matchedOn: "domain", existingLeadId: this.byDomain.get(domain)! };
+    }
+
+    const companyName = normalizeCompanyName(lead.companyName);
+    if (companyName && this.byCompanyName.has(companyName)) {
+      return { matchedOn: "companyName", existingLeadId: this.byCompanyName.get(companyName)! };
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Validate, dedupe, score and insert the rows of a parsed import file
+ */
+export async function importLeads(
+  userId: number,
+  file: ParsedImportFile,
+  mapping: ColumnMapping,
+  options: LeadImportOptions = {}
+): Promise<LeadImportResult> {
+  const skipDuplicates = options.skipDuplicates ?? true;
+  const dryRun = options.dryRun ?? false;
+
+  if (!Object.values(mapping).includes("companyName")) {
+    throw new Error("Map a column to Company Name before importing");
+  }
+
+  const customFields = await getUserCustomFields(userId);
+  for (const field of Object.values(mapping)) {
+    if (!field) continue;
+    const known = field.startsWith(CUSTOM_FIELD_PREFIX)
+      ? customFields.some(definition => `${CUSTOM_FIELD_PREFIX}${definition.fieldKey}` === field)
+      : (LEAD_INPUT_FIELDS as string[]).includes(field);
+    if (!known) {
+      throw new Error(`Unknown field "${field}" in column mapping`);
+    }
+  }
+
+  const index = new DuplicateIndex();
+  const existingLeads = await getUserLeadIdentities(userId);
+  existingLeads.forEach(lead => index.add(lead, lead.id));
+  const model = await getScoringModel(userId);
+
+  const errors: LeadImportRowError[] = [];
+  const duplicates: LeadImportDuplicate[] = [];
+  const toInsert: InsertLead[] = [];
+  const tagNames: string[][] = []; // Per inserted lead, linked once the leads have IDs
+  let skippedDuplicates = 0;
+  let failed = 0;
+
+  file.rows.forEach((row, i) => {
+    const rowNumber = i + 2; // Account for the header row and 1-based numbering
+    const { standard, custom } = splitCustomFields(mapRowToLeadInput(file.headers, row, mapping));
+    const parsed = leadInputSchema.safeParse(standard);
+    const rowErrors: LeadImportRowError[] = [];
+
+    if (!parsed.success) {
+      parsed.error.issues.forEach(issue => {
+        rowErrors.push({
+          row: rowNumber,
+          field: issue.path.join(".") || undefined,
+          message: issue.message,
+        });
+      });
+    }
+
+    const customValues: CustomFieldValues = {};
+    for (const [key, raw] of Object.entries(custom)) {
+      const definition = customFields.find(d => d.fieldKey === key)!;
+      const result = normalizeCustomFieldValue(definition, raw);
+      if (!result.ok) {
+        rowErrors.push({ row: rowNumber, field: definition.label, message: result.error });
+      } else if (result.value !== null) {
+        customValues[key] = result.value;
+      }
+    }
+
+    if (!parsed.success || rowErrors.length > 0) {
+      failed++;
+      errors.push(...rowErrors);
+      return;
+    }
+
+    const { tags, ...lead } = parsed.data;
+    const duplicate = index.find(lead);
+    if (duplicate) {
+      duplicates.push({ row: rowNumber, companyName: lead.companyName, ...duplicate });
+      if (skipDuplicates) {
+        skippedDuplicates++;
+        return;
+      }
+    }
+    index.add(lead, null);
+
+    // Score exactly as leads.create does for a brand new lead with no engagement
+    const scoringResult = calculateLeadScore(lead, 0, 0, undefined, [], model);
+
+    toInsert.push({
+      ...lead,
+      customFields: Object.keys(customValues).length > 0 ? JSON.stringify(customValues) : null,
+      userId,
+      score: scoringResult.score,
+    });
+    tagNames.push(parseTagList(tags));
+  });
+
+  if (!dryRun) {
+    const ids = await createLeads(toInsert);
+    await tagLeadsByName(userId, ids.map((leadId, i) => ({ leadId, names: tagNames[i] })));
+    // Loaded lazily: the local company dataset shares this module's parsing, but not its side effects
+    const { enrichNewLeads } = await import("./leadEnrichment");
+    void enrichNewLeads(userId, ids);
+  }
+
+  console.log(`[Lead Import] User ${userId}: ${toInsert.length} imported, ${skippedDuplicates} duplicates skipped, ${failed} failed${dryRun ? " (dry run)" : ""}`);
+
+  return {
+    totalRows: file.rows.length,
+    imported: toInsert.length,
+    skippedDuplicates,
+    failed,
+    dryRun,
+    errors,
+    duplicates,
+  };
+}
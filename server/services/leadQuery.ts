@@ -0,0 +1,199 @@
+/**
+ * Lead Query Service
+ * Cursor-paginated, filtered and sorted lead listing for the Leads page.
+ * Filtering and sorting run in the database; test mode applies the same rules
+ * to the in-memory sample leads
+ */
+
+import { countFilteredLeads, getFilteredLeadsPage, type LeadCursor } from "../db";
+import { getScorePriority } from "../leadScoring";
+import { withLeadTags } from "./tags";
+import {
+  compareCustomFieldValues,
+  matchesCustomFieldFilter,
+  parseCustomFieldSort,
+  parseCustomFieldValues,
+  type CustomFieldDefinition,
+  type CustomFieldValue,
+} from "../../shared/customFields";
+import type { LeadTag } from "../../shared/tags";
+import type { ScoringModel } from "../../shared/scoring";
+import type { LeadListFilters } from "../leadValidation";
+
+/** Lead fields read by filters and sorts (a lead row or a test-mode lead record) */
+export interface QueryableLead {
+  id: number;
+  companyName: string;
+  industry: string | null;
+  location: string | null;
+  status: string;
+  score: number | null;
+  customFields: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  emailOpens?: number;
+  emailClicks?: number;
+  tags?: LeadTag[];
+  technologies?: string[]; // Confidently detected, see enrichers/techStack
+}
+
+export interface LeadQueryPage<T> {
+  items: T[];
+  nextCursor: string | null;
+  totalCount: number | null; // Only counted for the first page
+}
+
+/**
+ * Cursors are opaque to clients: base64url JSON of [sortValue, id]
+ */
+export function encodeLeadCursor(cursor: LeadCursor): string {
+  return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString("base64url");
+}
+
+export function decodeLeadCursor(cursor: string): LeadCursor {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    const validValue = value === null || typeof value === "string" || typeof value === "number";
+    if (validValue && Number.isInteger(id)) {
+      return { value, id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error("Invalid cursor");
+}
+
+function startOfDay(day: string) {
+  return new Date(`${day}T00:00:00Z`).getTime();
+}
+
+function endOfDay(day: string) {
+  return startOfDay(day) + 24 * 60 * 60 * 1000;
+}
+
+function containsText(value: string | null, search: string | undefined) {
+  const wanted = search?.trim().toLowerCase();
+  return !wanted || (value || "").toLowerCase().includes(wanted);
+}
+
+/**
+ * Apply the Leads page filters and sort to leads already in memory (test mode)
+ */
+export function filterAndSortLeads<T extends QueryableLead>(
+  leads: T[],
+  filters: LeadListFilters,
+  customFields: CustomFieldDefinition[] = [],
+  thresholds?: ScoringModel["thresholds"]
+): T[] {
+  const filterField = customFields.find(field => field.fieldKey === filters.customField?.key);
+  const customSort = parseCustomFieldSort(filters.sortBy);
+  const sortField = customSort && customFields.find(field => field.fieldKey === customSort.key);
+  const customValue = (lead: T, key: string): CustomFieldValue | undefined => parseCustomFieldValues(lead.customFields)[key];
+
+  const filtered = leads.filter(lead => {
+    const score = lead.score ?? 0;
+    const created = new Date(lead.createdAt).getTime();
+    const updated = new Date(lead.updatedAt).getTime();
+    const opens = lead.emailOpens ?? 0;
+    const clicks = lead.emailClicks ?? 0;
+
+    if (filters.status && lead.status !== filters.status) return false;
+    if (filters.scorePriority && getScorePriority(score, thresholds) !== filters.scorePriority) return false;
+    if (filters.scoreMin !== undefined && score < filters.scoreMin) return false;
+    if (filters.scoreMax !== undefined && score > filters.scoreMax) return false;
+    if (!containsText(lead.industry, filters.industry) || !containsText(lead.location, filters.location)) return false;
+    if (filters.tagIds?.length) {
+      const tagIds = (lead.tags ?? []).map(t => t.id);
+      const matches = filters.tagMatch === "all"
+        ? filters.tagIds.every(id => tagIds.includes(id))
+        : filters.tagIds.some(id => tagIds.includes(id));
+      if (!matches) return false;
+    }
+    if (filters.technologies?.length) {
+      const technologies = (lead.technologies ?? []).map(name => name.toLowerCase());
+      if (!filters.technologies.some(name => technologies.includes(name.toLowerCase()))) return false;
+    }
+    if (filters.createdFrom && created < startOfDay(filters.createdFrom)) return false;
+    if (filters.createdTo && created >= endOfDay(filters.createdTo)) return false;
+    if (filters.updatedFrom && updated < startOfDay(filters.updatedFrom)) return false;
+    if (filters.updatedTo && updated >= endOfDay(filters.updatedTo)) return false;
+    if (filters.engagement === "opened" && opens === 0) return false;
+    if (filters.engagement === "clicked" && clicks === 0) return false;
+    if (filters.engagement === "none" && (opens > 0 || clicks > 0)) return false;
+    if (filterField && filters.customField &&
+        !matchesCustomFieldFilter(filterField, customValue(lead, filterField.fieldKey), filters.customField)) {
+      return false;
+    }
+    return true;
+  });
+
+  return filtered.sort((a, b) => {
+    if (customSort && sortField) {
+      return compareCustomFieldValues(
+        sortField,
+        customValue(a, sortField.fieldKey),
+        customValue(b, sortField.fieldKey),
+        customSort.direction
+      ) || a.id - b.id;
+    }
+
+    switch (filters.sortBy) {
+      case "score-high":
+        return (b.score ?? 0) - (a.score ?? 0) || b.id - a.id;
+      case "score-low":
+        return (a.score ?? 0) - (b.score ?? 0) || a.id - b.id;
+      case "name":
+        return a.companyName.localeCompare(b.companyName) || a.id - b.id;
+      default:
+        return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime() || b.id - a.id;
+    }
+  });
+}
+
+/**
+ * Get one page of a user's leads from the database, with their tags
+ */
+export async function queryLeads(
+  userId: number,
+  filters: LeadListFilters,
+  cursor: string | null | undefined,
+  limit: number,
+  customFields: CustomFieldDefinition[] = []
+) {
+  const after = cursor ? decodeLeadCursor(cursor) : null;
+  // One extra row tells us whether another page exists
+  const rows = await getFilteredLeadsPage(userId, filters, after, limit + 1, customFields);
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+
+  const result: LeadQueryPage<Omit<(typeof rows)[number], "sortValue"> & { tags: LeadTag[] }> = {
+    items: await withLeadTags(page.map(({ sortValue, ...lead }) => lead)),
+    nextCursor: rows.length > limit && last ? encodeLeadCursor({ value: last.sortValue, id: last.id }) : null,
+    totalCount: after ? null : await countFilteredLeads(userId, filters, customFields),
+  };
+  return result;
+}
+
+/**
+ * Page through leads held in memory (test mode) with the same cursor contract
+ */
+export function queryLeadsInMemory<T extends QueryableLead>(
+  leads: T[],
+  filters: LeadListFilters,
+  cursor: string | null | undefined,
+  limit: number,
+  customFields: CustomFieldDefinition[] = [],
+  thresholds?: ScoringModel["thresholds"]
+): LeadQueryPage<T> {
+  const sorted = filterAndSortLeads(leads, filters, customFields, thresholds);
+  const after = cursor ? decodeLeadCursor(cursor) : null;
+  const start = after ? sorted.findIndex(lead => lead.id === after.id) + 1 : 0;
+  const items = sorted.slice(start, start + limit);
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    nextCursor: start + limit < sorted.length && last ? encodeLeadCursor({ value: null, id: last.id }) : null,
+    totalCount: after ? null : sorted.length,
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Apollo.io lead source
+ * Organization search (free API keys), enriched with decision makers where the plan allows
+ */
+
+import {
+  convertApolloOrgToLead,
+  convertApolloPersonToContact,
+  findDecisionMakers,
+  searchOrganizations,
+} from "../../apollo";
+import { APOLLO_BUDGET_EXHAUSTED_MESSAGE } from "../apolloCreditQuota";
+import type { DiscoveredLead, LeadSource } from "./types";
+
+export const apolloSource: LeadSource = {
+  id: "apollo",
+  label: "Apollo.io",
+  description: "Verified companies from Apollo's B2B database, with decision makers on paid plans",
+  creditsPerResult: 1,
+  cacheable: true,
+
+  unavailableReason(user) {
+    if (!process.env.APOLLO_API_KEY) return "Apollo.io is not configured";
+    if (user.useRealData !== 1) return "Enable \"Use Real Data\" in Account Settings to search Apollo.io";
+    return null;
+  },
+
+  async search(userId, query) {
+    try {
+      const result = await searchOrganizations({
+        query: query.query,
+        industry: query.industry,
+        companySize: query.companySize,
+        location: query.location,
+        parsedFilters: query.parsedFilters,
+        page: query.page,
+        perPage: query.perPage,
+      }, userId);
+
+      return {
+        leads: result.organizations.map(org => {
+          const { status, score, ...lead } = convertApolloOrgToLead(org);
+          return { ...lead, externalId: org.id };
+        }),
+        hasMore: result.pagination.page < result.pagination.total_pages,
+        totalResults: result.pagination.total_entries,
+        creditsUsed: result.organizations.length || 1,
+      };
+    } catch (error) {
+      console.error("[Apollo API] Error:", error);
+      if (error instanceof Error && error.message === APOLLO_BUDGET_EXHAUSTED_MESSAGE) {
+        throw error;
+      }
+      // 429s only get here once the scheduler's retries are used up
+      if (error instanceof Error && error.message.startsWith("Apollo API error: 429")) {
+        throw new Error("Failed to fetch real lead data from Apollo.io: the API rate limit is still exceeded. Please try again in a few minutes.");
+      }
+      throw new Error("Failed to fetch real lead data from Apollo.io. Please check your API key and try again.");
+    }
+  },
+
+  async enrich(userId, leads) {
+    const organizations = leads.flatMap(lead => lead.externalId ? [{ id: lead.externalId }] : []);
+    const { decisionMakers, creditsUsed } = await findDecisionMakers(organizations, userId);
+
+    return {
+      leads: leads.map((lead): DiscoveredLead => {
+        const person = lead.externalId ? decisionMakers.get(lead.externalId) : undefined;
+        if (!person) return lead;
+        const contact = convertApolloPersonToContact(person);
+        return {
+          ...lead,
+          ...contact,
+          // Fall back to the company's LinkedIn page and phone when the person has none
+          contactLinkedin: contact.contactLinkedin || lead.contactLinkedin,
+          contactPhone: contact.contactPhone || lead.contactPhone,
+        };
+      }),
+      creditsUsed,
+    };
+  },
+};
@@ -0,0 +1,68 @@
+/**
+ * Search filtering for sources that hold their companies in memory
+ * (the local company database and the sample data)
+ */
+
+import type { DiscoveredLead, LeadSourceQuery } from "./types";
+
+const STOP_WORDS = new Set([
+  "companies", "company", "businesses", "business", "organizations", "organization",
+  "that", "need", "needs", "want", "wants", "looking", "interested", "the", "and",
+  "with", "who", "which", "are", "have", "has", "for", "in", "of",
+]);
+
+function keywords(query: string) {
+  return query.toLowerCase().split(/[^a-z0-9+#.]+/).filter(word => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+// "51-200" -> [51, 200], "500+" -> [500, Infinity]
+function sizeRange(size: string): [number, number] | null {
+  const range = size.match(/^(\d+)\s*-\s*(\d+)$/);
+  if (range) return [Number(range[1]), Number(range[2])];
+  const open = size.match(/^(\d+)\+$/);
+  if (open) return [Number(open[1]), Infinity];
+  return null;
+}
+
+// The employee count a company size reads as: "120 employees" -> 120, "51-200" -> 51
+function employeeCount(size: string) {
+  const match = size.replace(/,/g, "").match(/\d+/);
+  return match ? Number(match[0]) : null;
+}
+
+function matchesSize(companySize: string, filter: string) {
+  if (companySize.toLowerCase() === filter.toLowerCase()) return true;
+  const range = sizeRange(filter);
+  const count = employeeCount(companySize);
+  return range !== null && count !== null && count >= range[0] && count <= range[1];
+}
+
+/**
+ * Companies matching a search, best keyword matches first, and one page of them
+ */
+export function filterCompanies(companies: DiscoveredLead[], query: LeadSourceQuery) {
+  const words = keywords(query.query);
+  const industry = query.industry?.toLowerCase();
+  const location = query.location?.toLowerCase();
+
+  const matches = companies
+    .filter(company =>
+      (!industry || company.industry.toLowerCase().includes(industry)) &&
+      (!location || company.location.toLowerCase().includes(location)) &&
+      (!query.companySize || matchesSize(company.companySize, query.companySize))
+    )
+    .map(company => {
+      const text = `${company.companyName} ${company.industry} ${company.description}`.toLowerCase();
+      return { company, hits: words.filter(word => text.includes(word)).length };
+    })
+    .filter(({ hits }) => words.length === 0 || hits > 0)
+    .sort((a, b) => b.hits - a.hits)
+    .map(({ company }) => company);
+
+  const start = (query.page - 1) * query.perPage;
+  return {
+    leads: matches.slice(start, start + query.perPage),
+    hasMore: start + query.perPage < matches.length,
+    totalResults: matches.length,
+  };
+}
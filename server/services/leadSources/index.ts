@@ -0,0 +1,40 @@
+/**
+ * Lead source registry
+ */
+
+import type { User } from "../../../drizzle/schema";
+import type { LeadSourceId } from "../../../shared/discovery";
+import { apolloSource } from "./apollo";
+import { llmSource } from "./llm";
+import { localDatasetSource } from "./localDataset";
+import { testDataSource } from "./testData";
+import type { LeadSource } from "./types";
+
+export type { DiscoveredLead, LeadSource, LeadSourcePage, LeadSourceQuery } from "./types";
+
+export const LEAD_SOURCES: Record<LeadSourceId, LeadSource> = {
+  apollo: apolloSource,
+  localDataset: localDatasetSource,
+  llm: llmSource,
+  testData: testDataSource,
+};
+
+/**
+ * Every source, with whether this user can search it, for the Discover page
+ */
+export function listLeadSources(user: User) {
+  return Object.values(LEAD_SOURCES).map(source => ({
+    id: source.id,
+    label: source.label,
+    description: source.description,
+    creditsPerResult: source.creditsPerResult,
+    unavailableReason: source.unavailableReason(user),
+  }));
+}
+
+/**
+ * Sources searched when the user doesn't pick any: Apollo in real data mode, AI templates otherwise
+ */
+export function defaultLeadSources(user: User): LeadSourceId[] {
+  return user.useRealData === 1 ? ["apollo"] : ["llm"];
+}
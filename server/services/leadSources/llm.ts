@@ -0,0 +1,104 @@
+/**
+ * AI template lead source
+ * Fictional example companies generated by the LLM to guide prospecting research
+ */
+
+import { invokeLLM } from "../../_core/llm";
+import type { DiscoveredLead, LeadSource } from "./types";
+
+// Generated templates have no real end; stop offering more after this many pages
+export const MAX_TEMPLATE_PAGES = 10;
+
+export const llmSource: LeadSource = {
+  id: "llm",
+  label: "AI Templates",
+  description: "AI-generated example companies and contacts (fictional)",
+  creditsPerResult: 0,
+  cacheable: true,
+
+  unavailableReason() {
+    return null;
+  },
+
+  async search(_userId, query) {
+    const systemPrompt = `You are an expert lead generation assistant. Your task is to generate realistic potential leads based on the user's search criteria.
+
+For each lead, provide:
+- Company name
+- Website URL
+- Industry
+- Company size (e.g., "1-10", "11-50", "51-200", "201-500", "500+")
+- Location
+- Brief company description
+- Contact person name (decision maker like CEO, CTO, VP Sales)
+- Contact title
+- Estimated email (use common patterns like firstname.lastname@company.com)
+- LinkedIn profile URL (use realistic format: https://www.linkedin.com/in/firstname-lastname or leave as placeholder text 'LinkedIn Profile' if uncertain)
+
+Return exactly ${query.perPage} leads in valid JSON format as an array of objects.`;
+
+    const userPrompt = `Find leads matching: ${query.query}${
+      query.industry ? `\nIndustry: ${query.industry}` : ''
+    }${
+      query.companySize ? `\nCompany Size: ${query.companySize}` : ''
+    }${
+      query.location ? `\nLocation: ${query.location}` : ''
+    }${
+      query.excludeCompanies?.length ? `\nDo not include these companies: ${query.excludeCompanies.join(", ")}` : ''
+    }`;
+
+    const response = await invokeLLM({
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ],
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: "lead_discovery",
+          strict: true,
+          schema: {
+            type: "object",
+            properties: {
+              leads: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    companyName: { type: "string" },
+                    website: { type: "string" },
+                    industry: { type: "string" },
+                    companySize: { type: "string" },
+                    location: { type: "string" },
+                    description: { type: "string" },
+                    contactName: { type: "string" },
+                    contactTitle: { type: "string" },
+                    contactEmail: { type: "string" },
+                    contactLinkedin: { type: "string" },
+                  },
+                  required: ["companyName", "website", "industry", "companySize", "location", "description", "contactName", "contactTitle", "contactEmail", "contactLinkedin"],
+                  additionalProperties: false,
+                },
+              },
+            },
+            required: ["leads"],
+            additionalProperties: false,
+          },
+        },
+      },
+    });
+
+    const content = response.choices[0].message.content;
+    const result = JSON.parse(typeof content === 'string' ? content : "{}");
+    const leads: DiscoveredLead[] = (result.leads || [])
+      .slice(0, query.perPage)
+      .map((lead: Omit<DiscoveredLead, "source">) => ({ ...lead, source: "llm" as const }));
+
+    return {
+      leads,
+      hasMore: leads.length > 0 && query.page < MAX_TEMPLATE_PAGES,
+      totalResults: null,
+      creditsUsed: 0,
+    };
+  },
+};
@@ -0,0 +1,85 @@
+/**
+ * Company database lead source
+ * Searches a CSV of companies we maintain ourselves, at COMPANY_DATASET_PATH.
+ * Columns are recognised the same way as in lead imports ("Company", "Website", "Industry", ...)
+ */
+
+import { readFile, stat } from "fs/promises";
+import { parseCsv, suggestColumnMapping } from "../leadImport";
+import { filterCompanies } from "./companyFilter";
+import type { DiscoveredLead, LeadSource } from "./types";
+
+type DatasetField = Exclude<keyof DiscoveredLead, "source" | "externalId">;
+
+const DATASET_FIELDS: DatasetField[] = [
+  "companyName", "website", "industry", "companySize", "location", "description",
+  "contactName", "contactTitle", "contactEmail", "contactLinkedin", "contactPhone",
+];
+
+// The parsed file, reloaded when it changes on disk
+let cached: { path: string; modifiedAt: number; companies: DiscoveredLead[] } | null = null;
+
+/**
+ * Parse dataset CSV text into companies; rows without a company name are skipped
+ */
+export function parseCompanyDataset(text: string): DiscoveredLead[] {
+  const [headers, ...rows] = parseCsv(text);
+  if (!headers) return [];
+
+  const mapping = suggestColumnMapping(headers);
+  const columns = new Map<DatasetField, number>();
+  headers.forEach((header, index) => {
+    const field = mapping[header] as DatasetField | null;
+    if (field && DATASET_FIELDS.includes(field) && !columns.has(field)) columns.set(field, index);
+  });
+
+  const companies: DiscoveredLead[] = [];
+  rows.forEach((row, index) => {
+    const value = (field: DatasetField) => row[columns.get(field) ?? -1]?.trim() ?? "";
+    if (!value("companyName")) return;
+
+    companies.push({
+      source: "localDataset",
+      externalId: String(index + 2), // Spreadsheet row number (header is row 1)
+      companyName: value("companyName"),
+      website: value("website"),
+      industry: value("industry"),
+      companySize: value("companySize"),
+      location: value("location"),
+      description: value("description"),
+      contactName: value("contactName"),
+      contactTitle: value("contactTitle"),
+      contactEmail: value("contactEmail"),
+      contactLinkedin: value("contactLinkedin"),
+      contactPhone: value("contactPhone"),
+    });
+  });
+  return companies;
+}
+
+async function loadCompanies(path: string) {
+  const { mtimeMs } = await stat(path);
+  if (cached?.path !== path || cached.modifiedAt !== mtimeMs) {
+    cached = { path, modifiedAt: mtimeMs, companies: parseCompanyDataset(await readFile(path, "utf8")) };
+  }
+  return cached.companies;
+}
+
+export const localDatasetSource: LeadSource = {
+  id: "localDataset",
+  label: "Company Database",
+  description: "Companies from our own maintained database",
+  creditsPerResult: 0,
+  cacheable: false,
+
+  unavailableReason() {
+    return process.env.COMPANY_DATASET_PATH ? null : "The company database is not configured";
+  },
+
+  async search(_userId, query) {
+    const path = process.env.COMPANY_DATASET_PATH;
+    if (!path) throw new Error("The company database is not configured");
+
+    return { ...filterCompanies(await loadCompanies(path), query), creditsUsed: 0 };
+  },
+};
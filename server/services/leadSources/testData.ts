@@ -0,0 +1,40 @@
+/**
+ * Sample data lead source
+ * Searches the generated test leads, so discovery can be tried without any API
+ */
+
+import { getTestData } from "../testData";
+import { filterCompanies } from "./companyFilter";
+import type { DiscoveredLead, LeadSource } from "./types";
+
+export const testDataSource: LeadSource = {
+  id: "testData",
+  label: "Sample Data",
+  description: "Generated sample companies for trying out discovery",
+  creditsPerResult: 0,
+  cacheable: false,
+
+  unavailableReason() {
+    return null;
+  },
+
+  async search(_userId, query) {
+    const companies = getTestData().leads.map((lead): DiscoveredLead => ({
+      source: "testData",
+      externalId: String(lead.id),
+      companyName: lead.companyName,
+      website: lead.website,
+      industry: lead.industry,
+      companySize: `${lead.employeeCount} employees`,
+      location: lead.location,
+      description: `${lead.industry} company with ${lead.revenue} revenue`,
+      contactName: lead.contactName,
+      contactTitle: lead.contactTitle,
+      contactEmail: lead.contactEmail,
+      contactLinkedin: lead.linkedinUrl,
+      contactPhone: lead.contactPhone,
+    }));
+
+    return { ...filterCompanies(companies, query), creditsUsed: 0 };
+  },
+};
@@ -0,0 +1,57 @@
+/**
+ * Lead Sources
+ * Where discovery finds companies. Each source searches one page at a time, may enrich
+ * the leads it found, and reports the credits it spent doing so
+ */
+
+import type { User } from "../../../drizzle/schema";
+import type { LeadSourceId, ParsedSearchFilters } from "../../../shared/discovery";
+
+export interface DiscoveredLead {
+  source: LeadSourceId;
+  externalId?: string; // The source's own id for the company, used when enriching
+  companyName: string;
+  website: string;
+  industry: string;
+  companySize: string;
+  location: string;
+  description: string;
+  contactName: string;
+  contactTitle: string;
+  contactEmail: string;
+  contactLinkedin: string;
+  contactPhone?: string;
+}
+
+export interface LeadSourceQuery {
+  query: string;
+  industry?: string;
+  companySize?: string;
+  location?: string;
+  page: number;
+  perPage: number;
+  excludeCompanies?: string[]; // Companies already shown, for sources that can't page
+  parsedFilters?: ParsedSearchFilters; // Filters understood from the query, for sources that take them
+}
+
+export interface LeadSourcePage {
+  leads: DiscoveredLead[];
+  hasMore: boolean;
+  totalResults: number | null; // null when the source can't tell
+  creditsUsed: number;
+}
+
+export interface LeadSource {
+  id: LeadSourceId;
+  label: string;
+  description: string;
+  /** Credits a search spends per result returned, before any enrichment */
+  creditsPerResult: number;
+  /** Whether results are worth keeping in the discovery cache (paid or slow to fetch) */
+  cacheable: boolean;
+  /** Why the user can't search this source right now, or null when they can */
+  unavailableReason(user: User): string | null;
+  search(userId: number, query: LeadSourceQuery): Promise<LeadSourcePage>;
+  /** Fill in details (usually contacts) on leads this source found; returns the credits spent */
+  enrich?(userId: number, leads: DiscoveredLead[]): Promise<{ leads: DiscoveredLead[]; creditsUsed: number }>;
+}
@@ -0,0 +1,272 @@
+/**
+ * Lookalike Discovery
+ * Finds more companies like a lead, or like everything the user has won: builds a profile of
+ * the seed leads (industry, size band, location, technologies, description keywords), runs it
+ * through the discovery sources, and ranks the results by how closely they match it
+ */
+
+import { getEnrichmentDataForLeads, getLeadById, getUserLeadsByStatus } from "../db";
+import { normalizeCompanyName, normalizeDomain } from "../leadMatching";
+import { annotateKnownCompanies, searchLeadSources, type AnnotatedDiscoveredLead, type DiscoveredLead, type DiscoverySourceResult } from "./leadDiscovery";
+import type { FindSimilarLeadsInput } from "../leadValidation";
+import type { Lead, User } from "../../drizzle/schema";
+import { TECHNOLOGY_MIN_CONFIDENCE } from "../../shared/enrichment";
+
+// The Discover page's company size options, with the Apollo employee range each searches
+const SIZE_BANDS = [
+  { label: "1-10", min: 1, max: 10, range: "1,10" },
+  { label: "11-50", min: 11, max: 50, range: "11,50" },
+  { label: "51-200", min: 51, max: 200, range: "51,200" },
+  { label: "201-500", min: 201, max: 500, range: "201,500" },
+  { label: "500+", min: 501, max: Infinity, range: "501,999999" },
+] as const;
+
+// How much each part of the profile counts towards a result's similarity (out of 100)
+const WEIGHTS = { industry: 30, size: 20, location: 15, technologies: 15, keywords: 20 };
+
+// Won leads a profile is built from; the most recently updated are used
+const MAX_SEED_LEADS = 50;
+
+// Values kept per part of the profile
+const MAX_PROFILE_VALUES = 3;
+const MAX_PROFILE_KEYWORDS = 6;
+
+const STOP_WORDS = new Set([
+  "a", "about", "across", "all", "also", "an", "and", "any", "are", "as", "at", "be", "been", "best", "but",
+  "by", "can", "company", "companies", "customers", "each", "every", "for", "from", "has", "have", "help",
+  "helps", "how", "in", "inc", "including", "into", "is", "it", "its", "leading", "llc", "ltd", "more",
+  "most", "new", "of", "on", "one", "or", "our", "over", "provider", "provides", "providing", "services",
+  "solutions", "such", "that", "the", "their", "them", "they", "this", "through", "to", "used", "using",
+  "we", "what", "which", "while", "who", "will", "with", "world", "worldwide", "you", "your",
+]);
+
+export interface LookalikeProfile {
+  seedLeadIds: number[];
+  seedCompanies: string[];
+  industries: string[];
+  sizeBand: string | null;
+  locations: string[];
+  technologies: string[];
+  keywords: string[];
+}
+
+export type LookalikeLead = AnnotatedDiscoveredLead & {
+  similarity: number; // 0-100
+  reasons: string[];
+};
+
+export interface LookalikeSearch {
+  profile: LookalikeProfile;
+  leads: LookalikeLead[];
+  sources: DiscoverySourceResult[];
+  creditsUsed: number;
+}
+
+function words(text: string) {
+  return text.toLowerCase().split(/[^a-z0-9+#]+/)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word) && !/^\d+$/.test(word));
+}
+
+// Values by how many seeds have them, most common first; ties keep first-seen order
+function mostCommon(values: string[][], limit: number) {
+  const counts = new Map<string, { value: string; count: number }>();
+  for (const seedValues of values) {
+    const seen = new Set<string>();
+    for (const value of seedValues) {
+      const key = value.trim().toLowerCase();
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+      const entry = counts.get(key);
+      if (entry) entry.count++;
+      else counts.set(key, { value: value.trim(), count: 1 });
+    }
+  }
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit)
+    .map(entry => entry.value);
+}
+
+// The employee count a company size reads as: "120 employees" -> 120, "51-200" -> 51
+function employeeCount(companySize: string | null) {
+  const match = companySize?.replace(/,/g, "").match(/\d+/);
+  return match ? Number(match[0]) : null;
+}
+
+function sizeBand(companySize: string | null) {
+  const count = employeeCount(companySize);
+  return count === null ? undefined : SIZE_BANDS.find(band => count >= band.min && count <= band.max);
+}
+
+// The last part of a location ("Austin, TX" -> "tx"), to match companies in the same state or country
+function region(location: string) {
+  const parts = location.split(",").map(part => part.trim().toLowerCase()).filter(Boolean);
+  return parts[parts.length - 1] ?? "";
+}
+
+/**
+ * What the seed leads have in common: their most common industries, size band, locations,
+ * technologies and description keywords
+ */
+export function buildLookalikeProfile(seeds: Lead[], technologies: Map<number, string[]>): LookalikeProfile {
+  const bands = mostCommon(seeds.map(seed => {
+    const band = sizeBand(seed.companySize);
+    return band ? [band.label] : [];
+  }), 1);
+
+  return {
+    seedLeadIds: seeds.map(seed => seed.id),
+    seedCompanies: seeds.map(seed => seed.companyName),
+    industries: mostCommon(seeds.map(seed => seed.industry ? [seed.industry] : []), MAX_PROFILE_VALUES),
+    sizeBand: bands[0] ?? null,
+    locations: mostCommon(seeds.map(seed => seed.location ? [seed.location] : []), MAX_PROFILE_VALUES),
+    technologies: mostCommon(seeds.map(seed => technologies.get(seed.id) ?? []), MAX_PROFILE_VALUES * 2),
+    keywords: mostCommon(seeds.map(seed => words(seed.description ?? "")), MAX_PROFILE_KEYWORDS),
+  };
+}
+
+/**
+ * How closely a result matches the profile (0-100), and why
+ * Parts of the profile the seeds gave nothing for don't count either way
+ */
+export function scoreSimilarity(lead: DiscoveredLead, profile: LookalikeProfile) {
+  const reasons: string[] = [];
+  let score = 0;
+  let possible = 0;
+
+  if (profile.industries.length > 0) {
+    possible += WEIGHTS.industry;
+    const industry = lead.industry.toLowerCase();
+    const match = industry && profile.industries.find(value => {
+      const wanted = value.toLowerCase();
+      return industry.includes(wanted) || wanted.includes(industry);
+    });
+    if (match) {
+      score += WEIGHTS.industry;
+      reasons.push(`Same industry: ${match}`);
+    }
+  }
+
+  if (profile.sizeBand) {
+    possible += WEIGHTS.size;
+    const band = sizeBand(lead.companySize);
+    const wanted = SIZE_BANDS.findIndex(b => b.label === profile.sizeBand);
+    const distance = band ? Math.abs(SIZE_BANDS.indexOf(band) - wanted) : null;
+    if (distance === 0) {
+      score += WEIGHTS.size;
+      reasons.push(`Same size: ${profile.sizeBand} employees`);
+    } else if (distance === 1) {
+      score += WEIGHTS.size / 2;
+      reasons.push(`Similar size: ${band!.label} employees`);
+    }
+  }
+
+  if (profile.locations.length > 0) {
+    possible += WEIGHTS.location;
+    const location = lead.location.trim().toLowerCase();
+    const exact = location && profile.locations.find(value => value.toLowerCase() === location);
+    const nearby = location && !exact && profile.locations.find(value => region(value) === region(location));
+    if (exact) {
+      score += WEIGHTS.location;
+      reasons.push(`Same location: ${exact}`);
+    } else if (nearby) {
+      score += WEIGHTS.location / 2;
+      reasons.push(`Same region: ${lead.location.split(",").pop()!.trim()}`);
+    }
+  }
+
+  const text = `${lead.companyName} ${lead.industry} ${lead.description}`.toLowerCase();
+
+  if (profile.technologies.length > 0) {
+    possible += WEIGHTS.technologies;
+    const mentioned = profile.technologies.filter(tech => text.includes(tech.toLowerCase()));
+    if (mentioned.length > 0) {
+      score += WEIGHTS.technologies * Math.min(1, mentioned.length / Math.min(2, profile.technologies.length));
+      reasons.push(`Uses ${mentioned.join(", ")}`);
+    }
+  }
+
+  if (profile.keywords.length > 0) {
+    possible += WEIGHTS.keywords;
+    const leadWords = new Set(words(text));
+    const shared = profile.keywords.filter(keyword => leadWords.has(keyword.toLowerCase()));
+    if (shared.length > 0) {
+      score += WEIGHTS.keywords * Math.min(1, shared.length / Math.min(3, profile.keywords.length));
+      reasons.push(`Also about ${shared.join(", ")}`);
+    }
+  }
+
+  return { similarity: possible > 0 ? Math.round((score / possible) * 100) : 0, reasons };
+}
+
+async function loadSeeds(userId: number, leadId?: number) {
+  if (leadId !== undefined) {
+    const lead = await getLeadById(leadId, userId);
+    if (!lead) throw new Error("Lead not found");
+    return [lead];
+  }
+
+  const won = await getUserLeadsByStatus(userId, "won");
+  if (won.length === 0) throw new Error("You don't have any won leads to find lookalikes for yet");
+  return won.slice(0, MAX_SEED_LEADS);
+}
+
+/**
+ * Find companies like a lead (or like all of the user's won leads), most similar first
+ * The seed companies themselves are left out; others the user already has are flagged
+ */
+export async function findSimilarLeads(user: User, input: FindSimilarLeadsInput): Promise<LookalikeSearch> {
+  const seeds = await loadSeeds(user.id, input.leadId);
+
+  const technologies = new Map<number, string[]>();
+  const enrichment = await getEnrichmentDataForLeads(seeds.map(seed => seed.id), "technology");
+  for (const row of enrichment) {
+    // Each technology is its own fact, possibly from several sources
+    const known = technologies.get(row.leadId) ?? [];
+    if ((row.confidence ?? 0) >= TECHNOLOGY_MIN_CONFIDENCE && !known.some(name => name.toLowerCase() === row.dataKey.toLowerCase())) {
+      technologies.set(row.leadId, [...known, row.dataKey]);
+    }
+  }
+
+  const profile = buildLookalikeProfile(seeds, technologies);
+  // Sources without structured filters match on the query text, so it carries the profile's main terms
+  const query = [...profile.industries.slice(0, 1), ...profile.keywords.slice(0, 4)].join(" ")
+    || profile.seedCompanies[0];
+  const band = SIZE_BANDS.find(b => b.label === profile.sizeBand);
+
+  const result = await searchLeadSources(user, {
+    query,
+    page: 1,
+    perPage: input.perPage,
+    sources: input.sources,
+    excludeCompanies: profile.seedCompanies,
+    forceRefresh: false,
+    hideKnown: false,
+    parsedFilters: {
+      industries: profile.industries,
+      keywords: profile.keywords.slice(0, 4),
+      employeeRanges: band ? [band.range] : [],
+      locations: profile.locations,
+      technologies: profile.technologies,
+    },
+  });
+
+  const seedDomains = new Set(seeds.map(seed => normalizeDomain(seed.website)).filter(Boolean));
+  const seedNames = new Set(seeds.map(seed => normalizeCompanyName(seed.companyName)).filter(Boolean));
+  const candidates = result.leads.filter(lead => {
+    const domain = normalizeDomain(lead.website);
+    const name = normalizeCompanyName(lead.companyName);
+    return !(domain && seedDomains.has(domain)) && !(name && seedNames.has(name));
+  });
+
+  const annotated = await annotateKnownCompanies(user.id, candidates).catch(error => {
+    console.warn("[Lookalikes] Failed to match results against existing leads:", error);
+    return candidates.map(lead => ({ ...lead, knownLead: null }));
+  });
+
+  const leads = annotated
+    .map(lead => ({ ...lead, ...scoreSimilarity(lead, profile) }))
+    .sort((a, b) => b.similarity - a.similarity);
+
+  return { profile, leads, sources: result.sources, creditsUsed: result.creditsUsed };
+}
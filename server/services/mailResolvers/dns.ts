@@ -0,0 +1,113 @@
+/**
+ * DNS and SMTP mail resolver
+ * Looks up a domain's MX records and asks its mail server about mailboxes over SMTP on port 25,
+ * stopping at RCPT TO: nothing is ever sent. Many networks block outbound port 25, in which case
+ * probes come back without an answer and addresses stay unknown
+ */
+
+import { promises as dns } from "dns";
+import net from "net";
+import os from "os";
+import type { MailResolver, MxRecord, SmtpReply } from "./types";
+
+const SMTP_PORT = 25;
+const SMTP_TIMEOUT_MS = 10_000;
+
+// The name probes introduce themselves with; mail servers are warier of names that don't resolve to the sender
+const PROBE_DOMAIN = process.env.EMAIL_PROBE_DOMAIN || os.hostname();
+
+function isMissingRecord(error: unknown) {
+  const code = (error as NodeJS.ErrnoException).code;
+  return code === "ENOTFOUND" || code === "ENODATA";
+}
+
+async function resolveMx(domain: string): Promise<MxRecord[]> {
+  try {
+    const records = await dns.resolveMx(domain);
+    // A lone "." (null MX) says the domain takes no email at all
+    return records
+      .filter(record => record.exchange && record.exchange !== ".")
+      .sort((a, b) => a.priority - b.priority)
+      .map(record => ({ exchange: record.exchange, priority: record.priority }));
+  } catch (error) {
+    if (!isMissingRecord(error)) throw error;
+  }
+
+  // Without MX records, mail goes to the domain's own address
+  try {
+    const addresses = await dns.resolve4(domain);
+    return addresses.length > 0 ? [{ exchange: domain, priority: 0 }] : [];
+  } catch (error) {
+    if (isMissingRecord(error)) return [];
+    throw error;
+  }
+}
+
+/**
+ * One SMTP session: greeting, EHLO, MAIL FROM, then RCPT TO for each address, then QUIT
+ */
+function probeMailboxes(host: string, addresses: string[]): Promise<SmtpReply[]> {
+  return new Promise(resolve => {
+    const commands = [
+      `EHLO ${PROBE_DOMAIN}`,
+      `MAIL FROM:<verify@${PROBE_DOMAIN}>`,
+      ...addresses.map(address => `RCPT TO:<${address}>`),
+      "QUIT",
+    ];
+    const replies: SmtpReply[] = [];
+    let step = -1; // The greeting comes before the first command
+    let buffer = "";
+    let message: string[] = [];
+    let finished = false;
+
+    const socket = net.connect({ host, port: SMTP_PORT });
+    socket.setTimeout(SMTP_TIMEOUT_MS);
+
+    const finish = (failure: string) => {
+      if (finished) return;
+      finished = true;
+      socket.destroy();
+      resolve(addresses.map((_, index) => replies[index] ?? { code: null, message: failure }));
+    };
+
+    const send = () => {
+      step++;
+      if (step < commands.length) socket.write(`${commands[step]}\r\n`);
+    };
+
+    const handleReply = (code: number, text: string) => {
+      if (step === -1 && code !== 220) return finish(`The mail server turned the check away: ${code} ${text}`);
+      if ((step === 0 || step === 1) && code >= 400) return finish(`The mail server turned the check away: ${code} ${text}`);
+      if (step >= 2 && step < 2 + addresses.length) replies.push({ code, message: text });
+      if (step === commands.length - 1) return finish("The mail server closed the session");
+      send();
+    };
+
+    socket.on("data", chunk => {
+      buffer += chunk.toString("utf8");
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const raw of lines) {
+        const line = raw.replace(/\r$/, "");
+        const code = parseInt(line.slice(0, 3), 10);
+        if (Number.isNaN(code)) continue;
+        message.push(line.slice(4).trim());
+        // "250-" lines continue a reply; "250 " ends it
+        if (line[3] === "-") continue;
+        const text = message.filter(Boolean).join(" ");
+        message = [];
+        handleReply(code, text);
+        if (finished) return;
+      }
+    });
+    socket.on("timeout", () => finish("The mail server didn't answer in time"));
+    socket.on("error", error => finish(`Couldn't reach the mail server: ${error.message}`));
+    socket.on("close", () => finish("The mail server closed the connection"));
+  });
+}
+
+export const dnsMailResolver: MailResolver = {
+  id: "dns",
+  resolveMx,
+  probeMailboxes,
+};
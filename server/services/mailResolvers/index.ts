@@ -0,0 +1,18 @@
+/**
+ * Mail resolver registry
+ */
+
+import type { User } from "../../../drizzle/schema";
+import { dnsMailResolver } from "./dns";
+import { sampleMailResolver } from "./sample";
+import type { MailResolver } from "./types";
+
+export type { MailResolver, MxRecord, SmtpReply } from "./types";
+export { dnsMailResolver, sampleMailResolver };
+
+/**
+ * Users working with sample data verify against the stand-in, since sample domains don't exist
+ */
+export function getMailResolver(user: User): MailResolver {
+  return user.useRealData === 1 ? dnsMailResolver : sampleMailResolver;
+}
@@ -0,0 +1,25 @@
+/**
+ * Sample mail resolver
+ * A local stand-in for DNS and SMTP, for sample data and tests. Sample leads' addresses are
+ * first.last@company, so every domain has a mail server that takes those mailboxes and no others
+ */
+
+import type { MailResolver } from "./types";
+
+// Reserved for documentation and testing, so they never take email
+const NO_MAIL_SUFFIXES = [".test", ".example", ".invalid", ".localhost"];
+
+export const sampleMailResolver: MailResolver = {
+  id: "sample",
+
+  async resolveMx(domain) {
+    if (NO_MAIL_SUFFIXES.some(suffix => domain.endsWith(suffix))) return [];
+    return [{ exchange: `mx.${domain}`, priority: 10 }];
+  },
+
+  async probeMailboxes(_host, addresses) {
+    return addresses.map(address => /^[a-z]+\.[a-z]+@/.test(address)
+      ? { code: 250, message: "2.1.5 Recipient OK" }
+      : { code: 550, message: "5.1.1 No such user here" });
+  },
+};
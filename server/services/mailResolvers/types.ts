@@ -0,0 +1,25 @@
+/**
+ * Mail resolvers
+ * What the email verifier asks about a domain and its mailboxes: the domain's mail servers, and
+ * how a mail server answers RCPT TO for an address. The real resolver uses DNS and SMTP; a local
+ * stand-in answers the same questions without the network
+ */
+
+export interface MxRecord {
+  exchange: string;
+  priority: number; // Lower is preferred
+}
+
+/** A mail server's answer to RCPT TO; code is null when it gave none (unreachable, timed out, refused the session) */
+export interface SmtpReply {
+  code: number | null;
+  message: string;
+}
+
+export interface MailResolver {
+  id: string;
+  /** The domain's mail servers, preferred first; none when the domain doesn't take email. Throws when the lookup fails */
+  resolveMx(domain: string): Promise<MxRecord[]>;
+  /** Ask a mail server whether it would take mail for each address, in one session, without sending anything */
+  probeMailboxes(host: string, addresses: string[]): Promise<SmtpReply[]>;
+}
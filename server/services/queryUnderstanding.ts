@@ -0,0 +1,130 @@
+/**
+ * Query Understanding Service
+ * Turns a natural-language discovery query ("dental clinics in Ohio with 50+ staff") into
+ * structured Apollo organization filters, for the user to confirm before searching
+ */
+
+import { z } from "zod";
+import { invokeLLM } from "../_core/llm";
+import { parsedSearchFiltersSchema, type ParseDiscoveryQueryInput } from "../leadValidation";
+import type { ParsedSearchFilters } from "../../shared/discovery";
+
+const FILTER_KEYS = ["industries", "keywords", "employeeRanges", "locations", "technologies"] as const;
+
+// Open-ended ranges get the same upper bound as our largest company size option
+const OPEN_ENDED_EMPLOYEE_MAX = 999999;
+
+// Values kept per filter; parsedSearchFiltersSchema allows no more
+const MAX_FILTER_VALUES = 10;
+
+const SYSTEM_PROMPT = `You turn B2B prospecting queries into search filters for Apollo.io's company database.
+
+Return:
+- industries: industries the companies are in, as Apollo/LinkedIn industry names (e.g. "Hospital & Health Care", "Computer Software")
+- keywords: short phrases describing what the companies do or sell (e.g. "dental clinic", "payroll software"); not filler like "companies" or "businesses"
+- employeeRanges: headcount ranges as "min,max" (e.g. "51,200"); use "min,${OPEN_ENDED_EMPLOYEE_MAX}" when there's no upper bound ("50+ staff" is "50,${OPEN_ENDED_EMPLOYEE_MAX}")
+- locations: cities, states/regions or countries written out in full (e.g. "Ohio, US", "London, United Kingdom")
+- technologies: named products or platforms the companies use (e.g. "Salesforce", "Shopify")
+
+Only include what the query actually asks for; leave a list empty rather than guess.`;
+
+// What the LLM must return before clean up; the confirmed filters are held to parsedSearchFiltersSchema
+const llmFiltersSchema = z.object({
+  industries: z.array(z.string()),
+  keywords: z.array(z.string()),
+  employeeRanges: z.array(z.string()),
+  locations: z.array(z.string()),
+  technologies: z.array(z.string()),
+});
+
+function filterValues(filters: ParsedSearchFilters) {
+  return FILTER_KEYS.flatMap(key => filters[key]);
+}
+
+/**
+ * Trim, drop blanks, malformed ranges and case-insensitive duplicates, put each range's bounds
+ * in order, and keep at most MAX_FILTER_VALUES of each
+ */
+export function normalizeParsedFilters(filters: ParsedSearchFilters): ParsedSearchFilters {
+  const unique = (values: string[]) => {
+    const seen = new Set<string>();
+    return values.map(value => value.trim()).filter(value => {
+      const key = value.toLowerCase();
+      if (!value || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    }).slice(0, MAX_FILTER_VALUES);
+  };
+
+  return {
+    industries: unique(filters.industries),
+    keywords: unique(filters.keywords),
+    employeeRanges: unique(filters.employeeRanges.flatMap(range => {
+      const match = /^\s*(\d+)\s*,\s*(\d+)\s*$/.exec(range);
+      if (!match) return [];
+      const [min, max] = [Number(match[1]), Number(match[2])];
+      return [`${Math.min(min, max)},${Math.max(min, max)}`];
+    })),
+    locations: unique(filters.locations),
+    technologies: unique(filters.technologies),
+  };
+}
+
+/**
+ * Ask the LLM for the Apollo filters a query describes
+ * The form's industry, size and location are passed along so the parse doesn't contradict them
+ */
+export async function parseSearchQuery(input: ParseDiscoveryQueryInput): Promise<ParsedSearchFilters> {
+  const userPrompt = `Query: ${input.query}${
+    input.industry ? `\nIndustry already selected: ${input.industry}` : ''
+  }${
+    input.companySize ? `\nCompany size already selected: ${input.companySize} employees` : ''
+  }${
+    input.location ? `\nLocation already selected: ${input.location}` : ''
+  }`;
+
+  const stringList = { type: "array", items: { type: "string" } };
+  const response = await invokeLLM({
+    messages: [
+      { role: "system", content: SYSTEM_PROMPT },
+      { role: "user", content: userPrompt },
+    ],
+    response_format: {
+      type: "json_schema",
+      json_schema: {
+        name: "apollo_search_filters",
+        strict: true,
+        schema: {
+          type: "object",
+          properties: {
+            industries: stringList,
+            keywords: stringList,
+            employeeRanges: { type: "array", items: { type: "string", pattern: "^\\d+,\\d+$" } },
+            locations: stringList,
+            technologies: stringList,
+          },
+          required: [...FILTER_KEYS],
+          additionalProperties: false,
+        },
+      },
+    },
+  });
+
+  const content = response.choices[0]?.message.content;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(typeof content === "string" ? content : "");
+  } catch {
+    throw new Error("Could not understand the search query");
+  }
+  const raw = llmFiltersSchema.safeParse(parsed);
+  const result = raw.success ? parsedSearchFiltersSchema.safeParse(normalizeParsedFilters(raw.data)) : raw;
+  if (!result.success) {
+    throw new Error("Could not understand the search query");
+  }
+
+  if (filterValues(result.data).length === 0) {
+    throw new Error("Could not find any filters in the search query");
+  }
+  return result.data;
+}
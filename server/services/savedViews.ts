@@ -0,0 +1,289 @@
+/**
+ * Saved Views Service
+ * Named lead filters, sort and columns ("smart lists") that can be pinned to the
+ * sidebar and shared read-only with teammates. Dynamic views re-run their filters
+ * each time they are opened; static views show the leads frozen when they were saved
+ */
+
+import {
+  countFilteredLeads,
+  createSavedView,
+  createSavedViewShare,
+  deleteSavedViewShare,
+  getFilteredLeadIds,
+  getSavedViewById,
+  getSavedViewLeadIds,
+  getSavedViewShare,
+  getSavedViewsSharedWith,
+  getUserByEmail,
+  getUserById,
+  getUserSavedViews,
+  replaceSavedViewLeads,
+  updateSavedView,
+  updateSavedViewSharePin,
+} from "../db";
+import { getUserCustomFields } from "./customFields";
+import { filterAndSortLeads } from "./leadQuery";
+import { getScoringModel } from "./scoringModel";
+import { getTestLeadRecords } from "./testData";
+import {
+  leadColumnsSchema,
+  leadListFiltersSchema,
+  type LeadListFilters,
+  type SavedViewInput,
+} from "../leadValidation";
+import type { SavedView } from "../../drizzle/schema";
+
+/** Most leads a static view can freeze */
+export const SNAPSHOT_LIMIT = 10000;
+
+export type SavedViewColumns = NonNullable<SavedViewInput["columns"]>;
+
+export interface SavedViewDetails {
+  id: number;
+  ownerId: number;
+  ownerName: string | null; // Set for views shared with the current user
+  name: string;
+  viewType: "dynamic" | "static";
+  filters: LeadListFilters;
+  columns: SavedViewColumns | null;
+  pinned: boolean; // The current user's pin (owner and teammates pin separately)
+  isOwner: boolean;
+  snapshotAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Counts and snapshots run against the database, or the sample leads in test mode
+ */
+export interface ViewLeadSource {
+  count(ownerId: number, filters: LeadListFilters): Promise<number>;
+  ids(ownerId: number, filters: LeadListFilters, limit: number): Promise<number[]>;
+}
+
+export const databaseLeadSource: ViewLeadSource = {
+  async count(ownerId, filters) {
+    return await countFilteredLeads(ownerId, filters, await getUserCustomFields(ownerId));
+  },
+  async ids(ownerId, filters, limit) {
+    return await getFilteredLeadIds(ownerId, filters, limit, await getUserCustomFields(ownerId));
+  },
+};
+
+export const sampleLeadSource: ViewLeadSource = {
+  async count(ownerId, filters) {
+    return (await filterSampleLeads(ownerId, filters)).length;
+  },
+  async ids(ownerId, filters, limit) {
+    return (await filterSampleLeads(ownerId, filters)).slice(0, limit).map(lead => lead.id);
+  },
+};
+
+async function filterSampleLeads(ownerId: number, filters: LeadListFilters) {
+  const leads = await restrictToSnapshot(getTestLeadRecords(ownerId), filters);
+  const { thresholds } = await getScoringModel(ownerId);
+  return filterAndSortLeads(leads, filters, await getUserCustomFields(ownerId), thresholds);
+}
+
+/**
+ * Keep only the leads frozen in a static view when the filters name one
+ * (the database applies this filter itself; leads held in memory need it here)
+ */
+export async function restrictToSnapshot<T extends { id: number }>(leads: T[], filters: LeadListFilters): Promise<T[]> {
+  if (filters.snapshotViewId === undefined) return leads;
+  const ids = new Set(await getSavedViewLeadIds(filters.snapshotViewId));
+  return leads.filter(lead => ids.has(lead.id));
+}
+
+function parseJson(text: string | null): unknown {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Convert a stored view row to the shape used by the app; filters or columns that
+ * no longer validate fall back to the defaults rather than breaking the view
+ */
+export function toSavedViewDetails(
+  row: SavedView,
+  access: { isOwner: boolean; pinned: boolean; ownerName: string | null }
+): SavedViewDetails {
+  const filters = leadListFiltersSchema.safeParse(parseJson(row.filters));
+  const columns = leadColumnsSchema.safeParse(parseJson(row.columns));
+
+  return {
+    id: row.id,
+    ownerId: row.userId,
+    ownerName: access.ownerName,
+    name: row.name,
+    viewType: row.viewType,
+    filters: filters.success ? filters.data : { sortBy: "recent" },
+    columns: columns.success ? columns.data : null,
+    pinned: access.pinned,
+    isOwner: access.isOwner,
+    snapshotAt: row.snapshotAt,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * The filters a view's leads are queried with. Owners may narrow or re-sort their own
+ * views; teammates always get the stored filters and may only change the sort
+ */
+export function viewQueryFilters(view: SavedViewDetails, requested?: LeadListFilters): LeadListFilters {
+  const sortBy = requested?.sortBy ?? view.filters.sortBy;
+  const ownerFilters = view.isOwner ? requested : undefined;
+
+  if (view.viewType === "static") {
+    return { ...(ownerFilters ?? { sortBy }), snapshotViewId: view.id };
+  }
+  return ownerFilters ?? { ...view.filters, sortBy };
+}
+
+/**
+ * Get a view the user owns or that was shared with them
+ */
+export async function getSavedViewForUser(viewId: number, userId: number): Promise<SavedViewDetails> {
+  const row = await getSavedViewById(viewId);
+  if (!row) throw new Error("Saved view not found");
+
+  if (row.userId === userId) {
+    return toSavedViewDetails(row, { isOwner: true, pinned: row.pinned === 1, ownerName: null });
+  }
+
+  const share = await getSavedViewShare(viewId, userId);
+  if (!share) throw new Error("Saved view not found");
+
+  const owner = await getUserById(row.userId);
+  return toSavedViewDetails(row, {
+    isOwner: false,
+    pinned: share.pinned === 1,
+    ownerName: owner?.name || owner?.email || null,
+  });
+}
+
+export async function getOwnedView(viewId: number, userId: number) {
+  const view = await getSavedViewForUser(viewId, userId);
+  if (!view.isOwner) throw new Error("Only the owner can change this view");
+  return view;
+}
+
+/**
+ * A user's own views and the views shared with them, each with a live lead count
+ */
+export async function listSavedViews(userId: number, source: ViewLeadSource = databaseLeadSource) {
+  const owned = (await getUserSavedViews(userId)).map(row =>
+    toSavedViewDetails(row, { isOwner: true, pinned: row.pinned === 1, ownerName: null })
+  );
+  const shared = (await getSavedViewsSharedWith(userId)).map(({ view, pinned, ownerName, ownerEmail }) =>
+    toSavedViewDetails(view, { isOwner: false, pinned: pinned === 1, ownerName: ownerName || ownerEmail || null })
+  );
+
+  return await Promise.all([...owned, ...shared].map(async view => ({
+    ...view,
+    leadCount: await source.count(view.ownerId, viewQueryFilters(view)),
+  })));
+}
+
+/**
+ * IDs of the leads currently matching a static view's filters, to freeze
+ */
+async function snapshotLeadIds(ownerId: number, filters: LeadListFilters, source: ViewLeadSource) {
+  const ids = await source.ids(ownerId, filters, SNAPSHOT_LIMIT + 1);
+  if (ids.length > SNAPSHOT_LIMIT) {
+    throw new Error(`Static views can hold at most ${SNAPSHOT_LIMIT.toLocaleString()} leads; narrow the filters first`);
+  }
+  return ids;
+}
+
+export async function createView(userId: number, input: SavedViewInput, source: ViewLeadSource = databaseLeadSource) {
+  // Saving from inside a static view freezes a subset of that view, but the stored
+  // filters never point at another view's snapshot
+  const { snapshotViewId, ...filters } = input.filters;
+  const snapshot = input.viewType === "static" ? await snapshotLeadIds(userId, input.filters, source) : null;
+
+  const id = await createSavedView({
+    userId,
+    name: input.name,
+    viewType: input.viewType,
+    filters: JSON.stringify(filters),
+    columns: input.columns ? JSON.stringify(input.columns) : null,
+    pinned: input.pinned ? 1 : 0,
+  });
+
+  if (snapshot) await replaceSavedViewLeads(id, snapshot);
+  return { id };
+}
+
+export async function updateView(
+  userId: number,
+  viewId: number,
+  input: Partial<Pick<SavedViewInput, "name" | "filters" | "columns">>
+) {
+  await getOwnedView(viewId, userId);
+
+  const updates: Parameters<typeof updateSavedView>[2] = {};
+  if (input.name !== undefined) updates.name = input.name;
+  if (input.filters !== undefined) {
+    const { snapshotViewId, ...filters } = input.filters;
+    updates.filters = JSON.stringify(filters);
+  }
+  if (input.columns !== undefined) updates.columns = input.columns ? JSON.stringify(input.columns) : null;
+
+  await updateSavedView(viewId, userId, updates);
+}
+
+/**
+ * Re-run a static view's filters and freeze the leads that match now
+ */
+export async function refreshSnapshot(userId: number, viewId: number, source: ViewLeadSource = databaseLeadSource) {
+  const view = await getOwnedView(viewId, userId);
+  if (view.viewType !== "static") throw new Error("Only static views have a snapshot");
+
+  const { snapshotViewId, ...filters } = view.filters;
+  const ids = await snapshotLeadIds(userId, filters, source);
+  await replaceSavedViewLeads(viewId, ids);
+  return { leadCount: ids.length };
+}
+
+/**
+ * Share a view read-only with another user of the app by email
+ */
+export async function shareView(userId: number, viewId: number, email: string) {
+  await getOwnedView(viewId, userId);
+
+  const teammate = await getUserByEmail(email.trim());
+  if (!teammate) throw new Error(`No user found with the email ${email.trim()}`);
+  if (teammate.id === userId) throw new Error("You already own this view");
+
+  if (!(await getSavedViewShare(viewId, teammate.id))) {
+    await createSavedViewShare(viewId, teammate.id);
+  }
+  return { userId: teammate.id, name: teammate.name, email: teammate.email };
+}
+
+export async function setViewPinned(userId: number, viewId: number, pinned: boolean) {
+  const view = await getSavedViewForUser(viewId, userId);
+  if (view.isOwner) {
+    await updateSavedView(viewId, userId, { pinned: pinned ? 1 : 0 });
+  } else {
+    await updateSavedViewSharePin(viewId, userId, pinned);
+  }
+}
+
+/**
+ * Unshare a view (owner) or remove a view shared with you (teammate)
+ */
+export async function removeViewShare(userId: number, viewId: number, teammateId: number) {
+  const view = await getSavedViewForUser(viewId, userId);
+  if (!view.isOwner && teammateId !== userId) {
+    throw new Error("Only the owner can change this view");
+  }
+  await deleteSavedViewShare(viewId, teammateId);
+}
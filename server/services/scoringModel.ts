@@ -0,0 +1,194 @@
+/**
+ * Scoring Models
+ * Each user's lead scoring model: which factors count and how much, which industries, company
+ * sizes and technologies fit, and where the priority buckets start. A changed model can be
+ * previewed against the user's leads before it's saved and every lead is rescored with it
+ */
+
+import {
+  getContactsForLeads,
+  getEnrichmentDataForLeads,
+  getFilteredLeadsPage,
+  getLeadEngagementCounts,
+  getScoringModelRow,
+  getUserLeads,
+  saveScoringModelRow,
+  type LeadCursor,
+} from "../db";
+import { calculateLeadScore, type ScoringContact } from "../leadScoring";
+import { TECHNOLOGY_MIN_CONFIDENCE } from "../../shared/enrichment";
+import { DEFAULT_SCORING_MODEL, priorityForScore, type ScorePriority, type ScoringModel } from "../../shared/scoring";
+import type { Lead } from "../../drizzle/schema";
+
+// Leads listed in each direction of the preview
+const PREVIEW_MOVERS = 5;
+
+// Leads read per page when collecting every lead to rescore
+const RESCORE_PAGE_SIZE = 1000;
+
+/** What a lead's score depends on besides the lead itself */
+export interface ScoringSignals {
+  opens: number;
+  clicks: number;
+  contacts?: ScoringContact[];
+  technologies: string[];
+}
+
+export interface ScoreChange {
+  leadId: number;
+  companyName: string;
+  before: number;
+  after: number;
+}
+
+export interface ScoringPreview {
+  total: number;
+  changed: number;
+  averageBefore: number;
+  averageAfter: number;
+  priorities: Record<ScorePriority, { before: number; after: number }>;
+  biggestRises: ScoreChange[];
+  biggestDrops: ScoreChange[];
+}
+
+const NO_SIGNALS: ScoringSignals = { opens: 0, clicks: 0, technologies: [] };
+
+/**
+ * The user's scoring model, or the default one if they haven't changed it
+ * Settings saved before a factor or band existed take the default for it
+ */
+export async function getScoringModel(userId: number): Promise<ScoringModel> {
+  const row = await getScoringModelRow(userId);
+  if (!row) return DEFAULT_SCORING_MODEL;
+
+  let settings: Partial<Omit<ScoringModel, "thresholds">> = {};
+  try {
+    settings = JSON.parse(row.settings);
+  } catch (error) {
+    console.warn(`[Scoring] Unreadable scoring model for user ${userId}, using the default:`, error);
+  }
+  return {
+    weights: { ...DEFAULT_SCORING_MODEL.weights, ...settings.weights },
+    targetIndustries: settings.targetIndustries ?? DEFAULT_SCORING_MODEL.targetIndustries,
+    secondaryIndustries: settings.secondaryIndustries ?? DEFAULT_SCORING_MODEL.secondaryIndustries,
+    targetTechnologies: settings.targetTechnologies ?? DEFAULT_SCORING_MODEL.targetTechnologies,
+    companySizeScores: { ...DEFAULT_SCORING_MODEL.companySizeScores, ...settings.companySizeScores },
+    thresholds: { high: row.highPriorityMin, medium: row.mediumPriorityMin },
+  };
+}
+
+/**
+ * Engagement, contacts and technologies of many leads at once, as calculateLeadScore takes them
+ */
+export async function getScoringSignals(leadIds: number[]): Promise<Map<number, ScoringSignals>> {
+  const engagement = await getLeadEngagementCounts(leadIds);
+  const contacts = await getContactsForLeads(leadIds);
+  const technologies = new Map<number, Set<string>>();
+  for (const row of await getEnrichmentDataForLeads(leadIds, "technology")) {
+    if ((row.confidence ?? 0) < TECHNOLOGY_MIN_CONFIDENCE) continue;
+    technologies.set(row.leadId, (technologies.get(row.leadId) ?? new Set<string>()).add(row.dataKey));
+  }
+
+  return new Map(leadIds.map(id => [id, {
+    opens: engagement.get(id)?.opens ?? 0,
+    clicks: engagement.get(id)?.clicks ?? 0,
+    contacts: contacts.get(id) ?? [],
+    technologies: Array.from(technologies.get(id) ?? []),
+  }]));
+}
+
+/**
+ * How leads' scores would move from what the current model gives them to what a proposed one does
+ * Both sides are scored now, so stored scores gone stale since they were last calculated don't count as moves
+ */
+export function previewScoreChanges(
+  leads: Pick<Lead, "id" | "companyName" | "score">[],
+  signals: Map<number, ScoringSignals>,
+  current: ScoringModel,
+  proposed: ScoringModel
+): ScoringPreview {
+  const changes: ScoreChange[] = leads.map(lead => {
+    const { opens, clicks, contacts, technologies } = signals.get(lead.id) ?? NO_SIGNALS;
+    const before = calculateLeadScore(lead as Lead, opens, clicks, contacts, technologies, current).score;
+    const after = calculateLeadScore(lead as Lead, opens, clicks, contacts, technologies, proposed).score;
+    return { leadId: lead.id, companyName: lead.companyName, before, after };
+  });
+
+  const priorities: ScoringPreview["priorities"] = {
+    high: { before: 0, after: 0 },
+    medium: { before: 0, after: 0 },
+    low: { before: 0, after: 0 },
+  };
+  for (const change of changes) {
+    priorities[priorityForScore(change.before, current.thresholds)].before++;
+    priorities[priorityForScore(change.after, proposed.thresholds)].after++;
+  }
+
+  const average = (values: number[]) => values.length === 0 ? 0 : Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+  const moved = changes.filter(change => change.after !== change.before);
+  return {
+    total: changes.length,
+    changed: moved.length,
+    averageBefore: average(changes.map(change => change.before)),
+    averageAfter: average(changes.map(change => change.after)),
+    priorities,
+    biggestRises: moved.filter(change => change.after > change.before)
+      .sort((a, b) => (b.after - b.before) - (a.after - a.before))
+      .slice(0, PREVIEW_MOVERS),
+    biggestDrops: moved.filter(change => change.after < change.before)
+      .sort((a, b) => (a.after - a.before) - (b.after - b.before))
+      .slice(0, PREVIEW_MOVERS),
+  };
+}
+
+/**
+ * How a proposed model would move the user's saved leads' scores
+ */
+export async function previewScoringModel(userId: number, proposed: ScoringModel): Promise<ScoringPreview> {
+  const leads = await getUserLeads(userId);
+  const signals = await getScoringSignals(leads.map(lead => lead.id));
+  return previewScoreChanges(leads, signals, await getScoringModel(userId), proposed);
+}
+
+/**
+ * How a proposed model would move sample leads' scores; they have no engagement, contacts or technologies
+ */
+export async function previewSampleScoringModel(
+  userId: number,
+  leads: Pick<Lead, "id" | "companyName" | "score">[],
+  proposed: ScoringModel
+): Promise<ScoringPreview> {
+  return previewScoreChanges(leads, new Map(), await getScoringModel(userId), proposed);
+}
+
+/**
+ * Save the user's scoring model, then rescore all their leads with it as a bulk operation that can be
+ * followed and undone; operationId is null when there are no saved leads to rescore
+ */
+export async function applyScoringModel(userId: number, model: ScoringModel, rescore: boolean): Promise<{ operationId: number | null }> {
+  const { thresholds, ...settings } = model;
+  await saveScoringModelRow({
+    userId,
+    highPriorityMin: thresholds.high,
+    mediumPriorityMin: thresholds.medium,
+    settings: JSON.stringify(settings),
+  });
+  if (!rescore) return { operationId: null };
+
+  // Every lead, however many; a bulk operation target stops at MAX_BULK_OPERATION_LEADS
+  const filters = { sortBy: "recent" as const };
+  const leadIds: number[] = [];
+  for (let cursor: LeadCursor | null = null; ;) {
+    const page = await getFilteredLeadsPage(userId, filters, cursor, RESCORE_PAGE_SIZE);
+    leadIds.push(...page.map(lead => lead.id));
+    if (page.length < RESCORE_PAGE_SIZE) break;
+    const last = page[page.length - 1];
+    cursor = { value: last.sortValue, id: last.id };
+  }
+  if (leadIds.length === 0) return { operationId: null };
+
+  // Loaded here since bulk operations score with this module's models
+  const { startBulkOperationOnLeads } = await import("./bulkOperations");
+  const { id } = await startBulkOperationOnLeads(userId, leadIds, { type: "recalculateScore" });
+  return { operationId: id };
+}
@@ -0,0 +1,305 @@
+/**
+ * Search Monitor Service
+ * Turns a saved (favorited) search into a monitor that re-runs on a cron schedule. Every company
+ * a monitor finds is kept, so each run only surfaces the new ones: in the app, in an optional
+ * digest email, or straight into the user's leads
+ */
+
+import * as cron from "node-cron";
+import {
+  createLeads,
+  createSearchMonitor,
+  createSearchMonitorMatches,
+  deleteSearchMonitor,
+  getSearchHistoryById,
+  getSearchMonitorById,
+  getSearchMonitorBySearchId,
+  getSearchMonitorMatchCompanies,
+  getUserById,
+  getUserLeadIdentities,
+  getUserSearchMonitorMatches,
+  getUserSearchMonitors,
+  updateSearchMonitor,
+  updateSearchMonitorMatch,
+  updateSearchMonitorMatchStatus,
+} from "../db";
+import { calculateLeadScore } from "../leadScoring";
+import { getScoringModel } from "./scoringModel";
+import { normalizeCompanyName, normalizeDomain } from "../leadMatching";
+import { discoverLeadsInputSchema, type DiscoverLeadsInput } from "../leadValidation";
+import { scheduleSearchMonitor, unscheduleSearchMonitor } from "../scheduler";
+import { searchLeadSources, type DiscoveredLead } from "./leadDiscovery";
+import { enrichNewLeads } from "./leadEnrichment";
+import type { SearchHistory, SearchMonitorMatch } from "../../drizzle/schema";
+
+export interface SearchMonitorSettings {
+  cronExpression: string;
+  isActive: boolean;
+  autoImport: boolean;
+  emailDigest: boolean;
+}
+
+export interface SearchMonitorRunResult {
+  found: number; // Companies the search returned
+  newMatches: number; // Of those, ones the monitor hadn't seen and the user doesn't have
+  imported: number;
+}
+
+/**
+ * The key a monitor remembers a company by: its domain, or its name without one
+ */
+export function monitorCompanyKey(lead: Pick<DiscoveredLead, "companyName" | "website">) {
+  return normalizeDomain(lead.website) || normalizeCompanyName(lead.companyName);
+}
+
+/**
+ * Every key a company is known by, its domain and its name, so a company found once with
+ * a website and once without (or under another domain) is still recognized
+ */
+function companyKeys(company: { companyName: string; website?: string | null; companyKey?: string }) {
+  return [company.companyKey, normalizeDomain(company.website), normalizeCompanyName(company.companyName)]
+    .filter((key): key is string => !!key);
+}
+
+/**
+ * Keys of every company the user already has as a lead
+ */
+async function userLeadKeys(userId: number) {
+  return new Set((await getUserLeadIdentities(userId)).flatMap(companyKeys));
+}
+
+/**
+ * Rebuild the first page of a saved search from its history entry
+ */
+function savedSearchInput(search: SearchHistory): DiscoverLeadsInput {
+  let filters: Record<string, unknown> = {};
+  try {
+    filters = search.filters ? JSON.parse(search.filters) : {};
+  } catch {
+    // Older entries may not have parseable filters; the columns below still hold the basics
+  }
+
+  return discoverLeadsInputSchema.parse({
+    query: search.query,
+    industry: search.industry || undefined,
+    companySize: search.companySize || undefined,
+    location: search.location || undefined,
+    perPage: typeof filters.perPage === "number" ? filters.perPage : undefined,
+    sources: Array.isArray(filters.sources) && filters.sources.length > 0 ? filters.sources : undefined,
+    parsedFilters: search.parsedFilters ? JSON.parse(search.parsedFilters) : undefined,
+  });
+}
+
+/**
+ * Create or update the monitor on one of the user's saved searches, and (re)schedule it
+ */
+export async function saveSearchMonitor(userId: number, searchId: number, settings: SearchMonitorSettings) {
+  if (!cron.validate(settings.cronExpression)) {
+    throw new Error("Invalid cron expression");
+  }
+  const search = await getSearchHistoryById(searchId, userId);
+  if (!search) {
+    throw new Error("Search not found or access denied");
+  }
+  if (search.isFavorite !== 1) {
+    throw new Error("Save the search to your favorites before monitoring it");
+  }
+
+  const values = {
+    cronExpression: settings.cronExpression,
+    isActive: settings.isActive ? 1 : 0,
+    autoImport: settings.autoImport ? 1 : 0,
+    emailDigest: settings.emailDigest ? 1 : 0,
+  };
+  const existing = await getSearchMonitorBySearchId(searchId);
+  let monitorId: number;
+  if (existing) {
+    monitorId = existing.id;
+    await updateSearchMonitor(monitorId, values);
+  } else {
+    monitorId = await createSearchMonitor({ userId, searchId, ...values });
+  }
+
+  if (settings.isActive) {
+    scheduleSearchMonitor(monitorId, settings.cronExpression);
+  } else {
+    unscheduleSearchMonitor(monitorId);
+  }
+  return (await getSearchMonitorById(monitorId))!;
+}
+
+async function getOwnedMonitor(userId: number, monitorId: number) {
+  const monitor = await getSearchMonitorById(monitorId);
+  if (!monitor || monitor.userId !== userId) {
+    throw new Error("Search monitor not found or access denied");
+  }
+  return monitor;
+}
+
+/**
+ * Stop monitoring a search; the matches it found go with it
+ */
+export async function deleteUserSearchMonitor(userId: number, monitorId: number) {
+  await getOwnedMonitor(userId, monitorId);
+  unscheduleSearchMonitor(monitorId);
+  await deleteSearchMonitor(monitorId);
+}
+
+/**
+ * Remove the monitor on a search, if it has one (when the search is deleted or unfavorited)
+ */
+export async function removeMonitorForSearch(searchId: number) {
+  const monitor = await getSearchMonitorBySearchId(searchId);
+  if (!monitor) return;
+  unscheduleSearchMonitor(monitor.id);
+  await deleteSearchMonitor(monitor.id);
+}
+
+/**
+ * Add matches to the user's leads as new leads, skipping companies they already have
+ */
+async function importMatches(userId: number, matches: SearchMonitorMatch[]) {
+  const existingKeys = await userLeadKeys(userId);
+  const isLead = (match: SearchMonitorMatch) => companyKeys(match).some(key => existingKeys.has(key));
+  const toImport = matches.filter(match => !isLead(match));
+  const alreadyLeads = matches.filter(isLead);
+  await updateSearchMonitorMatchStatus(alreadyLeads.map(match => match.id), userId, "existingLead");
+  if (toImport.length === 0) return 0;
+
+  const model = await getScoringModel(userId);
+  const values = toImport.map(match => {
+    const lead = JSON.parse(match.lead) as DiscoveredLead;
+    const fields = {
+      userId,
+      companyName: lead.companyName,
+      website: lead.website || null,
+      industry: lead.industry || null,
+      companySize: lead.companySize || null,
+      location: lead.location || null,
+      description: lead.description || null,
+      contactName: lead.contactName || null,
+      contactTitle: lead.contactTitle || null,
+      contactEmail: lead.contactEmail || null,
+      contactLinkedin: lead.contactLinkedin || null,
+      contactPhone: lead.contactPhone || null,
+      status: "new" as const,
+    };
+    return { ...fields, score: calculateLeadScore(fields as any, 0, 0, undefined, [], model).score };
+  });
+  const leadIds = await createLeads(values);
+  void enrichNewLeads(userId, leadIds);
+  for (let i = 0; i < toImport.length; i++) {
+    await updateSearchMonitorMatch(toImport[i].id, userId, { status: "imported", leadId: leadIds[i] });
+  }
+  return toImport.length;
+}
+
+/**
+ * Re-run a monitor's search and record the companies it hasn't seen before
+ * AI template results are left out: they're generated fresh each time, not real companies.
+ * Each run skips the discovery cache, which would otherwise keep serving the results of an
+ * earlier search (maybe the monitor's own last run) and hide companies that have appeared since
+ */
+export async function runSearchMonitor(monitorId: number): Promise<SearchMonitorRunResult> {
+  const monitor = await getSearchMonitorById(monitorId);
+  if (!monitor) {
+    throw new Error("Search monitor not found");
+  }
+
+  const search = await getSearchHistoryById(monitor.searchId, monitor.userId);
+  if (!search) {
+    unscheduleSearchMonitor(monitor.id);
+    await updateSearchMonitor(monitor.id, { isActive: 0, lastError: "The saved search no longer exists" });
+    throw new Error("The saved search no longer exists");
+  }
+  const user = await getUserById(monitor.userId);
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  try {
+    const result = await searchLeadSources(user, { ...savedSearchInput(search), forceRefresh: true });
+    const found = result.leads.filter(lead => lead.source !== "llm");
+
+    // A company counts as seen when its domain or its name matches an earlier match or a lead
+    const seen = new Set((await getSearchMonitorMatchCompanies(monitor.id)).flatMap(companyKeys));
+    const existingKeys = await userLeadKeys(user.id);
+    const unseen = new Map<string, DiscoveredLead>();
+    for (const lead of found) {
+      const key = monitorCompanyKey(lead);
+      const keys = companyKeys(lead);
+      if (!key || keys.some(other => seen.has(other))) continue;
+      keys.forEach(other => seen.add(other));
+      unseen.set(key, lead);
+    }
+
+    const matches = await createSearchMonitorMatches(monitor.id, Array.from(unseen, ([companyKey, lead]) => ({
+      monitorId: monitor.id,
+      userId: user.id,
+      companyKey,
+      companyName: lead.companyName,
+      lead: JSON.stringify(lead),
+      status: companyKeys(lead).some(key => existingKeys.has(key)) ? "existingLead" as const : "new" as const,
+    })));
+    const newMatches = matches.filter(match => match.status === "new");
+
+    const imported = monitor.autoImport === 1 ? await importMatches(user.id, newMatches) : 0;
+    if (monitor.emailDigest === 1 && newMatches.length > 0 && user.email) {
+      await sendDigest(user.email, user.name || "there", search.query, newMatches, monitor.autoImport === 1);
+    }
+
+    await updateSearchMonitor(monitor.id, { lastRunAt: new Date(), lastError: null });
+    console.log(`[Search Monitor] Monitor ${monitor.id} found ${newMatches.length} new companies (${imported} imported)`);
+    return { found: found.length, newMatches: newMatches.length, imported };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await updateSearchMonitor(monitor.id, { lastRunAt: new Date(), lastError: message });
+    throw error;
+  }
+}
+
+async function sendDigest(email: string, name: string, query: string, matches: SearchMonitorMatch[], imported: boolean) {
+  try {
+    const { sendSearchMonitorDigestEmail } = await import("./email");
+    const companies = matches.map(match => JSON.parse(match.lead) as DiscoveredLead);
+    await sendSearchMonitorDigestEmail(email, name, query, companies, imported);
+  } catch (error) {
+    console.error("[Search Monitor] Failed to send digest email:", error);
+  }
+}
+
+/**
+ * Run one of the user's monitors now, outside its schedule
+ */
+export async function runUserSearchMonitor(userId: number, monitorId: number) {
+  await getOwnedMonitor(userId, monitorId);
+  return runSearchMonitor(monitorId);
+}
+
+/**
+ * The user's monitors with their saved search and how many new matches await review
+ */
+export async function listSearchMonitors(userId: number) {
+  const [monitors, pending] = await Promise.all([
+    getUserSearchMonitors(userId),
+    getUserSearchMonitorMatches(userId, { status: "new" }),
+  ]);
+  return monitors.map(monitor => ({
+    ...monitor,
+    newMatches: pending.filter(match => match.monitorId === monitor.id).length,
+  }));
+}
+
+/**
+ * Import new matches the user picked as leads
+ */
+export async function importSearchMonitorMatches(userId: number, matchIds: number[]) {
+  const matches = await getUserSearchMonitorMatches(userId, { ids: matchIds });
+  return importMatches(userId, matches.filter(match => match.status === "new" || match.status === "dismissed"));
+}
+
+export async function dismissSearchMonitorMatches(userId: number, matchIds: number[]) {
+  const matches = await getUserSearchMonitorMatches(userId, { ids: matchIds, status: "new" });
+  await updateSearchMonitorMatchStatus(matches.map(match => match.id), userId, "dismissed");
+  return matches.length;
+}
@@ -1,6 +1,7 @@
 import { eq } from "drizzle-orm";
-import { getDb } from "../db";
+import { getDb, getSequenceSteps } from "../db";
 import { emailSequences, sequenceEnrollments } from "../../drizzle/schema";
+import { resolveEnrollmentContact } from "./leadContacts";
 
 /**
  * Enroll a user in all active sequences with signup trigger
@@ -45,3 +46,33 @@ export async function enrollInSignupSequences(userId: number): Promise<void> {
     throw error;
   }
 }
+
+/**
+ * Enroll a lead in a sequence, scheduling the first email after the first step's delay
+ * The sequence emails the given contact, or the lead's primary contact
+ */
+export async function enrollLeadInSequence(sequenceId: number, leadId: number, contactId?: number): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const enrolledContactId = await resolveEnrollmentContact(leadId, contactId);
+
+  // Get first step to calculate next email time
+  const steps = await getSequenceSteps(sequenceId);
+  const firstStep = steps[0];
+
+  const now = new Date();
+  const nextEmailTime = firstStep
+    ? new Date(now.getTime() + ((firstStep.delayDays || 0) * 24 * 60 * 60 * 1000) + ((firstStep.delayHours || 0) * 60 * 60 * 1000))
+    : now;
+
+  const [result] = await db.insert(sequenceEnrollments).values({
+    sequenceId,
+    leadId,
+    contactId: enrolledContactId,
+    currentStep: 0,
+    status: "active",
+    nextEmailScheduledAt: nextEmailTime,
+  });
+  return Number(result.insertId);
+}
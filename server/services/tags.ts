@@ -0,0 +1,180 @@
+/**
+ * Tags Service
+ * Per-user lead tags: creating, renaming, recoloring and merging tags,
+ * and adding or removing them on leads one at a time or in bulk
+ */
+
+import {
+  addLeadTags,
+  createTag as insertTag,
+  deleteTags,
+  getOwnedLeadIds,
+  getTagsForLeads,
+  getUserTags,
+  mergeTagRecords,
+  removeLeadTags,
+  updateTag as updateTagRow,
+} from "../db";
+import {
+  TAG_COLOR_PATTERN,
+  defaultTagColor,
+  normalizeTagName,
+  type LeadTag,
+} from "../../shared/tags";
+
+/** Most leads one bulk tag operation may touch */
+export const MAX_BULK_TAG_LEADS = 5000;
+
+function validateColor(color: string) {
+  if (!TAG_COLOR_PATTERN.test(color)) {
+    throw new Error("Tag color must be a hex color such as #3b82f6");
+  }
+  return color.toLowerCase();
+}
+
+function requireName(name: string) {
+  const normalized = normalizeTagName(name);
+  if (!normalized) throw new Error("Tag name is required");
+  return normalized;
+}
+
+export async function createTag(userId: number, input: { name: string; color?: string }): Promise<LeadTag> {
+  const name = requireName(input.name);
+  const existing = await getUserTags(userId);
+  if (existing.some(tag => tag.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`A tag named "${name}" already exists`);
+  }
+
+  const color = input.color ? validateColor(input.color) : defaultTagColor(name);
+  const id = await insertTag({ userId, name, color });
+  return { id, name, color };
+}
+
+/**
+ * Rename or recolor a tag; every lead carrying it shows the change
+ * Renaming onto another tag's name is refused so the two can be merged deliberately
+ */
+export async function updateTag(userId: number, id: number, input: { name?: string; color?: string }) {
+  const existing = await getUserTags(userId);
+  if (!existing.some(tag => tag.id === id)) throw new Error("Tag not found");
+
+  const updates: { name?: string; color?: string } = {};
+  if (input.name !== undefined) {
+    const name = requireName(input.name);
+    const clash = existing.find(tag => tag.id !== id && tag.name.toLowerCase() === name.toLowerCase());
+    if (clash) throw new Error(`A tag named "${clash.name}" already exists; merge the tags instead`);
+    updates.name = name;
+  }
+  if (input.color !== undefined) updates.color = validateColor(input.color);
+
+  await updateTagRow(id, userId, updates);
+}
+
+/**
+ * Merge tags into one: leads carrying any source tag get the target tag and the sources are deleted
+ */
+export async function mergeTags(userId: number, sourceIds: number[], targetId: number) {
+  const existing = await getUserTags(userId);
+  const sources = Array.from(new Set(sourceIds)).filter(id => id !== targetId);
+  if (!existing.some(tag => tag.id === targetId)) throw new Error("Tag not found");
+  if (sources.length === 0) throw new Error("Choose at least one other tag to merge");
+  if (sources.some(id => !existing.some(tag => tag.id === id))) throw new Error("Tag not found");
+
+  const addedLeads = await mergeTagRecords(userId, sources, targetId);
+  return { mergedTags: sources.length, addedLeads };
+}
+
+export async function deleteTag(userId: number, id: number) {
+  await deleteTags([id], userId);
+}
+
+/**
+ * Find tags by name, creating any the user doesn't have yet
+ */
+export async function ensureTags(userId: number, names: string[]): Promise<LeadTag[]> {
+  const existing = await getUserTags(userId);
+  const byName = new Map<string, LeadTag>(existing.map(tag => [tag.name.toLowerCase(), { id: tag.id, name: tag.name, color: tag.color }]));
+  const result: LeadTag[] = [];
+
+  for (const raw of names) {
+    const name = normalizeTagName(raw);
+    if (!name) continue;
+    let tag = byName.get(name.toLowerCase());
+    if (!tag) {
+      const color = defaultTagColor(name);
+      tag = { id: await insertTag({ userId, name, color }), name, color };
+      byName.set(name.toLowerCase(), tag);
+    }
+    if (!result.some(t => t.id === tag!.id)) result.push(tag);
+  }
+  return result;
+}
+
+/**
+ * Check that every tag and lead belongs to the user before linking them
+ */
+async function resolveOwned(userId: number, leadIds: number[], tagIds: number[]) {
+  const uniqueLeadIds = Array.from(new Set(leadIds));
+  if (uniqueLeadIds.length > MAX_BULK_TAG_LEADS) {
+    throw new Error(`Tag at most ${MAX_BULK_TAG_LEADS} leads at a time`);
+  }
+
+  const userTags = await getUserTags(userId);
+  const uniqueTagIds = Array.from(new Set(tagIds));
+  if (uniqueTagIds.some(id => !userTags.some(tag => tag.id === id))) throw new Error("Tag not found");
+
+  const ownedLeadIds = await getOwnedLeadIds(userId, uniqueLeadIds);
+  if (ownedLeadIds.length !== uniqueLeadIds.length) throw new Error("Lead not found or access denied");
+
+  return { leadIds: ownedLeadIds, tagIds: uniqueTagIds };
+}
+
+export async function addTagsToLeads(userId: number, leadIds: number[], tagIds: number[]) {
+  const owned = await resolveOwned(userId, leadIds, tagIds);
+  const links = owned.leadIds.flatMap(leadId => owned.tagIds.map(tagId => ({ leadId, tagId })));
+  return { added: await addLeadTags(links) };
+}
+
+export async function removeTagsFromLeads(userId: number, leadIds: number[], tagIds: number[]) {
+  const owned = await resolveOwned(userId, leadIds, tagIds);
+  return { removed: await removeLeadTags(owned.leadIds, owned.tagIds) };
+}
+
+/**
+ * Replace one lead's tags
+ */
+export async function setLeadTags(userId: number, leadId: number, tagIds: number[]) {
+  const owned = await resolveOwned(userId, [leadId], tagIds);
+  const current = (await getTagsForLeads([leadId])).get(leadId) ?? [];
+
+  const toRemove = current.filter(tag => !owned.tagIds.includes(tag.id)).map(tag => tag.id);
+  const toAdd = owned.tagIds.filter(id => !current.some(tag => tag.id === id));
+  await removeLeadTags([leadId], toRemove);
+  await addLeadTags(toAdd.map(tagId => ({ leadId, tagId })));
+}
+
+/**
+ * Tag new leads from free-text tag names (imports and manual creation)
+ */
+export async function tagLeadsByName(userId: number, tagNamesByLead: { leadId: number; names: string[] }[]) {
+  const allNames = tagNamesByLead.flatMap(entry => entry.names);
+  if (allNames.length === 0) return;
+
+  const userTags = await ensureTags(userId, allNames);
+  const byName = new Map(userTags.map(tag => [tag.name.toLowerCase(), tag.id]));
+  const links = tagNamesByLead.flatMap(({ leadId, names }) =>
+    names
+      .map(name => byName.get(normalizeTagName(name).toLowerCase()))
+      .filter((tagId): tagId is number => tagId !== undefined)
+      .map(tagId => ({ leadId, tagId }))
+  );
+  await addLeadTags(links);
+}
+
+/**
+ * Attach each lead's tags for display
+ */
+export async function withLeadTags<T extends { id: number }>(leads: T[]): Promise<(T & { tags: LeadTag[] })[]> {
+  const tagsByLead = await getTagsForLeads(leads.map(lead => lead.id));
+  return leads.map(lead => ({ ...lead, tags: tagsByLead.get(lead.id) ?? [] }));
+}
@@ -0,0 +1,78 @@
+/**
+ * Email Template Variables
+ * Fills {{variable}} placeholders in email subjects and bodies with a lead's
+ * details, including its custom fields as {{custom.<key>}}
+ */
+
+import {
+  formatCustomFieldValue,
+  parseCustomFieldValues,
+  type CustomFieldDefinition,
+} from "../../shared/customFields";
+import type { Lead } from "../../drizzle/schema";
+
+export interface TemplateVariable {
+  key: string;
+  label: string;
+}
+
+type TemplateLead = Pick<
+  Lead,
+  "companyName" | "website" | "industry" | "location" | "contactName" | "contactTitle" | "contactEmail" | "customFields"
+>;
+
+const STANDARD_VARIABLES: TemplateVariable[] = [
+  { key: "firstName", label: "Contact first name" },
+  { key: "lastName", label: "Contact last name" },
+  { key: "contactName", label: "Contact full name" },
+  { key: "contactTitle", label: "Contact title" },
+  { key: "contactEmail", label: "Contact email" },
+  { key: "companyName", label: "Company name" },
+  { key: "website", label: "Website" },
+  { key: "industry", label: "Industry" },
+  { key: "location", label: "Location" },
+];
+
+/**
+ * Variables available to a user's templates
+ */
+export function listTemplateVariables(customFields: CustomFieldDefinition[]): TemplateVariable[] {
+  return [
+    ...STANDARD_VARIABLES,
+    ...customFields.map(field => ({ key: `custom.${field.fieldKey}`, label: field.label })),
+  ];
+}
+
+/**
+ * Resolve every variable for one lead; missing values become empty strings
+ */
+export function buildTemplateVariables(lead: TemplateLead, customFields: CustomFieldDefinition[]): Record<string, string> {
+  const [firstName = "", ...rest] = (lead.contactName || "").trim().split(/\s+/);
+  const variables: Record<string, string> = {
+    firstName,
+    lastName: rest.join(" "),
+    contactName: lead.contactName || "",
+    contactTitle: lead.contactTitle || "",
+    contactEmail: lead.contactEmail || "",
+    companyName: lead.companyName,
+    website: lead.website || "",
+    industry: lead.industry || "",
+    location: lead.location || "",
+  };
+
+  const values = parseCustomFieldValues(lead.customFields);
+  for (const field of customFields) {
+    variables[`custom.${field.fieldKey}`] = formatCustomFieldValue(field, values[field.fieldKey]);
+  }
+
+  return variables;
+}
+
+/**
+ * Replace known {{variable}} placeholders; unknown ones are left as written
+ */
+export function renderTemplate(text: string, variables: Record<string, string>): string {
+  return text.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (placeholder, key: string) =>
+    key in variables ? variables[key] : placeholder
+  );
+}
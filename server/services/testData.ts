@@ -3,6 +3,8 @@
  * Generates realistic test data for all features when Test Mode is enabled
  */
 
+import type { LeadTag } from "../../shared/tags";
+
 // Company name components for realistic generation
 const companyPrefixes = ['Tech', 'Global', 'Digital', 'Smart', 'Cloud', 'Data', 'Cyber', 'AI', 'Next', 'Future'];
 const companySuffixes = ['Solutions', 'Systems', 'Technologies', 'Labs', 'Dynamics', 'Innovations', 'Ventures', 'Corp', 'Inc', 'Group'];
@@ -452,3 +454,34 @@ export function regenerateTestData() {
   cachedTestData = generateAllTestData();
   return cachedTestData;
 }
+
+// Test leads shaped like rows of the leads table
+export function getTestLeadRecords(userId: number) {
+  return getTestData().leads.map(lead => ({
+    id: lead.id,
+    userId,
+    companyName: lead.companyName,
+    website: lead.website,
+    industry: lead.industry,
+    companySize: `${lead.employeeCount} employees`,
+    location: lead.location,
+    description: `${lead.industry} company with ${lead.revenue} revenue`,
+    contactName: lead.contactName,
+    contactTitle: lead.contactTitle,
+    contactEmail: lead.contactEmail,
+    contactLinkedin: lead.linkedinUrl,
+    contactPhone: lead.contactPhone,
+    status: lead.status,
+    score: lead.score,
+    notes: lead.notes,
+    tags: [] as LeadTag[], // Tags live in the database, so sample leads have none
+    technologies: [] as string[], // As does enrichment
+    latitude: null, // Placed on the map by the sample geocoder instead
+    longitude: null,
+    geocodedLocation: null,
+    geocodedAt: null,
+    customFields: null,
+    createdAt: lead.createdAt,
+    updatedAt: lead.createdAt,
+  }));
+}
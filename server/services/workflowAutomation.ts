@@ -1,6 +1,6 @@
-import { getDb } from "../db";
-import { leads } from "../../drizzle/schema";
-import { eq, sql } from "drizzle-orm";
+import { createLeadStatusChange, getDb, getLeadStatusHistory as getStatusHistoryRows } from "../db";
+import { leads, type Lead, type LeadStatusChange } from "../../drizzle/schema";
+import { eq } from "drizzle-orm";
 
 /**
  * Workflow Automation Service
@@ -9,7 +9,7 @@ import { eq, sql } from "drizzle-orm";
  * Tracks all status changes in leadStatusHistory table with metadata and reasoning.
  */
 
-export type LeadStatus = "new" | "contacted" | "qualified" | "nurturing" | "won" | "lost" | "unresponsive";
+export type LeadStatus = Lead["status"];
 
 export type WorkflowTrigger =
   | "email_sent"
@@ -22,7 +22,21 @@ export type WorkflowTrigger =
   | "lost_manually"
   | "no_response_timeout";
 
-export type TriggeredBy = "user" | "workflow" | "system";
+export type TriggeredBy = LeadStatusChange["triggeredBy"];
+
+/** Why a status changed: a workflow trigger, a person editing the lead, or a merge */
+export type StatusChangeReason = WorkflowTrigger | "manual_update" | "lead_merged";
+
+export interface StatusChange {
+  leadId: number;
+  userId: number; // Owner of the lead
+  previousStatus: LeadStatus;
+  newStatus: LeadStatus;
+  changeReason: StatusChangeReason;
+  triggeredBy: TriggeredBy;
+  metadata?: Record<string, unknown>;
+  notes?: string;
+}
 
 interface WorkflowRule {
   trigger: WorkflowTrigger;
@@ -157,16 +171,16 @@ export async function processWorkflowTrigger(
     .where(eq(leads.id, leadId));
 
   // Record status change in history
-  await recordStatusChange(
+  await recordStatusChange({
     leadId,
     userId,
-    currentStatus,
+    previousStatus: currentStatus,
     newStatus,
-    trigger,
-    "workflow",
+    changeReason: trigger,
+    triggeredBy: "workflow",
     metadata,
-    notes || rule.description
-  );
+    notes: notes || rule.description,
+  });
 
   console.log(`[Workflow] Lead ${leadId} status changed: ${currentStatus} → ${newStatus} (trigger: ${trigger})`);
 
@@ -205,16 +219,15 @@ export async function updateLeadStatus(
     .where(eq(leads.id, leadId));
 
   // Record status change in history
-  await recordStatusChange(
+  await recordStatusChange({
     leadId,
     userId,
-    currentStatus,
+    previousStatus: currentStatus,
     newStatus,
-    "manual_update",
+    changeReason: "manual_update",
     triggeredBy,
-    undefined,
-    notes
-  );
+    notes,
+  });
 
   console.log(`[Workflow] Lead ${leadId} status manually updated: ${currentStatus} → ${newStatus}`);
 
@@ -222,78 +235,42 @@ export async function updateLeadStatus(
 }
 
 /**
- * Get status change history for a lead
+ * Get status change history for a lead, oldest first
  */
 export async function getLeadStatusHistory(leadId: number) {
-  const db = await getDb();
-  if (!db) return [];
-
-  const result: any = await db.execute(
-    sql`SELECT 
-      id,
-      leadId,
-      userId,
-      previousStatus,
-      newStatus,
-      changeReason,
-      triggeredBy,
-      metadata,
-      notes,
-      changedAt
-    FROM leadStatusHistory
-    WHERE leadId = ${leadId}
-    ORDER BY changedAt ASC`
-  );
-
-  return (result.rows as any[]).map((row) => ({
-    id: row.id,
-    leadId: row.leadId,
-    userId: row.userId,
-    previousStatus: row.previousStatus,
-    newStatus: row.newStatus,
-    changeReason: row.changeReason,
-    triggeredBy: row.triggeredBy,
-    metadata: row.metadata,
-    notes: row.notes,
-    changedAt: row.changedAt,
+  const rows = await getStatusHistoryRows(leadId);
+  return rows.map((row) => ({
+    ...row,
+    metadata: parseMetadata(row.metadata),
   }));
 }
 
+function parseMetadata(metadata: string | null): Record<string, unknown> | null {
+  if (!metadata) return null;
+  try {
+    return JSON.parse(metadata);
+  } catch {
+    return null;
+  }
+}
+
 /**
- * Internal helper to record status changes in history
+ * Record a status change in history
+ * Every path that changes a lead's status calls this after updating the lead
  */
-async function recordStatusChange(
-  leadId: number,
-  userId: number,
-  previousStatus: LeadStatus,
-  newStatus: LeadStatus,
-  changeReason: string,
-  triggeredBy: TriggeredBy,
-  metadata?: Record<string, any>,
-  notes?: string
-) {
-  const db = await getDb();
-  if (!db) return;
-
-  await db.execute(
-    sql`INSERT INTO leadStatusHistory (
-      leadId,
-      userId,
-      previousStatus,
-      newStatus,
-      changeReason,
-      triggeredBy,
-      metadata,
-      notes
-    ) VALUES (
-      ${leadId},
-      ${userId},
-      ${previousStatus},
-      ${newStatus},
-      ${changeReason},
-      ${triggeredBy},
-      ${metadata ? JSON.stringify(metadata) : null},
-      ${notes || null}
-    )`
-  );
+export async function recordStatusChange(change: StatusChange) {
+  if (change.previousStatus === change.newStatus) return;
+
+  await createLeadStatusChange(toStatusChangeRow(change));
+}
+
+/**
+ * Build the history row for a status change, for callers writing it in their own transaction
+ */
+export function toStatusChangeRow(change: StatusChange) {
+  return {
+    ...change,
+    metadata: change.metadata ? JSON.stringify(change.metadata) : null,
+    notes: change.notes || null,
+  };
 }
@@ -0,0 +1,19 @@
+/**
+ * Lead contacts
+ * Shared by the server (storage, email attribution) and the client (contact lists and forms).
+ * A lead is a company; its contacts are the people there. One contact is the primary contact,
+ * whose details are also kept on the lead row for lists, search and export
+ */
+
+export const CONTACT_ROLES = ["decision_maker", "champion", "influencer", "technical", "end_user", "other"] as const;
+
+export type ContactRole = (typeof CONTACT_ROLES)[number];
+
+export const CONTACT_ROLE_LABELS: Record<ContactRole, string> = {
+  decision_maker: "Decision Maker",
+  champion: "Champion",
+  influencer: "Influencer",
+  technical: "Technical",
+  end_user: "End User",
+  other: "Other",
+};
@@ -0,0 +1,273 @@
+/**
+ * Custom lead fields
+ * Value validation, formatting, filtering and sorting rules for user-defined
+ * lead fields, shared by the server and the client so both agree on them
+ */
+
+export const CUSTOM_FIELD_TYPES = [
+  "text",
+  "number",
+  "date",
+  "single_select",
+  "multi_select",
+  "url",
+  "currency",
+] as const;
+
+export type CustomFieldType = (typeof CUSTOM_FIELD_TYPES)[number];
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: "Text",
+  number: "Number",
+  date: "Date",
+  single_select: "Single select",
+  multi_select: "Multi select",
+  url: "URL",
+  currency: "Currency",
+};
+
+/** Stored value: numbers for number/currency, YYYY-MM-DD for dates, string arrays for multi-select */
+export type CustomFieldValue = string | number | string[];
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+export interface CustomFieldDefinition {
+  id: number;
+  fieldKey: string;
+  label: string;
+  fieldType: CustomFieldType;
+  options: string[]; // Choices for single/multi select
+  currency: string | null; // ISO 4217 code for currency fields
+  position: number;
+}
+
+/** Filter on one custom field: value matches text/selects, min/max bound numbers, currency and dates */
+export interface CustomFieldFilter {
+  key: string;
+  value?: string;
+  min?: string;
+  max?: string;
+}
+
+export type CustomFieldResult = { ok: true; value: CustomFieldValue | null } | { ok: false; error: string };
+
+/** Column/mapping/sort key prefix used to address a custom field next to built-in lead fields */
+export const CUSTOM_FIELD_PREFIX = "custom:";
+
+export const FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]{0,63}$/;
+
+/**
+ * Derive a stable key from a field label: "Contract Value ($)" -> "contract_value"
+ */
+export function toFieldKey(label: string): string {
+  const key = label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 64);
+  return /^[a-z]/.test(key) ? key : `field_${key}`.slice(0, 64);
+}
+
+/**
+ * Parse the JSON stored in leads.customFields, ignoring malformed data
+ */
+export function parseCustomFieldValues(json: string | null | undefined): CustomFieldValues {
+  if (!json) return {};
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function parseNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+  // Allow "$1,200.50" and "1 200" as typed in spreadsheets
+  const cleaned = value.replace(/[\s,]/g, "").replace(/^[^\d+\-.]+/, "");
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(cleaned)) return null;
+  return Number(cleaned);
+}
+
+function parseDate(value: unknown): string | null {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10);
+  }
+  if (typeof value !== "string") return null;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const date = new Date(`${value}T00:00:00Z`);
+    return Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value ? null : value;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  // Keep the calendar day the user typed rather than shifting it to UTC
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function matchOption(definition: CustomFieldDefinition, value: string): string | null {
+  const wanted = value.trim().toLowerCase();
+  return definition.options.find(option => option.toLowerCase() === wanted) ?? null;
+}
+
+/**
+ * Validate and normalize one value for a field
+ * Accepts both typed values (from forms) and raw text (from imports)
+ * Blank values normalize to null, meaning "clear the field"
+ */
+export function normalizeCustomFieldValue(definition: CustomFieldDefinition, value: unknown): CustomFieldResult {
+  if (value === null || value === undefined || (typeof value === "string" && value.trim() === "")) {
+    return { ok: true, value: null };
+  }
+  if (Array.isArray(value) && value.length === 0) {
+    return { ok: true, value: null };
+  }
+
+  switch (definition.fieldType) {
+    case "text": {
+      if (typeof value !== "string" && typeof value !== "number") return { ok: false, error: "Must be text" };
+      return { ok: true, value: String(value).trim() };
+    }
+    case "number":
+    case "currency": {
+      const number = parseNumber(value);
+      if (number === null) return { ok: false, error: "Must be a number" };
+      return { ok: true, value: definition.fieldType === "currency" ? Math.round(number * 100) / 100 : number };
+    }
+    case "date": {
+      const date = parseDate(value);
+      if (!date) return { ok: false, error: "Must be a valid date" };
+      return { ok: true, value: date };
+    }
+    case "url": {
+      if (typeof value !== "string") return { ok: false, error: "Must be a URL" };
+      const trimmed = value.trim();
+      const withProtocol = /^[a-z]+:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+      try {
+        const url = new URL(withProtocol);
+        if (!["http:", "https:"].includes(url.protocol) || !url.hostname.includes(".")) {
+          return { ok: false, error: "Must be a URL" };
+        }
+        return { ok: true, value: withProtocol };
+      } catch {
+        return { ok: false, error: "Must be a URL" };
+      }
+    }
+    case "single_select": {
+      if (typeof value !== "string") return { ok: false, error: "Must be one of the field's options" };
+      const option = matchOption(definition, value);
+      if (!option) return { ok: false, error: `"${value}" is not one of: ${definition.options.join(", ")}` };
+      return { ok: true, value: option };
+    }
+    case "multi_select": {
+      const items = Array.isArray(value)
+        ? value.map(String)
+        : typeof value === "string" ? value.split(/[,;]/) : null;
+      if (!items) return { ok: false, error: "Must be a list of the field's options" };
+
+      const selected: string[] = [];
+      for (const item of items.map(i => i.trim()).filter(Boolean)) {
+        const option = matchOption(definition, item);
+        if (!option) return { ok: false, error: `"${item}" is not one of: ${definition.options.join(", ")}` };
+        if (!selected.includes(option)) selected.push(option);
+      }
+      return { ok: true, value: selected.length > 0 ? selected : null };
+    }
+  }
+}
+
+/**
+ * Format a stored value for display, CSV cells and email templates
+ */
+export function formatCustomFieldValue(definition: CustomFieldDefinition, value: CustomFieldValue | null | undefined): string {
+  if (value === null || value === undefined) return "";
+
+  switch (definition.fieldType) {
+    case "multi_select":
+      return Array.isArray(value) ? value.join(", ") : String(value);
+    case "currency":
+      if (typeof value !== "number") return String(value);
+      try {
+        return new Intl.NumberFormat("en-US", { style: "currency", currency: definition.currency || "USD" }).format(value);
+      } catch {
+        return `${value.toFixed(2)} ${definition.currency || ""}`.trim();
+      }
+    default:
+      return String(value);
+  }
+}
+
+function isEmpty(value: CustomFieldValue | null | undefined): boolean {
+  return value === null || value === undefined || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Whether a lead's value for a field passes a filter
+ */
+export function matchesCustomFieldFilter(
+  definition: CustomFieldDefinition,
+  value: CustomFieldValue | null | undefined,
+  filter: CustomFieldFilter
+): boolean {
+  const hasValueFilter = !!filter.value?.trim();
+  const hasRange = !!filter.min?.trim() || !!filter.max?.trim();
+  if (!hasValueFilter && !hasRange) return true;
+  if (isEmpty(value)) return false;
+
+  if (hasValueFilter) {
+    const wanted = filter.value!.trim().toLowerCase();
+    if (definition.fieldType === "multi_select") {
+      if (!(value as string[]).some(item => item.toLowerCase() === wanted)) return false;
+    } else if (definition.fieldType === "single_select") {
+      if (String(value).toLowerCase() !== wanted) return false;
+    } else if (!String(value).toLowerCase().includes(wanted)) {
+      return false;
+    }
+  }
+
+  if (hasRange) {
+    if (definition.fieldType === "date") {
+      const min = filter.min?.trim() ? parseDate(filter.min.trim()) : null;
+      const max = filter.max?.trim() ? parseDate(filter.max.trim()) : null;
+      if (min && String(value) < min) return false;
+      if (max && String(value) > max) return false;
+    } else if (definition.fieldType === "number" || definition.fieldType === "currency") {
+      const min = filter.min?.trim() ? parseNumber(filter.min) : null;
+      const max = filter.max?.trim() ? parseNumber(filter.max) : null;
+      if (min !== null && (value as number) < min) return false;
+      if (max !== null && (value as number) > max) return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Compare two values of a field for sorting, always placing empty values last
+ */
+export function compareCustomFieldValues(
+  definition: CustomFieldDefinition,
+  a: CustomFieldValue | null | undefined,
+  b: CustomFieldValue | null | undefined,
+  direction: "asc" | "desc" = "asc"
+): number {
+  if (isEmpty(a) && isEmpty(b)) return 0;
+  if (isEmpty(a)) return 1;
+  if (isEmpty(b)) return -1;
+
+  const order = direction === "asc" ? 1 : -1;
+  if (definition.fieldType === "number" || definition.fieldType === "currency") {
+    return ((a as number) - (b as number)) * order;
+  }
+  return formatCustomFieldValue(definition, a).localeCompare(formatCustomFieldValue(definition, b)) * order;
+}
+
+/**
+ * Split a "custom:<key>" or "custom:<key>:desc" sort option into its parts
+ */
+export function parseCustomFieldSort(sortBy: string): { key: string; direction: "asc" | "desc" } | null {
+  if (!sortBy.startsWith(CUSTOM_FIELD_PREFIX)) return null;
+  const [key, direction] = sortBy.slice(CUSTOM_FIELD_PREFIX.length).split(":");
+  return key ? { key, direction: direction === "desc" ? "desc" : "asc" } : null;
+}
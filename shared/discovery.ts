@@ -0,0 +1,64 @@
+/**
+ * Lead discovery
+ * Result page sizes offered on the Discover page and accepted by leads.discover,
+ * and the data sources a search can draw on
+ */
+
+export const DISCOVERY_PAGE_SIZES = [5, 10, 25, 50] as const;
+
+export const DEFAULT_DISCOVERY_PAGE_SIZE = 10;
+
+export const MAX_DISCOVERY_PAGE_SIZE = 50;
+
+export const LEAD_SOURCE_IDS = ["apollo", "localDataset", "llm", "testData"] as const;
+
+export type LeadSourceId = (typeof LEAD_SOURCE_IDS)[number];
+
+export const LEAD_SOURCE_LABELS: Record<LeadSourceId, string> = {
+  apollo: "Apollo.io",
+  localDataset: "Company Database",
+  llm: "AI Templates",
+  testData: "Sample Data",
+};
+
+/**
+ * Saved search monitors: how often they re-run, and what became of each company they found
+ */
+export const SEARCH_MONITOR_SCHEDULES = [
+  { label: "Every 6 hours", cronExpression: "0 */6 * * *" },
+  { label: "Daily", cronExpression: "0 7 * * *" },
+  { label: "Weekly (Mondays)", cronExpression: "0 7 * * 1" },
+] as const;
+
+// new = surfaced for review; existingLead = already one of the user's leads when first seen
+export const MONITOR_MATCH_STATUSES = ["new", "existingLead", "imported", "dismissed"] as const;
+
+export type MonitorMatchStatus = (typeof MONITOR_MATCH_STATUSES)[number];
+
+/**
+ * Structured Apollo organization filters understood from a natural-language query
+ * Employee ranges use Apollo's "min,max" form
+ */
+export interface ParsedSearchFilters {
+  industries: string[];
+  keywords: string[];
+  employeeRanges: string[];
+  locations: string[];
+  technologies: string[];
+}
+
+export const PARSED_FILTER_LABELS: Record<keyof ParsedSearchFilters, string> = {
+  industries: "Industries",
+  keywords: "Keywords",
+  employeeRanges: "Employees",
+  locations: "Locations",
+  technologies: "Technologies",
+};
+
+/**
+ * "51,200" -> "51-200", "50,999999" -> "50+"
+ */
+export function formatEmployeeRange(range: string) {
+  const [min, max] = range.split(",");
+  return !max || Number(max) >= 999999 ? `${min}+` : `${min}-${max}`;
+}
@@ -0,0 +1,24 @@
+/**
+ * Email deliverability
+ * Whether mail to an address is likely to arrive, as the email verifier found by checking its
+ * syntax, the domain's mail servers and whether the mail server accepts the mailbox.
+ * Shared by the server (verification, blocking sends) and the lead pages (status badges)
+ */
+
+export const EMAIL_STATUSES = ["valid", "risky", "invalid", "unknown"] as const;
+
+export type EmailStatus = (typeof EMAIL_STATUSES)[number];
+
+export const EMAIL_STATUS_LABELS: Record<EmailStatus, string> = {
+  valid: "Valid",
+  risky: "Risky",
+  invalid: "Invalid",
+  unknown: "Unverified",
+};
+
+export interface EmailVerification {
+  email: string;
+  status: EmailStatus;
+  reason: string; // Why, in words the user can act on
+  checkedAt: Date;
+}
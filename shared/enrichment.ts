@@ -0,0 +1,76 @@
+/**
+ * Lead enrichment
+ * Facts enrichers store about a lead in enrichmentData, and how the lead detail page labels them.
+ * Each fact is a dataType (what kind of fact) and dataKey (which one), with a JSON value
+ */
+
+export const ENRICHER_IDS = ["website", "techStack", "apollo"] as const;
+
+export type EnricherId = (typeof ENRICHER_IDS)[number];
+
+export const ENRICHER_LABELS: Record<EnricherId, string> = {
+  website: "Company Website",
+  techStack: "Tech Stack Detection",
+  apollo: "Apollo.io",
+};
+
+export const ENRICHMENT_DATA_TYPES = ["firmographic", "technology", "social", "contact"] as const;
+
+export type EnrichmentDataType = (typeof ENRICHMENT_DATA_TYPES)[number];
+
+export const ENRICHMENT_DATA_TYPE_LABELS: Record<EnrichmentDataType, string> = {
+  firmographic: "Company",
+  technology: "Technology",
+  social: "Social Profiles",
+  contact: "Contact Details",
+};
+
+/** Labels for the facts enrichers write; unknown keys are shown as they are */
+export const ENRICHMENT_FACT_LABELS: Record<string, string> = {
+  name: "Name",
+  industry: "Industry",
+  employee_count: "Employees",
+  location: "Location",
+  description: "Description",
+  founded_year: "Founded",
+  site_title: "Website Title",
+  linkedin_url: "LinkedIn",
+  twitter_url: "Twitter / X",
+  facebook_url: "Facebook",
+  phone: "Phone",
+  email: "Email",
+};
+
+/**
+ * Technologies are stored one fact each: dataType "technology", dataKey the technology's name and
+ * the value its category. Below this confidence a detection isn't used to filter or score leads
+ */
+export const TECHNOLOGY_MIN_CONFIDENCE = 50;
+
+/** A value as stored: text, a number, or a list (like technologies) */
+export type EnrichmentValue = string | number | string[];
+
+/**
+ * What enrichment knows about one fact once every source's value for it is weighed up
+ * Sources that agree raise the confidence; values that lost out are kept as alternatives
+ */
+export interface ReconciledFact {
+  dataType: string;
+  dataKey: string;
+  value: EnrichmentValue;
+  confidence: number; // 0-100
+  sources: string[];
+  alternatives: { value: EnrichmentValue; confidence: number; sources: string[] }[];
+  updatedAt: Date;
+}
+
+export function formatEnrichmentValue(value: EnrichmentValue) {
+  return Array.isArray(value) ? value.join(", ") : String(value);
+}
+
+/**
+ * Independent sources (or signals) agreeing make a fact more likely: 70 and 60 together are 88
+ */
+export function combinedConfidence(confidences: number[]) {
+  return Math.round(100 * (1 - confidences.reduce((doubt, confidence) => doubt * (1 - confidence / 100), 1)));
+}
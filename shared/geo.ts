@@ -0,0 +1,64 @@
+/**
+ * Lead locations
+ * Coordinates geocoded from a lead's location, and the geometry for working with them.
+ * Shared by the server (nearby leads) and the map page (plotting, drawn regions)
+ */
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+// Radii offered for nearby leads, in kilometres
+export const NEARBY_RADII_KM = [10, 25, 50, 100, 250] as const;
+
+export const DEFAULT_NEARBY_RADIUS_KM = 50;
+
+const EARTH_RADIUS_KM = 6371;
+
+function toRadians(degrees: number) {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance between two points, in kilometres
+ */
+export function distanceKm(a: LatLng, b: LatLng): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * The latitude and longitude ranges within a radius of a point, for narrowing a search before measuring
+ */
+export function boundingBox(center: LatLng, radiusKm: number) {
+  const latDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  // Near the poles every longitude is close, so don't narrow by longitude at all
+  const cosLat = Math.cos(toRadians(center.lat));
+  const lngDelta = cosLat > 0.01 ? latDelta / cosLat : 180;
+  return {
+    minLat: center.lat - latDelta,
+    maxLat: center.lat + latDelta,
+    minLng: center.lng - lngDelta,
+    maxLng: center.lng + lngDelta,
+  };
+}
+
+/**
+ * Whether a point is inside a polygon drawn on the map (ray casting; the polygon closes itself)
+ */
+export function pointInPolygon(point: LatLng, polygon: LatLng[]): boolean {
+  if (polygon.length < 3) return false;
+
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses = (a.lat > point.lat) !== (b.lat > point.lat) &&
+      point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
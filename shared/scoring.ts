@@ -0,0 +1,115 @@
+/**
+ * Lead scoring model
+ * How a user's leads are scored: how much each factor counts, which industries, company sizes
+ * and technologies fit, and where the priority buckets start. Shared by the server (scoring,
+ * priority filters) and the client (the scoring settings page and priority badges)
+ */
+
+export const SCORING_FACTORS = [
+  "companySize",
+  "industryFit",
+  "contactCompleteness",
+  "engagement",
+  "dataQuality",
+  "technologyFit",
+] as const;
+
+export type ScoringFactor = (typeof SCORING_FACTORS)[number];
+
+export const SCORING_FACTOR_LABELS: Record<ScoringFactor, string> = {
+  companySize: "Company Size",
+  industryFit: "Industry Fit",
+  contactCompleteness: "Contact Completeness",
+  engagement: "Email Engagement",
+  dataQuality: "Data Quality",
+  technologyFit: "Technology Fit",
+};
+
+// Employee count bands, smallest first; a company is in the last band whose minimum it reaches
+export const COMPANY_SIZE_BANDS = [
+  { id: "1-10", min: 1 },
+  { id: "11-50", min: 11 },
+  { id: "51-200", min: 51 },
+  { id: "201-500", min: 201 },
+  { id: "501-1000", min: 501 },
+  { id: "1001-5000", min: 1001 },
+  { id: "5001-10000", min: 5001 },
+  { id: "10001+", min: 10001 },
+] as const;
+
+export type CompanySizeBand = (typeof COMPANY_SIZE_BANDS)[number]["id"];
+
+export const SCORE_PRIORITIES = ["high", "medium", "low"] as const;
+
+export type ScorePriority = (typeof SCORE_PRIORITIES)[number];
+
+export interface ScoringModel {
+  // Relative weight of each factor; technology fit takes its share from the others, and only once a lead's technologies are known
+  weights: Record<ScoringFactor, number>;
+  targetIndustries: string[]; // Industry keywords that fit best
+  secondaryIndustries: string[]; // Industry keywords that fit, less well
+  targetTechnologies: string[]; // Tools a prospect should already run
+  companySizeScores: Record<CompanySizeBand, number>; // 0-100 per band
+  thresholds: { high: number; medium: number }; // Lowest score in each priority bucket
+}
+
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+  weights: {
+    companySize: 25,
+    industryFit: 20,
+    contactCompleteness: 25,
+    engagement: 20,
+    dataQuality: 10,
+    technologyFit: 10,
+  },
+  targetIndustries: ["technology", "software", "saas", "fintech", "healthcare", "finance", "consulting", "enterprise", "b2b"],
+  secondaryIndustries: ["manufacturing", "retail", "e-commerce", "education", "marketing", "advertising", "real estate"],
+  targetTechnologies: ["HubSpot", "Salesforce", "Shopify", "Marketo", "Pardot"],
+  companySizeScores: {
+    "1-10": 40,
+    "11-50": 50,
+    "51-200": 60,
+    "201-500": 70,
+    "501-1000": 80,
+    "1001-5000": 90,
+    "5001-10000": 90,
+    "10001+": 100,
+  },
+  thresholds: { high: 70, medium: 40 },
+};
+
+/**
+ * Map a 0-100 score onto its priority bucket
+ */
+export function priorityForScore(score: number, thresholds: ScoringModel["thresholds"] = DEFAULT_SCORING_MODEL.thresholds): ScorePriority {
+  return score >= thresholds.high ? "high" : score >= thresholds.medium ? "medium" : "low";
+}
+
+/**
+ * The size band a company size falls in, read from text like "51-200", "1,200 employees" or "10000+"
+ * A range counts as its midpoint, so "50-200" and "51-200" land in the same band; null when no size can be read
+ */
+export function companySizeBand(companySize: string | null | undefined): CompanySizeBand | null {
+  if (!companySize) return null;
+
+  const size = companySize.toLowerCase().replace(/(\d),(?=\d{3})/g, "$1");
+  let employees: number | null = null;
+  const range = size.match(/(\d+)\s*(?:-|–|to)\s*(\d+)/);
+  const single = size.match(/(\d+)\s*(\+)?/);
+  if (range) {
+    employees = (Number(range[1]) + Number(range[2])) / 2;
+  } else if (single) {
+    employees = Number(single[1]) + (single[2] ? 1 : 0); // "10000+" is more than 10000
+  } else if (size.includes("enterprise")) {
+    employees = COMPANY_SIZE_BANDS[COMPANY_SIZE_BANDS.length - 1].min;
+  } else if (size.includes("startup")) {
+    employees = COMPANY_SIZE_BANDS[0].min;
+  }
+  if (employees === null || employees < 1) return null;
+
+  let band: CompanySizeBand = COMPANY_SIZE_BANDS[0].id;
+  for (const candidate of COMPANY_SIZE_BANDS) {
+    if (employees >= candidate.min) band = candidate.id;
+  }
+  return band;
+}
@@ -0,0 +1,71 @@
+/**
+ * Lead tags
+ * Shared by the server (storage, filtering, import) and the client (pickers, badges).
+ * Tags are per-user records linked to leads; names are unique per user ignoring case
+ */
+
+export interface LeadTag {
+  id: number;
+  name: string;
+  color: string; // Hex, e.g. #3b82f6
+}
+
+export const TAG_NAME_MAX_LENGTH = 64;
+
+export const TAG_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/** Palette offered when picking a tag color; new tags get one based on their name */
+export const TAG_COLORS = [
+  "#6b7280", // Gray
+  "#ef4444", // Red
+  "#f97316", // Orange
+  "#eab308", // Yellow
+  "#22c55e", // Green
+  "#14b8a6", // Teal
+  "#3b82f6", // Blue
+  "#8b5cf6", // Violet
+  "#ec4899", // Pink
+] as const;
+
+/**
+ * Trim and collapse whitespace in a tag name
+ */
+export function normalizeTagName(name: string): string {
+  return name.trim().replace(/\s+/g, " ").slice(0, TAG_NAME_MAX_LENGTH).trim();
+}
+
+/**
+ * Split free text into tag names: a JSON array, or a comma, semicolon or line separated list
+ * Names repeated with different casing are kept once
+ */
+export function parseTagList(text: string | null | undefined): string[] {
+  if (!text?.trim()) return [];
+
+  let names: string[] | null = null;
+  if (text.trim().startsWith("[")) {
+    try {
+      const parsed = JSON.parse(text);
+      if (Array.isArray(parsed)) names = parsed.map(String);
+    } catch {
+      // Fall through to list parsing
+    }
+  }
+  names ??= text.split(/[,;\r\n]+/);
+
+  const unique = new Map<string, string>();
+  for (const name of names.map(normalizeTagName).filter(Boolean)) {
+    if (!unique.has(name.toLowerCase())) unique.set(name.toLowerCase(), name);
+  }
+  return Array.from(unique.values());
+}
+
+/**
+ * A stable palette color for a tag name, so auto-created tags are told apart
+ */
+export function defaultTagColor(name: string): string {
+  let hash = 0;
+  for (const char of name.toLowerCase()) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return TAG_COLORS[hash % TAG_COLORS.length];
+}